@@ -0,0 +1,507 @@
+"use client";
+
+import { Result, useAtom, useAtomValue } from "@effect-atom/atom-react";
+import {
+	Avatar,
+	AvatarFallback,
+	AvatarImage,
+} from "@packages/ui/components/avatar";
+import { Button } from "@packages/ui/components/button";
+import {
+	ArrowLeft,
+	GitBranch,
+	GitCommit,
+	Info,
+} from "@packages/ui/components/icons";
+import { Input } from "@packages/ui/components/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@packages/ui/components/select";
+import { Separator } from "@packages/ui/components/separator";
+import { Skeleton } from "@packages/ui/components/skeleton";
+import { Switch } from "@packages/ui/components/switch";
+import { Textarea } from "@packages/ui/components/textarea";
+import { useCodeBrowse } from "@packages/ui/rpc/code-browse";
+import { useGithubWrite } from "@packages/ui/rpc/github-write";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { PatchDiff } from "@pierre/diffs/react";
+import { Option } from "effect";
+import { useRouter } from "next/navigation";
+import { useId, useMemo, useState } from "react";
+import { extractErrorMessage } from "@/lib/rpc-error";
+import {
+	ChangeStatsBar,
+	FileStatusBadge,
+} from "../../pull/[number]/pr-detail-client";
+
+type BranchItem = {
+	readonly name: string;
+	readonly isDefault: boolean;
+};
+
+type CompareCommit = {
+	readonly sha: string;
+	readonly messageHeadline: string;
+	readonly authorLogin: string | null;
+	readonly authorAvatarUrl: string | null;
+	readonly authoredAt: number | null;
+};
+
+type CompareFile = {
+	readonly filename: string;
+	readonly previousFilename: string | null;
+	readonly status:
+		| "added"
+		| "removed"
+		| "modified"
+		| "renamed"
+		| "copied"
+		| "changed"
+		| "unchanged";
+	readonly additions: number;
+	readonly deletions: number;
+	readonly patch: string | null;
+};
+
+/** Branch names keep their slashes as path segments, like GitHub's URLs. */
+const encodeRef = (ref: string) =>
+	ref.split("/").map(encodeURIComponent).join("/");
+
+const compareHref = (owner: string, name: string, base: string, head: string) =>
+	`/${owner}/${name}/compare/${encodeRef(base)}...${encodeRef(head)}`;
+
+/** "fix/login-redirect" → "Fix/login redirect", GitHub's default PR title. */
+const titleFromBranch = (branch: string) => {
+	const spaced = branch.replace(/[-_]+/g, " ").trim();
+	return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+};
+
+/**
+ * Compare two branches and open a pull request between them. Shows the
+ * commits and file diffs `head` would bring into `base`.
+ */
+export function CompareClient({
+	owner,
+	name,
+	repositoryId,
+	base,
+	head,
+}: {
+	owner: string;
+	name: string;
+	repositoryId: number;
+	base: string | null;
+	head: string | null;
+}) {
+	const router = useRouter();
+	const projectionClient = useProjectionQueries();
+	const branchesAtom = useMemo(
+		() =>
+			projectionClient.listBranches.subscription({
+				ownerLogin: owner,
+				name,
+			}),
+		[projectionClient, owner, name],
+	);
+	const branches: ReadonlyArray<BranchItem> = Option.getOrElse(
+		Result.value(useAtomValue(branchesAtom)),
+		() => [],
+	);
+
+	const defaultBranch =
+		branches.find((branch) => branch.isDefault)?.name ?? "main";
+	const baseRef = base ?? defaultBranch;
+
+	const selectBranches = (nextBase: string, nextHead: string | null) => {
+		if (nextHead === null) return;
+		router.push(compareHref(owner, name, nextBase, nextHead));
+	};
+
+	return (
+		<div className="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8">
+			<div className="mb-4">
+				<h1 className="text-lg font-semibold tracking-tight">
+					{head === null ? "Compare changes" : "Open a pull request"}
+				</h1>
+				<p className="mt-0.5 text-xs text-muted-foreground">
+					Choose two branches to see what changed and start a pull request.
+				</p>
+			</div>
+
+			<div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border bg-muted/20 p-2">
+				<GitBranch className="size-3.5 text-muted-foreground" />
+				<BranchSelect
+					label="base"
+					value={baseRef}
+					branches={branches}
+					onChange={(next) => selectBranches(next, head)}
+				/>
+				<ArrowLeft className="size-3.5 text-muted-foreground" />
+				<BranchSelect
+					label="compare"
+					value={head}
+					branches={branches}
+					onChange={(next) => selectBranches(baseRef, next)}
+				/>
+			</div>
+
+			{head === null ? (
+				<p className="text-sm text-muted-foreground">
+					Pick a branch to compare against {baseRef}.
+				</p>
+			) : head === baseRef ? (
+				<p className="text-sm text-muted-foreground">
+					Choose different branches to compare.
+				</p>
+			) : (
+				<CompareResult
+					owner={owner}
+					name={name}
+					repositoryId={repositoryId}
+					base={baseRef}
+					head={head}
+				/>
+			)}
+		</div>
+	);
+}
+
+function BranchSelect({
+	label,
+	value,
+	branches,
+	onChange,
+}: {
+	label: string;
+	value: string | null;
+	branches: ReadonlyArray<BranchItem>;
+	onChange: (branch: string) => void;
+}) {
+	// Keep refs typed into the URL selectable even if they aren't mirrored
+	const names = branches.map((branch) => branch.name);
+	if (value !== null && !names.includes(value)) names.unshift(value);
+
+	return (
+		<Select value={value ?? undefined} onValueChange={onChange}>
+			<SelectTrigger className="h-8 w-56 text-xs">
+				<span className="text-muted-foreground">{label}:</span>
+				<SelectValue placeholder="Choose a branch" />
+			</SelectTrigger>
+			<SelectContent>
+				{names.map((branchName) => (
+					<SelectItem
+						key={branchName}
+						value={branchName}
+						className="font-mono text-xs"
+					>
+						{branchName}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
+function CompareResult({
+	owner,
+	name,
+	repositoryId,
+	base,
+	head,
+}: {
+	owner: string;
+	name: string;
+	repositoryId: number;
+	base: string;
+	head: string;
+}) {
+	const codeClient = useCodeBrowse();
+	const compareAtom = useMemo(
+		() =>
+			codeClient.compareRefs.callAsQuery({
+				ownerLogin: owner,
+				name,
+				base,
+				head,
+			}),
+		[codeClient, owner, name, base, head],
+	);
+	const compareResult = useAtomValue(compareAtom);
+
+	if (Result.isFailure(compareResult)) {
+		const message = Option.match(Result.error(compareResult), {
+			onNone: () => null,
+			onSome: (error) => extractErrorMessage(error),
+		});
+		return (
+			<p className="text-sm text-destructive">
+				{message ?? "Could not load the comparison."} Please try again.
+			</p>
+		);
+	}
+
+	const compareOption = Result.value(compareResult);
+	if (Option.isNone(compareOption)) {
+		return (
+			<div className="space-y-3">
+				<Skeleton className="h-24 w-full rounded-md" />
+				<Skeleton className="h-48 w-full rounded-md" />
+			</div>
+		);
+	}
+
+	const compare = compareOption.value;
+	if (compare === null) {
+		return (
+			<p className="text-sm text-muted-foreground">
+				There isn’t anything to compare — one of these branches doesn’t exist.
+			</p>
+		);
+	}
+
+	if (compare.aheadBy === 0) {
+		return (
+			<p className="text-sm text-muted-foreground">
+				{base} is up to date with all commits from {head}.
+			</p>
+		);
+	}
+
+	const [onlyCommit] = compare.commits;
+	const defaultTitle =
+		compare.commits.length === 1 && onlyCommit !== undefined
+			? onlyCommit.messageHeadline
+			: titleFromBranch(head);
+
+	return (
+		<div className="space-y-6">
+			<NewPullRequestForm
+				key={`${base}...${head}`}
+				owner={owner}
+				name={name}
+				repositoryId={repositoryId}
+				base={base}
+				head={head}
+				defaultTitle={defaultTitle}
+			/>
+
+			<Separator />
+
+			<section>
+				<h2 className="mb-2 flex items-center gap-1.5 text-sm font-semibold">
+					<GitCommit className="size-3.5 text-muted-foreground" />
+					{compare.totalCommits}{" "}
+					{compare.totalCommits === 1 ? "commit" : "commits"}
+					{compare.behindBy > 0 && (
+						<span className="text-xs font-normal text-muted-foreground">
+							· {base} is {compare.behindBy} ahead
+						</span>
+					)}
+				</h2>
+				<CommitList commits={compare.commits} />
+			</section>
+
+			<section>
+				<h2 className="mb-2 text-sm font-semibold">
+					{compare.files.length} {compare.files.length === 1 ? "file" : "files"}{" "}
+					changed
+				</h2>
+				<div className="space-y-3">
+					{compare.files.map((file) => (
+						<CompareFileDiff key={file.filename} file={file} />
+					))}
+				</div>
+			</section>
+		</div>
+	);
+}
+
+function NewPullRequestForm({
+	owner,
+	name,
+	repositoryId,
+	base,
+	head,
+	defaultTitle,
+}: {
+	owner: string;
+	name: string;
+	repositoryId: number;
+	base: string;
+	head: string;
+	defaultTitle: string;
+}) {
+	const router = useRouter();
+	const writeClient = useGithubWrite();
+	const [createResult, createPullRequest] = useAtom(
+		writeClient.createPullRequest.call,
+		{ mode: "promise" },
+	);
+	const correlationPrefix = useId();
+	const [title, setTitle] = useState(defaultTitle);
+	const [body, setBody] = useState("");
+	const [draft, setDraft] = useState(false);
+
+	const isSubmitting = Result.isWaiting(createResult);
+	const errorMessage = Option.match(Result.error(createResult), {
+		onNone: () => null,
+		onSome: (error) =>
+			extractErrorMessage(error) ?? "Failed to create pull request.",
+	});
+
+	const handleSubmit = async () => {
+		if (title.trim().length === 0) return;
+		try {
+			const created = await createPullRequest({
+				correlationId: `${correlationPrefix}-create-pr-${Date.now()}`,
+				ownerLogin: owner,
+				name,
+				repositoryId,
+				title: title.trim(),
+				body: body.trim().length > 0 ? body.trim() : undefined,
+				base,
+				head,
+				draft,
+			});
+			router.push(`/${owner}/${name}/pull/${created.number}`);
+		} catch {
+			// Error is captured in createResult for display
+		}
+	};
+
+	return (
+		<section className="space-y-3">
+			<Input
+				placeholder="Title"
+				value={title}
+				onChange={(event) => setTitle(event.target.value)}
+				disabled={isSubmitting}
+				className="h-10 text-base font-medium"
+			/>
+			<Textarea
+				placeholder="Add a description..."
+				value={body}
+				onChange={(event) => setBody(event.target.value)}
+				disabled={isSubmitting}
+				rows={8}
+				className="text-sm leading-relaxed"
+			/>
+			<p className="flex items-center gap-1 text-[11px] text-muted-foreground">
+				<Info className="size-3" />
+				Markdown is supported
+			</p>
+			<div className="flex items-center justify-between gap-3">
+				<div>
+					{errorMessage !== null && (
+						<p className="text-xs text-destructive">{errorMessage}</p>
+					)}
+				</div>
+				<div className="flex items-center gap-3">
+					<label className="flex items-center gap-2 text-xs text-muted-foreground">
+						<Switch
+							checked={draft}
+							onCheckedChange={setDraft}
+							disabled={isSubmitting}
+						/>
+						Draft
+					</label>
+					<Button
+						size="sm"
+						disabled={title.trim().length === 0 || isSubmitting}
+						onClick={handleSubmit}
+					>
+						{isSubmitting
+							? "Creating..."
+							: draft
+								? "Create draft pull request"
+								: "Create pull request"}
+					</Button>
+				</div>
+			</div>
+		</section>
+	);
+}
+
+function CommitList({ commits }: { commits: ReadonlyArray<CompareCommit> }) {
+	return (
+		<ul className="divide-y rounded-md border">
+			{commits.map((commit) => (
+				<li key={commit.sha} className="flex items-center gap-2 px-3 py-2">
+					<Avatar className="size-5">
+						{commit.authorAvatarUrl !== null && (
+							<AvatarImage src={commit.authorAvatarUrl} />
+						)}
+						<AvatarFallback className="text-[9px]">
+							{(commit.authorLogin ?? "?").slice(0, 2).toUpperCase()}
+						</AvatarFallback>
+					</Avatar>
+					<span className="min-w-0 flex-1 truncate text-sm">
+						{commit.messageHeadline}
+					</span>
+					{commit.authorLogin !== null && (
+						<span className="shrink-0 text-xs text-muted-foreground">
+							{commit.authorLogin}
+						</span>
+					)}
+					<code className="shrink-0 font-mono text-[11px] text-muted-foreground">
+						{commit.sha.slice(0, 7)}
+					</code>
+				</li>
+			))}
+		</ul>
+	);
+}
+
+function CompareFileDiff({ file }: { file: CompareFile }) {
+	const totalChanges = file.additions + file.deletions;
+
+	return (
+		<div className="min-w-0 rounded-lg border">
+			<div className="flex items-center gap-2 rounded-t-lg bg-muted/30 px-3 py-2">
+				<FileStatusBadge status={file.status} />
+				<span className="min-w-0 truncate font-mono text-[12px] font-medium text-foreground/90">
+					{file.filename}
+				</span>
+				{file.previousFilename && file.status === "renamed" && (
+					<span className="truncate text-[10px] text-muted-foreground/50">
+						(from {file.previousFilename})
+					</span>
+				)}
+				{totalChanges > 0 && (
+					<div className="ml-auto flex shrink-0 items-center gap-2.5">
+						<span className="font-mono text-[11px] tabular-nums text-github-open">
+							+{file.additions}
+						</span>
+						<span className="font-mono text-[11px] tabular-nums text-github-closed">
+							-{file.deletions}
+						</span>
+						<ChangeStatsBar
+							additions={file.additions}
+							deletions={file.deletions}
+						/>
+					</div>
+				)}
+			</div>
+			{file.patch !== null ? (
+				<div className="overflow-x-auto border-t">
+					<PatchDiff
+						patch={file.patch}
+						options={{
+							diffStyle: "unified",
+							disableFileHeader: true,
+							hunkSeparators: "line-info",
+						}}
+					/>
+				</div>
+			) : (
+				<div className="border-t bg-muted/10 px-4 py-4 text-center text-xs text-muted-foreground/60">
+					No inline patch available (binary file or GitHub truncation)
+				</div>
+			)}
+		</div>
+	);
+}
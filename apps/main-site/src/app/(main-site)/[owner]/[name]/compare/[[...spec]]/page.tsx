@@ -0,0 +1,91 @@
+import { Skeleton } from "@packages/ui/components/skeleton";
+import { Suspense } from "react";
+import { serverQueries } from "@/lib/server-queries";
+import { CompareClient } from "./compare-client";
+
+/**
+ * `/compare`, `/compare/:head` or `/compare/:base...:head`, like GitHub.
+ * Branch names may contain slashes, so the range arrives split across
+ * segments and is rejoined before splitting on `...`.
+ */
+function parseCompareSpec(spec: ReadonlyArray<string> | undefined) {
+	if (spec === undefined || spec.length === 0) {
+		return { base: null, head: null };
+	}
+	const range = spec.map((segment) => decodeURIComponent(segment)).join("/");
+	const separator = range.indexOf("...");
+	if (separator === -1) return { base: null, head: range };
+	return {
+		base: range.slice(0, separator) || null,
+		head: range.slice(separator + 3) || null,
+	};
+}
+
+export default async function ComparePage(props: {
+	params: Promise<{ owner: string; name: string; spec?: Array<string> }>;
+}) {
+	const { owner, name, spec } = await props.params;
+	const { base, head } = parseCompareSpec(spec);
+
+	return (
+		<div className="h-full overflow-y-auto">
+			<Suspense fallback={<CompareSkeleton />}>
+				<CompareContent owner={owner} name={name} base={base} head={head} />
+			</Suspense>
+		</div>
+	);
+}
+
+async function CompareContent({
+	owner,
+	name,
+	base,
+	head,
+}: {
+	owner: string;
+	name: string;
+	base: string | null;
+	head: string | null;
+}) {
+	const overview = await serverQueries.getRepoOverview.queryPromise({
+		ownerLogin: owner,
+		name,
+	});
+
+	if (overview === null) {
+		return (
+			<div className="flex h-full items-center justify-center">
+				<p className="text-sm text-muted-foreground">
+					Repository not found or not synced yet.
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<CompareClient
+			owner={owner}
+			name={name}
+			repositoryId={overview.repositoryId}
+			base={base}
+			head={head}
+		/>
+	);
+}
+
+function CompareSkeleton() {
+	return (
+		<div className="animate-pulse p-4 space-y-4">
+			{/* Branch pickers */}
+			<div className="flex gap-2">
+				<Skeleton className="h-8 w-40 rounded" />
+				<Skeleton className="h-8 w-40 rounded" />
+			</div>
+			{/* Title + body */}
+			<Skeleton className="h-9 w-full rounded-md" />
+			<Skeleton className="h-32 w-full rounded-md" />
+			{/* Commits */}
+			<Skeleton className="h-24 w-full rounded-md" />
+		</div>
+	);
+}
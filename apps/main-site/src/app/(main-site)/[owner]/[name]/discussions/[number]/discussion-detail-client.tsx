@@ -0,0 +1,301 @@
+"use client";
+
+import { useSubscriptionWithInitial } from "@packages/confect/rpc";
+import {
+	Avatar,
+	AvatarFallback,
+	AvatarImage,
+} from "@packages/ui/components/avatar";
+import { Badge } from "@packages/ui/components/badge";
+import { Card, CardContent, CardHeader } from "@packages/ui/components/card";
+import {
+	ArrowUp,
+	CheckCircle2,
+	ExternalLink,
+	MessagesSquare,
+} from "@packages/ui/components/icons";
+import { cn } from "@packages/ui/lib/utils";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { useMemo } from "react";
+import { IssueDetailSkeleton } from "@/app/(main-site)/_components/skeletons";
+import { MarkdownBody } from "@/components/markdown-body";
+
+type DiscussionComment = {
+	readonly githubCommentId: number;
+	readonly parentCommentId: number | null;
+	readonly authorLogin: string | null;
+	readonly authorAvatarUrl: string | null;
+	readonly body: string;
+	readonly upvoteCount: number;
+	readonly isAnswer: boolean;
+	readonly createdAt: number;
+};
+
+type DiscussionDetail = {
+	readonly repositoryId: number;
+	readonly number: number;
+	readonly state: "open" | "closed";
+	readonly stateReason: string | null;
+	readonly title: string;
+	readonly body: string | null;
+	readonly authorLogin: string | null;
+	readonly authorAvatarUrl: string | null;
+	readonly categoryName: string | null;
+	readonly categoryIsAnswerable: boolean;
+	readonly locked: boolean;
+	readonly upvoteCount: number;
+	readonly commentCount: number;
+	readonly htmlUrl: string | null;
+	readonly createdAt: number;
+	readonly closedAt: number | null;
+	readonly githubUpdatedAt: number;
+	readonly comments: readonly DiscussionComment[];
+};
+
+/**
+ * Read-only view of a discussion: the opening post, the accepted answer
+ * (for Q&A categories), and the comment threads with their replies.
+ */
+export function DiscussionDetailClient({
+	owner,
+	name,
+	discussionNumber,
+	initialDiscussion,
+}: {
+	owner: string;
+	name: string;
+	discussionNumber: number;
+	initialDiscussion: DiscussionDetail | null;
+}) {
+	const client = useProjectionQueries();
+	const discussionAtom = useMemo(
+		() =>
+			client.getDiscussionDetail.subscription({
+				ownerLogin: owner,
+				name,
+				number: discussionNumber,
+			}),
+		[client, owner, name, discussionNumber],
+	);
+
+	const discussion = useSubscriptionWithInitial(
+		discussionAtom,
+		initialDiscussion,
+	);
+
+	// Comments arrive oldest-first; replies hang off their top-level comment
+	const threads = useMemo(() => {
+		const comments = discussion?.comments ?? [];
+		const repliesByParent = new Map<number, Array<DiscussionComment>>();
+		for (const comment of comments) {
+			if (comment.parentCommentId === null) continue;
+			const replies = repliesByParent.get(comment.parentCommentId) ?? [];
+			replies.push(comment);
+			repliesByParent.set(comment.parentCommentId, replies);
+		}
+		return comments
+			.filter((comment) => comment.parentCommentId === null)
+			.map((comment) => ({
+				comment,
+				replies: repliesByParent.get(comment.githubCommentId) ?? [],
+			}));
+	}, [discussion]);
+
+	if (discussion === null) {
+		return <IssueDetailSkeleton />;
+	}
+
+	const answer = discussion.comments.find((comment) => comment.isAnswer);
+
+	return (
+		<div className="h-full overflow-y-auto">
+			<div className="p-4 max-w-4xl">
+				{/* Header */}
+				<div className="flex items-start gap-2.5">
+					{answer !== undefined ? (
+						<CheckCircle2 className="mt-1 size-5 text-github-open shrink-0" />
+					) : (
+						<MessagesSquare
+							className={cn(
+								"mt-1 size-5 shrink-0",
+								discussion.state === "open"
+									? "text-muted-foreground"
+									: "text-github-merged",
+							)}
+						/>
+					)}
+					<div className="min-w-0 flex-1">
+						<h1 className="text-base font-bold break-words leading-snug tracking-tight">
+							{discussion.title}
+						</h1>
+						<div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+							<span className="tabular-nums">#{discussion.number}</span>
+							{discussion.categoryName !== null && (
+								<Badge variant="outline" className="text-[10px]">
+									{discussion.categoryName}
+								</Badge>
+							)}
+							{discussion.state === "closed" && (
+								<Badge variant="secondary" className="text-[10px]">
+									Closed
+									{discussion.stateReason !== null
+										? ` as ${discussion.stateReason}`
+										: ""}
+								</Badge>
+							)}
+							{discussion.locked && (
+								<Badge variant="secondary" className="text-[10px]">
+									Locked
+								</Badge>
+							)}
+							{discussion.authorLogin && (
+								<span className="flex items-center gap-1">
+									<Avatar className="size-4">
+										<AvatarImage
+											src={discussion.authorAvatarUrl ?? undefined}
+										/>
+										<AvatarFallback className="text-[8px]">
+											{discussion.authorLogin[0]?.toUpperCase()}
+										</AvatarFallback>
+									</Avatar>
+									<span className="font-medium">{discussion.authorLogin}</span>
+								</span>
+							)}
+							<span>started {formatRelative(discussion.createdAt)}</span>
+						</div>
+					</div>
+					{discussion.htmlUrl !== null && (
+						<a
+							href={discussion.htmlUrl}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground shrink-0"
+						>
+							GitHub
+							<ExternalLink className="size-3" />
+						</a>
+					)}
+				</div>
+
+				{/* Body */}
+				{discussion.body && (
+					<Card className="mt-3">
+						<CardContent>
+							<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-sm leading-relaxed">
+								<MarkdownBody>{discussion.body}</MarkdownBody>
+							</div>
+							<UpvoteCount count={discussion.upvoteCount} className="mt-3" />
+						</CardContent>
+					</Card>
+				)}
+
+				{/* Accepted answer */}
+				{answer !== undefined && (
+					<div className="mt-4">
+						<h2 className="mb-1.5 text-xs font-bold uppercase tracking-wider text-muted-foreground/70">
+							Answer
+						</h2>
+						<DiscussionCommentCard comment={answer} />
+					</div>
+				)}
+
+				{/* Comments */}
+				{threads.length > 0 && (
+					<div className="mt-4">
+						<h2 className="mb-1.5 text-xs font-bold uppercase tracking-wider text-muted-foreground/70">
+							Comments{" "}
+							<span className="font-normal">({discussion.commentCount})</span>
+						</h2>
+						<div className="space-y-2">
+							{threads.map(({ comment, replies }) => (
+								<div key={comment.githubCommentId}>
+									<DiscussionCommentCard comment={comment} />
+									{replies.length > 0 && (
+										<div className="mt-1.5 ml-6 space-y-1.5 border-l pl-3">
+											{replies.map((reply) => (
+												<DiscussionCommentCard
+													key={reply.githubCommentId}
+													comment={reply}
+												/>
+											))}
+										</div>
+									)}
+								</div>
+							))}
+						</div>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function DiscussionCommentCard({ comment }: { comment: DiscussionComment }) {
+	return (
+		<Card className={cn(comment.isAnswer && "border-github-open")}>
+			<CardHeader className="pb-0">
+				<div className="flex items-center gap-1.5 text-xs">
+					{comment.authorLogin && (
+						<span className="flex items-center gap-1">
+							<Avatar className="size-4">
+								<AvatarImage src={comment.authorAvatarUrl ?? undefined} />
+								<AvatarFallback className="text-[8px]">
+									{comment.authorLogin[0]?.toUpperCase()}
+								</AvatarFallback>
+							</Avatar>
+							<span className="font-semibold">{comment.authorLogin}</span>
+						</span>
+					)}
+					<span className="text-muted-foreground/60 tabular-nums">
+						{formatRelative(comment.createdAt)}
+					</span>
+					{comment.isAnswer && (
+						<Badge className="bg-github-open hover:bg-github-open/90 text-[10px]">
+							Answer
+						</Badge>
+					)}
+				</div>
+			</CardHeader>
+			<CardContent>
+				<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-xs leading-relaxed">
+					<MarkdownBody>{comment.body}</MarkdownBody>
+				</div>
+				<UpvoteCount count={comment.upvoteCount} className="mt-2" />
+			</CardContent>
+		</Card>
+	);
+}
+
+function UpvoteCount({
+	count,
+	className,
+}: {
+	count: number;
+	className?: string;
+}) {
+	if (count === 0) return null;
+	return (
+		<span
+			className={cn(
+				"flex w-fit items-center gap-1 rounded-full border px-1.5 py-0.5 text-[10px] text-muted-foreground tabular-nums",
+				className,
+			)}
+		>
+			<ArrowUp className="size-2.5" />
+			{count}
+		</span>
+	);
+}
+
+function formatRelative(timestamp: number): string {
+	const diff = Math.floor((Date.now() - timestamp) / 1000);
+	if (diff < 60) return "just now";
+	if (diff < 3600) return `${Math.floor(diff / 60)}m ago`;
+	if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`;
+	if (diff < 604800) return `${Math.floor(diff / 86400)}d ago`;
+	return new Date(timestamp).toLocaleDateString(undefined, {
+		year: "numeric",
+		month: "short",
+		day: "numeric",
+	});
+}
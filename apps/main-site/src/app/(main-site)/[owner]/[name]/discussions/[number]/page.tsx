@@ -0,0 +1,49 @@
+import { Suspense } from "react";
+import { serverQueries } from "@/lib/server-queries";
+import { IssueDetailSkeleton } from "../../../../_components/skeletons";
+import { DiscussionDetailClient } from "./discussion-detail-client";
+
+export default async function DiscussionDetailPage(props: {
+	params: Promise<{ owner: string; name: string; number: string }>;
+}) {
+	const { owner, name, number: numberStr } = await props.params;
+	const num = Number.parseInt(numberStr, 10);
+
+	return (
+		<div className="h-full">
+			<Suspense fallback={<IssueDetailSkeleton />}>
+				<DiscussionDetailContent
+					owner={owner}
+					name={name}
+					discussionNumber={num}
+				/>
+			</Suspense>
+		</div>
+	);
+}
+
+async function DiscussionDetailContent({
+	owner,
+	name,
+	discussionNumber,
+}: {
+	owner: string;
+	name: string;
+	discussionNumber: number;
+}) {
+	const initialDiscussion =
+		await serverQueries.getDiscussionDetail.queryPromise({
+			ownerLogin: owner,
+			name,
+			number: discussionNumber,
+		});
+
+	return (
+		<DiscussionDetailClient
+			owner={owner}
+			name={name}
+			discussionNumber={discussionNumber}
+			initialDiscussion={initialDiscussion}
+		/>
+	);
+}
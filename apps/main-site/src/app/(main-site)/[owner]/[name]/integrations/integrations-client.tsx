@@ -0,0 +1,439 @@
+"use client";
+
+import { Result, useAtom, useAtomValue } from "@effect-atom/atom-react";
+import { Badge } from "@packages/ui/components/badge";
+import { Button } from "@packages/ui/components/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@packages/ui/components/card";
+import { RotateCcw, X, Zap } from "@packages/ui/components/icons";
+import { Input } from "@packages/ui/components/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@packages/ui/components/select";
+import { Switch } from "@packages/ui/components/switch";
+import { useOutboundIntegrations } from "@packages/ui/rpc/outbound-integrations";
+import { Option } from "effect";
+import { useMemo, useState } from "react";
+
+type IntegrationKind = "webhook" | "slack" | "discord";
+
+type IntegrationItem = {
+	readonly integrationId: string;
+	readonly kind: IntegrationKind;
+	readonly title: string;
+	readonly url: string;
+	readonly hasSecret: boolean;
+	readonly eventTypes: ReadonlyArray<string>;
+	readonly enabled: boolean;
+	readonly createdAt: number;
+};
+
+type DeliveryItem = {
+	readonly deliveryId: string;
+	readonly integrationId: string;
+	readonly activityType: string;
+	readonly state: "pending" | "delivered" | "retry" | "failed";
+	readonly attempts: number;
+	readonly responseStatus: number | null;
+	readonly lastError: string | null;
+	readonly nextRetryAt: number | null;
+	readonly createdAt: number;
+	readonly deliveredAt: number | null;
+};
+
+const kindLabel: Record<IntegrationKind, string> = {
+	webhook: "Webhook",
+	slack: "Slack",
+	discord: "Discord",
+};
+
+const deliveryBadgeVariant = {
+	delivered: "secondary",
+	pending: "outline",
+	retry: "outline",
+	failed: "destructive",
+} as const;
+
+/**
+ * Outbound integrations for a repository: forward activity to generic
+ * webhooks, Slack or Discord, and inspect the delivery log. Repo admins only.
+ */
+export function IntegrationsClient({
+	owner,
+	name,
+}: {
+	owner: string;
+	name: string;
+}) {
+	const client = useOutboundIntegrations();
+
+	const integrationsAtom = useMemo(
+		() =>
+			client.listOutboundIntegrations.subscription({
+				ownerLogin: owner,
+				name,
+			}),
+		[client, owner, name],
+	);
+	const deliveriesAtom = useMemo(
+		() =>
+			client.listOutboundDeliveries.subscription({
+				ownerLogin: owner,
+				name,
+			}),
+		[client, owner, name],
+	);
+	const integrationsResult = useAtomValue(integrationsAtom);
+	const deliveriesResult = useAtomValue(deliveriesAtom);
+
+	if (Result.isFailure(integrationsResult)) {
+		return (
+			<div className="flex h-full items-center justify-center">
+				<p className="text-sm text-muted-foreground">
+					Only repository admins can manage integrations.
+				</p>
+			</div>
+		);
+	}
+
+	const integrations: ReadonlyArray<IntegrationItem> = Option.getOrElse(
+		Result.value(integrationsResult),
+		() => [],
+	);
+	const deliveries: ReadonlyArray<DeliveryItem> = Option.getOrElse(
+		Result.value(deliveriesResult),
+		() => [],
+	);
+	const titleById = new Map(
+		integrations.map((integration) => [
+			integration.integrationId,
+			integration.title,
+		]),
+	);
+
+	return (
+		<div className="h-full overflow-y-auto">
+			<div className="space-y-4 p-4">
+				<h1 className="text-base font-bold tracking-tight">Integrations</h1>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Destinations</CardTitle>
+						<CardDescription>
+							Repository activity is sent to each enabled destination whose
+							filter matches, e.g. <code>pr.opened</code> or{" "}
+							<code>issue.*</code>. An empty filter sends everything.
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="space-y-3">
+						{integrations.length === 0 && (
+							<p className="text-sm text-muted-foreground">
+								No integrations configured yet.
+							</p>
+						)}
+						<ul className="space-y-2">
+							{integrations.map((integration) => (
+								<IntegrationRow
+									key={integration.integrationId}
+									owner={owner}
+									name={name}
+									integration={integration}
+								/>
+							))}
+						</ul>
+						<NewIntegrationForm owner={owner} name={name} />
+					</CardContent>
+				</Card>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Recent deliveries</CardTitle>
+						<CardDescription>
+							Failed deliveries are retried with backoff and marked failed after
+							five attempts.
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						{deliveries.length === 0 && (
+							<p className="text-sm text-muted-foreground">
+								Nothing delivered yet.
+							</p>
+						)}
+						<ul className="space-y-2">
+							{deliveries.map((delivery) => (
+								<DeliveryRow
+									key={delivery.deliveryId}
+									owner={owner}
+									name={name}
+									delivery={delivery}
+									integrationTitle={
+										titleById.get(delivery.integrationId) ?? "Deleted"
+									}
+								/>
+							))}
+						</ul>
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+}
+
+function IntegrationRow({
+	owner,
+	name,
+	integration,
+}: {
+	owner: string;
+	name: string;
+	integration: IntegrationItem;
+}) {
+	const client = useOutboundIntegrations();
+	const [, updateIntegration] = useAtom(
+		client.updateOutboundIntegration.mutate,
+	);
+	const [, deleteIntegration] = useAtom(
+		client.deleteOutboundIntegration.mutate,
+	);
+
+	return (
+		<li className="flex items-center justify-between gap-4 rounded-md border border-border/60 p-2">
+			<div className="min-w-0">
+				<div className="flex items-center gap-2">
+					<Zap className="size-3 text-muted-foreground" />
+					<span className="truncate text-sm font-medium">
+						{integration.title}
+					</span>
+					<Badge variant="outline" className="text-[10px]">
+						{kindLabel[integration.kind]}
+					</Badge>
+					{integration.hasSecret && (
+						<Badge variant="outline" className="text-[10px]">
+							Signed
+						</Badge>
+					)}
+				</div>
+				<p className="truncate font-mono text-xs text-muted-foreground">
+					{integration.url}
+				</p>
+				<p className="text-xs text-muted-foreground">
+					{integration.eventTypes.length === 0
+						? "All activity"
+						: integration.eventTypes.join(", ")}
+				</p>
+			</div>
+			<div className="flex shrink-0 items-center gap-2">
+				<Switch
+					checked={integration.enabled}
+					onCheckedChange={(enabled) =>
+						updateIntegration({
+							ownerLogin: owner,
+							name,
+							integrationId: integration.integrationId,
+							enabled,
+						})
+					}
+					aria-label={integration.enabled ? "Pause" : "Resume"}
+				/>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 w-6 p-0"
+					onClick={() =>
+						deleteIntegration({
+							ownerLogin: owner,
+							name,
+							integrationId: integration.integrationId,
+						})
+					}
+					aria-label="Delete integration"
+				>
+					<X className="size-3" />
+				</Button>
+			</div>
+		</li>
+	);
+}
+
+function NewIntegrationForm({ owner, name }: { owner: string; name: string }) {
+	const client = useOutboundIntegrations();
+	const [, createIntegration] = useAtom(
+		client.createOutboundIntegration.mutate,
+		{ mode: "promise" },
+	);
+	const [kind, setKind] = useState<IntegrationKind>("webhook");
+	const [title, setTitle] = useState("");
+	const [url, setUrl] = useState("");
+	const [secret, setSecret] = useState("");
+	const [eventTypes, setEventTypes] = useState("");
+	const [error, setError] = useState<string | null>(null);
+
+	const submit = async () => {
+		setError(null);
+		try {
+			await createIntegration({
+				ownerLogin: owner,
+				name,
+				kind,
+				title,
+				url,
+				secret: kind === "webhook" && secret !== "" ? secret : undefined,
+				eventTypes: eventTypes.split(","),
+			});
+			setTitle("");
+			setUrl("");
+			setSecret("");
+			setEventTypes("");
+		} catch {
+			setError("Could not add integration. Check the URL.");
+		}
+	};
+
+	return (
+		<form
+			className="space-y-2 rounded-md border border-dashed p-2"
+			onSubmit={(event) => {
+				event.preventDefault();
+				void submit();
+			}}
+		>
+			<div className="flex gap-2">
+				<Select
+					value={kind}
+					onValueChange={(value) => setKind(value as IntegrationKind)}
+				>
+					<SelectTrigger className="h-8 w-32 text-xs">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{(["webhook", "slack", "discord"] as const).map((option) => (
+							<SelectItem key={option} value={option}>
+								{kindLabel[option]}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Input
+					value={title}
+					onChange={(event) => setTitle(event.target.value)}
+					placeholder="Name"
+					className="h-8 text-xs"
+				/>
+			</div>
+			<Input
+				value={url}
+				onChange={(event) => setUrl(event.target.value)}
+				placeholder="https://…"
+				className="h-8 font-mono text-xs"
+				required
+			/>
+			{kind === "webhook" && (
+				<Input
+					type="password"
+					value={secret}
+					onChange={(event) => setSecret(event.target.value)}
+					placeholder="Signing secret (optional)"
+					className="h-8 text-xs"
+				/>
+			)}
+			<Input
+				value={eventTypes}
+				onChange={(event) => setEventTypes(event.target.value)}
+				placeholder="Event filter, comma-separated (empty = all)"
+				className="h-8 text-xs"
+			/>
+			<div className="flex items-center justify-between">
+				{error !== null ? (
+					<p className="text-xs text-destructive">{error}</p>
+				) : (
+					<span />
+				)}
+				<Button type="submit" size="sm" className="h-7 text-xs">
+					Add integration
+				</Button>
+			</div>
+		</form>
+	);
+}
+
+function DeliveryRow({
+	owner,
+	name,
+	delivery,
+	integrationTitle,
+}: {
+	owner: string;
+	name: string;
+	delivery: DeliveryItem;
+	integrationTitle: string;
+}) {
+	const client = useOutboundIntegrations();
+	const [, redeliver] = useAtom(client.redeliverOutboundDelivery.mutate);
+	const canRedeliver =
+		delivery.state === "delivered" || delivery.state === "failed";
+
+	return (
+		<li className="flex items-center justify-between gap-4 rounded-md border border-border/60 p-2">
+			<div className="min-w-0">
+				<p className="truncate text-sm">
+					<span className="font-mono text-xs">{delivery.activityType}</span>{" "}
+					<span className="text-muted-foreground">→ {integrationTitle}</span>
+				</p>
+				<p className="truncate text-xs text-muted-foreground">
+					{formatDateTime(delivery.createdAt)} · {delivery.attempts}{" "}
+					{delivery.attempts === 1 ? "attempt" : "attempts"}
+					{delivery.responseStatus !== null &&
+						` · HTTP ${delivery.responseStatus}`}
+					{delivery.state === "retry" &&
+						delivery.nextRetryAt !== null &&
+						` · next try ${formatDateTime(delivery.nextRetryAt)}`}
+				</p>
+				{delivery.lastError !== null && delivery.state !== "delivered" && (
+					<p className="truncate text-xs text-destructive">
+						{delivery.lastError}
+					</p>
+				)}
+			</div>
+			<div className="flex shrink-0 items-center gap-2">
+				<Badge variant={deliveryBadgeVariant[delivery.state]}>
+					{delivery.state}
+				</Badge>
+				{canRedeliver && (
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-6 w-6 p-0"
+						onClick={() =>
+							redeliver({
+								ownerLogin: owner,
+								name,
+								deliveryId: delivery.deliveryId,
+							})
+						}
+						aria-label="Redeliver"
+					>
+						<RotateCcw className="size-3" />
+					</Button>
+				)}
+			</div>
+		</li>
+	);
+}
+
+function formatDateTime(timestamp: number): string {
+	return new Date(timestamp).toLocaleString(undefined, {
+		month: "short",
+		day: "numeric",
+		hour: "numeric",
+		minute: "2-digit",
+	});
+}
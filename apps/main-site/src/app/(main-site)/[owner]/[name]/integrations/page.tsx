@@ -0,0 +1,13 @@
+import { IntegrationsClient } from "./integrations-client";
+
+export default async function IntegrationsPage(props: {
+	params: Promise<{ owner: string; name: string }>;
+}) {
+	const { owner, name } = await props.params;
+
+	return (
+		<div className="h-full">
+			<IntegrationsClient owner={owner} name={name} />
+		</div>
+	);
+}
@@ -18,9 +18,51 @@ import { useGithubWrite } from "@packages/ui/rpc/github-write";
 import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
 import { useId, useMemo, useState } from "react";
 import { AssigneesCombobox } from "@/app/(main-site)/_components/assignees-combobox";
+import { EditableCommentBody } from "@/app/(main-site)/_components/editable-comment-body";
+import {
+	EditableBody,
+	EditableTitle,
+} from "@/app/(main-site)/_components/editable-title-body";
 import { LabelsCombobox } from "@/app/(main-site)/_components/labels-combobox";
+import {
+	type LinkedItem,
+	LinkedItemList,
+	type ReferencedBy,
+	ReferencedByList,
+} from "@/app/(main-site)/_components/linked-references";
+import { LockConversationButton } from "@/app/(main-site)/_components/lock-conversation-button";
+import { ReactionBar } from "@/app/(main-site)/_components/reaction-bar";
 import { IssueDetailSkeleton } from "@/app/(main-site)/_components/skeletons";
-import { MarkdownBody } from "@/components/markdown-body";
+import {
+	type TimelineEvent,
+	TimelineEventRow,
+	type TimelineItem,
+	useTimelineBackfill,
+} from "@/app/(main-site)/_components/timeline-event-row";
+
+type Reactions = {
+	readonly summary: {
+		readonly totalCount: number;
+		readonly plusOne: number;
+		readonly minusOne: number;
+		readonly laugh: number;
+		readonly hooray: number;
+		readonly confused: number;
+		readonly heart: number;
+		readonly rocket: number;
+		readonly eyes: number;
+	};
+	readonly viewerReactions: readonly (
+		| "+1"
+		| "-1"
+		| "laugh"
+		| "hooray"
+		| "confused"
+		| "heart"
+		| "rocket"
+		| "eyes"
+	)[];
+};
 
 type IssueDetail = {
 	readonly repositoryId: number;
@@ -33,11 +75,14 @@ type IssueDetail = {
 		| "merge_pull_request"
 		| "update_labels"
 		| "update_assignees"
+		| "update_title_body"
+		| "update_lock_state"
 		| null;
 	readonly optimisticState: "pending" | "failed" | "confirmed" | null;
 	readonly optimisticErrorMessage: string | null;
 	readonly title: string;
 	readonly body: string | null;
+	readonly locked: boolean;
 	readonly authorLogin: string | null;
 	readonly authorAvatarUrl: string | null;
 	readonly assignees: readonly {
@@ -48,15 +93,34 @@ type IssueDetail = {
 	readonly commentCount: number;
 	readonly closedAt: number | null;
 	readonly githubUpdatedAt: number;
+	readonly reactions: Reactions;
 	readonly comments: readonly {
 		readonly githubCommentId: number;
 		readonly authorLogin: string | null;
 		readonly authorAvatarUrl: string | null;
 		readonly body: string;
 		readonly createdAt: number;
+		readonly reactions: Reactions;
+		readonly optimisticOperationType:
+			| "create_comment"
+			| "update_comment"
+			| "delete_comment"
+			| null;
+		readonly optimisticState: "pending" | "failed" | "confirmed" | null;
+		readonly optimisticErrorMessage: string | null;
 	}[];
+	readonly timeline: readonly TimelineItem[];
+	readonly timelineBackfilledAt: number | null;
+	readonly linkedPullRequests: readonly LinkedItem[];
+	readonly referencedBy: readonly ReferencedBy[];
 };
 
+type IssueComment = IssueDetail["comments"][number];
+
+type TimelineEntry =
+	| { readonly kind: "comment"; readonly comment: IssueComment }
+	| { readonly kind: "event"; readonly event: TimelineEvent };
+
 export function IssueDetailClient({
 	owner,
 	name,
@@ -80,6 +144,12 @@ export function IssueDetailClient({
 	);
 
 	const issue = useSubscriptionWithInitial(issueAtom, initialIssue);
+	useTimelineBackfill({
+		ownerLogin: owner,
+		name,
+		number: issueNumber,
+		timelineBackfilledAt: issue?.timelineBackfilledAt,
+	});
 	const [commentQuery, setCommentQuery] = useState("");
 	const [commentSort, setCommentSort] = useState<"oldest" | "newest">("oldest");
 	const normalizedCommentQuery = commentQuery.trim().toLowerCase();
@@ -104,6 +174,25 @@ export function IssueDetailClient({
 		return sorted;
 	}, [issue, normalizedCommentQuery, commentSort]);
 
+	// Timeline events interleave with comments only while no filter is set
+	const visibleEntries = useMemo((): ReadonlyArray<TimelineEntry> => {
+		if (issue === null || normalizedCommentQuery.length > 0) {
+			return visibleComments.map((comment) => ({ kind: "comment", comment }));
+		}
+
+		const commentsById = new Map(
+			issue.comments.map((comment) => [comment.githubCommentId, comment]),
+		);
+		const entries = issue.timeline.flatMap((item): Array<TimelineEntry> => {
+			if (item.kind === "event") return [{ kind: "event", event: item }];
+			if (item.kind !== "comment") return [];
+			const comment = commentsById.get(item.githubCommentId);
+			return comment === undefined ? [] : [{ kind: "comment", comment }];
+		});
+
+		return commentSort === "oldest" ? entries : entries.reverse();
+	}, [issue, normalizedCommentQuery, commentSort, visibleComments]);
+
 	if (issue === null) {
 		return <IssueDetailSkeleton />;
 	}
@@ -117,9 +206,18 @@ export function IssueDetailClient({
 					<div className="flex items-start gap-2.5">
 						<IssueStateIconLarge state={issue.state} />
 						<div className="min-w-0 flex-1">
-							<h1 className="text-base font-bold break-words leading-snug tracking-tight">
-								{issue.title}
-							</h1>
+							<EditableTitle
+								ownerLogin={owner}
+								name={name}
+								repositoryId={issue.repositoryId}
+								number={issueNumber}
+								title={issue.title}
+								isTitleBodyOperation={
+									issue.optimisticOperationType === "update_title_body"
+								}
+								optimisticState={issue.optimisticState}
+								optimisticErrorMessage={issue.optimisticErrorMessage}
+							/>
 							<div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
 								<span className="tabular-nums">#{issue.number}</span>
 								<IssueStateBadge
@@ -149,15 +247,32 @@ export function IssueDetailClient({
 					</div>
 
 					{/* Body */}
-					{issue.body && (
-						<Card className="mt-3">
-							<CardContent>
-								<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-sm leading-relaxed">
-									<MarkdownBody>{issue.body}</MarkdownBody>
-								</div>
-							</CardContent>
-						</Card>
-					)}
+					<Card className="mt-3">
+						<CardContent>
+							<EditableBody
+								ownerLogin={owner}
+								name={name}
+								repositoryId={issue.repositoryId}
+								number={issueNumber}
+								body={issue.body}
+								isTitleBodyOperation={
+									issue.optimisticOperationType === "update_title_body"
+								}
+								optimisticState={issue.optimisticState}
+								optimisticErrorMessage={issue.optimisticErrorMessage}
+							/>
+							<div className="mt-3">
+								<ReactionBar
+									ownerLogin={owner}
+									name={name}
+									repositoryId={issue.repositoryId}
+									subjectType="issue"
+									subjectId={issue.number}
+									reactions={issue.reactions}
+								/>
+							</div>
+						</CardContent>
+					</Card>
 
 					{/* Action bar */}
 					<IssueActionBar
@@ -166,10 +281,16 @@ export function IssueDetailClient({
 						number={issueNumber}
 						repositoryId={issue.repositoryId}
 						state={issue.state}
+						locked={issue.locked}
+						isLockOperation={
+							issue.optimisticOperationType === "update_lock_state"
+						}
+						optimisticState={issue.optimisticState}
+						optimisticErrorMessage={issue.optimisticErrorMessage}
 					/>
 
 					{/* Comments */}
-					{issue.comments.length > 0 && (
+					{issue.timeline.length > 0 && (
 						<div className="mt-4">
 							<div className="mb-1.5 flex flex-wrap items-center gap-1.5">
 								<h2 className="text-xs font-bold uppercase tracking-wider text-muted-foreground/70">
@@ -216,37 +337,71 @@ export function IssueDetailClient({
 								</div>
 							)}
 							<div className="space-y-2">
-								{visibleComments.map((comment) => (
-									<Card key={comment.githubCommentId}>
-										<CardHeader className="pb-0">
-											<div className="flex items-center gap-1.5 text-xs">
-												{comment.authorLogin && (
-													<span className="flex items-center gap-1">
-														<Avatar className="size-4">
-															<AvatarImage
-																src={comment.authorAvatarUrl ?? undefined}
-															/>
-															<AvatarFallback className="text-[8px]">
-																{comment.authorLogin[0]?.toUpperCase()}
-															</AvatarFallback>
-														</Avatar>
-														<span className="font-semibold">
-															{comment.authorLogin}
+								{visibleEntries.map((entry, index) => {
+									if (entry.kind === "event") {
+										return (
+											<TimelineEventRow
+												key={`event-${entry.event.eventType}-${entry.event.createdAt}-${index}`}
+												event={entry.event}
+												timeLabel={formatRelative(entry.event.createdAt)}
+											/>
+										);
+									}
+									const { comment } = entry;
+									return (
+										<Card key={comment.githubCommentId}>
+											<CardHeader className="pb-0">
+												<div className="flex items-center gap-1.5 text-xs">
+													{comment.authorLogin && (
+														<span className="flex items-center gap-1">
+															<Avatar className="size-4">
+																<AvatarImage
+																	src={comment.authorAvatarUrl ?? undefined}
+																/>
+																<AvatarFallback className="text-[8px]">
+																	{comment.authorLogin[0]?.toUpperCase()}
+																</AvatarFallback>
+															</Avatar>
+															<span className="font-semibold">
+																{comment.authorLogin}
+															</span>
 														</span>
+													)}
+													<span className="text-muted-foreground/60 tabular-nums">
+														{formatRelative(comment.createdAt)}
 													</span>
-												)}
-												<span className="text-muted-foreground/60 tabular-nums">
-													{formatRelative(comment.createdAt)}
-												</span>
-											</div>
-										</CardHeader>
-										<CardContent>
-											<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-xs leading-relaxed">
-												<MarkdownBody>{comment.body}</MarkdownBody>
-											</div>
-										</CardContent>
-									</Card>
-								))}
+												</div>
+											</CardHeader>
+											<CardContent>
+												<EditableCommentBody
+													ownerLogin={owner}
+													name={name}
+													repositoryId={issue.repositoryId}
+													commentType="issue_comment"
+													commentId={comment.githubCommentId}
+													body={comment.body}
+													optimisticOperationType={
+														comment.optimisticOperationType
+													}
+													optimisticState={comment.optimisticState}
+													optimisticErrorMessage={
+														comment.optimisticErrorMessage
+													}
+												/>
+												<div className="mt-2">
+													<ReactionBar
+														ownerLogin={owner}
+														name={name}
+														repositoryId={issue.repositoryId}
+														subjectType="issue_comment"
+														subjectId={comment.githubCommentId}
+														reactions={comment.reactions}
+													/>
+												</div>
+											</CardContent>
+										</Card>
+									);
+								})}
 							</div>
 						</div>
 					)}
@@ -283,6 +438,30 @@ export function IssueDetailClient({
 						optimisticState={issue.optimisticState}
 						optimisticErrorMessage={issue.optimisticErrorMessage}
 					/>
+					{issue.linkedPullRequests.length > 0 && (
+						<div>
+							<h3 className="mb-1.5 text-[10px] font-bold uppercase tracking-wider text-muted-foreground/70">
+								Linked pull requests
+							</h3>
+							<LinkedItemList
+								owner={owner}
+								name={name}
+								items={issue.linkedPullRequests}
+							/>
+						</div>
+					)}
+					{issue.referencedBy.length > 0 && (
+						<div>
+							<h3 className="mb-1.5 text-[10px] font-bold uppercase tracking-wider text-muted-foreground/70">
+								Referenced by
+							</h3>
+							<ReferencedByList
+								owner={owner}
+								name={name}
+								references={issue.referencedBy}
+							/>
+						</div>
+					)}
 				</div>
 			</div>
 		</div>
@@ -297,12 +476,20 @@ function IssueActionBar({
 	number,
 	repositoryId,
 	state,
+	locked,
+	isLockOperation,
+	optimisticState,
+	optimisticErrorMessage,
 }: {
 	ownerLogin: string;
 	name: string;
 	number: number;
 	repositoryId: number;
 	state: "open" | "closed";
+	locked: boolean;
+	isLockOperation: boolean;
+	optimisticState: "pending" | "failed" | "confirmed" | null;
+	optimisticErrorMessage: string | null;
 }) {
 	const writeClient = useGithubWrite();
 	const [stateResult, doUpdateState] = useAtom(
@@ -356,6 +543,16 @@ function IssueActionBar({
 			{Result.isFailure(stateResult) && (
 				<span className="text-xs text-destructive">Update failed.</span>
 			)}
+			<LockConversationButton
+				ownerLogin={ownerLogin}
+				name={name}
+				repositoryId={repositoryId}
+				number={number}
+				locked={locked}
+				isLockOperation={isLockOperation}
+				optimisticState={optimisticState}
+				optimisticErrorMessage={optimisticErrorMessage}
+			/>
 		</div>
 	);
 }
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+	type IssueFormElement,
+	initialIssueFormValues,
+	missingRequiredFields,
+	serializeIssueForm,
+} from "./issue-form";
+
+const element = (
+	overrides: Partial<IssueFormElement> &
+		Pick<IssueFormElement, "type" | "label">,
+): IssueFormElement => ({
+	id: null,
+	description: null,
+	placeholder: null,
+	value: null,
+	render: null,
+	options: [],
+	multiple: false,
+	defaultIndex: null,
+	required: false,
+	...overrides,
+});
+
+const bugForm: ReadonlyArray<IssueFormElement> = [
+	element({ type: "markdown", label: "", value: "Thanks for reporting!" }),
+	element({ type: "input", label: "Version", required: true }),
+	element({ type: "textarea", label: "Logs", render: "shell" }),
+	element({
+		type: "dropdown",
+		label: "Browsers",
+		multiple: true,
+		options: [
+			{ label: "Firefox", required: false },
+			{ label: "Chrome", required: false },
+			{ label: "Safari", required: false },
+		],
+	}),
+	element({
+		type: "checkboxes",
+		label: "Code of Conduct",
+		options: [
+			{ label: "I agree to follow the Code of Conduct", required: true },
+			{ label: "I searched existing issues", required: false },
+		],
+	}),
+];
+
+describe("serializeIssueForm", () => {
+	it("matches the body GitHub produces for an issue form", () => {
+		const body = serializeIssueForm(bugForm, [
+			"",
+			" 1.2.3 ",
+			"error: boom",
+			[0, 2],
+			[0],
+		]);
+
+		expect(body).toBe(
+			[
+				"### Version\n\n1.2.3",
+				"### Logs\n\n```shell\nerror: boom\n```",
+				"### Browsers\n\nFirefox, Safari",
+				"### Code of Conduct\n\n- [X] I agree to follow the Code of Conduct\n- [ ] I searched existing issues",
+			].join("\n\n"),
+		);
+	});
+
+	it("writes _No response_ for unanswered fields", () => {
+		const body = serializeIssueForm(bugForm, initialIssueFormValues(bugForm));
+
+		expect(body).toContain("### Version\n\n_No response_");
+		expect(body).toContain("### Logs\n\n_No response_");
+		expect(body).toContain("### Browsers\n\n_No response_");
+	});
+});
+
+describe("missingRequiredFields", () => {
+	it("reports empty required inputs and unticked required checkboxes", () => {
+		expect(
+			missingRequiredFields(bugForm, initialIssueFormValues(bugForm)),
+		).toEqual(["Version", "Code of Conduct"]);
+		expect(missingRequiredFields(bugForm, ["", "1.2.3", "", [], [0]])).toEqual(
+			[],
+		);
+	});
+});
@@ -0,0 +1,138 @@
+// ---------------------------------------------------------------------------
+// Issue forms — client-side state and body serialization for YAML templates
+// ---------------------------------------------------------------------------
+
+export type IssueFormOption = {
+	readonly label: string;
+	readonly required: boolean;
+};
+
+export type IssueFormElement = {
+	readonly type: "markdown" | "input" | "textarea" | "dropdown" | "checkboxes";
+	readonly id: string | null;
+	readonly label: string;
+	readonly description: string | null;
+	readonly placeholder: string | null;
+	readonly value: string | null;
+	readonly render: string | null;
+	readonly options: ReadonlyArray<IssueFormOption>;
+	readonly multiple: boolean;
+	readonly defaultIndex: number | null;
+	readonly required: boolean;
+};
+
+/**
+ * The answer to one form element: text for inputs and textareas, selected
+ * option indexes for dropdowns and checkboxes. Markdown elements carry "".
+ */
+export type IssueFormValue = string | ReadonlyArray<number>;
+
+const NO_RESPONSE = "_No response_";
+
+export const initialIssueFormValues = (
+	elements: ReadonlyArray<IssueFormElement>,
+): Array<IssueFormValue> =>
+	elements.map((element) => {
+		switch (element.type) {
+			case "input":
+			case "textarea":
+				return element.value ?? "";
+			case "dropdown":
+				return element.defaultIndex === null ? [] : [element.defaultIndex];
+			case "checkboxes":
+				return [];
+			case "markdown":
+				return "";
+		}
+	});
+
+const selectedIndexes = (value: IssueFormValue | undefined) =>
+	typeof value === "string" || value === undefined ? [] : value;
+
+const textValue = (value: IssueFormValue | undefined) =>
+	typeof value === "string" ? value.trim() : "";
+
+/**
+ * Labels of required elements that haven't been answered yet, in form order.
+ * Required checkboxes count as unanswered until every required box is ticked.
+ */
+export const missingRequiredFields = (
+	elements: ReadonlyArray<IssueFormElement>,
+	values: ReadonlyArray<IssueFormValue>,
+): Array<string> =>
+	elements.flatMap((element, index) => {
+		const value = values[index];
+		switch (element.type) {
+			case "input":
+			case "textarea":
+				return element.required && textValue(value).length === 0
+					? [element.label]
+					: [];
+			case "dropdown":
+				return element.required && selectedIndexes(value).length === 0
+					? [element.label]
+					: [];
+			case "checkboxes": {
+				const checked = new Set(selectedIndexes(value));
+				return element.options.some(
+					(option, optionIndex) => option.required && !checked.has(optionIndex),
+				)
+					? [element.label]
+					: [];
+			}
+			case "markdown":
+				return [];
+		}
+	});
+
+const serializeAnswer = (
+	element: IssueFormElement,
+	value: IssueFormValue | undefined,
+): string => {
+	switch (element.type) {
+		case "input":
+		case "textarea": {
+			const text = textValue(value);
+			if (text.length === 0) return NO_RESPONSE;
+			return element.render === null
+				? text
+				: `\`\`\`${element.render}\n${text}\n\`\`\``;
+		}
+		case "dropdown": {
+			const labels = selectedIndexes(value).flatMap((optionIndex) => {
+				const option = element.options[optionIndex];
+				return option === undefined ? [] : [option.label];
+			});
+			return labels.length === 0 ? NO_RESPONSE : labels.join(", ");
+		}
+		case "checkboxes": {
+			const checked = new Set(selectedIndexes(value));
+			return element.options
+				.map(
+					(option, optionIndex) =>
+						`- [${checked.has(optionIndex) ? "X" : " "}] ${option.label}`,
+				)
+				.join("\n");
+		}
+		case "markdown":
+			return "";
+	}
+};
+
+/**
+ * Render form answers as the markdown body GitHub itself produces for an
+ * issue form: one `### Label` section per field, markdown elements omitted.
+ */
+export const serializeIssueForm = (
+	elements: ReadonlyArray<IssueFormElement>,
+	values: ReadonlyArray<IssueFormValue>,
+): string =>
+	elements
+		.flatMap((element, index) =>
+			element.type === "markdown"
+				? []
+				: [
+						`### ${element.label}\n\n${serializeAnswer(element, values[index])}`,
+					],
+		)
+		.join("\n\n");
@@ -1,8 +1,10 @@
 "use client";
 
 import { Result, useAtom, useAtomValue } from "@effect-atom/atom-react";
+import { useSubscriptionWithInitial } from "@packages/confect/rpc";
 import { Badge } from "@packages/ui/components/badge";
 import { Button } from "@packages/ui/components/button";
+import { Checkbox } from "@packages/ui/components/checkbox";
 import {
 	Command,
 	CommandEmpty,
@@ -14,6 +16,7 @@ import {
 import {
 	Check,
 	ChevronsUpDown,
+	ExternalLink,
 	FileText,
 	Info,
 	Plus,
@@ -21,12 +24,20 @@ import {
 	X,
 } from "@packages/ui/components/icons";
 import { Input } from "@packages/ui/components/input";
+import { Label } from "@packages/ui/components/label";
 import { LinkButton } from "@packages/ui/components/link-button";
 import {
 	Popover,
 	PopoverContent,
 	PopoverTrigger,
 } from "@packages/ui/components/popover";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@packages/ui/components/select";
 import { Separator } from "@packages/ui/components/separator";
 import { Skeleton } from "@packages/ui/components/skeleton";
 import {
@@ -38,11 +49,22 @@ import {
 import { Textarea } from "@packages/ui/components/textarea";
 import { useGithubWrite } from "@packages/ui/rpc/github-write";
 import { useIssueTemplates } from "@packages/ui/rpc/issue-templates";
-import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
 import { Option } from "effect";
 import { useRouter } from "next/navigation";
 import { useId, useMemo, useState } from "react";
+import {
+	LabelChip,
+	LabelSwatch,
+	useLabelLookup,
+} from "@/app/(main-site)/_components/label-chip";
 import { MarkdownBody } from "@/components/markdown-body";
+import {
+	type IssueFormElement,
+	type IssueFormValue,
+	initialIssueFormValues,
+	missingRequiredFields,
+	serializeIssueForm,
+} from "./issue-form";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -56,6 +78,24 @@ type IssueTemplate = {
 	readonly body: string;
 	readonly labels: ReadonlyArray<string>;
 	readonly assignees: ReadonlyArray<string>;
+	/** Structured fields for YAML issue forms; null for markdown templates */
+	readonly form: ReadonlyArray<IssueFormElement> | null;
+};
+
+type ContactLink = {
+	readonly name: string;
+	readonly url: string;
+	readonly about: string;
+};
+
+type TemplateChooserConfig = {
+	readonly blankIssuesEnabled: boolean;
+	readonly contactLinks: ReadonlyArray<ContactLink>;
+};
+
+const DefaultChooserConfig: TemplateChooserConfig = {
+	blankIssuesEnabled: true,
+	contactLinks: [],
 };
 
 // ---------------------------------------------------------------------------
@@ -111,6 +151,22 @@ export function NewIssueClient({
 		return [];
 	}, [fetchResult, cachedResult]);
 
+	// Chooser config (config.yml) is cached by the same fetch
+	const configAtom = useMemo(
+		() =>
+			templatesClient.getTemplateConfig.subscription({
+				ownerLogin: owner,
+				name,
+			}),
+		[templatesClient, owner, name],
+	);
+	const { blankIssuesEnabled, contactLinks } =
+		useSubscriptionWithInitial<TemplateChooserConfig>(
+			configAtom,
+			DefaultChooserConfig,
+		);
+	const hasChooser = templates.length > 0 || contactLinks.length > 0;
+
 	const isLoading = !hasFetched || Result.isWaiting(fetchResult);
 
 	// Track which template was chosen (null = show chooser, undefined = blank)
@@ -119,7 +175,7 @@ export function NewIssueClient({
 	>(null);
 
 	const effectiveChosenTemplate =
-		chosenTemplate ?? (!isLoading && templates.length === 0 ? "blank" : null);
+		chosenTemplate ?? (!isLoading && !hasChooser ? "blank" : null);
 
 	// Loading state
 	if (isLoading && effectiveChosenTemplate === null) {
@@ -139,12 +195,14 @@ export function NewIssueClient({
 	}
 
 	// Template chooser
-	if (effectiveChosenTemplate === null && templates.length > 0) {
+	if (effectiveChosenTemplate === null && hasChooser) {
 		return (
 			<TemplateChooser
 				owner={owner}
 				name={name}
 				templates={templates}
+				blankIssuesEnabled={blankIssuesEnabled}
+				contactLinks={contactLinks}
 				onSelect={(template) => setChosenTemplate(template)}
 				onBlank={() => setChosenTemplate("blank")}
 			/>
@@ -160,30 +218,37 @@ export function NewIssueClient({
 			owner={owner}
 			name={name}
 			repositoryId={repositoryId}
+			key={template?.filename ?? "blank"}
 			template={template}
-			showBackToTemplates={templates.length > 0}
+			showBackToTemplates={hasChooser}
 			onBackToTemplates={() => setChosenTemplate(null)}
 		/>
 	);
 }
 
 // ---------------------------------------------------------------------------
-// Template chooser — shown when repo has templates
+// Template chooser — shown when repo has templates or contact links
 // ---------------------------------------------------------------------------
 
 function TemplateChooser({
 	owner,
 	name,
 	templates,
+	blankIssuesEnabled,
+	contactLinks,
 	onSelect,
 	onBlank,
 }: {
 	owner: string;
 	name: string;
 	templates: ReadonlyArray<IssueTemplate>;
+	blankIssuesEnabled: boolean;
+	contactLinks: ReadonlyArray<ContactLink>;
 	onSelect: (template: IssueTemplate) => void;
 	onBlank: () => void;
 }) {
+	const labelByName = useLabelLookup(owner, name);
+
 	return (
 		<div className="h-full overflow-y-auto">
 			<div className="mx-auto max-w-2xl px-4 py-8 sm:px-6">
@@ -213,13 +278,12 @@ function TemplateChooser({
 								{template.labels.length > 0 && (
 									<div className="mt-1.5 flex flex-wrap gap-1">
 										{template.labels.map((label) => (
-											<Badge
+											<LabelChip
 												key={label}
-												variant="outline"
+												name={label}
+												label={labelByName.get(label)}
 												className="text-[9px] px-1.5 py-0"
-											>
-												{label}
-											</Badge>
+											/>
 										))}
 									</div>
 								)}
@@ -227,20 +291,43 @@ function TemplateChooser({
 						</button>
 					))}
 
-					{/* Blank issue option */}
-					<button
-						type="button"
-						onClick={onBlank}
-						className="flex w-full items-center gap-3 rounded-lg border border-dashed border-border/60 bg-background p-4 text-left transition-colors hover:bg-accent/50 cursor-pointer"
-					>
-						<Plus className="size-4 shrink-0 text-muted-foreground" />
-						<div>
-							<p className="text-sm font-medium">Open a blank issue</p>
-							<p className="mt-0.5 text-xs text-muted-foreground">
-								Start from scratch without a template
-							</p>
-						</div>
-					</button>
+					{/* Contact links from config.yml */}
+					{contactLinks.map((link) => (
+						<a
+							key={link.url}
+							href={link.url}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="flex w-full items-start gap-3 rounded-lg border border-border/60 bg-background p-4 text-left no-underline transition-colors hover:bg-accent/50"
+						>
+							<ExternalLink className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+							<div className="min-w-0 flex-1">
+								<p className="text-sm font-medium">{link.name}</p>
+								{link.about.length > 0 && (
+									<p className="mt-0.5 text-xs text-muted-foreground line-clamp-2">
+										{link.about}
+									</p>
+								)}
+							</div>
+						</a>
+					))}
+
+					{/* Blank issue option — repos can disable it in config.yml */}
+					{blankIssuesEnabled && (
+						<button
+							type="button"
+							onClick={onBlank}
+							className="flex w-full items-center gap-3 rounded-lg border border-dashed border-border/60 bg-background p-4 text-left transition-colors hover:bg-accent/50 cursor-pointer"
+						>
+							<Plus className="size-4 shrink-0 text-muted-foreground" />
+							<div>
+								<p className="text-sm font-medium">Open a blank issue</p>
+								<p className="mt-0.5 text-xs text-muted-foreground">
+									Start from scratch without a template
+								</p>
+							</div>
+						</button>
+					)}
 				</div>
 
 				<div className="mt-6">
@@ -290,11 +377,27 @@ function NewIssueForm({
 	const [selectedLabels, setSelectedLabels] = useState<ReadonlyArray<string>>(
 		template?.labels ?? [],
 	);
+	const formElements = template?.form ?? null;
+	const [formValues, setFormValues] = useState<ReadonlyArray<IssueFormValue>>(
+		() => (formElements === null ? [] : initialIssueFormValues(formElements)),
+	);
+
+	// Issue forms submit the same markdown body GitHub builds from the answers
+	const submittedBody =
+		formElements === null ? body : serializeIssueForm(formElements, formValues);
+	const missingFields =
+		formElements === null
+			? []
+			: missingRequiredFields(formElements, formValues);
 
 	const isSubmitting = Result.isWaiting(createIssueResult);
 
+	const handleFormValueChange = (index: number, value: IssueFormValue) => {
+		setFormValues((prev) => prev.map((v, i) => (i === index ? value : v)));
+	};
+
 	const handleSubmit = async () => {
-		if (title.trim().length === 0) return;
+		if (title.trim().length === 0 || missingFields.length > 0) return;
 		try {
 			await createIssue({
 				correlationId: `${correlationPrefix}-create-issue-${Date.now()}`,
@@ -302,7 +405,8 @@ function NewIssueForm({
 				name,
 				repositoryId,
 				title: title.trim(),
-				body: body.trim().length > 0 ? body.trim() : undefined,
+				body:
+					submittedBody.trim().length > 0 ? submittedBody.trim() : undefined,
 				labels: selectedLabels.length > 0 ? [...selectedLabels] : undefined,
 			});
 			router.push(`/${owner}/${name}/issues`);
@@ -376,25 +480,36 @@ function NewIssueForm({
 							</TabsList>
 
 							<TabsContent value="write" className="mt-2">
-								<Textarea
-									placeholder="Add a description..."
-									value={body}
-									onChange={(event) => setBody(event.target.value)}
-									disabled={isSubmitting}
-									rows={12}
-									className="text-sm leading-relaxed"
-								/>
-								<p className="mt-1.5 flex items-center gap-1 text-[11px] text-muted-foreground">
-									<Info className="size-3" />
-									Markdown is supported
-								</p>
+								{formElements === null ? (
+									<>
+										<Textarea
+											placeholder="Add a description..."
+											value={body}
+											onChange={(event) => setBody(event.target.value)}
+											disabled={isSubmitting}
+											rows={12}
+											className="text-sm leading-relaxed"
+										/>
+										<p className="mt-1.5 flex items-center gap-1 text-[11px] text-muted-foreground">
+											<Info className="size-3" />
+											Markdown is supported
+										</p>
+									</>
+								) : (
+									<IssueFormFields
+										elements={formElements}
+										values={formValues}
+										disabled={isSubmitting}
+										onChange={handleFormValueChange}
+									/>
+								)}
 							</TabsContent>
 
 							<TabsContent value="preview" className="mt-2">
 								<div className="min-h-[14rem] rounded-md border border-border bg-background p-4">
-									{body.trim().length > 0 ? (
+									{submittedBody.trim().length > 0 ? (
 										<div className="prose prose-sm dark:prose-invert max-w-none text-sm leading-relaxed">
-											<MarkdownBody>{body}</MarkdownBody>
+											<MarkdownBody>{submittedBody}</MarkdownBody>
 										</div>
 									) : (
 										<p className="text-sm text-muted-foreground italic">
@@ -410,10 +525,16 @@ function NewIssueForm({
 						{/* Submit area */}
 						<div className="flex items-center justify-between gap-3">
 							<div>
-								{Result.isFailure(createIssueResult) && (
+								{Result.isFailure(createIssueResult) ? (
 									<p className="text-xs text-destructive">
 										Failed to create issue. Please try again.
 									</p>
+								) : (
+									missingFields.length > 0 && (
+										<p className="text-xs text-muted-foreground">
+											Required: {missingFields.join(", ")}
+										</p>
+									)
 								)}
 							</div>
 							<div className="flex items-center gap-2">
@@ -430,7 +551,11 @@ function NewIssueForm({
 								</LinkButton>
 								<Button
 									size="sm"
-									disabled={title.trim().length === 0 || isSubmitting}
+									disabled={
+										title.trim().length === 0 ||
+										missingFields.length > 0 ||
+										isSubmitting
+									}
 									onClick={handleSubmit}
 								>
 									{isSubmitting ? "Creating..." : "Submit new issue"}
@@ -455,6 +580,165 @@ function NewIssueForm({
 	);
 }
 
+// ---------------------------------------------------------------------------
+// Issue form fields — renders a YAML issue form's body elements
+// ---------------------------------------------------------------------------
+
+function IssueFormFields({
+	elements,
+	values,
+	disabled,
+	onChange,
+}: {
+	elements: ReadonlyArray<IssueFormElement>;
+	values: ReadonlyArray<IssueFormValue>;
+	disabled: boolean;
+	onChange: (index: number, value: IssueFormValue) => void;
+}) {
+	const fieldPrefix = useId();
+
+	return (
+		<div className="space-y-5">
+			{elements.map((element, index) => {
+				const fieldId = `${fieldPrefix}-${element.id ?? index}`;
+				const value = values[index] ?? "";
+				const selected = typeof value === "string" ? [] : value;
+				const key = element.id ?? `${element.type}-${index}`;
+
+				if (element.type === "markdown") {
+					return (
+						<div
+							key={key}
+							className="prose prose-sm dark:prose-invert max-w-none text-sm leading-relaxed"
+						>
+							<MarkdownBody>{element.value ?? ""}</MarkdownBody>
+						</div>
+					);
+				}
+
+				return (
+					<div key={key} className="space-y-1.5">
+						<Label htmlFor={fieldId} className="text-sm">
+							{element.label}
+							{element.required && <span className="text-destructive">*</span>}
+						</Label>
+						{element.description !== null && (
+							<div className="prose prose-sm dark:prose-invert max-w-none text-xs text-muted-foreground">
+								<MarkdownBody>{element.description}</MarkdownBody>
+							</div>
+						)}
+
+						{element.type === "input" && (
+							<Input
+								id={fieldId}
+								placeholder={element.placeholder ?? undefined}
+								value={typeof value === "string" ? value : ""}
+								onChange={(event) => onChange(index, event.target.value)}
+								disabled={disabled}
+								className="text-sm"
+							/>
+						)}
+
+						{element.type === "textarea" && (
+							<Textarea
+								id={fieldId}
+								placeholder={element.placeholder ?? undefined}
+								value={typeof value === "string" ? value : ""}
+								onChange={(event) => onChange(index, event.target.value)}
+								disabled={disabled}
+								rows={element.render === null ? 6 : 8}
+								className={
+									element.render === null
+										? "text-sm leading-relaxed"
+										: "font-mono text-xs"
+								}
+							/>
+						)}
+
+						{element.type === "dropdown" &&
+							(element.multiple ? (
+								<div className="space-y-1">
+									{element.options.map((option, optionIndex) => (
+										<label
+											key={option.label}
+											className="flex items-center gap-2 text-sm"
+										>
+											<Checkbox
+												checked={selected.includes(optionIndex)}
+												disabled={disabled}
+												onCheckedChange={(checked) =>
+													onChange(
+														index,
+														checked === true
+															? [...selected, optionIndex].sort((a, b) => a - b)
+															: selected.filter((i) => i !== optionIndex),
+													)
+												}
+											/>
+											{option.label}
+										</label>
+									))}
+								</div>
+							) : (
+								<Select
+									value={
+										selected[0] === undefined ? undefined : String(selected[0])
+									}
+									onValueChange={(next) => onChange(index, [Number(next)])}
+									disabled={disabled}
+								>
+									<SelectTrigger id={fieldId} className="w-full text-sm">
+										<SelectValue placeholder="Select an option" />
+									</SelectTrigger>
+									<SelectContent>
+										{element.options.map((option, optionIndex) => (
+											<SelectItem
+												key={option.label}
+												value={String(optionIndex)}
+											>
+												{option.label}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							))}
+
+						{element.type === "checkboxes" && (
+							<div className="space-y-1">
+								{element.options.map((option, optionIndex) => (
+									<label
+										key={option.label}
+										className="flex items-center gap-2 text-sm"
+									>
+										<Checkbox
+											checked={selected.includes(optionIndex)}
+											disabled={disabled}
+											onCheckedChange={(checked) =>
+												onChange(
+													index,
+													checked === true
+														? [...selected, optionIndex].sort((a, b) => a - b)
+														: selected.filter((i) => i !== optionIndex),
+												)
+											}
+										/>
+										<span>
+											{option.label}
+											{option.required && (
+												<span className="text-destructive">*</span>
+											)}
+										</span>
+									</label>
+								))}
+							</div>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
+
 // ---------------------------------------------------------------------------
 // Labels picker (adapted for new issue — no existing issue number needed)
 // ---------------------------------------------------------------------------
@@ -473,24 +757,15 @@ function NewIssueLabelsPicker({
 	onRemove: (label: string) => void;
 }) {
 	const [open, setOpen] = useState(false);
-	const client = useProjectionQueries();
 
-	const labelsAtom = useMemo(
-		() => client.listRepoLabels.subscription({ ownerLogin, name }),
-		[client, ownerLogin, name],
-	);
-	const labelsResult = useAtomValue(labelsAtom);
+	const labelByName = useLabelLookup(ownerLogin, name);
 
 	const availableLabels = useMemo(() => {
-		if (!Result.isSuccess(labelsResult)) return [...selectedLabels];
-		const valueOpt = Result.value(labelsResult);
-		if (Option.isNone(valueOpt)) return [...selectedLabels];
-
-		const serverLabels = valueOpt.value;
-		const labelSet = new Set(serverLabels);
-		const extra = selectedLabels.filter((l) => !labelSet.has(l));
+		const serverLabels = [...labelByName.keys()];
+		// Include labels on the item that aren't in the catalog
+		const extra = selectedLabels.filter((l) => !labelByName.has(l));
 		return [...serverLabels, ...extra];
-	}, [labelsResult, selectedLabels]);
+	}, [labelByName, selectedLabels]);
 
 	const selectedSet = new Set(selectedLabels);
 
@@ -522,6 +797,7 @@ function NewIssueLabelsPicker({
 										value={label}
 										onSelect={() => onToggle(label)}
 									>
+										<LabelSwatch label={labelByName.get(label)} />
 										<span className="text-xs truncate flex-1">{label}</span>
 										{selectedSet.has(label) && (
 											<Check className="size-3.5 text-primary" />
@@ -537,12 +813,12 @@ function NewIssueLabelsPicker({
 			{selectedLabels.length > 0 ? (
 				<div className="mt-1.5 flex flex-wrap gap-1">
 					{selectedLabels.map((label) => (
-						<Badge
+						<LabelChip
 							key={label}
-							variant="secondary"
+							name={label}
+							label={labelByName.get(label)}
 							className="text-[10px] gap-1 group"
 						>
-							{label}
 							<button
 								type="button"
 								onClick={() => onRemove(label)}
@@ -550,7 +826,7 @@ function NewIssueLabelsPicker({
 							>
 								<X className="size-2.5" />
 							</button>
-						</Badge>
+						</LabelChip>
 					))}
 				</div>
 			) : (
@@ -1,8 +1,16 @@
-// Layout stub — exists for route resolution. The hub layout handles rendering.
+import { RepoRedirect } from "../../_components/repo-redirect-client";
+
+// Layout stub — exists for route resolution and old-name redirects. The hub
+// layout handles rendering.
 export default function RepoLayout({
 	children,
 }: {
 	children: React.ReactNode;
 }) {
-	return <>{children}</>;
+	return (
+		<>
+			<RepoRedirect />
+			{children}
+		</>
+	);
 }
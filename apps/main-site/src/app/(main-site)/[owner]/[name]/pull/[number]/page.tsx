@@ -50,6 +50,17 @@ async function PrDetailContent({
 		}).catch(() => null);
 	}
 
+	if (initialPr !== null) {
+		await fetchAuthMutation(
+			api.rpc.projectionQueries.requestCheckAnnotationSync,
+			{
+				ownerLogin: owner,
+				name,
+				number: prNumber,
+			},
+		).catch(() => null);
+	}
+
 	return (
 		<PrDetailClient
 			owner={owner}
@@ -1,6 +1,6 @@
 "use client";
 
-import { Result, useAtom } from "@effect-atom/atom-react";
+import { Result, useAtom, useAtomValue } from "@effect-atom/atom-react";
 import { useSubscriptionWithInitial } from "@packages/confect/rpc";
 import {
 	Avatar,
@@ -65,8 +65,28 @@ import {
 	useState,
 } from "react";
 import { AssigneesCombobox } from "@/app/(main-site)/_components/assignees-combobox";
+import { EditableCommentBody } from "@/app/(main-site)/_components/editable-comment-body";
+import {
+	EditableBody,
+	EditableTitle,
+} from "@/app/(main-site)/_components/editable-title-body";
 import { LabelsCombobox } from "@/app/(main-site)/_components/labels-combobox";
+import {
+	type LinkedItem,
+	LinkedItemList,
+	type ReferencedBy,
+	ReferencedByList,
+} from "@/app/(main-site)/_components/linked-references";
+import { LockConversationButton } from "@/app/(main-site)/_components/lock-conversation-button";
+import { ReactionBar } from "@/app/(main-site)/_components/reaction-bar";
+import { ReviewersCombobox } from "@/app/(main-site)/_components/reviewers-combobox";
 import { PrDetailSkeleton } from "@/app/(main-site)/_components/skeletons";
+import {
+	type TimelineEvent,
+	TimelineEventRow,
+	type TimelineItem,
+	useTimelineBackfill,
+} from "@/app/(main-site)/_components/timeline-event-row";
 import { MarkdownBody } from "@/components/markdown-body";
 import {
 	extractErrorMessage,
@@ -113,6 +133,30 @@ function normalizeReviewState(state: string): string {
 	return state.trim().replaceAll(" ", "_").toUpperCase();
 }
 
+type Reactions = {
+	readonly summary: {
+		readonly totalCount: number;
+		readonly plusOne: number;
+		readonly minusOne: number;
+		readonly laugh: number;
+		readonly hooray: number;
+		readonly confused: number;
+		readonly heart: number;
+		readonly rocket: number;
+		readonly eyes: number;
+	};
+	readonly viewerReactions: readonly (
+		| "+1"
+		| "-1"
+		| "laugh"
+		| "hooray"
+		| "confused"
+		| "heart"
+		| "rocket"
+		| "eyes"
+	)[];
+};
+
 type PrDetail = {
 	readonly repositoryId: number;
 	readonly number: number;
@@ -123,18 +167,32 @@ type PrDetail = {
 		| "update_pull_request_branch"
 		| "update_labels"
 		| "update_assignees"
+		| "request_reviewers"
+		| "remove_reviewers"
+		| "update_title_body"
+		| "convert_pull_request_draft"
+		| "update_lock_state"
 		| null;
 	readonly optimisticState: "pending" | "failed" | "confirmed" | null;
 	readonly optimisticErrorMessage: string | null;
 	readonly draft: boolean;
 	readonly title: string;
 	readonly body: string | null;
+	readonly locked: boolean;
 	readonly authorLogin: string | null;
 	readonly authorAvatarUrl: string | null;
 	readonly assignees: readonly {
 		readonly login: string;
 		readonly avatarUrl: string | null;
 	}[];
+	readonly requestedReviewers: readonly {
+		readonly login: string;
+		readonly avatarUrl: string | null;
+	}[];
+	readonly requestedTeams: readonly {
+		readonly slug: string;
+		readonly name: string;
+	}[];
 	readonly labelNames: readonly string[];
 	readonly headRefName: string;
 	readonly baseRefName: string;
@@ -143,11 +201,13 @@ type PrDetail = {
 	readonly mergeableState: string | null;
 	readonly githubUpdatedAt: number;
 	readonly checkRuns: readonly {
+		readonly source: "check_run" | "status";
 		readonly githubCheckRunId: number;
 		readonly name: string;
 		readonly status: string;
 		readonly conclusion: string | null;
 		readonly runNumber: number | null;
+		readonly detailsUrl: string | null;
 	}[];
 	readonly reviews: readonly {
 		readonly githubReviewId: number;
@@ -164,7 +224,19 @@ type PrDetail = {
 		readonly authorAvatarUrl: string | null;
 		readonly body: string;
 		readonly createdAt: number;
+		readonly reactions: Reactions;
+		readonly optimisticOperationType:
+			| "create_comment"
+			| "update_comment"
+			| "delete_comment"
+			| null;
+		readonly optimisticState: "pending" | "failed" | "confirmed" | null;
+		readonly optimisticErrorMessage: string | null;
 	}[];
+	readonly timeline: readonly TimelineItem[];
+	readonly timelineBackfilledAt: number | null;
+	readonly linkedIssues: readonly LinkedItem[];
+	readonly referencedBy: readonly ReferencedBy[];
 	readonly reviewComments: readonly {
 		readonly githubReviewCommentId: number;
 		readonly githubReviewId: number | null;
@@ -180,9 +252,25 @@ type PrDetail = {
 		readonly htmlUrl: string | null;
 		readonly createdAt: number;
 		readonly updatedAt: number;
+		readonly reactions: Reactions;
+		readonly optimisticOperationType:
+			| "update_comment"
+			| "delete_comment"
+			| null;
+		readonly optimisticState: "pending" | "failed" | "confirmed" | null;
+		readonly optimisticErrorMessage: string | null;
 	}[];
 };
 
+type PrTimelineEntry =
+	| { readonly kind: "comment"; readonly comment: PrDetail["comments"][number] }
+	| {
+			readonly kind: "review";
+			readonly review: PrDetail["reviews"][number];
+			readonly createdAt: number;
+	  }
+	| { readonly kind: "event"; readonly event: TimelineEvent };
+
 type FilesData = {
 	readonly files: readonly {
 		readonly filename: string;
@@ -220,11 +308,27 @@ type InlineReviewCommentTarget = {
 	readonly side: "LEFT" | "RIGHT";
 };
 
-type InlineDiffAnnotation = {
-	readonly kind: "composer";
-	readonly target: InlineReviewCommentTarget;
+type CheckAnnotation = {
+	readonly githubCheckRunId: number;
+	readonly checkRunName: string;
+	readonly path: string;
+	readonly startLine: number;
+	readonly endLine: number;
+	readonly annotationLevel: "notice" | "warning" | "failure";
+	readonly title: string | null;
+	readonly message: string;
 };
 
+type InlineDiffAnnotation =
+	| {
+			readonly kind: "composer";
+			readonly target: InlineReviewCommentTarget;
+	  }
+	| {
+			readonly kind: "check_annotations";
+			readonly annotations: ReadonlyArray<CheckAnnotation>;
+	  };
+
 type DiffSelectedLineRange = {
 	readonly start: number;
 	readonly side?: "deletions" | "additions";
@@ -456,6 +560,12 @@ export function PrDetailClient({
 	);
 
 	const pr = useSubscriptionWithInitial(prAtom, initialPr);
+	useTimelineBackfill({
+		ownerLogin: owner,
+		name,
+		number: prNumber,
+		timelineBackfilledAt: pr?.timelineBackfilledAt,
+	});
 	const filesData = useSubscriptionWithInitial(filesAtom, initialFiles);
 	const [reviewDraftReplies, setReviewDraftReplies] = useState<
 		ReadonlyArray<DraftReviewReply>
@@ -646,7 +756,7 @@ export function PrDetailClient({
 // Change stats mini-bar — visual representation of additions vs deletions
 // ---------------------------------------------------------------------------
 
-function ChangeStatsBar({
+export function ChangeStatsBar({
 	additions,
 	deletions,
 	className,
@@ -879,8 +989,56 @@ type DiffEntry = {
 	readonly additions: number;
 	readonly deletions: number;
 	readonly reviewComments: ReadonlyArray<PrDetail["reviewComments"][number]>;
+	readonly checkAnnotations: ReadonlyArray<CheckAnnotation>;
 };
 
+// ---------------------------------------------------------------------------
+// CheckAnnotationList — check run annotations shown under a diff line
+// ---------------------------------------------------------------------------
+
+function CheckAnnotationList({
+	annotations,
+}: {
+	annotations: ReadonlyArray<CheckAnnotation>;
+}) {
+	return (
+		<div className="space-y-1 px-3 py-2 font-sans">
+			{annotations.map((annotation, index) => (
+				<div
+					key={`${String(annotation.githubCheckRunId)}-${String(index)}`}
+					className={cn(
+						"rounded-md border-l-2 bg-muted/30 px-2.5 py-1.5 text-xs",
+						annotation.annotationLevel === "failure"
+							? "border-github-closed"
+							: annotation.annotationLevel === "warning"
+								? "border-github-warning"
+								: "border-muted-foreground/40",
+					)}
+				>
+					<div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+						<span className="font-medium capitalize">
+							{annotation.annotationLevel}
+						</span>
+						<span>·</span>
+						<span className="truncate">{annotation.checkRunName}</span>
+						{annotation.startLine !== annotation.endLine && (
+							<span className="tabular-nums">
+								L{annotation.startLine}–{annotation.endLine}
+							</span>
+						)}
+					</div>
+					{annotation.title && (
+						<p className="font-medium text-foreground">{annotation.title}</p>
+					)}
+					<p className="whitespace-pre-wrap text-foreground/80">
+						{annotation.message}
+					</p>
+				</div>
+			))}
+		</div>
+	);
+}
+
 // ---------------------------------------------------------------------------
 // FileDiffBlock — memoized per-file diff block
 // ---------------------------------------------------------------------------
@@ -956,21 +1114,42 @@ const FileDiffBlock = memo(function FileDiffBlock({
 }) {
 	const reviewThreads = buildReviewThreads(entry.reviewComments);
 
-	const inlineAnnotations: Array<DiffLineAnnotation<InlineDiffAnnotation>> =
-		inlineComposerTarget !== null &&
+	// Check annotations refer to lines in the head version of the file
+	const annotationsByLine = new Map<number, Array<CheckAnnotation>>();
+	for (const annotation of entry.checkAnnotations) {
+		const existing = annotationsByLine.get(annotation.endLine) ?? [];
+		existing.push(annotation);
+		annotationsByLine.set(annotation.endLine, existing);
+	}
+
+	const inlineAnnotations: Array<DiffLineAnnotation<InlineDiffAnnotation>> = [
+		...[...annotationsByLine].map(
+			([
+				lineNumber,
+				annotations,
+			]): DiffLineAnnotation<InlineDiffAnnotation> => ({
+				side: "additions",
+				lineNumber,
+				metadata: { kind: "check_annotations", annotations },
+			}),
+		),
+		...(inlineComposerTarget !== null &&
 		inlineComposerTarget.filename === entry.filename
 			? [
 					{
 						side:
-							inlineComposerTarget.side === "LEFT" ? "deletions" : "additions",
+							inlineComposerTarget.side === "LEFT"
+								? ("deletions" as const)
+								: ("additions" as const),
 						lineNumber: inlineComposerTarget.line,
 						metadata: {
-							kind: "composer",
+							kind: "composer" as const,
 							target: inlineComposerTarget,
 						},
 					},
 				]
-			: [];
+			: []),
+	];
 
 	const fullContextFiles =
 		fullContextState?.status === "ready" ? fullContextState.files : null;
@@ -980,11 +1159,13 @@ const FileDiffBlock = memo(function FileDiffBlock({
 
 	const totalChanges = entry.additions + entry.deletions;
 
-	const renderInlineComposer = (
+	const renderInlineAnnotation = (
 		annotation: DiffLineAnnotation<InlineDiffAnnotation>,
 	) => {
-		if (annotation.metadata.kind !== "composer") {
-			return null;
+		if (annotation.metadata.kind === "check_annotations") {
+			return (
+				<CheckAnnotationList annotations={annotation.metadata.annotations} />
+			);
 		}
 
 		return (
@@ -1091,6 +1272,17 @@ const FileDiffBlock = memo(function FileDiffBlock({
 							/>
 						</Button>
 					)}
+					{entry.checkAnnotations.length > 0 && (
+						<span
+							className="inline-flex items-center gap-1 text-github-warning"
+							title="Check annotations"
+						>
+							<TriangleAlert className="size-3" />
+							<span className="text-[10px] tabular-nums">
+								{entry.checkAnnotations.length}
+							</span>
+						</span>
+					)}
 					{entry.reviewComments.length > 0 && (
 						<span className="inline-flex items-center gap-1 text-muted-foreground">
 							<MessageSquare className="size-3" />
@@ -1129,7 +1321,7 @@ const FileDiffBlock = memo(function FileDiffBlock({
 										oldFile={fullContextFiles.oldFile}
 										newFile={fullContextFiles.newFile}
 										lineAnnotations={[...inlineAnnotations]}
-										renderAnnotation={renderInlineComposer}
+										renderAnnotation={renderInlineAnnotation}
 										options={diffOptions}
 									/>
 								</MouseDownExpandContainer>
@@ -1140,7 +1332,7 @@ const FileDiffBlock = memo(function FileDiffBlock({
 									<PatchDiff
 										patch={entry.patch}
 										lineAnnotations={[...inlineAnnotations]}
-										renderAnnotation={renderInlineComposer}
+										renderAnnotation={renderInlineAnnotation}
 										options={diffOptions}
 									/>
 								</MouseDownExpandContainer>
@@ -1314,6 +1506,28 @@ const DiffPanel = forwardRef<
 		return grouped;
 	}, [pr.reviewComments]);
 
+	const projectionClient = useProjectionQueries();
+	const checkAnnotationsAtom = useMemo(
+		() =>
+			projectionClient.listCheckAnnotations.subscription({
+				ownerLogin: owner,
+				name,
+				headSha: pr.headSha,
+			}),
+		[projectionClient, owner, name, pr.headSha],
+	);
+	const checkAnnotationsResult = useAtomValue(checkAnnotationsAtom);
+	const checkAnnotationsByPath = useMemo(() => {
+		const grouped: Record<string, Array<CheckAnnotation>> = {};
+		if (!Result.isSuccess(checkAnnotationsResult)) return grouped;
+		for (const annotation of checkAnnotationsResult.value) {
+			const existing = grouped[annotation.path] ?? [];
+			existing.push(annotation);
+			grouped[annotation.path] = existing;
+		}
+		return grouped;
+	}, [checkAnnotationsResult]);
+
 	const entries = useMemo(
 		() =>
 			files.map((file) => {
@@ -1336,9 +1550,10 @@ const DiffPanel = forwardRef<
 					additions: file.additions,
 					deletions: file.deletions,
 					reviewComments: reviewCommentsByPath[file.filename] ?? [],
+					checkAnnotations: checkAnnotationsByPath[file.filename] ?? [],
 				};
 			}),
-		[files, reviewCommentsByPath],
+		[files, reviewCommentsByPath, checkAnnotationsByPath],
 	);
 	const codeBrowse = useCodeBrowse();
 	const [, getFileContent] = useAtom(codeBrowse.getFileContent.call, {
@@ -1745,9 +1960,18 @@ const DiffPanel = forwardRef<
 			<div className="flex items-start gap-3 mb-4">
 				<PrStateIconLarge state={pr.state} draft={pr.draft} />
 				<div className="min-w-0 flex-1">
-					<h1 className="text-base font-semibold break-words leading-snug tracking-tight text-foreground">
-						{pr.title}
-					</h1>
+					<EditableTitle
+						ownerLogin={owner}
+						name={name}
+						repositoryId={pr.repositoryId}
+						number={pr.number}
+						title={pr.title}
+						isTitleBodyOperation={
+							pr.optimisticOperationType === "update_title_body"
+						}
+						optimisticState={pr.optimisticState}
+						optimisticErrorMessage={pr.optimisticErrorMessage}
+					/>
 					<div className="mt-1.5 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
 						<span className="font-mono tabular-nums text-muted-foreground/60">
 							#{pr.number}
@@ -2260,8 +2484,26 @@ function ReviewThreadConversation({
 						</Link>
 					)}
 				</div>
-				<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-xs leading-relaxed">
-					<MarkdownBody>{thread.root.body}</MarkdownBody>
+				<EditableCommentBody
+					ownerLogin={ownerLogin}
+					name={name}
+					repositoryId={repositoryId}
+					commentType="review_comment"
+					commentId={thread.root.githubReviewCommentId}
+					body={thread.root.body}
+					optimisticOperationType={thread.root.optimisticOperationType}
+					optimisticState={thread.root.optimisticState}
+					optimisticErrorMessage={thread.root.optimisticErrorMessage}
+				/>
+				<div className="mt-1.5">
+					<ReactionBar
+						ownerLogin={ownerLogin}
+						name={name}
+						repositoryId={repositoryId}
+						subjectType="review_comment"
+						subjectId={thread.root.githubReviewCommentId}
+						reactions={thread.root.reactions}
+					/>
 				</div>
 
 				<div className="mt-2 flex items-center gap-1.5">
@@ -2330,8 +2572,26 @@ function ReviewThreadConversation({
 						<span>Reply</span>
 						<span>{formatRelative(reply.updatedAt)}</span>
 					</div>
-					<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-xs leading-relaxed">
-						<MarkdownBody>{reply.body}</MarkdownBody>
+					<EditableCommentBody
+						ownerLogin={ownerLogin}
+						name={name}
+						repositoryId={repositoryId}
+						commentType="review_comment"
+						commentId={reply.githubReviewCommentId}
+						body={reply.body}
+						optimisticOperationType={reply.optimisticOperationType}
+						optimisticState={reply.optimisticState}
+						optimisticErrorMessage={reply.optimisticErrorMessage}
+					/>
+					<div className="mt-1.5">
+						<ReactionBar
+							ownerLogin={ownerLogin}
+							name={name}
+							repositoryId={repositoryId}
+							subjectType="review_comment"
+							subjectId={reply.githubReviewCommentId}
+							reactions={reply.reactions}
+						/>
 					</div>
 				</div>
 			))}
@@ -2487,22 +2747,75 @@ function InfoSidebar({
 	onUpdateDraftReplyBody: (draftReplyId: string, nextBody: string) => void;
 	onClearDraftReplies: () => void;
 }) {
+	const client = useProjectionQueries();
+	const ciRollupAtom = useMemo(
+		() =>
+			client.getCommitCiRollup.subscription({
+				ownerLogin: owner,
+				name,
+				sha: pr.headSha,
+			}),
+		[client, owner, name, pr.headSha],
+	);
+	const ciRollupResult = useAtomValue(ciRollupAtom);
+	const ciRollup = Result.isSuccess(ciRollupResult)
+		? ciRollupResult.value
+		: null;
+
 	const [checkFilter, setCheckFilter] = useState<
 		"all" | "failing" | "pending" | "passing"
 	>("all");
 
-	const visibleChecks = pr.checkRuns.filter((check) => {
-		const matchesStatus =
-			checkFilter === "all"
-				? true
-				: checkFilter === "failing"
-					? check.conclusion === "failure"
-					: checkFilter === "pending"
-						? check.status === "queued" || check.status === "in_progress"
-						: check.conclusion === "success";
-
-		return matchesStatus;
-	});
+	const matchesCheckFilter = (check: {
+		status: string;
+		conclusion: string | null;
+	}) =>
+		checkFilter === "all"
+			? true
+			: checkFilter === "failing"
+				? check.conclusion === "failure" || check.conclusion === "error"
+				: checkFilter === "pending"
+					? check.status === "queued" ||
+						check.status === "in_progress" ||
+						check.status === "pending"
+					: check.conclusion === "success";
+
+	// Until the rollup loads, show the detail's check runs as a single group
+	const checkGroups: ReadonlyArray<CheckGroup> =
+		ciRollup?.groups ??
+		(pr.checkRuns.length > 0
+			? [
+					{
+						key: "all",
+						appName: null,
+						appAvatarUrl: null,
+						checks: pr.checkRuns.map((check) => ({
+							source: check.source,
+							id: check.githubCheckRunId,
+							name: check.name,
+							status: check.status,
+							conclusion: check.conclusion,
+							detailsUrl: check.detailsUrl,
+							outputTitle: null,
+							annotationsCount: 0,
+						})),
+					},
+				]
+			: []);
+	const runNumberByCheckRunId = new Map(
+		pr.checkRuns.map((check) => [check.githubCheckRunId, check.runNumber]),
+	);
+	const visibleCheckGroups = checkGroups
+		.map((group) => ({
+			...group,
+			checks: group.checks.filter(matchesCheckFilter),
+		}))
+		.filter((group) => group.checks.length > 0);
+	const visibleCheckCount = visibleCheckGroups.reduce(
+		(count, group) => count + group.checks.length,
+		0,
+	);
+	const showCheckGroupHeaders = checkGroups.length > 1;
 
 	// Deduplicate reviews: keep only the latest review per author
 	const latestReviewsByAuthor = (() => {
@@ -2523,7 +2836,26 @@ function InfoSidebar({
 
 	const visibleReviews = latestReviewsByAuthor;
 
-	const visibleComments = pr.comments;
+	// Comments, submitted reviews and events, oldest first
+	const timelineEntries = (() => {
+		const commentsById = new Map(
+			pr.comments.map((comment) => [comment.githubCommentId, comment]),
+		);
+		const reviewsById = new Map(
+			pr.reviews.map((review) => [review.githubReviewId, review]),
+		);
+		return pr.timeline.flatMap((item): Array<PrTimelineEntry> => {
+			if (item.kind === "event") return [{ kind: "event", event: item }];
+			if (item.kind === "review") {
+				const review = reviewsById.get(item.githubReviewId);
+				return review === undefined
+					? []
+					: [{ kind: "review", review, createdAt: item.createdAt }];
+			}
+			const comment = commentsById.get(item.githubCommentId);
+			return comment === undefined ? [] : [{ kind: "comment", comment }];
+		});
+	})();
 
 	const orderedDraftReplies = [...reviewDraftReplies].sort(
 		(a, b) => a.createdAt - b.createdAt,
@@ -2594,22 +2926,49 @@ function InfoSidebar({
 						repositoryId={pr.repositoryId}
 						state={pr.state}
 						draft={pr.draft}
+						locked={pr.locked}
 						mergedAt={pr.mergedAt}
 						mergeableState={pr.mergeableState}
 						headSha={pr.headSha}
+						optimisticOperationType={pr.optimisticOperationType}
+						optimisticState={pr.optimisticState}
+						optimisticErrorMessage={pr.optimisticErrorMessage}
 					/>
 				</div>
 			</SidebarSection>
 
 			{/* ── Description ── */}
-			{pr.body && (
-				<SidebarSection>
-					<CollapsibleDescription body={pr.body} />
-				</SidebarSection>
-			)}
+			<SidebarSection>
+				<EditableBody
+					ownerLogin={owner}
+					name={name}
+					repositoryId={pr.repositoryId}
+					number={prNumber}
+					body={pr.body}
+					isTitleBodyOperation={
+						pr.optimisticOperationType === "update_title_body"
+					}
+					optimisticState={pr.optimisticState}
+					optimisticErrorMessage={pr.optimisticErrorMessage}
+					renderBody={(body) => <CollapsibleDescription body={body} />}
+				/>
+			</SidebarSection>
 
-			{/* ── Assignees + Labels ── */}
+			{/* ── Reviewers + Assignees + Labels ── */}
 			<SidebarSection className="space-y-4">
+				<ReviewersCombobox
+					ownerLogin={owner}
+					name={name}
+					repositoryId={pr.repositoryId}
+					number={prNumber}
+					authorLogin={pr.authorLogin}
+					currentReviewers={pr.requestedReviewers}
+					currentTeams={pr.requestedTeams}
+					optimisticOperationType={pr.optimisticOperationType}
+					optimisticState={pr.optimisticState}
+					optimisticErrorMessage={pr.optimisticErrorMessage}
+				/>
+
 				<AssigneesCombobox
 					ownerLogin={owner}
 					name={name}
@@ -2633,6 +2992,28 @@ function InfoSidebar({
 				/>
 			</SidebarSection>
 
+			{/* ── Cross-references ── */}
+			{pr.linkedIssues.length > 0 && (
+				<SidebarSection>
+					<SidebarHeading count={pr.linkedIssues.length}>
+						Linked issues
+					</SidebarHeading>
+					<LinkedItemList owner={owner} name={name} items={pr.linkedIssues} />
+				</SidebarSection>
+			)}
+			{pr.referencedBy.length > 0 && (
+				<SidebarSection>
+					<SidebarHeading count={pr.referencedBy.length}>
+						Referenced by
+					</SidebarHeading>
+					<ReferencedByList
+						owner={owner}
+						name={name}
+						references={pr.referencedBy}
+					/>
+				</SidebarSection>
+			)}
+
 			{/* ── Changed files tree ── */}
 			{fileCount > 0 && (
 				<SidebarSection>
@@ -2697,15 +3078,15 @@ function InfoSidebar({
 			)}
 
 			{/* ── Activity: Checks + Reviews + Comments ── */}
-			{(pr.checkRuns.length > 0 ||
+			{(checkGroups.length > 0 ||
 				pr.reviews.length > 0 ||
-				pr.comments.length > 0) && (
+				timelineEntries.length > 0) && (
 				<>
 					{/* Checks */}
-					{pr.checkRuns.length > 0 && (
+					{checkGroups.length > 0 && (
 						<SidebarSection>
 							<div className="flex items-center justify-between mb-2">
-								<SidebarHeading count={visibleChecks.length}>
+								<SidebarHeading count={visibleCheckCount}>
 									Checks
 								</SidebarHeading>
 								<div className="flex items-center gap-0.5">
@@ -2729,39 +3110,87 @@ function InfoSidebar({
 									))}
 								</div>
 							</div>
-							{visibleChecks.length > 0 ? (
-								<div className="rounded-md border divide-y">
-									{visibleChecks.map((check) => {
-										const internalHref =
-											check.runNumber === null
-												? null
-												: `/${owner}/${name}/actions/runs/${check.runNumber}`;
-										const href =
-											internalHref ??
-											`https://github.com/${owner}/${name}/runs/${String(check.githubCheckRunId)}`;
-										const isExternal = internalHref === null;
-
-										return (
-											<Link
-												key={check.githubCheckRunId}
-												href={href}
-												target={isExternal ? "_blank" : undefined}
-												rel={isExternal ? "noopener noreferrer" : undefined}
-												className="flex items-center gap-2 px-2.5 py-2 hover:bg-muted/40 transition-colors group"
-											>
-												<CheckIcon
-													status={check.status}
-													conclusion={check.conclusion}
-												/>
-												<span className="text-xs truncate flex-1 group-hover:underline">
-													{check.name}
-												</span>
-												{isExternal && (
-													<ExternalLink className="size-3 text-muted-foreground/30 group-hover:text-muted-foreground/60 transition-colors shrink-0" />
-												)}
-											</Link>
-										);
-									})}
+							{visibleCheckCount > 0 ? (
+								<div className="space-y-2">
+									{visibleCheckGroups.map((group) => (
+										<div key={group.key}>
+											{showCheckGroupHeaders && (
+												<div className="flex items-center gap-1.5 mb-1 text-[10px] text-muted-foreground">
+													{group.appAvatarUrl && (
+														<Avatar className="size-3.5">
+															<AvatarImage src={group.appAvatarUrl} />
+															<AvatarFallback className="text-[7px]">
+																{(group.appName ?? "?")[0]?.toUpperCase()}
+															</AvatarFallback>
+														</Avatar>
+													)}
+													<span className="font-medium truncate">
+														{group.appName ??
+															(group.key === "statuses"
+																? "Commit statuses"
+																: "Other checks")}
+													</span>
+												</div>
+											)}
+											<div className="rounded-md border divide-y">
+												{group.checks.map((check) => {
+													const runNumber =
+														check.source === "check_run"
+															? (runNumberByCheckRunId.get(check.id) ?? null)
+															: null;
+													const internalHref =
+														runNumber === null
+															? null
+															: `/${owner}/${name}/actions/runs/${runNumber}`;
+													const href =
+														internalHref ??
+														check.detailsUrl ??
+														(check.source === "status"
+															? `https://github.com/${owner}/${name}/commit/${pr.headSha}`
+															: `https://github.com/${owner}/${name}/runs/${String(check.id)}`);
+													const isExternal = internalHref === null;
+
+													return (
+														<Link
+															key={`${check.source}-${String(check.id)}`}
+															href={href}
+															target={isExternal ? "_blank" : undefined}
+															rel={
+																isExternal ? "noopener noreferrer" : undefined
+															}
+															className="flex items-center gap-2 px-2.5 py-2 hover:bg-muted/40 transition-colors group"
+														>
+															<CheckIcon
+																status={check.status}
+																conclusion={check.conclusion}
+															/>
+															<div className="min-w-0 flex-1">
+																<span className="block text-xs truncate group-hover:underline">
+																	{check.name}
+																</span>
+																{check.outputTitle && (
+																	<span className="block text-[10px] text-muted-foreground truncate">
+																		{check.outputTitle}
+																	</span>
+																)}
+															</div>
+															{check.annotationsCount > 0 && (
+																<span className="text-[10px] text-muted-foreground tabular-nums shrink-0">
+																	{check.annotationsCount}{" "}
+																	{check.annotationsCount === 1
+																		? "annotation"
+																		: "annotations"}
+																</span>
+															)}
+															{isExternal && (
+																<ExternalLink className="size-3 text-muted-foreground/30 group-hover:text-muted-foreground/60 transition-colors shrink-0" />
+															)}
+														</Link>
+													);
+												})}
+											</div>
+										</div>
+									))}
 								</div>
 							) : (
 								<p className="text-xs text-muted-foreground/60 py-1">
@@ -2771,15 +3200,52 @@ function InfoSidebar({
 						</SidebarSection>
 					)}
 
-					{/* Comments */}
-					{pr.comments.length > 0 && (
+					{/* Timeline: comments, reviews and events */}
+					{timelineEntries.length > 0 && (
 						<SidebarSection>
-							<SidebarHeading count={visibleComments.length}>
+							<SidebarHeading count={pr.comments.length}>
 								Comments
 							</SidebarHeading>
-							{visibleComments.length > 0 ? (
-								<div className="space-y-2.5">
-									{visibleComments.map((comment) => (
+							<div className="space-y-2.5">
+								{timelineEntries.map((entry, index) => {
+									if (entry.kind === "event") {
+										return (
+											<TimelineEventRow
+												key={`event-${entry.event.eventType}-${entry.event.createdAt}-${index}`}
+												event={entry.event}
+												timeLabel={formatRelative(entry.event.createdAt)}
+											/>
+										);
+									}
+									if (entry.kind === "review") {
+										const { review } = entry;
+										return (
+											<div
+												key={`review-${review.githubReviewId}`}
+												className="flex flex-wrap items-center gap-1.5 px-2 py-1 text-xs text-muted-foreground"
+											>
+												{review.authorLogin && (
+													<Avatar className="size-4">
+														<AvatarImage
+															src={review.authorAvatarUrl ?? undefined}
+														/>
+														<AvatarFallback className="text-[8px]">
+															{review.authorLogin[0]?.toUpperCase()}
+														</AvatarFallback>
+													</Avatar>
+												)}
+												<span className="font-semibold text-foreground">
+													{review.authorLogin ?? "Unknown"}
+												</span>
+												<ReviewStateBadge state={review.state} />
+												<span className="text-muted-foreground/60 tabular-nums">
+													{formatRelative(entry.createdAt)}
+												</span>
+											</div>
+										);
+									}
+									const { comment } = entry;
+									return (
 										<div
 											key={comment.githubCommentId}
 											className="rounded-md border"
@@ -2803,18 +3269,36 @@ function InfoSidebar({
 												</span>
 											</div>
 											<div className="px-3 py-2">
-												<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-xs leading-relaxed">
-													<MarkdownBody>{comment.body}</MarkdownBody>
+												<EditableCommentBody
+													ownerLogin={owner}
+													name={name}
+													repositoryId={pr.repositoryId}
+													commentType="issue_comment"
+													commentId={comment.githubCommentId}
+													body={comment.body}
+													optimisticOperationType={
+														comment.optimisticOperationType
+													}
+													optimisticState={comment.optimisticState}
+													optimisticErrorMessage={
+														comment.optimisticErrorMessage
+													}
+												/>
+												<div className="mt-2">
+													<ReactionBar
+														ownerLogin={owner}
+														name={name}
+														repositoryId={pr.repositoryId}
+														subjectType="issue_comment"
+														subjectId={comment.githubCommentId}
+														reactions={comment.reactions}
+													/>
 												</div>
 											</div>
 										</div>
-									))}
-								</div>
-							) : (
-								<p className="text-xs text-muted-foreground/60 py-1">
-									No comments match filters.
-								</p>
-							)}
+									);
+								})}
+							</div>
 						</SidebarSection>
 					)}
 				</>
@@ -2880,9 +3364,13 @@ function PrActionBar({
 	repositoryId,
 	state,
 	draft,
+	locked,
 	mergedAt,
 	mergeableState,
 	headSha,
+	optimisticOperationType,
+	optimisticState,
+	optimisticErrorMessage,
 }: {
 	ownerLogin: string;
 	name: string;
@@ -2890,9 +3378,13 @@ function PrActionBar({
 	repositoryId: number;
 	state: "open" | "closed";
 	draft: boolean;
+	locked: boolean;
 	mergedAt: number | null;
 	mergeableState: string | null;
 	headSha: string;
+	optimisticOperationType: PrDetail["optimisticOperationType"];
+	optimisticState: "pending" | "failed" | "confirmed" | null;
+	optimisticErrorMessage: string | null;
 }) {
 	const writeClient = useGithubWrite();
 	const onDemandSync = useOnDemandSync();
@@ -2906,12 +3398,19 @@ function PrActionBar({
 	const [stateResult, doUpdateState] = useAtom(
 		writeClient.updateIssueState.call,
 	);
+	const [draftResult, doUpdateDraft] = useAtom(
+		writeClient.updatePullRequestDraft.call,
+	);
 	const correlationPrefix = useId();
 	const hasRequestedMergeabilityRefresh = useRef(false);
 	const isMerging = Result.isWaiting(mergeResult);
 	const isSyncingPullRequest = Result.isWaiting(syncPullRequestResult);
 	const isUpdatingBranch = Result.isWaiting(branchUpdateResult);
 	const isUpdatingState = Result.isWaiting(stateResult);
+	const isUpdatingDraft =
+		Result.isWaiting(draftResult) ||
+		(optimisticOperationType === "convert_pull_request_draft" &&
+			optimisticState === "pending");
 
 	const normalizedMergeableState = mergeableState?.trim().toLowerCase() ?? null;
 	const isMergeable =
@@ -2972,6 +3471,7 @@ function PrActionBar({
 		Result.isFailure(mergeResult) ||
 		Result.isFailure(branchUpdateResult) ||
 		Result.isFailure(stateResult) ||
+		Result.isFailure(draftResult) ||
 		Result.isFailure(syncPullRequestResult);
 
 	const mergeButton = (
@@ -3020,6 +3520,31 @@ function PrActionBar({
 				</Button>
 			)}
 
+			{state === "open" && (
+				<Button
+					variant="outline"
+					size="sm"
+					disabled={isUpdatingDraft}
+					className="h-8 text-xs w-full"
+					onClick={() => {
+						doUpdateDraft({
+							correlationId: `${correlationPrefix}-${draft ? "ready" : "draft"}-${Date.now()}`,
+							ownerLogin,
+							name,
+							repositoryId,
+							number,
+							draft: !draft,
+						});
+					}}
+				>
+					{isUpdatingDraft
+						? "Updating..."
+						: draft
+							? "Ready for review"
+							: "Convert to draft"}
+				</Button>
+			)}
+
 			{state === "open" && (
 				<div className="flex items-center gap-2">
 					<Button
@@ -3082,9 +3607,29 @@ function PrActionBar({
 						"Could not refresh mergeability. "}
 					{Result.isFailure(mergeResult) && "Merge failed. "}
 					{Result.isFailure(branchUpdateResult) && "Branch update failed. "}
-					{Result.isFailure(stateResult) && "State update failed."}
+					{Result.isFailure(stateResult) && "State update failed. "}
+					{Result.isFailure(draftResult) && "Draft update failed."}
 				</p>
 			)}
+			{optimisticOperationType === "convert_pull_request_draft" &&
+				optimisticState === "failed" && (
+					<p className="text-xs text-destructive">
+						{optimisticErrorMessage ?? "Draft update failed."}
+					</p>
+				)}
+
+			<div className="flex flex-wrap items-center gap-2">
+				<LockConversationButton
+					ownerLogin={ownerLogin}
+					name={name}
+					repositoryId={repositoryId}
+					number={number}
+					locked={locked}
+					isLockOperation={optimisticOperationType === "update_lock_state"}
+					optimisticState={optimisticState}
+					optimisticErrorMessage={optimisticErrorMessage}
+				/>
+			</div>
 		</div>
 	);
 }
@@ -3540,6 +4085,22 @@ function ReviewOptimisticBadge({
 	return null;
 }
 
+type CheckGroup = {
+	readonly key: string;
+	readonly appName: string | null;
+	readonly appAvatarUrl: string | null;
+	readonly checks: ReadonlyArray<{
+		readonly source: "check_run" | "status";
+		readonly id: number;
+		readonly name: string;
+		readonly status: string;
+		readonly conclusion: string | null;
+		readonly detailsUrl: string | null;
+		readonly outputTitle: string | null;
+		readonly annotationsCount: number;
+	}>;
+};
+
 function CheckIcon({
 	status,
 	conclusion,
@@ -3557,7 +4118,8 @@ function CheckIcon({
 				<path d="M13.78 4.22a.75.75 0 0 1 0 1.06l-7.25 7.25a.75.75 0 0 1-1.06 0L2.22 9.28a.75.75 0 0 1 1.06-1.06L6 10.94l6.72-6.72a.75.75 0 0 1 1.06 0Z" />
 			</svg>
 		);
-	if (conclusion === "failure")
+	// Commit statuses report "error" alongside "failure"
+	if (conclusion === "failure" || conclusion === "error")
 		return (
 			<svg
 				className="size-3.5 text-github-closed"
@@ -3567,7 +4129,7 @@ function CheckIcon({
 				<path d="M3.72 3.72a.75.75 0 0 1 1.06 0L8 6.94l3.22-3.22a.75.75 0 1 1 1.06 1.06L9.06 8l3.22 3.22a.75.75 0 1 1-1.06 1.06L8 9.06l-3.22 3.22a.75.75 0 0 1-1.06-1.06L6.94 8 3.72 4.78a.75.75 0 0 1 0-1.06Z" />
 			</svg>
 		);
-	if (status === "in_progress")
+	if (status === "in_progress" || status === "pending")
 		return (
 			<div className="size-3.5 rounded-full border-2 border-github-warning border-t-transparent animate-spin" />
 		);
@@ -3576,7 +4138,7 @@ function CheckIcon({
 	);
 }
 
-function FileStatusBadge({ status }: { status: string }) {
+export function FileStatusBadge({ status }: { status: string }) {
 	const config: Record<string, { label: string; className: string }> = {
 		added: {
 			label: "A",
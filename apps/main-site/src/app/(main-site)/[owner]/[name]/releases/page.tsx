@@ -0,0 +1,38 @@
+import { Suspense } from "react";
+import { serverQueries } from "@/lib/server-queries";
+import { ReleasesSkeleton } from "../../../_components/skeletons";
+import { ReleasesClient } from "./releases-client";
+
+export default async function ReleasesPage(props: {
+	params: Promise<{ owner: string; name: string }>;
+}) {
+	const { owner, name } = await props.params;
+
+	return (
+		<div className="h-full">
+			<Suspense fallback={<ReleasesSkeleton />}>
+				<ReleasesContent owner={owner} name={name} />
+			</Suspense>
+		</div>
+	);
+}
+
+async function ReleasesContent({
+	owner,
+	name,
+}: {
+	owner: string;
+	name: string;
+}) {
+	const initialReleases = await serverQueries.listReleases
+		.queryPromise({ ownerLogin: owner, name })
+		.catch(() => null);
+
+	return (
+		<ReleasesClient
+			owner={owner}
+			name={name}
+			initialReleases={initialReleases}
+		/>
+	);
+}
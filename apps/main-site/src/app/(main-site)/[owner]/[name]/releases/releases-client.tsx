@@ -0,0 +1,181 @@
+"use client";
+
+import { useSubscriptionWithInitial } from "@packages/confect/rpc";
+import {
+	Avatar,
+	AvatarFallback,
+	AvatarImage,
+} from "@packages/ui/components/avatar";
+import { Badge } from "@packages/ui/components/badge";
+import { Card, CardContent, CardHeader } from "@packages/ui/components/card";
+import { ExternalLink, GitBranch, Tag } from "@packages/ui/components/icons";
+import { Link } from "@packages/ui/components/link";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { useMemo } from "react";
+import { ReleasesSkeleton } from "@/app/(main-site)/_components/skeletons";
+import { MarkdownBody } from "@/components/markdown-body";
+
+type ReleaseItem = {
+	readonly githubReleaseId: number;
+	readonly tagName: string;
+	readonly name: string | null;
+	readonly body: string | null;
+	readonly prerelease: boolean;
+	readonly authorLogin: string | null;
+	readonly authorAvatarUrl: string | null;
+	readonly targetCommitish: string;
+	readonly tagSha: string | null;
+	readonly htmlUrl: string | null;
+	readonly createdAt: number;
+	readonly publishedAt: number | null;
+};
+
+export function ReleasesClient({
+	owner,
+	name,
+	initialReleases,
+}: {
+	owner: string;
+	name: string;
+	initialReleases: ReadonlyArray<ReleaseItem> | null;
+}) {
+	const client = useProjectionQueries();
+
+	const releasesAtom = useMemo(
+		() => client.listReleases.subscription({ ownerLogin: owner, name }),
+		[client, owner, name],
+	);
+
+	const releases = useSubscriptionWithInitial(releasesAtom, initialReleases);
+
+	if (releases === null) {
+		return <ReleasesSkeleton />;
+	}
+
+	// GitHub marks the newest non-prerelease as "Latest"
+	const latestReleaseId =
+		releases.find((r) => !r.prerelease)?.githubReleaseId ?? null;
+
+	return (
+		<div className="h-full overflow-y-auto">
+			<div className="p-4">
+				<h1 className="text-base font-bold tracking-tight">Releases</h1>
+
+				{releases.length === 0 && (
+					<div className="py-16 text-center">
+						<Tag className="mx-auto size-10 text-muted-foreground/30" />
+						<p className="mt-3 text-sm text-muted-foreground">
+							No releases published yet
+						</p>
+					</div>
+				)}
+
+				<div className="mt-4 space-y-4">
+					{releases.map((release) => (
+						<Card
+							key={release.githubReleaseId}
+							id={`release-${release.githubReleaseId}`}
+							className="scroll-mt-4"
+						>
+							<CardHeader className="pb-2">
+								<div className="flex items-start gap-2">
+									<div className="min-w-0 flex-1">
+										<div className="flex flex-wrap items-center gap-2">
+											<h2 className="text-sm font-semibold break-words">
+												{release.name ?? release.tagName}
+											</h2>
+											{release.githubReleaseId === latestReleaseId && (
+												<Badge className="bg-github-open hover:bg-github-open/90 text-[10px]">
+													Latest
+												</Badge>
+											)}
+											{release.prerelease && (
+												<Badge className="bg-github-warning hover:bg-github-warning/90 text-[10px]">
+													Pre-release
+												</Badge>
+											)}
+										</div>
+										<div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+											{release.authorLogin && (
+												<span className="flex items-center gap-1">
+													<Avatar className="size-4">
+														<AvatarImage
+															src={release.authorAvatarUrl ?? undefined}
+														/>
+														<AvatarFallback className="text-[8px]">
+															{release.authorLogin[0]?.toUpperCase()}
+														</AvatarFallback>
+													</Avatar>
+													<span className="font-medium">
+														{release.authorLogin}
+													</span>
+												</span>
+											)}
+											<span>
+												released{" "}
+												{formatRelative(
+													release.publishedAt ?? release.createdAt,
+												)}
+											</span>
+										</div>
+									</div>
+									{release.htmlUrl && (
+										<Link
+											href={release.htmlUrl}
+											target="_blank"
+											rel="noopener noreferrer"
+											className="text-muted-foreground hover:text-foreground transition-colors shrink-0"
+											aria-label="View on GitHub"
+										>
+											<ExternalLink className="size-4" />
+										</Link>
+									)}
+								</div>
+								<div className="mt-2 flex flex-wrap items-center gap-2">
+									<Badge variant="outline" className="text-[10px] gap-1">
+										<Tag className="size-3" />
+										{release.tagName}
+									</Badge>
+									{release.tagSha !== null ? (
+										<Badge variant="outline" className="text-[10px] font-mono">
+											{release.tagSha.slice(0, 7)}
+										</Badge>
+									) : (
+										<Badge variant="outline" className="text-[10px] gap-1">
+											<GitBranch className="size-3" />
+											{release.targetCommitish}
+										</Badge>
+									)}
+								</div>
+							</CardHeader>
+							<CardContent>
+								{release.body ? (
+									<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-sm leading-relaxed">
+										<MarkdownBody>{release.body}</MarkdownBody>
+									</div>
+								) : (
+									<p className="text-xs text-muted-foreground italic">
+										No release notes.
+									</p>
+								)}
+							</CardContent>
+						</Card>
+					))}
+				</div>
+			</div>
+		</div>
+	);
+}
+
+function formatRelative(timestamp: number): string {
+	const diff = Math.floor((Date.now() - timestamp) / 1000);
+	if (diff < 60) return "just now";
+	if (diff < 3600) return `${Math.floor(diff / 60)}m ago`;
+	if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`;
+	if (diff < 604800) return `${Math.floor(diff / 86400)}d ago`;
+	return new Date(timestamp).toLocaleDateString(undefined, {
+		year: "numeric",
+		month: "short",
+		day: "numeric",
+	});
+}
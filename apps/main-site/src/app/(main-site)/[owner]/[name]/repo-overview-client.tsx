@@ -152,9 +152,18 @@ type PrItem = {
 	readonly commentCount: number;
 	readonly reviewCount: number;
 	readonly lastCheckConclusion: string | null;
+	readonly checkCounts: CheckCounts;
 	readonly githubUpdatedAt: number;
 };
 
+type CheckCounts = {
+	readonly total: number;
+	readonly passed: number;
+	readonly failed: number;
+	readonly pending: number;
+	readonly skipped: number;
+};
+
 export function RecentPrsPanel({
 	owner,
 	name,
@@ -229,8 +238,11 @@ export function RecentPrsPanel({
 								)}
 							</div>
 						</div>
-						{pr.lastCheckConclusion && (
-							<CheckDot conclusion={pr.lastCheckConclusion} />
+						{pr.checkCounts.total > 0 && (
+							<CheckDot
+								conclusion={pr.lastCheckConclusion}
+								counts={pr.checkCounts}
+							/>
 						)}
 					</Link>
 				))}
@@ -387,7 +399,24 @@ function IssueStateIcon({ state }: { state: "open" | "closed" }) {
 	);
 }
 
-function CheckDot({ conclusion }: { conclusion: string }) {
+function formatCheckCounts(counts: CheckCounts) {
+	const parts = [
+		counts.passed > 0 ? `${counts.passed} passed` : null,
+		counts.failed > 0 ? `${counts.failed} failed` : null,
+		counts.pending > 0 ? `${counts.pending} pending` : null,
+		counts.skipped > 0 ? `${counts.skipped} skipped` : null,
+	];
+	return parts.filter((part) => part !== null).join(", ");
+}
+
+function CheckDot({
+	conclusion,
+	counts,
+}: {
+	conclusion: string | null;
+	counts: CheckCounts;
+}) {
+	const title = formatCheckCounts(counts);
 	if (conclusion === "success")
 		return (
 			<svg
@@ -395,6 +424,7 @@ function CheckDot({ conclusion }: { conclusion: string }) {
 				viewBox="0 0 16 16"
 				fill="currentColor"
 			>
+				<title>{title}</title>
 				<path d="M8 16A8 8 0 1 1 8 0a8 8 0 0 1 0 16Zm3.78-9.72a.751.751 0 0 0-.018-1.042.751.751 0 0 0-1.042-.018L6.75 9.19 5.28 7.72a.751.751 0 0 0-1.042.018.751.751 0 0 0-.018 1.042l2 2a.75.75 0 0 0 1.06 0Z" />
 			</svg>
 		);
@@ -405,6 +435,7 @@ function CheckDot({ conclusion }: { conclusion: string }) {
 				viewBox="0 0 16 16"
 				fill="currentColor"
 			>
+				<title>{title}</title>
 				<path d="M2.343 13.657A8 8 0 1 1 13.658 2.343 8 8 0 0 1 2.343 13.657ZM6.03 4.97a.751.751 0 0 0-1.042.018.751.751 0 0 0-.018 1.042L6.94 8 4.97 9.97a.749.749 0 0 0 .326 1.275.749.749 0 0 0 .734-.215L8 9.06l1.97 1.97a.749.749 0 0 0 1.275-.326.749.749 0 0 0-.215-.734L9.06 8l1.97-1.97a.749.749 0 0 0-.326-1.275.749.749 0 0 0-.734.215L8 6.94Z" />
 			</svg>
 		);
@@ -414,6 +445,7 @@ function CheckDot({ conclusion }: { conclusion: string }) {
 			viewBox="0 0 16 16"
 			fill="currentColor"
 		>
+			<title>{title}</title>
 			<path d="M8 4a4 4 0 1 0 0 8 4 4 0 0 0 0-8Z" />
 		</svg>
 	);
@@ -1,4 +1,9 @@
-import { createSearchParamsCache, parseAsStringLiteral } from "nuqs/server";
+import {
+	createSearchParamsCache,
+	createSerializer,
+	parseAsString,
+	parseAsStringLiteral,
+} from "nuqs/server";
 
 /** State filter values for PR and issue lists */
 export const STATE_FILTERS = ["all", "open", "closed"] as const;
@@ -12,3 +17,28 @@ export const stateFilterParsers = {
 /** Server-side search params cache for list pages */
 export const stateFilterSearchParamsCache =
 	createSearchParamsCache(stateFilterParsers);
+
+/**
+ * Saved-view query state for PR/issue lists: `q` is search DSL text and
+ * `view` the saved view it was opened from, if any. A URL carrying only `q`
+ * is a shareable, unsaved view.
+ */
+export const savedViewParsers = {
+	q: parseAsString.withDefault(""),
+	view: parseAsString,
+};
+
+const serializeSavedViewParams = createSerializer(savedViewParsers);
+
+/** Link to a PR or issue list filtered by a DSL query */
+export const buildSavedViewHref = (
+	owner: string,
+	name: string,
+	target: "issue" | "pr",
+	query: string,
+	viewId: string | null = null,
+) =>
+	serializeSavedViewParams(
+		`/${owner}/${name}/${target === "pr" ? "pulls" : "issues"}`,
+		{ q: query, view: viewId },
+	);
@@ -0,0 +1,155 @@
+"use client";
+
+import { useSubscriptionWithInitial } from "@packages/confect/rpc";
+import { Badge } from "@packages/ui/components/badge";
+import { Button } from "@packages/ui/components/button";
+import {
+	CheckCircle2,
+	MessageCircle,
+	MessagesSquare,
+} from "@packages/ui/components/icons";
+import { Link } from "@packages/ui/components/link";
+import { cn } from "@packages/ui/lib/utils";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { useMemo, useState } from "react";
+import { ListSkeleton } from "./skeletons";
+
+type DiscussionItem = {
+	readonly number: number;
+	readonly state: "open" | "closed";
+	readonly title: string;
+	readonly authorLogin: string | null;
+	readonly categoryName: string | null;
+	readonly isAnswered: boolean;
+	readonly commentCount: number;
+	readonly githubUpdatedAt: number;
+};
+
+/**
+ * Sidebar list of a repository's discussions, most recently updated first.
+ */
+export function DiscussionListClient({
+	owner,
+	name,
+	initialData = null,
+	activeDiscussionNumber = null,
+}: {
+	owner: string;
+	name: string;
+	initialData?: ReadonlyArray<DiscussionItem> | null;
+	activeDiscussionNumber?: number | null;
+}) {
+	const [stateFilter, setStateFilter] = useState<"open" | "closed" | "all">(
+		"open",
+	);
+
+	const client = useProjectionQueries();
+	const discussionsAtom = useMemo(
+		() =>
+			client.listDiscussions.subscription({
+				ownerLogin: owner,
+				name,
+				state: stateFilter === "all" ? undefined : stateFilter,
+			}),
+		[client, owner, name, stateFilter],
+	);
+
+	const discussions = useSubscriptionWithInitial(discussionsAtom, initialData);
+
+	return (
+		<div className="p-1.5">
+			<div className="flex gap-0.5 mb-1.5 px-1">
+				{(["open", "closed", "all"] as const).map((f) => (
+					<Button
+						key={f}
+						variant={stateFilter === f ? "default" : "ghost"}
+						size="sm"
+						className="h-6 text-[10px] px-2 font-medium"
+						onClick={() => setStateFilter(f)}
+					>
+						{f === "open" ? "Open" : f === "closed" ? "Closed" : "All"}
+					</Button>
+				))}
+			</div>
+
+			{discussions === null && <ListSkeleton />}
+
+			{discussions !== null && discussions.length === 0 && (
+				<p className="px-2 py-8 text-xs text-muted-foreground text-center">
+					{`No ${stateFilter !== "all" ? stateFilter : ""} discussions.`}
+				</p>
+			)}
+
+			{discussions?.map((discussion) => (
+				<Link
+					key={discussion.number}
+					href={`/${owner}/${name}/discussions/${discussion.number}`}
+					className={cn(
+						"flex items-start gap-2 rounded-md px-2 py-1.5 text-sm transition-colors no-underline",
+						activeDiscussionNumber === discussion.number
+							? "bg-accent text-accent-foreground"
+							: "hover:bg-accent/50",
+					)}
+				>
+					{discussion.isAnswered ? (
+						<CheckCircle2 className="mt-0.5 size-3.5 text-status-open shrink-0" />
+					) : (
+						<MessagesSquare
+							className={cn(
+								"mt-0.5 size-3.5 shrink-0",
+								discussion.state === "open"
+									? "text-muted-foreground"
+									: "text-status-closed",
+							)}
+						/>
+					)}
+					<div className="min-w-0 flex-1">
+						<div className="flex items-center gap-1.5">
+							<span className="font-medium text-xs truncate leading-tight">
+								{discussion.title}
+							</span>
+							{discussion.categoryName !== null && (
+								<Badge
+									variant="outline"
+									className="h-4 px-1 text-[9px] shrink-0"
+								>
+									{discussion.categoryName}
+								</Badge>
+							)}
+						</div>
+						<div className="flex items-center gap-1.5 text-[10px] text-muted-foreground mt-0.5 tabular-nums">
+							<span>#{discussion.number}</span>
+							{discussion.authorLogin && (
+								<>
+									<span className="text-muted-foreground/40">&middot;</span>
+									<span>{discussion.authorLogin}</span>
+								</>
+							)}
+							<span className="text-muted-foreground/40">&middot;</span>
+							<span>{formatRelative(discussion.githubUpdatedAt)}</span>
+							{discussion.commentCount > 0 && (
+								<span className="flex items-center gap-0.5">
+									<MessageCircle className="size-2.5" />
+									{discussion.commentCount}
+								</span>
+							)}
+						</div>
+					</div>
+				</Link>
+			))}
+		</div>
+	);
+}
+
+function formatRelative(timestamp: number): string {
+	const diff = Math.floor((Date.now() - timestamp) / 1000);
+	if (diff < 60) return "just now";
+	if (diff < 3600) return `${Math.floor(diff / 60)}m ago`;
+	if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`;
+	if (diff < 604800) return `${Math.floor(diff / 86400)}d ago`;
+	return new Date(timestamp).toLocaleDateString(undefined, {
+		year: "numeric",
+		month: "short",
+		day: "numeric",
+	});
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useAtom } from "@effect-atom/atom-react";
+import { Button } from "@packages/ui/components/button";
+import { Textarea } from "@packages/ui/components/textarea";
+import { cn } from "@packages/ui/lib/utils";
+import { useGithubWrite } from "@packages/ui/rpc/github-write";
+import { useId, useState } from "react";
+import { MarkdownBody } from "@/components/markdown-body";
+
+/**
+ * Markdown body of an issue comment or PR review comment with inline
+ * edit/delete controls. Progress and failures come from the comment row's
+ * optimistic state, so each comment reports its own write.
+ */
+export function EditableCommentBody({
+	ownerLogin,
+	name,
+	repositoryId,
+	commentType,
+	commentId,
+	body,
+	optimisticOperationType,
+	optimisticState,
+	optimisticErrorMessage,
+}: {
+	ownerLogin: string;
+	name: string;
+	repositoryId: number;
+	commentType: "issue_comment" | "review_comment";
+	/** `githubCommentId` or `githubReviewCommentId`, per `commentType` */
+	commentId: number;
+	body: string;
+	optimisticOperationType:
+		| "create_comment"
+		| "update_comment"
+		| "delete_comment"
+		| null;
+	optimisticState: "pending" | "failed" | "confirmed" | null;
+	optimisticErrorMessage: string | null;
+}) {
+	const writeClient = useGithubWrite();
+	const [, updateComment] = useAtom(writeClient.updateComment.call, {
+		mode: "promise",
+	});
+	const [, deleteComment] = useAtom(writeClient.deleteComment.call, {
+		mode: "promise",
+	});
+	const [, updateReviewComment] = useAtom(
+		writeClient.updateReviewComment.call,
+		{ mode: "promise" },
+	);
+	const [, deleteReviewComment] = useAtom(
+		writeClient.deleteReviewComment.call,
+		{ mode: "promise" },
+	);
+	const correlationPrefix = useId();
+	const [draftBody, setDraftBody] = useState<string | null>(null);
+	const [confirmingDelete, setConfirmingDelete] = useState(false);
+	const [requestError, setRequestError] = useState<string | null>(null);
+
+	const isPending = optimisticState === "pending";
+	const isDeleting = isPending && optimisticOperationType === "delete_comment";
+	const trimmedDraft = draftBody?.trim() ?? "";
+
+	const saveEdit = async () => {
+		if (trimmedDraft.length === 0 || trimmedDraft === body) return;
+		setDraftBody(null);
+		setRequestError(null);
+		const correlationId = `${correlationPrefix}-edit-comment-${Date.now()}`;
+		try {
+			if (commentType === "issue_comment") {
+				await updateComment({
+					correlationId,
+					ownerLogin,
+					name,
+					repositoryId,
+					githubCommentId: commentId,
+					body: trimmedDraft,
+				});
+			} else {
+				await updateReviewComment({
+					correlationId,
+					ownerLogin,
+					name,
+					repositoryId,
+					githubReviewCommentId: commentId,
+					body: trimmedDraft,
+				});
+			}
+		} catch {
+			setRequestError("Could not save edit.");
+		}
+	};
+
+	const confirmDelete = async () => {
+		setConfirmingDelete(false);
+		setRequestError(null);
+		const correlationId = `${correlationPrefix}-delete-comment-${Date.now()}`;
+		try {
+			if (commentType === "issue_comment") {
+				await deleteComment({
+					correlationId,
+					ownerLogin,
+					name,
+					repositoryId,
+					githubCommentId: commentId,
+				});
+			} else {
+				await deleteReviewComment({
+					correlationId,
+					ownerLogin,
+					name,
+					repositoryId,
+					githubReviewCommentId: commentId,
+				});
+			}
+		} catch {
+			setRequestError("Could not delete comment.");
+		}
+	};
+
+	const failureMessage =
+		optimisticState === "failed" &&
+		(optimisticOperationType === "update_comment" ||
+			optimisticOperationType === "delete_comment")
+			? `${optimisticOperationType === "update_comment" ? "Edit" : "Delete"} failed${optimisticErrorMessage ? `: ${optimisticErrorMessage}` : "."}`
+			: requestError;
+
+	return (
+		<div className={cn(isDeleting && "opacity-50")}>
+			{draftBody === null ? (
+				<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-xs leading-relaxed">
+					<MarkdownBody>{body}</MarkdownBody>
+				</div>
+			) : (
+				<div className="space-y-1.5">
+					<Textarea
+						value={draftBody}
+						onChange={(event) => setDraftBody(event.target.value)}
+						rows={4}
+						className="text-xs"
+					/>
+					<div className="flex justify-end gap-1.5">
+						<Button
+							variant="outline"
+							size="sm"
+							className="h-6 px-2 text-[10px]"
+							onClick={() => setDraftBody(null)}
+						>
+							Cancel
+						</Button>
+						<Button
+							size="sm"
+							className="h-6 px-2 text-[10px]"
+							disabled={trimmedDraft.length === 0 || trimmedDraft === body}
+							onClick={saveEdit}
+						>
+							Save
+						</Button>
+					</div>
+				</div>
+			)}
+			<div className="mt-1 flex flex-wrap items-center gap-1">
+				{!isPending && draftBody === null && (
+					<>
+						<button
+							type="button"
+							onClick={() => {
+								setConfirmingDelete(false);
+								setDraftBody(body);
+							}}
+							className="rounded px-1.5 py-0.5 text-[10px] text-muted-foreground/60 hover:text-muted-foreground transition-colors cursor-pointer"
+						>
+							Edit
+						</button>
+						{confirmingDelete ? (
+							<>
+								<button
+									type="button"
+									onClick={confirmDelete}
+									className="rounded px-1.5 py-0.5 text-[10px] text-destructive hover:bg-destructive/10 transition-colors cursor-pointer"
+								>
+									Confirm delete
+								</button>
+								<button
+									type="button"
+									onClick={() => setConfirmingDelete(false)}
+									className="rounded px-1.5 py-0.5 text-[10px] text-muted-foreground/60 hover:text-muted-foreground transition-colors cursor-pointer"
+								>
+									Keep
+								</button>
+							</>
+						) : (
+							<button
+								type="button"
+								onClick={() => setConfirmingDelete(true)}
+								className="rounded px-1.5 py-0.5 text-[10px] text-muted-foreground/60 hover:text-destructive transition-colors cursor-pointer"
+							>
+								Delete
+							</button>
+						)}
+					</>
+				)}
+				{isPending && optimisticOperationType === "update_comment" && (
+					<span className="text-[10px] text-muted-foreground">
+						Saving edit...
+					</span>
+				)}
+				{isDeleting && (
+					<span className="text-[10px] text-muted-foreground">Deleting...</span>
+				)}
+				{failureMessage !== null && (
+					<span className="text-[10px] text-destructive">{failureMessage}</span>
+				)}
+			</div>
+		</div>
+	);
+}
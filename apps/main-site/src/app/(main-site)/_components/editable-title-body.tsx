@@ -0,0 +1,239 @@
+"use client";
+
+import { useAtom } from "@effect-atom/atom-react";
+import { Button } from "@packages/ui/components/button";
+import { Input } from "@packages/ui/components/input";
+import { Textarea } from "@packages/ui/components/textarea";
+import { useGithubWrite } from "@packages/ui/rpc/github-write";
+import { type ReactNode, useId, useState } from "react";
+import { MarkdownBody } from "@/components/markdown-body";
+
+type TitleBodyTarget = {
+	ownerLogin: string;
+	name: string;
+	repositoryId: number;
+	number: number;
+	/** Whether the row's optimistic write is an `update_title_body` */
+	isTitleBodyOperation: boolean;
+	optimisticState: "pending" | "failed" | "confirmed" | null;
+	optimisticErrorMessage: string | null;
+};
+
+function useUpdateTitleBody({
+	ownerLogin,
+	name,
+	repositoryId,
+	number,
+}: TitleBodyTarget) {
+	const writeClient = useGithubWrite();
+	const [, updateTitleBody] = useAtom(writeClient.updateTitleBody.call, {
+		mode: "promise",
+	});
+	const correlationPrefix = useId();
+
+	return async (fields: { title?: string; body?: string }) => {
+		await updateTitleBody({
+			correlationId: `${correlationPrefix}-edit-title-body-${Date.now()}`,
+			ownerLogin,
+			name,
+			repositoryId,
+			number,
+			...fields,
+		});
+	};
+}
+
+function optimisticFailureMessage(target: TitleBodyTarget) {
+	return target.isTitleBodyOperation && target.optimisticState === "failed"
+		? `Edit failed${target.optimisticErrorMessage ? `: ${target.optimisticErrorMessage}` : "."}`
+		: null;
+}
+
+/**
+ * Issue or pull request title with an inline edit control.
+ */
+export function EditableTitle({
+	title,
+	...target
+}: TitleBodyTarget & { title: string }) {
+	const updateTitleBody = useUpdateTitleBody(target);
+	const [draftTitle, setDraftTitle] = useState<string | null>(null);
+	const [requestError, setRequestError] = useState<string | null>(null);
+
+	const isPending =
+		target.isTitleBodyOperation && target.optimisticState === "pending";
+	const trimmedDraft = draftTitle?.trim() ?? "";
+
+	const saveEdit = async () => {
+		if (trimmedDraft.length === 0 || trimmedDraft === title) return;
+		setDraftTitle(null);
+		setRequestError(null);
+		try {
+			await updateTitleBody({ title: trimmedDraft });
+		} catch {
+			setRequestError("Could not save title.");
+		}
+	};
+
+	const failureMessage = optimisticFailureMessage(target) ?? requestError;
+
+	if (draftTitle !== null) {
+		return (
+			<div className="flex items-center gap-1.5">
+				<Input
+					value={draftTitle}
+					onChange={(event) => setDraftTitle(event.target.value)}
+					onKeyDown={(event) => {
+						if (event.key === "Enter") saveEdit();
+						if (event.key === "Escape") setDraftTitle(null);
+					}}
+					className="h-8 text-sm font-bold"
+					autoFocus
+				/>
+				<Button
+					variant="outline"
+					size="sm"
+					className="h-8 px-2 text-xs"
+					onClick={() => setDraftTitle(null)}
+				>
+					Cancel
+				</Button>
+				<Button
+					size="sm"
+					className="h-8 px-2 text-xs"
+					disabled={trimmedDraft.length === 0 || trimmedDraft === title}
+					onClick={saveEdit}
+				>
+					Save
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<div>
+			<div className="flex items-start gap-1.5">
+				<h1 className="min-w-0 flex-1 text-base font-bold break-words leading-snug tracking-tight">
+					{title}
+				</h1>
+				{!isPending && (
+					<button
+						type="button"
+						onClick={() => setDraftTitle(title)}
+						className="shrink-0 rounded px-1.5 py-0.5 text-[10px] text-muted-foreground/60 hover:text-muted-foreground transition-colors cursor-pointer"
+					>
+						Edit
+					</button>
+				)}
+			</div>
+			{isPending && (
+				<span className="text-[10px] text-muted-foreground">
+					Syncing with GitHub...
+				</span>
+			)}
+			{failureMessage !== null && (
+				<span className="text-[10px] text-destructive">{failureMessage}</span>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Issue or pull request description with an inline edit control. Renders a
+ * placeholder when the body is empty so a description can still be added.
+ */
+export function EditableBody({
+	body,
+	renderBody,
+	...target
+}: TitleBodyTarget & {
+	body: string | null;
+	/** Custom rendering for a non-empty body; defaults to full markdown */
+	renderBody?: (body: string) => ReactNode;
+}) {
+	const updateTitleBody = useUpdateTitleBody(target);
+	const [draftBody, setDraftBody] = useState<string | null>(null);
+	const [requestError, setRequestError] = useState<string | null>(null);
+
+	const currentBody = body ?? "";
+	const isPending =
+		target.isTitleBodyOperation && target.optimisticState === "pending";
+
+	const saveEdit = async () => {
+		if (draftBody === null || draftBody === currentBody) return;
+		const nextBody = draftBody;
+		setDraftBody(null);
+		setRequestError(null);
+		try {
+			await updateTitleBody({ body: nextBody });
+		} catch {
+			setRequestError("Could not save description.");
+		}
+	};
+
+	const failureMessage = optimisticFailureMessage(target) ?? requestError;
+
+	return (
+		<div>
+			{draftBody === null ? (
+				currentBody.length > 0 ? (
+					(renderBody?.(currentBody) ?? (
+						<div className="prose prose-sm dark:prose-invert max-w-none overflow-x-auto text-sm leading-relaxed">
+							<MarkdownBody>{currentBody}</MarkdownBody>
+						</div>
+					))
+				) : (
+					<p className="text-xs italic text-muted-foreground">
+						No description provided.
+					</p>
+				)
+			) : (
+				<div className="space-y-1.5">
+					<Textarea
+						value={draftBody}
+						onChange={(event) => setDraftBody(event.target.value)}
+						rows={8}
+						className="text-sm"
+					/>
+					<div className="flex justify-end gap-1.5">
+						<Button
+							variant="outline"
+							size="sm"
+							className="h-6 px-2 text-[10px]"
+							onClick={() => setDraftBody(null)}
+						>
+							Cancel
+						</Button>
+						<Button
+							size="sm"
+							className="h-6 px-2 text-[10px]"
+							disabled={draftBody === currentBody}
+							onClick={saveEdit}
+						>
+							Save
+						</Button>
+					</div>
+				</div>
+			)}
+			<div className="mt-1 flex flex-wrap items-center gap-1">
+				{!isPending && draftBody === null && (
+					<button
+						type="button"
+						onClick={() => setDraftBody(currentBody)}
+						className="rounded px-1.5 py-0.5 text-[10px] text-muted-foreground/60 hover:text-muted-foreground transition-colors cursor-pointer"
+					>
+						Edit
+					</button>
+				)}
+				{isPending && (
+					<span className="text-[10px] text-muted-foreground">
+						Syncing with GitHub...
+					</span>
+				)}
+				{failureMessage !== null && (
+					<span className="text-[10px] text-destructive">{failureMessage}</span>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -27,6 +27,7 @@ import { cn } from "@packages/ui/lib/utils";
 import { Option } from "effect";
 import type { ReactNode } from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { LabelChip, useLabelLookup } from "./label-chip";
 import { triggerOpenSearchCommand } from "./search-command-events";
 import { useSharedHomeDashboardAtom } from "./shared-projection-subscriptions";
 
@@ -641,6 +642,8 @@ function PrStateIcon({
 // ---------------------------------------------------------------------------
 
 function IssueRow({ issue }: { issue: DashboardIssueItem }) {
+	const labelByName = useLabelLookup(issue.ownerLogin, issue.repoName);
+
 	return (
 		<Link
 			href={`/${issue.ownerLogin}/${issue.repoName}/issues/${issue.number}`}
@@ -669,9 +672,12 @@ function IssueRow({ issue }: { issue: DashboardIssueItem }) {
 			{issue.labelNames.length > 0 && (
 				<div className="flex shrink-0 gap-1">
 					{issue.labelNames.slice(0, 2).map((label) => (
-						<Badge key={label} variant="outline" className="text-[10px]">
-							{label}
-						</Badge>
+						<LabelChip
+							key={label}
+							name={label}
+							label={labelByName.get(label)}
+							className="text-[10px]"
+						/>
 					))}
 					{issue.labelNames.length > 2 && (
 						<span className="font-mono text-[10px] text-muted-foreground/40">
@@ -16,7 +16,15 @@ import { cn } from "@packages/ui/lib/utils";
 import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
 import { useHotkey } from "@tanstack/react-hotkeys";
 import { useRouter } from "next/navigation";
+import { useQueryStates } from "nuqs";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { savedViewParsers } from "@/app/(main-site)/[owner]/[name]/search-params";
+import { LabelChip, useLabelLookup } from "./label-chip";
+import { SavedViewBar } from "./saved-view-bar";
+import {
+	buildListFilters,
+	parseSearchCommandQuery,
+} from "./search-command-dsl";
 
 const PAGE_SIZE = 30;
 
@@ -57,16 +65,51 @@ export function IssueListClient({
 	const [stateFilter, setStateFilter] = useState<"open" | "closed" | "all">(
 		"open",
 	);
+	const [{ q: viewQuery, view: viewId }, setViewParams] =
+		useQueryStates(savedViewParsers);
+	const labelByName = useLabelLookup(owner, name);
+	const viewFilters = useMemo(
+		() =>
+			viewQuery.trim().length > 0
+				? buildListFilters(parseSearchCommandQuery(viewQuery))
+				: null,
+		[viewQuery],
+	);
 
 	const client = useProjectionQueries();
 	const paginatedAtom = useMemo(
 		() =>
-			client.listIssuesPaginated.paginated(PAGE_SIZE, {
-				ownerLogin: owner,
-				name,
-				state: stateFilter === "all" ? undefined : stateFilter,
-			}),
-		[client, owner, name, stateFilter],
+			client.listIssuesPaginated.paginated(
+				PAGE_SIZE,
+				viewFilters !== null
+					? {
+							ownerLogin: owner,
+							name,
+							// Issues are never merged; `merged` narrows to closed
+							state:
+								viewFilters.state === "merged"
+									? "closed"
+									: (viewFilters.state ?? undefined),
+							authorLogin: viewFilters.authorLogin ?? undefined,
+							assigneeLogin: viewFilters.assigneeLogin ?? undefined,
+							labels:
+								viewFilters.labels.length > 0
+									? [...viewFilters.labels]
+									: undefined,
+							updatedAfter: viewFilters.updatedAfter ?? undefined,
+							linked: viewFilters.linked || undefined,
+							textTokens:
+								viewFilters.textTokens.length > 0
+									? [...viewFilters.textTokens]
+									: undefined,
+						}
+					: {
+							ownerLogin: owner,
+							name,
+							state: stateFilter === "all" ? undefined : stateFilter,
+						},
+			),
+		[client, owner, name, stateFilter, viewFilters],
 	);
 
 	const pagination = useInfinitePaginationWithInitial(
@@ -75,47 +118,45 @@ export function IssueListClient({
 	);
 	const { items: issues, sentinelRef, isLoading } = pagination;
 
-	const filteredIssues = useMemo(() => issues, [issues]);
-
 	const router = useRouter();
 	const activeNumber = activeIssueNumber;
 
-	const activeIndex = filteredIssues.findIndex(
+	const activeIndex = issues.findIndex(
 		(issue) => issue.number === activeNumber,
 	);
 
 	const pendingNavRef = useRef<"next" | null>(null);
-	const prevCountRef = useRef(filteredIssues.length);
+	const prevCountRef = useRef(issues.length);
 
 	useEffect(() => {
 		if (
-			filteredIssues.length > prevCountRef.current &&
+			issues.length > prevCountRef.current &&
 			pendingNavRef.current === "next"
 		) {
 			const nextIndex = prevCountRef.current;
-			const issue = filteredIssues[nextIndex];
+			const issue = issues[nextIndex];
 			if (issue) {
 				router.push(`/${owner}/${name}/issues/${issue.number}`);
 				scrollIssueIntoView(issue.number);
 			}
 			pendingNavRef.current = null;
 		}
-		prevCountRef.current = filteredIssues.length;
-	}, [filteredIssues.length, filteredIssues, owner, name, router]);
+		prevCountRef.current = issues.length;
+	}, [issues.length, issues, owner, name, router]);
 
 	const navigateTo = useCallback(
 		(index: number) => {
-			const issue = filteredIssues[index];
+			const issue = issues[index];
 			if (!issue) return;
 			router.push(`/${owner}/${name}/issues/${issue.number}`);
 			scrollIssueIntoView(issue.number);
 		},
-		[filteredIssues, owner, name, router],
+		[issues, owner, name, router],
 	);
 
 	useHotkey("J", (event) => {
 		event.preventDefault();
-		if (filteredIssues.length === 0) return;
+		if (issues.length === 0) return;
 
 		if (activeIndex === -1) {
 			navigateTo(0);
@@ -123,7 +164,7 @@ export function IssueListClient({
 		}
 
 		const nextIndex = activeIndex + 1;
-		if (nextIndex < filteredIssues.length) {
+		if (nextIndex < issues.length) {
 			navigateTo(nextIndex);
 		} else if (pagination.hasMore) {
 			pendingNavRef.current = "next";
@@ -133,14 +174,14 @@ export function IssueListClient({
 
 	useHotkey("K", (event) => {
 		event.preventDefault();
-		if (filteredIssues.length === 0) return;
+		if (issues.length === 0) return;
 		const nextIndex = activeIndex === -1 ? 0 : Math.max(activeIndex - 1, 0);
 		navigateTo(nextIndex);
 	});
 
 	useHotkey("O", (event) => {
 		event.preventDefault();
-		if (filteredIssues.length === 0) return;
+		if (issues.length === 0) return;
 		const index = activeIndex === -1 ? 0 : activeIndex;
 		navigateTo(index);
 	});
@@ -159,27 +200,41 @@ export function IssueListClient({
 				</LinkButton>
 			</div>
 
-			<div className="flex gap-0.5 mb-1.5 px-1">
-				{(["open", "closed", "all"] as const).map((f) => (
-					<Button
-						key={f}
-						variant={stateFilter === f ? "default" : "ghost"}
-						size="sm"
-						className="h-6 text-[10px] px-2 font-medium"
-						onClick={() => setStateFilter(f)}
-					>
-						{f === "open" ? "Open" : f === "closed" ? "Closed" : "All"}
-					</Button>
-				))}
-			</div>
+			{viewFilters !== null ? (
+				<SavedViewBar
+					owner={owner}
+					name={name}
+					target="issue"
+					query={viewQuery}
+					viewId={viewId}
+					onSaved={(savedViewId) => setViewParams({ view: savedViewId })}
+					onClear={() => setViewParams({ q: null, view: null })}
+				/>
+			) : (
+				<div className="flex gap-0.5 mb-1.5 px-1">
+					{(["open", "closed", "all"] as const).map((f) => (
+						<Button
+							key={f}
+							variant={stateFilter === f ? "default" : "ghost"}
+							size="sm"
+							className="h-6 text-[10px] px-2 font-medium"
+							onClick={() => setStateFilter(f)}
+						>
+							{f === "open" ? "Open" : f === "closed" ? "Closed" : "All"}
+						</Button>
+					))}
+				</div>
+			)}
 
-			{filteredIssues.length === 0 && !isLoading && (
+			{issues.length === 0 && !isLoading && (
 				<p className="px-2 py-8 text-xs text-muted-foreground text-center">
-					{`No ${stateFilter !== "all" ? stateFilter : ""} issues.`}
+					{viewFilters !== null
+						? "No issues match this view."
+						: `No ${stateFilter !== "all" ? stateFilter : ""} issues.`}
 				</p>
 			)}
 
-			{filteredIssues.map((issue) => (
+			{issues.map((issue) => (
 				<Link
 					key={issue.number}
 					data-issue-number={issue.number}
@@ -234,13 +289,12 @@ export function IssueListClient({
 						{issue.labelNames.length > 0 && (
 							<div className="flex flex-wrap gap-0.5 mt-1">
 								{issue.labelNames.map((label) => (
-									<Badge
+									<LabelChip
 										key={label}
-										variant="outline"
+										name={label}
+										label={labelByName.get(label)}
 										className="text-[9px] px-1 py-0"
-									>
-										{label}
-									</Badge>
+									/>
 								))}
 							</div>
 						)}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useSubscriptionWithInitial } from "@packages/confect/rpc";
+import { Badge } from "@packages/ui/components/badge";
+import { cn } from "@packages/ui/lib/utils";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { type ReactNode, useMemo } from "react";
+
+export type RepoLabel = {
+	readonly name: string;
+	/** 6-character hex code without `#`, or null before the catalog syncs */
+	readonly color: string | null;
+	readonly description: string | null;
+};
+
+/**
+ * Subscribe to a repository's label catalog. Returns null while loading.
+ */
+export function useRepoLabels(
+	ownerLogin: string,
+	name: string,
+): ReadonlyArray<RepoLabel> | null {
+	const client = useProjectionQueries();
+	const labelsAtom = useMemo(
+		() => client.listRepoLabels.subscription({ ownerLogin, name }),
+		[client, ownerLogin, name],
+	);
+	return useSubscriptionWithInitial<ReadonlyArray<RepoLabel> | null>(
+		labelsAtom,
+		null,
+	);
+}
+
+/**
+ * Label name → catalog entry for a repository, for rendering the
+ * `labelNames` carried on issues and pull requests.
+ */
+export function useLabelLookup(
+	ownerLogin: string,
+	name: string,
+): ReadonlyMap<string, RepoLabel> {
+	const labels = useRepoLabels(ownerLogin, name);
+	return useMemo(
+		() => new Map((labels ?? []).map((label) => [label.name, label])),
+		[labels],
+	);
+}
+
+/** Pick black or white text for a label background (GitHub's YIQ rule). */
+const isLightColor = (color: string) => {
+	const r = Number.parseInt(color.slice(0, 2), 16);
+	const g = Number.parseInt(color.slice(2, 4), 16);
+	const b = Number.parseInt(color.slice(4, 6), 16);
+	return (r * 299 + g * 587 + b * 114) / 1000 >= 150;
+};
+
+/**
+ * A label rendered in its GitHub color. Falls back to an outline badge when
+ * the color isn't known yet.
+ */
+export function LabelChip({
+	name,
+	label,
+	className,
+	children,
+}: {
+	name: string;
+	label: RepoLabel | undefined;
+	className?: string;
+	children?: ReactNode;
+}) {
+	const color =
+		label?.color && /^[0-9a-f]{6}$/i.test(label.color) ? label.color : null;
+
+	return (
+		<Badge
+			variant="outline"
+			title={label?.description ?? undefined}
+			className={cn(color !== null && "border-transparent", className)}
+			style={
+				color === null
+					? undefined
+					: {
+							backgroundColor: `#${color}`,
+							color: isLightColor(color) ? "#1f2328" : "#ffffff",
+						}
+			}
+		>
+			{name}
+			{children}
+		</Badge>
+	);
+}
+
+/** Small color swatch for label pickers. */
+export function LabelSwatch({ label }: { label: RepoLabel | undefined }) {
+	return (
+		<span
+			className="size-2.5 shrink-0 rounded-full border border-border"
+			style={label?.color ? { backgroundColor: `#${label.color}` } : undefined}
+		/>
+	);
+}
@@ -1,7 +1,6 @@
 "use client";
 
-import { Result, useAtom, useAtomValue } from "@effect-atom/atom-react";
-import { Badge } from "@packages/ui/components/badge";
+import { Result, useAtom } from "@effect-atom/atom-react";
 import {
 	Command,
 	CommandEmpty,
@@ -18,9 +17,8 @@ import {
 } from "@packages/ui/components/popover";
 import { cn } from "@packages/ui/lib/utils";
 import { useGithubWrite } from "@packages/ui/rpc/github-write";
-import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
-import { Option } from "effect";
 import { useId, useMemo, useState } from "react";
+import { LabelChip, LabelSwatch, useLabelLookup } from "./label-chip";
 
 export function LabelsCombobox({
 	ownerLogin,
@@ -43,12 +41,7 @@ export function LabelsCombobox({
 }) {
 	const [open, setOpen] = useState(false);
 
-	const client = useProjectionQueries();
-	const labelsAtom = useMemo(
-		() => client.listRepoLabels.subscription({ ownerLogin, name }),
-		[client, ownerLogin, name],
-	);
-	const labelsResult = useAtomValue(labelsAtom);
+	const labelByName = useLabelLookup(ownerLogin, name);
 
 	const writeClient = useGithubWrite();
 	const [updateResult, updateLabels] = useAtom(writeClient.updateLabels.call);
@@ -57,16 +50,11 @@ export function LabelsCombobox({
 
 	// Merge server-known labels with current issue labels
 	const availableLabels = useMemo(() => {
-		if (!Result.isSuccess(labelsResult)) return [...currentLabels];
-		const valueOpt = Result.value(labelsResult);
-		if (Option.isNone(valueOpt)) return [...currentLabels];
-
-		const serverLabels = valueOpt.value;
-		const labelSet = new Set(serverLabels);
-		// Include current labels that aren't in the server list
-		const extra = currentLabels.filter((l) => !labelSet.has(l));
+		const serverLabels = [...labelByName.keys()];
+		// Include labels on the item that aren't in the catalog
+		const extra = currentLabels.filter((l) => !labelByName.has(l));
 		return [...serverLabels, ...extra];
-	}, [labelsResult, currentLabels]);
+	}, [labelByName, currentLabels]);
 
 	const currentLabelSet = new Set(currentLabels);
 
@@ -137,6 +125,7 @@ export function LabelsCombobox({
 										value={label}
 										onSelect={() => handleToggle(label)}
 									>
+										<LabelSwatch label={labelByName.get(label)} />
 										<span className="text-xs truncate flex-1">{label}</span>
 										{currentLabelSet.has(label) && (
 											<Check className="size-3.5 text-primary" />
@@ -153,12 +142,12 @@ export function LabelsCombobox({
 			{currentLabels.length > 0 ? (
 				<div className="mt-1.5 flex flex-wrap gap-1">
 					{currentLabels.map((label) => (
-						<Badge
+						<LabelChip
 							key={label}
-							variant="secondary"
+							name={label}
+							label={labelByName.get(label)}
 							className="text-[10px] gap-1 group"
 						>
-							{label}
 							<button
 								type="button"
 								onClick={() => handleRemove(label)}
@@ -166,7 +155,7 @@ export function LabelsCombobox({
 							>
 								<X className="size-2.5" />
 							</button>
-						</Badge>
+						</LabelChip>
 					))}
 				</div>
 			) : (
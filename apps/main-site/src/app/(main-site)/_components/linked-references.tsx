@@ -0,0 +1,138 @@
+"use client";
+
+import { Badge } from "@packages/ui/components/badge";
+import {
+	CircleDot,
+	GitCommit,
+	GitPullRequest,
+} from "@packages/ui/components/icons";
+import { Link } from "@packages/ui/components/link";
+import { cn } from "@packages/ui/lib/utils";
+
+/** An issue or pull request on the other end of a cross-reference. */
+export type LinkedItem = {
+	readonly number: number;
+	readonly title: string;
+	readonly state: "open" | "closed";
+	readonly isPullRequest: boolean;
+	readonly merged: boolean;
+};
+
+/** An issue, PR or commit that mentions the page's subject. */
+export type ReferencedBy = {
+	readonly item: LinkedItem | null;
+	readonly commitSha: string | null;
+	readonly commitHeadline: string | null;
+	readonly isClosing: boolean;
+	readonly createdAt: number;
+};
+
+function LinkedItemIcon({ item }: { item: LinkedItem }) {
+	const className = cn(
+		"size-3.5 shrink-0",
+		item.merged
+			? "text-status-merged"
+			: item.state === "open"
+				? "text-status-open"
+				: "text-status-closed",
+	);
+	return item.isPullRequest ? (
+		<GitPullRequest className={className} />
+	) : (
+		<CircleDot className={className} />
+	);
+}
+
+function LinkedItemRow({
+	owner,
+	name,
+	item,
+	isClosing = false,
+}: {
+	owner: string;
+	name: string;
+	item: LinkedItem;
+	isClosing?: boolean;
+}) {
+	return (
+		<Link
+			href={`/${owner}/${name}/${item.isPullRequest ? "pull" : "issues"}/${item.number}`}
+			className="flex items-center gap-1.5 rounded-md px-1 py-0.5 text-xs no-underline hover:bg-accent/50"
+		>
+			<LinkedItemIcon item={item} />
+			<span className="min-w-0 flex-1 truncate">{item.title}</span>
+			{isClosing && (
+				<Badge variant="outline" className="h-4 px-1 text-[9px]">
+					closes
+				</Badge>
+			)}
+			<span className="shrink-0 tabular-nums text-muted-foreground">
+				#{item.number}
+			</span>
+		</Link>
+	);
+}
+
+/** Issues a PR closes, or PRs that close an issue. */
+export function LinkedItemList({
+	owner,
+	name,
+	items,
+}: {
+	owner: string;
+	name: string;
+	items: ReadonlyArray<LinkedItem>;
+}) {
+	return (
+		<div className="space-y-0.5">
+			{items.map((item) => (
+				<LinkedItemRow
+					key={item.number}
+					owner={owner}
+					name={name}
+					item={item}
+				/>
+			))}
+		</div>
+	);
+}
+
+/** Issues, PRs and commits that mention the page's subject, oldest first. */
+export function ReferencedByList({
+	owner,
+	name,
+	references,
+}: {
+	owner: string;
+	name: string;
+	references: ReadonlyArray<ReferencedBy>;
+}) {
+	return (
+		<div className="space-y-0.5">
+			{references.map((reference) =>
+				reference.item !== null ? (
+					<LinkedItemRow
+						key={`item-${reference.item.number}`}
+						owner={owner}
+						name={name}
+						item={reference.item}
+						isClosing={reference.isClosing}
+					/>
+				) : (
+					<div
+						key={`commit-${reference.commitSha}`}
+						className="flex items-center gap-1.5 px-1 py-0.5 text-xs"
+					>
+						<GitCommit className="size-3.5 shrink-0 text-muted-foreground" />
+						<span className="min-w-0 flex-1 truncate">
+							{reference.commitHeadline ?? "Commit"}
+						</span>
+						<span className="shrink-0 font-mono text-muted-foreground">
+							{reference.commitSha?.slice(0, 7)}
+						</span>
+					</div>
+				),
+			)}
+		</div>
+	);
+}
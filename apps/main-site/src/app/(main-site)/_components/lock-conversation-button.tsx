@@ -0,0 +1,77 @@
+"use client";
+
+import { Result, useAtom } from "@effect-atom/atom-react";
+import { Button } from "@packages/ui/components/button";
+import { useGithubWrite } from "@packages/ui/rpc/github-write";
+import { useId } from "react";
+
+/**
+ * Lock or unlock the conversation on an issue or pull request. Shows the
+ * row's optimistic progress while an `update_lock_state` write is in flight.
+ */
+export function LockConversationButton({
+	ownerLogin,
+	name,
+	repositoryId,
+	number,
+	locked,
+	isLockOperation,
+	optimisticState,
+	optimisticErrorMessage,
+}: {
+	ownerLogin: string;
+	name: string;
+	repositoryId: number;
+	number: number;
+	locked: boolean;
+	/** Whether the row's optimistic write is an `update_lock_state` */
+	isLockOperation: boolean;
+	optimisticState: "pending" | "failed" | "confirmed" | null;
+	optimisticErrorMessage: string | null;
+}) {
+	const writeClient = useGithubWrite();
+	const [lockResult, doUpdateLockState] = useAtom(
+		writeClient.updateLockState.call,
+	);
+	const correlationPrefix = useId();
+	const isPending =
+		Result.isWaiting(lockResult) ||
+		(isLockOperation && optimisticState === "pending");
+
+	return (
+		<>
+			<Button
+				variant="outline"
+				size="sm"
+				disabled={isPending}
+				className="h-7 text-xs"
+				onClick={() => {
+					doUpdateLockState({
+						correlationId: `${correlationPrefix}-${locked ? "unlock" : "lock"}-${Date.now()}`,
+						ownerLogin,
+						name,
+						repositoryId,
+						number,
+						locked: !locked,
+					});
+				}}
+			>
+				{isPending
+					? locked
+						? "Unlocking..."
+						: "Locking..."
+					: locked
+						? "Unlock conversation"
+						: "Lock conversation"}
+			</Button>
+			{isLockOperation && optimisticState === "failed" && (
+				<span className="text-xs text-destructive">
+					{optimisticErrorMessage ?? "Lock update failed."}
+				</span>
+			)}
+			{Result.isFailure(lockResult) && (
+				<span className="text-xs text-destructive">Lock update failed.</span>
+			)}
+		</>
+	);
+}
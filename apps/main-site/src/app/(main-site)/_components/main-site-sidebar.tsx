@@ -1,6 +1,7 @@
 "use client";
 
 import { RepoNavSelector } from "./repo-nav-selector";
+import { SavedViewsNav } from "./saved-views-nav";
 import { SidebarClient } from "./sidebar-client";
 import { SidebarRouter } from "./sidebar-router";
 
@@ -9,11 +10,12 @@ import { SidebarRouter } from "./sidebar-router";
  *
  * Fully client-side — no server components, no async, no Suspense triggers
  * on navigation. The `SidebarRouter` reads the URL client-side and renders
- * the appropriate sidebar body.
+ * the appropriate sidebar body, below the user's pinned saved views.
  */
 export function MainSiteSidebar() {
 	return (
 		<SidebarClient navSelector={<RepoNavSelector initialRepos={[]} />}>
+			<SavedViewsNav />
 			<SidebarRouter />
 		</SidebarClient>
 	);
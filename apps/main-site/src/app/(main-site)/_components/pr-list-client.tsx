@@ -2,15 +2,23 @@
 
 import { Badge } from "@packages/ui/components/badge";
 import { Button } from "@packages/ui/components/button";
-import { MessageCircle } from "@packages/ui/components/icons";
+import { MessageCircle, Plus } from "@packages/ui/components/icons";
 import { Link } from "@packages/ui/components/link";
+import { LinkButton } from "@packages/ui/components/link-button";
 import { Skeleton } from "@packages/ui/components/skeleton";
 import { useInfinitePaginationWithInitial } from "@packages/ui/hooks/use-paginated-atom";
 import { cn } from "@packages/ui/lib/utils";
 import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
 import { useHotkey } from "@tanstack/react-hotkeys";
 import { useRouter } from "next/navigation";
+import { useQueryStates } from "nuqs";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { savedViewParsers } from "@/app/(main-site)/[owner]/[name]/search-params";
+import { SavedViewBar } from "./saved-view-bar";
+import {
+	buildListFilters,
+	parseSearchCommandQuery,
+} from "./search-command-dsl";
 
 /** Scroll the PR list item with the given number into view within its scroll container */
 function scrollPrIntoView(prNumber: number) {
@@ -53,16 +61,46 @@ export function PrListClient({
 	const [stateFilter, setStateFilter] = useState<"open" | "closed" | "all">(
 		"open",
 	);
+	const [{ q: viewQuery, view: viewId }, setViewParams] =
+		useQueryStates(savedViewParsers);
+	const viewFilters = useMemo(
+		() =>
+			viewQuery.trim().length > 0
+				? buildListFilters(parseSearchCommandQuery(viewQuery))
+				: null,
+		[viewQuery],
+	);
 
 	const client = useProjectionQueries();
 	const paginatedAtom = useMemo(
 		() =>
-			client.listPullRequestsPaginated.paginated(PAGE_SIZE, {
-				ownerLogin: owner,
-				name,
-				state: stateFilter === "all" ? undefined : stateFilter,
-			}),
-		[client, owner, name, stateFilter],
+			client.listPullRequestsPaginated.paginated(
+				PAGE_SIZE,
+				viewFilters !== null
+					? {
+							ownerLogin: owner,
+							name,
+							state: viewFilters.state ?? undefined,
+							authorLogin: viewFilters.authorLogin ?? undefined,
+							assigneeLogin: viewFilters.assigneeLogin ?? undefined,
+							labels:
+								viewFilters.labels.length > 0
+									? [...viewFilters.labels]
+									: undefined,
+							updatedAfter: viewFilters.updatedAfter ?? undefined,
+							linked: viewFilters.linked || undefined,
+							textTokens:
+								viewFilters.textTokens.length > 0
+									? [...viewFilters.textTokens]
+									: undefined,
+						}
+					: {
+							ownerLogin: owner,
+							name,
+							state: stateFilter === "all" ? undefined : stateFilter,
+						},
+			),
+		[client, owner, name, stateFilter, viewFilters],
 	);
 
 	const pagination = useInfinitePaginationWithInitial(
@@ -71,49 +109,44 @@ export function PrListClient({
 	);
 	const { items: prs, sentinelRef, isLoading } = pagination;
 
-	const filteredPrs = useMemo(() => prs, [prs]);
-
 	const router = useRouter();
 	const activeNumber = activePullNumber;
 
 	// Find the index of the currently active PR for j/k navigation
-	const activeIndex = filteredPrs.findIndex((pr) => pr.number === activeNumber);
+	const activeIndex = prs.findIndex((pr) => pr.number === activeNumber);
 
 	// When we load more pages via j at the end, navigate to the first new item
 	const pendingNavRef = useRef<"next" | null>(null);
-	const prevCountRef = useRef(filteredPrs.length);
+	const prevCountRef = useRef(prs.length);
 
 	useEffect(() => {
-		if (
-			filteredPrs.length > prevCountRef.current &&
-			pendingNavRef.current === "next"
-		) {
+		if (prs.length > prevCountRef.current && pendingNavRef.current === "next") {
 			const nextIndex = prevCountRef.current; // first item of the new page
-			const pr = filteredPrs[nextIndex];
+			const pr = prs[nextIndex];
 			if (pr) {
 				router.push(`/${owner}/${name}/pull/${pr.number}`);
 				scrollPrIntoView(pr.number);
 			}
 			pendingNavRef.current = null;
 		}
-		prevCountRef.current = filteredPrs.length;
-	}, [filteredPrs.length, filteredPrs, owner, name, router]);
+		prevCountRef.current = prs.length;
+	}, [prs.length, prs, owner, name, router]);
 
 	const navigateTo = useCallback(
 		(index: number) => {
-			const pr = filteredPrs[index];
+			const pr = prs[index];
 			if (pr) {
 				router.push(`/${owner}/${name}/pull/${pr.number}`);
 				scrollPrIntoView(pr.number);
 			}
 		},
-		[filteredPrs, owner, name, router],
+		[prs, owner, name, router],
 	);
 
 	// Shift+J — open next PR from sidebar list
 	useHotkey("Shift+J", (e) => {
 		e.preventDefault();
-		if (filteredPrs.length === 0) return;
+		if (prs.length === 0) return;
 
 		if (activeIndex === -1) {
 			navigateTo(0);
@@ -121,7 +154,7 @@ export function PrListClient({
 		}
 
 		const nextIndex = activeIndex + 1;
-		if (nextIndex < filteredPrs.length) {
+		if (nextIndex < prs.length) {
 			navigateTo(nextIndex);
 		} else if (pagination.hasMore) {
 			// At the end of loaded items — load more, then navigate once loaded
@@ -133,7 +166,7 @@ export function PrListClient({
 	// Shift+K — open previous PR from sidebar list
 	useHotkey("Shift+K", (e) => {
 		e.preventDefault();
-		if (filteredPrs.length === 0) return;
+		if (prs.length === 0) return;
 		const nextIndex = activeIndex === -1 ? 0 : Math.max(activeIndex - 1, 0);
 		navigateTo(nextIndex);
 	});
@@ -141,34 +174,60 @@ export function PrListClient({
 	// o — also open (for when no PR is active yet, opens the first one)
 	useHotkey("O", (e) => {
 		e.preventDefault();
-		if (filteredPrs.length === 0) return;
+		if (prs.length === 0) return;
 		const index = activeIndex === -1 ? 0 : activeIndex;
 		navigateTo(index);
 	});
 
 	return (
 		<div className="p-1.5">
-			<div className="flex gap-0.5 mb-1.5 px-1">
-				{(["open", "closed", "all"] as const).map((f) => (
-					<Button
-						key={f}
-						variant={stateFilter === f ? "default" : "ghost"}
-						size="sm"
-						className="h-6 text-[10px] px-2 font-medium"
-						onClick={() => setStateFilter(f)}
-					>
-						{f === "open" ? "Open" : f === "closed" ? "Closed" : "All"}
-					</Button>
-				))}
+			<div className="mb-2 px-1">
+				<LinkButton
+					href={`/${owner}/${name}/compare`}
+					variant="outline"
+					size="sm"
+					className="h-7 w-full justify-start gap-1.5 text-[11px]"
+				>
+					<Plus className="size-3" />
+					New pull request
+				</LinkButton>
 			</div>
 
-			{filteredPrs.length === 0 && !isLoading && (
+			{viewFilters !== null ? (
+				<SavedViewBar
+					owner={owner}
+					name={name}
+					target="pr"
+					query={viewQuery}
+					viewId={viewId}
+					onSaved={(savedViewId) => setViewParams({ view: savedViewId })}
+					onClear={() => setViewParams({ q: null, view: null })}
+				/>
+			) : (
+				<div className="flex gap-0.5 mb-1.5 px-1">
+					{(["open", "closed", "all"] as const).map((f) => (
+						<Button
+							key={f}
+							variant={stateFilter === f ? "default" : "ghost"}
+							size="sm"
+							className="h-6 text-[10px] px-2 font-medium"
+							onClick={() => setStateFilter(f)}
+						>
+							{f === "open" ? "Open" : f === "closed" ? "Closed" : "All"}
+						</Button>
+					))}
+				</div>
+			)}
+
+			{prs.length === 0 && !isLoading && (
 				<p className="px-2 py-8 text-xs text-muted-foreground text-center">
-					{`No ${stateFilter !== "all" ? stateFilter : ""} pull requests.`}
+					{viewFilters !== null
+						? "No pull requests match this view."
+						: `No ${stateFilter !== "all" ? stateFilter : ""} pull requests.`}
 				</p>
 			)}
 
-			{filteredPrs.map((pr) => (
+			{prs.map((pr) => (
 				<Link
 					key={pr.number}
 					data-pr-number={pr.number}
@@ -0,0 +1,198 @@
+"use client";
+
+import { Result, useAtom } from "@effect-atom/atom-react";
+import { Smile } from "@packages/ui/components/icons";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@packages/ui/components/popover";
+import { cn } from "@packages/ui/lib/utils";
+import { useGithubWrite } from "@packages/ui/rpc/github-write";
+import { useEffect, useId, useRef, useState } from "react";
+
+type ReactionContent =
+	| "+1"
+	| "-1"
+	| "laugh"
+	| "hooray"
+	| "confused"
+	| "heart"
+	| "rocket"
+	| "eyes";
+
+type Reactions = {
+	readonly summary: {
+		readonly totalCount: number;
+		readonly plusOne: number;
+		readonly minusOne: number;
+		readonly laugh: number;
+		readonly hooray: number;
+		readonly confused: number;
+		readonly heart: number;
+		readonly rocket: number;
+		readonly eyes: number;
+	};
+	readonly viewerReactions: readonly ReactionContent[];
+};
+
+// Same order GitHub uses in its reaction picker
+const REACTIONS: ReadonlyArray<{
+	content: ReactionContent;
+	emoji: string;
+	countKey: Exclude<keyof Reactions["summary"], "totalCount">;
+}> = [
+	{ content: "+1", emoji: "👍", countKey: "plusOne" },
+	{ content: "-1", emoji: "👎", countKey: "minusOne" },
+	{ content: "laugh", emoji: "😄", countKey: "laugh" },
+	{ content: "hooray", emoji: "🎉", countKey: "hooray" },
+	{ content: "confused", emoji: "😕", countKey: "confused" },
+	{ content: "heart", emoji: "❤️", countKey: "heart" },
+	{ content: "rocket", emoji: "🚀", countKey: "rocket" },
+	{ content: "eyes", emoji: "👀", countKey: "eyes" },
+];
+
+/**
+ * Reaction chips for an issue, issue comment, or review comment. Clicking a
+ * chip toggles the viewer's reaction; counts update optimistically. On
+ * mount, the viewer's own reactions are read back from GitHub so ones left
+ * on github.com show as reacted.
+ */
+export function ReactionBar({
+	ownerLogin,
+	name,
+	repositoryId,
+	subjectType,
+	subjectId,
+	reactions,
+}: {
+	ownerLogin: string;
+	name: string;
+	repositoryId: number;
+	subjectType: "issue" | "issue_comment" | "review_comment";
+	subjectId: number;
+	reactions: Reactions;
+}) {
+	const [pickerOpen, setPickerOpen] = useState(false);
+	const writeClient = useGithubWrite();
+	const [addResult, addReaction] = useAtom(writeClient.addReaction.call);
+	const [removeResult, removeReaction] = useAtom(
+		writeClient.removeReaction.call,
+	);
+	const [, syncViewerReactions] = useAtom(writeClient.syncViewerReactions.call);
+	const correlationPrefix = useId();
+	const hasRequestedSync = useRef(false);
+	const hasReactions = reactions.summary.totalCount > 0;
+
+	useEffect(() => {
+		if (!hasReactions || hasRequestedSync.current) return;
+		hasRequestedSync.current = true;
+		syncViewerReactions({
+			ownerLogin,
+			name,
+			repositoryId,
+			subjectType,
+			subjectId,
+		});
+	}, [
+		hasReactions,
+		name,
+		ownerLogin,
+		repositoryId,
+		subjectId,
+		subjectType,
+		syncViewerReactions,
+	]);
+
+	const isUpdating =
+		Result.isWaiting(addResult) || Result.isWaiting(removeResult);
+
+	const viewerReacted = new Set(reactions.viewerReactions);
+
+	const toggle = (content: ReactionContent) => {
+		const args = {
+			ownerLogin,
+			name,
+			repositoryId,
+			subjectType,
+			subjectId,
+			content,
+		};
+		if (viewerReacted.has(content)) {
+			removeReaction({
+				correlationId: `${correlationPrefix}-remove-reaction-${Date.now()}`,
+				...args,
+			});
+		} else {
+			addReaction({
+				correlationId: `${correlationPrefix}-add-reaction-${Date.now()}`,
+				...args,
+			});
+		}
+	};
+
+	const visible = REACTIONS.filter(
+		(reaction) => reactions.summary[reaction.countKey] > 0,
+	);
+
+	return (
+		<div>
+			<div className="flex flex-wrap items-center gap-1">
+				{visible.map((reaction) => (
+					<button
+						key={reaction.content}
+						type="button"
+						disabled={isUpdating}
+						onClick={() => toggle(reaction.content)}
+						aria-pressed={viewerReacted.has(reaction.content)}
+						className={cn(
+							"inline-flex h-6 items-center gap-1 rounded-full border px-2 text-[11px] tabular-nums transition-colors cursor-pointer disabled:opacity-50",
+							viewerReacted.has(reaction.content)
+								? "border-primary/40 bg-primary/10 text-primary"
+								: "hover:bg-accent/50",
+						)}
+					>
+						<span>{reaction.emoji}</span>
+						{reactions.summary[reaction.countKey]}
+					</button>
+				))}
+				<Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+					<PopoverTrigger asChild>
+						<button
+							type="button"
+							aria-label="Add reaction"
+							className="inline-flex size-6 items-center justify-center rounded-full border text-muted-foreground hover:bg-accent/50 hover:text-foreground transition-colors cursor-pointer"
+						>
+							<Smile className="size-3.5" />
+						</button>
+					</PopoverTrigger>
+					<PopoverContent className="w-auto p-1" align="start">
+						<div className="flex gap-0.5">
+							{REACTIONS.map((reaction) => (
+								<button
+									key={reaction.content}
+									type="button"
+									onClick={() => {
+										toggle(reaction.content);
+										setPickerOpen(false);
+									}}
+									className={cn(
+										"flex size-7 items-center justify-center rounded-md text-sm hover:bg-accent cursor-pointer",
+										viewerReacted.has(reaction.content) && "bg-primary/10",
+									)}
+								>
+									{reaction.emoji}
+								</button>
+							))}
+						</div>
+					</PopoverContent>
+				</Popover>
+			</div>
+			{(Result.isFailure(addResult) || Result.isFailure(removeResult)) && (
+				<p className="mt-1 text-xs text-destructive">
+					Could not update reaction.
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useSubscriptionWithInitial } from "@packages/confect/rpc";
+import { Badge } from "@packages/ui/components/badge";
+import { Tag } from "@packages/ui/components/icons";
+import { Link } from "@packages/ui/components/link";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { useMemo } from "react";
+import { ListSkeleton } from "./skeletons";
+
+type ReleaseItem = {
+	readonly githubReleaseId: number;
+	readonly tagName: string;
+	readonly name: string | null;
+	readonly prerelease: boolean;
+	readonly authorLogin: string | null;
+	readonly createdAt: number;
+	readonly publishedAt: number | null;
+};
+
+/**
+ * Compact sidebar list of releases. Each entry jumps to the release card
+ * on the `/releases` page.
+ */
+export function ReleaseListClient({
+	owner,
+	name,
+	initialData = null,
+}: {
+	owner: string;
+	name: string;
+	initialData?: ReadonlyArray<ReleaseItem> | null;
+}) {
+	const client = useProjectionQueries();
+
+	const releasesAtom = useMemo(
+		() => client.listReleases.subscription({ ownerLogin: owner, name }),
+		[client, owner, name],
+	);
+
+	const releases = useSubscriptionWithInitial(releasesAtom, initialData);
+
+	if (releases === null) {
+		return <ListSkeleton />;
+	}
+
+	return (
+		<div className="p-1.5">
+			{releases.length === 0 && (
+				<p className="px-2 py-8 text-xs text-muted-foreground text-center">
+					No releases.
+				</p>
+			)}
+
+			{releases.map((release) => (
+				<Link
+					key={release.githubReleaseId}
+					href={`/${owner}/${name}/releases#release-${release.githubReleaseId}`}
+					className="flex items-start gap-2 rounded-md px-2 py-1.5 text-sm transition-colors no-underline hover:bg-accent/50"
+				>
+					<Tag className="mt-0.5 size-3.5 text-muted-foreground shrink-0" />
+					<div className="min-w-0 flex-1">
+						<div className="flex items-center gap-1.5">
+							<span className="font-medium text-xs truncate leading-tight">
+								{release.name ?? release.tagName}
+							</span>
+							{release.prerelease && (
+								<Badge variant="outline" className="h-4 px-1 text-[9px]">
+									Pre-release
+								</Badge>
+							)}
+						</div>
+						<div className="flex items-center gap-1.5 text-[10px] text-muted-foreground mt-0.5 tabular-nums">
+							<span className="font-mono">{release.tagName}</span>
+							{release.authorLogin && (
+								<>
+									<span className="text-muted-foreground/40">&middot;</span>
+									<span>{release.authorLogin}</span>
+								</>
+							)}
+							<span className="text-muted-foreground/40">&middot;</span>
+							<span>
+								{formatRelative(release.publishedAt ?? release.createdAt)}
+							</span>
+						</div>
+					</div>
+				</Link>
+			))}
+		</div>
+	);
+}
+
+function formatRelative(timestamp: number): string {
+	const diff = Math.floor((Date.now() - timestamp) / 1000);
+	if (diff < 60) return "just now";
+	if (diff < 3600) return `${Math.floor(diff / 60)}m ago`;
+	if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`;
+	if (diff < 604800) return `${Math.floor(diff / 86400)}d ago`;
+	return new Date(timestamp).toLocaleDateString(undefined, {
+		year: "numeric",
+		month: "short",
+		day: "numeric",
+	});
+}
@@ -40,7 +40,9 @@ const TAB_SEGMENTS = new Set([
 	"pulls",
 	"pull",
 	"issues",
+	"discussions",
 	"actions",
+	"releases",
 	"tree",
 	"blob",
 	"activity",
@@ -0,0 +1,40 @@
+"use client";
+
+import { Result, useAtomValue } from "@effect-atom/atom-react";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { Option } from "effect";
+import { useParams, usePathname, useRouter } from "next/navigation";
+import { useEffect, useMemo } from "react";
+
+/**
+ * Sends visitors on a renamed or transferred repo's old `/:owner/:name` URL
+ * to its current name, keeping the rest of the path and the query string.
+ */
+export function RepoRedirect() {
+	const params = useParams<{ owner: string; name: string }>();
+	const pathname = usePathname();
+	const router = useRouter();
+	const client = useProjectionQueries();
+
+	const redirectAtom = useMemo(
+		() =>
+			client.resolveRepoRedirect.subscription({
+				ownerLogin: params.owner,
+				name: params.name,
+			}),
+		[client, params.owner, params.name],
+	);
+	const target = Option.getOrNull(Result.value(useAtomValue(redirectAtom)));
+
+	useEffect(() => {
+		if (target === null) return;
+		// pathname is "/:owner/:name/..." — swap the first two segments
+		const [, , , ...rest] = pathname.split("/");
+		const suffix = rest.length > 0 ? `/${rest.join("/")}` : "";
+		router.replace(
+			`/${target.ownerLogin}/${target.name}${suffix}${window.location.search}`,
+		);
+	}, [target, pathname, router]);
+
+	return null;
+}
@@ -1,14 +1,23 @@
 "use client";
 
 import {
+	FileCode2,
 	GitPullRequest,
+	MessagesSquare,
 	Play,
+	Tag,
 	TriangleAlert,
 } from "@packages/ui/components/icons";
 import { Link } from "@packages/ui/components/link";
 import { cn } from "@packages/ui/lib/utils";
 
-type RepoTab = "pulls" | "issues" | "actions";
+type RepoTab =
+	| "pulls"
+	| "issues"
+	| "discussions"
+	| "actions"
+	| "code"
+	| "releases";
 
 /**
  * Client-side tab bar for repo sidebar pages.
@@ -53,6 +62,19 @@ export function RepoTabBar({
 					<TriangleAlert className="size-2.5" />
 					<span>Issues</span>
 				</Link>
+				<Link
+					href={`/${owner}/${name}/discussions`}
+					className={cn(
+						"flex h-6 items-center gap-1 px-2 text-[10px] font-medium border-b-2 -mb-px transition-colors no-underline",
+						activeTab === "discussions"
+							? "border-foreground text-foreground"
+							: "border-transparent text-muted-foreground hover:text-foreground",
+					)}
+					aria-label="Discussions"
+				>
+					<MessagesSquare className="size-2.5" />
+					<span>Discussions</span>
+				</Link>
 				<Link
 					href={`/${owner}/${name}/actions`}
 					className={cn(
@@ -66,7 +88,32 @@ export function RepoTabBar({
 					<Play className="size-2.5" />
 					<span>CI</span>
 				</Link>
-				{/* Code tab hidden — re-enable when code browsing is ready */}
+				<Link
+					href={`/${owner}/${name}/tree/HEAD`}
+					className={cn(
+						"flex h-6 items-center gap-1 px-2 text-[10px] font-medium border-b-2 -mb-px transition-colors no-underline",
+						activeTab === "code"
+							? "border-foreground text-foreground"
+							: "border-transparent text-muted-foreground hover:text-foreground",
+					)}
+					aria-label="Code"
+				>
+					<FileCode2 className="size-2.5" />
+					<span>Code</span>
+				</Link>
+				<Link
+					href={`/${owner}/${name}/releases`}
+					className={cn(
+						"flex h-6 items-center gap-1 px-2 text-[10px] font-medium border-b-2 -mb-px transition-colors no-underline",
+						activeTab === "releases"
+							? "border-foreground text-foreground"
+							: "border-transparent text-muted-foreground hover:text-foreground",
+					)}
+					aria-label="Releases"
+				>
+					<Tag className="size-2.5" />
+					<span>Releases</span>
+				</Link>
 			</div>
 		</div>
 	);
@@ -0,0 +1,412 @@
+"use client";
+
+import { Result, useAtom, useAtomValue } from "@effect-atom/atom-react";
+import {
+	Avatar,
+	AvatarFallback,
+	AvatarImage,
+} from "@packages/ui/components/avatar";
+import {
+	Command,
+	CommandEmpty,
+	CommandGroup,
+	CommandInput,
+	CommandItem,
+	CommandList,
+} from "@packages/ui/components/command";
+import {
+	Check,
+	ChevronsUpDown,
+	Eye,
+	Users,
+	X,
+} from "@packages/ui/components/icons";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@packages/ui/components/popover";
+import { cn } from "@packages/ui/lib/utils";
+import { useGithubActions } from "@packages/ui/rpc/github-actions";
+import { useGithubWrite } from "@packages/ui/rpc/github-write";
+import { useProjectionQueries } from "@packages/ui/rpc/projection-queries";
+import { Option } from "effect";
+import { useId, useMemo, useState } from "react";
+
+type Reviewer = {
+	readonly login: string;
+	readonly avatarUrl: string | null;
+};
+
+type Team = {
+	readonly slug: string;
+	readonly name: string;
+};
+
+export function ReviewersCombobox({
+	ownerLogin,
+	name,
+	repositoryId,
+	number,
+	authorLogin,
+	currentReviewers,
+	currentTeams,
+	optimisticOperationType,
+	optimisticState,
+	optimisticErrorMessage,
+}: {
+	ownerLogin: string;
+	name: string;
+	repositoryId: number;
+	number: number;
+	authorLogin: string | null;
+	currentReviewers: readonly Reviewer[];
+	currentTeams: readonly Team[];
+	optimisticOperationType?: string | null;
+	optimisticState?: "pending" | "failed" | "confirmed" | null;
+	optimisticErrorMessage?: string | null;
+}) {
+	const [open, setOpen] = useState(false);
+
+	const client = useProjectionQueries();
+	const collaboratorsAtom = useMemo(
+		() => client.listRepoAssignees.subscription({ ownerLogin, name }),
+		[client, ownerLogin, name],
+	);
+	const collaboratorsResult = useAtomValue(collaboratorsAtom);
+	const teamsAtom = useMemo(
+		() => client.listRepoTeams.subscription({ ownerLogin, name }),
+		[client, ownerLogin, name],
+	);
+	const teamsResult = useAtomValue(teamsAtom);
+	const suggestionsAtom = useMemo(
+		() =>
+			client.listReviewerSuggestions.subscription({ ownerLogin, name, number }),
+		[client, ownerLogin, name, number],
+	);
+	const suggestionsResult = useAtomValue(suggestionsAtom);
+
+	const githubActions = useGithubActions();
+	const [searchQuery, setSearchQuery] = useState("");
+	const normalizedSearchQuery = searchQuery.trim();
+	const remoteUsersAtom = useMemo(
+		() =>
+			githubActions.listRepoAssignees.callAsQuery({
+				ownerLogin,
+				name,
+				query:
+					normalizedSearchQuery.length > 0 ? normalizedSearchQuery : undefined,
+			}),
+		[githubActions, ownerLogin, name, normalizedSearchQuery],
+	);
+	const remoteUsersResult = useAtomValue(remoteUsersAtom);
+	const remoteTeamsAtom = useMemo(
+		() => githubActions.listRepoTeams.callAsQuery({ ownerLogin, name }),
+		[githubActions, ownerLogin, name],
+	);
+	const remoteTeamsResult = useAtomValue(remoteTeamsAtom);
+	const isLoadingRemoteUsers = Result.isWaiting(remoteUsersResult);
+
+	const writeClient = useGithubWrite();
+	const [requestResult, requestReviewers] = useAtom(
+		writeClient.requestReviewers.call,
+	);
+	const [removeResult, removeReviewers] = useAtom(
+		writeClient.removeReviewers.call,
+	);
+	const correlationPrefix = useId();
+	const isUpdating =
+		Result.isWaiting(requestResult) || Result.isWaiting(removeResult);
+
+	const suggestions = Option.getOrElse(
+		Result.value(suggestionsResult),
+		() => [],
+	)
+		.filter((suggestion) => suggestion.login !== authorLogin)
+		.filter(
+			(suggestion) =>
+				!currentReviewers.some((r) => r.login === suggestion.login),
+		);
+	const suggestedLogins = new Set(suggestions.map((s) => s.login));
+
+	// Merge server-known collaborators with GitHub results and current reviewers.
+	// The PR author can't review their own PR, so they're left out.
+	const availableReviewers = useMemo(() => {
+		const merged = new Map<string, Reviewer>();
+
+		for (const result of [collaboratorsResult, remoteUsersResult]) {
+			const valueOpt = Result.value(result);
+			if (Option.isSome(valueOpt)) {
+				for (const user of valueOpt.value) {
+					merged.set(user.login, user);
+				}
+			}
+		}
+
+		for (const reviewer of currentReviewers) {
+			if (!merged.has(reviewer.login)) {
+				merged.set(reviewer.login, reviewer);
+			}
+		}
+
+		if (authorLogin !== null) merged.delete(authorLogin);
+		return [...merged.values()];
+	}, [collaboratorsResult, remoteUsersResult, currentReviewers, authorLogin]);
+
+	const availableTeams = useMemo(() => {
+		const merged = new Map<string, Team>();
+
+		for (const result of [teamsResult, remoteTeamsResult]) {
+			const valueOpt = Result.value(result);
+			if (Option.isSome(valueOpt)) {
+				for (const team of valueOpt.value) {
+					merged.set(team.slug, team);
+				}
+			}
+		}
+
+		for (const team of currentTeams) {
+			if (!merged.has(team.slug)) {
+				merged.set(team.slug, team);
+			}
+		}
+
+		return [...merged.values()];
+	}, [teamsResult, remoteTeamsResult, currentTeams]);
+
+	const currentLogins = new Set(currentReviewers.map((r) => r.login));
+	const currentSlugs = new Set(currentTeams.map((t) => t.slug));
+
+	const handleRequest = (reviewers: string[], teamReviewers: string[]) => {
+		requestReviewers({
+			correlationId: `${correlationPrefix}-request-reviewer-${Date.now()}`,
+			ownerLogin,
+			name,
+			repositoryId,
+			number,
+			reviewers,
+			teamReviewers,
+		});
+	};
+
+	const handleRemove = (reviewers: string[], teamReviewers: string[]) => {
+		removeReviewers({
+			correlationId: `${correlationPrefix}-remove-reviewer-${Date.now()}`,
+			ownerLogin,
+			name,
+			repositoryId,
+			number,
+			reviewers,
+			teamReviewers,
+		});
+	};
+
+	const handleToggleUser = (login: string) => {
+		if (currentLogins.has(login)) {
+			handleRemove([login], []);
+		} else {
+			handleRequest([login], []);
+		}
+	};
+
+	const handleToggleTeam = (slug: string) => {
+		if (currentSlugs.has(slug)) {
+			handleRemove([], [slug]);
+		} else {
+			handleRequest([], [slug]);
+		}
+	};
+
+	const hasNoReviewers =
+		currentReviewers.length === 0 && currentTeams.length === 0;
+
+	return (
+		<div>
+			<Popover open={open} onOpenChange={setOpen}>
+				<PopoverTrigger asChild>
+					<button
+						type="button"
+						aria-expanded={open}
+						className={cn(
+							"flex w-full items-center justify-between gap-1 text-[10px] font-bold uppercase tracking-wider text-muted-foreground/70 hover:text-muted-foreground transition-colors cursor-pointer",
+							isUpdating && "opacity-50",
+						)}
+					>
+						<span className="inline-flex items-center gap-1">
+							<Eye className="size-3" />
+							Reviewers
+						</span>
+						<ChevronsUpDown className="size-3 opacity-50" />
+					</button>
+				</PopoverTrigger>
+				<PopoverContent className="w-60 p-0" align="start">
+					<Command>
+						<CommandInput
+							placeholder="Search users or teams..."
+							value={searchQuery}
+							onValueChange={setSearchQuery}
+						/>
+						<CommandList>
+							<CommandEmpty>No reviewers found.</CommandEmpty>
+							{suggestions.length > 0 && (
+								<CommandGroup heading="Suggestions">
+									{suggestions.map((suggestion) => (
+										<CommandItem
+											key={`suggested-${suggestion.login}`}
+											value={`suggested:${suggestion.login}`}
+											keywords={[suggestion.login]}
+											onSelect={() => handleRequest([suggestion.login], [])}
+										>
+											<ReviewerAvatar reviewer={suggestion} />
+											<span className="text-xs truncate flex-1">
+												{suggestion.login}
+											</span>
+											<span className="text-[10px] text-muted-foreground">
+												{suggestion.fileCount}{" "}
+												{suggestion.fileCount === 1 ? "file" : "files"}
+											</span>
+										</CommandItem>
+									))}
+								</CommandGroup>
+							)}
+							<CommandGroup heading="Users">
+								{availableReviewers
+									.filter((reviewer) => !suggestedLogins.has(reviewer.login))
+									.map((reviewer) => (
+										<CommandItem
+											key={reviewer.login}
+											value={reviewer.login}
+											onSelect={() => handleToggleUser(reviewer.login)}
+										>
+											<ReviewerAvatar reviewer={reviewer} />
+											<span className="text-xs truncate flex-1">
+												{reviewer.login}
+											</span>
+											{currentLogins.has(reviewer.login) && (
+												<Check className="size-3.5 text-primary" />
+											)}
+										</CommandItem>
+									))}
+							</CommandGroup>
+							{availableTeams.length > 0 && (
+								<CommandGroup heading="Teams">
+									{availableTeams.map((team) => (
+										<CommandItem
+											key={`team-${team.slug}`}
+											value={`team:${team.slug}`}
+											keywords={[team.slug, team.name]}
+											onSelect={() => handleToggleTeam(team.slug)}
+										>
+											<Users className="size-4 mr-1.5 text-muted-foreground" />
+											<span className="text-xs truncate flex-1">
+												{ownerLogin}/{team.slug}
+											</span>
+											{currentSlugs.has(team.slug) && (
+												<Check className="size-3.5 text-primary" />
+											)}
+										</CommandItem>
+									))}
+								</CommandGroup>
+							)}
+						</CommandList>
+						{isLoadingRemoteUsers && (
+							<p className="px-2 pb-2 text-[10px] text-muted-foreground">
+								Loading users from GitHub...
+							</p>
+						)}
+						{Result.isFailure(remoteUsersResult) && (
+							<p className="px-2 pb-2 text-[10px] text-muted-foreground">
+								Could not load additional users from GitHub.
+							</p>
+						)}
+					</Command>
+				</PopoverContent>
+			</Popover>
+
+			{/* Display pending review requests */}
+			{hasNoReviewers ? (
+				<p className="mt-1 text-[11px] text-muted-foreground/50">
+					No reviews requested
+				</p>
+			) : (
+				<div className="mt-1.5 space-y-1">
+					{currentReviewers.map((reviewer) => (
+						<div
+							key={reviewer.login}
+							className="flex items-center gap-1.5 group"
+						>
+							<ReviewerAvatar reviewer={reviewer} className="mr-0" />
+							<span className="text-xs text-muted-foreground flex-1 truncate">
+								{reviewer.login}
+							</span>
+							<button
+								type="button"
+								onClick={() => handleRemove([reviewer.login], [])}
+								className="opacity-0 group-hover:opacity-100 hover:text-destructive transition-opacity cursor-pointer"
+								aria-label={`Remove review request for ${reviewer.login}`}
+							>
+								<X className="size-3" />
+							</button>
+						</div>
+					))}
+					{currentTeams.map((team) => (
+						<div key={team.slug} className="flex items-center gap-1.5 group">
+							<Users className="size-4 text-muted-foreground" />
+							<span
+								className="text-xs text-muted-foreground flex-1 truncate"
+								title={team.name}
+							>
+								{ownerLogin}/{team.slug}
+							</span>
+							<button
+								type="button"
+								onClick={() => handleRemove([], [team.slug])}
+								className="opacity-0 group-hover:opacity-100 hover:text-destructive transition-opacity cursor-pointer"
+								aria-label={`Remove review request for ${team.slug}`}
+							>
+								<X className="size-3" />
+							</button>
+						</div>
+					))}
+				</div>
+			)}
+
+			{(Result.isFailure(requestResult) || Result.isFailure(removeResult)) && (
+				<p className="mt-1 text-xs text-destructive">
+					Could not update review requests.
+				</p>
+			)}
+			{(optimisticOperationType === "request_reviewers" ||
+				optimisticOperationType === "remove_reviewers") &&
+				optimisticState === "pending" && (
+					<p className="mt-1 text-xs text-muted-foreground">
+						Syncing with GitHub...
+					</p>
+				)}
+			{(optimisticOperationType === "request_reviewers" ||
+				optimisticOperationType === "remove_reviewers") &&
+				optimisticState === "failed" && (
+					<p className="mt-1 text-xs text-destructive">
+						{optimisticErrorMessage ?? "GitHub rejected this review request."}
+					</p>
+				)}
+		</div>
+	);
+}
+
+function ReviewerAvatar({
+	reviewer,
+	className,
+}: {
+	reviewer: Reviewer;
+	className?: string;
+}) {
+	return (
+		<Avatar className={cn("size-4 mr-1.5", className)}>
+			<AvatarImage src={reviewer.avatarUrl ?? undefined} />
+			<AvatarFallback className="text-[7px]">
+				{reviewer.login[0]?.toUpperCase()}
+			</AvatarFallback>
+		</Avatar>
+	);
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useAtom } from "@effect-atom/atom-react";
+import { Badge } from "@packages/ui/components/badge";
+import { Button } from "@packages/ui/components/button";
+import { Bookmark, Check, Link2, X } from "@packages/ui/components/icons";
+import { Input } from "@packages/ui/components/input";
+import { authClient } from "@packages/ui/lib/auth-client";
+import { useSavedViews } from "@packages/ui/rpc/saved-views";
+import { useEffect, useMemo, useState } from "react";
+import { buildSavedViewHref } from "@/app/(main-site)/[owner]/[name]/search-params";
+import {
+	buildListFilters,
+	parseSearchCommandQuery,
+} from "./search-command-dsl";
+import { buildQueryChips, renderFilterIcon } from "./search-command-visuals";
+
+/**
+ * Header for a PR/issue list filtered by a DSL query (`?q=`). Shows the
+ * parsed filters, copies a shareable link, and saves the query as a named
+ * view. Opening a saved view (`?view=`) marks it viewed.
+ */
+export function SavedViewBar({
+	owner,
+	name,
+	target,
+	query,
+	viewId,
+	onSaved,
+	onClear,
+}: {
+	owner: string;
+	name: string;
+	target: "issue" | "pr";
+	query: string;
+	viewId: string | null;
+	onSaved: (viewId: string) => void;
+	onClear: () => void;
+}) {
+	const session = authClient.useSession();
+	const isSignedIn = session.data !== null && session.data !== undefined;
+	const client = useSavedViews();
+	const [, createSavedView] = useAtom(client.createSavedView.mutate, {
+		mode: "promise",
+	});
+	const [, markViewed] = useAtom(client.markSavedViewViewed.mutate);
+
+	const [draftTitle, setDraftTitle] = useState<string | null>(null);
+	const [copied, setCopied] = useState(false);
+	const [saveError, setSaveError] = useState<string | null>(null);
+
+	const chips = useMemo(
+		() => buildQueryChips(parseSearchCommandQuery(query)),
+		[query],
+	);
+
+	useEffect(() => {
+		if (viewId === null || !isSignedIn) return;
+		markViewed({ viewId });
+	}, [viewId, isSignedIn, markViewed]);
+
+	const copyLink = async () => {
+		// Share the query, not the view id — saved views are private
+		const href = buildSavedViewHref(owner, name, target, query);
+		await navigator.clipboard.writeText(`${window.location.origin}${href}`);
+		setCopied(true);
+		window.setTimeout(() => setCopied(false), 1500);
+	};
+
+	const save = async () => {
+		if (draftTitle === null) return;
+		const filters = buildListFilters(parseSearchCommandQuery(query));
+		setSaveError(null);
+		try {
+			const result = await createSavedView({
+				ownerLogin: owner,
+				name,
+				title: draftTitle.trim(),
+				target,
+				query,
+				state: filters.state,
+				authorLogin: filters.authorLogin,
+				assigneeLogin: filters.assigneeLogin,
+				labels: [...filters.labels],
+			});
+			setDraftTitle(null);
+			onSaved(result.viewId);
+		} catch {
+			setSaveError("Could not save view.");
+		}
+	};
+
+	return (
+		<div className="mb-1.5 px-1 space-y-1">
+			<div className="flex items-start gap-1">
+				<div className="flex min-w-0 flex-1 flex-wrap items-center gap-1">
+					{chips.length === 0 ? (
+						<span className="truncate text-[10px] text-muted-foreground">
+							{query}
+						</span>
+					) : (
+						chips.map((chip) => (
+							<Badge
+								key={chip.key}
+								variant="outline"
+								className="h-5 rounded-md border-dashed bg-muted/40 px-1.5 text-[10px]"
+							>
+								{renderFilterIcon(chip.icon)}
+								{chip.label}
+							</Badge>
+						))
+					)}
+				</div>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-5 w-5 p-0 shrink-0"
+					onClick={() => {
+						void copyLink();
+					}}
+					aria-label="Copy link to this view"
+				>
+					{copied ? <Check className="size-3" /> : <Link2 className="size-3" />}
+				</Button>
+				{isSignedIn && viewId === null && draftTitle === null && (
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-5 w-5 p-0 shrink-0"
+						onClick={() => setDraftTitle("")}
+						aria-label="Save view"
+					>
+						<Bookmark className="size-3" />
+					</Button>
+				)}
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-5 w-5 p-0 shrink-0"
+					onClick={onClear}
+					aria-label="Clear view"
+				>
+					<X className="size-3" />
+				</Button>
+			</div>
+
+			{draftTitle !== null && (
+				<form
+					className="flex items-center gap-1"
+					onSubmit={(event) => {
+						event.preventDefault();
+						void save();
+					}}
+				>
+					<Input
+						autoFocus
+						value={draftTitle}
+						onChange={(event) => setDraftTitle(event.target.value)}
+						onKeyDown={(event) => {
+							if (event.key === "Escape") setDraftTitle(null);
+						}}
+						placeholder={query}
+						className="h-6 text-[11px]"
+					/>
+					<Button type="submit" size="sm" className="h-6 px-2 text-[10px]">
+						Save
+					</Button>
+				</form>
+			)}
+			{saveError !== null && (
+				<p className="text-[10px] text-destructive">{saveError}</p>
+			)}
+		</div>
+	);
+}
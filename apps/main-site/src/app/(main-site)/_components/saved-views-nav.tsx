@@ -0,0 +1,160 @@
+"use client";
+
+import { useAtom } from "@effect-atom/atom-react";
+import { useSubscriptionWithInitial } from "@packages/confect/rpc";
+import { Badge } from "@packages/ui/components/badge";
+import {
+	Bookmark,
+	CircleDot,
+	GitPullRequest,
+	X,
+} from "@packages/ui/components/icons";
+import { Link } from "@packages/ui/components/link";
+import { authClient } from "@packages/ui/lib/auth-client";
+import { cn } from "@packages/ui/lib/utils";
+import { useSavedViews } from "@packages/ui/rpc/saved-views";
+import { useQueryStates } from "nuqs";
+import { useMemo, useState } from "react";
+import {
+	buildSavedViewHref,
+	savedViewParsers,
+} from "@/app/(main-site)/[owner]/[name]/search-params";
+
+type SavedViewItem = {
+	readonly viewId: string;
+	readonly title: string;
+	readonly target: "issue" | "pr";
+	readonly query: string;
+	readonly ownerLogin: string;
+	readonly repoName: string;
+	readonly pinned: boolean;
+	readonly unreadCount: number;
+};
+
+const EmptyPayload: Record<string, never> = {};
+
+/**
+ * Pinned saved views at the top of the sidebar body. Hidden when signed
+ * out, since saved views belong to a user.
+ */
+export function SavedViewsNav() {
+	const session = authClient.useSession();
+	if (!session.data) return null;
+	return <SavedViewsList />;
+}
+
+function SavedViewsList() {
+	const client = useSavedViews();
+	const viewsAtom = useMemo(
+		() => client.listSavedViews.subscription(EmptyPayload),
+		[client],
+	);
+	const views = useSubscriptionWithInitial<ReadonlyArray<SavedViewItem> | null>(
+		viewsAtom,
+		null,
+	);
+	const [{ view: activeViewId }] = useQueryStates(savedViewParsers);
+	const [showUnpinned, setShowUnpinned] = useState(false);
+
+	if (views === null || views.length === 0) return null;
+
+	const pinned = views.filter((view) => view.pinned);
+	const unpinned = views.filter((view) => !view.pinned);
+
+	return (
+		<div className="shrink-0 border-b border-sidebar-border px-1 py-1">
+			<h2 className="px-1 pb-0.5 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground/50">
+				Saved views
+			</h2>
+			{pinned.map((view) => (
+				<SavedViewRow
+					key={view.viewId}
+					view={view}
+					isActive={view.viewId === activeViewId}
+				/>
+			))}
+			{showUnpinned &&
+				unpinned.map((view) => (
+					<SavedViewRow
+						key={view.viewId}
+						view={view}
+						isActive={view.viewId === activeViewId}
+					/>
+				))}
+			{unpinned.length > 0 && (
+				<button
+					type="button"
+					className="px-1 text-[10px] text-muted-foreground/60 hover:text-muted-foreground"
+					onClick={() => setShowUnpinned((value) => !value)}
+				>
+					{showUnpinned ? "Show less" : `${unpinned.length} more`}
+				</button>
+			)}
+		</div>
+	);
+}
+
+function SavedViewRow({
+	view,
+	isActive,
+}: {
+	view: SavedViewItem;
+	isActive: boolean;
+}) {
+	const client = useSavedViews();
+	const [, updateSavedView] = useAtom(client.updateSavedView.mutate);
+	const [, deleteSavedView] = useAtom(client.deleteSavedView.mutate);
+	const TargetIcon = view.target === "pr" ? GitPullRequest : CircleDot;
+
+	return (
+		<div
+			className={cn(
+				"group flex items-center gap-1 rounded-md pr-1 transition-colors",
+				isActive ? "bg-accent text-accent-foreground" : "hover:bg-accent/50",
+			)}
+		>
+			<Link
+				href={buildSavedViewHref(
+					view.ownerLogin,
+					view.repoName,
+					view.target,
+					view.query,
+					view.viewId,
+				)}
+				className="flex min-w-0 flex-1 items-center gap-1.5 px-1 py-1 no-underline"
+			>
+				<TargetIcon className="size-3 shrink-0 text-muted-foreground" />
+				<span className="truncate text-[11px] font-medium">{view.title}</span>
+				<span className="truncate text-[10px] text-muted-foreground/50">
+					{view.repoName}
+				</span>
+				{view.unreadCount > 0 && (
+					<Badge
+						variant="secondary"
+						className="ml-auto h-4 shrink-0 px-1 text-[9px] tabular-nums"
+					>
+						{view.unreadCount > 99 ? "99+" : view.unreadCount}
+					</Badge>
+				)}
+			</Link>
+			<button
+				type="button"
+				className="hidden shrink-0 text-muted-foreground/60 hover:text-foreground group-hover:block"
+				onClick={() =>
+					updateSavedView({ viewId: view.viewId, pinned: !view.pinned })
+				}
+				aria-label={view.pinned ? "Unpin view" : "Pin view"}
+			>
+				<Bookmark className={cn("size-3", view.pinned && "fill-current")} />
+			</button>
+			<button
+				type="button"
+				className="hidden shrink-0 text-muted-foreground/60 hover:text-foreground group-hover:block"
+				onClick={() => deleteSavedView({ viewId: view.viewId })}
+				aria-label="Delete view"
+			>
+				<X className="size-3" />
+			</button>
+		</div>
+	);
+}
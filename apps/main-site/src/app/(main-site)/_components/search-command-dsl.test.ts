@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
 	buildCanonicalGitHubSearch,
+	buildListFilters,
 	parseSearchCommandQuery,
 } from "./search-command-dsl";
 
@@ -33,6 +34,14 @@ describe("parseSearchCommandQuery", () => {
 		expect(parsed.textTokens).toEqual([]);
 	});
 
+	it("parses discussion target keywords", () => {
+		const parsed = parseSearchCommandQuery("open discussions by rhys");
+
+		expect(parsed.target).toBe("discussion");
+		expect(parsed.state).toBe("open");
+		expect(parsed.author).toBe("rhys");
+	});
+
 	it("keeps plain text when no DSL exists", () => {
 		const parsed = parseSearchCommandQuery("fix flaky tests");
 
@@ -83,4 +92,34 @@ describe("parseSearchCommandQuery", () => {
 
 		expect(parsed.labels).toEqual(["bug", "help-wanted"]);
 	});
+
+	it("maps parsed queries to saved-view list filters", () => {
+		const now = new Date("2026-02-21T12:00:00.000Z").getTime();
+		const parsed = parseSearchCommandQuery(
+			"prs merged by elliot assigned to rhys label bug past 7 days flaky",
+			now,
+		);
+
+		expect(buildListFilters(parsed)).toEqual({
+			state: "merged",
+			authorLogin: "elliot",
+			assigneeLogin: "rhys",
+			labels: ["bug"],
+			updatedAfter: parsed.updatedAfter,
+			linked: false,
+			textTokens: ["flaky"],
+		});
+		expect(parsed.updatedAfter).not.toBeNull();
+	});
+
+	it("parses linked: qualifiers ahead of targets and authors", () => {
+		const parsed = parseSearchCommandQuery("open issues by elliot linked:pr");
+
+		expect(parsed.target).toBe("issue");
+		expect(parsed.author).toBe("elliot");
+		expect(parsed.linked).toBe("pr");
+		expect(parsed.textTokens).toEqual([]);
+		expect(buildListFilters(parsed).linked).toBe(true);
+		expect(buildCanonicalGitHubSearch(parsed, null)).toContain("linked:pr");
+	});
 });
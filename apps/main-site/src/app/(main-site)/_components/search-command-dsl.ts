@@ -1,5 +1,7 @@
-type SearchTarget = "issue" | "pr" | "repo";
+type SearchTarget = "issue" | "pr" | "discussion" | "repo";
 type SearchState = "open" | "closed" | "merged";
+/** What a `linked:` item is linked to: issues are linked to PRs and back */
+type SearchLinked = "pr" | "issue";
 
 type RepoRef = {
 	readonly owner: string;
@@ -16,6 +18,7 @@ export type SearchCommandQuery = {
 	readonly labels: ReadonlyArray<string>;
 	readonly state: SearchState | null;
 	readonly updatedAfter: number | null;
+	readonly linked: SearchLinked | null;
 	readonly textTokens: ReadonlyArray<string>;
 	readonly hasDsl: boolean;
 };
@@ -52,6 +55,7 @@ type ParseMutableState = {
 	labels: Array<string>;
 	state: SearchState | null;
 	updatedAfter: number | null;
+	linked: SearchLinked | null;
 };
 
 const eatAll = (
@@ -106,6 +110,7 @@ export const parseSearchCommandQuery = (
 		labels: [],
 		state: null,
 		updatedAfter: null,
+		linked: null,
 	};
 
 	if (state.remaining.length === 0) {
@@ -119,6 +124,7 @@ export const parseSearchCommandQuery = (
 			labels: [],
 			state: null,
 			updatedAfter: null,
+			linked: null,
 			textTokens: [],
 			hasDsl: false,
 		};
@@ -132,9 +138,10 @@ export const parseSearchCommandQuery = (
 	state.remaining = normalize(state.remaining);
 
 	state.remaining = state.remaining.replace(
-		/^(issues?|prs?|pulls?|pull requests?|repositories?|repos?)\b\s*/,
+		/^(issues?|prs?|pulls?|pull requests?|discussions?|repositories?|repos?)\b\s*/,
 		(match) => {
 			if (match.startsWith("issue")) state.target = "issue";
+			if (match.startsWith("discussion")) state.target = "discussion";
 			if (match.startsWith("pr") || match.startsWith("pull"))
 				state.target = "pr";
 			if (match.startsWith("repo") || match.startsWith("repositor"))
@@ -145,6 +152,11 @@ export const parseSearchCommandQuery = (
 	);
 	state.remaining = normalize(state.remaining);
 
+	// Before anything that could read `pr` / `issue` as a target or a name
+	eatAll(state, /\blinked:(prs?|issues?)\b/g, (match) => {
+		state.linked = match[1]?.startsWith("pr") ? "pr" : "issue";
+	});
+
 	eatAll(state, /\bmerged\b/g, () => {
 		state.state = "merged";
 	});
@@ -198,10 +210,11 @@ export const parseSearchCommandQuery = (
 	if (state.target === null) {
 		eatAll(
 			state,
-			/\b(issues?|prs?|pulls?|pull requests?|repositories?|repos?)\b/g,
+			/\b(issues?|prs?|pulls?|pull requests?|discussions?|repositories?|repos?)\b/g,
 			(match) => {
 				const token = match[0];
 				if (token.startsWith("issue")) state.target = "issue";
+				if (token.startsWith("discussion")) state.target = "discussion";
 				if (token.startsWith("pr") || token.startsWith("pull")) {
 					state.target = "pr";
 				}
@@ -265,6 +278,7 @@ export const parseSearchCommandQuery = (
 		labels,
 		state: state.state,
 		updatedAfter: state.updatedAfter,
+		linked: state.linked,
 		textTokens,
 		hasDsl: state.recognizedTokens > 0,
 	};
@@ -277,6 +291,7 @@ export const buildCanonicalGitHubSearch = (
 	const parts: Array<string> = [];
 	if (query.target === "issue") parts.push("is:issue");
 	if (query.target === "pr") parts.push("is:pr");
+	if (query.target === "discussion") parts.push("type:discussions");
 	if (query.repo !== null)
 		parts.push(`repo:${query.repo.owner}/${query.repo.name}`);
 	if (query.repo === null && fallbackRepo !== null)
@@ -295,8 +310,24 @@ export const buildCanonicalGitHubSearch = (
 	if (query.updatedAfter !== null) {
 		parts.push(`updated:>=${formatYmd(query.updatedAfter)}`);
 	}
+	if (query.linked !== null) parts.push(`linked:${query.linked}`);
 	for (const token of query.textTokens) {
 		parts.push(token.includes(" ") ? `"${token}"` : token);
 	}
 	return parts.join(" ");
 };
+
+/**
+ * Filters a parsed query contributes to the paginated issue and PR lists,
+ * which is how saved views run. Repo, org and target are carried by the
+ * route instead; free-text tokens are matched against titles client-side.
+ */
+export const buildListFilters = (query: SearchCommandQuery) => ({
+	state: query.state,
+	authorLogin: query.author,
+	assigneeLogin: query.assignee,
+	labels: query.labels,
+	updatedAfter: query.updatedAfter,
+	linked: query.linked !== null,
+	textTokens: query.textTokens,
+});
@@ -5,6 +5,7 @@ import {
 	Clock3,
 	FileCode2,
 	GitPullRequest,
+	MessagesSquare,
 	Tag,
 	User,
 } from "@packages/ui/components/icons";
@@ -14,6 +15,7 @@ import type { SearchCommandQuery } from "./search-command-dsl";
 export type FilterIconKind =
 	| "issue"
 	| "pr"
+	| "discussion"
 	| "repo"
 	| "author"
 	| "assignee"
@@ -52,6 +54,13 @@ export function buildQueryChips(
 	if (query.target === "pr") {
 		chips.push({ key: "target-pr", label: "PRs", icon: "pr" });
 	}
+	if (query.target === "discussion") {
+		chips.push({
+			key: "target-discussion",
+			label: "Discussions",
+			icon: "discussion",
+		});
+	}
 	if (query.target === "repo") {
 		chips.push({ key: "target-repo", label: "Repos", icon: "repo" });
 	}
@@ -99,6 +108,13 @@ export function buildQueryChips(
 	if (query.state === "merged") {
 		chips.push({ key: "state-merged", label: "merged", icon: "merged" });
 	}
+	if (query.linked !== null) {
+		chips.push({
+			key: `linked-${query.linked}`,
+			label: query.linked === "pr" ? "linked to a PR" : "linked to an issue",
+			icon: query.linked,
+		});
+	}
 	if (query.updatedAfter !== null) {
 		chips.push({
 			key: `updated-${query.updatedAfter}`,
@@ -130,6 +146,9 @@ export function renderFilterIcon(kind: FilterIconKind) {
 	if (kind === "pr" || kind === "merged") {
 		return <GitPullRequest className={cn("size-3", iconClassFor(kind))} />;
 	}
+	if (kind === "discussion") {
+		return <MessagesSquare className="size-3 text-muted-foreground" />;
+	}
 	if (kind === "repo") return <FileCode2 className="size-3 text-status-repo" />;
 	if (kind === "author" || kind === "assignee" || kind === "org") {
 		return <User className={cn("size-3", iconClassFor(kind))} />;
@@ -194,6 +213,7 @@ export function getKeywordSuggestion(
 	}> = [
 		{ keyword: "issues", icon: "issue" },
 		{ keyword: "prs", icon: "pr" },
+		{ keyword: "discussions", icon: "discussion" },
 		{ keyword: "repos", icon: "repo" },
 		{ keyword: "by ", icon: "author" },
 		{ keyword: "assigned to ", icon: "assignee" },
@@ -263,6 +283,7 @@ function collectInlineMatches(rawQuery: string): ReadonlyArray<{
 	addPattern(/\bpulls?\b/gi, "pr");
 	addPattern(/\bprs?\b/gi, "pr");
 	addPattern(/\bissues?\b/gi, "issue");
+	addPattern(/\bdiscussions?\b/gi, "discussion");
 	addPattern(/\brepositories?\b/gi, "repo");
 	addPattern(/\brepos?\b/gi, "repo");
 
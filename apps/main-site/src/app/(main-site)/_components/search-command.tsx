@@ -22,6 +22,7 @@ import {
 	GitPullRequest,
 	Inbox,
 	ListChecks,
+	MessagesSquare,
 	Rocket,
 	Search,
 } from "@packages/ui/components/icons";
@@ -75,7 +76,7 @@ function useRepoFromPathname() {
 }
 
 type SearchResultItem = {
-	readonly type: "pr" | "issue";
+	readonly type: "pr" | "issue" | "discussion";
 	readonly number: number;
 	readonly state: "open" | "closed" | "merged";
 	readonly title: string;
@@ -109,6 +110,7 @@ type NavigationKind =
 	| "global"
 	| "pr"
 	| "issue"
+	| "discussion"
 	| "actions"
 	| "code"
 	| "notifications"
@@ -172,6 +174,7 @@ function getRecentEntries(): ReadonlyArray<RecentEntry> {
 					kind:
 						entry.kind === "pr" ||
 						entry.kind === "issue" ||
+						entry.kind === "discussion" ||
 						entry.kind === "repo" ||
 						entry.kind === "actions" ||
 						entry.kind === "code" ||
@@ -238,6 +241,8 @@ function IconForKind({ kind }: { kind: NavigationKind }) {
 		return <GitPullRequest className="size-4 text-status-open" />;
 	if (kind === "issue")
 		return <CircleDot className="size-4 text-status-open" />;
+	if (kind === "discussion")
+		return <MessagesSquare className="size-4 text-muted-foreground" />;
 	if (kind === "actions") return <ListChecks className="size-4" />;
 	if (kind === "code") return <FileCode2 className="size-4" />;
 	if (kind === "notifications") return <Inbox className="size-4" />;
@@ -310,12 +315,30 @@ function RepoQuickActions({
 			subtitle: `${repo.owner}/${repo.name}`,
 			kind: "issue",
 		},
+		{
+			path: `${base}/compare`,
+			title: "Create New Pull Request",
+			subtitle: `${repo.owner}/${repo.name}`,
+			kind: "pr",
+		},
+		{
+			path: `${base}/discussions`,
+			title: "Open Discussions",
+			subtitle: `${repo.owner}/${repo.name}`,
+			kind: "discussion",
+		},
 		{
 			path: `${base}/actions`,
 			title: "Open Actions",
 			subtitle: `${repo.owner}/${repo.name}`,
 			kind: "actions",
 		},
+		{
+			path: `${base}/releases`,
+			title: "Open Releases",
+			subtitle: `${repo.owner}/${repo.name}`,
+			kind: "repo",
+		},
 		{
 			path: `${base}/tree/HEAD`,
 			title: "Browse Code",
@@ -439,12 +462,19 @@ function SearchResultRow({
 		pointer: { readonly x: number; readonly y: number },
 	) => void;
 }) {
-	const kind: NavigationKind = item.type === "pr" ? "pr" : "issue";
-	const segment = item.type === "pr" ? "pull" : "issues";
+	const kind: NavigationKind = item.type;
+	const segment =
+		item.type === "pr"
+			? "pull"
+			: item.type === "issue"
+				? "issues"
+				: "discussions";
+	const label =
+		item.type === "pr" ? "PR" : item.type === "issue" ? "Issue" : "Discussion";
 	const target: NavigationTarget = {
 		path: `/${repo.owner}/${repo.name}/${segment}/${item.number}`,
 		title: item.title,
-		subtitle: `${item.type === "pr" ? "PR" : "Issue"} #${item.number}`,
+		subtitle: `${label} #${item.number}`,
 		kind,
 	};
 
@@ -512,7 +542,9 @@ function SearchResults({
 				query: searchText,
 				limit: 50,
 				target:
-					query.target === "issue" || query.target === "pr"
+					query.target === "issue" ||
+					query.target === "pr" ||
+					query.target === "discussion"
 						? query.target
 						: undefined,
 				authorLogin: query.author ?? undefined,
@@ -566,6 +598,9 @@ function SearchResults({
 			const staleIssues = displayedResults
 				.filter((entry) => entry.item.type === "issue")
 				.map((entry) => entry);
+			const staleDiscussions = displayedResults.filter(
+				(entry) => entry.item.type === "discussion",
+			);
 
 			return (
 				<>
@@ -597,6 +632,20 @@ function SearchResults({
 							))}
 						</CommandGroup>
 					)}
+					{staleDiscussions.length > 0 && (
+						<CommandGroup heading="Discussions">
+							{staleDiscussions.map((entry) => (
+								<SearchResultRow
+									key={entry.id}
+									item={entry.item}
+									resultId={entry.id}
+									repo={repo}
+									onSelect={onSelect}
+									onPointerIntent={onPointerIntent}
+								/>
+							))}
+						</CommandGroup>
+					)}
 					<CommandGroup heading="Refreshing">
 						<CommandItem disabled value="refreshing results">
 							<Skeleton className="size-4 rounded shrink-0" />
@@ -630,6 +679,9 @@ function SearchResults({
 	const issues = displayedResults.filter(
 		(entry) => entry.item.type === "issue",
 	);
+	const discussions = displayedResults.filter(
+		(entry) => entry.item.type === "discussion",
+	);
 
 	return (
 		<>
@@ -661,6 +713,20 @@ function SearchResults({
 					))}
 				</CommandGroup>
 			)}
+			{discussions.length > 0 && (
+				<CommandGroup heading="Discussions">
+					{discussions.map((entry) => (
+						<SearchResultRow
+							key={entry.id}
+							item={entry.item}
+							resultId={entry.id}
+							repo={repo}
+							onSelect={onSelect}
+							onPointerIntent={onPointerIntent}
+						/>
+					))}
+				</CommandGroup>
+			)}
 		</>
 	);
 }
@@ -2,8 +2,11 @@
 
 import { useParams, usePathname } from "next/navigation";
 import { useMemo } from "react";
+import { DiscussionListClient } from "./discussion-list-client";
+import { FileTreeClient } from "./file-tree-client";
 import { IssueListClient } from "./issue-list-client";
 import { PrListClient } from "./pr-list-client";
+import { ReleaseListClient } from "./release-list-client";
 import { RepoTabBar } from "./repo-tab-bar";
 import { SidebarRepoList } from "./sidebar-repo-list";
 import { WorkflowRunListClient } from "./workflow-run-list-client";
@@ -25,11 +28,16 @@ import { WorkflowRunListClient } from "./workflow-run-list-client";
  *   /:owner/:name/issues       → issue list
  *   /:owner/:name/issues/:num  → issue list (active number)
  *   /:owner/:name/issues/new   → issue list
+ *   /:owner/:name/discussions  → discussion list
+ *   /:owner/:name/discussions/:num → discussion list (active number)
  *   /:owner/:name/actions      → workflow run list
  *   /:owner/:name/actions/runs/:runId → workflow run list (active)
+ *   /:owner/:name/releases     → release list
  *   /:owner/:name/tree/...     → file tree (code tab)
  *   /:owner/:name/blob/...     → file tree (code tab)
  *   /:owner/:name/activity     → PR list (default tab)
+ *   /:owner/:name/integrations → PR list (default tab)
+ *   /:owner/:name/compare/...  → PR list (default tab)
  */
 export function SidebarRouter() {
 	const params = useParams<{
@@ -68,6 +76,18 @@ export function SidebarRouter() {
 				</>
 			);
 
+		case "discussions":
+			return (
+				<>
+					<RepoTabBar owner={owner} name={name} activeTab="discussions" />
+					<DiscussionListClient
+						owner={owner}
+						name={name}
+						activeDiscussionNumber={route.activeNumber}
+					/>
+				</>
+			);
+
 		case "actions":
 			return (
 				<>
@@ -80,7 +100,21 @@ export function SidebarRouter() {
 				</>
 			);
 
-		// Code tab disabled — falls through to default (pulls)
+		case "releases":
+			return (
+				<>
+					<RepoTabBar owner={owner} name={name} activeTab="releases" />
+					<ReleaseListClient owner={owner} name={name} />
+				</>
+			);
+
+		case "code":
+			return (
+				<>
+					<RepoTabBar owner={owner} name={name} activeTab="code" />
+					<FileTreeClient owner={owner} name={name} />
+				</>
+			);
 
 		default:
 			return (
@@ -97,7 +131,7 @@ export function SidebarRouter() {
 }
 
 type RepoRoute = {
-	tab: "pulls" | "issues" | "actions";
+	tab: "pulls" | "issues" | "discussions" | "actions" | "code" | "releases";
 	activeNumber: number | null;
 };
 
@@ -135,6 +169,20 @@ function parseRepoRoute(rest: string): RepoRoute {
 		return { tab: "issues", activeNumber: null };
 	}
 
+	// /discussions/:number → discussions tab with active
+	if (rest.startsWith("/discussions/")) {
+		const num = Number.parseInt(rest.split("/")[2] ?? "", 10);
+		return {
+			tab: "discussions",
+			activeNumber: Number.isNaN(num) ? null : num,
+		};
+	}
+
+	// /discussions → discussions tab
+	if (rest === "/discussions") {
+		return { tab: "discussions", activeNumber: null };
+	}
+
 	// /actions/runs/:runId → actions tab with active
 	if (rest.startsWith("/actions/runs/")) {
 		const num = Number.parseInt(rest.split("/")[3] ?? "", 10);
@@ -149,10 +197,15 @@ function parseRepoRoute(rest: string): RepoRoute {
 		return { tab: "actions", activeNumber: null };
 	}
 
-	// /tree/... or /blob/... → code tab (disabled, fall through to pulls)
-	// if (rest.startsWith("/tree/") || rest.startsWith("/blob/")) {
-	// 	return { tab: "code", activeNumber: null };
-	// }
+	// /releases → releases tab
+	if (rest.startsWith("/releases")) {
+		return { tab: "releases", activeNumber: null };
+	}
+
+	// /tree/... or /blob/... → code tab
+	if (rest.startsWith("/tree/") || rest.startsWith("/blob/")) {
+		return { tab: "code", activeNumber: null };
+	}
 
 	// /activity → falls through to pulls (default)
 	return { tab: "pulls", activeNumber: null };
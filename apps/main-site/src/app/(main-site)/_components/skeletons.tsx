@@ -156,6 +156,33 @@ export function WorkflowRunDetailSkeleton() {
 	);
 }
 
+export function ReleasesSkeleton() {
+	return (
+		<div className="h-full overflow-y-auto animate-pulse">
+			<div className="p-4 space-y-4">
+				<div className="h-5 w-24 rounded bg-muted" />
+				{Array.from({ length: 3 }, (_, i) => (
+					<div key={i} className="rounded-lg border p-4 space-y-3">
+						<div className="flex items-center gap-2">
+							<div className="h-4 w-40 rounded bg-muted" />
+							<div className="h-4 w-14 rounded-full bg-muted" />
+						</div>
+						<div className="flex items-center gap-2">
+							<div className="size-4 rounded-full bg-muted" />
+							<div className="h-3 w-24 rounded bg-muted" />
+						</div>
+						<div className="space-y-1.5">
+							<div className="h-3 w-full rounded bg-muted" />
+							<div className="h-3 w-5/6 rounded bg-muted" />
+							<div className="h-3 w-2/3 rounded bg-muted" />
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
+
 export function PrDetailSkeleton() {
 	return (
 		<div className="flex h-full animate-pulse">
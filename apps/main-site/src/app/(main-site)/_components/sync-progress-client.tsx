@@ -10,7 +10,10 @@ import {
 	GitCommitHorizontal,
 	GitPullRequest,
 	Loader2,
+	MessagesSquare,
+	Milestone,
 	ShieldCheck,
+	Tag,
 	Zap,
 } from "@packages/ui/components/icons";
 import { cn } from "@packages/ui/lib/utils";
@@ -46,7 +49,10 @@ const SYNC_STEPS: ReadonlyArray<StepMeta> = [
 	{ key: "Branches", label: "Branches", icon: GitBranch },
 	{ key: "Pull requests", label: "Pull requests", icon: GitPullRequest },
 	{ key: "Issues", label: "Issues", icon: CircleDot },
+	{ key: "Milestones", label: "Milestones", icon: Milestone },
 	{ key: "Commits", label: "Commits", icon: GitCommitHorizontal },
+	{ key: "Releases", label: "Releases", icon: Tag },
+	{ key: "Discussions", label: "Discussions", icon: MessagesSquare },
 	{ key: "Check runs", label: "Checks", icon: ShieldCheck },
 	{ key: "Workflows", label: "CI / CD", icon: Zap },
 	{ key: "File diffs", label: "Diffs", icon: FileDiff },
@@ -124,7 +130,7 @@ function SyncProgressTracker({ progress }: { progress: SyncProgress }) {
 				</div>
 
 				{/* ── Step indicators ── */}
-				<div className="grid grid-cols-7 gap-1">
+				<div className="grid grid-cols-10 gap-1">
 					{SYNC_STEPS.map((step) => {
 						const isCompleted = completedSet.has(step.key);
 						const isActive =
@@ -0,0 +1,199 @@
+"use client";
+
+import { useAtom } from "@effect-atom/atom-react";
+import {
+	Avatar,
+	AvatarFallback,
+	AvatarImage,
+} from "@packages/ui/components/avatar";
+import { useOnDemandSync } from "@packages/ui/rpc/on-demand-sync";
+import { type ReactNode, useEffect, useRef } from "react";
+import { LabelChip } from "@/app/(main-site)/_components/label-chip";
+
+export type TimelineEvent = {
+	readonly kind: "event";
+	readonly eventType:
+		| "labeled"
+		| "unlabeled"
+		| "assigned"
+		| "unassigned"
+		| "milestoned"
+		| "demilestoned"
+		| "renamed"
+		| "referenced"
+		| "closed"
+		| "reopened"
+		| "merged"
+		| "locked"
+		| "unlocked"
+		| "review_requested"
+		| "review_request_removed"
+		| "convert_to_draft"
+		| "ready_for_review"
+		| "head_ref_force_pushed";
+	readonly actorLogin: string | null;
+	readonly actorAvatarUrl: string | null;
+	readonly labelName: string | null;
+	readonly labelColor: string | null;
+	readonly subjectLogin: string | null;
+	readonly subjectTeamSlug: string | null;
+	readonly milestoneTitle: string | null;
+	readonly renameFrom: string | null;
+	readonly renameTo: string | null;
+	readonly commitSha: string | null;
+	readonly beforeSha: string | null;
+	readonly createdAt: number;
+};
+
+/** One entry of a detail view's merged timeline. */
+export type TimelineItem =
+	| {
+			readonly kind: "comment";
+			readonly githubCommentId: number;
+			readonly createdAt: number;
+	  }
+	| {
+			readonly kind: "review";
+			readonly githubReviewId: number;
+			readonly createdAt: number;
+	  }
+	| TimelineEvent;
+
+/**
+ * Backfill timeline events once for issues and PRs whose timeline was never
+ * read from GitHub (webhooks keep it current afterwards).
+ * `timelineBackfilledAt` is undefined while the item is loading.
+ */
+export function useTimelineBackfill({
+	ownerLogin,
+	name,
+	number,
+	timelineBackfilledAt,
+}: {
+	ownerLogin: string;
+	name: string;
+	number: number;
+	timelineBackfilledAt: number | null | undefined;
+}) {
+	const onDemandSync = useOnDemandSync();
+	const [, syncTimeline] = useAtom(onDemandSync.syncTimeline.call);
+	const hasRequestedBackfill = useRef(false);
+	const needsBackfill = timelineBackfilledAt === null;
+
+	useEffect(() => {
+		if (!needsBackfill || hasRequestedBackfill.current) return;
+		hasRequestedBackfill.current = true;
+		syncTimeline({ ownerLogin, name, number });
+	}, [name, needsBackfill, number, ownerLogin, syncTimeline]);
+}
+
+const shortSha = (sha: string | null) => sha?.slice(0, 7) ?? "unknown";
+
+function describeEvent(event: TimelineEvent): ReactNode {
+	const label =
+		event.labelName === null ? null : (
+			<LabelChip
+				name={event.labelName}
+				label={{
+					name: event.labelName,
+					color: event.labelColor,
+					description: null,
+				}}
+				className="mx-0.5 h-4 px-1.5 text-[10px]"
+			/>
+		);
+	const subject = (
+		<span className="font-medium text-foreground">
+			{event.subjectLogin ?? event.subjectTeamSlug ?? "someone"}
+		</span>
+	);
+
+	switch (event.eventType) {
+		case "labeled":
+			return <>added {label}</>;
+		case "unlabeled":
+			return <>removed {label}</>;
+		case "assigned":
+			return <>assigned {subject}</>;
+		case "unassigned":
+			return <>unassigned {subject}</>;
+		case "review_requested":
+			return <>requested a review from {subject}</>;
+		case "review_request_removed":
+			return <>removed the review request for {subject}</>;
+		case "milestoned":
+			return <>added this to {event.milestoneTitle ?? "a milestone"}</>;
+		case "demilestoned":
+			return <>removed this from {event.milestoneTitle ?? "a milestone"}</>;
+		case "renamed":
+			return (
+				<>
+					changed the title{" "}
+					<span className="line-through">{event.renameFrom}</span>{" "}
+					<span className="text-foreground">{event.renameTo}</span>
+				</>
+			);
+		case "referenced":
+			return (
+				<>
+					referenced this in commit{" "}
+					<span className="font-mono">{shortSha(event.commitSha)}</span>
+				</>
+			);
+		case "closed":
+			return "closed this";
+		case "reopened":
+			return "reopened this";
+		case "merged":
+			return "merged this";
+		case "locked":
+			return "locked the conversation";
+		case "unlocked":
+			return "unlocked the conversation";
+		case "convert_to_draft":
+			return "marked this as a draft";
+		case "ready_for_review":
+			return "marked this as ready for review";
+		case "head_ref_force_pushed":
+			return (
+				<>
+					force-pushed from{" "}
+					<span className="font-mono">{shortSha(event.beforeSha)}</span> to{" "}
+					<span className="font-mono">{shortSha(event.commitSha)}</span>
+				</>
+			);
+	}
+}
+
+/**
+ * A compact, single-line timeline entry (label change, assignment, rename,
+ * force-push...) rendered between comment cards.
+ */
+export function TimelineEventRow({
+	event,
+	timeLabel,
+}: {
+	event: TimelineEvent;
+	/** Pre-formatted event time, e.g. "3d ago" */
+	timeLabel: string;
+}) {
+	return (
+		<div className="flex flex-wrap items-center gap-1 px-2 py-1 text-xs text-muted-foreground">
+			{event.actorLogin !== null && (
+				<span className="flex items-center gap-1">
+					<Avatar className="size-4">
+						<AvatarImage src={event.actorAvatarUrl ?? undefined} />
+						<AvatarFallback className="text-[8px]">
+							{event.actorLogin[0]?.toUpperCase()}
+						</AvatarFallback>
+					</Avatar>
+					<span className="font-semibold text-foreground">
+						{event.actorLogin}
+					</span>
+				</span>
+			)}
+			{describeEvent(event)}
+			<span className="text-muted-foreground/60 tabular-nums">{timeLabel}</span>
+		</div>
+	);
+}
@@ -4,8 +4,12 @@ import { Result, useAtom, useAtomValue } from "@effect-atom/atom-react";
 import { useSubscriptionWithInitial } from "@packages/confect/rpc";
 import { Badge } from "@packages/ui/components/badge";
 import { Button } from "@packages/ui/components/button";
+import { Checkbox } from "@packages/ui/components/checkbox";
 import {
+	Ban,
 	Bell,
+	Bookmark,
+	Check,
 	CircleDot,
 	GitCommit,
 	GitPullRequest,
@@ -19,8 +23,10 @@ import { Skeleton } from "@packages/ui/components/skeleton";
 import { authClient } from "@packages/ui/lib/auth-client";
 import { cn } from "@packages/ui/lib/utils";
 import { useNotifications } from "@packages/ui/rpc/notifications";
+import { useHotkey } from "@tanstack/react-hotkeys";
 import { Option as Opt } from "effect";
-import { type ReactNode, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { type ReactNode, useEffect, useMemo, useState } from "react";
 import { extractErrorMessage, extractErrorReason } from "@/lib/rpc-error";
 
 // ---------------------------------------------------------------------------
@@ -121,8 +127,18 @@ export type NotificationItem = {
 	readonly updatedAt: number;
 	readonly lastReadAt: number | null;
 	readonly entityNumber: number | null;
+	readonly savedAt: number | null;
+	readonly subscription: "muted" | "unsubscribed" | null;
 };
 
+type TriageAction =
+	| "read"
+	| "done"
+	| "mute"
+	| "unsubscribe"
+	| "save"
+	| "unsave";
+
 function getNotificationHref(n: NotificationItem): string | null {
 	if (!n.entityNumber) return null;
 	const [owner, name] = n.repositoryFullName.split("/");
@@ -133,6 +149,9 @@ function getNotificationHref(n: NotificationItem): string | null {
 	if (n.subjectType === "Issue") {
 		return `/${owner}/${name}/issues/${n.entityNumber}`;
 	}
+	if (n.subjectType === "Discussion") {
+		return `/${owner}/${name}/discussions/${n.entityNumber}`;
+	}
 	return null;
 }
 
@@ -156,6 +175,14 @@ export function NotificationsClient({
 		initialNotifications,
 	);
 	const [, markRead] = useAtom(client.markNotificationRead.mutate);
+	const [, triageNotifications] = useAtom(client.triageNotifications.mutate);
+	const [, markAllRead] = useAtom(client.markAllNotificationsRead.mutate);
+	const [, markInboxOpened] = useAtom(client.markInboxOpened.mutate);
+	const router = useRouter();
+	const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(
+		() => new Set(),
+	);
+	const [focusedId, setFocusedId] = useState<string | null>(null);
 	const [syncResult, syncNotifications] = useAtom(
 		client.syncNotifications.call,
 	);
@@ -165,6 +192,11 @@ export function NotificationsClient({
 	);
 	const autoSyncResult = useAtomValue(autoSyncAtom);
 
+	// Keep the background poller running for as long as the inbox is used
+	useEffect(() => {
+		markInboxOpened(EmptyPayload);
+	}, [markInboxOpened]);
+
 	const isSyncing =
 		Result.isWaiting(syncResult) || Result.isWaiting(autoSyncResult);
 
@@ -192,12 +224,129 @@ export function NotificationsClient({
 	const isNotConnectedError =
 		syncErrorMessage?.includes("not connected") || false;
 
+	const unread = notifications.filter((n) => n.unread && n.savedAt === null);
+	const saved = notifications.filter((n) => n.savedAt !== null);
+	const read = notifications.filter((n) => !n.unread && n.savedAt === null);
+	// Keyboard navigation follows the on-screen order
+	const ordered = [...unread, ...saved, ...read];
+	const focusedIndex = ordered.findIndex(
+		(n) => n.githubNotificationId === focusedId,
+	);
+	const focused = focusedIndex === -1 ? null : ordered[focusedIndex];
+
+	const triage = (
+		githubNotificationIds: Array<string>,
+		action: TriageAction,
+	) => {
+		if (githubNotificationIds.length === 0) return;
+		triageNotifications({ githubNotificationIds, action });
+		if (action === "done") {
+			setSelectedIds((prev) => {
+				const next = new Set(prev);
+				for (const id of githubNotificationIds) next.delete(id);
+				return next;
+			});
+		}
+	};
+
+	// Shortcuts act on the selection when there is one, else the focused row
+	const triageTargets = () =>
+		selectedIds.size > 0
+			? [...selectedIds]
+			: focused
+				? [focused.githubNotificationId]
+				: [];
+
+	const toggleSelected = (githubNotificationId: string) => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(githubNotificationId)) next.delete(githubNotificationId);
+			else next.add(githubNotificationId);
+			return next;
+		});
+	};
+
+	const moveFocus = (delta: number) => {
+		if (ordered.length === 0) return;
+		const nextIndex =
+			focusedIndex === -1
+				? 0
+				: Math.min(Math.max(focusedIndex + delta, 0), ordered.length - 1);
+		setFocusedId(ordered[nextIndex]?.githubNotificationId ?? null);
+	};
+
+	useHotkey("J", (event) => {
+		event.preventDefault();
+		moveFocus(1);
+	});
+
+	useHotkey("K", (event) => {
+		event.preventDefault();
+		moveFocus(-1);
+	});
+
+	useHotkey("X", (event) => {
+		event.preventDefault();
+		if (focused) toggleSelected(focused.githubNotificationId);
+	});
+
+	useHotkey("O", (event) => {
+		event.preventDefault();
+		if (!focused) return;
+		const href = getNotificationHref(focused);
+		if (focused.unread) triage([focused.githubNotificationId], "read");
+		if (href) router.push(href);
+	});
+
+	useHotkey("E", (event) => {
+		event.preventDefault();
+		triage(triageTargets(), "done");
+	});
+
+	useHotkey("Shift+I", (event) => {
+		event.preventDefault();
+		triage(triageTargets(), "read");
+	});
+
+	useHotkey("Shift+M", (event) => {
+		event.preventDefault();
+		triage(triageTargets(), "mute");
+	});
+
+	useHotkey("S", (event) => {
+		event.preventDefault();
+		const targets = triageTargets();
+		const savedIds = new Set(saved.map((n) => n.githubNotificationId));
+		const allSaved = targets.every((id) => savedIds.has(id));
+		triage(targets, allSaved ? "unsave" : "save");
+	});
+
+	useHotkey("Escape", () => {
+		setSelectedIds(new Set());
+	});
+
 	if (Result.isInitial(result)) {
 		return <NotificationsSkeleton />;
 	}
 
-	const unread = notifications.filter((n) => n.unread);
-	const read = notifications.filter((n) => !n.unread);
+	const renderRow = (n: NotificationItem) => (
+		<NotificationRow
+			key={n.githubNotificationId}
+			notification={n}
+			isSelected={selectedIds.has(n.githubNotificationId)}
+			isFocused={n.githubNotificationId === focusedId}
+			onToggleSelected={() => toggleSelected(n.githubNotificationId)}
+			onTriage={(action) => triage([n.githubNotificationId], action)}
+			onBeforeNavigate={
+				n.unread
+					? () =>
+							markRead({
+								githubNotificationId: n.githubNotificationId,
+							})
+					: undefined
+			}
+		/>
+	);
 	const byReason = [...notifications]
 		.reduce((acc, notification) => {
 			const label = reasonLabel(notification.reason);
@@ -242,18 +391,40 @@ export function NotificationsClient({
 							Your cross-repo notification queue with fast triage.
 						</p>
 					</div>
-					<Button
-						variant="ghost"
-						size="sm"
-						className="h-7 text-xs gap-1.5"
-						disabled={isSyncing}
-						onClick={() => syncNotifications(EmptyPayload)}
-					>
-						<RefreshCw className={cn("size-3", isSyncing && "animate-spin")} />
-						{isSyncing ? "Syncing..." : "Sync"}
-					</Button>
+					<div className="flex items-center gap-1">
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 text-xs gap-1.5"
+							disabled={unread.length === 0}
+							onClick={() => markAllRead(EmptyPayload)}
+						>
+							<Check className="size-3" />
+							Mark all read
+						</Button>
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 text-xs gap-1.5"
+							disabled={isSyncing}
+							onClick={() => syncNotifications(EmptyPayload)}
+						>
+							<RefreshCw
+								className={cn("size-3", isSyncing && "animate-spin")}
+							/>
+							{isSyncing ? "Syncing..." : "Sync"}
+						</Button>
+					</div>
 				</div>
 
+				{selectedIds.size > 0 && (
+					<BulkTriageBar
+						selectedCount={selectedIds.size}
+						onTriage={(action) => triage([...selectedIds], action)}
+						onClear={() => setSelectedIds(new Set())}
+					/>
+				)}
+
 				<div className="mb-4 grid grid-cols-2 gap-2 lg:grid-cols-4">
 					<NotificationsStat label="Unread" value={unread.length} />
 					<NotificationsStat label="Total" value={notifications.length} />
@@ -337,22 +508,25 @@ export function NotificationsClient({
 									</span>
 								</div>
 								<div className="divide-y rounded-lg border">
-									{unread.map((n) => (
-										<NotificationRow
-											key={n.githubNotificationId}
-											notification={n}
-											onBeforeNavigate={() =>
-												markRead({
-													githubNotificationId: n.githubNotificationId,
-												})
-											}
-											onMarkRead={() =>
-												markRead({
-													githubNotificationId: n.githubNotificationId,
-												})
-											}
-										/>
-									))}
+									{unread.map(renderRow)}
+								</div>
+							</section>
+						)}
+
+						{/* Saved for later */}
+						{saved.length > 0 && (
+							<section className="mb-6">
+								<div className="mb-2 flex items-center gap-1.5">
+									<Bookmark className="size-3 text-muted-foreground" />
+									<h2 className="text-xs font-semibold text-foreground">
+										Saved
+									</h2>
+									<span className="ml-auto text-[10px] tabular-nums text-muted-foreground">
+										{saved.length}
+									</span>
+								</div>
+								<div className="divide-y rounded-lg border">
+									{saved.map(renderRow)}
 								</div>
 							</section>
 						)}
@@ -369,12 +543,7 @@ export function NotificationsClient({
 									</span>
 								</div>
 								<div className="divide-y rounded-lg border">
-									{read.map((n) => (
-										<NotificationRow
-											key={n.githubNotificationId}
-											notification={n}
-										/>
-									))}
+									{read.map(renderRow)}
 								</div>
 							</section>
 						)}
@@ -406,10 +575,24 @@ export function NotificationsClient({
 							{repoStats.map(([repo, count]) => (
 								<div
 									key={repo}
-									className="flex items-center justify-between gap-2 text-xs"
+									className="group flex items-center justify-between gap-2 text-xs"
 								>
 									<span className="truncate text-muted-foreground">{repo}</span>
-									<span className="tabular-nums font-medium">{count}</span>
+									<span className="flex items-center gap-1.5">
+										{unread.some((n) => n.repositoryFullName === repo) && (
+											<button
+												type="button"
+												className="hidden text-muted-foreground/60 hover:text-foreground group-hover:block"
+												onClick={() =>
+													markAllRead({ repositoryFullName: repo })
+												}
+												aria-label={`Mark all ${repo} notifications read`}
+											>
+												<Check className="size-3" />
+											</button>
+										)}
+										<span className="tabular-nums font-medium">{count}</span>
+									</span>
 								</div>
 							))}
 						</InsightCard>
@@ -464,23 +647,79 @@ function InsightCard({
 	);
 }
 
+// ---------------------------------------------------------------------------
+// Bulk triage bar
+// ---------------------------------------------------------------------------
+
+const BULK_ACTIONS: ReadonlyArray<{ action: TriageAction; label: string }> = [
+	{ action: "read", label: "Mark read" },
+	{ action: "done", label: "Done" },
+	{ action: "save", label: "Save" },
+	{ action: "mute", label: "Mute" },
+	{ action: "unsubscribe", label: "Unsubscribe" },
+];
+
+function BulkTriageBar({
+	selectedCount,
+	onTriage,
+	onClear,
+}: {
+	selectedCount: number;
+	onTriage: (action: TriageAction) => void;
+	onClear: () => void;
+}) {
+	return (
+		<div className="mb-3 flex flex-wrap items-center gap-1 rounded-md border bg-muted/40 px-2 py-1">
+			<span className="mr-1 text-xs font-medium tabular-nums">
+				{selectedCount} selected
+			</span>
+			{BULK_ACTIONS.map(({ action, label }) => (
+				<Button
+					key={action}
+					variant="ghost"
+					size="sm"
+					className="h-6 px-2 text-[11px]"
+					onClick={() => onTriage(action)}
+				>
+					{label}
+				</Button>
+			))}
+			<Button
+				variant="ghost"
+				size="sm"
+				className="ml-auto h-6 px-2 text-[11px] text-muted-foreground"
+				onClick={onClear}
+			>
+				Clear
+			</Button>
+		</div>
+	);
+}
+
 // ---------------------------------------------------------------------------
 // Notification row
 // ---------------------------------------------------------------------------
 
 function NotificationRow({
 	notification,
+	isSelected,
+	isFocused,
+	onToggleSelected,
+	onTriage,
 	onBeforeNavigate,
-	onMarkRead,
 }: {
 	notification: NotificationItem;
+	isSelected: boolean;
+	isFocused: boolean;
+	onToggleSelected: () => void;
+	onTriage: (action: TriageAction) => void;
 	onBeforeNavigate?: () => void;
-	onMarkRead?: () => void;
 }) {
 	const href = getNotificationHref(notification);
+	const isSaved = notification.savedAt !== null;
 
 	const content = (
-		<div className="flex items-start gap-2.5 px-3 py-2 transition-colors hover:bg-muted">
+		<div className="flex items-start gap-2.5 py-2 pr-3">
 			<div className="mt-0.5">
 				<SubjectIcon type={notification.subjectType} />
 			</div>
@@ -517,6 +756,12 @@ function NotificationRow({
 					>
 						{reasonLabel(notification.reason)}
 					</Badge>
+					{notification.subscription !== null && (
+						<>
+							<span className="text-muted-foreground/40">&middot;</span>
+							<span>{notification.subscription}</span>
+						</>
+					)}
 					<span className="text-muted-foreground/40">&middot;</span>
 					<span>{formatRelative(notification.updatedAt)}</span>
 				</div>
@@ -524,26 +769,66 @@ function NotificationRow({
 		</div>
 	);
 
-	if (href) {
-		return (
-			<Link
-				href={href}
-				className="block no-underline"
-				onClick={() => onBeforeNavigate?.()}
-			>
-				{content}
-			</Link>
-		);
-	}
-
 	return (
-		<Button
-			variant="ghost"
-			className="w-full h-auto p-0 rounded-none justify-start font-normal"
-			onClick={() => onMarkRead?.()}
+		<div
+			className={cn(
+				"group flex items-start transition-colors hover:bg-muted",
+				isSelected && "bg-muted/60",
+				isFocused && "ring-1 ring-inset ring-ring",
+			)}
 		>
-			{content}
-		</Button>
+			<div className="py-2 pl-3 pr-2.5">
+				<Checkbox
+					checked={isSelected}
+					onCheckedChange={onToggleSelected}
+					aria-label="Select notification"
+					className="mt-0.5"
+				/>
+			</div>
+			{href ? (
+				<Link
+					href={href}
+					className="block min-w-0 flex-1 no-underline"
+					onClick={() => onBeforeNavigate?.()}
+				>
+					{content}
+				</Link>
+			) : (
+				<Button
+					variant="ghost"
+					className="h-auto min-w-0 flex-1 justify-start rounded-none p-0 font-normal hover:bg-transparent"
+					onClick={() => onTriage("read")}
+				>
+					{content}
+				</Button>
+			)}
+			<div className="hidden shrink-0 items-center gap-1 py-2 pr-3 group-hover:flex">
+				<button
+					type="button"
+					className="text-muted-foreground/60 hover:text-foreground"
+					onClick={() => onTriage("done")}
+					aria-label="Mark as done"
+				>
+					<Check className="size-3.5" />
+				</button>
+				<button
+					type="button"
+					className="text-muted-foreground/60 hover:text-foreground"
+					onClick={() => onTriage(isSaved ? "unsave" : "save")}
+					aria-label={isSaved ? "Unsave" : "Save for later"}
+				>
+					<Bookmark className={cn("size-3.5", isSaved && "fill-current")} />
+				</button>
+				<button
+					type="button"
+					className="text-muted-foreground/60 hover:text-foreground"
+					onClick={() => onTriage("mute")}
+					aria-label="Mute thread"
+				>
+					<Ban className="size-3.5" />
+				</button>
+			</div>
+		</div>
 	);
 }
 
@@ -36,6 +36,12 @@ const formatDuration = (ms: number) => {
 	return `${seconds}s`;
 };
 
+const rateLimitBadgeVariant = {
+	ok: "secondary",
+	reserved: "outline",
+	exhausted: "destructive",
+} as const;
+
 export default function InternalAdminPage() {
 	return (
 		<div className="min-h-screen bg-[radial-gradient(circle_at_20%_0%,hsl(var(--muted))_0%,transparent_35%),radial-gradient(circle_at_80%_0%,hsl(var(--accent)/0.15)_0%,transparent_40%)] px-6 py-8">
@@ -97,6 +103,11 @@ async function AdminSnapshotSection() {
 			value: formatCount(snapshot.counts.syncJobs),
 			detail: "Total sync jobs",
 		},
+		{
+			title: "HTTP Cache Hit Rate",
+			value: `${Math.round(snapshot.httpCache.hitRate * 100)}%`,
+			detail: `${formatCount(snapshot.httpCache.hits)} hits · ${formatCount(snapshot.httpCache.misses)} misses · ${formatCount(snapshot.httpCache.entries)} entries`,
+		},
 	];
 
 	return (
@@ -170,6 +181,46 @@ async function AdminSnapshotSection() {
 				</Card>
 			</div>
 
+			<Card className="bg-card/80">
+				<CardHeader>
+					<CardTitle>GitHub Rate Limits</CardTitle>
+					<CardDescription>
+						Remaining budget per installation and user token. Background sync
+						waits for the reset once a budget is reserved.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{snapshot.rateLimits.length === 0 ? (
+						<p className="text-muted-foreground text-sm">
+							No rate-limit data recorded yet.
+						</p>
+					) : null}
+					<ul className="space-y-2">
+						{snapshot.rateLimits.map((entry) => (
+							<li
+								key={`${entry.identity}:${entry.resource}`}
+								className="flex items-center justify-between gap-4 rounded-md border border-border/60 p-2"
+							>
+								<div className="min-w-0">
+									<p className="truncate font-mono text-xs">{entry.label}</p>
+									<p className="text-muted-foreground text-xs">
+										{entry.resource} · resets {formatDateTime(entry.resetAt)}
+									</p>
+								</div>
+								<div className="flex shrink-0 items-center gap-2">
+									<span className="text-sm tabular-nums">
+										{formatCount(entry.remaining)} / {formatCount(entry.limit)}
+									</span>
+									<Badge variant={rateLimitBadgeVariant[entry.status]}>
+										{entry.status}
+									</Badge>
+								</div>
+							</li>
+						))}
+					</ul>
+				</CardContent>
+			</Card>
+
 			<Card className="bg-card/80">
 				<CardHeader>
 					<CardTitle>Snapshot metadata</CardTitle>
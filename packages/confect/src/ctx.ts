@@ -654,8 +654,15 @@ const unwrapIfExitEncoded = <T>(result: T): Effect.Effect<T> => {
 	return Effect.succeed(result);
 };
 
+/**
+ * Only the members that don't depend on the data model are read, so a
+ * generated `ActionCtx` from a vanilla `internalAction` can be passed as is.
+ */
 export const makeActionCtx = <Tables extends GenericConfectSchema>(
-	ctx: GenericActionCtx<GenericDataModel>,
+	ctx: Pick<
+		GenericActionCtx<GenericDataModel>,
+		"runQuery" | "runMutation" | "runAction" | "scheduler" | "auth"
+	>,
 ): ConfectActionCtx<Tables> => ({
 	runQuery: <Query extends FunctionReference<"query", "public" | "internal">>(
 		query: Query,
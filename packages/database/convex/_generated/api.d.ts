@@ -21,17 +21,21 @@ import type * as rpc_bootstrapWorkflow from "../rpc/bootstrapWorkflow.js";
 import type * as rpc_bootstrapWrite from "../rpc/bootstrapWrite.js";
 import type * as rpc_codeBrowse from "../rpc/codeBrowse.js";
 import type * as rpc_githubActions from "../rpc/githubActions.js";
+import type * as rpc_githubHttpCache from "../rpc/githubHttpCache.js";
+import type * as rpc_githubRateLimits from "../rpc/githubRateLimits.js";
 import type * as rpc_githubWrite from "../rpc/githubWrite.js";
 import type * as rpc_issueTemplates from "../rpc/issueTemplates.js";
 import type * as rpc_moduleMiddlewares from "../rpc/moduleMiddlewares.js";
 import type * as rpc_notifications from "../rpc/notifications.js";
 import type * as rpc_onDemandSync from "../rpc/onDemandSync.js";
+import type * as rpc_outboundIntegrations from "../rpc/outboundIntegrations.js";
 import type * as rpc_projectionQueries from "../rpc/projectionQueries.js";
 import type * as rpc_replayReconcile from "../rpc/replayReconcile.js";
 import type * as rpc_repoBootstrap from "../rpc/repoBootstrap.js";
 import type * as rpc_repoBootstrapImpl from "../rpc/repoBootstrapImpl.js";
 import type * as rpc_repoConnect from "../rpc/repoConnect.js";
 import type * as rpc_repoOnboard from "../rpc/repoOnboard.js";
+import type * as rpc_savedViews from "../rpc/savedViews.js";
 import type * as rpc_security from "../rpc/security.js";
 import type * as rpc_telemetry from "../rpc/telemetry.js";
 import type * as rpc_webhookIngestion from "../rpc/webhookIngestion.js";
@@ -70,17 +74,21 @@ declare const fullApi: ApiFromModules<{
   "rpc/bootstrapWrite": typeof rpc_bootstrapWrite;
   "rpc/codeBrowse": typeof rpc_codeBrowse;
   "rpc/githubActions": typeof rpc_githubActions;
+  "rpc/githubHttpCache": typeof rpc_githubHttpCache;
+  "rpc/githubRateLimits": typeof rpc_githubRateLimits;
   "rpc/githubWrite": typeof rpc_githubWrite;
   "rpc/issueTemplates": typeof rpc_issueTemplates;
   "rpc/moduleMiddlewares": typeof rpc_moduleMiddlewares;
   "rpc/notifications": typeof rpc_notifications;
   "rpc/onDemandSync": typeof rpc_onDemandSync;
+  "rpc/outboundIntegrations": typeof rpc_outboundIntegrations;
   "rpc/projectionQueries": typeof rpc_projectionQueries;
   "rpc/replayReconcile": typeof rpc_replayReconcile;
   "rpc/repoBootstrap": typeof rpc_repoBootstrap;
   "rpc/repoBootstrapImpl": typeof rpc_repoBootstrapImpl;
   "rpc/repoConnect": typeof rpc_repoConnect;
   "rpc/repoOnboard": typeof rpc_repoOnboard;
+  "rpc/savedViews": typeof rpc_savedViews;
   "rpc/security": typeof rpc_security;
   "rpc/telemetry": typeof rpc_telemetry;
   "rpc/webhookIngestion": typeof rpc_webhookIngestion;
@@ -70,4 +70,30 @@ crons.interval(
 	{ limit: 20 },
 );
 
+// Poll GitHub notifications for users whose next poll is due. Each user's
+// own schedule (X-Poll-Interval, idle backoff) decides who is due.
+crons.interval(
+	"poll github notifications",
+	{ minutes: 1 },
+	internal.rpc.notifications.pollDueNotifications,
+	{},
+);
+
+// Drop conditional-request cache entries nobody has asked for in a week.
+crons.interval(
+	"prune github http cache",
+	{ hours: 6 },
+	internal.rpc.githubHttpCache.pruneHttpCache,
+	{},
+);
+
+// Send queued outbound integration deliveries, including retries whose
+// backoff has elapsed.
+crons.interval(
+	"deliver outbound integration events",
+	{ seconds: 10 },
+	internal.rpc.outboundIntegrations.deliverDueOutbound,
+	{},
+);
+
 export default crons;
@@ -7,13 +7,19 @@ import {
 	ConfectQueryCtx,
 	confectSchema,
 } from "../confect";
+import { BootstrapStrategySchema } from "../schema";
 import {
 	checkRunsByRepo,
 	issuesByRepo,
 	prsByRepo,
 	webhooksByState,
 } from "../shared/aggregates";
+import {
+	installationTokenIdentity,
+	rateLimitDeferralMs,
+} from "../shared/githubApi";
 import { getAppJwt, getInstallationToken } from "../shared/githubApp";
+import { summarizeCacheStats } from "../shared/githubHttpCache";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 import {
 	AdminTokenMiddleware,
@@ -74,6 +80,11 @@ const syncJobStatusDef = factory
 				lastError: Schema.NullOr(Schema.String),
 				jobType: Schema.String,
 				triggerReason: Schema.String,
+				bootstrapStrategy: Schema.NullOr(BootstrapStrategySchema),
+				/** GitHub requests the last bootstrap run made */
+				githubRequestCount: Schema.NullOr(Schema.Number),
+				/** What the same run would have cost over REST (GraphQL runs only) */
+				restRequestEstimate: Schema.NullOr(Schema.Number),
 			}),
 		),
 	})
@@ -82,7 +93,7 @@ const syncJobStatusDef = factory
 const listDeadLettersDef = factory.internalQuery({
 	payload: {
 		source: Schema.optionalWith(
-			Schema.Literal("webhook", "bootstrap", "replay"),
+			Schema.Literal("webhook", "bootstrap", "replay", "outbound"),
 			{ default: () => "bootstrap" as const },
 		),
 		limit: Schema.optionalWith(Schema.Number, { default: () => 50 }),
@@ -326,6 +337,9 @@ syncJobStatusDef.implement((_args) =>
 			lastError: j.lastError,
 			jobType: j.jobType,
 			triggerReason: j.triggerReason,
+			bootstrapStrategy: j.bootstrapStrategy ?? null,
+			githubRequestCount: j.githubRequestCount ?? null,
+			restRequestEstimate: j.restRequestEstimate ?? null,
 		}));
 	}),
 );
@@ -555,6 +569,40 @@ patchRepoConnectedUserDef.implement((args) =>
 	}),
 );
 
+/**
+ * Choose how the repo's next bootstrap fetches pull requests. "graphql"
+ * pulls reviews, labels, assignees and check runs in the same paginated
+ * query; "rest" (the default) walks the REST endpoints.
+ */
+const setBootstrapStrategyDef = factory.internalMutation({
+	payload: {
+		githubRepoId: Schema.Number,
+		strategy: BootstrapStrategySchema,
+	},
+	success: Schema.Boolean,
+});
+
+setBootstrapStrategyDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", args.githubRepoId),
+			)
+			.first();
+
+		if (Option.isNone(repo)) {
+			return false;
+		}
+
+		yield* ctx.db.patch(repo.value._id, {
+			bootstrapStrategy: args.strategy,
+		});
+		return true;
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Stuck bootstrap detection and recovery
 // ---------------------------------------------------------------------------
@@ -1455,6 +1503,22 @@ const DashboardDeadLetter = Schema.Struct({
 	source: Schema.String,
 });
 
+const DashboardRateLimit = Schema.Struct({
+	identity: Schema.String,
+	/** Installation account login, or the identity itself for user tokens */
+	label: Schema.String,
+	resource: Schema.String,
+	limit: Schema.Number,
+	remaining: Schema.Number,
+	resetAt: Schema.Number,
+	/** "reserved" once background work is deferred to keep interactive headroom */
+	status: Schema.Literal("ok", "reserved", "exhausted"),
+	updatedAt: Schema.Number,
+});
+
+const DASHBOARD_RATE_LIMIT_LIMIT = 20;
+const DASHBOARD_CACHE_IDENTITY_LIMIT = 1000;
+
 const dashboardSnapshotDef = factory
 	.query({
 		success: Schema.Struct({
@@ -1486,6 +1550,14 @@ const dashboardSnapshotDef = factory
 					accountLogin: Schema.String,
 				}),
 			),
+			rateLimits: Schema.Array(DashboardRateLimit),
+			httpCache: Schema.Struct({
+				entries: Schema.Number,
+				hits: Schema.Number,
+				misses: Schema.Number,
+				/** hits / (hits + misses), or 0 before any traffic */
+				hitRate: Schema.Number,
+			}),
 		}),
 	})
 	.middleware(RequireAdminRoleMiddleware);
@@ -1561,6 +1633,39 @@ dashboardSnapshotDef.implement(() =>
 			.order("desc")
 			.take(10);
 
+		const loginByIdentity = new Map(
+			installations.map((installation) => [
+				installationTokenIdentity(installation.installationId),
+				installation.accountLogin,
+			]),
+		);
+		const rateLimitEntries = yield* ctx.db
+			.query("github_rate_limits")
+			.withIndex("by_updatedAt")
+			.order("desc")
+			.take(DASHBOARD_RATE_LIMIT_LIMIT);
+		const rateLimits = rateLimitEntries.map((entry) => ({
+			identity: entry.identity,
+			label: loginByIdentity.get(entry.identity) ?? entry.identity,
+			resource: entry.resource,
+			limit: entry.limit,
+			remaining: entry.remaining,
+			resetAt: entry.resetAt,
+			status:
+				rateLimitDeferralMs(entry, "interactive", now) > 0
+					? ("exhausted" as const)
+					: rateLimitDeferralMs(entry, "background", now) > 0
+						? ("reserved" as const)
+						: ("ok" as const),
+			updatedAt: entry.updatedAt,
+		}));
+
+		const cacheStats = yield* ctx.db
+			.query("github_http_cache_stats")
+			.withIndex("by_updatedAt")
+			.order("desc")
+			.take(DASHBOARD_CACHE_IDENTITY_LIMIT);
+
 		return {
 			viewer,
 			generatedAt: now,
@@ -1592,6 +1697,8 @@ dashboardSnapshotDef.implement(() =>
 				})),
 			},
 			installations,
+			rateLimits,
+			httpCache: summarizeCacheStats(cacheStats),
 		};
 	}),
 );
@@ -1609,6 +1716,7 @@ const adminModule = makeRpcModule(
 		queueHealth: queueHealthDef,
 		systemStatus: systemStatusDef,
 		patchRepoConnectedUser: patchRepoConnectedUserDef,
+		setBootstrapStrategy: setBootstrapStrategyDef,
 		listStuckBootstraps: listStuckBootstrapsDef,
 		restartStuckBootstraps: restartStuckBootstrapsDef,
 		listDeadLetters: listDeadLettersDef,
@@ -1632,6 +1740,7 @@ export const {
 	queueHealth,
 	systemStatus,
 	patchRepoConnectedUser,
+	setBootstrapStrategy,
 	listStuckBootstraps,
 	restartStuckBootstraps,
 	listDeadLetters,
@@ -18,25 +18,441 @@
  */
 
 import * as HttpClientRequest from "@effect/platform/HttpClientRequest";
+import * as HttpClientResponse from "@effect/platform/HttpClientResponse";
+import { makeActionCtx } from "@packages/confect/ctx";
 import { v } from "convex/values";
-import { Effect } from "effect";
+import { Effect, Schema } from "effect";
 import { internal } from "../_generated/api";
 import type { ActionCtx } from "../_generated/server";
 import { internalAction } from "../_generated/server";
+import { type CheckRunInput, parseCheckRun } from "../shared/checks";
 import { toOpenClosedState } from "../shared/coerce";
 import {
 	Issue,
+	Label,
+	NullableMilestone,
 	PullRequestSimple,
-	type SimpleUser,
+	SimpleUser,
 } from "../shared/generated_github_client";
-import { fetchArrayLenient, GitHubApiClient } from "../shared/githubApi";
+import {
+	fetchArrayLenient,
+	GitHubApiClient,
+	type GitHubClientOptions,
+	type IGitHubApiClient,
+	installationTokenIdentity,
+} from "../shared/githubApi";
+import { makeGitHubResponseCache } from "../shared/githubHttpCache";
+import { makeGitHubRateLimitLedger } from "../shared/githubRateLimit";
 import { resolveRepoToken } from "../shared/githubToken";
+import { parseReactionSummary } from "../shared/reactions";
 import { parseIsoToMsOrNull as isoToMs } from "../shared/time";
 
 // ---------------------------------------------------------------------------
 // GitHub response parsing helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * The generated client doesn't cover the releases/tags endpoints, so these
+ * schemas decode only the fields we mirror.
+ */
+const ReleaseResponse = Schema.Struct({
+	id: Schema.Number,
+	tag_name: Schema.String,
+	target_commitish: Schema.String,
+	name: Schema.NullOr(Schema.String),
+	body: Schema.optional(Schema.NullOr(Schema.String)),
+	draft: Schema.Boolean,
+	prerelease: Schema.Boolean,
+	author: Schema.NullOr(SimpleUser),
+	html_url: Schema.String,
+	created_at: Schema.String,
+	published_at: Schema.NullOr(Schema.String),
+});
+
+const TagResponse = Schema.Struct({
+	name: Schema.String,
+	commit: Schema.Struct({ sha: Schema.String }),
+});
+
+/**
+ * Fetch every page of a REST list endpoint, stopping at the first short
+ * page. Skipped items keep the page they came from for dead-lettering.
+ */
+const fetchAllPagesLenient = <A, I>(schema: Schema.Schema<A, I>, url: string) =>
+	Effect.gen(function* () {
+		const items: Array<A> = [];
+		const skipped: Array<{
+			page: number;
+			index: number;
+			error: string;
+			raw: string;
+		}> = [];
+		for (let page = 1; ; page++) {
+			const result = yield* fetchArrayLenient(
+				schema,
+				HttpClientRequest.get(url).pipe(
+					HttpClientRequest.setUrlParams({ per_page: 100, page }),
+				),
+			);
+			items.push(...result.items);
+			skipped.push(...result.skipped.map((item) => ({ ...item, page })));
+			if (result.items.length + result.skipped.length < 100) break;
+		}
+		return { items, skipped };
+	});
+
+/**
+ * GraphQL authors are `Actor`s, so the numeric ID comes from whichever
+ * concrete type the actor turns out to be.
+ */
+const GraphQlActor = Schema.NullOr(
+	Schema.Struct({
+		__typename: Schema.String,
+		login: Schema.String,
+		avatarUrl: Schema.String,
+		databaseId: Schema.optional(Schema.NullOr(Schema.Number)),
+	}),
+);
+
+/** Discussions are only exposed through GraphQL. */
+const DiscussionReplyNode = Schema.Struct({
+	databaseId: Schema.NullOr(Schema.Number),
+	body: Schema.String,
+	upvoteCount: Schema.Number,
+	createdAt: Schema.String,
+	updatedAt: Schema.String,
+	author: GraphQlActor,
+});
+
+const DiscussionCommentNode = Schema.Struct({
+	...DiscussionReplyNode.fields,
+	replies: Schema.Struct({ nodes: Schema.Array(DiscussionReplyNode) }),
+});
+
+const DiscussionNode = Schema.Struct({
+	databaseId: Schema.Number,
+	number: Schema.Number,
+	title: Schema.String,
+	body: Schema.String,
+	url: Schema.String,
+	closed: Schema.Boolean,
+	closedAt: Schema.NullOr(Schema.String),
+	stateReason: Schema.NullOr(Schema.String),
+	locked: Schema.Boolean,
+	upvoteCount: Schema.Number,
+	createdAt: Schema.String,
+	updatedAt: Schema.String,
+	answerChosenAt: Schema.NullOr(Schema.String),
+	author: GraphQlActor,
+	category: Schema.Struct({
+		name: Schema.String,
+		isAnswerable: Schema.Boolean,
+	}),
+	answer: Schema.NullOr(
+		Schema.Struct({ databaseId: Schema.NullOr(Schema.Number) }),
+	),
+	comments: Schema.Struct({
+		totalCount: Schema.Number,
+		nodes: Schema.Array(DiscussionCommentNode),
+	}),
+});
+
+const DiscussionsGraphQlResponse = Schema.Struct({
+	data: Schema.optional(
+		Schema.NullOr(
+			Schema.Struct({
+				repository: Schema.NullOr(
+					Schema.Struct({
+						hasDiscussionsEnabled: Schema.Boolean,
+						discussions: Schema.Struct({
+							pageInfo: Schema.Struct({
+								hasNextPage: Schema.Boolean,
+								endCursor: Schema.NullOr(Schema.String),
+							}),
+							nodes: Schema.Array(DiscussionNode),
+						}),
+					}),
+				),
+			}),
+		),
+	),
+	errors: Schema.optional(
+		Schema.Array(Schema.Struct({ message: Schema.String })),
+	),
+});
+
+const GRAPHQL_ACTOR_FIELDS = `
+  __typename
+  login
+  avatarUrl
+  ... on User { databaseId }
+  ... on Bot { databaseId }
+  ... on Organization { databaseId }
+  ... on Mannequin { databaseId }
+`;
+
+const DISCUSSION_COMMENT_FIELDS = `
+  databaseId
+  body
+  upvoteCount
+  createdAt
+  updatedAt
+  author { ${GRAPHQL_ACTOR_FIELDS} }
+`;
+
+const LIST_DISCUSSIONS_QUERY = `
+query ListDiscussions($owner: String!, $name: String!, $after: String) {
+  repository(owner: $owner, name: $name) {
+    hasDiscussionsEnabled
+    discussions(first: 25, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        databaseId
+        number
+        title
+        body
+        url
+        closed
+        closedAt
+        stateReason
+        locked
+        upvoteCount
+        createdAt
+        updatedAt
+        answerChosenAt
+        author { ${GRAPHQL_ACTOR_FIELDS} }
+        category {
+          name
+          isAnswerable
+        }
+        answer { databaseId }
+        comments(first: 50) {
+          totalCount
+          nodes {
+            ${DISCUSSION_COMMENT_FIELDS}
+            replies(first: 20) {
+              nodes { ${DISCUSSION_COMMENT_FIELDS} }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+`;
+
+/**
+ * GraphQL bootstrap for pull requests: one query returns what the REST path
+ * needs a list page, a reviews call per PR and a check-runs call per head
+ * SHA for. Only check runs are taken from the status rollup — legacy commit
+ * statuses have no numeric ID to key them on and arrive via webhooks.
+ */
+const PullRequestCheckRunNode = Schema.Struct({
+	__typename: Schema.Literal("CheckRun"),
+	databaseId: Schema.NullOr(Schema.Number),
+	name: Schema.String,
+	status: Schema.String,
+	conclusion: Schema.NullOr(Schema.String),
+	startedAt: Schema.NullOr(Schema.String),
+	completedAt: Schema.NullOr(Schema.String),
+	detailsUrl: Schema.NullOr(Schema.String),
+	url: Schema.String,
+	checkSuite: Schema.NullOr(
+		Schema.Struct({
+			databaseId: Schema.NullOr(Schema.Number),
+			app: Schema.NullOr(
+				Schema.Struct({
+					slug: Schema.String,
+					name: Schema.String,
+					logoUrl: Schema.NullOr(Schema.String),
+				}),
+			),
+		}),
+	),
+});
+
+const PullRequestRollupContext = Schema.Union(
+	PullRequestCheckRunNode,
+	Schema.Struct({ __typename: Schema.Literal("StatusContext") }),
+);
+
+const PullRequestNode = Schema.Struct({
+	databaseId: Schema.Number,
+	number: Schema.Number,
+	state: Schema.Literal("OPEN", "CLOSED", "MERGED"),
+	isDraft: Schema.Boolean,
+	locked: Schema.Boolean,
+	title: Schema.String,
+	body: Schema.String,
+	baseRefName: Schema.String,
+	headRefName: Schema.String,
+	headRefOid: Schema.String,
+	mergedAt: Schema.NullOr(Schema.String),
+	closedAt: Schema.NullOr(Schema.String),
+	updatedAt: Schema.String,
+	author: GraphQlActor,
+	assignees: Schema.Struct({ nodes: Schema.Array(GraphQlActor) }),
+	labels: Schema.NullOr(
+		Schema.Struct({
+			nodes: Schema.Array(Schema.Struct({ name: Schema.String })),
+		}),
+	),
+	reviewRequests: Schema.NullOr(
+		Schema.Struct({
+			nodes: Schema.Array(
+				Schema.Struct({
+					requestedReviewer: Schema.NullOr(
+						Schema.Struct({
+							__typename: Schema.String,
+							login: Schema.optional(Schema.String),
+							avatarUrl: Schema.optional(Schema.String),
+							databaseId: Schema.optional(Schema.NullOr(Schema.Number)),
+						}),
+					),
+				}),
+			),
+		}),
+	),
+	reviews: Schema.NullOr(
+		Schema.Struct({
+			nodes: Schema.Array(
+				Schema.Struct({
+					databaseId: Schema.NullOr(Schema.Number),
+					state: Schema.String,
+					submittedAt: Schema.NullOr(Schema.String),
+					commit: Schema.NullOr(Schema.Struct({ oid: Schema.String })),
+					author: GraphQlActor,
+				}),
+			),
+		}),
+	),
+	commits: Schema.Struct({
+		nodes: Schema.Array(
+			Schema.Struct({
+				commit: Schema.Struct({
+					statusCheckRollup: Schema.NullOr(
+						Schema.Struct({
+							contexts: Schema.Struct({
+								nodes: Schema.Array(PullRequestRollupContext),
+							}),
+						}),
+					),
+				}),
+			}),
+		),
+	}),
+});
+
+const PullRequestsGraphQlResponse = Schema.Struct({
+	data: Schema.optional(
+		Schema.NullOr(
+			Schema.Struct({
+				repository: Schema.NullOr(
+					Schema.Struct({
+						pullRequests: Schema.Struct({
+							pageInfo: Schema.Struct({
+								hasNextPage: Schema.Boolean,
+								endCursor: Schema.NullOr(Schema.String),
+							}),
+							nodes: Schema.Array(PullRequestNode),
+						}),
+					}),
+				),
+			}),
+		),
+	),
+	errors: Schema.optional(
+		Schema.Array(Schema.Struct({ message: Schema.String })),
+	),
+});
+
+/** 50 PRs per page keeps the nested connections well under GraphQL's node limit. */
+const GRAPHQL_PULL_REQUESTS_PER_PAGE = 50;
+
+const LIST_PULL_REQUESTS_QUERY = `
+query BootstrapPullRequests($owner: String!, $name: String!, $after: String) {
+  repository(owner: $owner, name: $name) {
+    pullRequests(first: ${GRAPHQL_PULL_REQUESTS_PER_PAGE}, after: $after, orderBy: { field: CREATED_AT, direction: DESC }) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        databaseId
+        number
+        state
+        isDraft
+        locked
+        title
+        body
+        baseRefName
+        headRefName
+        headRefOid
+        mergedAt
+        closedAt
+        updatedAt
+        author { ${GRAPHQL_ACTOR_FIELDS} }
+        assignees(first: 20) {
+          nodes { __typename login avatarUrl databaseId }
+        }
+        labels(first: 50) {
+          nodes { name }
+        }
+        reviewRequests(first: 20) {
+          nodes {
+            requestedReviewer {
+              __typename
+              ... on User { login avatarUrl databaseId }
+              ... on Bot { login avatarUrl databaseId }
+              ... on Mannequin { login avatarUrl databaseId }
+            }
+          }
+        }
+        reviews(first: 50) {
+          nodes {
+            databaseId
+            state
+            submittedAt
+            commit { oid }
+            author { ${GRAPHQL_ACTOR_FIELDS} }
+          }
+        }
+        commits(last: 1) {
+          nodes {
+            commit {
+              statusCheckRollup {
+                contexts(first: 50) {
+                  nodes {
+                    __typename
+                    ... on CheckRun {
+                      databaseId
+                      name
+                      status
+                      conclusion
+                      startedAt
+                      completedAt
+                      detailsUrl
+                      url
+                      checkSuite {
+                        databaseId
+                        app { slug name logoUrl }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+`;
+
 // ---------------------------------------------------------------------------
 // Shared user collector
 // ---------------------------------------------------------------------------
@@ -79,7 +495,18 @@ const createUserCollector = () => {
 		return id;
 	};
 
-	return { collectUser, getUsers: () => [...userMap.values()] };
+	const collectActor = (actor: typeof GraphQlActor.Type) =>
+		actor?.databaseId == null
+			? null
+			: collectUser({
+					id: actor.databaseId,
+					login: actor.login,
+					avatar_url: actor.avatarUrl,
+					site_admin: false,
+					type: actor.__typename,
+				});
+
+	return { collectUser, collectActor, getUsers: () => [...userMap.values()] };
 };
 
 // ---------------------------------------------------------------------------
@@ -97,6 +524,23 @@ type TokenArgs = {
 	installationId: number;
 };
 
+/**
+ * Client options for bootstrap fetches. Reconciles re-walk the same pages,
+ * and unchanged ones come back 304 from the cache instead of spending
+ * quota. The ledger feeds the budget check the workflow runs between chunks.
+ */
+const bootstrapClientOptions = (
+	ctx: ActionCtx,
+	tokenArgs: TokenArgs,
+): GitHubClientOptions => {
+	const confectCtx = makeActionCtx(ctx);
+	const identity = installationTokenIdentity(tokenArgs.installationId);
+	return {
+		cache: makeGitHubResponseCache(confectCtx, identity),
+		rateLimits: makeGitHubRateLimitLedger(confectCtx, identity),
+	};
+};
+
 /**
  * Resolve the best available token, then run an Effect that requires
  * `GitHubApiClient` in its environment.
@@ -113,7 +557,13 @@ const runWithGitHub = <A>(
 				tokenArgs.connectedByUserId,
 				tokenArgs.installationId,
 			);
-			return yield* Effect.provide(effect, GitHubApiClient.fromToken(token));
+			return yield* Effect.provide(
+				effect,
+				GitHubApiClient.fromToken(
+					token,
+					bootstrapClientOptions(ctx, tokenArgs),
+				),
+			);
 		}).pipe(Effect.orDie),
 	);
 
@@ -132,7 +582,10 @@ const resolveGitHubClient = (ctx: ActionCtx, tokenArgs: TokenArgs) =>
 			);
 			return yield* Effect.provide(
 				GitHubApiClient,
-				GitHubApiClient.fromToken(token),
+				GitHubApiClient.fromToken(
+					token,
+					bootstrapClientOptions(ctx, tokenArgs),
+				),
 			);
 		}).pipe(Effect.orDie),
 	);
@@ -190,6 +643,31 @@ const splitFullName = (fullName: string): [string, string] => {
 	return [fullName.slice(0, idx), fullName.slice(idx + 1)];
 };
 
+/**
+ * POST a GraphQL query and decode the response body. Non-2xx responses and
+ * decode failures die so the workflow's retry policy takes over.
+ */
+const executeGraphQl = <A, I>(
+	gh: IGitHubApiClient,
+	schema: Schema.Schema<A, I>,
+	query: string,
+	variables: Record<string, unknown>,
+): Effect.Effect<A> =>
+	Effect.gen(function* () {
+		const res = yield* gh.httpClient.execute(
+			HttpClientRequest.post("/graphql").pipe(
+				HttpClientRequest.bodyUnsafeJson({ query, variables }),
+			),
+		);
+		if (res.status < 200 || res.status >= 300) {
+			const errorBody = yield* Effect.orElseSucceed(res.text, () => "");
+			return yield* Effect.fail(
+				new Error(`GitHub API returned ${res.status}: ${errorBody}`),
+			);
+		}
+		return yield* HttpClientResponse.schemaBodyJson(schema)(res);
+	}).pipe(Effect.orDie);
+
 // ---------------------------------------------------------------------------
 // Step 1: Fetch branches
 // ---------------------------------------------------------------------------
@@ -247,6 +725,8 @@ export const fetchPullRequestsChunk = internalAction({
 		count: v.number(),
 		/** The next page number as string, or null if all pages exhausted. */
 		nextCursor: v.union(v.string(), v.null()),
+		/** GitHub requests made by this chunk */
+		requests: v.number(),
 	}),
 	handler: async (
 		ctx,
@@ -254,6 +734,7 @@ export const fetchPullRequestsChunk = internalAction({
 	): Promise<{
 		count: number;
 		nextCursor: string | null;
+		requests: number;
 	}> => {
 		const { collectUser, getUsers } = createUserCollector();
 		const [owner, repo] = splitFullName(args.fullName);
@@ -303,6 +784,7 @@ export const fetchPullRequestsChunk = internalAction({
 					number: pr.number,
 					state: toOpenClosedState(pr.state),
 					draft: pr.draft ?? false,
+					locked: pr.locked,
 					title: pr.title,
 					body: pr.body,
 					authorUserId,
@@ -347,7 +829,200 @@ export const fetchPullRequestsChunk = internalAction({
 		// Write collected users (accumulated across pages in this chunk)
 		await writeUsers(ctx, getUsers());
 
-		return { count: totalCount, nextCursor };
+		return { count: totalCount, nextCursor, requests: pagesProcessed };
+	},
+});
+
+// ---------------------------------------------------------------------------
+// Step 2 (GraphQL): Fetch pull requests CHUNK with reviews, labels,
+// assignees, review requests and check runs in one paginated query
+// ---------------------------------------------------------------------------
+
+export const fetchPullRequestsGraphQlChunk = internalAction({
+	args: {
+		repositoryId: v.number(),
+		fullName: v.string(),
+		/** GraphQL `endCursor` of the previous chunk, or null to start. */
+		cursor: v.union(v.string(), v.null()),
+		...tokenArgs,
+	},
+	returns: v.object({
+		count: v.number(),
+		nextCursor: v.union(v.string(), v.null()),
+		/** GitHub requests made by this chunk */
+		requests: v.number(),
+		/** REST requests the same data would have taken */
+		restRequestEstimate: v.number(),
+	}),
+	handler: async (
+		ctx,
+		args,
+	): Promise<{
+		count: number;
+		nextCursor: string | null;
+		requests: number;
+		restRequestEstimate: number;
+	}> => {
+		const { collectActor, getUsers } = createUserCollector();
+		const [owner, repo] = splitFullName(args.fullName);
+
+		const gh = await resolveGitHubClient(ctx, toTokenArgs(args));
+
+		let cursor = args.cursor;
+		let pagesProcessed = 0;
+		let nextCursor: string | null = null;
+		let totalCount = 0;
+		let restRequestEstimate = 0;
+
+		while (pagesProcessed < PAGES_PER_CHUNK) {
+			const response: typeof PullRequestsGraphQlResponse.Type =
+				await Effect.runPromise(
+					executeGraphQl(
+						gh,
+						PullRequestsGraphQlResponse,
+						LIST_PULL_REQUESTS_QUERY,
+						{ owner, name: repo, after: cursor },
+					),
+				);
+			pagesProcessed++;
+
+			const firstError = response.errors?.[0];
+			if (firstError !== undefined) {
+				throw new Error(
+					`[fetchPullRequestsGraphQlChunk] ${args.fullName}: ${firstError.message}`,
+				);
+			}
+			const connection = response.data?.repository?.pullRequests ?? null;
+			if (connection === null) {
+				nextCursor = null;
+				break;
+			}
+
+			const nodes = connection.nodes;
+			const pullRequests = nodes.map((pr) => ({
+				githubPrId: pr.databaseId,
+				number: pr.number,
+				state: pr.state === "OPEN" ? ("open" as const) : ("closed" as const),
+				draft: pr.isDraft,
+				locked: pr.locked,
+				title: pr.title,
+				body: pr.body === "" ? null : pr.body,
+				authorUserId: collectActor(pr.author),
+				assigneeUserIds: pr.assignees.nodes.flatMap((assignee) => {
+					const id = collectActor(assignee);
+					return id === null ? [] : [id];
+				}),
+				requestedReviewerUserIds: (pr.reviewRequests?.nodes ?? []).flatMap(
+					({ requestedReviewer: reviewer }) => {
+						if (reviewer?.login === undefined) return [];
+						const id = collectActor({
+							__typename: reviewer.__typename,
+							login: reviewer.login,
+							avatarUrl: reviewer.avatarUrl ?? "",
+							databaseId: reviewer.databaseId,
+						});
+						return id === null ? [] : [id];
+					},
+				),
+				labelNames: (pr.labels?.nodes ?? []).map((label) => label.name),
+				baseRefName: pr.baseRefName,
+				headRefName: pr.headRefName,
+				headSha: pr.headRefOid,
+				mergeableState: null,
+				mergedAt: isoToMs(pr.mergedAt),
+				closedAt: isoToMs(pr.closedAt),
+				githubUpdatedAt: isoToMs(pr.updatedAt) ?? Date.now(),
+			}));
+
+			const reviews = nodes.flatMap((pr) =>
+				(pr.reviews?.nodes ?? []).flatMap((review) =>
+					review.databaseId === null
+						? []
+						: [
+								{
+									pullRequestNumber: pr.number,
+									githubReviewId: review.databaseId,
+									authorUserId: collectActor(review.author),
+									state: review.state,
+									submittedAt: isoToMs(review.submittedAt),
+									commitSha: review.commit?.oid ?? null,
+								},
+							],
+				),
+			);
+
+			const checkRuns: Array<CheckRunInput> = nodes.flatMap((pr) =>
+				pr.commits.nodes.flatMap(({ commit }) =>
+					(commit.statusCheckRollup?.contexts.nodes ?? []).flatMap((context) =>
+						context.__typename !== "CheckRun" || context.databaseId === null
+							? []
+							: [
+									{
+										githubCheckRunId: context.databaseId,
+										name: context.name,
+										headSha: pr.headRefOid,
+										status: context.status.toLowerCase(),
+										conclusion: context.conclusion?.toLowerCase() ?? null,
+										startedAt: isoToMs(context.startedAt),
+										completedAt: isoToMs(context.completedAt),
+										checkSuiteId: context.checkSuite?.databaseId ?? null,
+										appSlug: context.checkSuite?.app?.slug ?? null,
+										appName: context.checkSuite?.app?.name ?? null,
+										appAvatarUrl: context.checkSuite?.app?.logoUrl ?? null,
+										detailsUrl: context.detailsUrl,
+										htmlUrl: context.url,
+									},
+								],
+					),
+				),
+			);
+
+			for (let i = 0; i < pullRequests.length; i += 50) {
+				await ctx.runMutation(internal.rpc.bootstrapWrite.upsertPullRequests, {
+					repositoryId: args.repositoryId,
+					pullRequests: pullRequests.slice(i, i + 50),
+					skipProjections: true,
+				});
+			}
+			for (let i = 0; i < reviews.length; i += 50) {
+				await ctx.runMutation(
+					internal.rpc.bootstrapWrite.upsertPullRequestReviews,
+					{
+						repositoryId: args.repositoryId,
+						reviews: reviews.slice(i, i + 50),
+					},
+				);
+			}
+			for (let i = 0; i < checkRuns.length; i += 50) {
+				await ctx.runMutation(internal.rpc.bootstrapWrite.upsertCheckRuns, {
+					repositoryId: args.repositoryId,
+					checkRuns: checkRuns.slice(i, i + 50),
+				});
+			}
+
+			// REST: a share of a 100-item list page, a reviews call per PR and a
+			// check-runs call per open PR head SHA.
+			const openCount = pullRequests.filter((pr) => pr.state === "open").length;
+			restRequestEstimate += nodes.length / 100 + nodes.length + openCount;
+			totalCount += nodes.length;
+
+			const { hasNextPage, endCursor } = connection.pageInfo;
+			if (!hasNextPage || endCursor === null) {
+				nextCursor = null;
+				break;
+			}
+			cursor = endCursor;
+			nextCursor = endCursor;
+		}
+
+		await writeUsers(ctx, getUsers());
+
+		return {
+			count: totalCount,
+			nextCursor,
+			requests: pagesProcessed,
+			restRequestEstimate: Math.ceil(restRequestEstimate),
+		};
 	},
 });
 
@@ -431,6 +1106,7 @@ export const fetchIssuesChunk = internalAction({
 						githubIssueId: issue.id,
 						number: issue.number,
 						state: toOpenClosedState(issue.state),
+						locked: issue.locked,
 						title: issue.title,
 						body: issue.body ?? null,
 						authorUserId,
@@ -438,6 +1114,8 @@ export const fetchIssuesChunk = internalAction({
 						labelNames: labels,
 						commentCount: issue.comments,
 						isPullRequest: false,
+						milestoneNumber: issue.milestone?.number ?? null,
+						reactions: parseReactionSummary(issue.reactions),
 						closedAt: isoToMs(issue.closed_at),
 						githubUpdatedAt: isoToMs(issue.updated_at) ?? Date.now(),
 					};
@@ -474,6 +1152,155 @@ export const fetchIssuesChunk = internalAction({
 	},
 });
 
+// ---------------------------------------------------------------------------
+// Step 3b: Fetch milestones (all states, single pass — repos rarely have
+// more than a few pages of milestones)
+// ---------------------------------------------------------------------------
+
+export const fetchMilestones = internalAction({
+	args: {
+		repositoryId: v.number(),
+		fullName: v.string(),
+		...tokenArgs,
+	},
+	returns: v.object({ count: v.number() }),
+	handler: async (ctx, args): Promise<{ count: number }> => {
+		const { collectUser, getUsers } = createUserCollector();
+		const [owner, repo] = splitFullName(args.fullName);
+		let totalCount = 0;
+
+		const gh = await resolveGitHubClient(ctx, toTokenArgs(args));
+
+		let currentPage = 1;
+		// eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+		while (true) {
+			const { items: pageItems, skipped } = await Effect.runPromise(
+				fetchArrayLenient(
+					NullableMilestone,
+					HttpClientRequest.get(`/repos/${owner}/${repo}/milestones`).pipe(
+						HttpClientRequest.setUrlParams({
+							state: "all",
+							per_page: 100,
+							page: currentPage,
+						}),
+					),
+				).pipe(Effect.provideService(GitHubApiClient, gh), Effect.orDie),
+			);
+
+			if (skipped.length > 0) {
+				console.warn(
+					`[fetchMilestones] ${args.fullName} page ${currentPage}: skipped ${skipped.length} items due to parse errors`,
+				);
+				await ctx.runMutation(internal.rpc.bootstrapWrite.deadLetterBatch, {
+					items: skipped.map((item) => ({
+						deliveryId: `bootstrap-milestone:${args.repositoryId}:page${currentPage}:idx${item.index}`,
+						reason: item.error,
+						payloadJson: item.raw,
+					})),
+				});
+			}
+
+			const milestones = pageItems.map((m) => ({
+				githubMilestoneId: m.id,
+				number: m.number,
+				title: m.title,
+				description: m.description,
+				state: m.state,
+				creatorUserId: collectUser(m.creator),
+				openIssueCount: m.open_issues,
+				closedIssueCount: m.closed_issues,
+				dueOn: isoToMs(m.due_on),
+				closedAt: isoToMs(m.closed_at),
+				githubUpdatedAt: isoToMs(m.updated_at) ?? Date.now(),
+			}));
+
+			for (let i = 0; i < milestones.length; i += 50) {
+				await ctx.runMutation(internal.rpc.bootstrapWrite.upsertMilestones, {
+					repositoryId: args.repositoryId,
+					milestones: milestones.slice(i, i + 50),
+				});
+			}
+
+			totalCount += milestones.length;
+			if (pageItems.length + skipped.length < 100) break;
+			currentPage++;
+		}
+
+		await writeUsers(ctx, getUsers());
+
+		return { count: totalCount };
+	},
+});
+
+// ---------------------------------------------------------------------------
+// Step 3c: Fetch the label catalog (including labels no issue uses yet)
+// ---------------------------------------------------------------------------
+
+export const fetchLabels = internalAction({
+	args: {
+		repositoryId: v.number(),
+		fullName: v.string(),
+		...tokenArgs,
+	},
+	returns: v.object({ count: v.number() }),
+	handler: async (ctx, args): Promise<{ count: number }> => {
+		const [owner, repo] = splitFullName(args.fullName);
+		let totalCount = 0;
+
+		const gh = await resolveGitHubClient(ctx, toTokenArgs(args));
+
+		let currentPage = 1;
+		// eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+		while (true) {
+			const { items: pageItems, skipped } = await Effect.runPromise(
+				fetchArrayLenient(
+					Label,
+					HttpClientRequest.get(`/repos/${owner}/${repo}/labels`).pipe(
+						HttpClientRequest.setUrlParams({
+							per_page: 100,
+							page: currentPage,
+						}),
+					),
+				).pipe(Effect.provideService(GitHubApiClient, gh), Effect.orDie),
+			);
+
+			if (skipped.length > 0) {
+				console.warn(
+					`[fetchLabels] ${args.fullName} page ${currentPage}: skipped ${skipped.length} items due to parse errors`,
+				);
+				await ctx.runMutation(internal.rpc.bootstrapWrite.deadLetterBatch, {
+					items: skipped.map((item) => ({
+						deliveryId: `bootstrap-label:${args.repositoryId}:page${currentPage}:idx${item.index}`,
+						reason: item.error,
+						payloadJson: item.raw,
+					})),
+				});
+			}
+
+			const labels = pageItems.map((l) => ({
+				githubLabelId: l.id,
+				name: l.name,
+				color: l.color,
+				description: l.description,
+				isDefault: l.default,
+			}));
+
+			for (let i = 0; i < labels.length; i += 50) {
+				await ctx.runMutation(internal.rpc.bootstrapWrite.upsertLabels, {
+					repositoryId: args.repositoryId,
+					labels: labels.slice(i, i + 50),
+				});
+			}
+
+			totalCount += labels.length;
+			if (pageItems.length + skipped.length < 100) break;
+			currentPage++;
+		}
+
+		return { count: totalCount };
+	},
+});
+
 // ---------------------------------------------------------------------------
 // Step 4: Fetch recent commits (first page only)
 // ---------------------------------------------------------------------------
@@ -547,6 +1374,227 @@ export const fetchCommits = internalAction({
 	},
 });
 
+// ---------------------------------------------------------------------------
+// Step 4b: Fetch releases + tags (every page of each)
+// ---------------------------------------------------------------------------
+
+export const fetchReleases = internalAction({
+	args: {
+		repositoryId: v.number(),
+		fullName: v.string(),
+		...tokenArgs,
+	},
+	returns: v.object({ count: v.number() }),
+	handler: async (ctx, args): Promise<{ count: number }> => {
+		const { collectUser, getUsers } = createUserCollector();
+		const [owner, repo] = splitFullName(args.fullName);
+
+		const gh = await resolveGitHubClient(ctx, toTokenArgs(args));
+
+		const [releaseResult, tagResult] = await Effect.runPromise(
+			Effect.all([
+				fetchAllPagesLenient(
+					ReleaseResponse,
+					`/repos/${owner}/${repo}/releases`,
+				),
+				fetchAllPagesLenient(TagResponse, `/repos/${owner}/${repo}/tags`),
+			]).pipe(Effect.provideService(GitHubApiClient, gh), Effect.orDie),
+		);
+
+		const skipped = [
+			...releaseResult.skipped.map((item) => ({
+				deliveryId: `bootstrap-release:${args.repositoryId}:page${item.page}:idx${item.index}`,
+				reason: item.error,
+				payloadJson: item.raw,
+			})),
+			...tagResult.skipped.map((item) => ({
+				deliveryId: `bootstrap-tag:${args.repositoryId}:page${item.page}:idx${item.index}`,
+				reason: item.error,
+				payloadJson: item.raw,
+			})),
+		];
+		if (skipped.length > 0) {
+			console.warn(
+				`[fetchReleases] ${args.fullName}: skipped ${skipped.length} items due to parse errors`,
+			);
+			await ctx.runMutation(internal.rpc.bootstrapWrite.deadLetterBatch, {
+				items: skipped,
+			});
+		}
+
+		const releases = releaseResult.items.map((r) => ({
+			githubReleaseId: r.id,
+			tagName: r.tag_name,
+			name: r.name,
+			body: r.body ?? null,
+			draft: r.draft,
+			prerelease: r.prerelease,
+			authorUserId: collectUser(r.author),
+			targetCommitish: r.target_commitish,
+			htmlUrl: r.html_url,
+			createdAt: isoToMs(r.created_at) ?? Date.now(),
+			publishedAt: isoToMs(r.published_at),
+		}));
+
+		for (let i = 0; i < releases.length; i += 50) {
+			await ctx.runMutation(internal.rpc.bootstrapWrite.upsertReleases, {
+				repositoryId: args.repositoryId,
+				releases: releases.slice(i, i + 50),
+			});
+		}
+
+		const tags = tagResult.items.map((t) => ({
+			name: t.name,
+			sha: t.commit.sha,
+		}));
+
+		for (let i = 0; i < tags.length; i += 50) {
+			await ctx.runMutation(internal.rpc.bootstrapWrite.upsertTags, {
+				repositoryId: args.repositoryId,
+				tags: tags.slice(i, i + 50),
+			});
+		}
+
+		await writeUsers(ctx, getUsers());
+
+		return { count: releases.length + tags.length };
+	},
+});
+
+// ---------------------------------------------------------------------------
+// Step 4c: Fetch discussions (most recently updated, via GraphQL)
+// ---------------------------------------------------------------------------
+
+/** 4 pages of 25 — older discussions arrive through webhooks once touched */
+const MAX_DISCUSSION_PAGES = 4;
+
+export const fetchDiscussions = internalAction({
+	args: {
+		repositoryId: v.number(),
+		fullName: v.string(),
+		...tokenArgs,
+	},
+	returns: v.object({ count: v.number() }),
+	handler: async (ctx, args): Promise<{ count: number }> => {
+		const { collectActor, getUsers } = createUserCollector();
+		const [owner, repo] = splitFullName(args.fullName);
+
+		const gh = await resolveGitHubClient(ctx, toTokenArgs(args));
+
+		const nodes: Array<typeof DiscussionNode.Type> = [];
+		let cursor: string | null = null;
+
+		for (let page = 0; page < MAX_DISCUSSION_PAGES; page++) {
+			const response: typeof DiscussionsGraphQlResponse.Type =
+				await Effect.runPromise(
+					executeGraphQl(
+						gh,
+						DiscussionsGraphQlResponse,
+						LIST_DISCUSSIONS_QUERY,
+						{
+							owner,
+							name: repo,
+							after: cursor,
+						},
+					),
+				);
+
+			// Installations without the Discussions permission get a GraphQL
+			// error rather than an HTTP one — skip the step instead of failing
+			// the whole bootstrap.
+			const firstError = response.errors?.[0];
+			if (firstError !== undefined) {
+				console.warn(
+					`[fetchDiscussions] ${args.fullName}: ${firstError.message}`,
+				);
+				break;
+			}
+
+			const repository = response.data?.repository ?? null;
+			if (repository === null || !repository.hasDiscussionsEnabled) break;
+
+			nodes.push(...repository.discussions.nodes);
+			const { hasNextPage, endCursor } = repository.discussions.pageInfo;
+			if (!hasNextPage || endCursor === null) break;
+			cursor = endCursor;
+		}
+
+		const discussions = nodes.map((d) => {
+			const updatedAt = isoToMs(d.updatedAt) ?? Date.now();
+			return {
+				githubDiscussionId: d.databaseId,
+				number: d.number,
+				state: d.closed ? ("closed" as const) : ("open" as const),
+				stateReason: d.stateReason?.toLowerCase() ?? null,
+				title: d.title,
+				body: d.body,
+				authorUserId: collectActor(d.author),
+				categoryName: d.category.name,
+				categoryIsAnswerable: d.category.isAnswerable,
+				answerCommentId: d.answer?.databaseId ?? null,
+				answerChosenAt: isoToMs(d.answerChosenAt),
+				locked: d.locked,
+				commentCount: d.comments.totalCount,
+				upvoteCount: d.upvoteCount,
+				htmlUrl: d.url,
+				createdAt: isoToMs(d.createdAt) ?? updatedAt,
+				closedAt: isoToMs(d.closedAt),
+				githubUpdatedAt: updatedAt,
+			};
+		});
+
+		for (let i = 0; i < discussions.length; i += 50) {
+			await ctx.runMutation(internal.rpc.bootstrapWrite.upsertDiscussions, {
+				repositoryId: args.repositoryId,
+				discussions: discussions.slice(i, i + 50),
+			});
+		}
+
+		const toComment = (
+			discussionNumber: number,
+			parentCommentId: number | null,
+			c: typeof DiscussionReplyNode.Type,
+		) =>
+			c.databaseId === null
+				? []
+				: [
+						{
+							discussionNumber,
+							githubCommentId: c.databaseId,
+							parentCommentId,
+							authorUserId: collectActor(c.author),
+							body: c.body,
+							upvoteCount: c.upvoteCount,
+							createdAt: isoToMs(c.createdAt) ?? Date.now(),
+							updatedAt: isoToMs(c.updatedAt) ?? Date.now(),
+						},
+					];
+
+		const comments = nodes.flatMap((d) =>
+			d.comments.nodes.flatMap((c) => [
+				...toComment(d.number, null, c),
+				...c.replies.nodes.flatMap((reply) =>
+					toComment(d.number, c.databaseId, reply),
+				),
+			]),
+		);
+
+		for (let i = 0; i < comments.length; i += 50) {
+			await ctx.runMutation(
+				internal.rpc.bootstrapWrite.upsertDiscussionComments,
+				{
+					repositoryId: args.repositoryId,
+					comments: comments.slice(i, i + 50),
+				},
+			);
+		}
+
+		await writeUsers(ctx, getUsers());
+
+		return { count: discussions.length };
+	},
+});
+
 // ---------------------------------------------------------------------------
 // Step 5: Fetch check runs for active PR head SHAs
 //
@@ -572,15 +1620,7 @@ export const fetchCheckRunsChunk = internalAction({
 
 		const gh = await resolveGitHubClient(ctx, toTokenArgs(args));
 
-		const allCheckRuns: Array<{
-			githubCheckRunId: number;
-			name: string;
-			headSha: string;
-			status: string;
-			conclusion: string | null;
-			startedAt: number | null;
-			completedAt: number | null;
-		}> = [];
+		const allCheckRuns: Array<CheckRunInput> = [];
 
 		for (const sha of args.headShas) {
 			const data = await Effect.runPromise(
@@ -590,15 +1630,8 @@ export const fetchCheckRunsChunk = internalAction({
 			);
 
 			for (const cr of data.check_runs) {
-				allCheckRuns.push({
-					githubCheckRunId: cr.id,
-					name: cr.name,
-					headSha: cr.head_sha,
-					status: cr.status,
-					conclusion: cr.conclusion,
-					startedAt: isoToMs(cr.started_at),
-					completedAt: isoToMs(cr.completed_at),
-				});
+				const checkRun = parseCheckRun(cr);
+				if (checkRun !== null) allCheckRuns.push(checkRun);
 			}
 		}
 
@@ -11,15 +11,39 @@
  *
  * The workflow also manages the sync job lifecycle (pending → running → done/failed).
  */
-import { vWorkflowId } from "@convex-dev/workflow";
+import { vWorkflowId, type WorkflowCtx } from "@convex-dev/workflow";
 import { v } from "convex/values";
 import { internal } from "../_generated/api";
 import { internalMutation, internalQuery } from "../_generated/server";
+import {
+	installationTokenIdentity,
+	rateLimitDeferralMs,
+} from "../shared/githubApi";
 import { workflow } from "../shared/workflow";
 
+const vBootstrapStrategy = v.union(v.literal("rest"), v.literal("graphql"));
+
 const PR_ISSUE_PROGRESS_UPDATE_EVERY_CHUNKS = 5;
 const CHECK_RUN_PROGRESS_UPDATE_EVERY_CHUNKS = 5;
 
+/**
+ * Step options for the next chunk. Chunks are background work, so once the
+ * installation's budget is down to the interactive reserve the chunk is
+ * scheduled for the rate-limit reset instead of running now.
+ */
+const chunkStepOptions = async (
+	step: WorkflowCtx,
+	installationId: number,
+	name: string,
+): Promise<{ name: string; runAfter: number }> => {
+	const runAfter: number = await step.runQuery(
+		internal.rpc.bootstrapWorkflow.getChunkDeferral,
+		{ installationId },
+		{ name: `budget-${name}` },
+	);
+	return { name, runAfter };
+};
+
 // ---------------------------------------------------------------------------
 // Workflow definition
 // ---------------------------------------------------------------------------
@@ -33,11 +57,14 @@ export const bootstrapRepo = workflow.define({
 		connectedByUserId: v.union(v.string(), v.null()),
 		/** GitHub App installation ID for fallback token resolution. */
 		installationId: v.number(),
+		/** How pull requests are fetched. Absent on workflows started before GraphQL bootstrap. */
+		bootstrapStrategy: v.optional(vBootstrapStrategy),
 	},
 	handler: async (step, args): Promise<void> => {
 		const s = internal.rpc.bootstrapSteps;
 		const progress = internal.rpc.bootstrapWorkflow.updateSyncProgress;
 		const { connectedByUserId, installationId } = args;
+		const useGraphQl = args.bootstrapStrategy === "graphql";
 
 		// Mark job as running
 		await step.runMutation(internal.rpc.bootstrapWorkflow.markSyncJob, {
@@ -75,25 +102,48 @@ export const bootstrapRepo = workflow.define({
 			let prCursor: string | null = null;
 			let chunkIndex = 0;
 			let totalPrs = 0;
+			let prRequests = 0;
+			let prRestEstimate = 0;
 			await step.runMutation(progress, {
 				lockKey: args.lockKey,
 				currentStep: "Fetching pull requests",
 			});
 			// eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
 			while (true) {
-				const result: { count: number; nextCursor: string | null } =
-					await step.runAction(
-						s.fetchPullRequestsChunk,
-						{
-							repositoryId: args.repositoryId,
-							fullName: args.fullName,
-							cursor: prCursor,
-							connectedByUserId,
-							installationId,
-						},
-						{ name: `fetch-prs-${chunkIndex}` },
-					);
+				const chunkArgs = {
+					repositoryId: args.repositoryId,
+					fullName: args.fullName,
+					cursor: prCursor,
+					connectedByUserId,
+					installationId,
+				};
+				const result: {
+					count: number;
+					nextCursor: string | null;
+					requests: number;
+					restRequestEstimate?: number;
+				} = useGraphQl
+					? await step.runAction(
+							s.fetchPullRequestsGraphQlChunk,
+							chunkArgs,
+							await chunkStepOptions(
+								step,
+								installationId,
+								`fetch-prs-graphql-${chunkIndex}`,
+							),
+						)
+					: await step.runAction(
+							s.fetchPullRequestsChunk,
+							chunkArgs,
+							await chunkStepOptions(
+								step,
+								installationId,
+								`fetch-prs-${chunkIndex}`,
+							),
+						);
 				totalPrs += result.count;
+				prRequests += result.requests;
+				prRestEstimate += result.restRequestEstimate ?? 0;
 				prCursor = result.nextCursor;
 				chunkIndex++;
 				if (prCursor !== null) {
@@ -112,6 +162,8 @@ export const bootstrapRepo = workflow.define({
 				currentStep: null,
 				completedStep: "Pull requests",
 				itemsInStep: totalPrs,
+				requestsInStep: prRequests,
+				...(useGraphQl ? { restRequestEstimateInStep: prRestEstimate } : {}),
 			});
 		}
 
@@ -136,7 +188,11 @@ export const bootstrapRepo = workflow.define({
 							connectedByUserId,
 							installationId,
 						},
-						{ name: `fetch-issues-${chunkIndex}` },
+						await chunkStepOptions(
+							step,
+							installationId,
+							`fetch-issues-${chunkIndex}`,
+						),
 					);
 				totalIssues += result.count;
 				issueCursor = result.nextCursor;
@@ -159,6 +215,50 @@ export const bootstrapRepo = workflow.define({
 			});
 		}
 
+		// Step 3b: Fetch milestones
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: "Fetching milestones",
+		});
+		const milestoneResult: { count: number } = await step.runAction(
+			s.fetchMilestones,
+			{
+				repositoryId: args.repositoryId,
+				fullName: args.fullName,
+				connectedByUserId,
+				installationId,
+			},
+			{ name: "fetch-milestones" },
+		);
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: null,
+			completedStep: "Milestones",
+			itemsInStep: milestoneResult.count,
+		});
+
+		// Step 3c: Fetch labels
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: "Fetching labels",
+		});
+		const labelResult: { count: number } = await step.runAction(
+			s.fetchLabels,
+			{
+				repositoryId: args.repositoryId,
+				fullName: args.fullName,
+				connectedByUserId,
+				installationId,
+			},
+			{ name: "fetch-labels" },
+		);
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: null,
+			completedStep: "Labels",
+			itemsInStep: labelResult.count,
+		});
+
 		// Step 4: Fetch recent commits
 		await step.runMutation(progress, {
 			lockKey: args.lockKey,
@@ -181,6 +281,50 @@ export const bootstrapRepo = workflow.define({
 			itemsInStep: commitResult.count,
 		});
 
+		// Step 4b: Fetch releases + tags
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: "Fetching releases",
+		});
+		const releaseResult: { count: number } = await step.runAction(
+			s.fetchReleases,
+			{
+				repositoryId: args.repositoryId,
+				fullName: args.fullName,
+				connectedByUserId,
+				installationId,
+			},
+			{ name: "fetch-releases" },
+		);
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: null,
+			completedStep: "Releases",
+			itemsInStep: releaseResult.count,
+		});
+
+		// Step 4c: Fetch discussions
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: "Fetching discussions",
+		});
+		const discussionResult: { count: number } = await step.runAction(
+			s.fetchDiscussions,
+			{
+				repositoryId: args.repositoryId,
+				fullName: args.fullName,
+				connectedByUserId,
+				installationId,
+			},
+			{ name: "fetch-discussions" },
+		);
+		await step.runMutation(progress, {
+			lockKey: args.lockKey,
+			currentStep: null,
+			completedStep: "Discussions",
+			itemsInStep: discussionResult.count,
+		});
+
 		// Step 5: Read open PRs from DB (written by fetchPullRequestsChunk)
 		// and fetch check runs for their head SHAs in chunks.
 		await step.runMutation(progress, {
@@ -198,8 +342,10 @@ export const bootstrapRepo = workflow.define({
 		);
 		const uniqueShas = [...new Set(activePrHeadShas)];
 
-		// Process check runs in chunks of 100 SHAs to stay within action timeout
-		{
+		// Process check runs in chunks of 100 SHAs to stay within action timeout.
+		// The GraphQL path already wrote them from each PR's status rollup.
+		let checkRunRequests = 0;
+		if (!useGraphQl) {
 			const CHECK_RUN_CHUNK_SIZE = 100;
 			let totalCheckRuns = 0;
 			for (let i = 0; i < uniqueShas.length; i += CHECK_RUN_CHUNK_SIZE) {
@@ -214,9 +360,14 @@ export const bootstrapRepo = workflow.define({
 						connectedByUserId,
 						installationId,
 					},
-					{ name: `fetch-check-runs-${chunkIdx}` },
+					await chunkStepOptions(
+						step,
+						installationId,
+						`fetch-check-runs-${chunkIdx}`,
+					),
 				);
 				totalCheckRuns += result.count;
+				checkRunRequests += shaChunk.length;
 				if (
 					i + CHECK_RUN_CHUNK_SIZE < uniqueShas.length &&
 					(chunkIdx + 1) % CHECK_RUN_PROGRESS_UPDATE_EVERY_CHUNKS === 0
@@ -232,6 +383,7 @@ export const bootstrapRepo = workflow.define({
 			lockKey: args.lockKey,
 			currentStep: null,
 			completedStep: "Check runs",
+			requestsInStep: checkRunRequests,
 		});
 
 		// Step 6: Fetch workflow runs + jobs
@@ -348,8 +500,20 @@ export const startBootstrap = internalMutation({
 			return null;
 		}
 
+		const repo = await ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", args.repositoryId),
+			)
+			.first();
+		const bootstrapStrategy = repo?.bootstrapStrategy ?? "rest";
+
+		// Request counters are per run, so a restarted job starts from zero.
 		await ctx.db.patch(job._id, {
 			state: "running",
+			bootstrapStrategy,
+			githubRequestCount: 0,
+			restRequestEstimate: bootstrapStrategy === "graphql" ? 0 : undefined,
 			updatedAt: Date.now(),
 		});
 
@@ -362,6 +526,7 @@ export const startBootstrap = internalMutation({
 				lockKey: args.lockKey,
 				connectedByUserId: args.connectedByUserId,
 				installationId: args.installationId,
+				bootstrapStrategy,
 			},
 			{
 				onComplete: internal.rpc.bootstrapWorkflow.onBootstrapComplete,
@@ -572,6 +737,10 @@ export const updateSyncProgress = internalMutation({
 		currentStep: v.union(v.string(), v.null()),
 		completedStep: v.optional(v.string()),
 		itemsInStep: v.optional(v.number()),
+		/** Added to the job's `githubRequestCount` */
+		requestsInStep: v.optional(v.number()),
+		/** Added to the job's `restRequestEstimate` */
+		restRequestEstimateInStep: v.optional(v.number()),
 	},
 	returns: v.null(),
 	handler: async (ctx, args): Promise<null> => {
@@ -593,6 +762,18 @@ export const updateSyncProgress = internalMutation({
 			currentStep: args.currentStep,
 			completedSteps,
 			itemsFetched,
+			...(args.requestsInStep !== undefined
+				? {
+						githubRequestCount:
+							(job.githubRequestCount ?? 0) + args.requestsInStep,
+					}
+				: {}),
+			...(args.restRequestEstimateInStep !== undefined
+				? {
+						restRequestEstimate:
+							(job.restRequestEstimate ?? 0) + args.restRequestEstimateInStep,
+					}
+				: {}),
 			updatedAt: Date.now(),
 		});
 
@@ -636,3 +817,30 @@ export const queryOpenPrSyncTargets = internalQuery({
 			}));
 	},
 });
+
+// ---------------------------------------------------------------------------
+// getChunkDeferral — rate-limit check before each bootstrap chunk.
+//
+// Returns how long to hold the chunk (0 to run now), based on the
+// installation's REST budget in the rate-limit ledger.
+// ---------------------------------------------------------------------------
+
+export const getChunkDeferral = internalQuery({
+	args: {
+		installationId: v.number(),
+	},
+	returns: v.number(),
+	handler: async (ctx, args): Promise<number> => {
+		const entry = await ctx.db
+			.query("github_rate_limits")
+			.withIndex("by_identity_and_resource", (q) =>
+				q
+					.eq("identity", installationTokenIdentity(args.installationId))
+					.eq("resource", "core"),
+			)
+			.first();
+
+		if (!entry) return 0;
+		return rateLimitDeferralMs(entry, "background", Date.now());
+	},
+});
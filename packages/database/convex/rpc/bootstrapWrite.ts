@@ -15,6 +15,10 @@ import {
 	syncReviewInsert,
 	syncReviewReplace,
 } from "../shared/aggregateSync";
+import { CheckRunInputSchema, CheckSuiteInputSchema } from "../shared/checks";
+import { CommitStatusInputSchema } from "../shared/commitStatuses";
+import { ReactionSummarySchema } from "../shared/reactions";
+import { replaceReferences } from "../shared/references";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 
 const factory = createRpcFactory({ schema: confectSchema });
@@ -48,6 +52,7 @@ const upsertPullRequestsDef = factory.internalMutation({
 				number: Schema.Number,
 				state: Schema.Literal("open", "closed"),
 				draft: Schema.Boolean,
+				locked: Schema.optional(Schema.Boolean),
 				title: Schema.String,
 				body: Schema.NullOr(Schema.String),
 				authorUserId: Schema.NullOr(Schema.Number),
@@ -71,6 +76,26 @@ const upsertPullRequestsDef = factory.internalMutation({
 	success: Schema.Struct({ upserted: Schema.Number }),
 });
 
+/**
+ * Upsert a batch of pull request reviews, keyed by GitHub review ID.
+ */
+const upsertPullRequestReviewsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		reviews: Schema.Array(
+			Schema.Struct({
+				pullRequestNumber: Schema.Number,
+				githubReviewId: Schema.Number,
+				authorUserId: Schema.NullOr(Schema.Number),
+				state: Schema.String,
+				submittedAt: Schema.NullOr(Schema.Number),
+				commitSha: Schema.NullOr(Schema.String),
+			}),
+		),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
 /**
  * Upsert a batch of issues for a repository.
  */
@@ -82,6 +107,7 @@ const upsertIssuesDef = factory.internalMutation({
 				githubIssueId: Schema.Number,
 				number: Schema.Number,
 				state: Schema.Literal("open", "closed"),
+				locked: Schema.optional(Schema.Boolean),
 				title: Schema.String,
 				body: Schema.NullOr(Schema.String),
 				authorUserId: Schema.NullOr(Schema.Number),
@@ -89,6 +115,8 @@ const upsertIssuesDef = factory.internalMutation({
 				labelNames: Schema.Array(Schema.String),
 				commentCount: Schema.Number,
 				isPullRequest: Schema.Boolean,
+				milestoneNumber: Schema.NullOr(Schema.Number),
+				reactions: Schema.optional(Schema.NullOr(ReactionSummarySchema)),
 				closedAt: Schema.NullOr(Schema.Number),
 				githubUpdatedAt: Schema.Number,
 			}),
@@ -101,6 +129,51 @@ const upsertIssuesDef = factory.internalMutation({
 	success: Schema.Struct({ upserted: Schema.Number }),
 });
 
+/**
+ * Upsert a batch of milestones for a repository.
+ */
+const upsertMilestonesDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		milestones: Schema.Array(
+			Schema.Struct({
+				githubMilestoneId: Schema.Number,
+				number: Schema.Number,
+				title: Schema.String,
+				description: Schema.NullOr(Schema.String),
+				state: Schema.Literal("open", "closed"),
+				creatorUserId: Schema.NullOr(Schema.Number),
+				openIssueCount: Schema.Number,
+				closedIssueCount: Schema.Number,
+				dueOn: Schema.NullOr(Schema.Number),
+				closedAt: Schema.NullOr(Schema.Number),
+				githubUpdatedAt: Schema.Number,
+			}),
+		),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
+/**
+ * Upsert a batch of repository labels. GitHub doesn't timestamp labels, so
+ * the latest fetch always wins.
+ */
+const upsertLabelsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		labels: Schema.Array(
+			Schema.Struct({
+				githubLabelId: Schema.Number,
+				name: Schema.String,
+				color: Schema.String,
+				description: Schema.NullOr(Schema.String),
+				isDefault: Schema.Boolean,
+			}),
+		),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
 /**
  * Upsert a GitHub user (extracted from PR/issue author data).
  */
@@ -143,26 +216,134 @@ const upsertCommitsDef = factory.internalMutation({
 });
 
 /**
- * Upsert a batch of check runs for a repository.
+ * Upsert a batch of tags for a repository.
  */
-const upsertCheckRunsDef = factory.internalMutation({
+const upsertTagsDef = factory.internalMutation({
 	payload: {
 		repositoryId: Schema.Number,
-		checkRuns: Schema.Array(
+		tags: Schema.Array(
 			Schema.Struct({
-				githubCheckRunId: Schema.Number,
 				name: Schema.String,
-				headSha: Schema.String,
-				status: Schema.String,
-				conclusion: Schema.NullOr(Schema.String),
-				startedAt: Schema.NullOr(Schema.Number),
-				completedAt: Schema.NullOr(Schema.Number),
+				sha: Schema.String,
 			}),
 		),
 	},
 	success: Schema.Struct({ upserted: Schema.Number }),
 });
 
+/**
+ * Upsert a batch of releases for a repository. Releases deleted since the
+ * listing was fetched are skipped.
+ */
+const upsertReleasesDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		releases: Schema.Array(
+			Schema.Struct({
+				githubReleaseId: Schema.Number,
+				tagName: Schema.String,
+				name: Schema.NullOr(Schema.String),
+				body: Schema.NullOr(Schema.String),
+				draft: Schema.Boolean,
+				prerelease: Schema.Boolean,
+				authorUserId: Schema.NullOr(Schema.Number),
+				targetCommitish: Schema.String,
+				htmlUrl: Schema.NullOr(Schema.String),
+				createdAt: Schema.Number,
+				publishedAt: Schema.NullOr(Schema.Number),
+			}),
+		),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
+/**
+ * Upsert a batch of discussions for a repository.
+ */
+const upsertDiscussionsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		discussions: Schema.Array(
+			Schema.Struct({
+				githubDiscussionId: Schema.Number,
+				number: Schema.Number,
+				state: Schema.Literal("open", "closed"),
+				stateReason: Schema.NullOr(Schema.String),
+				title: Schema.String,
+				body: Schema.NullOr(Schema.String),
+				authorUserId: Schema.NullOr(Schema.Number),
+				categoryName: Schema.NullOr(Schema.String),
+				categoryIsAnswerable: Schema.Boolean,
+				answerCommentId: Schema.NullOr(Schema.Number),
+				answerChosenAt: Schema.NullOr(Schema.Number),
+				locked: Schema.Boolean,
+				commentCount: Schema.Number,
+				upvoteCount: Schema.Number,
+				htmlUrl: Schema.NullOr(Schema.String),
+				createdAt: Schema.Number,
+				closedAt: Schema.NullOr(Schema.Number),
+				githubUpdatedAt: Schema.Number,
+			}),
+		),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
+/**
+ * Upsert a batch of discussion comments (top-level and replies).
+ */
+const upsertDiscussionCommentsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		comments: Schema.Array(
+			Schema.Struct({
+				discussionNumber: Schema.Number,
+				githubCommentId: Schema.Number,
+				parentCommentId: Schema.NullOr(Schema.Number),
+				authorUserId: Schema.NullOr(Schema.Number),
+				body: Schema.String,
+				upvoteCount: Schema.Number,
+				createdAt: Schema.Number,
+				updatedAt: Schema.Number,
+			}),
+		),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
+/**
+ * Upsert a batch of check runs for a repository.
+ */
+const upsertCheckRunsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		checkRuns: Schema.Array(CheckRunInputSchema),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
+/**
+ * Upsert a batch of check suites for a repository.
+ */
+const upsertCheckSuitesDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		checkSuites: Schema.Array(CheckSuiteInputSchema),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
+/**
+ * Upsert a batch of commit statuses, keyed by (sha, context).
+ */
+const upsertCommitStatusesDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		statuses: Schema.Array(CommitStatusInputSchema),
+	},
+	success: Schema.Struct({ upserted: Schema.Number }),
+});
+
 /**
  * Upsert a batch of workflow runs for a repository.
  */
@@ -277,12 +458,22 @@ upsertPullRequestsDef.implement((args) =>
 				)
 				.first();
 
+			const indexBodyReferences = replaceReferences({
+				repositoryId: args.repositoryId,
+				sourceType: "pull_request",
+				sourceId: pr.number,
+				sourceNumber: pr.number,
+				text: pr.body,
+				createdAt: pr.githubUpdatedAt,
+			});
+
 			const data = {
 				repositoryId: args.repositoryId,
 				githubPrId: pr.githubPrId,
 				number: pr.number,
 				state: pr.state,
 				draft: pr.draft,
+				...(pr.locked === undefined ? {} : { locked: pr.locked }),
 				title: pr.title,
 				body: pr.body,
 				authorUserId: pr.authorUserId,
@@ -303,6 +494,7 @@ upsertPullRequestsDef.implement((args) =>
 				// Out-of-order protection: only update if newer
 				if (pr.githubUpdatedAt >= existing.value.githubUpdatedAt) {
 					yield* ctx.db.patch(existing.value._id, data);
+					yield* indexBodyReferences;
 					if (!args.skipProjections) {
 						// Sync aggregate: read back patched doc for new state
 						const updated = yield* ctx.db.get(existing.value._id);
@@ -313,6 +505,7 @@ upsertPullRequestsDef.implement((args) =>
 				}
 			} else {
 				const id = yield* ctx.db.insert("github_pull_requests", data);
+				yield* indexBodyReferences;
 				if (!args.skipProjections) {
 					const inserted = yield* ctx.db.get(id);
 					if (Option.isSome(inserted)) {
@@ -342,11 +535,24 @@ upsertIssuesDef.implement((args) =>
 				)
 				.first();
 
+			// PR bodies are indexed by upsertPullRequests
+			const indexBodyReferences = issue.isPullRequest
+				? Effect.void
+				: replaceReferences({
+						repositoryId: args.repositoryId,
+						sourceType: "issue",
+						sourceId: issue.number,
+						sourceNumber: issue.number,
+						text: issue.body,
+						createdAt: issue.githubUpdatedAt,
+					});
+
 			const data = {
 				repositoryId: args.repositoryId,
 				githubIssueId: issue.githubIssueId,
 				number: issue.number,
 				state: issue.state,
+				...(issue.locked === undefined ? {} : { locked: issue.locked }),
 				title: issue.title,
 				body: issue.body,
 				authorUserId: issue.authorUserId,
@@ -354,6 +560,8 @@ upsertIssuesDef.implement((args) =>
 				labelNames: [...issue.labelNames],
 				commentCount: issue.commentCount,
 				isPullRequest: issue.isPullRequest,
+				milestoneNumber: issue.milestoneNumber,
+				...(issue.reactions == null ? {} : { reactions: issue.reactions }),
 				closedAt: issue.closedAt,
 				githubUpdatedAt: issue.githubUpdatedAt,
 				cachedAt: now,
@@ -362,6 +570,7 @@ upsertIssuesDef.implement((args) =>
 			if (Option.isSome(existing)) {
 				if (issue.githubUpdatedAt >= existing.value.githubUpdatedAt) {
 					yield* ctx.db.patch(existing.value._id, data);
+					yield* indexBodyReferences;
 					if (!args.skipProjections) {
 						const updated = yield* ctx.db.get(existing.value._id);
 						if (Option.isSome(updated)) {
@@ -371,6 +580,7 @@ upsertIssuesDef.implement((args) =>
 				}
 			} else {
 				const id = yield* ctx.db.insert("github_issues", data);
+				yield* indexBodyReferences;
 				if (!args.skipProjections) {
 					const inserted = yield* ctx.db.get(id);
 					if (Option.isSome(inserted)) {
@@ -385,6 +595,90 @@ upsertIssuesDef.implement((args) =>
 	}),
 );
 
+upsertPullRequestReviewsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const rawCtx = ctx.rawCtx;
+		let upserted = 0;
+
+		for (const review of args.reviews) {
+			const existing = yield* ctx.db
+				.query("github_pull_request_reviews")
+				.withIndex("by_repositoryId_and_githubReviewId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubReviewId", review.githubReviewId),
+				)
+				.first();
+
+			const data = { repositoryId: args.repositoryId, ...review };
+
+			if (Option.isSome(existing)) {
+				yield* ctx.db.patch(existing.value._id, data);
+				const updated = yield* ctx.db.get(existing.value._id);
+				if (Option.isSome(updated)) {
+					yield* syncReviewReplace(rawCtx, existing.value, updated.value);
+				}
+			} else {
+				const id = yield* ctx.db.insert("github_pull_request_reviews", data);
+				const inserted = yield* ctx.db.get(id);
+				if (Option.isSome(inserted)) {
+					yield* syncReviewInsert(rawCtx, inserted.value);
+				}
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
+upsertMilestonesDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		let upserted = 0;
+
+		for (const milestone of args.milestones) {
+			const deleted = yield* ctx.db
+				.query("github_deleted_milestones")
+				.withIndex("by_repositoryId_and_githubMilestoneId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubMilestoneId", milestone.githubMilestoneId),
+				)
+				.first();
+			if (Option.isSome(deleted)) continue;
+
+			const existing = yield* ctx.db
+				.query("github_milestones")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("number", milestone.number),
+				)
+				.first();
+
+			const data = {
+				repositoryId: args.repositoryId,
+				...milestone,
+				cachedAt: now,
+			};
+
+			if (Option.isSome(existing)) {
+				if (milestone.githubUpdatedAt >= existing.value.githubUpdatedAt) {
+					yield* ctx.db.patch(existing.value._id, data);
+				}
+			} else {
+				yield* ctx.db.insert("github_milestones", data);
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
 upsertUsersDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
@@ -467,6 +761,191 @@ upsertCommitsDef.implement((args) =>
 					cachedAt: now,
 				});
 			}
+			yield* replaceReferences({
+				repositoryId: args.repositoryId,
+				sourceType: "commit",
+				sourceId: commit.sha,
+				sourceNumber: null,
+				text: commit.messageHeadline,
+				createdAt: commit.committedAt ?? now,
+			});
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
+upsertTagsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		let upserted = 0;
+
+		for (const tag of args.tags) {
+			const existing = yield* ctx.db
+				.query("github_tags")
+				.withIndex("by_repositoryId_and_name", (q) =>
+					q.eq("repositoryId", args.repositoryId).eq("name", tag.name),
+				)
+				.first();
+
+			if (Option.isSome(existing)) {
+				yield* ctx.db.patch(existing.value._id, {
+					sha: tag.sha,
+					cachedAt: now,
+				});
+			} else {
+				yield* ctx.db.insert("github_tags", {
+					repositoryId: args.repositoryId,
+					name: tag.name,
+					sha: tag.sha,
+					cachedAt: now,
+				});
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
+upsertLabelsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		let upserted = 0;
+
+		for (const label of args.labels) {
+			const existing = yield* ctx.db
+				.query("github_labels")
+				.withIndex("by_repositoryId_and_githubLabelId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubLabelId", label.githubLabelId),
+				)
+				.first();
+
+			const data = {
+				repositoryId: args.repositoryId,
+				...label,
+				cachedAt: now,
+			};
+
+			if (Option.isSome(existing)) {
+				yield* ctx.db.patch(existing.value._id, data);
+			} else {
+				yield* ctx.db.insert("github_labels", data);
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
+upsertReleasesDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		let upserted = 0;
+
+		for (const release of args.releases) {
+			const deleted = yield* ctx.db
+				.query("github_deleted_releases")
+				.withIndex("by_repositoryId_and_githubReleaseId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubReleaseId", release.githubReleaseId),
+				)
+				.first();
+			if (Option.isSome(deleted)) continue;
+
+			const existing = yield* ctx.db
+				.query("github_releases")
+				.withIndex("by_repositoryId_and_githubReleaseId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubReleaseId", release.githubReleaseId),
+				)
+				.first();
+
+			const data = {
+				repositoryId: args.repositoryId,
+				...release,
+				cachedAt: now,
+			};
+
+			if (Option.isSome(existing)) {
+				yield* ctx.db.patch(existing.value._id, data);
+			} else {
+				yield* ctx.db.insert("github_releases", data);
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
+upsertDiscussionsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		let upserted = 0;
+
+		for (const discussion of args.discussions) {
+			const existing = yield* ctx.db
+				.query("github_discussions")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("number", discussion.number),
+				)
+				.first();
+
+			const data = {
+				repositoryId: args.repositoryId,
+				...discussion,
+				cachedAt: now,
+			};
+
+			if (Option.isSome(existing)) {
+				if (discussion.githubUpdatedAt >= existing.value.githubUpdatedAt) {
+					yield* ctx.db.patch(existing.value._id, data);
+				}
+			} else {
+				yield* ctx.db.insert("github_discussions", data);
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
+upsertDiscussionCommentsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let upserted = 0;
+
+		for (const comment of args.comments) {
+			const existing = yield* ctx.db
+				.query("github_discussion_comments")
+				.withIndex("by_repositoryId_and_githubCommentId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubCommentId", comment.githubCommentId),
+				)
+				.first();
+
+			const data = { repositoryId: args.repositoryId, ...comment };
+
+			if (Option.isSome(existing)) {
+				yield* ctx.db.patch(existing.value._id, data);
+			} else {
+				yield* ctx.db.insert("github_discussion_comments", data);
+			}
 			upserted++;
 		}
 
@@ -490,16 +969,7 @@ upsertCheckRunsDef.implement((args) =>
 				)
 				.first();
 
-			const data = {
-				repositoryId: args.repositoryId,
-				githubCheckRunId: cr.githubCheckRunId,
-				name: cr.name,
-				headSha: cr.headSha,
-				status: cr.status,
-				conclusion: cr.conclusion,
-				startedAt: cr.startedAt,
-				completedAt: cr.completedAt,
-			};
+			const data = { repositoryId: args.repositoryId, ...cr };
 
 			if (Option.isSome(existing)) {
 				yield* ctx.db.patch(existing.value._id, data);
@@ -521,6 +991,68 @@ upsertCheckRunsDef.implement((args) =>
 	}),
 );
 
+upsertCheckSuitesDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let upserted = 0;
+
+		for (const suite of args.checkSuites) {
+			const existing = yield* ctx.db
+				.query("github_check_suites")
+				.withIndex("by_repositoryId_and_githubCheckSuiteId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubCheckSuiteId", suite.githubCheckSuiteId),
+				)
+				.first();
+
+			if (Option.isSome(existing)) {
+				yield* ctx.db.patch(existing.value._id, suite);
+			} else {
+				yield* ctx.db.insert("github_check_suites", {
+					repositoryId: args.repositoryId,
+					...suite,
+				});
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
+upsertCommitStatusesDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let upserted = 0;
+
+		for (const status of args.statuses) {
+			const existing = yield* ctx.db
+				.query("github_commit_statuses")
+				.withIndex("by_repositoryId_and_sha_and_context", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("sha", status.sha)
+						.eq("context", status.context),
+				)
+				.first();
+
+			if (Option.isSome(existing)) {
+				if (existing.value.updatedAt > status.updatedAt) continue;
+				yield* ctx.db.patch(existing.value._id, status);
+			} else {
+				yield* ctx.db.insert("github_commit_statuses", {
+					repositoryId: args.repositoryId,
+					...status,
+				});
+			}
+			upserted++;
+		}
+
+		return { upserted };
+	}),
+);
+
 upsertWorkflowRunsDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
@@ -687,9 +1219,18 @@ const bootstrapWriteModule = makeRpcModule(
 	{
 		upsertBranches: upsertBranchesDef,
 		upsertPullRequests: upsertPullRequestsDef,
+		upsertPullRequestReviews: upsertPullRequestReviewsDef,
 		upsertIssues: upsertIssuesDef,
+		upsertMilestones: upsertMilestonesDef,
+		upsertLabels: upsertLabelsDef,
 		upsertCommits: upsertCommitsDef,
+		upsertTags: upsertTagsDef,
+		upsertReleases: upsertReleasesDef,
+		upsertDiscussions: upsertDiscussionsDef,
+		upsertDiscussionComments: upsertDiscussionCommentsDef,
 		upsertCheckRuns: upsertCheckRunsDef,
+		upsertCheckSuites: upsertCheckSuitesDef,
+		upsertCommitStatuses: upsertCommitStatusesDef,
 		upsertWorkflowRuns: upsertWorkflowRunsDef,
 		upsertWorkflowJobs: upsertWorkflowJobsDef,
 		upsertUsers: upsertUsersDef,
@@ -702,9 +1243,18 @@ const bootstrapWriteModule = makeRpcModule(
 export const {
 	upsertBranches,
 	upsertPullRequests,
+	upsertPullRequestReviews,
 	upsertIssues,
+	upsertMilestones,
+	upsertLabels,
 	upsertCommits,
+	upsertTags,
+	upsertReleases,
+	upsertDiscussions,
+	upsertDiscussionComments,
 	upsertCheckRuns,
+	upsertCheckSuites,
+	upsertCommitStatuses,
 	upsertWorkflowRuns,
 	upsertWorkflowJobs,
 	upsertUsers,
@@ -4,22 +4,23 @@
  * Endpoints:
  *   - getFileTree (action)        — fetch file tree for a repo at a given ref
  *   - getFileContent (action)     — fetch file content for a specific path at a ref
+ *   - compareRefs (action)        — commits and file diffs between two refs
  *   - upsertTreeCache (internalMutation) — cache tree data
  *   - upsertFileCache (internalMutation) — cache file content
  *   - getCachedTree (internalQuery)      — check tree cache
  *   - getCachedFile (internalQuery)      — check file cache
  */
+import * as HttpClientRequest from "@effect/platform/HttpClientRequest";
+import * as HttpClientResponse from "@effect/platform/HttpClientResponse";
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
-import { Effect, Option, Schema } from "effect";
+import { Effect, Either, Option, Schema } from "effect";
 import { internal } from "../_generated/api";
 import {
 	ConfectActionCtx,
-	type ConfectMutationCtx,
+	ConfectMutationCtx,
 	ConfectQueryCtx,
 	confectSchema,
 } from "../confect";
-// toNumberOrNull/toStringOrNull unused while code browsing is disabled
-// import { toNumberOrNull as num, toStringOrNull as str } from "../shared/coerce";
 import {
 	ContentFile,
 	type ReposGetContent200,
@@ -33,6 +34,7 @@ import {
 } from "../shared/permissions";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 import {
+	AuthenticatedUser,
 	ReadGitHubRepoByNameMiddleware,
 	ReadGitHubRepoPermission,
 	RequireAuthenticatedMiddleware,
@@ -60,6 +62,85 @@ const FileContentResult = Schema.Struct({
 	encoding: Schema.NullOr(Schema.String),
 });
 
+const CompareCommit = Schema.Struct({
+	sha: Schema.String,
+	messageHeadline: Schema.String,
+	authorLogin: Schema.NullOr(Schema.String),
+	authorAvatarUrl: Schema.NullOr(Schema.String),
+	authoredAt: Schema.NullOr(Schema.Number),
+});
+
+const CompareFile = Schema.Struct({
+	filename: Schema.String,
+	previousFilename: Schema.NullOr(Schema.String),
+	status: Schema.Literal(
+		"added",
+		"removed",
+		"modified",
+		"renamed",
+		"copied",
+		"changed",
+		"unchanged",
+	),
+	additions: Schema.Number,
+	deletions: Schema.Number,
+	patch: Schema.NullOr(Schema.String),
+});
+
+const CompareResult = Schema.Struct({
+	status: Schema.Literal("ahead", "behind", "identical", "diverged"),
+	aheadBy: Schema.Number,
+	behindBy: Schema.Number,
+	totalCommits: Schema.Number,
+	commits: Schema.Array(CompareCommit),
+	files: Schema.Array(CompareFile),
+});
+
+/**
+ * The parts of GitHub's compare response we use. The generated client
+ * doesn't cover `/compare`, so the body is decoded here.
+ */
+const GitHubCompareResponse = Schema.Struct({
+	status: CompareResult.fields.status,
+	ahead_by: Schema.Number,
+	behind_by: Schema.Number,
+	total_commits: Schema.Number,
+	commits: Schema.Array(
+		Schema.Struct({
+			sha: Schema.String,
+			commit: Schema.Struct({
+				message: Schema.String,
+				author: Schema.NullOr(
+					Schema.Struct({ date: Schema.optional(Schema.String) }),
+				),
+			}),
+			author: Schema.NullOr(
+				Schema.Struct({ login: Schema.String, avatar_url: Schema.String }),
+			),
+		}),
+	),
+	files: Schema.optionalWith(
+		Schema.Array(
+			Schema.Struct({
+				filename: Schema.String,
+				previous_filename: Schema.optional(Schema.String),
+				status: CompareFile.fields.status,
+				additions: Schema.Number,
+				deletions: Schema.Number,
+				patch: Schema.optional(Schema.String),
+			}),
+		),
+		{ default: () => [] },
+	),
+});
+
+const CachedTree = Schema.Struct({
+	treeJson: Schema.String,
+	truncated: Schema.Boolean,
+	resolvedTreeSha: Schema.optional(Schema.String),
+	resolvedCommitSha: Schema.optional(Schema.String),
+});
+
 const FileReadStateItem = Schema.Struct({
 	path: Schema.String,
 	fileSha: Schema.String,
@@ -86,11 +167,16 @@ class RepoNotFound extends Schema.TaggedError<RepoNotFound>()("RepoNotFound", {
 	name: Schema.String,
 }) {}
 
+class CompareFailed extends Schema.TaggedError<CompareFailed>()(
+	"CompareFailed",
+	{ status: Schema.Number, message: Schema.String },
+) {}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-type _TreeEntryData = {
+type TreeEntryData = {
 	path: string;
 	mode: string;
 	type: "blob" | "tree" | "commit";
@@ -98,9 +184,117 @@ type _TreeEntryData = {
 	size: number | null;
 };
 
-const _parseTreeEntryType = (t: string): "blob" | "tree" | "commit" =>
+const parseTreeEntryType = (t: string): "blob" | "tree" | "commit" =>
 	t === "tree" ? "tree" : t === "commit" ? "commit" : "blob";
 
+const toTreeEntry = (
+	entry: {
+		readonly mode: string;
+		readonly type: string;
+		readonly sha: string;
+		readonly size?: number | null | undefined;
+	},
+	path: string,
+): TreeEntryData => ({
+	path,
+	mode: entry.mode,
+	type: parseTreeEntryType(entry.type),
+	sha: entry.sha,
+	size: entry.size ?? null,
+});
+
+const TreeEntriesJson = Schema.parseJson(Schema.Array(TreeEntry));
+
+/** Decode a cached treeJson blob, treating corrupt entries as a cache miss. */
+const parseCachedTree = (treeJson: string) =>
+	Either.getOrNull(Schema.decodeUnknownEither(TreeEntriesJson)(treeJson));
+
+/**
+ * Convex documents are capped at 1 MiB — anything near that is served
+ * uncached rather than failing the write.
+ */
+const MAX_CACHED_JSON_LENGTH = 900_000;
+
+/**
+ * Upper bound on per-directory requests when GitHub truncates a recursive
+ * tree. Beyond this the tree is returned partially with `truncated: true`.
+ */
+const MAX_DIRECTORY_TREE_FETCHES = 100;
+
+/** Git's own heuristic: a NUL byte in the first 8000 bytes means binary. */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Decode base64 file content as UTF-8 text.
+ * Returns null for binary files and anything that isn't valid UTF-8.
+ */
+const decodeBase64Text = (raw: string): string | null => {
+	let binary: string;
+	try {
+		// Strip newlines that GitHub inserts
+		binary = atob(raw.replace(/\n/g, ""));
+	} catch {
+		return null;
+	}
+
+	const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+	if (bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null;
+
+	try {
+		return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Walk a tree one directory at a time. Used when the recursive listing
+ * comes back truncated (very large repos).
+ */
+const fetchTreeByDirectory = (
+	ownerLogin: string,
+	name: string,
+	rootTreeSha: string,
+) =>
+	Effect.gen(function* () {
+		const gh = yield* GitHubApiClient;
+		const tree: Array<TreeEntryData> = [];
+		const pending: Array<{ prefix: string; sha: string }> = [
+			{ prefix: "", sha: rootTreeSha },
+		];
+		let fetches = 0;
+		let truncated = false;
+
+		while (pending.length > 0) {
+			if (fetches >= MAX_DIRECTORY_TREE_FETCHES) {
+				truncated = true;
+				break;
+			}
+			const dir = pending.shift();
+			if (dir === undefined) break;
+			fetches++;
+
+			const listing = yield* gh.client
+				.gitGetTree(ownerLogin, name, dir.sha)
+				.pipe(Effect.catchAll(() => Effect.succeed(null)));
+			if (listing === null) {
+				truncated = true;
+				continue;
+			}
+			if (listing.truncated) truncated = true;
+
+			for (const entry of listing.tree) {
+				const path = `${dir.prefix}${entry.path}`;
+				tree.push(toTreeEntry(entry, path));
+				if (entry.type === "tree") {
+					pending.push({ prefix: `${path}/`, sha: entry.sha });
+				}
+			}
+		}
+
+		return { tree, truncated };
+	});
+
 type FileContentData = {
 	path: string;
 	content: string | null;
@@ -138,14 +332,10 @@ const extractFileContent =
 
 		const rawContent = file.content;
 		const encoding = file.encoding;
+		// Files over 1 MB come back with an empty body and encoding "none"
 		let content: string | null = null;
 		if (rawContent && encoding === "base64") {
-			// Decode base64 — strip newlines that GitHub inserts
-			try {
-				content = atob(rawContent.replace(/\n/g, ""));
-			} catch {
-				content = null;
-			}
+			content = decodeBase64Text(rawContent);
 		} else if (rawContent) {
 			content = rawContent;
 		}
@@ -200,6 +390,26 @@ const getFileContentDef = factory
 	})
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
+/**
+ * Compare two refs (`base...head`) for the compare view. Refs are branch
+ * names or SHAs; `headOwner:branch` compares against a fork. Returns null
+ * when either ref doesn't exist (404) or the refs share no history (422);
+ * any other GitHub failure is a `CompareFailed`. Not cached — branch heads
+ * move.
+ */
+const compareRefsDef = factory
+	.action({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			base: Schema.String,
+			head: Schema.String,
+		},
+		success: Schema.NullOr(CompareResult),
+		error: Schema.Union(NotAuthenticated, RepoNotFound, CompareFailed),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
 /**
  * Internal: upsert tree cache entry.
  */
@@ -208,6 +418,7 @@ const upsertTreeCacheDef = factory.internalMutation({
 		repositoryId: Schema.Number,
 		sha: Schema.String,
 		resolvedTreeSha: Schema.optional(Schema.String),
+		resolvedCommitSha: Schema.optional(Schema.String),
 		treeJson: Schema.String,
 		truncated: Schema.Boolean,
 	},
@@ -237,13 +448,7 @@ const getCachedTreeDef = factory.internalQuery({
 		repositoryId: Schema.Number,
 		sha: Schema.String,
 	},
-	success: Schema.NullOr(
-		Schema.Struct({
-			treeJson: Schema.String,
-			truncated: Schema.Boolean,
-			resolvedTreeSha: Schema.optional(Schema.String),
-		}),
-	),
+	success: Schema.NullOr(CachedTree),
 });
 
 /**
@@ -330,7 +535,7 @@ const resolveReadableRepo = (
 		};
 	});
 
-const _resolveReadableRepoForState = (
+const resolveReadableRepoForState = (
 	ownerLogin: string,
 	name: string,
 	permission: {
@@ -612,9 +817,132 @@ hasRepoPermissionDef.implement((args) =>
 // Implementations
 // ---------------------------------------------------------------------------
 
-// --- Code browsing disabled: no-op implementation ---
-getFileTreeDef.implement(() =>
-	Effect.succeed({ sha: "", truncated: false, tree: [] }),
+const readCachedTree = (repositoryId: number, sha: string) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const raw = yield* ctx.runQuery(internal.rpc.codeBrowse.getCachedTree, {
+			repositoryId,
+			sha,
+		});
+		const cached = Schema.decodeUnknownSync(Schema.NullOr(CachedTree))(raw);
+		if (cached === null) return null;
+		const tree = parseCachedTree(cached.treeJson);
+		return tree === null ? null : { ...cached, tree };
+	});
+
+const readCachedFile = (repositoryId: number, sha: string) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const raw = yield* ctx.runQuery(internal.rpc.codeBrowse.getCachedFile, {
+			repositoryId,
+			sha,
+		});
+		return Schema.decodeUnknownSync(Schema.NullOr(FileContentResult))(raw);
+	});
+
+getFileTreeDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const permission = yield* ReadGitHubRepoPermission;
+		const { repositoryId, installationId } = yield* resolveReadableRepo(
+			args.ownerLogin,
+			args.name,
+			permission,
+		);
+		yield* ensureInstallationConnected(
+			args.ownerLogin,
+			args.name,
+			installationId,
+		);
+
+		// Commit-keyed entries never go stale; branch/tag-keyed entries are
+		// dropped by handlePushEvent whenever the ref moves.
+		const cached = yield* readCachedTree(repositoryId, args.sha);
+		if (cached !== null) {
+			return {
+				sha: cached.resolvedCommitSha ?? args.sha,
+				truncated: cached.truncated,
+				tree: cached.tree,
+			};
+		}
+
+		const token = yield* getInstallationToken(installationId).pipe(
+			Effect.mapError(
+				() =>
+					new NotAuthenticated({
+						reason: "GitHub App token is unavailable for this repository",
+					}),
+			),
+		);
+		const gh = yield* Effect.provide(
+			GitHubApiClient,
+			GitHubApiClient.fromToken(token),
+		);
+
+		// Resolve the ref to a commit (and its root tree). "HEAD" means the
+		// default branch, which is what the commits endpoint lists without `sha`.
+		const [headCommit] = yield* gh.client
+			.reposListCommits(args.ownerLogin, args.name, {
+				sha: args.sha === "HEAD" ? null : args.sha,
+				per_page: 1,
+			})
+			.pipe(Effect.catchAll(() => Effect.succeed([])));
+		if (headCommit === undefined) {
+			return { sha: args.sha, truncated: false, tree: [] };
+		}
+		const commitSha = headCommit.sha;
+		const treeSha = headCommit.commit.tree.sha;
+
+		const cacheTree = (entry: { treeJson: string; truncated: boolean }) =>
+			Effect.forEach(
+				[...new Set([commitSha, args.sha])],
+				(key) =>
+					ctx
+						.runMutation(internal.rpc.codeBrowse.upsertTreeCache, {
+							repositoryId,
+							sha: key,
+							resolvedTreeSha: treeSha,
+							resolvedCommitSha: commitSha,
+							treeJson: entry.treeJson,
+							truncated: entry.truncated,
+						})
+						.pipe(Effect.catchAll(() => Effect.void)),
+				{ discard: true },
+			);
+
+		if (commitSha !== args.sha) {
+			const cachedCommit = yield* readCachedTree(repositoryId, commitSha);
+			if (cachedCommit !== null) {
+				yield* cacheTree(cachedCommit);
+				return {
+					sha: commitSha,
+					truncated: cachedCommit.truncated,
+					tree: cachedCommit.tree,
+				};
+			}
+		}
+
+		const recursive = yield* gh.client
+			.gitGetTree(args.ownerLogin, args.name, treeSha, { recursive: "1" })
+			.pipe(Effect.catchAll(() => Effect.succeed(null)));
+
+		const result =
+			recursive !== null && !recursive.truncated
+				? {
+						tree: recursive.tree.map((entry) => toTreeEntry(entry, entry.path)),
+						truncated: false,
+					}
+				: yield* fetchTreeByDirectory(args.ownerLogin, args.name, treeSha).pipe(
+						Effect.provideService(GitHubApiClient, gh),
+					);
+
+		yield* cacheTree({
+			treeJson: JSON.stringify(result.tree),
+			truncated: result.truncated,
+		});
+
+		return { sha: commitSha, truncated: result.truncated, tree: result.tree };
+	}),
 );
 
 getFileContentDef.implement((args) =>
@@ -631,6 +959,21 @@ getFileContentDef.implement((args) =>
 			args.name,
 			installationId,
 		);
+
+		// If the tree for this ref is cached we already know the blob SHA,
+		// and blobs are immutable — serve straight from the file cache.
+		const cachedTree = yield* readCachedTree(repositoryId, args.ref);
+		const blobSha =
+			cachedTree?.tree.find(
+				(entry) => entry.type === "blob" && entry.path === args.path,
+			)?.sha ?? null;
+		if (blobSha !== null) {
+			const cachedFile = yield* readCachedFile(repositoryId, blobSha);
+			if (cachedFile !== null) {
+				return { ...cachedFile, path: args.path };
+			}
+		}
+
 		const token = yield* getInstallationToken(installationId).pipe(
 			Effect.mapError(
 				() =>
@@ -677,17 +1020,81 @@ getFileContentDef.implement((args) =>
 // Internal mutation implementations
 // ---------------------------------------------------------------------------
 
-// --- Code browsing disabled: no-op implementations ---
-upsertTreeCacheDef.implement(() => Effect.succeed({ cached: false }));
-upsertFileCacheDef.implement(() => Effect.succeed({ cached: false }));
+upsertTreeCacheDef.implement((args) =>
+	Effect.gen(function* () {
+		if (args.treeJson.length > MAX_CACHED_JSON_LENGTH) {
+			return { cached: false };
+		}
+
+		const ctx = yield* ConfectMutationCtx;
+		const data = { ...args, cachedAt: Date.now() };
+		const existing = yield* ctx.db
+			.query("github_tree_cache")
+			.withIndex("by_repositoryId_and_sha", (q) =>
+				q.eq("repositoryId", args.repositoryId).eq("sha", args.sha),
+			)
+			.first();
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.patch(existing.value._id, data);
+		} else {
+			yield* ctx.db.insert("github_tree_cache", data);
+		}
+
+		return { cached: true };
+	}),
+);
+
+upsertFileCacheDef.implement((args) =>
+	Effect.gen(function* () {
+		if (args.content !== null && args.content.length > MAX_CACHED_JSON_LENGTH) {
+			return { cached: false };
+		}
+
+		const ctx = yield* ConfectMutationCtx;
+		const existing = yield* ctx.db
+			.query("github_file_cache")
+			.withIndex("by_repositoryId_and_sha", (q) =>
+				q.eq("repositoryId", args.repositoryId).eq("sha", args.sha),
+			)
+			.first();
+
+		// Keyed by blob SHA — an existing entry can never be stale
+		if (Option.isNone(existing)) {
+			yield* ctx.db.insert("github_file_cache", {
+				...args,
+				cachedAt: Date.now(),
+			});
+		}
+
+		return { cached: true };
+	}),
+);
 
 // ---------------------------------------------------------------------------
 // Internal query implementations
 // ---------------------------------------------------------------------------
 
-// --- Code browsing disabled: no-op implementations ---
-getCachedTreeDef.implement(() => Effect.succeed(null));
-getCachedFileDef.implement(() => Effect.succeed(null));
+getCachedTreeDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const cached = yield* ctx.db
+			.query("github_tree_cache")
+			.withIndex("by_repositoryId_and_sha", (q) =>
+				q.eq("repositoryId", args.repositoryId).eq("sha", args.sha),
+			)
+			.first();
+
+		if (Option.isNone(cached)) return null;
+
+		return {
+			treeJson: cached.value.treeJson,
+			truncated: cached.value.truncated,
+			resolvedTreeSha: cached.value.resolvedTreeSha,
+			resolvedCommitSha: cached.value.resolvedCommitSha,
+		};
+	}),
+);
 
 getCachedFileDef.implement((args) =>
 	Effect.gen(function* () {
@@ -711,9 +1118,171 @@ getCachedFileDef.implement((args) =>
 	}),
 );
 
-// --- Code browsing disabled: no-op implementations ---
-getFileReadStateDef.implement(() => Effect.succeed([]));
-markFileReadDef.implement(() => Effect.succeed({ marked: false }));
+getFileReadStateDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const permission = yield* ReadGitHubRepoPermission;
+		const repositoryId = yield* resolveReadableRepoForState(
+			args.ownerLogin,
+			args.name,
+			permission,
+		);
+
+		const states = yield* ctx.db
+			.query("github_file_read_state")
+			.withIndex("by_userId_and_repositoryId_and_treeSha", (q) =>
+				q
+					.eq("userId", userId)
+					.eq("repositoryId", repositoryId)
+					.eq("treeSha", args.treeSha),
+			)
+			.collect();
+
+		return states.map((state) => ({
+			path: state.path,
+			fileSha: state.fileSha,
+			readAt: state.readAt,
+		}));
+	}),
+);
+
+markFileReadDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const permission = yield* ReadGitHubRepoPermission;
+		const repositoryId = yield* resolveReadableRepoForState(
+			args.ownerLogin,
+			args.name,
+			permission,
+		);
+		const now = Date.now();
+
+		const sameBlob = yield* ctx.db
+			.query("github_file_read_state")
+			.withIndex("by_userId_and_repositoryId_and_treeSha_and_fileSha", (q) =>
+				q
+					.eq("userId", userId)
+					.eq("repositoryId", repositoryId)
+					.eq("treeSha", args.treeSha)
+					.eq("fileSha", args.fileSha),
+			)
+			.collect();
+		const existing = sameBlob.find((state) => state.path === args.path);
+
+		if (existing !== undefined) {
+			yield* ctx.db.patch(existing._id, { readAt: now });
+		} else {
+			yield* ctx.db.insert("github_file_read_state", {
+				userId,
+				repositoryId,
+				treeSha: args.treeSha,
+				path: args.path,
+				fileSha: args.fileSha,
+				readAt: now,
+			});
+		}
+
+		return { marked: true };
+	}),
+);
+
+/** GitHub returns at most 250 commits per compare; the view shows the newest. */
+const MAX_COMPARE_COMMITS = 250;
+
+const parseTimestamp = (value: string | undefined) => {
+	if (value === undefined) return null;
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? null : time;
+};
+
+compareRefsDef.implement((args) =>
+	Effect.gen(function* () {
+		const permission = yield* ReadGitHubRepoPermission;
+		const { installationId } = yield* resolveReadableRepo(
+			args.ownerLogin,
+			args.name,
+			permission,
+		);
+		yield* ensureInstallationConnected(
+			args.ownerLogin,
+			args.name,
+			installationId,
+		);
+
+		const token = yield* getInstallationToken(installationId).pipe(
+			Effect.mapError(
+				() =>
+					new NotAuthenticated({
+						reason: "GitHub App token is unavailable for this repository",
+					}),
+			),
+		);
+		const gh = yield* Effect.provide(
+			GitHubApiClient,
+			GitHubApiClient.fromToken(token),
+		);
+
+		const basehead = `${encodeURIComponent(args.base)}...${encodeURIComponent(args.head)}`;
+		const response = yield* gh.httpClient
+			.execute(
+				HttpClientRequest.get(
+					`/repos/${args.ownerLogin}/${args.name}/compare/${basehead}`,
+				).pipe(
+					HttpClientRequest.setUrlParam(
+						"per_page",
+						String(MAX_COMPARE_COMMITS),
+					),
+				),
+			)
+			.pipe(
+				Effect.mapError(
+					(error) => new CompareFailed({ status: 0, message: error.message }),
+				),
+			);
+		if (response.status === 404 || response.status === 422) return null;
+		if (response.status < 200 || response.status >= 300) {
+			return yield* new CompareFailed({
+				status: response.status,
+				message: `GitHub compare failed with status ${String(response.status)}`,
+			});
+		}
+		const compare = yield* HttpClientResponse.schemaBodyJson(
+			GitHubCompareResponse,
+		)(response).pipe(
+			Effect.mapError(
+				() =>
+					new CompareFailed({
+						status: response.status,
+						message: "GitHub returned an unreadable comparison",
+					}),
+			),
+		);
+
+		return {
+			status: compare.status,
+			aheadBy: compare.ahead_by,
+			behindBy: compare.behind_by,
+			totalCommits: compare.total_commits,
+			commits: compare.commits.map((c) => ({
+				sha: c.sha,
+				messageHeadline: c.commit.message.split("\n")[0] ?? "",
+				authorLogin: c.author?.login ?? null,
+				authorAvatarUrl: c.author?.avatar_url ?? null,
+				authoredAt: parseTimestamp(c.commit.author?.date),
+			})),
+			files: compare.files.map((f) => ({
+				filename: f.filename,
+				previousFilename: f.previous_filename ?? null,
+				status: f.status,
+				additions: f.additions,
+				deletions: f.deletions,
+				patch: f.patch ?? null,
+			})),
+		};
+	}),
+);
 
 // ---------------------------------------------------------------------------
 // Module
@@ -723,6 +1292,7 @@ const codeBrowseModule = makeRpcModule(
 	{
 		getFileTree: getFileTreeDef,
 		getFileContent: getFileContentDef,
+		compareRefs: compareRefsDef,
 		upsertTreeCache: upsertTreeCacheDef,
 		upsertFileCache: upsertFileCacheDef,
 		getCachedTree: getCachedTreeDef,
@@ -740,6 +1310,7 @@ const codeBrowseModule = makeRpcModule(
 export const {
 	getFileTree,
 	getFileContent,
+	compareRefs,
 	upsertTreeCache,
 	upsertFileCache,
 	getCachedTree,
@@ -15,8 +15,11 @@ import {
 	fetchArrayLenient,
 	GitHubApiClient,
 	type GitHubApiError,
+	userTokenIdentity,
 } from "../shared/githubApi";
 import { getInstallationToken } from "../shared/githubApp";
+import { makeGitHubResponseCache } from "../shared/githubHttpCache";
+import { makeGitHubRateLimitLedger } from "../shared/githubRateLimit";
 import { lookupGitHubTokenByUserIdConfect } from "../shared/githubToken";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 import {
@@ -51,9 +54,18 @@ const MAX_FILES_PER_PR = 300;
  */
 const MAX_JOB_LOG_CHARS = 200_000;
 
+/**
+ * Maximum number of annotations stored per check run.
+ * GitHub returns 50 per page; linters can emit thousands on a bad commit.
+ */
+const MAX_ANNOTATIONS_PER_CHECK_RUN = 200;
+
 /** Max pages fetched when listing GitHub assignees (100/page). */
 const MAX_ASSIGNEE_FETCH_PAGES = 10;
 
+/** Max pages fetched when listing teams with repository access (100/page). */
+const MAX_TEAM_FETCH_PAGES = 3;
+
 /** Sync users whose permissions are older than 6 hours. */
 const PERMISSION_STALE_WINDOW_MS = 6 * 60 * 60 * 1000;
 
@@ -122,6 +134,27 @@ const PullRequestFileForSyncSchema = Schema.Struct({
 
 const num = (v: unknown): number => toNumberOrNull(v) ?? 0;
 
+const CheckAnnotationForSyncSchema = Schema.Struct({
+	path: Schema.String,
+	start_line: Schema.Number,
+	end_line: Schema.Number,
+	annotation_level: Schema.NullOr(Schema.String),
+	title: Schema.optional(Schema.NullOr(Schema.String)),
+	message: Schema.NullOr(Schema.String),
+	raw_details: Schema.optional(Schema.NullOr(Schema.String)),
+});
+
+const CheckAnnotationLevelSchema = Schema.Literal(
+	"notice",
+	"warning",
+	"failure",
+);
+
+const toAnnotationLevel = (
+	v: string | null,
+): typeof CheckAnnotationLevelSchema.Type =>
+	v === "failure" || v === "warning" ? v : "notice";
+
 const GitHubAccountSchema = Schema.Struct({
 	accountId: Schema.String,
 	accessToken: Schema.optional(Schema.NullOr(Schema.String)),
@@ -386,6 +419,26 @@ const listRepoAssigneesDef = factory
 	})
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
+const RepoTeamListItemSchema = Schema.Struct({
+	slug: Schema.String,
+	name: Schema.String,
+	description: Schema.NullOr(Schema.String),
+});
+
+/**
+ * Fetch the teams with access to a repository directly from GitHub, for
+ * team review requests. Personal repositories (404) have no teams.
+ */
+const listRepoTeamsDef = factory
+	.action({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+		},
+		success: Schema.Array(RepoTeamListItemSchema),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
 /**
  * Fetch PR file list from GitHub and persist to Convex.
  * This is the main entry-point for the diff sync pipeline.
@@ -446,6 +499,55 @@ const upsertPrFilesDef = factory.internalMutation({
 	success: Schema.Struct({ upserted: Schema.Number }),
 });
 
+/**
+ * Internal action: fetch annotations for failed check runs on a PR head.
+ *
+ * Scheduled by `projectionQueries.requestCheckAnnotationSync` when a PR page
+ * is opened. Each run's annotations replace whatever was stored for it.
+ */
+const syncCheckAnnotationsDef = factory.internalAction({
+	payload: {
+		ownerLogin: Schema.String,
+		name: Schema.String,
+		repositoryId: Schema.Number,
+		headSha: Schema.String,
+		/** GitHub App installation ID for token resolution. */
+		installationId: Schema.Number,
+		checkRuns: Schema.Array(
+			Schema.Struct({
+				githubCheckRunId: Schema.Number,
+				name: Schema.String,
+			}),
+		),
+	},
+	success: Schema.Struct({ annotationCount: Schema.Number }),
+});
+
+/**
+ * Internal mutation: replace the stored annotations for one check run and
+ * mark the run as fetched.
+ */
+const replaceCheckAnnotationsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		headSha: Schema.String,
+		githubCheckRunId: Schema.Number,
+		checkRunName: Schema.String,
+		annotations: Schema.Array(
+			Schema.Struct({
+				path: Schema.String,
+				startLine: Schema.Number,
+				endLine: Schema.Number,
+				annotationLevel: CheckAnnotationLevelSchema,
+				title: Schema.NullOr(Schema.String),
+				message: Schema.String,
+				rawDetails: Schema.NullOr(Schema.String),
+			}),
+		),
+	},
+	success: Schema.Struct({ inserted: Schema.Number }),
+});
+
 /**
  * Public action: sync the signed-in viewer's repository permissions.
  * Intended to run after login/session refresh from the client.
@@ -476,6 +578,8 @@ const syncStalePermissionsDef = factory.internalAction({
 	success: Schema.Struct({
 		attemptedUsers: Schema.Number,
 		syncedUsers: Schema.Number,
+		/** Skipped because the user's token budget is in the interactive reserve */
+		deferredUsers: Schema.Number,
 	}),
 });
 
@@ -584,7 +688,10 @@ const syncPermissionsForUser = (userId: string) =>
 
 		const gh = yield* Effect.provide(
 			GitHubApiClient,
-			GitHubApiClient.fromToken(accessToken),
+			GitHubApiClient.fromToken(accessToken, {
+				cache: makeGitHubResponseCache(ctx, userTokenIdentity(userId)),
+				rateLimits: makeGitHubRateLimitLedger(ctx, userTokenIdentity(userId)),
+			}),
 		);
 
 		const repoPermissions: Array<
@@ -898,7 +1005,22 @@ syncStalePermissionsDef.implement((args) =>
 		);
 
 		let syncedUsers = 0;
+		let deferredUsers = 0;
 		for (const userId of userIds) {
+			// Leave low budgets to the user's own requests; they stay stale and
+			// are picked up again on a later run.
+			const budgetRaw = yield* ctx.runQuery(
+				internal.rpc.githubRateLimits.getRateLimitDeferral,
+				{ identity: userTokenIdentity(userId), priority: "background" },
+			);
+			const budget = Schema.decodeUnknownSync(
+				Schema.Struct({ deferMs: Schema.Number }),
+			)(budgetRaw);
+			if (budget.deferMs > 0) {
+				deferredUsers++;
+				continue;
+			}
+
 			const result = yield* syncPermissionsForUser(userId).pipe(
 				Effect.catchAll(() =>
 					Effect.succeed({
@@ -916,8 +1038,9 @@ syncStalePermissionsDef.implement((args) =>
 		}
 
 		return {
-			attemptedUsers: userIds.length,
+			attemptedUsers: userIds.length - deferredUsers,
 			syncedUsers,
+			deferredUsers,
 		};
 	}),
 );
@@ -1174,6 +1297,39 @@ listRepoAssigneesDef.implement((args) =>
 	}).pipe(Effect.catchAll(() => Effect.succeed([]))),
 );
 
+listRepoTeamsDef.implement((args) =>
+	Effect.gen(function* () {
+		const permission = yield* ReadGitHubRepoPermission;
+		if (!permission.isAllowed) return [];
+
+		const github = yield* resolveActionsGitHubClient();
+		const teams: Array<Schema.Schema.Type<typeof RepoTeamListItemSchema>> = [];
+
+		for (let page = 1; page <= MAX_TEAM_FETCH_PAGES; page++) {
+			const response = yield* github.httpClient.execute(
+				HttpClientRequest.get(
+					`/repos/${args.ownerLogin}/${args.name}/teams`,
+				).pipe(HttpClientRequest.setUrlParams({ per_page: 100, page })),
+			);
+			if (response.status === 404) return [];
+			if (response.status < 200 || response.status >= 300) {
+				const errorBody = yield* Effect.orElseSucceed(response.text, () => "");
+				return yield* Effect.fail(
+					new Error(`GitHub API returned ${response.status}: ${errorBody}`),
+				);
+			}
+
+			const pageTeams = yield* HttpClientResponse.schemaBodyJson(
+				Schema.Array(RepoTeamListItemSchema),
+			)(response);
+			teams.push(...pageTeams);
+			if (pageTeams.length < 100) break;
+		}
+
+		return teams.sort((a, b) => a.slug.localeCompare(b.slug));
+	}).pipe(Effect.catchAll(() => Effect.succeed([]))),
+);
+
 rerunWorkflowRunDef.implement((args) =>
 	Effect.gen(function* () {
 		const github = yield* resolveActionsGitHubClient();
@@ -1496,6 +1652,106 @@ upsertPrFilesDef.implement((args) =>
 	}),
 );
 
+syncCheckAnnotationsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+
+		if (args.installationId <= 0) return { annotationCount: 0 };
+
+		const token = yield* getInstallationToken(args.installationId);
+		const ghLayer = GitHubApiClient.fromToken(token);
+		let annotationCount = 0;
+
+		for (const checkRun of args.checkRuns) {
+			const annotations: Array<typeof CheckAnnotationForSyncSchema.Type> = [];
+			let page = 1;
+			let hasMore = true;
+			while (hasMore && annotations.length < MAX_ANNOTATIONS_PER_CHECK_RUN) {
+				const annotationsPage = yield* fetchArrayLenient(
+					CheckAnnotationForSyncSchema,
+					HttpClientRequest.get(
+						`/repos/${args.ownerLogin}/${args.name}/check-runs/${String(checkRun.githubCheckRunId)}/annotations`,
+					).pipe(HttpClientRequest.setUrlParams({ per_page: 50, page })),
+				).pipe(Effect.provide(ghLayer));
+
+				annotations.push(...annotationsPage.items);
+				hasMore = annotationsPage.items.length === 50;
+				page += 1;
+			}
+
+			const stored = annotations
+				.slice(0, MAX_ANNOTATIONS_PER_CHECK_RUN)
+				.map((a) => ({
+					path: a.path,
+					startLine: a.start_line,
+					endLine: a.end_line,
+					annotationLevel: toAnnotationLevel(a.annotation_level),
+					title: a.title ?? null,
+					message: a.message ?? "",
+					rawDetails: a.raw_details ?? null,
+				}));
+
+			yield* ctx.runMutation(
+				internal.rpc.githubActions.replaceCheckAnnotations,
+				{
+					repositoryId: args.repositoryId,
+					headSha: args.headSha,
+					githubCheckRunId: checkRun.githubCheckRunId,
+					checkRunName: checkRun.name,
+					annotations: stored,
+				},
+			);
+			annotationCount += stored.length;
+		}
+
+		return { annotationCount };
+	}).pipe(Effect.catchAll(() => Effect.succeed({ annotationCount: 0 }))),
+);
+
+replaceCheckAnnotationsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+
+		const existing = yield* ctx.db
+			.query("github_check_annotations")
+			.withIndex("by_repositoryId_and_githubCheckRunId", (q) =>
+				q
+					.eq("repositoryId", args.repositoryId)
+					.eq("githubCheckRunId", args.githubCheckRunId),
+			)
+			.collect();
+		for (const annotation of existing) {
+			yield* ctx.db.delete(annotation._id);
+		}
+
+		for (const annotation of args.annotations) {
+			yield* ctx.db.insert("github_check_annotations", {
+				repositoryId: args.repositoryId,
+				headSha: args.headSha,
+				githubCheckRunId: args.githubCheckRunId,
+				checkRunName: args.checkRunName,
+				...annotation,
+				cachedAt: now,
+			});
+		}
+
+		const checkRun = yield* ctx.db
+			.query("github_check_runs")
+			.withIndex("by_repositoryId_and_githubCheckRunId", (q) =>
+				q
+					.eq("repositoryId", args.repositoryId)
+					.eq("githubCheckRunId", args.githubCheckRunId),
+			)
+			.first();
+		if (Option.isSome(checkRun)) {
+			yield* ctx.db.patch(checkRun.value._id, { annotationsFetchedAt: now });
+		}
+
+		return { inserted: args.annotations.length };
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Module
 // ---------------------------------------------------------------------------
@@ -1512,8 +1768,11 @@ const githubActionsModule = makeRpcModule(
 		fetchPrDiff: fetchPrDiffDef,
 		fetchWorkflowJobLogs: fetchWorkflowJobLogsDef,
 		listRepoAssignees: listRepoAssigneesDef,
+		listRepoTeams: listRepoTeamsDef,
 		syncPrFiles: syncPrFilesDef,
 		upsertPrFiles: upsertPrFilesDef,
+		syncCheckAnnotations: syncCheckAnnotationsDef,
+		replaceCheckAnnotations: replaceCheckAnnotationsDef,
 		// Actions control plane
 		rerunWorkflowRun: rerunWorkflowRunDef,
 		rerunFailedJobs: rerunFailedJobsDef,
@@ -1536,8 +1795,11 @@ export const {
 	fetchPrDiff,
 	fetchWorkflowJobLogs,
 	listRepoAssignees,
+	listRepoTeams,
 	syncPrFiles,
 	upsertPrFiles,
+	syncCheckAnnotations,
+	replaceCheckAnnotations,
 	rerunWorkflowRun,
 	rerunFailedJobs,
 	cancelWorkflowRun,
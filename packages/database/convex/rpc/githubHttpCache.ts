@@ -0,0 +1,233 @@
+/**
+ * GitHub HTTP cache — storage behind conditional requests.
+ *
+ * `GitHubApiClient` sends `If-None-Match` / `If-Modified-Since` for GETs
+ * that have an entry here and replays the stored body when GitHub answers
+ * 304, which doesn't count against the rate limit. Actions wire it up via
+ * `makeGitHubResponseCache` in shared/githubHttpCache.ts.
+ *
+ * - getCachedResponse / storeCachedResponse / recordCacheHit: used by the client
+ * - getCacheStats: hit rate from the per-identity totals, for operational visibility
+ * - pruneHttpCache: cron cleanup of entries nobody has used recently
+ */
+import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
+import { Effect, Option, Schema } from "effect";
+import { ConfectMutationCtx, ConfectQueryCtx, confectSchema } from "../confect";
+import {
+	CachedGitHubResponseSchema,
+	cacheKeyIdentity,
+	summarizeCacheStats,
+} from "../shared/githubHttpCache";
+import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
+
+const factory = createRpcFactory({ schema: confectSchema });
+
+/** Entries unused for this long are pruned. */
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PRUNE_BATCH_SIZE = 500;
+
+/** Upper bound on identity rows summed by `getCacheStats`. */
+const STATS_IDENTITY_LIMIT = 1000;
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+const getCachedResponseDef = factory.internalQuery({
+	payload: { cacheKey: Schema.String },
+	success: Schema.NullOr(CachedGitHubResponseSchema),
+});
+
+/**
+ * Store a freshly downloaded 200 response. Counts as a cache miss.
+ */
+const storeCachedResponseDef = factory.internalMutation({
+	payload: {
+		cacheKey: Schema.String,
+		url: Schema.String,
+		response: CachedGitHubResponseSchema,
+	},
+	success: Schema.Struct({ created: Schema.Boolean }),
+});
+
+/**
+ * Note that a 304 was answered from the stored body.
+ */
+const recordCacheHitDef = factory.internalMutation({
+	payload: { cacheKey: Schema.String },
+	success: Schema.Struct({ recorded: Schema.Boolean }),
+});
+
+const getCacheStatsDef = factory.internalQuery({
+	success: Schema.Struct({
+		entries: Schema.Number,
+		hits: Schema.Number,
+		misses: Schema.Number,
+		/** hits / (hits + misses), or 0 before any traffic */
+		hitRate: Schema.Number,
+	}),
+});
+
+const pruneHttpCacheDef = factory.internalMutation({
+	success: Schema.Struct({ deleted: Schema.Number }),
+});
+
+// ---------------------------------------------------------------------------
+// Implementations
+// ---------------------------------------------------------------------------
+
+/** Apply deltas to the running totals of the identity owning `cacheKey`. */
+const bumpCacheStats = (
+	cacheKey: string,
+	delta: { entries?: number; hits?: number; misses?: number },
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const identity = cacheKeyIdentity(cacheKey);
+		const now = Date.now();
+		const existing = yield* ctx.db
+			.query("github_http_cache_stats")
+			.withIndex("by_identity", (q) => q.eq("identity", identity))
+			.first();
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.patch(existing.value._id, {
+				entries: Math.max(0, existing.value.entries + (delta.entries ?? 0)),
+				hits: existing.value.hits + (delta.hits ?? 0),
+				misses: existing.value.misses + (delta.misses ?? 0),
+				updatedAt: now,
+			});
+			return;
+		}
+		yield* ctx.db.insert("github_http_cache_stats", {
+			identity,
+			entries: Math.max(0, delta.entries ?? 0),
+			hits: delta.hits ?? 0,
+			misses: delta.misses ?? 0,
+			updatedAt: now,
+		});
+	});
+
+getCachedResponseDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const entry = yield* ctx.db
+			.query("github_http_cache")
+			.withIndex("by_cacheKey", (q) => q.eq("cacheKey", args.cacheKey))
+			.first();
+		if (Option.isNone(entry)) return null;
+
+		return {
+			body: entry.value.body,
+			contentType: entry.value.contentType,
+			etag: entry.value.etag,
+			lastModified: entry.value.lastModified,
+		};
+	}),
+);
+
+storeCachedResponseDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		const existing = yield* ctx.db
+			.query("github_http_cache")
+			.withIndex("by_cacheKey", (q) => q.eq("cacheKey", args.cacheKey))
+			.first();
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.patch(existing.value._id, {
+				...args.response,
+				missCount: existing.value.missCount + 1,
+				cachedAt: now,
+				lastUsedAt: now,
+			});
+			yield* bumpCacheStats(args.cacheKey, { misses: 1 });
+			return { created: false };
+		}
+		yield* ctx.db.insert("github_http_cache", {
+			cacheKey: args.cacheKey,
+			url: args.url,
+			...args.response,
+			hitCount: 0,
+			missCount: 1,
+			cachedAt: now,
+			lastUsedAt: now,
+		});
+		yield* bumpCacheStats(args.cacheKey, { entries: 1, misses: 1 });
+		return { created: true };
+	}),
+);
+
+recordCacheHitDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const existing = yield* ctx.db
+			.query("github_http_cache")
+			.withIndex("by_cacheKey", (q) => q.eq("cacheKey", args.cacheKey))
+			.first();
+		if (Option.isNone(existing)) return { recorded: false };
+
+		yield* ctx.db.patch(existing.value._id, {
+			hitCount: existing.value.hitCount + 1,
+			lastUsedAt: Date.now(),
+		});
+		yield* bumpCacheStats(args.cacheKey, { hits: 1 });
+		return { recorded: true };
+	}),
+);
+
+getCacheStatsDef.implement(() =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const rows = yield* ctx.db
+			.query("github_http_cache_stats")
+			.withIndex("by_updatedAt")
+			.order("desc")
+			.take(STATS_IDENTITY_LIMIT);
+		return summarizeCacheStats(rows);
+	}),
+);
+
+pruneHttpCacheDef.implement(() =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const cutoff = Date.now() - CACHE_TTL_MS;
+		const stale = yield* ctx.db
+			.query("github_http_cache")
+			.withIndex("by_lastUsedAt", (q) => q.lt("lastUsedAt", cutoff))
+			.take(PRUNE_BATCH_SIZE);
+
+		for (const entry of stale) {
+			yield* ctx.db.delete(entry._id);
+			yield* bumpCacheStats(entry.cacheKey, { entries: -1 });
+		}
+		return { deleted: stale.length };
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// Module
+// ---------------------------------------------------------------------------
+
+const githubHttpCacheModule = makeRpcModule(
+	{
+		getCachedResponse: getCachedResponseDef,
+		storeCachedResponse: storeCachedResponseDef,
+		recordCacheHit: recordCacheHitDef,
+		getCacheStats: getCacheStatsDef,
+		pruneHttpCache: pruneHttpCacheDef,
+	},
+	{ middlewares: DatabaseRpcModuleMiddlewares },
+);
+
+export const {
+	getCachedResponse,
+	storeCachedResponse,
+	recordCacheHit,
+	getCacheStats,
+	pruneHttpCache,
+} = githubHttpCacheModule.handlers;
+export { githubHttpCacheModule };
+export type GitHubHttpCacheModule = typeof githubHttpCacheModule;
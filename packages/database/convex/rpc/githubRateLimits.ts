@@ -0,0 +1,131 @@
+/**
+ * GitHub rate-limit ledger — remaining budget per token identity.
+ *
+ * `GitHubApiClient` records `X-RateLimit-*` headers here via
+ * `makeGitHubRateLimitLedger` in shared/githubRateLimit.ts. Background work
+ * (bootstrap chunks, stale permission sync) checks the ledger before
+ * spending requests and waits for the reset once the remaining budget falls
+ * into the reserve kept for interactive reads and writes.
+ *
+ * - recordRateLimit: upsert a snapshot from response headers
+ * - getRateLimitDeferral: how long work of a given priority should wait
+ */
+import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
+import { Effect, Option, Schema } from "effect";
+import { ConfectMutationCtx, ConfectQueryCtx, confectSchema } from "../confect";
+import { rateLimitDeferralMs } from "../shared/githubApi";
+import {
+	GitHubRateLimitPrioritySchema,
+	GitHubRateLimitSnapshotSchema,
+} from "../shared/githubRateLimit";
+import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
+
+const factory = createRpcFactory({ schema: confectSchema });
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+/**
+ * Store the latest snapshot for an identity's resource. Concurrent actions
+ * can report out of order, so within one window the lowest remaining wins
+ * and snapshots from an earlier window are ignored.
+ */
+const recordRateLimitDef = factory.internalMutation({
+	payload: {
+		identity: Schema.String,
+		snapshot: GitHubRateLimitSnapshotSchema,
+	},
+	success: Schema.Struct({ recorded: Schema.Boolean }),
+});
+
+/**
+ * Milliseconds to wait before spending from the identity's REST budget.
+ * Identities we haven't seen yet are never deferred.
+ */
+const getRateLimitDeferralDef = factory.internalQuery({
+	payload: {
+		identity: Schema.String,
+		priority: GitHubRateLimitPrioritySchema,
+	},
+	success: Schema.Struct({
+		deferMs: Schema.Number,
+		remaining: Schema.NullOr(Schema.Number),
+	}),
+});
+
+// ---------------------------------------------------------------------------
+// Implementations
+// ---------------------------------------------------------------------------
+
+recordRateLimitDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { snapshot } = args;
+		const existing = yield* ctx.db
+			.query("github_rate_limits")
+			.withIndex("by_identity_and_resource", (q) =>
+				q.eq("identity", args.identity).eq("resource", snapshot.resource),
+			)
+			.first();
+
+		if (Option.isNone(existing)) {
+			yield* ctx.db.insert("github_rate_limits", {
+				identity: args.identity,
+				...snapshot,
+				updatedAt: Date.now(),
+			});
+			return { recorded: true };
+		}
+
+		const current = existing.value;
+		if (snapshot.resetAt < current.resetAt) return { recorded: false };
+		if (
+			snapshot.resetAt === current.resetAt &&
+			snapshot.remaining >= current.remaining
+		) {
+			return { recorded: false };
+		}
+
+		yield* ctx.db.patch(current._id, {
+			...snapshot,
+			updatedAt: Date.now(),
+		});
+		return { recorded: true };
+	}),
+);
+
+getRateLimitDeferralDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const entry = yield* ctx.db
+			.query("github_rate_limits")
+			.withIndex("by_identity_and_resource", (q) =>
+				q.eq("identity", args.identity).eq("resource", "core"),
+			)
+			.first();
+		if (Option.isNone(entry)) return { deferMs: 0, remaining: null };
+
+		return {
+			deferMs: rateLimitDeferralMs(entry.value, args.priority, Date.now()),
+			remaining: entry.value.remaining,
+		};
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// Module
+// ---------------------------------------------------------------------------
+
+const githubRateLimitsModule = makeRpcModule(
+	{
+		recordRateLimit: recordRateLimitDef,
+		getRateLimitDeferral: getRateLimitDeferralDef,
+	},
+	{ middlewares: DatabaseRpcModuleMiddlewares },
+);
+
+export const { recordRateLimit, getRateLimitDeferral } =
+	githubRateLimitsModule.handlers;
+export { githubRateLimitsModule };
+export type GitHubRateLimitsModule = typeof githubRateLimitsModule;
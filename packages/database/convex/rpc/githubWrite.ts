@@ -15,21 +15,36 @@
  * immediately, then converge to confirmed state.
  */
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
-import { Effect, Option, Schema } from "effect";
-import { internal } from "../_generated/api";
+import { Effect, Either, Option, Schema } from "effect";
+import { components, internal } from "../_generated/api";
 import {
 	ConfectActionCtx,
 	ConfectMutationCtx,
 	ConfectQueryCtx,
 	confectSchema,
 } from "../confect";
-import { toNumberOrNull as num } from "../shared/coerce";
-import { GitHubApiClient, type GitHubClient } from "../shared/githubApi";
+import { syncCommentDelete } from "../shared/aggregateSync";
+import { toNumberOrNull as num, toObjectRecord } from "../shared/coerce";
+import {
+	GitHubApiClient,
+	type GitHubClient,
+	userTokenIdentity,
+} from "../shared/githubApi";
+import { makeGitHubRateLimitLedger } from "../shared/githubRateLimit";
 import { lookupGitHubTokenByUserIdConfect } from "../shared/githubToken";
+import {
+	adjustReactionSummary,
+	isReactionCounted,
+	type ReactionContent,
+	ReactionContentSchema,
+} from "../shared/reactions";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 import {
 	ReadGitHubRepoByIdMiddleware,
 	ReadGitHubRepoPermission,
+	RepoMaintainByIdMiddleware,
+	RepoPermissionContext,
+	RepoPullByNameMiddleware,
 } from "./security";
 
 const factory = createRpcFactory({ schema: confectSchema });
@@ -41,12 +56,47 @@ const factory = createRpcFactory({ schema: confectSchema });
 const OperationType = Schema.Literal(
 	"create_issue",
 	"create_comment",
+	"create_pull_request",
 	"update_issue_state",
 	"merge_pull_request",
 	"update_pull_request_branch",
 	"submit_pr_review",
 	"update_labels",
 	"update_assignees",
+	"request_reviewers",
+	"remove_reviewers",
+	"update_title_body",
+	"convert_pull_request_draft",
+	"update_lock_state",
+	"add_reaction",
+	"remove_reaction",
+	"update_comment",
+	"delete_comment",
+);
+
+/** Issue/PR edits tracked on the mirrored rows via `recordPendingEntityWrite`. */
+const EntityWriteOperationType = Schema.Literal(
+	"request_reviewers",
+	"remove_reviewers",
+	"update_title_body",
+	"convert_pull_request_draft",
+	"update_lock_state",
+);
+
+const ReactionSubjectType = Schema.Literal(
+	"issue",
+	"issue_comment",
+	"review_comment",
+);
+
+const CommentType = Schema.Literal("issue_comment", "review_comment");
+
+/** Reasons GitHub accepts when locking a conversation */
+const LockReason = Schema.Literal(
+	"off-topic",
+	"too heated",
+	"resolved",
+	"spam",
 );
 
 const OperationState = Schema.Literal(
@@ -144,6 +194,38 @@ const getActingUserId = (ctx: {
 		return identity.value.subject;
 	});
 
+const GitHubAccountSchema = Schema.Struct({ accountId: Schema.String });
+const decodeGitHubAccount = Schema.decodeUnknownEither(GitHubAccountSchema);
+
+/**
+ * Resolve the signed-in user's numeric GitHub ID from their better-auth
+ * GitHub account. Reactions are tracked per GitHub user so the UI can tell
+ * whether the viewer already reacted.
+ */
+const getActingGitHubUserId = (
+	ctx: ConfectActionCtx,
+	actingUserId: string,
+): Effect.Effect<number, NotAuthenticated> =>
+	Effect.gen(function* () {
+		const account = yield* ctx.runQuery(components.betterAuth.adapter.findOne, {
+			model: "account",
+			where: [
+				{ field: "providerId", value: "github" },
+				{ field: "userId", value: actingUserId },
+			],
+		});
+		const decoded = decodeGitHubAccount(account);
+		const githubUserId = Either.isRight(decoded)
+			? Number(decoded.right.accountId)
+			: Number.NaN;
+		if (Number.isNaN(githubUserId)) {
+			return yield* new NotAuthenticated({
+				reason: "No linked GitHub account",
+			});
+		}
+		return githubUserId;
+	});
+
 const resolveWriteTokenAndClient = (
 	ctx: ConfectActionCtx,
 	actingUserId: string,
@@ -164,12 +246,37 @@ const resolveWriteTokenAndClient = (
 
 		const gh = yield* Effect.provide(
 			GitHubApiClient,
-			GitHubApiClient.fromToken(token),
+			GitHubApiClient.fromToken(token, {
+				rateLimits: makeGitHubRateLimitLedger(
+					ctx,
+					userTokenIdentity(actingUserId),
+				),
+			}),
 		);
 
 		return { token, gh };
 	});
 
+/**
+ * The repository the permission middleware resolved from `ownerLogin` /
+ * `name`. Optimistic writes land on rows keyed by this ID, so a client-sent
+ * `repositoryId` naming a different repository is rejected before any write.
+ */
+const resolveAuthorizedRepositoryId = (
+	args: { readonly repositoryId: number },
+	required: typeof RequiredPermission.Type,
+) =>
+	Effect.gen(function* () {
+		const permission = yield* RepoPermissionContext;
+		if (permission.repositoryId !== args.repositoryId) {
+			return yield* new InsufficientPermission({
+				repositoryId: args.repositoryId,
+				required,
+			});
+		}
+		return permission.repositoryId;
+	});
+
 const ensureWriteSucceeded = (result: {
 	success: boolean;
 	errorStatus: number | null;
@@ -220,7 +327,12 @@ const executeWithAuthRefreshRetry = <
 
 		const refreshedGh = yield* Effect.provide(
 			GitHubApiClient,
-			GitHubApiClient.fromToken(refreshedToken),
+			GitHubApiClient.fromToken(refreshedToken, {
+				rateLimits: makeGitHubRateLimitLedger(
+					ctx,
+					userTokenIdentity(actingUserId),
+				),
+			}),
 		);
 
 		return yield* execute({ token: refreshedToken, gh: refreshedGh });
@@ -431,6 +543,113 @@ updatePullRequestBranchDef.implement((args) =>
 	}),
 );
 
+/**
+ * Open a pull request from `head` into `base`. Returns the new PR number so
+ * the UI can navigate to it; the `pull_request` webhook mirrors the row.
+ */
+const createPullRequestDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			title: Schema.String,
+			body: Schema.optional(Schema.String),
+			base: Schema.String,
+			head: Schema.String,
+			draft: Schema.optional(Schema.Boolean),
+		},
+		success: Schema.Struct({
+			correlationId: Schema.String,
+			number: Schema.Number,
+		}),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
+
+createPullRequestDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+		const draft = args.draft ?? false;
+
+		const record = Schema.decodeUnknownSync(
+			PullRequestCreateRecordResultSchema,
+		)(
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.recordPendingPullRequestCreate,
+				{
+					correlationId: args.correlationId,
+					repositoryId,
+					title: args.title,
+					body: args.body ?? null,
+					base: args.base,
+					head: args.head,
+					draft,
+				},
+			),
+		);
+		if (!record.recorded) {
+			return yield* new DuplicateOperationError({
+				correlationId: args.correlationId,
+			});
+		}
+
+		const executed = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeCreatePullRequest(
+					args.ownerLogin,
+					args.name,
+					{
+						title: args.title,
+						body: args.body,
+						base: args.base,
+						head: args.head,
+						draft,
+					},
+					token,
+				),
+		);
+		const result =
+			executed.success && executed.entityNumber === null
+				? failedResult("GitHub did not return a pull request number")
+				: executed;
+
+		if (result.success && result.entityNumber !== null) {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markPullRequestCreateAccepted,
+				{ correlationId: args.correlationId, number: result.entityNumber },
+			);
+			return {
+				correlationId: args.correlationId,
+				number: result.entityNumber,
+			};
+		}
+
+		yield* ctx.runMutation(
+			internal.rpc.githubWrite.markPullRequestCreateFailed,
+			{
+				correlationId: args.correlationId,
+				errorMessage: result.errorMessage ?? "Unknown error",
+				errorStatus: result.errorStatus,
+			},
+		);
+		return yield* new GitHubWriteError({
+			status: result.errorStatus,
+			message: result.errorMessage ?? "GitHub write failed",
+		});
+	}),
+);
+
 const submitPrReviewDef = factory.action({
 	payload: {
 		correlationId: Schema.String,
@@ -551,995 +770,3768 @@ updateAssigneesDef.implement((args) =>
 	}),
 );
 
-// ---------------------------------------------------------------------------
-// 2. Internal action — execute the GitHub API call
-// ---------------------------------------------------------------------------
+const PullRequestCreateRecordResultSchema = Schema.Struct({
+	recorded: Schema.Boolean,
+});
+
+const EntityWriteRecordResultSchema = Schema.Struct({
+	recorded: Schema.Boolean,
+	reason: Schema.Literal("recorded", "duplicate", "not_found"),
+});
 
 /**
- * Execute a pending write operation by calling the GitHub API.
- * On success/failure, updates optimistic state on domain rows.
+ * Mark the issue/PR rows as carrying a pending write before the GitHub call.
+ * Items not mirrored yet are still written to GitHub, just untracked.
  */
-const executeWriteOperationDef = factory.internalAction({
-	payload: { correlationId: Schema.String, actingUserId: Schema.String },
-	success: Schema.Struct({ completed: Schema.Boolean }),
-});
+const beginEntityWrite = (
+	ctx: ConfectActionCtx,
+	args: {
+		correlationId: string;
+		repositoryId: number;
+		number: number;
+		operationType: typeof EntityWriteOperationType.Type;
+		payload: Record<string, unknown>;
+	},
+) =>
+	Effect.gen(function* () {
+		const record = Schema.decodeUnknownSync(EntityWriteRecordResultSchema)(
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.recordPendingEntityWrite,
+				{
+					correlationId: args.correlationId,
+					repositoryId: args.repositoryId,
+					number: args.number,
+					operationType: args.operationType,
+					payloadJson: JSON.stringify(args.payload),
+				},
+			),
+		);
+		if (record.reason === "duplicate") {
+			return yield* new DuplicateOperationError({
+				correlationId: args.correlationId,
+			});
+		}
+	});
 
-executeWriteOperationDef.implement((args) =>
+/**
+ * Request reviews from users (`reviewers`, by login) and teams
+ * (`teamReviewers`, by slug) on a pull request.
+ */
+const requestReviewersDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			number: Schema.Number,
+			reviewers: Schema.Array(Schema.String),
+			teamReviewers: Schema.Array(Schema.String),
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
+
+requestReviewersDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectActionCtx;
-		const pendingIssueResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingIssueCreate,
-			{ correlationId: args.correlationId },
-		);
-		const PendingIssueResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			repositoryId: Schema.optional(Schema.Number),
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			title: Schema.optional(Schema.String),
-			body: Schema.optional(Schema.NullOr(Schema.String)),
-			labels: Schema.optional(Schema.Array(Schema.String)),
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+
+		yield* beginEntityWrite(ctx, {
+			correlationId: args.correlationId,
+			repositoryId,
+			number: args.number,
+			operationType: "request_reviewers",
+			payload: {
+				reviewers: args.reviewers,
+				teamReviewers: args.teamReviewers,
+			},
 		});
-		const pendingIssue = Schema.decodeUnknownSync(PendingIssueResultSchema)(
-			pendingIssueResult,
-		);
 
-		const token = yield* lookupGitHubTokenByUserIdConfect(
-			(query, params) => ctx.runQuery(query, params),
-			(mutation, params) => ctx.runMutation(mutation, params),
-			args.actingUserId,
-		);
-		const gh = yield* Effect.provide(
-			GitHubApiClient,
-			GitHubApiClient.fromToken(token),
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeUpdateReviewers(
+					args.ownerLogin,
+					args.name,
+					"request",
+					{
+						number: args.number,
+						reviewers: args.reviewers,
+						teamReviewers: args.teamReviewers,
+					},
+					token,
+				),
 		);
 
-		if (pendingIssue.found) {
-			const issueInput = {
-				title: pendingIssue.title ?? "",
-				body: pendingIssue.body ?? undefined,
-				labels: pendingIssue.labels ?? [],
-			};
-
-			const issueResult = yield* executeCreateIssue(
-				gh,
-				pendingIssue.ownerLogin ?? "",
-				pendingIssue.repoName ?? "",
-				issueInput,
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
-				),
+		if (result.success) {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markReviewersUpdateAccepted,
+				{ correlationId: args.correlationId },
+			);
+		} else {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markReviewersUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: result.errorMessage ?? "Unknown error",
+					errorStatus: result.errorStatus,
+				},
 			);
+		}
+		yield* ensureWriteSucceeded(result);
 
-			if (issueResult.success && issueResult.resultData !== null) {
-				const issueNumber = num(issueResult.resultData.number);
-				const issueId = num(issueResult.resultData.issueId);
-				if (issueNumber !== null && issueId !== null) {
-					yield* ctx.runMutation(
-						internal.rpc.githubWrite.markIssueCreateAccepted,
-						{
-							correlationId: args.correlationId,
-							githubIssueId: issueId,
-							githubIssueNumber: issueNumber,
-						},
-					);
-					return { completed: true };
-				}
-			}
+		return { correlationId: args.correlationId };
+	}),
+);
 
-			yield* ctx.runMutation(internal.rpc.githubWrite.markIssueCreateFailed, {
-				correlationId: args.correlationId,
-				errorMessage: issueResult.errorMessage ?? "Unknown error",
-				errorStatus: issueResult.errorStatus,
-			});
-			return { completed: false };
-		}
+const removeReviewersDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			number: Schema.Number,
+			reviewers: Schema.Array(Schema.String),
+			teamReviewers: Schema.Array(Schema.String),
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
 
-		const pendingCommentResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingCommentCreate,
-			{ correlationId: args.correlationId },
-		);
-		const PendingCommentResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			number: Schema.optional(Schema.Number),
-			body: Schema.optional(Schema.String),
+removeReviewersDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+
+		yield* beginEntityWrite(ctx, {
+			correlationId: args.correlationId,
+			repositoryId,
+			number: args.number,
+			operationType: "remove_reviewers",
+			payload: {
+				reviewers: args.reviewers,
+				teamReviewers: args.teamReviewers,
+			},
 		});
-		const pendingComment = Schema.decodeUnknownSync(PendingCommentResultSchema)(
-			pendingCommentResult,
+
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeUpdateReviewers(
+					args.ownerLogin,
+					args.name,
+					"remove",
+					{
+						number: args.number,
+						reviewers: args.reviewers,
+						teamReviewers: args.teamReviewers,
+					},
+					token,
+				),
 		);
-		if (pendingComment.found) {
-			const commentResult = yield* executeCreateComment(
-				gh,
-				pendingComment.ownerLogin ?? "",
-				pendingComment.repoName ?? "",
+
+		if (result.success) {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markReviewersUpdateAccepted,
+				{ correlationId: args.correlationId },
+			);
+		} else {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markReviewersUpdateFailed,
 				{
-					number: pendingComment.number ?? 0,
-					body: pendingComment.body ?? "",
+					correlationId: args.correlationId,
+					errorMessage: result.errorMessage ?? "Unknown error",
+					errorStatus: result.errorStatus,
 				},
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
-				),
 			);
+		}
+		yield* ensureWriteSucceeded(result);
 
-			if (commentResult.success && commentResult.resultData !== null) {
-				const commentId = num(commentResult.resultData.commentId);
-				if (commentId !== null) {
-					yield* ctx.runMutation(
-						internal.rpc.githubWrite.markCommentCreateAccepted,
-						{ correlationId: args.correlationId, githubCommentId: commentId },
-					);
-					return { completed: true };
-				}
-			}
+		return { correlationId: args.correlationId };
+	}),
+);
 
-			yield* ctx.runMutation(internal.rpc.githubWrite.markCommentCreateFailed, {
-				correlationId: args.correlationId,
-				errorMessage: commentResult.errorMessage ?? "Unknown error",
-				errorStatus: commentResult.errorStatus,
-			});
-			return { completed: false };
-		}
+/**
+ * Edit the title and/or body of an issue or pull request. Omitted fields are
+ * left unchanged on GitHub.
+ */
+const updateTitleBodyDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			number: Schema.Number,
+			title: Schema.optional(Schema.String),
+			body: Schema.optional(Schema.String),
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
 
-		const pendingStateResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingIssueStateUpdate,
-			{ correlationId: args.correlationId },
-		);
-		const PendingStateResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			number: Schema.optional(Schema.Number),
-			state: Schema.optional(Schema.Literal("open", "closed")),
+updateTitleBodyDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+
+		yield* beginEntityWrite(ctx, {
+			correlationId: args.correlationId,
+			repositoryId,
+			number: args.number,
+			operationType: "update_title_body",
+			payload: { title: args.title, body: args.body },
 		});
-		const pendingState = Schema.decodeUnknownSync(PendingStateResultSchema)(
-			pendingStateResult,
-		);
-		if (pendingState.found) {
-			const stateResult = yield* executeUpdateIssueState(
-				gh,
-				pendingState.ownerLogin ?? "",
-				pendingState.repoName ?? "",
-				{
-					number: pendingState.number ?? 0,
-					state: pendingState.state ?? "closed",
-				},
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
-				),
-			);
 
-			if (stateResult.success) {
-				yield* ctx.runMutation(
-					internal.rpc.githubWrite.markIssueStateUpdateAccepted,
-					{ correlationId: args.correlationId },
-				);
-				return { completed: true };
-			}
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ gh }) =>
+				executeUpdateTitleBody(gh, args.ownerLogin, args.name, {
+					number: args.number,
+					title: args.title,
+					body: args.body,
+				}),
+		);
 
+		if (result.success) {
 			yield* ctx.runMutation(
-				internal.rpc.githubWrite.markIssueStateUpdateFailed,
+				internal.rpc.githubWrite.markTitleBodyUpdateAccepted,
+				{ correlationId: args.correlationId },
+			);
+		} else {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markTitleBodyUpdateFailed,
 				{
 					correlationId: args.correlationId,
-					errorMessage: stateResult.errorMessage ?? "Unknown error",
-					errorStatus: stateResult.errorStatus,
+					errorMessage: result.errorMessage ?? "Unknown error",
+					errorStatus: result.errorStatus,
 				},
 			);
-			return { completed: false };
 		}
+		yield* ensureWriteSucceeded(result);
 
-		const pendingMergeResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingPullRequestMerge,
-			{ correlationId: args.correlationId },
-		);
-		const PendingMergeResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			number: Schema.optional(Schema.Number),
-			mergeMethod: Schema.optional(
-				Schema.NullOr(Schema.Literal("merge", "squash", "rebase")),
-			),
-			commitTitle: Schema.optional(Schema.NullOr(Schema.String)),
-			commitMessage: Schema.optional(Schema.NullOr(Schema.String)),
+		return { correlationId: args.correlationId };
+	}),
+);
+
+/**
+ * Convert a pull request to a draft (`draft: true`) or mark it ready for
+ * review (`draft: false`).
+ */
+const updatePullRequestDraftDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			number: Schema.Number,
+			draft: Schema.Boolean,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
+
+updatePullRequestDraftDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+
+		yield* beginEntityWrite(ctx, {
+			correlationId: args.correlationId,
+			repositoryId,
+			number: args.number,
+			operationType: "convert_pull_request_draft",
+			payload: { draft: args.draft },
 		});
-		const pendingMerge = Schema.decodeUnknownSync(PendingMergeResultSchema)(
-			pendingMergeResult,
-		);
-		if (pendingMerge.found) {
-			const mergeResult = yield* executeMergePullRequest(
-				gh,
-				pendingMerge.ownerLogin ?? "",
-				pendingMerge.repoName ?? "",
-				{
-					number: pendingMerge.number ?? 0,
-					mergeMethod: pendingMerge.mergeMethod ?? undefined,
-					commitTitle: pendingMerge.commitTitle ?? undefined,
-					commitMessage: pendingMerge.commitMessage ?? undefined,
-				},
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
-				),
-			);
 
-			if (mergeResult.success) {
-				yield* ctx.runMutation(
-					internal.rpc.githubWrite.markMergePullRequestAccepted,
-					{ correlationId: args.correlationId },
-				);
-				return { completed: true };
-			}
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeUpdatePullRequestDraft(
+					args.ownerLogin,
+					args.name,
+					{ number: args.number, draft: args.draft },
+					token,
+				),
+		);
 
+		if (result.success) {
 			yield* ctx.runMutation(
-				internal.rpc.githubWrite.markMergePullRequestFailed,
+				internal.rpc.githubWrite.markPullRequestDraftUpdateAccepted,
+				{ correlationId: args.correlationId },
+			);
+		} else {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markPullRequestDraftUpdateFailed,
 				{
 					correlationId: args.correlationId,
-					errorMessage: mergeResult.errorMessage ?? "Unknown error",
-					errorStatus: mergeResult.errorStatus,
+					errorMessage: result.errorMessage ?? "Unknown error",
+					errorStatus: result.errorStatus,
 				},
 			);
-			return { completed: false };
 		}
+		yield* ensureWriteSucceeded(result);
 
-		const pendingBranchUpdateResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingPullRequestBranchUpdate,
-			{ correlationId: args.correlationId },
-		);
-		const PendingBranchUpdateResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			number: Schema.optional(Schema.Number),
-			expectedHeadSha: Schema.optional(Schema.NullOr(Schema.String)),
+		return { correlationId: args.correlationId };
+	}),
+);
+
+/**
+ * Lock or unlock the conversation on an issue or pull request.
+ */
+const updateLockStateDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			number: Schema.Number,
+			locked: Schema.Boolean,
+			lockReason: Schema.optional(LockReason),
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
+
+updateLockStateDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+
+		yield* beginEntityWrite(ctx, {
+			correlationId: args.correlationId,
+			repositoryId,
+			number: args.number,
+			operationType: "update_lock_state",
+			payload: { locked: args.locked, lockReason: args.lockReason ?? null },
 		});
-		const pendingBranchUpdate = Schema.decodeUnknownSync(
-			PendingBranchUpdateResultSchema,
-		)(pendingBranchUpdateResult);
-		if (pendingBranchUpdate.found) {
-			const branchUpdateResult = yield* executeUpdatePullRequestBranch(
-				pendingBranchUpdate.ownerLogin ?? "",
-				pendingBranchUpdate.repoName ?? "",
-				{
-					number: pendingBranchUpdate.number ?? 0,
-					expectedHeadSha: pendingBranchUpdate.expectedHeadSha ?? undefined,
-				},
-				token,
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
-				),
-			);
 
-			if (branchUpdateResult.success) {
-				yield* ctx.runMutation(
-					internal.rpc.githubWrite.markPullRequestBranchUpdateAccepted,
-					{ correlationId: args.correlationId },
-				);
-				return { completed: true };
-			}
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeUpdateLockState(
+					args.ownerLogin,
+					args.name,
+					{
+						number: args.number,
+						locked: args.locked,
+						lockReason: args.lockReason ?? null,
+					},
+					token,
+				),
+		);
 
+		if (result.success) {
 			yield* ctx.runMutation(
-				internal.rpc.githubWrite.markPullRequestBranchUpdateFailed,
+				internal.rpc.githubWrite.markLockStateUpdateAccepted,
+				{ correlationId: args.correlationId },
+			);
+		} else {
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markLockStateUpdateFailed,
 				{
 					correlationId: args.correlationId,
-					errorMessage: branchUpdateResult.errorMessage ?? "Unknown error",
-					errorStatus: branchUpdateResult.errorStatus,
+					errorMessage: result.errorMessage ?? "Unknown error",
+					errorStatus: result.errorStatus,
 				},
 			);
-			return { completed: false };
 		}
+		yield* ensureWriteSucceeded(result);
 
-		const pendingReviewResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingPrReview,
-			{ correlationId: args.correlationId },
-		);
-		const PendingReviewResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			number: Schema.optional(Schema.Number),
-			event: Schema.optional(
-				Schema.Literal("APPROVE", "REQUEST_CHANGES", "COMMENT"),
-			),
-			body: Schema.optional(Schema.NullOr(Schema.String)),
-		});
-		const pendingReview = Schema.decodeUnknownSync(PendingReviewResultSchema)(
-			pendingReviewResult,
-		);
-		if (pendingReview.found) {
-			const reviewResult = yield* executeSubmitPrReview(
-				gh,
-				pendingReview.ownerLogin ?? "",
-				pendingReview.repoName ?? "",
-				{
-					number: pendingReview.number ?? 0,
-					event: pendingReview.event ?? "COMMENT",
-					body: pendingReview.body ?? undefined,
-				},
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
-				),
-			);
+		return { correlationId: args.correlationId };
+	}),
+);
 
-			if (reviewResult.success && reviewResult.resultData !== null) {
-				const reviewId = num(reviewResult.resultData.reviewId);
-				if (reviewId !== null) {
-					yield* ctx.runMutation(
-						internal.rpc.githubWrite.markPrReviewAccepted,
-						{
-							correlationId: args.correlationId,
-							githubReviewId: reviewId,
-						},
-					);
-					return { completed: true };
-				}
-			}
+const ReactionRecordResultSchema = Schema.Struct({
+	recorded: Schema.Boolean,
+	reason: Schema.Literal("recorded", "duplicate", "not_found"),
+	githubReactionId: Schema.NullOr(Schema.Number),
+});
 
-			yield* ctx.runMutation(internal.rpc.githubWrite.markPrReviewFailed, {
+const addReactionDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			subjectType: ReactionSubjectType,
+			/** Issue/PR number for `issue`, GitHub comment ID for the comment types */
+			subjectId: Schema.Number,
+			content: ReactionContentSchema,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
+
+addReactionDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+		const githubUserId = yield* getActingGitHubUserId(ctx, actingUserId);
+
+		const record = Schema.decodeUnknownSync(ReactionRecordResultSchema)(
+			yield* ctx.runMutation(internal.rpc.githubWrite.recordPendingReaction, {
+				correlationId: args.correlationId,
+				repositoryId,
+				subjectType: args.subjectType,
+				subjectId: args.subjectId,
+				content: args.content,
+				githubUserId,
+				operationType: "add_reaction",
+			}),
+		);
+		if (!record.recorded) {
+			return yield* new DuplicateOperationError({
 				correlationId: args.correlationId,
-				errorMessage: reviewResult.errorMessage ?? "Unknown error",
-				errorStatus: reviewResult.errorStatus,
 			});
-			return { completed: false };
 		}
 
-		const pendingLabelsResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingLabelsUpdate,
-			{ correlationId: args.correlationId },
-		);
-		const PendingLabelsResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			number: Schema.optional(Schema.Number),
-			labelsToAdd: Schema.optional(Schema.Array(Schema.String)),
-			labelsToRemove: Schema.optional(Schema.Array(Schema.String)),
-		});
-		const pendingLabels = Schema.decodeUnknownSync(PendingLabelsResultSchema)(
-			pendingLabelsResult,
-		);
-		if (pendingLabels.found) {
-			const labelsResult = yield* executeUpdateLabels(
-				gh,
-				pendingLabels.ownerLogin ?? "",
-				pendingLabels.repoName ?? "",
-				{
-					number: pendingLabels.number ?? 0,
-					labelsToAdd: pendingLabels.labelsToAdd ?? [],
-					labelsToRemove: pendingLabels.labelsToRemove ?? [],
-				},
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeAddReaction(
+					args.ownerLogin,
+					args.name,
+					{
+						subjectType: args.subjectType,
+						subjectId: args.subjectId,
+						content: args.content,
+					},
+					token,
 				),
-			);
-
-			if (labelsResult.success) {
-				yield* ctx.runMutation(
-					internal.rpc.githubWrite.markLabelsUpdateAccepted,
-					{ correlationId: args.correlationId },
-				);
-				return { completed: true };
-			}
+		);
 
-			yield* ctx.runMutation(internal.rpc.githubWrite.markLabelsUpdateFailed, {
+		const githubReactionId =
+			result.resultData === null ? null : num(result.resultData.reactionId);
+		if (result.success && githubReactionId !== null) {
+			yield* ctx.runMutation(internal.rpc.githubWrite.markReactionAccepted, {
 				correlationId: args.correlationId,
-				errorMessage: labelsResult.errorMessage ?? "Unknown error",
-				errorStatus: labelsResult.errorStatus,
+				githubReactionId,
+				alreadyCounted: result.resultData?.alreadyExisted === true,
+			});
+		} else {
+			yield* ctx.runMutation(internal.rpc.githubWrite.markReactionFailed, {
+				correlationId: args.correlationId,
+				errorMessage: result.errorMessage ?? "Unknown error",
+				errorStatus: result.errorStatus,
 			});
-			return { completed: false };
 		}
+		yield* ensureWriteSucceeded(result);
 
-		const pendingAssigneesResult = yield* ctx.runQuery(
-			internal.rpc.githubWrite.getPendingAssigneesUpdate,
-			{ correlationId: args.correlationId },
+		return { correlationId: args.correlationId };
+	}),
+);
+
+const removeReactionDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			subjectType: ReactionSubjectType,
+			/** Issue/PR number for `issue`, GitHub comment ID for the comment types */
+			subjectId: Schema.Number,
+			content: ReactionContentSchema,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: Schema.Union(
+			DuplicateOperationError,
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
+
+removeReactionDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+		const githubUserId = yield* getActingGitHubUserId(ctx, actingUserId);
+
+		let record = Schema.decodeUnknownSync(ReactionRecordResultSchema)(
+			yield* ctx.runMutation(internal.rpc.githubWrite.recordPendingReaction, {
+				correlationId: args.correlationId,
+				repositoryId,
+				subjectType: args.subjectType,
+				subjectId: args.subjectId,
+				content: args.content,
+				githubUserId,
+				operationType: "remove_reaction",
+			}),
 		);
-		const PendingAssigneesResultSchema = Schema.Struct({
-			found: Schema.Boolean,
-			ownerLogin: Schema.optional(Schema.String),
-			repoName: Schema.optional(Schema.String),
-			number: Schema.optional(Schema.Number),
-			assigneesToAdd: Schema.optional(Schema.Array(Schema.String)),
-			assigneesToRemove: Schema.optional(Schema.Array(Schema.String)),
-		});
-		const pendingAssignees = Schema.decodeUnknownSync(
-			PendingAssigneesResultSchema,
-		)(pendingAssigneesResult);
-		if (pendingAssignees.found) {
-			const assigneesResult = yield* executeUpdateAssignees(
-				gh,
-				pendingAssignees.ownerLogin ?? "",
-				pendingAssignees.repoName ?? "",
-				{
-					number: pendingAssignees.number ?? 0,
-					assigneesToAdd: pendingAssignees.assigneesToAdd ?? [],
-					assigneesToRemove: pendingAssignees.assigneesToRemove ?? [],
-				},
-			).pipe(
-				Effect.catchAll((error) =>
-					Effect.succeed({
-						success: false,
-						resultData: null,
-						entityNumber: null,
-						errorStatus: errorStatusFromUnknown(error),
-						errorMessage: errorMessageFromUnknown(error),
-					}),
-				),
+		if (record.reason === "not_found") {
+			// Not tracked locally (e.g. the reaction was left on github.com):
+			// look its ID up on GitHub and track it before deleting
+			const listed = yield* executeWithAuthRefreshRetry(
+				ctx,
+				actingUserId,
+				({ token }) =>
+					executeListViewerReactions(
+						args.ownerLogin,
+						args.name,
+						{
+							subjectType: args.subjectType,
+							subjectId: args.subjectId,
+							githubUserId,
+							content: args.content,
+						},
+						token,
+					),
 			);
-
-			if (assigneesResult.success) {
-				yield* ctx.runMutation(
-					internal.rpc.githubWrite.markAssigneesUpdateAccepted,
-					{ correlationId: args.correlationId },
-				);
-				return { completed: true };
+			if (!listed.success) {
+				return yield* new GitHubWriteError({
+					status: listed.errorStatus,
+					message: listed.errorMessage ?? "Failed to list reactions",
+				});
 			}
-
-			yield* ctx.runMutation(
-				internal.rpc.githubWrite.markAssigneesUpdateFailed,
-				{
+			const remote = listed.reactions.find(
+				(reaction) => reaction.content === args.content,
+			);
+			if (remote === undefined) {
+				return yield* new GitHubWriteError({
+					status: 404,
+					message: "Reaction not found",
+				});
+			}
+			record = Schema.decodeUnknownSync(ReactionRecordResultSchema)(
+				yield* ctx.runMutation(internal.rpc.githubWrite.recordPendingReaction, {
 					correlationId: args.correlationId,
-					errorMessage: assigneesResult.errorMessage ?? "Unknown error",
-					errorStatus: assigneesResult.errorStatus,
-				},
+					repositoryId,
+					subjectType: args.subjectType,
+					subjectId: args.subjectId,
+					content: args.content,
+					githubUserId,
+					operationType: "remove_reaction",
+					githubReactionId: remote.githubReactionId,
+				}),
 			);
-			return { completed: false };
 		}
+		if (!record.recorded || record.githubReactionId === null) {
+			return yield* new DuplicateOperationError({
+				correlationId: args.correlationId,
+			});
+		}
+		const githubReactionId = record.githubReactionId;
 
-		return { completed: false };
-	}).pipe(Effect.catchAll(() => Effect.succeed({ completed: false }))),
-);
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeRemoveReaction(
+					args.ownerLogin,
+					args.name,
+					{
+						subjectType: args.subjectType,
+						subjectId: args.subjectId,
+						reactionId: githubReactionId,
+					},
+					token,
+				),
+		);
 
-// ---------------------------------------------------------------------------
-// GitHub API execution helpers
-// ---------------------------------------------------------------------------
+		if (result.success) {
+			yield* ctx.runMutation(internal.rpc.githubWrite.markReactionAccepted, {
+				correlationId: args.correlationId,
+				githubReactionId,
+			});
+		} else {
+			yield* ctx.runMutation(internal.rpc.githubWrite.markReactionFailed, {
+				correlationId: args.correlationId,
+				errorMessage: result.errorMessage ?? "Unknown error",
+				errorStatus: result.errorStatus,
+			});
+		}
+		yield* ensureWriteSucceeded(result);
 
-type ExecutionResult = {
-	success: boolean;
-	resultData: Record<string, unknown> | null;
-	entityNumber: number | null;
-	errorStatus: number;
-	errorMessage: string | null;
-};
+		return { correlationId: args.correlationId };
+	}),
+);
 
-type GHClient = {
-	client: GitHubClient;
-};
+/** How long a viewer's reactions on a subject are trusted before a refetch. */
+const REACTION_SYNC_INTERVAL_MS = 10 * 60 * 1000;
 
-const failedResult = (
-	errorMessage: string,
-	errorStatus = 0,
-): ExecutionResult => ({
-	success: false,
-	resultData: null,
-	entityNumber: null,
-	errorStatus,
-	errorMessage,
-});
+const ReactionSyncClaimSchema = Schema.Struct({ claimed: Schema.Boolean });
 
-const errorStatusFromUnknown = (error: unknown): number => {
-	if (typeof error !== "object" || error === null) return 0;
-	if ("status" in error && typeof error.status === "number") {
-		return error.status;
-	}
-	if (
-		"response" in error &&
-		typeof error.response === "object" &&
-		error.response !== null &&
-		"status" in error.response &&
-		typeof error.response.status === "number"
-	) {
-		return error.response.status;
-	}
-	return 0;
-};
-
-const errorMessageFromUnknown = (error: unknown): string => {
-	if (typeof error !== "object" || error === null) return String(error);
-	if ("message" in error && typeof error.message === "string") {
-		return error.message;
-	}
-	if (
-		"cause" in error &&
-		typeof error.cause === "object" &&
-		error.cause !== null &&
-		"message" in error.cause &&
-		typeof error.cause.message === "string"
-	) {
-		return error.cause.message;
-	}
-	return String(error);
-};
+/**
+ * GitHub sends no webhook for reactions, so reactions the viewer left
+ * outside this app are only known after reading them back. Detail pages
+ * call this for subjects with reactions; refetches are throttled per
+ * viewer and subject.
+ */
+const syncViewerReactionsDef = factory
+	.action({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			subjectType: ReactionSubjectType,
+			/** Issue/PR number for `issue`, GitHub comment ID for the comment types */
+			subjectId: Schema.Number,
+		},
+		success: Schema.Struct({ synced: Schema.Boolean }),
+		error: Schema.Union(
+			NotAuthenticated,
+			InsufficientPermission,
+			GitHubWriteError,
+		),
+	})
+	.middleware(RepoPullByNameMiddleware);
 
-const toStringArray = (value: unknown): Array<string> => {
-	if (!Array.isArray(value)) return [];
-	return value.filter((item): item is string => typeof item === "string");
-};
+syncViewerReactionsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
+		const githubUserId = yield* getActingGitHubUserId(ctx, actingUserId);
+		const subject = {
+			repositoryId,
+			subjectType: args.subjectType,
+			subjectId: args.subjectId,
+			githubUserId,
+		};
 
-const parseJsonObject = (
-	json: string | null | undefined,
-): Record<string, unknown> => {
-	if (json === null || json === undefined) return {};
-	let parsed: unknown;
-	try {
-		parsed = JSON.parse(json);
-	} catch {
-		return {};
-	}
-	if (typeof parsed !== "object" || parsed === null) return {};
-	const record: Record<string, unknown> = {};
-	for (const [key, value] of Object.entries(parsed)) {
-		record[key] = value;
-	}
-	return record;
-};
+		const { claimed } = Schema.decodeUnknownSync(ReactionSyncClaimSchema)(
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.claimReactionSync,
+				subject,
+			),
+		);
+		if (!claimed) return { synced: false };
 
-const executeCreateIssue = (
-	gh: GHClient,
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-): Effect.Effect<ExecutionResult> =>
-	Effect.gen(function* () {
-		const title = typeof input.title === "string" ? input.title : "";
-		const body = typeof input.body === "string" ? input.body : undefined;
-		const labels =
-			Array.isArray(input.labels) &&
-			input.labels.length > 0 &&
-			input.labels.every((label) => typeof label === "string")
-				? input.labels
-				: undefined;
+		const listed = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeListViewerReactions(
+					args.ownerLogin,
+					args.name,
+					{
+						subjectType: args.subjectType,
+						subjectId: args.subjectId,
+						githubUserId,
+					},
+					token,
+				),
+		);
+		if (!listed.success) {
+			return yield* new GitHubWriteError({
+				status: listed.errorStatus,
+				message: listed.errorMessage ?? "Failed to list reactions",
+			});
+		}
 
-		const issue = yield* gh.client.issuesCreate(ownerLogin, repoName, {
-			payload: { title, body, labels },
+		yield* ctx.runMutation(internal.rpc.githubWrite.reconcileViewerReactions, {
+			...subject,
+			reactions: listed.reactions.map((reaction) => ({
+				githubReactionId: reaction.githubReactionId,
+				content: reaction.content,
+			})),
 		});
+		return { synced: true };
+	}),
+);
 
-		return {
-			success: true,
-			resultData: {
-				issueId: issue.id,
-				number: issue.number,
-				htmlUrl: issue.html_url,
-			},
-			entityNumber: issue.number,
-			errorStatus: 0,
-			errorMessage: null,
-		};
-	}).pipe(
-		Effect.catchAll((e) =>
-			Effect.succeed(
-				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
-			),
-		),
-	);
+const CommentEditRecordResultSchema = Schema.Struct({
+	recorded: Schema.Boolean,
+	reason: Schema.Literal("recorded", "duplicate", "not_found"),
+});
 
-const executeCreateComment = (
-	gh: GHClient,
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-): Effect.Effect<ExecutionResult> =>
+/**
+ * Shared flow behind the comment edit/delete actions: write the optimistic
+ * change onto the comment row, call GitHub, then mark the row accepted or
+ * roll it back.
+ */
+const runCommentEdit = (
+	ctx: ConfectActionCtx,
+	args: {
+		correlationId: string;
+		ownerLogin: string;
+		name: string;
+		repositoryId: number;
+		commentType: typeof CommentType.Type;
+		commentId: number;
+	},
+	edit:
+		| { operationType: "update_comment"; body: string }
+		| { operationType: "delete_comment" },
+) =>
 	Effect.gen(function* () {
-		const issueNumber = num(input.number) ?? 0;
-		const body = typeof input.body === "string" ? input.body : "";
+		const repositoryId = yield* resolveAuthorizedRepositoryId(args, "pull");
+		const actingUserId = yield* getActingUserId(ctx);
 
-		const comment = yield* gh.client.issuesCreateComment(
-			ownerLogin,
-			repoName,
-			String(issueNumber),
-			{ payload: { body } },
+		const record = Schema.decodeUnknownSync(CommentEditRecordResultSchema)(
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.recordPendingCommentEdit,
+				{
+					correlationId: args.correlationId,
+					repositoryId,
+					commentType: args.commentType,
+					commentId: args.commentId,
+					...edit,
+				},
+			),
 		);
+		if (record.reason === "not_found") {
+			return yield* new GitHubWriteError({
+				status: 404,
+				message: "Comment not found",
+			});
+		}
+		if (!record.recorded) {
+			return yield* new DuplicateOperationError({
+				correlationId: args.correlationId,
+			});
+		}
 
-		return {
-			success: true,
-			resultData: {
-				commentId: comment.id,
-				htmlUrl: comment.html_url,
-			},
-			entityNumber: issueNumber,
-			errorStatus: 0,
-			errorMessage: null,
-		};
-	}).pipe(
-		Effect.catchAll((e) =>
-			Effect.succeed(
-				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
-			),
-		),
-	);
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				edit.operationType === "update_comment"
+					? executeUpdateComment(
+							args.ownerLogin,
+							args.name,
+							{
+								commentType: args.commentType,
+								commentId: args.commentId,
+								body: edit.body,
+							},
+							token,
+						)
+					: executeDeleteComment(
+							args.ownerLogin,
+							args.name,
+							{ commentType: args.commentType, commentId: args.commentId },
+							token,
+						),
+		);
 
-const executeUpdateIssueState = (
-	gh: GHClient,
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-): Effect.Effect<ExecutionResult> =>
-	Effect.gen(function* () {
-		const issueNumber = num(input.number) ?? 0;
-		const state =
-			input.state === "open" || input.state === "closed"
-				? input.state
-				: "closed";
+		if (result.success) {
+			yield* ctx.runMutation(
+				edit.operationType === "update_comment"
+					? internal.rpc.githubWrite.markCommentUpdateAccepted
+					: internal.rpc.githubWrite.markCommentDeleteAccepted,
+				{ correlationId: args.correlationId },
+			);
+		} else {
+			yield* ctx.runMutation(
+				edit.operationType === "update_comment"
+					? internal.rpc.githubWrite.markCommentUpdateFailed
+					: internal.rpc.githubWrite.markCommentDeleteFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: result.errorMessage ?? "Unknown error",
+					errorStatus: result.errorStatus,
+				},
+			);
+		}
+		yield* ensureWriteSucceeded(result);
 
-		const updated = yield* gh.client.issuesUpdate(
-			ownerLogin,
-			repoName,
-			String(issueNumber),
-			{ payload: { state } },
-		);
+		return { correlationId: args.correlationId };
+	});
 
-		// issuesUpdate can return Issue | BasicError — check for number field
-		const returnedNumber =
-			"number" in updated && typeof updated.number === "number"
-				? updated.number
-				: issueNumber;
-		const returnedState =
-			"state" in updated && typeof updated.state === "string"
-				? updated.state
-				: state;
+const CommentEditErrors = Schema.Union(
+	DuplicateOperationError,
+	NotAuthenticated,
+	InsufficientPermission,
+	GitHubWriteError,
+);
 
-		return {
-			success: true,
-			resultData: {
-				number: returnedNumber,
-				state: returnedState === "open" ? "open" : "closed",
-			},
-			entityNumber: issueNumber,
-			errorStatus: 0,
-			errorMessage: null,
-		};
-	}).pipe(
-		Effect.catchAll((e) =>
-			Effect.succeed(
-				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
-			),
-		),
-	);
+const updateCommentDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			githubCommentId: Schema.Number,
+			body: Schema.String,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: CommentEditErrors,
+	})
+	.middleware(RepoPullByNameMiddleware);
 
-const executeMergePullRequest = (
-	gh: GHClient,
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-): Effect.Effect<ExecutionResult> =>
+updateCommentDef.implement((args) =>
 	Effect.gen(function* () {
-		const prNumber = num(input.number) ?? 0;
-		const mergeMethod =
-			input.mergeMethod === "merge" ||
-			input.mergeMethod === "squash" ||
-			input.mergeMethod === "rebase"
-				? input.mergeMethod
-				: undefined;
-		const commitTitle =
-			typeof input.commitTitle === "string" ? input.commitTitle : undefined;
-		const commitMessage =
-			typeof input.commitMessage === "string" ? input.commitMessage : undefined;
-
-		const result = yield* gh.client.pullsMerge(
-			ownerLogin,
-			repoName,
-			String(prNumber),
+		const ctx = yield* ConfectActionCtx;
+		return yield* runCommentEdit(
+			ctx,
 			{
-				payload: {
-					merge_method: mergeMethod,
-					commit_title: commitTitle,
-					commit_message: commitMessage,
-				},
+				...args,
+				commentType: "issue_comment",
+				commentId: args.githubCommentId,
 			},
+			{ operationType: "update_comment", body: args.body },
 		);
+	}),
+);
 
-		return {
-			success: true,
-			resultData: {
-				merged: result.merged,
-				sha: result.sha,
-				message: result.message,
-			},
-			entityNumber: prNumber,
-			errorStatus: 0,
-			errorMessage: null,
-		};
-	}).pipe(
-		Effect.catchAll((e) =>
-			Effect.succeed(
-				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
-			),
-		),
-	);
+const deleteCommentDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			githubCommentId: Schema.Number,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: CommentEditErrors,
+	})
+	.middleware(RepoPullByNameMiddleware);
 
-const executeUpdatePullRequestBranch = (
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-	token: string,
-): Effect.Effect<ExecutionResult> =>
+deleteCommentDef.implement((args) =>
 	Effect.gen(function* () {
-		const prNumber = num(input.number) ?? 0;
-		const expectedHeadSha =
-			typeof input.expectedHeadSha === "string" ? input.expectedHeadSha : null;
-		const payload =
-			expectedHeadSha === null ? {} : { expected_head_sha: expectedHeadSha };
-		const response = yield* Effect.tryPromise({
-			try: () =>
-				fetch(
-					`https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}/pulls/${String(prNumber)}/update-branch`,
-					{
-						method: "PUT",
-						headers: {
-							Authorization: `Bearer ${token}`,
-							Accept: "application/vnd.github+json",
-							"X-GitHub-Api-Version": "2022-11-28",
-							"Content-Type": "application/json",
-						},
-						body: JSON.stringify(payload),
-					},
-				),
-			catch: (error) => new Error(String(error)),
-		});
+		const ctx = yield* ConfectActionCtx;
+		return yield* runCommentEdit(
+			ctx,
+			{
+				...args,
+				commentType: "issue_comment",
+				commentId: args.githubCommentId,
+			},
+			{ operationType: "delete_comment" },
+		);
+	}),
+);
 
-		const responseText = yield* Effect.tryPromise({
-			try: () => response.text(),
-			catch: (error) => new Error(String(error)),
-		});
-		const parsedBody = parseJsonObject(responseText);
-		const message =
-			typeof parsedBody.message === "string"
-				? parsedBody.message
-				: "Pull request branch update queued";
+const updateReviewCommentDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			githubReviewCommentId: Schema.Number,
+			body: Schema.String,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: CommentEditErrors,
+	})
+	.middleware(RepoPullByNameMiddleware);
 
-		if (response.status >= 200 && response.status < 300) {
-			return {
-				success: true,
-				resultData: {
-					number: prNumber,
-					message,
-				},
-				entityNumber: prNumber,
-				errorStatus: 0,
-				errorMessage: null,
-			};
-		}
+updateReviewCommentDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		return yield* runCommentEdit(
+			ctx,
+			{
+				...args,
+				commentType: "review_comment",
+				commentId: args.githubReviewCommentId,
+			},
+			{ operationType: "update_comment", body: args.body },
+		);
+	}),
+);
 
-		return failedResult(message, response.status);
-	}).pipe(
-		Effect.catchAll((error) =>
-			Effect.succeed(
-				failedResult(
-					errorMessageFromUnknown(error),
-					errorStatusFromUnknown(error),
-				),
-			),
-		),
-	);
+const deleteReviewCommentDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			githubReviewCommentId: Schema.Number,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: CommentEditErrors,
+	})
+	.middleware(RepoPullByNameMiddleware);
 
-const executeSubmitPrReview = (
-	gh: GHClient,
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-): Effect.Effect<ExecutionResult> =>
+deleteReviewCommentDef.implement((args) =>
 	Effect.gen(function* () {
-		const prNumber = num(input.number) ?? 0;
-		const event =
-			input.event === "APPROVE" ||
-			input.event === "REQUEST_CHANGES" ||
-			input.event === "COMMENT"
-				? input.event
-				: "COMMENT";
-		const body = typeof input.body === "string" ? input.body : undefined;
-
-		const review = yield* gh.client.pullsCreateReview(
-			ownerLogin,
-			repoName,
-			String(prNumber),
+		const ctx = yield* ConfectActionCtx;
+		return yield* runCommentEdit(
+			ctx,
 			{
-				payload: { event, body },
+				...args,
+				commentType: "review_comment",
+				commentId: args.githubReviewCommentId,
 			},
+			{ operationType: "delete_comment" },
 		);
+	}),
+);
 
-		return {
-			success: true,
-			resultData: {
-				reviewId: review.id,
-				state: review.state,
-			},
-			entityNumber: prNumber,
-			errorStatus: 0,
-			errorMessage: null,
-		};
-	}).pipe(
-		Effect.catchAll((e) =>
-			Effect.succeed(
-				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
-			),
-		),
-	);
+const LabelWriteErrors = Schema.Union(NotAuthenticated, GitHubWriteError);
 
-const executeUpdateLabels = (
-	gh: GHClient,
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-): Effect.Effect<ExecutionResult> =>
+/**
+ * Label catalog writes. Managing labels needs maintain access on GitHub, so
+ * these are gated on the synced repo permission before calling the API. The
+ * `label` webhook updates `github_labels` once GitHub applies the change.
+ */
+const createLabelDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			labelName: Schema.String,
+			/** Hex color, with or without the leading `#` */
+			color: Schema.String,
+			description: Schema.optional(Schema.String),
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: LabelWriteErrors,
+	})
+	.middleware(RepoMaintainByIdMiddleware);
+
+createLabelDef.implement((args) =>
 	Effect.gen(function* () {
-		const issueNumber = num(input.number) ?? 0;
-		const labelsToAdd = toStringArray(input.labelsToAdd);
-		const labelsToRemove = toStringArray(input.labelsToRemove);
+		const ctx = yield* ConfectActionCtx;
+		const actingUserId = yield* getActingUserId(ctx);
 
-		if (labelsToAdd.length > 0) {
-			yield* gh.client.issuesAddLabels(
-				ownerLogin,
-				repoName,
-				String(issueNumber),
-				{
-					payload: labelsToAdd,
-				},
-			);
-		}
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeLabelWrite(
+					args.ownerLogin,
+					args.name,
+					{
+						method: "POST",
+						labelName: null,
+						body: {
+							name: args.labelName,
+							color: normalizeLabelColor(args.color),
+							description: args.description,
+						},
+					},
+					token,
+				),
+		);
+		yield* ensureWriteSucceeded(result);
 
-		for (const label of labelsToRemove) {
-			yield* gh.client.issuesRemoveLabel(
-				ownerLogin,
-				repoName,
-				String(issueNumber),
-				encodeURIComponent(label),
-			);
-		}
+		return { correlationId: args.correlationId };
+	}),
+);
 
-		return {
-			success: true,
-			resultData: {
-				number: issueNumber,
-				labelsAdded: labelsToAdd,
-				labelsRemoved: labelsToRemove,
-			},
-			entityNumber: issueNumber,
-			errorStatus: 0,
-			errorMessage: null,
-		};
-	}).pipe(
-		Effect.catchAll((e) =>
-			Effect.succeed(
-				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
-			),
-		),
-	);
+const updateLabelDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			/** Current name of the label being edited */
+			labelName: Schema.String,
+			newName: Schema.optional(Schema.String),
+			color: Schema.optional(Schema.String),
+			description: Schema.optional(Schema.String),
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: LabelWriteErrors,
+	})
+	.middleware(RepoMaintainByIdMiddleware);
 
-const executeUpdateAssignees = (
-	gh: GHClient,
-	ownerLogin: string,
-	repoName: string,
-	input: Record<string, unknown>,
-): Effect.Effect<ExecutionResult> =>
+updateLabelDef.implement((args) =>
 	Effect.gen(function* () {
-		const issueNumber = num(input.number) ?? 0;
-		const assigneesToAdd = toStringArray(input.assigneesToAdd);
-		const assigneesToRemove = toStringArray(input.assigneesToRemove);
+		const ctx = yield* ConfectActionCtx;
+		const actingUserId = yield* getActingUserId(ctx);
 
-		if (assigneesToAdd.length > 0) {
-			yield* gh.client.issuesAddAssignees(
-				ownerLogin,
-				repoName,
-				String(issueNumber),
-				{ payload: { assignees: assigneesToAdd } },
-			);
-		}
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeLabelWrite(
+					args.ownerLogin,
+					args.name,
+					{
+						method: "PATCH",
+						labelName: args.labelName,
+						body: {
+							new_name: args.newName,
+							color:
+								args.color === undefined
+									? undefined
+									: normalizeLabelColor(args.color),
+							description: args.description,
+						},
+					},
+					token,
+				),
+		);
+		yield* ensureWriteSucceeded(result);
 
-		if (assigneesToRemove.length > 0) {
-			yield* gh.client.issuesRemoveAssignees(
-				ownerLogin,
-				repoName,
-				String(issueNumber),
-				{ payload: { assignees: assigneesToRemove } },
+		return { correlationId: args.correlationId };
+	}),
+);
+
+const deleteLabelDef = factory
+	.action({
+		payload: {
+			correlationId: Schema.String,
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			repositoryId: Schema.Number,
+			labelName: Schema.String,
+		},
+		success: Schema.Struct({ correlationId: Schema.String }),
+		error: LabelWriteErrors,
+	})
+	.middleware(RepoMaintainByIdMiddleware);
+
+deleteLabelDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const actingUserId = yield* getActingUserId(ctx);
+
+		const result = yield* executeWithAuthRefreshRetry(
+			ctx,
+			actingUserId,
+			({ token }) =>
+				executeLabelWrite(
+					args.ownerLogin,
+					args.name,
+					{ method: "DELETE", labelName: args.labelName, body: null },
+					token,
+				),
+		);
+		yield* ensureWriteSucceeded(result);
+
+		return { correlationId: args.correlationId };
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// 2. Internal action — execute the GitHub API call
+// ---------------------------------------------------------------------------
+
+/**
+ * Execute a pending write operation by calling the GitHub API.
+ * On success/failure, updates optimistic state on domain rows.
+ */
+const executeWriteOperationDef = factory.internalAction({
+	payload: { correlationId: Schema.String, actingUserId: Schema.String },
+	success: Schema.Struct({ completed: Schema.Boolean }),
+});
+
+executeWriteOperationDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const pendingIssueResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingIssueCreate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingIssueResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			repositoryId: Schema.optional(Schema.Number),
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			title: Schema.optional(Schema.String),
+			body: Schema.optional(Schema.NullOr(Schema.String)),
+			labels: Schema.optional(Schema.Array(Schema.String)),
+		});
+		const pendingIssue = Schema.decodeUnknownSync(PendingIssueResultSchema)(
+			pendingIssueResult,
+		);
+
+		const token = yield* lookupGitHubTokenByUserIdConfect(
+			(query, params) => ctx.runQuery(query, params),
+			(mutation, params) => ctx.runMutation(mutation, params),
+			args.actingUserId,
+		);
+		const gh = yield* Effect.provide(
+			GitHubApiClient,
+			GitHubApiClient.fromToken(token),
+		);
+
+		if (pendingIssue.found) {
+			const issueInput = {
+				title: pendingIssue.title ?? "",
+				body: pendingIssue.body ?? undefined,
+				labels: pendingIssue.labels ?? [],
+			};
+
+			const issueResult = yield* executeCreateIssue(
+				gh,
+				pendingIssue.ownerLogin ?? "",
+				pendingIssue.repoName ?? "",
+				issueInput,
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (issueResult.success && issueResult.resultData !== null) {
+				const issueNumber = num(issueResult.resultData.number);
+				const issueId = num(issueResult.resultData.issueId);
+				if (issueNumber !== null && issueId !== null) {
+					yield* ctx.runMutation(
+						internal.rpc.githubWrite.markIssueCreateAccepted,
+						{
+							correlationId: args.correlationId,
+							githubIssueId: issueId,
+							githubIssueNumber: issueNumber,
+						},
+					);
+					return { completed: true };
+				}
+			}
+
+			yield* ctx.runMutation(internal.rpc.githubWrite.markIssueCreateFailed, {
+				correlationId: args.correlationId,
+				errorMessage: issueResult.errorMessage ?? "Unknown error",
+				errorStatus: issueResult.errorStatus,
+			});
+			return { completed: false };
+		}
+
+		const pendingCommentResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingCommentCreate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingCommentResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			body: Schema.optional(Schema.String),
+		});
+		const pendingComment = Schema.decodeUnknownSync(PendingCommentResultSchema)(
+			pendingCommentResult,
+		);
+		if (pendingComment.found) {
+			const commentResult = yield* executeCreateComment(
+				gh,
+				pendingComment.ownerLogin ?? "",
+				pendingComment.repoName ?? "",
+				{
+					number: pendingComment.number ?? 0,
+					body: pendingComment.body ?? "",
+				},
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (commentResult.success && commentResult.resultData !== null) {
+				const commentId = num(commentResult.resultData.commentId);
+				if (commentId !== null) {
+					yield* ctx.runMutation(
+						internal.rpc.githubWrite.markCommentCreateAccepted,
+						{ correlationId: args.correlationId, githubCommentId: commentId },
+					);
+					return { completed: true };
+				}
+			}
+
+			yield* ctx.runMutation(internal.rpc.githubWrite.markCommentCreateFailed, {
+				correlationId: args.correlationId,
+				errorMessage: commentResult.errorMessage ?? "Unknown error",
+				errorStatus: commentResult.errorStatus,
+			});
+			return { completed: false };
+		}
+
+		const pendingStateResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingIssueStateUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingStateResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			state: Schema.optional(Schema.Literal("open", "closed")),
+		});
+		const pendingState = Schema.decodeUnknownSync(PendingStateResultSchema)(
+			pendingStateResult,
+		);
+		if (pendingState.found) {
+			const stateResult = yield* executeUpdateIssueState(
+				gh,
+				pendingState.ownerLogin ?? "",
+				pendingState.repoName ?? "",
+				{
+					number: pendingState.number ?? 0,
+					state: pendingState.state ?? "closed",
+				},
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (stateResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markIssueStateUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markIssueStateUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: stateResult.errorMessage ?? "Unknown error",
+					errorStatus: stateResult.errorStatus,
+				},
 			);
+			return { completed: false };
+		}
+
+		const pendingMergeResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingPullRequestMerge,
+			{ correlationId: args.correlationId },
+		);
+		const PendingMergeResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			mergeMethod: Schema.optional(
+				Schema.NullOr(Schema.Literal("merge", "squash", "rebase")),
+			),
+			commitTitle: Schema.optional(Schema.NullOr(Schema.String)),
+			commitMessage: Schema.optional(Schema.NullOr(Schema.String)),
+		});
+		const pendingMerge = Schema.decodeUnknownSync(PendingMergeResultSchema)(
+			pendingMergeResult,
+		);
+		if (pendingMerge.found) {
+			const mergeResult = yield* executeMergePullRequest(
+				gh,
+				pendingMerge.ownerLogin ?? "",
+				pendingMerge.repoName ?? "",
+				{
+					number: pendingMerge.number ?? 0,
+					mergeMethod: pendingMerge.mergeMethod ?? undefined,
+					commitTitle: pendingMerge.commitTitle ?? undefined,
+					commitMessage: pendingMerge.commitMessage ?? undefined,
+				},
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (mergeResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markMergePullRequestAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markMergePullRequestFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: mergeResult.errorMessage ?? "Unknown error",
+					errorStatus: mergeResult.errorStatus,
+				},
+			);
+			return { completed: false };
+		}
+
+		const pendingBranchUpdateResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingPullRequestBranchUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingBranchUpdateResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			expectedHeadSha: Schema.optional(Schema.NullOr(Schema.String)),
+		});
+		const pendingBranchUpdate = Schema.decodeUnknownSync(
+			PendingBranchUpdateResultSchema,
+		)(pendingBranchUpdateResult);
+		if (pendingBranchUpdate.found) {
+			const branchUpdateResult = yield* executeUpdatePullRequestBranch(
+				pendingBranchUpdate.ownerLogin ?? "",
+				pendingBranchUpdate.repoName ?? "",
+				{
+					number: pendingBranchUpdate.number ?? 0,
+					expectedHeadSha: pendingBranchUpdate.expectedHeadSha ?? undefined,
+				},
+				token,
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (branchUpdateResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markPullRequestBranchUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markPullRequestBranchUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: branchUpdateResult.errorMessage ?? "Unknown error",
+					errorStatus: branchUpdateResult.errorStatus,
+				},
+			);
+			return { completed: false };
+		}
+
+		const pendingReviewResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingPrReview,
+			{ correlationId: args.correlationId },
+		);
+		const PendingReviewResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			event: Schema.optional(
+				Schema.Literal("APPROVE", "REQUEST_CHANGES", "COMMENT"),
+			),
+			body: Schema.optional(Schema.NullOr(Schema.String)),
+		});
+		const pendingReview = Schema.decodeUnknownSync(PendingReviewResultSchema)(
+			pendingReviewResult,
+		);
+		if (pendingReview.found) {
+			const reviewResult = yield* executeSubmitPrReview(
+				gh,
+				pendingReview.ownerLogin ?? "",
+				pendingReview.repoName ?? "",
+				{
+					number: pendingReview.number ?? 0,
+					event: pendingReview.event ?? "COMMENT",
+					body: pendingReview.body ?? undefined,
+				},
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (reviewResult.success && reviewResult.resultData !== null) {
+				const reviewId = num(reviewResult.resultData.reviewId);
+				if (reviewId !== null) {
+					yield* ctx.runMutation(
+						internal.rpc.githubWrite.markPrReviewAccepted,
+						{
+							correlationId: args.correlationId,
+							githubReviewId: reviewId,
+						},
+					);
+					return { completed: true };
+				}
+			}
+
+			yield* ctx.runMutation(internal.rpc.githubWrite.markPrReviewFailed, {
+				correlationId: args.correlationId,
+				errorMessage: reviewResult.errorMessage ?? "Unknown error",
+				errorStatus: reviewResult.errorStatus,
+			});
+			return { completed: false };
+		}
+
+		const pendingLabelsResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingLabelsUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingLabelsResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			labelsToAdd: Schema.optional(Schema.Array(Schema.String)),
+			labelsToRemove: Schema.optional(Schema.Array(Schema.String)),
+		});
+		const pendingLabels = Schema.decodeUnknownSync(PendingLabelsResultSchema)(
+			pendingLabelsResult,
+		);
+		if (pendingLabels.found) {
+			const labelsResult = yield* executeUpdateLabels(
+				gh,
+				pendingLabels.ownerLogin ?? "",
+				pendingLabels.repoName ?? "",
+				{
+					number: pendingLabels.number ?? 0,
+					labelsToAdd: pendingLabels.labelsToAdd ?? [],
+					labelsToRemove: pendingLabels.labelsToRemove ?? [],
+				},
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (labelsResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markLabelsUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(internal.rpc.githubWrite.markLabelsUpdateFailed, {
+				correlationId: args.correlationId,
+				errorMessage: labelsResult.errorMessage ?? "Unknown error",
+				errorStatus: labelsResult.errorStatus,
+			});
+			return { completed: false };
+		}
+
+		const pendingAssigneesResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingAssigneesUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingAssigneesResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			assigneesToAdd: Schema.optional(Schema.Array(Schema.String)),
+			assigneesToRemove: Schema.optional(Schema.Array(Schema.String)),
+		});
+		const pendingAssignees = Schema.decodeUnknownSync(
+			PendingAssigneesResultSchema,
+		)(pendingAssigneesResult);
+		if (pendingAssignees.found) {
+			const assigneesResult = yield* executeUpdateAssignees(
+				gh,
+				pendingAssignees.ownerLogin ?? "",
+				pendingAssignees.repoName ?? "",
+				{
+					number: pendingAssignees.number ?? 0,
+					assigneesToAdd: pendingAssignees.assigneesToAdd ?? [],
+					assigneesToRemove: pendingAssignees.assigneesToRemove ?? [],
+				},
+			).pipe(
+				Effect.catchAll((error) =>
+					Effect.succeed({
+						success: false,
+						resultData: null,
+						entityNumber: null,
+						errorStatus: errorStatusFromUnknown(error),
+						errorMessage: errorMessageFromUnknown(error),
+					}),
+				),
+			);
+
+			if (assigneesResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markAssigneesUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markAssigneesUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: assigneesResult.errorMessage ?? "Unknown error",
+					errorStatus: assigneesResult.errorStatus,
+				},
+			);
+			return { completed: false };
+		}
+
+		const pendingReviewersResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingReviewersUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingReviewersResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			mode: Schema.optional(Schema.Literal("request", "remove")),
+			reviewers: Schema.optional(Schema.Array(Schema.String)),
+			teamReviewers: Schema.optional(Schema.Array(Schema.String)),
+		});
+		const pendingReviewers = Schema.decodeUnknownSync(
+			PendingReviewersResultSchema,
+		)(pendingReviewersResult);
+		if (pendingReviewers.found) {
+			const reviewersResult = yield* executeUpdateReviewers(
+				pendingReviewers.ownerLogin ?? "",
+				pendingReviewers.repoName ?? "",
+				pendingReviewers.mode ?? "request",
+				{
+					number: pendingReviewers.number ?? 0,
+					reviewers: pendingReviewers.reviewers ?? [],
+					teamReviewers: pendingReviewers.teamReviewers ?? [],
+				},
+				token,
+			);
+
+			if (reviewersResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markReviewersUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markReviewersUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: reviewersResult.errorMessage ?? "Unknown error",
+					errorStatus: reviewersResult.errorStatus,
+				},
+			);
+			return { completed: false };
+		}
+
+		const pendingTitleBodyResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingTitleBodyUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingTitleBodyResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			title: Schema.optional(Schema.String),
+			body: Schema.optional(Schema.String),
+		});
+		const pendingTitleBody = Schema.decodeUnknownSync(
+			PendingTitleBodyResultSchema,
+		)(pendingTitleBodyResult);
+		if (pendingTitleBody.found) {
+			const titleBodyResult = yield* executeUpdateTitleBody(
+				gh,
+				pendingTitleBody.ownerLogin ?? "",
+				pendingTitleBody.repoName ?? "",
+				{
+					number: pendingTitleBody.number ?? 0,
+					title: pendingTitleBody.title,
+					body: pendingTitleBody.body,
+				},
+			);
+
+			if (titleBodyResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markTitleBodyUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markTitleBodyUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: titleBodyResult.errorMessage ?? "Unknown error",
+					errorStatus: titleBodyResult.errorStatus,
+				},
+			);
+			return { completed: false };
+		}
+
+		const pendingDraftResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingPullRequestDraftUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingDraftResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			draft: Schema.optional(Schema.Boolean),
+		});
+		const pendingDraft = Schema.decodeUnknownSync(PendingDraftResultSchema)(
+			pendingDraftResult,
+		);
+		if (pendingDraft.found) {
+			const draftResult = yield* executeUpdatePullRequestDraft(
+				pendingDraft.ownerLogin ?? "",
+				pendingDraft.repoName ?? "",
+				{
+					number: pendingDraft.number ?? 0,
+					draft: pendingDraft.draft ?? false,
+				},
+				token,
+			);
+
+			if (draftResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markPullRequestDraftUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markPullRequestDraftUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: draftResult.errorMessage ?? "Unknown error",
+					errorStatus: draftResult.errorStatus,
+				},
+			);
+			return { completed: false };
+		}
+
+		const pendingLockResult = yield* ctx.runQuery(
+			internal.rpc.githubWrite.getPendingLockStateUpdate,
+			{ correlationId: args.correlationId },
+		);
+		const PendingLockResultSchema = Schema.Struct({
+			found: Schema.Boolean,
+			ownerLogin: Schema.optional(Schema.String),
+			repoName: Schema.optional(Schema.String),
+			number: Schema.optional(Schema.Number),
+			locked: Schema.optional(Schema.Boolean),
+			lockReason: Schema.optional(Schema.NullOr(LockReason)),
+		});
+		const pendingLock = Schema.decodeUnknownSync(PendingLockResultSchema)(
+			pendingLockResult,
+		);
+		if (pendingLock.found) {
+			const lockResult = yield* executeUpdateLockState(
+				pendingLock.ownerLogin ?? "",
+				pendingLock.repoName ?? "",
+				{
+					number: pendingLock.number ?? 0,
+					locked: pendingLock.locked ?? false,
+					lockReason: pendingLock.lockReason ?? null,
+				},
+				token,
+			);
+
+			if (lockResult.success) {
+				yield* ctx.runMutation(
+					internal.rpc.githubWrite.markLockStateUpdateAccepted,
+					{ correlationId: args.correlationId },
+				);
+				return { completed: true };
+			}
+
+			yield* ctx.runMutation(
+				internal.rpc.githubWrite.markLockStateUpdateFailed,
+				{
+					correlationId: args.correlationId,
+					errorMessage: lockResult.errorMessage ?? "Unknown error",
+					errorStatus: lockResult.errorStatus,
+				},
+			);
+			return { completed: false };
+		}
+
+		return { completed: false };
+	}).pipe(Effect.catchAll(() => Effect.succeed({ completed: false }))),
+);
+
+// ---------------------------------------------------------------------------
+// GitHub API execution helpers
+// ---------------------------------------------------------------------------
+
+type ExecutionResult = {
+	success: boolean;
+	resultData: Record<string, unknown> | null;
+	entityNumber: number | null;
+	errorStatus: number;
+	errorMessage: string | null;
+};
+
+type GHClient = {
+	client: GitHubClient;
+};
+
+const failedResult = (
+	errorMessage: string,
+	errorStatus = 0,
+): ExecutionResult => ({
+	success: false,
+	resultData: null,
+	entityNumber: null,
+	errorStatus,
+	errorMessage,
+});
+
+const errorStatusFromUnknown = (error: unknown): number => {
+	if (typeof error !== "object" || error === null) return 0;
+	if ("status" in error && typeof error.status === "number") {
+		return error.status;
+	}
+	if (
+		"response" in error &&
+		typeof error.response === "object" &&
+		error.response !== null &&
+		"status" in error.response &&
+		typeof error.response.status === "number"
+	) {
+		return error.response.status;
+	}
+	return 0;
+};
+
+const errorMessageFromUnknown = (error: unknown): string => {
+	if (typeof error !== "object" || error === null) return String(error);
+	if ("message" in error && typeof error.message === "string") {
+		return error.message;
+	}
+	if (
+		"cause" in error &&
+		typeof error.cause === "object" &&
+		error.cause !== null &&
+		"message" in error.cause &&
+		typeof error.cause.message === "string"
+	) {
+		return error.cause.message;
+	}
+	return String(error);
+};
+
+const toStringArray = (value: unknown): Array<string> => {
+	if (!Array.isArray(value)) return [];
+	return value.filter((item): item is string => typeof item === "string");
+};
+
+const parseJsonObject = (
+	json: string | null | undefined,
+): Record<string, unknown> => {
+	if (json === null || json === undefined) return {};
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch {
+		return {};
+	}
+	if (typeof parsed !== "object" || parsed === null) return {};
+	const record: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(parsed)) {
+		record[key] = value;
+	}
+	return record;
+};
+
+const executeCreateIssue = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const title = typeof input.title === "string" ? input.title : "";
+		const body = typeof input.body === "string" ? input.body : undefined;
+		const labels =
+			Array.isArray(input.labels) &&
+			input.labels.length > 0 &&
+			input.labels.every((label) => typeof label === "string")
+				? input.labels
+				: undefined;
+
+		const issue = yield* gh.client.issuesCreate(ownerLogin, repoName, {
+			payload: { title, body, labels },
+		});
+
+		return {
+			success: true,
+			resultData: {
+				issueId: issue.id,
+				number: issue.number,
+				htmlUrl: issue.html_url,
+			},
+			entityNumber: issue.number,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+const executeCreateComment = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const issueNumber = num(input.number) ?? 0;
+		const body = typeof input.body === "string" ? input.body : "";
+
+		const comment = yield* gh.client.issuesCreateComment(
+			ownerLogin,
+			repoName,
+			String(issueNumber),
+			{ payload: { body } },
+		);
+
+		return {
+			success: true,
+			resultData: {
+				commentId: comment.id,
+				htmlUrl: comment.html_url,
+			},
+			entityNumber: issueNumber,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+const executeUpdateIssueState = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const issueNumber = num(input.number) ?? 0;
+		const state =
+			input.state === "open" || input.state === "closed"
+				? input.state
+				: "closed";
+
+		const updated = yield* gh.client.issuesUpdate(
+			ownerLogin,
+			repoName,
+			String(issueNumber),
+			{ payload: { state } },
+		);
+
+		// issuesUpdate can return Issue | BasicError — check for number field
+		const returnedNumber =
+			"number" in updated && typeof updated.number === "number"
+				? updated.number
+				: issueNumber;
+		const returnedState =
+			"state" in updated && typeof updated.state === "string"
+				? updated.state
+				: state;
+
+		return {
+			success: true,
+			resultData: {
+				number: returnedNumber,
+				state: returnedState === "open" ? "open" : "closed",
+			},
+			entityNumber: issueNumber,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+const executeMergePullRequest = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const prNumber = num(input.number) ?? 0;
+		const mergeMethod =
+			input.mergeMethod === "merge" ||
+			input.mergeMethod === "squash" ||
+			input.mergeMethod === "rebase"
+				? input.mergeMethod
+				: undefined;
+		const commitTitle =
+			typeof input.commitTitle === "string" ? input.commitTitle : undefined;
+		const commitMessage =
+			typeof input.commitMessage === "string" ? input.commitMessage : undefined;
+
+		const result = yield* gh.client.pullsMerge(
+			ownerLogin,
+			repoName,
+			String(prNumber),
+			{
+				payload: {
+					merge_method: mergeMethod,
+					commit_title: commitTitle,
+					commit_message: commitMessage,
+				},
+			},
+		);
+
+		return {
+			success: true,
+			resultData: {
+				merged: result.merged,
+				sha: result.sha,
+				message: result.message,
+			},
+			entityNumber: prNumber,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+const executeUpdatePullRequestBranch = (
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const prNumber = num(input.number) ?? 0;
+		const expectedHeadSha =
+			typeof input.expectedHeadSha === "string" ? input.expectedHeadSha : null;
+		const payload =
+			expectedHeadSha === null ? {} : { expected_head_sha: expectedHeadSha };
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					`https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}/pulls/${String(prNumber)}/update-branch`,
+					{
+						method: "PUT",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify(payload),
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+		const message =
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: "Pull request branch update queued";
+
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: {
+					number: prNumber,
+					message,
+				},
+				entityNumber: prNumber,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		return failedResult(message, response.status);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+/**
+ * Open a pull request. The generated client only covers reading pulls, so
+ * this uses `fetch`. GitHub explains 422s (no commits between the branches,
+ * a PR already open) in `errors`, which is surfaced as the message.
+ */
+const executeCreatePullRequest = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		title: string;
+		body: string | undefined;
+		base: string;
+		head: string;
+		draft: boolean;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					`https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}/pulls`,
+					{
+						method: "POST",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify(input),
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+		const prNumber = num(parsedBody.number);
+
+		if (response.status >= 200 && response.status < 300 && prNumber !== null) {
+			return {
+				success: true,
+				resultData: {
+					pullRequestId: num(parsedBody.id),
+					number: prNumber,
+					htmlUrl:
+						typeof parsedBody.html_url === "string"
+							? parsedBody.html_url
+							: null,
+				},
+				entityNumber: prNumber,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		const [firstError] = Array.isArray(parsedBody.errors)
+			? parsedBody.errors
+			: [];
+		const detail =
+			typeof firstError === "object" &&
+			firstError !== null &&
+			"message" in firstError &&
+			typeof firstError.message === "string"
+				? firstError.message
+				: null;
+		return failedResult(
+			detail ??
+				(typeof parsedBody.message === "string"
+					? parsedBody.message
+					: "Failed to create pull request"),
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+const executeSubmitPrReview = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const prNumber = num(input.number) ?? 0;
+		const event =
+			input.event === "APPROVE" ||
+			input.event === "REQUEST_CHANGES" ||
+			input.event === "COMMENT"
+				? input.event
+				: "COMMENT";
+		const body = typeof input.body === "string" ? input.body : undefined;
+
+		const review = yield* gh.client.pullsCreateReview(
+			ownerLogin,
+			repoName,
+			String(prNumber),
+			{
+				payload: { event, body },
+			},
+		);
+
+		return {
+			success: true,
+			resultData: {
+				reviewId: review.id,
+				state: review.state,
+			},
+			entityNumber: prNumber,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+const executeUpdateLabels = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const issueNumber = num(input.number) ?? 0;
+		const labelsToAdd = toStringArray(input.labelsToAdd);
+		const labelsToRemove = toStringArray(input.labelsToRemove);
+
+		if (labelsToAdd.length > 0) {
+			yield* gh.client.issuesAddLabels(
+				ownerLogin,
+				repoName,
+				String(issueNumber),
+				{
+					payload: labelsToAdd,
+				},
+			);
+		}
+
+		for (const label of labelsToRemove) {
+			yield* gh.client.issuesRemoveLabel(
+				ownerLogin,
+				repoName,
+				String(issueNumber),
+				encodeURIComponent(label),
+			);
+		}
+
+		return {
+			success: true,
+			resultData: {
+				number: issueNumber,
+				labelsAdded: labelsToAdd,
+				labelsRemoved: labelsToRemove,
+			},
+			entityNumber: issueNumber,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+const executeUpdateAssignees = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: Record<string, unknown>,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const issueNumber = num(input.number) ?? 0;
+		const assigneesToAdd = toStringArray(input.assigneesToAdd);
+		const assigneesToRemove = toStringArray(input.assigneesToRemove);
+
+		if (assigneesToAdd.length > 0) {
+			yield* gh.client.issuesAddAssignees(
+				ownerLogin,
+				repoName,
+				String(issueNumber),
+				{ payload: { assignees: assigneesToAdd } },
+			);
+		}
+
+		if (assigneesToRemove.length > 0) {
+			yield* gh.client.issuesRemoveAssignees(
+				ownerLogin,
+				repoName,
+				String(issueNumber),
+				{ payload: { assignees: assigneesToRemove } },
+			);
+		}
+
+		return {
+			success: true,
+			resultData: {
+				number: issueNumber,
+				assigneesAdded: assigneesToAdd,
+				assigneesRemoved: assigneesToRemove,
+			},
+			entityNumber: issueNumber,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+/**
+ * Request or remove reviewers on a pull request. The generated client has no
+ * review-request endpoints, so this uses `fetch`. Users go by login and
+ * teams by slug; GitHub rejects requesting the PR author with a 422.
+ */
+const executeUpdateReviewers = (
+	ownerLogin: string,
+	repoName: string,
+	mode: "request" | "remove",
+	input: {
+		number: number;
+		reviewers: ReadonlyArray<string>;
+		teamReviewers: ReadonlyArray<string>;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					`https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}/pulls/${String(input.number)}/requested_reviewers`,
+					{
+						method: mode === "request" ? "POST" : "DELETE",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify({
+							reviewers: input.reviewers,
+							team_reviewers: input.teamReviewers,
+						}),
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: {
+					number: input.number,
+					reviewers: [...input.reviewers],
+					teamReviewers: [...input.teamReviewers],
+				},
+				entityNumber: input.number,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+		return failedResult(
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: mode === "request"
+					? "Failed to request reviewers"
+					: "Failed to remove reviewers",
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+const executeUpdateTitleBody = (
+	gh: GHClient,
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		number: number;
+		title: string | undefined;
+		body: string | undefined;
+	},
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const updated = yield* gh.client.issuesUpdate(
+			ownerLogin,
+			repoName,
+			String(input.number),
+			{
+				payload: {
+					...(input.title === undefined ? {} : { title: input.title }),
+					...(input.body === undefined ? {} : { body: input.body }),
+				},
+			},
+		);
+
+		// issuesUpdate can return Issue | BasicError — fall back to the input
+		const returnedTitle =
+			"title" in updated && typeof updated.title === "string"
+				? updated.title
+				: (input.title ?? null);
+		const returnedBody =
+			"body" in updated && typeof updated.body === "string"
+				? updated.body
+				: (input.body ?? null);
+
+		return {
+			success: true,
+			resultData: {
+				number: input.number,
+				title: returnedTitle,
+				body: returnedBody,
+			},
+			entityNumber: input.number,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((e) =>
+			Effect.succeed(
+				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
+			),
+		),
+	);
+
+/**
+ * Toggle a pull request's draft state. REST cannot change `draft`, so this
+ * looks up the PR's node ID and calls the `convertPullRequestToDraft` /
+ * `markPullRequestReadyForReview` GraphQL mutations via `fetch`.
+ */
+const executeUpdatePullRequestDraft = (
+	ownerLogin: string,
+	repoName: string,
+	input: { number: number; draft: boolean },
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const headers = {
+			Authorization: `Bearer ${token}`,
+			Accept: "application/vnd.github+json",
+			"X-GitHub-Api-Version": "2022-11-28",
+			"Content-Type": "application/json",
+		};
+
+		const prResponse = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					`https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}/pulls/${String(input.number)}`,
+					{ headers },
+				),
+			catch: (error) => new Error(String(error)),
+		});
+		const prText = yield* Effect.tryPromise({
+			try: () => prResponse.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const prBody = parseJsonObject(prText);
+		if (prResponse.status < 200 || prResponse.status >= 300) {
+			return failedResult(
+				typeof prBody.message === "string"
+					? prBody.message
+					: "Failed to load pull request",
+				prResponse.status,
+			);
+		}
+		if (typeof prBody.node_id !== "string") {
+			return failedResult("Pull request has no node ID");
+		}
+
+		const mutation = input.draft
+			? "mutation($id: ID!) { convertPullRequestToDraft(input: { pullRequestId: $id }) { pullRequest { isDraft } } }"
+			: "mutation($id: ID!) { markPullRequestReadyForReview(input: { pullRequestId: $id }) { pullRequest { isDraft } } }";
+		const graphQlResponse = yield* Effect.tryPromise({
+			try: () =>
+				fetch("https://api.github.com/graphql", {
+					method: "POST",
+					headers,
+					body: JSON.stringify({
+						query: mutation,
+						variables: { id: prBody.node_id },
+					}),
+				}),
+			catch: (error) => new Error(String(error)),
+		});
+		const graphQlText = yield* Effect.tryPromise({
+			try: () => graphQlResponse.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const graphQlBody = parseJsonObject(graphQlText);
+
+		// GraphQL reports mutation errors with a 200 and an `errors` array
+		const firstError = Array.isArray(graphQlBody.errors)
+			? graphQlBody.errors[0]
+			: undefined;
+		if (
+			graphQlResponse.status < 200 ||
+			graphQlResponse.status >= 300 ||
+			firstError !== undefined
+		) {
+			const errorMessage =
+				typeof firstError === "object" &&
+				firstError !== null &&
+				"message" in firstError &&
+				typeof firstError.message === "string"
+					? firstError.message
+					: typeof graphQlBody.message === "string"
+						? graphQlBody.message
+						: input.draft
+							? "Failed to convert pull request to draft"
+							: "Failed to mark pull request ready for review";
+			return failedResult(errorMessage, graphQlResponse.status);
+		}
+
+		return {
+			success: true,
+			resultData: { number: input.number, draft: input.draft },
+			entityNumber: input.number,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+/**
+ * Lock or unlock an issue or pull request conversation. The generated client
+ * has no lock endpoints, so this uses `fetch`.
+ */
+const executeUpdateLockState = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		number: number;
+		locked: boolean;
+		lockReason: typeof LockReason.Type | null;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					`https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}/issues/${String(input.number)}/lock`,
+					{
+						method: input.locked ? "PUT" : "DELETE",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+							"Content-Type": "application/json",
+						},
+						...(input.locked && input.lockReason !== null
+							? { body: JSON.stringify({ lock_reason: input.lockReason }) }
+							: {}),
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: {
+					number: input.number,
+					locked: input.locked,
+					lockReason: input.lockReason,
+				},
+				entityNumber: input.number,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+		return failedResult(
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: input.locked
+					? "Failed to lock conversation"
+					: "Failed to unlock conversation",
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+/**
+ * REST collection path for a subject's reactions. The generated client has
+ * no reaction endpoints, so these calls go through `fetch` directly.
+ */
+const reactionsUrl = (
+	ownerLogin: string,
+	repoName: string,
+	subjectType: typeof ReactionSubjectType.Type,
+	subjectId: number,
+) => {
+	const repoUrl = `https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}`;
+	switch (subjectType) {
+		case "issue":
+			return `${repoUrl}/issues/${String(subjectId)}/reactions`;
+		case "issue_comment":
+			return `${repoUrl}/issues/comments/${String(subjectId)}/reactions`;
+		case "review_comment":
+			return `${repoUrl}/pulls/comments/${String(subjectId)}/reactions`;
+	}
+};
+
+const executeAddReaction = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		subjectType: typeof ReactionSubjectType.Type;
+		subjectId: number;
+		content: ReactionContent;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					reactionsUrl(
+						ownerLogin,
+						repoName,
+						input.subjectType,
+						input.subjectId,
+					),
+					{
+						method: "POST",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify({ content: input.content }),
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+
+		// 200 = the user had already reacted with this content, 201 = created
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: {
+					reactionId: num(parsedBody.id),
+					content: input.content,
+					alreadyExisted: response.status === 200,
+				},
+				entityNumber: input.subjectType === "issue" ? input.subjectId : null,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		return failedResult(
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: "Failed to add reaction",
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+const executeRemoveReaction = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		subjectType: typeof ReactionSubjectType.Type;
+		subjectId: number;
+		reactionId: number;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					`${reactionsUrl(ownerLogin, repoName, input.subjectType, input.subjectId)}/${String(input.reactionId)}`,
+					{
+						method: "DELETE",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+						},
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: { reactionId: input.reactionId },
+				entityNumber: input.subjectType === "issue" ? input.subjectId : null,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+		return failedResult(
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: "Failed to remove reaction",
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+/** Pages of 100 read when listing a subject's reactions. */
+const REACTION_LIST_MAX_PAGES = 10;
+
+type ViewerReaction = {
+	githubReactionId: number;
+	content: ReactionContent;
+};
+
+type ViewerReactionsResult = {
+	success: boolean;
+	reactions: ReadonlyArray<ViewerReaction>;
+	errorStatus: number;
+	errorMessage: string | null;
+};
+
+/**
+ * The reactions a GitHub user left on a subject, read from the REST list
+ * (there is no per-user filter, so the pages are scanned for the user's ID).
+ */
+const executeListViewerReactions = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		subjectType: typeof ReactionSubjectType.Type;
+		subjectId: number;
+		githubUserId: number;
+		content?: ReactionContent;
+	},
+	token: string,
+): Effect.Effect<ViewerReactionsResult> =>
+	Effect.gen(function* () {
+		const reactions: Array<ViewerReaction> = [];
+		const contentFilter =
+			input.content === undefined
+				? ""
+				: `&content=${encodeURIComponent(input.content)}`;
+
+		for (let page = 1; page <= REACTION_LIST_MAX_PAGES; page++) {
+			const response = yield* Effect.tryPromise({
+				try: () =>
+					fetch(
+						`${reactionsUrl(ownerLogin, repoName, input.subjectType, input.subjectId)}?per_page=100&page=${String(page)}${contentFilter}`,
+						{
+							headers: {
+								Authorization: `Bearer ${token}`,
+								Accept: "application/vnd.github+json",
+								"X-GitHub-Api-Version": "2022-11-28",
+							},
+						},
+					),
+				catch: (error) => new Error(String(error)),
+			});
+			const responseText = yield* Effect.tryPromise({
+				try: () => response.text(),
+				catch: (error) => new Error(String(error)),
+			});
+
+			if (response.status < 200 || response.status >= 300) {
+				const parsedBody = parseJsonObject(responseText);
+				return {
+					success: false,
+					reactions: [],
+					errorStatus: response.status,
+					errorMessage:
+						typeof parsedBody.message === "string"
+							? parsedBody.message
+							: "Failed to list reactions",
+				};
+			}
+
+			const parsed = yield* Effect.try(() => JSON.parse(responseText));
+			const entries: ReadonlyArray<unknown> = Array.isArray(parsed)
+				? parsed
+				: [];
+			for (const entry of entries) {
+				const reaction = toObjectRecord(entry);
+				const user = toObjectRecord(reaction.user);
+				const githubReactionId = num(reaction.id);
+				if (
+					githubReactionId !== null &&
+					num(user.id) === input.githubUserId &&
+					Schema.is(ReactionContentSchema)(reaction.content)
+				) {
+					reactions.push({ githubReactionId, content: reaction.content });
+				}
+			}
+			if (entries.length < 100) break;
+		}
+
+		return {
+			success: true,
+			reactions,
+			errorStatus: 0,
+			errorMessage: null,
+		};
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed({
+				success: false,
+				reactions: [],
+				errorStatus: errorStatusFromUnknown(error),
+				errorMessage: errorMessageFromUnknown(error),
+			}),
+		),
+	);
+
+/**
+ * REST path of an issue comment or PR review comment. Comment edits go
+ * through `fetch` because the generated client lacks these endpoints.
+ */
+const commentUrl = (
+	ownerLogin: string,
+	repoName: string,
+	commentType: typeof CommentType.Type,
+	commentId: number,
+) => {
+	const repoUrl = `https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}`;
+	return commentType === "issue_comment"
+		? `${repoUrl}/issues/comments/${String(commentId)}`
+		: `${repoUrl}/pulls/comments/${String(commentId)}`;
+};
+
+const executeUpdateComment = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		commentType: typeof CommentType.Type;
+		commentId: number;
+		body: string;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					commentUrl(ownerLogin, repoName, input.commentType, input.commentId),
+					{
+						method: "PATCH",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify({ body: input.body }),
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: {
+					commentId: input.commentId,
+					htmlUrl:
+						typeof parsedBody.html_url === "string"
+							? parsedBody.html_url
+							: null,
+				},
+				entityNumber: null,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		return failedResult(
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: "Failed to update comment",
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+const executeDeleteComment = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		commentType: typeof CommentType.Type;
+		commentId: number;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(
+					commentUrl(ownerLogin, repoName, input.commentType, input.commentId),
+					{
+						method: "DELETE",
+						headers: {
+							Authorization: `Bearer ${token}`,
+							Accept: "application/vnd.github+json",
+							"X-GitHub-Api-Version": "2022-11-28",
+						},
+					},
+				),
+			catch: (error) => new Error(String(error)),
+		});
+
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: { commentId: input.commentId },
+				entityNumber: null,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+		return failedResult(
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: "Failed to delete comment",
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+const normalizeLabelColor = (color: string) =>
+	color.trim().replace(/^#/, "").toLowerCase();
+
+/**
+ * Create (`labelName: null`), update or delete a repository label. The
+ * generated client lacks the label catalog endpoints, so this uses `fetch`.
+ */
+const executeLabelWrite = (
+	ownerLogin: string,
+	repoName: string,
+	input: {
+		method: "POST" | "PATCH" | "DELETE";
+		labelName: string | null;
+		body: Record<string, string | undefined> | null;
+	},
+	token: string,
+): Effect.Effect<ExecutionResult> =>
+	Effect.gen(function* () {
+		const labelsUrl = `https://api.github.com/repos/${encodeURIComponent(ownerLogin)}/${encodeURIComponent(repoName)}/labels`;
+		const url =
+			input.labelName === null
+				? labelsUrl
+				: `${labelsUrl}/${encodeURIComponent(input.labelName)}`;
+
+		const response = yield* Effect.tryPromise({
+			try: () =>
+				fetch(url, {
+					method: input.method,
+					headers: {
+						Authorization: `Bearer ${token}`,
+						Accept: "application/vnd.github+json",
+						"X-GitHub-Api-Version": "2022-11-28",
+						"Content-Type": "application/json",
+					},
+					body: input.body === null ? undefined : JSON.stringify(input.body),
+				}),
+			catch: (error) => new Error(String(error)),
+		});
+
+		const responseText = yield* Effect.tryPromise({
+			try: () => response.text(),
+			catch: (error) => new Error(String(error)),
+		});
+		const parsedBody = parseJsonObject(responseText);
+
+		if (response.status >= 200 && response.status < 300) {
+			return {
+				success: true,
+				resultData: {
+					labelName:
+						typeof parsedBody.name === "string"
+							? parsedBody.name
+							: input.labelName,
+				},
+				entityNumber: null,
+				errorStatus: 0,
+				errorMessage: null,
+			};
+		}
+
+		return failedResult(
+			typeof parsedBody.message === "string"
+				? parsedBody.message
+				: "Failed to update label",
+			response.status,
+		);
+	}).pipe(
+		Effect.catchAll((error) =>
+			Effect.succeed(
+				failedResult(
+					errorMessageFromUnknown(error),
+					errorStatusFromUnknown(error),
+				),
+			),
+		),
+	);
+
+// ---------------------------------------------------------------------------
+// 3. Internal mutations — mark completed / failed / confirmed
+// ---------------------------------------------------------------------------
+
+const markIssueCreateAcceptedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		githubIssueId: Schema.Number,
+		githubIssueNumber: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markIssueCreateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(issue)) return { updated: false };
+
+		yield* ctx.db.patch(issue.value._id, {
+			githubIssueId: args.githubIssueId,
+			number: args.githubIssueNumber,
+			optimisticState: "pending",
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markIssueCreateFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markIssueCreateFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(issue)) return { updated: false };
+
+		yield* ctx.db.patch(issue.value._id, {
+			optimisticState: "failed",
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markCommentCreateAcceptedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		githubCommentId: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markCommentCreateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const comment = yield* ctx.db
+			.query("github_issue_comments")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(comment)) return { updated: false };
+
+		yield* ctx.db.patch(comment.value._id, {
+			githubCommentId: args.githubCommentId,
+			optimisticState: "pending",
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markCommentCreateFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markCommentCreateFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const comment = yield* ctx.db
+			.query("github_issue_comments")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(comment)) return { updated: false };
+
+		yield* ctx.db.patch(comment.value._id, {
+			optimisticState: "failed",
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markIssueStateUpdateAcceptedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markIssueStateUpdateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (Option.isSome(issue)) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			return { updated: true };
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (Option.isNone(pr)) return { updated: false };
+
+		yield* ctx.db.patch(pr.value._id, {
+			optimisticState: "pending",
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: Date.now(),
+		});
+		return { updated: true };
+	}),
+);
+
+const markIssueStateUpdateFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markIssueStateUpdateFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (Option.isSome(issue)) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			return { updated: true };
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (Option.isNone(pr)) return { updated: false };
+
+		yield* ctx.db.patch(pr.value._id, {
+			optimisticState: "failed",
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		});
+		return { updated: true };
+	}),
+);
+
+const markMergePullRequestAcceptedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markMergePullRequestAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(pr)) return { updated: false };
+
+		yield* ctx.db.patch(pr.value._id, {
+			optimisticState: "pending",
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markMergePullRequestFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markMergePullRequestFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(pr)) return { updated: false };
+
+		yield* ctx.db.patch(pr.value._id, {
+			optimisticState: "failed",
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markPullRequestBranchUpdateAcceptedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markPullRequestBranchUpdateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (
+			Option.isNone(pr) ||
+			pr.value.optimisticOperationType !== "update_pull_request_branch"
+		) {
+			return { updated: false };
+		}
+
+		yield* ctx.db.patch(pr.value._id, {
+			optimisticState: "pending",
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markPullRequestBranchUpdateFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markPullRequestBranchUpdateFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (
+			Option.isNone(pr) ||
+			pr.value.optimisticOperationType !== "update_pull_request_branch"
+		) {
+			return { updated: false };
+		}
+
+		yield* ctx.db.patch(pr.value._id, {
+			optimisticState: "failed",
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+const markPrReviewAcceptedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		githubReviewId: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markPrReviewAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const review = yield* ctx.db
+			.query("github_pull_request_reviews")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(review)) return { updated: false };
+
+		yield* ctx.db.patch(review.value._id, {
+			githubReviewId: args.githubReviewId,
+			optimisticState: "pending",
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: Date.now(),
+		});
+		return { updated: true };
+	}),
+);
+
+const markPrReviewFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markPrReviewFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const review = yield* ctx.db
+			.query("github_pull_request_reviews")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(review)) return { updated: false };
+
+		yield* ctx.db.patch(review.value._id, {
+			optimisticState: "failed",
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		});
+		return { updated: true };
+	}),
+);
+
+const markLabelsUpdateAcceptedDef = factory.internalMutation({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markLabelsUpdateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_labels"
+		) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_labels"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		return { updated };
+	}),
+);
+
+const markLabelsUpdateFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markLabelsUpdateFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_labels"
+		) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_labels"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		return { updated };
+	}),
+);
+
+const markAssigneesUpdateAcceptedDef = factory.internalMutation({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markAssigneesUpdateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_assignees"
+		) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_assignees"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
 		}
 
-		return {
-			success: true,
-			resultData: {
-				number: issueNumber,
-				assigneesAdded: assigneesToAdd,
-				assigneesRemoved: assigneesToRemove,
-			},
-			entityNumber: issueNumber,
-			errorStatus: 0,
-			errorMessage: null,
-		};
-	}).pipe(
-		Effect.catchAll((e) =>
-			Effect.succeed(
-				failedResult(errorMessageFromUnknown(e), errorStatusFromUnknown(e)),
-			),
-		),
-	);
-
-// ---------------------------------------------------------------------------
-// 3. Internal mutations — mark completed / failed / confirmed
-// ---------------------------------------------------------------------------
+		return { updated };
+	}),
+);
 
-const markIssueCreateAcceptedDef = factory.internalMutation({
+const markAssigneesUpdateFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
-		githubIssueId: Schema.Number,
-		githubIssueNumber: Schema.Number,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
 	},
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markIssueCreateAcceptedDef.implement((args) =>
+markAssigneesUpdateFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
+
 		const issue = yield* ctx.db
 			.query("github_issues")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_assignees"
+		) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
 
-		if (Option.isNone(issue)) return { updated: false };
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_assignees"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
 
-		yield* ctx.db.patch(issue.value._id, {
-			githubIssueId: args.githubIssueId,
-			number: args.githubIssueNumber,
+		return { updated };
+	}),
+);
+
+const isReviewersOperation = (operationType: string | null | undefined) =>
+	operationType === "request_reviewers" || operationType === "remove_reviewers";
+
+const markReviewersUpdateAcceptedDef = factory.internalMutation({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markReviewersUpdateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isNone(pr) ||
+			!isReviewersOperation(pr.value.optimisticOperationType)
+		) {
+			return { updated: false };
+		}
+
+		yield* ctx.db.patch(pr.value._id, {
 			optimisticState: "pending",
 			optimisticErrorMessage: null,
 			optimisticErrorStatus: null,
 			optimisticUpdatedAt: Date.now(),
 		});
-
 		return { updated: true };
 	}),
 );
 
-const markIssueCreateFailedDef = factory.internalMutation({
+const markReviewersUpdateFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
 		errorMessage: Schema.String,
@@ -1548,62 +4540,261 @@ const markIssueCreateFailedDef = factory.internalMutation({
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markIssueCreateFailedDef.implement((args) =>
+markReviewersUpdateFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const issue = yield* ctx.db
-			.query("github_issues")
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
+		if (
+			Option.isNone(pr) ||
+			!isReviewersOperation(pr.value.optimisticOperationType)
+		) {
+			return { updated: false };
+		}
 
-		if (Option.isNone(issue)) return { updated: false };
-
-		yield* ctx.db.patch(issue.value._id, {
+		yield* ctx.db.patch(pr.value._id, {
 			optimisticState: "failed",
 			optimisticErrorMessage: args.errorMessage,
 			optimisticErrorStatus: args.errorStatus,
 			optimisticUpdatedAt: Date.now(),
 		});
-
 		return { updated: true };
 	}),
 );
 
-const markCommentCreateAcceptedDef = factory.internalMutation({
+/**
+ * Stamp a pending issue/PR edit onto the mirrored rows for `number`. Values
+ * are not applied locally; the confirming webhook brings them in, and a
+ * failure only records the error.
+ */
+const recordPendingEntityWriteDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
-		githubCommentId: Schema.Number,
+		repositoryId: Schema.Number,
+		number: Schema.Number,
+		operationType: EntityWriteOperationType,
+		/** The write's arguments, as read back by the matching `getPending*` query */
+		payloadJson: Schema.String,
+	},
+	success: EntityWriteRecordResultSchema,
+});
+
+recordPendingEntityWriteDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+
+		const duplicateIssue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		const duplicatePr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (Option.isSome(duplicateIssue) || Option.isSome(duplicatePr)) {
+			return { recorded: false, reason: "duplicate" as const };
+		}
+
+		const pending = {
+			optimisticCorrelationId: args.correlationId,
+			optimisticState: "pending" as const,
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticPayloadJson: args.payloadJson,
+			optimisticUpdatedAt: Date.now(),
+		};
+		let recorded = false;
+
+		// Draft state and review requests only exist on the PR row
+		if (
+			args.operationType === "update_title_body" ||
+			args.operationType === "update_lock_state"
+		) {
+			const issue = yield* ctx.db
+				.query("github_issues")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", args.repositoryId).eq("number", args.number),
+				)
+				.first();
+			if (Option.isSome(issue)) {
+				yield* ctx.db.patch(issue.value._id, {
+					...pending,
+					optimisticOperationType: args.operationType,
+				});
+				recorded = true;
+			}
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", args.repositoryId).eq("number", args.number),
+			)
+			.first();
+		if (Option.isSome(pr)) {
+			yield* ctx.db.patch(pr.value._id, {
+				...pending,
+				optimisticOperationType: args.operationType,
+			});
+			recorded = true;
+		}
+
+		return recorded
+			? { recorded: true, reason: "recorded" as const }
+			: { recorded: false, reason: "not_found" as const };
+	}),
+);
+
+const markTitleBodyUpdateAcceptedDef = factory.internalMutation({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markTitleBodyUpdateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_title_body"
+		) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_title_body"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		return { updated };
+	}),
+);
+
+const markTitleBodyUpdateFailedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		errorMessage: Schema.String,
+		errorStatus: Schema.Number,
 	},
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markCommentCreateAcceptedDef.implement((args) =>
+markTitleBodyUpdateFailedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_title_body"
+		) {
+			yield* ctx.db.patch(issue.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_title_body"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
+
+		return { updated };
+	}),
+);
+
+const markPullRequestDraftUpdateAcceptedDef = factory.internalMutation({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markPullRequestDraftUpdateAcceptedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const comment = yield* ctx.db
-			.query("github_issue_comments")
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
+		if (
+			Option.isNone(pr) ||
+			pr.value.optimisticOperationType !== "convert_pull_request_draft"
+		) {
+			return { updated: false };
+		}
 
-		if (Option.isNone(comment)) return { updated: false };
-
-		yield* ctx.db.patch(comment.value._id, {
-			githubCommentId: args.githubCommentId,
+		yield* ctx.db.patch(pr.value._id, {
 			optimisticState: "pending",
 			optimisticErrorMessage: null,
 			optimisticErrorStatus: null,
 			optimisticUpdatedAt: Date.now(),
 		});
-
 		return { updated: true };
 	}),
 );
 
-const markCommentCreateFailedDef = factory.internalMutation({
+const markPullRequestDraftUpdateFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
 		errorMessage: Schema.String,
@@ -1612,39 +4803,42 @@ const markCommentCreateFailedDef = factory.internalMutation({
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markCommentCreateFailedDef.implement((args) =>
+markPullRequestDraftUpdateFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const comment = yield* ctx.db
-			.query("github_issue_comments")
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
+		if (
+			Option.isNone(pr) ||
+			pr.value.optimisticOperationType !== "convert_pull_request_draft"
+		) {
+			return { updated: false };
+		}
 
-		if (Option.isNone(comment)) return { updated: false };
-
-		yield* ctx.db.patch(comment.value._id, {
+		yield* ctx.db.patch(pr.value._id, {
 			optimisticState: "failed",
 			optimisticErrorMessage: args.errorMessage,
 			optimisticErrorStatus: args.errorStatus,
 			optimisticUpdatedAt: Date.now(),
 		});
-
 		return { updated: true };
 	}),
 );
 
-const markIssueStateUpdateAcceptedDef = factory.internalMutation({
-	payload: {
-		correlationId: Schema.String,
-	},
+const markLockStateUpdateAcceptedDef = factory.internalMutation({
+	payload: { correlationId: Schema.String },
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markIssueStateUpdateAcceptedDef.implement((args) =>
+markLockStateUpdateAcceptedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
 
 		const issue = yield* ctx.db
 			.query("github_issues")
@@ -1652,14 +4846,17 @@ markIssueStateUpdateAcceptedDef.implement((args) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
-		if (Option.isSome(issue)) {
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_lock_state"
+		) {
 			yield* ctx.db.patch(issue.value._id, {
 				optimisticState: "pending",
 				optimisticErrorMessage: null,
 				optimisticErrorStatus: null,
 				optimisticUpdatedAt: Date.now(),
 			});
-			return { updated: true };
+			updated = true;
 		}
 
 		const pr = yield* ctx.db
@@ -1668,19 +4865,24 @@ markIssueStateUpdateAcceptedDef.implement((args) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
-		if (Option.isNone(pr)) return { updated: false };
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_lock_state"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "pending",
+				optimisticErrorMessage: null,
+				optimisticErrorStatus: null,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
 
-		yield* ctx.db.patch(pr.value._id, {
-			optimisticState: "pending",
-			optimisticErrorMessage: null,
-			optimisticErrorStatus: null,
-			optimisticUpdatedAt: Date.now(),
-		});
-		return { updated: true };
+		return { updated };
 	}),
 );
 
-const markIssueStateUpdateFailedDef = factory.internalMutation({
+const markLockStateUpdateFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
 		errorMessage: Schema.String,
@@ -1689,9 +4891,10 @@ const markIssueStateUpdateFailedDef = factory.internalMutation({
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markIssueStateUpdateFailedDef.implement((args) =>
+markLockStateUpdateFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
+		let updated = false;
 
 		const issue = yield* ctx.db
 			.query("github_issues")
@@ -1699,14 +4902,17 @@ markIssueStateUpdateFailedDef.implement((args) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
-		if (Option.isSome(issue)) {
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_lock_state"
+		) {
 			yield* ctx.db.patch(issue.value._id, {
 				optimisticState: "failed",
 				optimisticErrorMessage: args.errorMessage,
 				optimisticErrorStatus: args.errorStatus,
 				optimisticUpdatedAt: Date.now(),
 			});
-			return { updated: true };
+			updated = true;
 		}
 
 		const pr = yield* ctx.db
@@ -1715,116 +4921,308 @@ markIssueStateUpdateFailedDef.implement((args) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
-		if (Option.isNone(pr)) return { updated: false };
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_lock_state"
+		) {
+			yield* ctx.db.patch(pr.value._id, {
+				optimisticState: "failed",
+				optimisticErrorMessage: args.errorMessage,
+				optimisticErrorStatus: args.errorStatus,
+				optimisticUpdatedAt: Date.now(),
+			});
+			updated = true;
+		}
 
-		yield* ctx.db.patch(pr.value._id, {
-			optimisticState: "failed",
-			optimisticErrorMessage: args.errorMessage,
-			optimisticErrorStatus: args.errorStatus,
-			optimisticUpdatedAt: Date.now(),
-		});
-		return { updated: true };
+		return { updated };
 	}),
 );
 
-const markMergePullRequestAcceptedDef = factory.internalMutation({
-	payload: {
-		correlationId: Schema.String,
-	},
-	success: Schema.Struct({ updated: Schema.Boolean }),
-});
-
-markMergePullRequestAcceptedDef.implement((args) =>
+/**
+ * Apply a local +1/-1 to the mirrored reaction counts of a subject row.
+ * The next webhook for the subject overwrites them with GitHub's rollup.
+ */
+const adjustSubjectReactions = (
+	repositoryId: number,
+	subjectType: typeof ReactionSubjectType.Type,
+	subjectId: number,
+	content: ReactionContent,
+	delta: 1 | -1,
+) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
-			)
-			.first();
 
-		if (Option.isNone(pr)) return { updated: false };
+		if (subjectType === "issue") {
+			const issue = yield* ctx.db
+				.query("github_issues")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", repositoryId).eq("number", subjectId),
+				)
+				.first();
+			if (Option.isSome(issue)) {
+				yield* ctx.db.patch(issue.value._id, {
+					reactions: adjustReactionSummary(
+						issue.value.reactions,
+						content,
+						delta,
+					),
+				});
+			}
+			return;
+		}
 
-		yield* ctx.db.patch(pr.value._id, {
-			optimisticState: "pending",
-			optimisticErrorMessage: null,
-			optimisticErrorStatus: null,
-			optimisticUpdatedAt: Date.now(),
-		});
+		if (subjectType === "issue_comment") {
+			const comment = yield* ctx.db
+				.query("github_issue_comments")
+				.withIndex("by_repositoryId_and_githubCommentId", (q) =>
+					q.eq("repositoryId", repositoryId).eq("githubCommentId", subjectId),
+				)
+				.first();
+			if (Option.isSome(comment)) {
+				yield* ctx.db.patch(comment.value._id, {
+					reactions: adjustReactionSummary(
+						comment.value.reactions,
+						content,
+						delta,
+					),
+				});
+			}
+			return;
+		}
 
-		return { updated: true };
-	}),
-);
+		const reviewComment = yield* ctx.db
+			.query("github_pull_request_review_comments")
+			.withIndex("by_repositoryId_and_githubReviewCommentId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("githubReviewCommentId", subjectId),
+			)
+			.first();
+		if (Option.isSome(reviewComment)) {
+			yield* ctx.db.patch(reviewComment.value._id, {
+				reactions: adjustReactionSummary(
+					reviewComment.value.reactions,
+					content,
+					delta,
+				),
+			});
+		}
+	});
 
-const markMergePullRequestFailedDef = factory.internalMutation({
+/**
+ * Write the optimistic reaction row (and adjust the subject's counts) before
+ * the GitHub call. Removals need the GitHub reaction ID of a tracked row.
+ */
+const recordPendingReactionDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
-		errorMessage: Schema.String,
-		errorStatus: Schema.Number,
+		repositoryId: Schema.Number,
+		subjectType: ReactionSubjectType,
+		subjectId: Schema.Number,
+		content: ReactionContentSchema,
+		githubUserId: Schema.Number,
+		operationType: Schema.Literal("add_reaction", "remove_reaction"),
+		/** GitHub ID of an untracked reaction a removal targets */
+		githubReactionId: Schema.optional(Schema.Number),
 	},
-	success: Schema.Struct({ updated: Schema.Boolean }),
+	success: ReactionRecordResultSchema,
 });
 
-markMergePullRequestFailedDef.implement((args) =>
+recordPendingReactionDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
+		const now = Date.now();
+
+		const duplicate = yield* ctx.db
+			.query("github_reactions")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
+		if (Option.isSome(duplicate)) {
+			return {
+				recorded: false,
+				reason: "duplicate" as const,
+				githubReactionId: null,
+			};
+		}
 
-		if (Option.isNone(pr)) return { updated: false };
+		const tracked = yield* ctx.db
+			.query("github_reactions")
+			.withIndex("by_repositoryId_and_subjectType_and_subjectId", (q) =>
+				q
+					.eq("repositoryId", args.repositoryId)
+					.eq("subjectType", args.subjectType)
+					.eq("subjectId", args.subjectId),
+			)
+			.collect();
+		const existing =
+			tracked.find(
+				(reaction) =>
+					reaction.githubUserId === args.githubUserId &&
+					reaction.content === args.content,
+			) ?? null;
+
+		const optimistic = {
+			optimisticCorrelationId: args.correlationId,
+			optimisticOperationType: args.operationType,
+			optimisticState: "pending" as const,
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: now,
+		};
 
-		yield* ctx.db.patch(pr.value._id, {
-			optimisticState: "failed",
-			optimisticErrorMessage: args.errorMessage,
-			optimisticErrorStatus: args.errorStatus,
-			optimisticUpdatedAt: Date.now(),
-		});
+		if (args.operationType === "remove_reaction") {
+			const githubReactionId =
+				existing?.githubReactionId ?? args.githubReactionId ?? null;
+			if (githubReactionId === null) {
+				return {
+					recorded: false,
+					reason: "not_found" as const,
+					githubReactionId: null,
+				};
+			}
+			if (existing === null) {
+				// Untracked, so the subject's counts include it
+				yield* adjustSubjectReactions(
+					args.repositoryId,
+					args.subjectType,
+					args.subjectId,
+					args.content,
+					-1,
+				);
+				yield* ctx.db.insert("github_reactions", {
+					repositoryId: args.repositoryId,
+					subjectType: args.subjectType,
+					subjectId: args.subjectId,
+					githubReactionId,
+					githubUserId: args.githubUserId,
+					content: args.content,
+					createdAt: now,
+					...optimistic,
+					optimisticCountAdjusted: true,
+				});
+				return {
+					recorded: true,
+					reason: "recorded" as const,
+					githubReactionId,
+				};
+			}
+			const countAdjusted = isReactionCounted(existing);
+			if (countAdjusted) {
+				yield* adjustSubjectReactions(
+					args.repositoryId,
+					args.subjectType,
+					args.subjectId,
+					args.content,
+					-1,
+				);
+			}
+			yield* ctx.db.patch(existing._id, {
+				githubReactionId,
+				...optimistic,
+				optimisticCountAdjusted: countAdjusted,
+			});
+			return {
+				recorded: true,
+				reason: "recorded" as const,
+				githubReactionId,
+			};
+		}
 
-		return { updated: true };
+		const countAdjusted = existing === null || !isReactionCounted(existing);
+		if (countAdjusted) {
+			yield* adjustSubjectReactions(
+				args.repositoryId,
+				args.subjectType,
+				args.subjectId,
+				args.content,
+				1,
+			);
+		}
+		if (existing === null) {
+			yield* ctx.db.insert("github_reactions", {
+				repositoryId: args.repositoryId,
+				subjectType: args.subjectType,
+				subjectId: args.subjectId,
+				githubReactionId: null,
+				githubUserId: args.githubUserId,
+				content: args.content,
+				createdAt: now,
+				...optimistic,
+				optimisticCountAdjusted: countAdjusted,
+			});
+		} else {
+			yield* ctx.db.patch(existing._id, {
+				...optimistic,
+				optimisticCountAdjusted: countAdjusted,
+			});
+		}
+
+		return {
+			recorded: true,
+			reason: "recorded" as const,
+			githubReactionId: existing?.githubReactionId ?? null,
+		};
 	}),
 );
 
-const markPullRequestBranchUpdateAcceptedDef = factory.internalMutation({
+/**
+ * GitHub sends no webhook for reactions, so a successful API response is the
+ * confirmation: additions become `confirmed`, removals drop the row.
+ */
+const markReactionAcceptedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
+		githubReactionId: Schema.Number,
+		/** GitHub answered 200: the reaction already existed and was counted */
+		alreadyCounted: Schema.optional(Schema.Boolean),
 	},
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markPullRequestBranchUpdateAcceptedDef.implement((args) =>
+markReactionAcceptedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
+
+		const reaction = yield* ctx.db
+			.query("github_reactions")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
+		if (Option.isNone(reaction)) return { updated: false };
+
+		if (reaction.value.optimisticOperationType === "remove_reaction") {
+			yield* ctx.db.delete(reaction.value._id);
+			return { updated: true };
+		}
 
 		if (
-			Option.isNone(pr) ||
-			pr.value.optimisticOperationType !== "update_pull_request_branch"
+			args.alreadyCounted === true &&
+			reaction.value.optimisticCountAdjusted === true
 		) {
-			return { updated: false };
+			yield* adjustSubjectReactions(
+				reaction.value.repositoryId,
+				reaction.value.subjectType,
+				reaction.value.subjectId,
+				reaction.value.content,
+				-1,
+			);
 		}
-
-		yield* ctx.db.patch(pr.value._id, {
-			optimisticState: "pending",
+		yield* ctx.db.patch(reaction.value._id, {
+			githubReactionId: args.githubReactionId,
+			optimisticCountAdjusted: false,
+			optimisticState: "confirmed",
 			optimisticErrorMessage: null,
 			optimisticErrorStatus: null,
 			optimisticUpdatedAt: Date.now(),
 		});
-
 		return { updated: true };
 	}),
 );
 
-const markPullRequestBranchUpdateFailedDef = factory.internalMutation({
+const markReactionFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
 		errorMessage: Schema.String,
@@ -1833,66 +5231,138 @@ const markPullRequestBranchUpdateFailedDef = factory.internalMutation({
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markPullRequestBranchUpdateFailedDef.implement((args) =>
+markReactionFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
+
+		const reaction = yield* ctx.db
+			.query("github_reactions")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
-
 		if (
-			Option.isNone(pr) ||
-			pr.value.optimisticOperationType !== "update_pull_request_branch"
+			Option.isNone(reaction) ||
+			reaction.value.optimisticState !== "pending"
 		) {
 			return { updated: false };
 		}
 
-		yield* ctx.db.patch(pr.value._id, {
+		// Roll the optimistic count change back, unless a webhook rollup has
+		// already replaced the counts it was applied to
+		if (reaction.value.optimisticCountAdjusted === true) {
+			yield* adjustSubjectReactions(
+				reaction.value.repositoryId,
+				reaction.value.subjectType,
+				reaction.value.subjectId,
+				reaction.value.content,
+				reaction.value.optimisticOperationType === "remove_reaction" ? 1 : -1,
+			);
+		}
+		yield* ctx.db.patch(reaction.value._id, {
+			optimisticCountAdjusted: false,
 			optimisticState: "failed",
 			optimisticErrorMessage: args.errorMessage,
 			optimisticErrorStatus: args.errorStatus,
 			optimisticUpdatedAt: Date.now(),
 		});
-
 		return { updated: true };
 	}),
 );
 
-const markPrReviewAcceptedDef = factory.internalMutation({
+/**
+ * Record a pull request about to be opened, before the GitHub call. A
+ * correlation ID already on file is a duplicate submit.
+ */
+const recordPendingPullRequestCreateDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
-		githubReviewId: Schema.Number,
+		repositoryId: Schema.Number,
+		title: Schema.String,
+		body: Schema.NullOr(Schema.String),
+		base: Schema.String,
+		head: Schema.String,
+		draft: Schema.Boolean,
 	},
-	success: Schema.Struct({ updated: Schema.Boolean }),
+	success: PullRequestCreateRecordResultSchema,
 });
 
-markPrReviewAcceptedDef.implement((args) =>
+recordPendingPullRequestCreateDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const review = yield* ctx.db
-			.query("github_pull_request_reviews")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
+		const now = Date.now();
+
+		const duplicate = yield* ctx.db
+			.query("github_pull_request_creates")
+			.withIndex("by_correlationId", (q) =>
+				q.eq("correlationId", args.correlationId),
 			)
 			.first();
+		if (Option.isSome(duplicate)) return { recorded: false };
+
+		yield* ctx.db.insert("github_pull_request_creates", {
+			repositoryId: args.repositoryId,
+			correlationId: args.correlationId,
+			title: args.title,
+			body: args.body,
+			baseRefName: args.base,
+			headRefName: args.head,
+			draft: args.draft,
+			number: null,
+			optimisticState: "pending",
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			createdAt: now,
+			updatedAt: now,
+		});
+		return { recorded: true };
+	}),
+);
 
-		if (Option.isNone(review)) return { updated: false };
+/**
+ * GitHub opened the pull request. The `opened` webhook confirms it once the
+ * mirrored row exists.
+ */
+const markPullRequestCreateAcceptedDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		number: Schema.Number,
+	},
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
 
-		yield* ctx.db.patch(review.value._id, {
-			githubReviewId: args.githubReviewId,
-			optimisticState: "pending",
+markPullRequestCreateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const create = yield* ctx.db
+			.query("github_pull_request_creates")
+			.withIndex("by_correlationId", (q) =>
+				q.eq("correlationId", args.correlationId),
+			)
+			.first();
+		if (Option.isNone(create)) return { updated: false };
+
+		// The webhook may have mirrored the pull request already
+		const mirrored = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q
+					.eq("repositoryId", create.value.repositoryId)
+					.eq("number", args.number),
+			)
+			.first();
+		yield* ctx.db.patch(create.value._id, {
+			number: args.number,
+			optimisticState: Option.isSome(mirrored) ? "confirmed" : "completed",
 			optimisticErrorMessage: null,
 			optimisticErrorStatus: null,
-			optimisticUpdatedAt: Date.now(),
+			updatedAt: Date.now(),
 		});
 		return { updated: true };
 	}),
 );
 
-const markPrReviewFailedDef = factory.internalMutation({
+const markPullRequestCreateFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
 		errorMessage: Schema.String,
@@ -1901,81 +5371,308 @@ const markPrReviewFailedDef = factory.internalMutation({
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markPrReviewFailedDef.implement((args) =>
+markPullRequestCreateFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const review = yield* ctx.db
-			.query("github_pull_request_reviews")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
+		const create = yield* ctx.db
+			.query("github_pull_request_creates")
+			.withIndex("by_correlationId", (q) =>
+				q.eq("correlationId", args.correlationId),
 			)
 			.first();
+		if (Option.isNone(create) || create.value.optimisticState !== "pending") {
+			return { updated: false };
+		}
 
-		if (Option.isNone(review)) return { updated: false };
-
-		yield* ctx.db.patch(review.value._id, {
+		yield* ctx.db.patch(create.value._id, {
 			optimisticState: "failed",
 			optimisticErrorMessage: args.errorMessage,
 			optimisticErrorStatus: args.errorStatus,
-			optimisticUpdatedAt: Date.now(),
+			updatedAt: Date.now(),
 		});
 		return { updated: true };
 	}),
 );
 
-const markLabelsUpdateAcceptedDef = factory.internalMutation({
-	payload: { correlationId: Schema.String },
-	success: Schema.Struct({ updated: Schema.Boolean }),
+/**
+ * Stamp the viewer's reaction sync for a subject, unless one ran within
+ * `REACTION_SYNC_INTERVAL_MS`. Claiming before the fetch also keeps
+ * concurrent page loads from listing the same subject twice.
+ */
+const claimReactionSyncDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		subjectType: ReactionSubjectType,
+		subjectId: Schema.Number,
+		githubUserId: Schema.Number,
+	},
+	success: ReactionSyncClaimSchema,
 });
 
-markLabelsUpdateAcceptedDef.implement((args) =>
+claimReactionSyncDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		let updated = false;
+		const now = Date.now();
+
+		const existing = yield* ctx.db
+			.query("github_reaction_syncs")
+			.withIndex(
+				"by_repositoryId_and_subjectType_and_subjectId_and_githubUserId",
+				(q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("subjectType", args.subjectType)
+						.eq("subjectId", args.subjectId)
+						.eq("githubUserId", args.githubUserId),
+			)
+			.first();
+		if (Option.isNone(existing)) {
+			yield* ctx.db.insert("github_reaction_syncs", { ...args, syncedAt: now });
+			return { claimed: true };
+		}
+		if (now - existing.value.syncedAt < REACTION_SYNC_INTERVAL_MS) {
+			return { claimed: false };
+		}
+		yield* ctx.db.patch(existing.value._id, { syncedAt: now });
+		return { claimed: true };
+	}),
+);
 
-		const issue = yield* ctx.db
-			.query("github_issues")
+/**
+ * Make the viewer's tracked reactions on a subject match GitHub's list.
+ * Counts are left alone (they come from GitHub's rollup already), and rows
+ * with a write in flight are skipped so the write settles them.
+ */
+const reconcileViewerReactionsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		subjectType: ReactionSubjectType,
+		subjectId: Schema.Number,
+		githubUserId: Schema.Number,
+		reactions: Schema.Array(
+			Schema.Struct({
+				githubReactionId: Schema.Number,
+				content: ReactionContentSchema,
+			}),
+		),
+	},
+	success: Schema.Struct({ inserted: Schema.Number, deleted: Schema.Number }),
+});
+
+reconcileViewerReactionsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const remoteIdByContent = new Map(
+			args.reactions.map((reaction) => [
+				reaction.content,
+				reaction.githubReactionId,
+			]),
+		);
+
+		const tracked = yield* ctx.db
+			.query("github_reactions")
+			.withIndex("by_repositoryId_and_subjectType_and_subjectId", (q) =>
+				q
+					.eq("repositoryId", args.repositoryId)
+					.eq("subjectType", args.subjectType)
+					.eq("subjectId", args.subjectId),
+			)
+			.collect();
+
+		let deleted = 0;
+		const trackedContents = new Set<ReactionContent>();
+		for (const reaction of tracked) {
+			if (reaction.githubUserId !== args.githubUserId) continue;
+			trackedContents.add(reaction.content);
+			if (reaction.optimisticState === "pending") continue;
+
+			const remoteId = remoteIdByContent.get(reaction.content);
+			if (remoteId === undefined) {
+				// Failed additions stay so the failure is still reported
+				if (isReactionCounted(reaction)) {
+					yield* ctx.db.delete(reaction._id);
+					deleted++;
+				}
+				continue;
+			}
+			if (!isReactionCounted(reaction)) {
+				// A failed addition that exists on GitHub after all
+				yield* ctx.db.patch(reaction._id, {
+					githubReactionId: remoteId,
+					optimisticState: "confirmed",
+					optimisticErrorMessage: null,
+					optimisticErrorStatus: null,
+				});
+			} else if (reaction.githubReactionId !== remoteId) {
+				yield* ctx.db.patch(reaction._id, { githubReactionId: remoteId });
+			}
+		}
+
+		let inserted = 0;
+		for (const [content, githubReactionId] of remoteIdByContent) {
+			if (trackedContents.has(content)) continue;
+			yield* ctx.db.insert("github_reactions", {
+				repositoryId: args.repositoryId,
+				subjectType: args.subjectType,
+				subjectId: args.subjectId,
+				githubReactionId,
+				githubUserId: args.githubUserId,
+				content,
+				createdAt: Date.now(),
+			});
+			inserted++;
+		}
+
+		return { inserted, deleted };
+	}),
+);
+
+/**
+ * Comment rows carrying an optimistic edit/delete. A correlation ID only ever
+ * lands on one of the two tables.
+ */
+const findCommentsByCorrelationId = (correlationId: string) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const issueComment = yield* ctx.db
+			.query("github_issue_comments")
 			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
+				q.eq("optimisticCorrelationId", correlationId),
+			)
+			.first();
+		const reviewComment = yield* ctx.db
+			.query("github_pull_request_review_comments")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", correlationId),
 			)
 			.first();
+		return { issueComment, reviewComment };
+	});
+
+const previousBodyFrom = (payloadJson: string | null | undefined) => {
+	const previousBody = parseJsonObject(payloadJson).previousBody;
+	return typeof previousBody === "string" ? previousBody : null;
+};
+
+const recordPendingCommentEditDef = factory.internalMutation({
+	payload: {
+		correlationId: Schema.String,
+		repositoryId: Schema.Number,
+		commentType: CommentType,
+		/** `githubCommentId` or `githubReviewCommentId`, per `commentType` */
+		commentId: Schema.Number,
+		operationType: Schema.Literal("update_comment", "delete_comment"),
+		body: Schema.optional(Schema.String),
+	},
+	success: CommentEditRecordResultSchema,
+});
+
+recordPendingCommentEditDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+
+		const duplicate = yield* findCommentsByCorrelationId(args.correlationId);
 		if (
-			Option.isSome(issue) &&
-			issue.value.optimisticOperationType === "update_labels"
+			Option.isSome(duplicate.issueComment) ||
+			Option.isSome(duplicate.reviewComment)
 		) {
-			yield* ctx.db.patch(issue.value._id, {
-				optimisticState: "pending",
-				optimisticErrorMessage: null,
-				optimisticErrorStatus: null,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
+			return { recorded: false, reason: "duplicate" as const };
 		}
 
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
+		const optimisticPatch = (currentBody: string) => ({
+			body: args.body ?? currentBody,
+			optimisticCorrelationId: args.correlationId,
+			optimisticOperationType: args.operationType,
+			optimisticState: "pending" as const,
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: now,
+			optimisticPayloadJson:
+				args.operationType === "update_comment"
+					? JSON.stringify({ previousBody: currentBody })
+					: null,
+		});
+
+		if (args.commentType === "issue_comment") {
+			const comment = yield* ctx.db
+				.query("github_issue_comments")
+				.withIndex("by_repositoryId_and_githubCommentId", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("githubCommentId", args.commentId),
+				)
+				.first();
+			if (Option.isNone(comment)) {
+				return { recorded: false, reason: "not_found" as const };
+			}
+			yield* ctx.db.patch(
+				comment.value._id,
+				optimisticPatch(comment.value.body),
+			);
+			return { recorded: true, reason: "recorded" as const };
+		}
+
+		const reviewComment = yield* ctx.db
+			.query("github_pull_request_review_comments")
+			.withIndex("by_repositoryId_and_githubReviewCommentId", (q) =>
+				q
+					.eq("repositoryId", args.repositoryId)
+					.eq("githubReviewCommentId", args.commentId),
 			)
 			.first();
+		if (Option.isNone(reviewComment)) {
+			return { recorded: false, reason: "not_found" as const };
+		}
+		yield* ctx.db.patch(
+			reviewComment.value._id,
+			optimisticPatch(reviewComment.value.body),
+		);
+		return { recorded: true, reason: "recorded" as const };
+	}),
+);
+
+/**
+ * GitHub accepted the edit; the row stays `pending` until the `edited`
+ * webhook confirms it.
+ */
+const markCommentUpdateAcceptedDef = factory.internalMutation({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({ updated: Schema.Boolean }),
+});
+
+markCommentUpdateAcceptedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { issueComment, reviewComment } = yield* findCommentsByCorrelationId(
+			args.correlationId,
+		);
+		const accepted = {
+			optimisticState: "pending" as const,
+			optimisticErrorMessage: null,
+			optimisticErrorStatus: null,
+			optimisticUpdatedAt: Date.now(),
+		};
+
 		if (
-			Option.isSome(pr) &&
-			pr.value.optimisticOperationType === "update_labels"
+			Option.isSome(issueComment) &&
+			issueComment.value.optimisticOperationType === "update_comment"
 		) {
-			yield* ctx.db.patch(pr.value._id, {
-				optimisticState: "pending",
-				optimisticErrorMessage: null,
-				optimisticErrorStatus: null,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
+			yield* ctx.db.patch(issueComment.value._id, accepted);
+			return { updated: true };
 		}
-
-		return { updated };
+		if (
+			Option.isSome(reviewComment) &&
+			reviewComment.value.optimisticOperationType === "update_comment"
+		) {
+			yield* ctx.db.patch(reviewComment.value._id, accepted);
+			return { updated: true };
+		}
+		return { updated: false };
 	}),
 );
 
-const markLabelsUpdateFailedDef = factory.internalMutation({
+const markCommentUpdateFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
 		errorMessage: Schema.String,
@@ -1984,106 +5681,80 @@ const markLabelsUpdateFailedDef = factory.internalMutation({
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markLabelsUpdateFailedDef.implement((args) =>
+markCommentUpdateFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		let updated = false;
+		const { issueComment, reviewComment } = yield* findCommentsByCorrelationId(
+			args.correlationId,
+		);
+		// Put the pre-edit body back so the UI doesn't show text GitHub rejected
+		const failed = (comment: {
+			readonly body: string;
+			readonly optimisticPayloadJson?: string | null;
+		}) => ({
+			body: previousBodyFrom(comment.optimisticPayloadJson) ?? comment.body,
+			optimisticState: "failed" as const,
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		});
 
-		const issue = yield* ctx.db
-			.query("github_issues")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
-			)
-			.first();
 		if (
-			Option.isSome(issue) &&
-			issue.value.optimisticOperationType === "update_labels"
+			Option.isSome(issueComment) &&
+			issueComment.value.optimisticOperationType === "update_comment" &&
+			issueComment.value.optimisticState === "pending"
 		) {
-			yield* ctx.db.patch(issue.value._id, {
-				optimisticState: "failed",
-				optimisticErrorMessage: args.errorMessage,
-				optimisticErrorStatus: args.errorStatus,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
+			yield* ctx.db.patch(issueComment.value._id, failed(issueComment.value));
+			return { updated: true };
 		}
-
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
-			)
-			.first();
 		if (
-			Option.isSome(pr) &&
-			pr.value.optimisticOperationType === "update_labels"
+			Option.isSome(reviewComment) &&
+			reviewComment.value.optimisticOperationType === "update_comment" &&
+			reviewComment.value.optimisticState === "pending"
 		) {
-			yield* ctx.db.patch(pr.value._id, {
-				optimisticState: "failed",
-				optimisticErrorMessage: args.errorMessage,
-				optimisticErrorStatus: args.errorStatus,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
+			yield* ctx.db.patch(reviewComment.value._id, failed(reviewComment.value));
+			return { updated: true };
 		}
-
-		return { updated };
+		return { updated: false };
 	}),
 );
 
-const markAssigneesUpdateAcceptedDef = factory.internalMutation({
+/**
+ * GitHub deleted the comment, so drop the row now. The `deleted` webhook
+ * that follows finds nothing left to remove.
+ */
+const markCommentDeleteAcceptedDef = factory.internalMutation({
 	payload: { correlationId: Schema.String },
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markAssigneesUpdateAcceptedDef.implement((args) =>
+markCommentDeleteAcceptedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		let updated = false;
+		const { issueComment, reviewComment } = yield* findCommentsByCorrelationId(
+			args.correlationId,
+		);
 
-		const issue = yield* ctx.db
-			.query("github_issues")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
-			)
-			.first();
 		if (
-			Option.isSome(issue) &&
-			issue.value.optimisticOperationType === "update_assignees"
+			Option.isSome(issueComment) &&
+			issueComment.value.optimisticOperationType === "delete_comment"
 		) {
-			yield* ctx.db.patch(issue.value._id, {
-				optimisticState: "pending",
-				optimisticErrorMessage: null,
-				optimisticErrorStatus: null,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
+			yield* syncCommentDelete(ctx.rawCtx, issueComment.value);
+			yield* ctx.db.delete(issueComment.value._id);
+			return { updated: true };
 		}
-
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
-			)
-			.first();
 		if (
-			Option.isSome(pr) &&
-			pr.value.optimisticOperationType === "update_assignees"
+			Option.isSome(reviewComment) &&
+			reviewComment.value.optimisticOperationType === "delete_comment"
 		) {
-			yield* ctx.db.patch(pr.value._id, {
-				optimisticState: "pending",
-				optimisticErrorMessage: null,
-				optimisticErrorStatus: null,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
+			yield* ctx.db.delete(reviewComment.value._id);
+			return { updated: true };
 		}
-
-		return { updated };
+		return { updated: false };
 	}),
 );
 
-const markAssigneesUpdateFailedDef = factory.internalMutation({
+const markCommentDeleteFailedDef = factory.internalMutation({
 	payload: {
 		correlationId: Schema.String,
 		errorMessage: Schema.String,
@@ -2092,50 +5763,34 @@ const markAssigneesUpdateFailedDef = factory.internalMutation({
 	success: Schema.Struct({ updated: Schema.Boolean }),
 });
 
-markAssigneesUpdateFailedDef.implement((args) =>
+markCommentDeleteFailedDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		let updated = false;
-
-		const issue = yield* ctx.db
-			.query("github_issues")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
-			)
-			.first();
-		if (
-			Option.isSome(issue) &&
-			issue.value.optimisticOperationType === "update_assignees"
-		) {
-			yield* ctx.db.patch(issue.value._id, {
-				optimisticState: "failed",
-				optimisticErrorMessage: args.errorMessage,
-				optimisticErrorStatus: args.errorStatus,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
-		}
-
-		const pr = yield* ctx.db
-			.query("github_pull_requests")
-			.withIndex("by_optimisticCorrelationId", (q) =>
-				q.eq("optimisticCorrelationId", args.correlationId),
-			)
-			.first();
+		const { issueComment, reviewComment } = yield* findCommentsByCorrelationId(
+			args.correlationId,
+		);
+		const failed = {
+			optimisticState: "failed" as const,
+			optimisticErrorMessage: args.errorMessage,
+			optimisticErrorStatus: args.errorStatus,
+			optimisticUpdatedAt: Date.now(),
+		};
+
 		if (
-			Option.isSome(pr) &&
-			pr.value.optimisticOperationType === "update_assignees"
+			Option.isSome(issueComment) &&
+			issueComment.value.optimisticOperationType === "delete_comment"
 		) {
-			yield* ctx.db.patch(pr.value._id, {
-				optimisticState: "failed",
-				optimisticErrorMessage: args.errorMessage,
-				optimisticErrorStatus: args.errorStatus,
-				optimisticUpdatedAt: Date.now(),
-			});
-			updated = true;
+			yield* ctx.db.patch(issueComment.value._id, failed);
+			return { updated: true };
 		}
-
-		return { updated };
+		if (
+			Option.isSome(reviewComment) &&
+			reviewComment.value.optimisticOperationType === "delete_comment"
+		) {
+			yield* ctx.db.patch(reviewComment.value._id, failed);
+			return { updated: true };
+		}
+		return { updated: false };
 	}),
 );
 
@@ -2402,107 +6057,335 @@ getPendingPullRequestBranchUpdateDef.implement((args) =>
 		}
 		if (pr.value.optimisticState !== "pending") return { found: false };
 
-		const repo = yield* ctx.db
-			.query("github_repositories")
-			.withIndex("by_githubRepoId", (q) =>
-				q.eq("githubRepoId", pr.value.repositoryId),
-			)
-			.first();
-		if (Option.isNone(repo)) return { found: false };
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", pr.value.repositoryId),
+			)
+			.first();
+		if (Option.isNone(repo)) return { found: false };
+
+		const payload = parseJsonObject(pr.value.optimisticPayloadJson);
+		const expectedHeadSha =
+			typeof payload.expectedHeadSha === "string"
+				? payload.expectedHeadSha
+				: null;
+
+		return {
+			found: true,
+			ownerLogin: repo.value.ownerLogin,
+			repoName: repo.value.name,
+			number: pr.value.number,
+			expectedHeadSha,
+		};
+	}),
+);
+
+const getPendingPrReviewDef = factory.internalQuery({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({
+		found: Schema.Boolean,
+		ownerLogin: Schema.optional(Schema.String),
+		repoName: Schema.optional(Schema.String),
+		number: Schema.optional(Schema.Number),
+		event: Schema.optional(
+			Schema.Literal("APPROVE", "REQUEST_CHANGES", "COMMENT"),
+		),
+		body: Schema.optional(Schema.NullOr(Schema.String)),
+	}),
+});
+
+getPendingPrReviewDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const review = yield* ctx.db
+			.query("github_pull_request_reviews")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+
+		if (Option.isNone(review)) return { found: false };
+		if (review.value.optimisticOperationType !== "submit_pr_review") {
+			return { found: false };
+		}
+		if (review.value.optimisticState !== "pending") return { found: false };
+
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", review.value.repositoryId),
+			)
+			.first();
+		if (Option.isNone(repo)) return { found: false };
+
+		const parsedPayload = parseJsonObject(review.value.optimisticPayloadJson);
+		const event =
+			typeof parsedPayload.event === "string" &&
+			(parsedPayload.event === "APPROVE" ||
+				parsedPayload.event === "REQUEST_CHANGES" ||
+				parsedPayload.event === "COMMENT")
+				? parsedPayload.event
+				: review.value.state === "APPROVED"
+					? "APPROVE"
+					: review.value.state === "CHANGES_REQUESTED"
+						? "REQUEST_CHANGES"
+						: "COMMENT";
+		const body =
+			typeof parsedPayload.body === "string" ? parsedPayload.body : null;
+
+		return {
+			found: true,
+			ownerLogin: repo.value.ownerLogin,
+			repoName: repo.value.name,
+			number: review.value.pullRequestNumber,
+			event,
+			body,
+		};
+	}),
+);
+
+const getPendingLabelsUpdateDef = factory.internalQuery({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({
+		found: Schema.Boolean,
+		ownerLogin: Schema.optional(Schema.String),
+		repoName: Schema.optional(Schema.String),
+		number: Schema.optional(Schema.Number),
+		labelsToAdd: Schema.optional(Schema.Array(Schema.String)),
+		labelsToRemove: Schema.optional(Schema.Array(Schema.String)),
+	}),
+});
+
+getPendingLabelsUpdateDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_labels" &&
+			issue.value.optimisticState === "pending"
+		) {
+			const repo = yield* ctx.db
+				.query("github_repositories")
+				.withIndex("by_githubRepoId", (q) =>
+					q.eq("githubRepoId", issue.value.repositoryId),
+				)
+				.first();
+			if (Option.isNone(repo)) return { found: false };
+
+			const parsedPayload = parseJsonObject(issue.value.optimisticPayloadJson);
+			const labelsToAdd = toStringArray(parsedPayload.labelsToAdd);
+			const labelsToRemove = toStringArray(parsedPayload.labelsToRemove);
+
+			return {
+				found: true,
+				ownerLogin: repo.value.ownerLogin,
+				repoName: repo.value.name,
+				number: issue.value.number,
+				labelsToAdd,
+				labelsToRemove,
+			};
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_labels" &&
+			pr.value.optimisticState === "pending"
+		) {
+			const repo = yield* ctx.db
+				.query("github_repositories")
+				.withIndex("by_githubRepoId", (q) =>
+					q.eq("githubRepoId", pr.value.repositoryId),
+				)
+				.first();
+			if (Option.isNone(repo)) return { found: false };
+
+			const parsedPayload = parseJsonObject(pr.value.optimisticPayloadJson);
+			const labelsToAdd = toStringArray(parsedPayload.labelsToAdd);
+			const labelsToRemove = toStringArray(parsedPayload.labelsToRemove);
+
+			return {
+				found: true,
+				ownerLogin: repo.value.ownerLogin,
+				repoName: repo.value.name,
+				number: pr.value.number,
+				labelsToAdd,
+				labelsToRemove,
+			};
+		}
+
+		return { found: false };
+	}),
+);
+
+const getPendingAssigneesUpdateDef = factory.internalQuery({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({
+		found: Schema.Boolean,
+		ownerLogin: Schema.optional(Schema.String),
+		repoName: Schema.optional(Schema.String),
+		number: Schema.optional(Schema.Number),
+		assigneesToAdd: Schema.optional(Schema.Array(Schema.String)),
+		assigneesToRemove: Schema.optional(Schema.Array(Schema.String)),
+	}),
+});
+
+getPendingAssigneesUpdateDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(issue) &&
+			issue.value.optimisticOperationType === "update_assignees" &&
+			issue.value.optimisticState === "pending"
+		) {
+			const repo = yield* ctx.db
+				.query("github_repositories")
+				.withIndex("by_githubRepoId", (q) =>
+					q.eq("githubRepoId", issue.value.repositoryId),
+				)
+				.first();
+			if (Option.isNone(repo)) return { found: false };
+
+			const parsedPayload = parseJsonObject(issue.value.optimisticPayloadJson);
+			const assigneesToAdd = toStringArray(parsedPayload.assigneesToAdd);
+			const assigneesToRemove = toStringArray(parsedPayload.assigneesToRemove);
+
+			return {
+				found: true,
+				ownerLogin: repo.value.ownerLogin,
+				repoName: repo.value.name,
+				number: issue.value.number,
+				assigneesToAdd,
+				assigneesToRemove,
+			};
+		}
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isSome(pr) &&
+			pr.value.optimisticOperationType === "update_assignees" &&
+			pr.value.optimisticState === "pending"
+		) {
+			const repo = yield* ctx.db
+				.query("github_repositories")
+				.withIndex("by_githubRepoId", (q) =>
+					q.eq("githubRepoId", pr.value.repositoryId),
+				)
+				.first();
+			if (Option.isNone(repo)) return { found: false };
+
+			const parsedPayload = parseJsonObject(pr.value.optimisticPayloadJson);
+			const assigneesToAdd = toStringArray(parsedPayload.assigneesToAdd);
+			const assigneesToRemove = toStringArray(parsedPayload.assigneesToRemove);
 
-		const payload = parseJsonObject(pr.value.optimisticPayloadJson);
-		const expectedHeadSha =
-			typeof payload.expectedHeadSha === "string"
-				? payload.expectedHeadSha
-				: null;
+			return {
+				found: true,
+				ownerLogin: repo.value.ownerLogin,
+				repoName: repo.value.name,
+				number: pr.value.number,
+				assigneesToAdd,
+				assigneesToRemove,
+			};
+		}
 
-		return {
-			found: true,
-			ownerLogin: repo.value.ownerLogin,
-			repoName: repo.value.name,
-			number: pr.value.number,
-			expectedHeadSha,
-		};
+		return { found: false };
 	}),
 );
 
-const getPendingPrReviewDef = factory.internalQuery({
+const getPendingReviewersUpdateDef = factory.internalQuery({
 	payload: { correlationId: Schema.String },
 	success: Schema.Struct({
 		found: Schema.Boolean,
 		ownerLogin: Schema.optional(Schema.String),
 		repoName: Schema.optional(Schema.String),
 		number: Schema.optional(Schema.Number),
-		event: Schema.optional(
-			Schema.Literal("APPROVE", "REQUEST_CHANGES", "COMMENT"),
-		),
-		body: Schema.optional(Schema.NullOr(Schema.String)),
+		mode: Schema.optional(Schema.Literal("request", "remove")),
+		reviewers: Schema.optional(Schema.Array(Schema.String)),
+		teamReviewers: Schema.optional(Schema.Array(Schema.String)),
 	}),
 });
 
-getPendingPrReviewDef.implement((args) =>
+getPendingReviewersUpdateDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectQueryCtx;
-		const review = yield* ctx.db
-			.query("github_pull_request_reviews")
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
 			.withIndex("by_optimisticCorrelationId", (q) =>
 				q.eq("optimisticCorrelationId", args.correlationId),
 			)
 			.first();
-
-		if (Option.isNone(review)) return { found: false };
-		if (review.value.optimisticOperationType !== "submit_pr_review") {
+		if (
+			Option.isNone(pr) ||
+			!isReviewersOperation(pr.value.optimisticOperationType) ||
+			pr.value.optimisticState !== "pending"
+		) {
 			return { found: false };
 		}
-		if (review.value.optimisticState !== "pending") return { found: false };
 
 		const repo = yield* ctx.db
 			.query("github_repositories")
 			.withIndex("by_githubRepoId", (q) =>
-				q.eq("githubRepoId", review.value.repositoryId),
+				q.eq("githubRepoId", pr.value.repositoryId),
 			)
 			.first();
 		if (Option.isNone(repo)) return { found: false };
 
-		const parsedPayload = parseJsonObject(review.value.optimisticPayloadJson);
-		const event =
-			typeof parsedPayload.event === "string" &&
-			(parsedPayload.event === "APPROVE" ||
-				parsedPayload.event === "REQUEST_CHANGES" ||
-				parsedPayload.event === "COMMENT")
-				? parsedPayload.event
-				: review.value.state === "APPROVED"
-					? "APPROVE"
-					: review.value.state === "CHANGES_REQUESTED"
-						? "REQUEST_CHANGES"
-						: "COMMENT";
-		const body =
-			typeof parsedPayload.body === "string" ? parsedPayload.body : null;
+		const parsedPayload = parseJsonObject(pr.value.optimisticPayloadJson);
 
 		return {
 			found: true,
 			ownerLogin: repo.value.ownerLogin,
 			repoName: repo.value.name,
-			number: review.value.pullRequestNumber,
-			event,
-			body,
+			number: pr.value.number,
+			mode:
+				pr.value.optimisticOperationType === "remove_reviewers"
+					? ("remove" as const)
+					: ("request" as const),
+			reviewers: toStringArray(parsedPayload.reviewers),
+			teamReviewers: toStringArray(parsedPayload.teamReviewers),
 		};
 	}),
 );
 
-const getPendingLabelsUpdateDef = factory.internalQuery({
+const getPendingTitleBodyUpdateDef = factory.internalQuery({
 	payload: { correlationId: Schema.String },
 	success: Schema.Struct({
 		found: Schema.Boolean,
 		ownerLogin: Schema.optional(Schema.String),
 		repoName: Schema.optional(Schema.String),
 		number: Schema.optional(Schema.Number),
-		labelsToAdd: Schema.optional(Schema.Array(Schema.String)),
-		labelsToRemove: Schema.optional(Schema.Array(Schema.String)),
+		title: Schema.optional(Schema.String),
+		body: Schema.optional(Schema.String),
 	}),
 });
 
-getPendingLabelsUpdateDef.implement((args) =>
+getPendingTitleBodyUpdateDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectQueryCtx;
 
@@ -2514,7 +6397,7 @@ getPendingLabelsUpdateDef.implement((args) =>
 			.first();
 		if (
 			Option.isSome(issue) &&
-			issue.value.optimisticOperationType === "update_labels" &&
+			issue.value.optimisticOperationType === "update_title_body" &&
 			issue.value.optimisticState === "pending"
 		) {
 			const repo = yield* ctx.db
@@ -2526,16 +6409,18 @@ getPendingLabelsUpdateDef.implement((args) =>
 			if (Option.isNone(repo)) return { found: false };
 
 			const parsedPayload = parseJsonObject(issue.value.optimisticPayloadJson);
-			const labelsToAdd = toStringArray(parsedPayload.labelsToAdd);
-			const labelsToRemove = toStringArray(parsedPayload.labelsToRemove);
 
 			return {
 				found: true,
 				ownerLogin: repo.value.ownerLogin,
 				repoName: repo.value.name,
 				number: issue.value.number,
-				labelsToAdd,
-				labelsToRemove,
+				...(typeof parsedPayload.title === "string"
+					? { title: parsedPayload.title }
+					: {}),
+				...(typeof parsedPayload.body === "string"
+					? { body: parsedPayload.body }
+					: {}),
 			};
 		}
 
@@ -2547,7 +6432,7 @@ getPendingLabelsUpdateDef.implement((args) =>
 			.first();
 		if (
 			Option.isSome(pr) &&
-			pr.value.optimisticOperationType === "update_labels" &&
+			pr.value.optimisticOperationType === "update_title_body" &&
 			pr.value.optimisticState === "pending"
 		) {
 			const repo = yield* ctx.db
@@ -2559,16 +6444,18 @@ getPendingLabelsUpdateDef.implement((args) =>
 			if (Option.isNone(repo)) return { found: false };
 
 			const parsedPayload = parseJsonObject(pr.value.optimisticPayloadJson);
-			const labelsToAdd = toStringArray(parsedPayload.labelsToAdd);
-			const labelsToRemove = toStringArray(parsedPayload.labelsToRemove);
 
 			return {
 				found: true,
 				ownerLogin: repo.value.ownerLogin,
 				repoName: repo.value.name,
 				number: pr.value.number,
-				labelsToAdd,
-				labelsToRemove,
+				...(typeof parsedPayload.title === "string"
+					? { title: parsedPayload.title }
+					: {}),
+				...(typeof parsedPayload.body === "string"
+					? { body: parsedPayload.body }
+					: {}),
 			};
 		}
 
@@ -2576,19 +6463,80 @@ getPendingLabelsUpdateDef.implement((args) =>
 	}),
 );
 
-const getPendingAssigneesUpdateDef = factory.internalQuery({
+const getPendingPullRequestDraftUpdateDef = factory.internalQuery({
 	payload: { correlationId: Schema.String },
 	success: Schema.Struct({
 		found: Schema.Boolean,
 		ownerLogin: Schema.optional(Schema.String),
 		repoName: Schema.optional(Schema.String),
 		number: Schema.optional(Schema.Number),
-		assigneesToAdd: Schema.optional(Schema.Array(Schema.String)),
-		assigneesToRemove: Schema.optional(Schema.Array(Schema.String)),
+		draft: Schema.optional(Schema.Boolean),
 	}),
 });
 
-getPendingAssigneesUpdateDef.implement((args) =>
+getPendingPullRequestDraftUpdateDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_optimisticCorrelationId", (q) =>
+				q.eq("optimisticCorrelationId", args.correlationId),
+			)
+			.first();
+		if (
+			Option.isNone(pr) ||
+			pr.value.optimisticOperationType !== "convert_pull_request_draft" ||
+			pr.value.optimisticState !== "pending"
+		) {
+			return { found: false };
+		}
+
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", pr.value.repositoryId),
+			)
+			.first();
+		if (Option.isNone(repo)) return { found: false };
+
+		const parsedPayload = parseJsonObject(pr.value.optimisticPayloadJson);
+
+		return {
+			found: true,
+			ownerLogin: repo.value.ownerLogin,
+			repoName: repo.value.name,
+			number: pr.value.number,
+			draft:
+				typeof parsedPayload.draft === "boolean"
+					? parsedPayload.draft
+					: pr.value.draft,
+		};
+	}),
+);
+
+/** Narrow a stored `lockReason` to one GitHub accepts, or null. */
+const toLockReason = (value: unknown): typeof LockReason.Type | null =>
+	value === "off-topic" ||
+	value === "too heated" ||
+	value === "resolved" ||
+	value === "spam"
+		? value
+		: null;
+
+const getPendingLockStateUpdateDef = factory.internalQuery({
+	payload: { correlationId: Schema.String },
+	success: Schema.Struct({
+		found: Schema.Boolean,
+		ownerLogin: Schema.optional(Schema.String),
+		repoName: Schema.optional(Schema.String),
+		number: Schema.optional(Schema.Number),
+		locked: Schema.optional(Schema.Boolean),
+		lockReason: Schema.optional(Schema.NullOr(LockReason)),
+	}),
+});
+
+getPendingLockStateUpdateDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectQueryCtx;
 
@@ -2600,7 +6548,7 @@ getPendingAssigneesUpdateDef.implement((args) =>
 			.first();
 		if (
 			Option.isSome(issue) &&
-			issue.value.optimisticOperationType === "update_assignees" &&
+			issue.value.optimisticOperationType === "update_lock_state" &&
 			issue.value.optimisticState === "pending"
 		) {
 			const repo = yield* ctx.db
@@ -2612,16 +6560,17 @@ getPendingAssigneesUpdateDef.implement((args) =>
 			if (Option.isNone(repo)) return { found: false };
 
 			const parsedPayload = parseJsonObject(issue.value.optimisticPayloadJson);
-			const assigneesToAdd = toStringArray(parsedPayload.assigneesToAdd);
-			const assigneesToRemove = toStringArray(parsedPayload.assigneesToRemove);
 
 			return {
 				found: true,
 				ownerLogin: repo.value.ownerLogin,
 				repoName: repo.value.name,
 				number: issue.value.number,
-				assigneesToAdd,
-				assigneesToRemove,
+				locked:
+					typeof parsedPayload.locked === "boolean"
+						? parsedPayload.locked
+						: (issue.value.locked ?? false),
+				lockReason: toLockReason(parsedPayload.lockReason),
 			};
 		}
 
@@ -2633,7 +6582,7 @@ getPendingAssigneesUpdateDef.implement((args) =>
 			.first();
 		if (
 			Option.isSome(pr) &&
-			pr.value.optimisticOperationType === "update_assignees" &&
+			pr.value.optimisticOperationType === "update_lock_state" &&
 			pr.value.optimisticState === "pending"
 		) {
 			const repo = yield* ctx.db
@@ -2645,16 +6594,17 @@ getPendingAssigneesUpdateDef.implement((args) =>
 			if (Option.isNone(repo)) return { found: false };
 
 			const parsedPayload = parseJsonObject(pr.value.optimisticPayloadJson);
-			const assigneesToAdd = toStringArray(parsedPayload.assigneesToAdd);
-			const assigneesToRemove = toStringArray(parsedPayload.assigneesToRemove);
 
 			return {
 				found: true,
 				ownerLogin: repo.value.ownerLogin,
 				repoName: repo.value.name,
 				number: pr.value.number,
-				assigneesToAdd,
-				assigneesToRemove,
+				locked:
+					typeof parsedPayload.locked === "boolean"
+						? parsedPayload.locked
+						: (pr.value.locked ?? false),
+				lockReason: toLockReason(parsedPayload.lockReason),
 			};
 		}
 
@@ -2712,7 +6662,9 @@ listWriteOperationsDef.implement((args) =>
 					operationType !== "create_issue" &&
 					operationType !== "update_issue_state" &&
 					operationType !== "update_labels" &&
-					operationType !== "update_assignees"
+					operationType !== "update_assignees" &&
+					operationType !== "update_title_body" &&
+					operationType !== "update_lock_state"
 				)
 					return null;
 				if (
@@ -2746,13 +6698,28 @@ listWriteOperationsDef.implement((args) =>
 										labelsToAdd,
 										labelsToRemove,
 									}
-								: {
-										ownerLogin,
-										name: repoName,
-										number: issue.number,
-										assigneesToAdd,
-										assigneesToRemove,
-									};
+								: operationType === "update_title_body"
+									? {
+											ownerLogin,
+											name: repoName,
+											number: issue.number,
+											...payload,
+										}
+									: operationType === "update_lock_state"
+										? {
+												ownerLogin,
+												name: repoName,
+												number: issue.number,
+												locked: issue.locked ?? false,
+												lockReason: toLockReason(payload.lockReason),
+											}
+										: {
+												ownerLogin,
+												name: repoName,
+												number: issue.number,
+												assigneesToAdd,
+												assigneesToRemove,
+											};
 				const optimisticData =
 					operationType === "create_issue"
 						? {
@@ -2772,12 +6739,23 @@ listWriteOperationsDef.implement((args) =>
 										labelsToAdd,
 										labelsToRemove,
 									}
-								: {
-										number: issue.number,
-										assigneeUserIds: [...issue.assigneeUserIds],
-										assigneesToAdd,
-										assigneesToRemove,
-									};
+								: operationType === "update_title_body"
+									? {
+											number: issue.number,
+											title: issue.title,
+											body: issue.body,
+										}
+									: operationType === "update_lock_state"
+										? {
+												number: issue.number,
+												locked: issue.locked ?? false,
+											}
+										: {
+												number: issue.number,
+												assigneeUserIds: [...issue.assigneeUserIds],
+												assigneesToAdd,
+												assigneesToRemove,
+											};
 
 				return {
 					_id: String(issue._id),
@@ -2802,10 +6780,21 @@ listWriteOperationsDef.implement((args) =>
 														number: issue.number,
 														labelNames: [...issue.labelNames],
 													}
-												: {
-														number: issue.number,
-														assigneeUserIds: [...issue.assigneeUserIds],
-													},
+												: operationType === "update_title_body"
+													? {
+															number: issue.number,
+															title: issue.title,
+															body: issue.body,
+														}
+													: operationType === "update_lock_state"
+														? {
+																number: issue.number,
+																locked: issue.locked ?? false,
+															}
+														: {
+																number: issue.number,
+																assigneeUserIds: [...issue.assigneeUserIds],
+															},
 								)
 							: null,
 					errorMessage: issue.optimisticErrorMessage ?? null,
@@ -2831,8 +6820,9 @@ listWriteOperationsDef.implement((args) =>
 			.map((comment) => {
 				const correlationId = comment.optimisticCorrelationId;
 				const optimisticState = comment.optimisticState;
+				const operationType = comment.optimisticOperationType;
 				if (correlationId === null || correlationId === undefined) return null;
-				if (comment.optimisticOperationType !== "create_comment") return null;
+				if (operationType === null || operationType === undefined) return null;
 				if (
 					optimisticState !== "pending" &&
 					optimisticState !== "failed" &&
@@ -2841,12 +6831,22 @@ listWriteOperationsDef.implement((args) =>
 					return null;
 				}
 
-				const inputPayload = {
-					ownerLogin,
-					name: repoName,
-					number: comment.issueNumber,
-					body: comment.body,
-				};
+				const inputPayload =
+					operationType === "create_comment"
+						? {
+								ownerLogin,
+								name: repoName,
+								number: comment.issueNumber,
+								body: comment.body,
+							}
+						: {
+								ownerLogin,
+								name: repoName,
+								githubCommentId: comment.githubCommentId,
+								...(operationType === "update_comment"
+									? { body: comment.body }
+									: {}),
+							};
 				const optimisticData = {
 					number: comment.issueNumber,
 					body: comment.body,
@@ -2856,7 +6856,7 @@ listWriteOperationsDef.implement((args) =>
 					_id: String(comment._id),
 					_creationTime: comment._creationTime,
 					correlationId,
-					operationType: "create_comment",
+					operationType,
 					state: optimisticState,
 					repositoryId: comment.repositoryId,
 					ownerLogin,
@@ -2871,7 +6871,10 @@ listWriteOperationsDef.implement((args) =>
 					errorStatus: comment.optimisticErrorStatus ?? null,
 					githubEntityNumber:
 						comment.issueNumber > 0 ? comment.issueNumber : null,
-					createdAt: comment.createdAt,
+					createdAt:
+						operationType === "create_comment"
+							? comment.createdAt
+							: (comment.optimisticUpdatedAt ?? comment.updatedAt),
 					updatedAt: comment.optimisticUpdatedAt ?? comment.updatedAt,
 				};
 			})
@@ -2899,7 +6902,12 @@ listWriteOperationsDef.implement((args) =>
 					operationType !== "merge_pull_request" &&
 					operationType !== "update_pull_request_branch" &&
 					operationType !== "update_labels" &&
-					operationType !== "update_assignees"
+					operationType !== "update_assignees" &&
+					operationType !== "request_reviewers" &&
+					operationType !== "remove_reviewers" &&
+					operationType !== "update_title_body" &&
+					operationType !== "convert_pull_request_draft" &&
+					operationType !== "update_lock_state"
 				) {
 					return null;
 				}
@@ -2915,6 +6923,8 @@ listWriteOperationsDef.implement((args) =>
 				const labelsToRemove = toStringArray(payload.labelsToRemove);
 				const assigneesToAdd = toStringArray(payload.assigneesToAdd);
 				const assigneesToRemove = toStringArray(payload.assigneesToRemove);
+				const reviewers = toStringArray(payload.reviewers);
+				const teamReviewers = toStringArray(payload.teamReviewers);
 				const expectedHeadSha =
 					typeof payload.expectedHeadSha === "string"
 						? payload.expectedHeadSha
@@ -2961,13 +6971,43 @@ listWriteOperationsDef.implement((args) =>
 											labelsToAdd,
 											labelsToRemove,
 										}
-									: {
-											ownerLogin,
-											name: repoName,
-											number: pr.number,
-											assigneesToAdd,
-											assigneesToRemove,
-										};
+									: operationType === "update_assignees"
+										? {
+												ownerLogin,
+												name: repoName,
+												number: pr.number,
+												assigneesToAdd,
+												assigneesToRemove,
+											}
+										: operationType === "update_title_body"
+											? {
+													ownerLogin,
+													name: repoName,
+													number: pr.number,
+													...payload,
+												}
+											: operationType === "convert_pull_request_draft"
+												? {
+														ownerLogin,
+														name: repoName,
+														number: pr.number,
+														draft: pr.draft,
+													}
+												: operationType === "update_lock_state"
+													? {
+															ownerLogin,
+															name: repoName,
+															number: pr.number,
+															locked: pr.locked ?? false,
+															lockReason: toLockReason(payload.lockReason),
+														}
+													: {
+															ownerLogin,
+															name: repoName,
+															number: pr.number,
+															reviewers,
+															teamReviewers,
+														};
 
 				return {
 					_id: String(pr._id),
@@ -2982,8 +7022,14 @@ listWriteOperationsDef.implement((args) =>
 					optimisticDataJson: JSON.stringify({
 						number: pr.number,
 						state: pr.state,
+						draft: pr.draft,
+						title: pr.title,
+						body: pr.body,
+						locked: pr.locked ?? false,
 						labelNames: [...(pr.labelNames ?? [])],
 						assigneeUserIds: [...pr.assigneeUserIds],
+						requestedReviewerUserIds: [...pr.requestedReviewerUserIds],
+						requestedReviewerTeamIds: [...(pr.requestedReviewerTeamIds ?? [])],
 					}),
 					resultDataJson:
 						operationType === "merge_pull_request"
@@ -3003,10 +7049,36 @@ listWriteOperationsDef.implement((args) =>
 												number: pr.number,
 												labelNames: [...(pr.labelNames ?? [])],
 											})
-										: JSON.stringify({
-												number: pr.number,
-												assigneeUserIds: [...pr.assigneeUserIds],
-											}),
+										: operationType === "update_assignees"
+											? JSON.stringify({
+													number: pr.number,
+													assigneeUserIds: [...pr.assigneeUserIds],
+												})
+											: operationType === "update_title_body"
+												? JSON.stringify({
+														number: pr.number,
+														title: pr.title,
+														body: pr.body,
+													})
+												: operationType === "convert_pull_request_draft"
+													? JSON.stringify({
+															number: pr.number,
+															draft: pr.draft,
+														})
+													: operationType === "update_lock_state"
+														? JSON.stringify({
+																number: pr.number,
+																locked: pr.locked ?? false,
+															})
+														: JSON.stringify({
+																number: pr.number,
+																requestedReviewerUserIds: [
+																	...pr.requestedReviewerUserIds,
+																],
+																requestedReviewerTeamIds: [
+																	...(pr.requestedReviewerTeamIds ?? []),
+																],
+															}),
 					errorMessage: pr.optimisticErrorMessage ?? null,
 					errorStatus: pr.optimisticErrorStatus ?? null,
 					githubEntityNumber: pr.number,
@@ -3091,8 +7163,168 @@ listWriteOperationsDef.implement((args) =>
 				args.stateFilter === undefined ? true : op.state === args.stateFilter,
 			);
 
+		const reactionRows = yield* ctx.db
+			.query("github_reactions")
+			.withIndex("by_repositoryId_and_subjectType_and_subjectId", (q) =>
+				q.eq("repositoryId", repositoryId),
+			)
+			.take(200);
+
+		const reactionOps = reactionRows
+			.map((reaction) => {
+				const correlationId = reaction.optimisticCorrelationId;
+				const operationType = reaction.optimisticOperationType;
+				const optimisticState = reaction.optimisticState;
+				if (correlationId === null || correlationId === undefined) return null;
+				if (operationType === null || operationType === undefined) return null;
+				if (optimisticState === null || optimisticState === undefined) {
+					return null;
+				}
+
+				return {
+					_id: String(reaction._id),
+					_creationTime: reaction._creationTime,
+					correlationId,
+					operationType,
+					state: optimisticState,
+					repositoryId: reaction.repositoryId,
+					ownerLogin,
+					repoName,
+					inputPayloadJson: JSON.stringify({
+						ownerLogin,
+						name: repoName,
+						subjectType: reaction.subjectType,
+						subjectId: reaction.subjectId,
+						content: reaction.content,
+					}),
+					optimisticDataJson: JSON.stringify({
+						subjectType: reaction.subjectType,
+						subjectId: reaction.subjectId,
+						content: reaction.content,
+					}),
+					resultDataJson:
+						reaction.githubReactionId === null
+							? null
+							: JSON.stringify({ reactionId: reaction.githubReactionId }),
+					errorMessage: reaction.optimisticErrorMessage ?? null,
+					errorStatus: reaction.optimisticErrorStatus ?? null,
+					githubEntityNumber:
+						reaction.subjectType === "issue" ? reaction.subjectId : null,
+					createdAt: reaction._creationTime,
+					updatedAt: reaction.optimisticUpdatedAt ?? reaction.createdAt,
+				};
+			})
+			.filter((op) => op !== null)
+			.filter((op) =>
+				args.stateFilter === undefined ? true : op.state === args.stateFilter,
+			);
+
+		const reviewCommentRows = yield* ctx.db
+			.query("github_pull_request_review_comments")
+			.withIndex("by_repositoryId_and_pullRequestNumber", (q) =>
+				q.eq("repositoryId", repositoryId),
+			)
+			.take(200);
+
+		const reviewCommentOps = reviewCommentRows
+			.map((comment) => {
+				const correlationId = comment.optimisticCorrelationId;
+				const operationType = comment.optimisticOperationType;
+				const optimisticState = comment.optimisticState;
+				if (correlationId === null || correlationId === undefined) return null;
+				if (operationType === null || operationType === undefined) return null;
+				if (optimisticState === null || optimisticState === undefined) {
+					return null;
+				}
+
+				return {
+					_id: String(comment._id),
+					_creationTime: comment._creationTime,
+					correlationId,
+					operationType,
+					state: optimisticState,
+					repositoryId: comment.repositoryId,
+					ownerLogin,
+					repoName,
+					inputPayloadJson: JSON.stringify({
+						ownerLogin,
+						name: repoName,
+						githubReviewCommentId: comment.githubReviewCommentId,
+						...(operationType === "update_comment"
+							? { body: comment.body }
+							: {}),
+					}),
+					optimisticDataJson: JSON.stringify({
+						pullRequestNumber: comment.pullRequestNumber,
+						body: comment.body,
+					}),
+					resultDataJson: JSON.stringify({
+						commentId: comment.githubReviewCommentId,
+					}),
+					errorMessage: comment.optimisticErrorMessage ?? null,
+					errorStatus: comment.optimisticErrorStatus ?? null,
+					githubEntityNumber: comment.pullRequestNumber,
+					createdAt: comment.optimisticUpdatedAt ?? comment.updatedAt,
+					updatedAt: comment.optimisticUpdatedAt ?? comment.updatedAt,
+				};
+			})
+			.filter((op) => op !== null)
+			.filter((op) =>
+				args.stateFilter === undefined ? true : op.state === args.stateFilter,
+			);
+
+		const prCreateRows = yield* ctx.db
+			.query("github_pull_request_creates")
+			.withIndex("by_repositoryId_and_createdAt", (q) =>
+				q.eq("repositoryId", repositoryId),
+			)
+			.order("desc")
+			.take(50);
+
+		const prCreateOps = prCreateRows
+			.map((create) => ({
+				_id: String(create._id),
+				_creationTime: create._creationTime,
+				correlationId: create.correlationId,
+				operationType: "create_pull_request" as const,
+				state: create.optimisticState,
+				repositoryId: create.repositoryId,
+				ownerLogin,
+				repoName,
+				inputPayloadJson: JSON.stringify({
+					ownerLogin,
+					name: repoName,
+					title: create.title,
+					body: create.body,
+					base: create.baseRefName,
+					head: create.headRefName,
+					draft: create.draft,
+				}),
+				optimisticDataJson: null,
+				resultDataJson:
+					create.number === null
+						? null
+						: JSON.stringify({ number: create.number }),
+				errorMessage: create.optimisticErrorMessage,
+				errorStatus: create.optimisticErrorStatus,
+				githubEntityNumber: create.number,
+				createdAt: create.createdAt,
+				updatedAt: create.updatedAt,
+			}))
+			.filter((op) =>
+				args.stateFilter === undefined ? true : op.state === args.stateFilter,
+			);
+
 		const decodeWriteOperation = Schema.decodeUnknownSync(WriteOperation);
-		return [...issueOps, ...commentOps, ...prOps, ...reviewOps]
+		return [
+			...issueOps,
+			...commentOps,
+			...prOps,
+			...prCreateOps,
+			...reviewOps,
+			...reactionOps,
+			...reviewCommentOps,
+		]
 			.sort((a, b) => b.createdAt - a.createdAt)
 			.slice(0, 50)
 			.map((op) => decodeWriteOperation(op));
@@ -3111,9 +7343,25 @@ const githubWriteModule = makeRpcModule(
 		updateIssueState: updateIssueStateDef,
 		mergePullRequest: mergePullRequestDef,
 		updatePullRequestBranch: updatePullRequestBranchDef,
+		createPullRequest: createPullRequestDef,
 		submitPrReview: submitPrReviewDef,
 		updateLabels: updateLabelsDef,
 		updateAssignees: updateAssigneesDef,
+		requestReviewers: requestReviewersDef,
+		removeReviewers: removeReviewersDef,
+		updateTitleBody: updateTitleBodyDef,
+		updatePullRequestDraft: updatePullRequestDraftDef,
+		updateLockState: updateLockStateDef,
+		addReaction: addReactionDef,
+		removeReaction: removeReactionDef,
+		syncViewerReactions: syncViewerReactionsDef,
+		updateComment: updateCommentDef,
+		deleteComment: deleteCommentDef,
+		updateReviewComment: updateReviewCommentDef,
+		deleteReviewComment: deleteReviewCommentDef,
+		createLabel: createLabelDef,
+		updateLabel: updateLabelDef,
+		deleteLabel: deleteLabelDef,
 		// Internal action (executes the GitHub API call)
 		executeWriteOperation: executeWriteOperationDef,
 		// Internal mutations (state transitions)
@@ -3133,6 +7381,28 @@ const githubWriteModule = makeRpcModule(
 		markLabelsUpdateFailed: markLabelsUpdateFailedDef,
 		markAssigneesUpdateAccepted: markAssigneesUpdateAcceptedDef,
 		markAssigneesUpdateFailed: markAssigneesUpdateFailedDef,
+		markReviewersUpdateAccepted: markReviewersUpdateAcceptedDef,
+		markReviewersUpdateFailed: markReviewersUpdateFailedDef,
+		markTitleBodyUpdateAccepted: markTitleBodyUpdateAcceptedDef,
+		markTitleBodyUpdateFailed: markTitleBodyUpdateFailedDef,
+		markPullRequestDraftUpdateAccepted: markPullRequestDraftUpdateAcceptedDef,
+		markPullRequestDraftUpdateFailed: markPullRequestDraftUpdateFailedDef,
+		markLockStateUpdateAccepted: markLockStateUpdateAcceptedDef,
+		markLockStateUpdateFailed: markLockStateUpdateFailedDef,
+		recordPendingEntityWrite: recordPendingEntityWriteDef,
+		recordPendingReaction: recordPendingReactionDef,
+		markReactionAccepted: markReactionAcceptedDef,
+		markReactionFailed: markReactionFailedDef,
+		recordPendingPullRequestCreate: recordPendingPullRequestCreateDef,
+		markPullRequestCreateAccepted: markPullRequestCreateAcceptedDef,
+		markPullRequestCreateFailed: markPullRequestCreateFailedDef,
+		claimReactionSync: claimReactionSyncDef,
+		reconcileViewerReactions: reconcileViewerReactionsDef,
+		recordPendingCommentEdit: recordPendingCommentEditDef,
+		markCommentUpdateAccepted: markCommentUpdateAcceptedDef,
+		markCommentUpdateFailed: markCommentUpdateFailedDef,
+		markCommentDeleteAccepted: markCommentDeleteAcceptedDef,
+		markCommentDeleteFailed: markCommentDeleteFailedDef,
 		// Internal query (used by action)
 		getPendingIssueCreate: getPendingIssueCreateDef,
 		getPendingCommentCreate: getPendingCommentCreateDef,
@@ -3142,6 +7412,10 @@ const githubWriteModule = makeRpcModule(
 		getPendingPrReview: getPendingPrReviewDef,
 		getPendingLabelsUpdate: getPendingLabelsUpdateDef,
 		getPendingAssigneesUpdate: getPendingAssigneesUpdateDef,
+		getPendingReviewersUpdate: getPendingReviewersUpdateDef,
+		getPendingTitleBodyUpdate: getPendingTitleBodyUpdateDef,
+		getPendingPullRequestDraftUpdate: getPendingPullRequestDraftUpdateDef,
+		getPendingLockStateUpdate: getPendingLockStateUpdateDef,
 		// Public query (UI consumption)
 		listWriteOperations: listWriteOperationsDef,
 	},
@@ -3154,9 +7428,25 @@ export const {
 	updateIssueState,
 	mergePullRequest,
 	updatePullRequestBranch,
+	createPullRequest,
 	submitPrReview,
 	updateLabels,
 	updateAssignees,
+	requestReviewers,
+	removeReviewers,
+	updateTitleBody,
+	updatePullRequestDraft,
+	updateLockState,
+	addReaction,
+	removeReaction,
+	syncViewerReactions,
+	updateComment,
+	deleteComment,
+	updateReviewComment,
+	deleteReviewComment,
+	createLabel,
+	updateLabel,
+	deleteLabel,
 	executeWriteOperation,
 	markIssueCreateAccepted,
 	markIssueCreateFailed,
@@ -3174,6 +7464,28 @@ export const {
 	markLabelsUpdateFailed,
 	markAssigneesUpdateAccepted,
 	markAssigneesUpdateFailed,
+	markReviewersUpdateAccepted,
+	markReviewersUpdateFailed,
+	markTitleBodyUpdateAccepted,
+	markTitleBodyUpdateFailed,
+	markPullRequestDraftUpdateAccepted,
+	markPullRequestDraftUpdateFailed,
+	markLockStateUpdateAccepted,
+	markLockStateUpdateFailed,
+	recordPendingEntityWrite,
+	recordPendingReaction,
+	markReactionAccepted,
+	markReactionFailed,
+	recordPendingPullRequestCreate,
+	markPullRequestCreateAccepted,
+	markPullRequestCreateFailed,
+	claimReactionSync,
+	reconcileViewerReactions,
+	recordPendingCommentEdit,
+	markCommentUpdateAccepted,
+	markCommentUpdateFailed,
+	markCommentDeleteAccepted,
+	markCommentDeleteFailed,
 	getPendingIssueCreate,
 	getPendingCommentCreate,
 	getPendingIssueStateUpdate,
@@ -3182,6 +7494,10 @@ export const {
 	getPendingPrReview,
 	getPendingLabelsUpdate,
 	getPendingAssigneesUpdate,
+	getPendingReviewersUpdate,
+	getPendingTitleBodyUpdate,
+	getPendingPullRequestDraftUpdate,
+	getPendingLockStateUpdate,
 	listWriteOperations,
 } = githubWriteModule.handlers;
 export {
@@ -1,16 +1,19 @@
 /**
  * Issue Templates — on-demand fetch + cache of GitHub issue templates.
  *
- * Templates live in `.github/ISSUE_TEMPLATE/` as `.md` files with YAML
- * front matter (name, description, title, labels, assignees).
+ * Templates live in `.github/ISSUE_TEMPLATE/` either as `.md` files with
+ * YAML front matter (name, description, title, labels, assignees) or as
+ * `.yml` issue forms whose `body` describes structured fields. An optional
+ * `config.yml` in the same directory controls blank issues and contact links.
  *
  * Flow:
- *   1. `fetchTemplates` (action) — lists the directory, fetches each `.md`
- *      file, parses YAML front matter, and caches results.
+ *   1. `fetchTemplates` (action) — lists the directory, fetches each template
+ *      and the config, parses them, and caches results.
  *   2. `getCachedTemplates` (query) — reads cached templates for a repo.
+ *   3. `getTemplateConfig` (query) — reads the cached chooser config.
  */
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
-import { Effect, Schema } from "effect";
+import { Effect, Option, Schema } from "effect";
 import { internal } from "../_generated/api";
 import {
 	ConfectActionCtx,
@@ -21,6 +24,12 @@ import {
 import { ContentFile } from "../shared/generated_github_client";
 import { GitHubApiClient } from "../shared/githubApi";
 import { getInstallationToken } from "../shared/githubApp";
+import {
+	IssueFormElement,
+	IssueTemplateContactLink,
+	parseIssueForm,
+	parseTemplateConfig,
+} from "../shared/issueForms";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 import {
 	ReadGitHubRepoByNameMiddleware,
@@ -41,8 +50,21 @@ const IssueTemplate = Schema.Struct({
 	body: Schema.String,
 	labels: Schema.Array(Schema.String),
 	assignees: Schema.Array(Schema.String),
+	/** Issue form fields; null for markdown templates */
+	form: Schema.NullOr(Schema.Array(IssueFormElement)),
+});
+
+const TemplateChooserConfig = Schema.Struct({
+	blankIssuesEnabled: Schema.Boolean,
+	contactLinks: Schema.Array(IssueTemplateContactLink),
 });
 
+/** GitHub's chooser behavior when a repo has no `config.yml` */
+const defaultChooserConfig: typeof TemplateChooserConfig.Type = {
+	blankIssuesEnabled: true,
+	contactLinks: [],
+};
+
 // ---------------------------------------------------------------------------
 // Errors
 // ---------------------------------------------------------------------------
@@ -148,12 +170,29 @@ function parseYamlArray(raw: string): Array<string> {
 
 const isContentFile = Schema.is(ContentFile);
 
+const isFormFile = (filename: string) =>
+	filename.endsWith(".yml") || filename.endsWith(".yaml");
+
+const isConfigFile = (filename: string) =>
+	filename === "config.yml" || filename === "config.yaml";
+
+/** Decode a base64 content payload as UTF-8 (atob alone mangles non-ASCII). */
+const decodeBase64Utf8 = (content: string): string | null => {
+	try {
+		const binary = atob(content.replace(/\n/g, ""));
+		const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+		return new TextDecoder().decode(bytes);
+	} catch {
+		return null;
+	}
+};
+
 // ---------------------------------------------------------------------------
 // Endpoint definitions
 // ---------------------------------------------------------------------------
 
 /**
- * Fetch issue templates from GitHub and cache them.
+ * Fetch issue templates and chooser config from GitHub and cache them.
  * Returns the parsed templates.
  */
 const fetchTemplatesDef = factory
@@ -180,6 +219,19 @@ const getCachedTemplatesDef = factory
 	})
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
+/**
+ * Read the cached template chooser config (blank issues, contact links).
+ */
+const getTemplateConfigDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+		},
+		success: TemplateChooserConfig,
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
 /**
  * Upsert template cache for a repo.
  */
@@ -187,6 +239,8 @@ const upsertTemplateCacheDef = factory.internalMutation({
 	payload: {
 		repositoryId: Schema.Number,
 		templates: Schema.Array(IssueTemplate),
+		blankIssuesEnabled: Schema.Boolean,
+		contactLinks: Schema.Array(IssueTemplateContactLink),
 	},
 	success: Schema.Struct({ cached: Schema.Boolean }),
 });
@@ -248,20 +302,23 @@ fetchTemplatesDef.implement((args) =>
 				.runMutation(internal.rpc.issueTemplates.upsertTemplateCache, {
 					repositoryId,
 					templates: [],
+					...defaultChooserConfig,
 				})
 				.pipe(Effect.catchAll(() => Effect.void));
 			return [] satisfies Array<typeof IssueTemplate.Type>;
 		}
 
-		// Filter to .md files only (skip .yml issue forms for now)
-		const mdFiles = dirContents.filter(
-			(entry) => entry.type === "file" && entry.name.endsWith(".md"),
+		const templateFiles = dirContents.filter(
+			(entry) =>
+				entry.type === "file" &&
+				(entry.name.endsWith(".md") || isFormFile(entry.name)),
 		);
 
 		// Fetch each template file
 		const templates: Array<typeof IssueTemplate.Type> = [];
+		let config = defaultChooserConfig;
 
-		for (const entry of mdFiles) {
+		for (const entry of templateFiles) {
 			const fileResult = yield* gh.client
 				.reposGetContent(args.ownerLogin, args.name, entry.path, {})
 				.pipe(Effect.catchAll(() => Effect.succeed(null)));
@@ -274,17 +331,34 @@ fetchTemplatesDef.implement((args) =>
 
 			let decoded: string | null = null;
 			if (rawContent && encoding === "base64") {
-				try {
-					decoded = atob(rawContent.replace(/\n/g, ""));
-				} catch {
-					decoded = null;
-				}
+				decoded = decodeBase64Utf8(rawContent);
 			} else if (rawContent) {
 				decoded = rawContent;
 			}
 
 			if (decoded === null) continue;
 
+			if (isConfigFile(entry.name)) {
+				config = parseTemplateConfig(decoded);
+				continue;
+			}
+
+			if (isFormFile(entry.name)) {
+				const form = parseIssueForm(decoded);
+				if (form === null) continue;
+				templates.push({
+					filename: entry.name,
+					name: form.name,
+					description: form.description,
+					title: form.title,
+					body: "",
+					labels: form.labels,
+					assignees: form.assignees,
+					form: form.body,
+				});
+				continue;
+			}
+
 			const { frontMatter, body } = parseFrontMatter(decoded);
 
 			// Skip templates with no name (probably not a valid template)
@@ -298,6 +372,7 @@ fetchTemplatesDef.implement((args) =>
 				body,
 				labels: frontMatter.labels,
 				assignees: frontMatter.assignees,
+				form: null,
 			});
 		}
 
@@ -306,6 +381,7 @@ fetchTemplatesDef.implement((args) =>
 			.runMutation(internal.rpc.issueTemplates.upsertTemplateCache, {
 				repositoryId,
 				templates,
+				...config,
 			})
 			.pipe(Effect.catchAll(() => Effect.void));
 
@@ -313,7 +389,7 @@ fetchTemplatesDef.implement((args) =>
 	}),
 );
 
-getCachedTemplatesDef.implement((args) =>
+getCachedTemplatesDef.implement(() =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectQueryCtx;
 		const permission = yield* ReadGitHubRepoPermission;
@@ -337,10 +413,37 @@ getCachedTemplatesDef.implement((args) =>
 			body: t.body,
 			labels: [...t.labels],
 			assignees: [...t.assignees],
+			form: t.form ?? null,
 		}));
 	}),
 );
 
+getTemplateConfigDef.implement(() =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const permission = yield* ReadGitHubRepoPermission;
+		if (!permission.isAllowed || permission.repository === null) {
+			return defaultChooserConfig;
+		}
+		const repository = permission.repository;
+
+		const config = yield* ctx.db
+			.query("github_issue_template_config")
+			.withIndex("by_repositoryId", (q) =>
+				q.eq("repositoryId", repository.repositoryId),
+			)
+			.first();
+
+		return Option.match(config, {
+			onNone: () => defaultChooserConfig,
+			onSome: (c) => ({
+				blankIssuesEnabled: c.blankIssuesEnabled,
+				contactLinks: [...c.contactLinks],
+			}),
+		});
+	}),
+);
+
 upsertTemplateCacheDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
@@ -370,10 +473,37 @@ upsertTemplateCacheDef.implement((args) =>
 				body: template.body,
 				labels: [...template.labels],
 				assignees: [...template.assignees],
+				form:
+					template.form === null
+						? null
+						: template.form.map((element) => ({
+								...element,
+								options: [...element.options],
+							})),
 				cachedAt: now,
 			});
 		}
 
+		const existingConfig = yield* ctx.db
+			.query("github_issue_template_config")
+			.withIndex("by_repositoryId", (q) =>
+				q.eq("repositoryId", args.repositoryId),
+			)
+			.first();
+		const configFields = {
+			blankIssuesEnabled: args.blankIssuesEnabled,
+			contactLinks: [...args.contactLinks],
+			cachedAt: now,
+		};
+		if (Option.isSome(existingConfig)) {
+			yield* ctx.db.patch(existingConfig.value._id, configFields);
+		} else {
+			yield* ctx.db.insert("github_issue_template_config", {
+				repositoryId: args.repositoryId,
+				...configFields,
+			});
+		}
+
 		return { cached: true };
 	}),
 );
@@ -386,12 +516,17 @@ const issueTemplatesModule = makeRpcModule(
 	{
 		fetchTemplates: fetchTemplatesDef,
 		getCachedTemplates: getCachedTemplatesDef,
+		getTemplateConfig: getTemplateConfigDef,
 		upsertTemplateCache: upsertTemplateCacheDef,
 	},
 	{ middlewares: DatabaseRpcModuleMiddlewares },
 );
 
-export const { fetchTemplates, getCachedTemplates, upsertTemplateCache } =
-	issueTemplatesModule.handlers;
+export const {
+	fetchTemplates,
+	getCachedTemplates,
+	getTemplateConfig,
+	upsertTemplateCache,
+} = issueTemplatesModule.handlers;
 export { issueTemplatesModule };
 export type IssueTemplatesModule = typeof issueTemplatesModule;
@@ -5,11 +5,24 @@
  *   - listNotifications (query)   — list cached notifications for the signed-in user
  *   - syncNotifications (action)  — poll GitHub /notifications and upsert locally
  *   - markNotificationRead (mutation) — mark a notification read locally + schedule GitHub PATCH
+ *   - triageNotifications (mutation) — read / done / mute / unsubscribe / save a batch of threads
+ *   - markAllNotificationsRead (mutation) — mark the whole inbox (or one repo) read
  *   - upsertNotifications (internalMutation) — batch upsert notification records
  *   - markNotificationReadRemote (internalAction) — call GitHub API to mark thread as read
+ *   - applyNotificationTriageRemote (internalAction) — push a triage action to GitHub
+ *   - markAllNotificationsReadRemote (internalAction) — push mark-all-read to GitHub
+ *   - pollDueNotifications (internalAction) — cron-driven background poll for users whose next poll is due
+ *
+ * Background polling follows GitHub's guidance for the notifications API:
+ * requests carry `If-Modified-Since` (a 304 costs no rate limit), and the
+ * next poll waits at least `X-Poll-Interval` seconds. Users who haven't
+ * opened their inbox recently are polled less often, and drop out of the
+ * poller entirely after a week until they sync again.
  */
+import * as HttpClientRequest from "@effect/platform/HttpClientRequest";
+import * as HttpClientResponse from "@effect/platform/HttpClientResponse";
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
-import { Effect, Either, Option, Schema } from "effect";
+import { Cause, Effect, Either, Option, Schema } from "effect";
 import { internal } from "../_generated/api";
 import {
 	ConfectActionCtx,
@@ -17,8 +30,8 @@ import {
 	ConfectQueryCtx,
 	confectSchema,
 } from "../confect";
-import type { Thread } from "../shared/generated_github_client";
-import { GitHubApiClient } from "../shared/githubApi";
+import { Thread } from "../shared/generated_github_client";
+import { GitHubApiClient, GitHubApiError } from "../shared/githubApi";
 import { lookupTokenByProviderConfect } from "../shared/githubToken";
 import { parseIsoToMsOrNow as isoToMs } from "../shared/time";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
@@ -69,8 +82,30 @@ const NotificationItem = Schema.Struct({
 	updatedAt: Schema.Number,
 	lastReadAt: Schema.NullOr(Schema.Number),
 	entityNumber: Schema.NullOr(Schema.Number),
+	savedAt: Schema.NullOr(Schema.Number),
+	subscription: Schema.NullOr(Schema.Literal("muted", "unsubscribed")),
 });
 
+/**
+ * Inbox triage actions. `save` / `unsave` are local-only; the rest are
+ * applied optimistically and then pushed to GitHub.
+ */
+const TriageAction = Schema.Literal(
+	"read",
+	"done",
+	"mute",
+	"unsubscribe",
+	"save",
+	"unsave",
+);
+
+const RemoteTriageAction = Schema.Literal(
+	"read",
+	"done",
+	"mute",
+	"unsubscribe",
+);
+
 // ---------------------------------------------------------------------------
 // Errors
 // ---------------------------------------------------------------------------
@@ -90,6 +125,38 @@ class GitHubSyncFailed extends Schema.TaggedError<GitHubSyncFailed>()(
 	{ reason: Schema.String },
 ) {}
 
+// ---------------------------------------------------------------------------
+// Polling constants
+// ---------------------------------------------------------------------------
+
+const PAGE_SIZE = 50;
+const MAX_PAGES = 10; // safety cap: 500 notifications max
+
+/** GitHub's documented default when `X-Poll-Interval` is missing */
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+/** Users polled per cron tick */
+const POLL_BATCH_SIZE = 25;
+/** A user counts as active for this long after their last sync or read */
+const ACTIVE_WINDOW_MS = 30 * 60 * 1000;
+/** Poll interval once a user goes idle */
+const IDLE_POLL_INTERVAL_MS = 15 * 60 * 1000;
+/** Idle users are removed from the poller after this long */
+const DORMANT_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+/** Cap for exponential backoff after consecutive poll failures */
+const MAX_FAILURE_BACKOFF_MS = 60 * 60 * 1000;
+
+const DueNotificationPoll = Schema.Struct({
+	userId: Schema.String,
+	lastModified: Schema.NullOr(Schema.String),
+});
+
+const PollOutcome = Schema.Literal(
+	"modified",
+	"not_modified",
+	"failed",
+	"disconnected",
+);
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -187,6 +254,112 @@ const formatGitHubError = (error: object): string => {
 	return detail || `Unknown error: ${JSON.stringify(error)}`;
 };
 
+const parsePollIntervalSeconds = (header: string | undefined): number => {
+	const seconds = Number(header);
+	return Number.isFinite(seconds) && seconds > 0
+		? seconds
+		: DEFAULT_POLL_INTERVAL_SECONDS;
+};
+
+/**
+ * Delay before the next background poll: never sooner than GitHub's
+ * `X-Poll-Interval`, slower for idle users, and doubling per failure.
+ */
+const nextPollDelayMs = (
+	pollIntervalSeconds: number,
+	idleMs: number,
+	consecutiveFailures: number,
+): number => {
+	const base = Math.max(
+		pollIntervalSeconds * 1000,
+		idleMs > ACTIVE_WINDOW_MS ? IDLE_POLL_INTERVAL_MS : 0,
+	);
+	if (consecutiveFailures === 0) return base;
+	return Math.min(base * 2 ** consecutiveFailures, MAX_FAILURE_BACKOFF_MS);
+};
+
+const toNotificationRecord = (n: Thread) => {
+	const subjectUrl = n.subject.url ?? null;
+	return {
+		githubNotificationId: n.id,
+		repositoryFullName: n.repository.full_name,
+		repositoryId: n.repository.id,
+		subjectTitle: n.subject.title,
+		subjectType: toSubjectType(n.subject.type),
+		subjectUrl,
+		reason: toReason(n.reason),
+		unread: n.unread,
+		updatedAt: isoToMs(n.updated_at),
+		lastReadAt: n.last_read_at !== null ? isoToMs(n.last_read_at) : null,
+		entityNumber: subjectUrl !== null ? parseEntityNumber(subjectUrl) : null,
+	};
+};
+
+/**
+ * Fetch all unread notification pages for the authenticated user.
+ *
+ * With `ifModifiedSince`, the first page is a conditional request and a 304
+ * short-circuits with `modified: false`. Later pages are always fetched in
+ * full so `upsertNotifications` sees the complete unread set.
+ */
+const fetchNotificationThreads = (ifModifiedSince: string | null) =>
+	Effect.gen(function* () {
+		const gh = yield* GitHubApiClient;
+		const threads: Array<Thread> = [];
+		let lastModified = ifModifiedSince;
+		let pollIntervalSeconds = DEFAULT_POLL_INTERVAL_SECONDS;
+
+		for (let page = 1; page <= MAX_PAGES; page++) {
+			const request = HttpClientRequest.get("/notifications").pipe(
+				HttpClientRequest.setUrlParams({
+					all: "false",
+					per_page: String(PAGE_SIZE),
+					page: String(page),
+				}),
+				HttpClientRequest.setHeaders(
+					page === 1 && ifModifiedSince !== null
+						? { "If-Modified-Since": ifModifiedSince }
+						: {},
+				),
+			);
+			const response = yield* gh.httpClient.execute(request);
+
+			if (page === 1) {
+				pollIntervalSeconds = parsePollIntervalSeconds(
+					response.headers["x-poll-interval"],
+				);
+				if (response.status === 304) {
+					return {
+						modified: false,
+						threads,
+						lastModified,
+						pollIntervalSeconds,
+					};
+				}
+				lastModified = response.headers["last-modified"] ?? null;
+			}
+
+			if (response.status < 200 || response.status >= 300) {
+				const errorBody = yield* Effect.orElseSucceed(response.text, () => "");
+				return yield* new GitHubApiError({
+					status: response.status,
+					message: errorBody,
+					url: request.url,
+				});
+			}
+
+			const pageThreads = yield* HttpClientResponse.schemaBodyJson(
+				Schema.Array(Thread),
+			)(response);
+			threads.push(...pageThreads);
+
+			// If we got fewer than PAGE_SIZE, there are no more pages
+			if (pageThreads.length < PAGE_SIZE) break;
+		}
+
+		return { modified: true, threads, lastModified, pollIntervalSeconds };
+	});
+
 // ---------------------------------------------------------------------------
 // Endpoint definitions
 // ---------------------------------------------------------------------------
@@ -223,6 +396,44 @@ const markNotificationReadDef = factory
 	})
 	.middleware(RequireAuthenticatedMiddleware);
 
+/**
+ * Apply a triage action to one or more notification threads.
+ */
+const triageNotificationsDef = factory
+	.mutation({
+		payload: {
+			githubNotificationIds: Schema.Array(Schema.String),
+			action: TriageAction,
+		},
+		success: Schema.Struct({ updatedCount: Schema.Number }),
+		error: NotAuthenticated,
+	})
+	.middleware(RequireAuthenticatedMiddleware);
+
+/**
+ * Mark every unread notification read, optionally for one repository.
+ */
+const markAllNotificationsReadDef = factory
+	.mutation({
+		payload: {
+			repositoryFullName: Schema.optional(Schema.String),
+		},
+		success: Schema.Struct({ updatedCount: Schema.Number }),
+		error: NotAuthenticated,
+	})
+	.middleware(RequireAuthenticatedMiddleware);
+
+/**
+ * Register the signed-in user with the background poller and mark them
+ * active. Called when the inbox opens, so polling resumes even if the
+ * page's own sync fails.
+ */
+const markInboxOpenedDef = factory
+	.mutation({
+		success: Schema.Struct({ nextPollAt: Schema.Number }),
+	})
+	.middleware(RequireAuthenticatedMiddleware);
+
 /**
  * Internal: batch upsert notification records.
  */
@@ -248,6 +459,20 @@ const upsertNotificationsDef = factory.internalMutation({
 	success: Schema.Struct({ upsertedCount: Schema.Number }),
 });
 
+/**
+ * Internal: clear the pending-read marker once a read has been pushed to
+ * GitHub (or failed to). `githubNotificationIds: null` clears every pending
+ * thread, optionally for one repository.
+ */
+const clearPendingNotificationReadsDef = factory.internalMutation({
+	payload: {
+		userId: Schema.String,
+		githubNotificationIds: Schema.NullOr(Schema.Array(Schema.String)),
+		repositoryFullName: Schema.optional(Schema.String),
+	},
+	success: Schema.Struct({ clearedCount: Schema.Number }),
+});
+
 /**
  * Internal: call GitHub API to mark a notification thread as read.
  */
@@ -259,21 +484,146 @@ const markNotificationReadRemoteDef = factory.internalAction({
 	success: Schema.Struct({ success: Schema.Boolean }),
 });
 
+/**
+ * Internal: push a triage action for a batch of threads to GitHub.
+ */
+const applyNotificationTriageRemoteDef = factory.internalAction({
+	payload: {
+		actingUserId: Schema.String,
+		githubNotificationIds: Schema.Array(Schema.String),
+		action: RemoteTriageAction,
+	},
+	success: Schema.Struct({ succeededCount: Schema.Number }),
+});
+
+/**
+ * Internal: call GitHub API to mark all notifications (or one repo's) read.
+ */
+const markAllNotificationsReadRemoteDef = factory.internalAction({
+	payload: {
+		actingUserId: Schema.String,
+		lastReadAt: Schema.Number,
+		repositoryFullName: Schema.optional(Schema.String),
+	},
+	success: Schema.Struct({ success: Schema.Boolean }),
+});
+
+/**
+ * Internal: poll GitHub for every user whose next poll is due. Run by cron.
+ */
+const pollDueNotificationsDef = factory.internalAction({
+	payload: {
+		limit: Schema.optional(Schema.Number),
+	},
+	success: Schema.Struct({
+		polledUsers: Schema.Number,
+		modifiedUsers: Schema.Number,
+	}),
+});
+
+/**
+ * Internal query: users whose background poll is due, oldest first.
+ */
+const listDueNotificationPollsDef = factory.internalQuery({
+	payload: {
+		now: Schema.Number,
+		limit: Schema.Number,
+	},
+	success: Schema.Array(DueNotificationPoll),
+});
+
+/**
+ * Internal: record a poll result and schedule the user's next poll.
+ * `active` marks a user-initiated sync, which resets idle backoff.
+ */
+const recordNotificationPollDef = factory.internalMutation({
+	payload: {
+		userId: Schema.String,
+		outcome: PollOutcome,
+		lastModified: Schema.NullOr(Schema.String),
+		pollIntervalSeconds: Schema.Number,
+		active: Schema.Boolean,
+	},
+	success: Schema.Struct({ nextPollAt: Schema.NullOr(Schema.Number) }),
+});
+
 // ---------------------------------------------------------------------------
 // Implementations
 // ---------------------------------------------------------------------------
 
+/**
+ * Opening or triaging the inbox counts as activity for the background
+ * poller. Registers the user if they aren't polled yet and pulls an idle
+ * user's next poll forward to their regular interval.
+ */
+const markInboxActive = (userId: string) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		const pollState = yield* ctx.db
+			.query("github_notification_poll_state")
+			.withIndex("by_userId", (q) => q.eq("userId", userId))
+			.first();
+		if (Option.isNone(pollState)) {
+			yield* ctx.db.insert("github_notification_poll_state", {
+				userId,
+				lastModified: null,
+				pollIntervalSeconds: DEFAULT_POLL_INTERVAL_SECONDS,
+				nextPollAt: now,
+				lastPolledAt: null,
+				lastActiveAt: now,
+				consecutiveFailures: 0,
+			});
+			return now;
+		}
+
+		const state = pollState.value;
+		const nextPollAt = Math.min(
+			state.nextPollAt,
+			now + state.pollIntervalSeconds * 1000,
+		);
+		yield* ctx.db.patch(state._id, { lastActiveAt: now, nextPollAt });
+		return nextPollAt;
+	});
+
+/** Clear the pending-read marker on rows GitHub has now been told about. */
+const clearPendingReads = (
+	userId: string,
+	githubNotificationIds: ReadonlyArray<string> | null,
+	repositoryFullName?: string,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		yield* ctx.runMutation(
+			internal.rpc.notifications.clearPendingNotificationReads,
+			{ userId, githubNotificationIds, repositoryFullName },
+		);
+	}).pipe(Effect.catchAllCause(() => Effect.void));
+
 listNotificationsDef.implement(() =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectQueryCtx;
 		const { userId } = yield* AuthenticatedUser;
 
-		const notifications = yield* ctx.db
+		const recent = yield* ctx.db
 			.query("github_notifications")
 			.withIndex("by_userId_and_updatedAt", (q) => q.eq("userId", userId))
 			.order("desc")
 			.take(50);
 
+		// Saved threads stay visible even after they fall out of the recent window
+		const saved = yield* ctx.db
+			.query("github_notifications")
+			.withIndex("by_userId_and_savedAt", (q) =>
+				q.eq("userId", userId).gt("savedAt", 0),
+			)
+			.take(100);
+		const recentIds = new Set(recent.map((n) => n.githubNotificationId));
+		const notifications = [
+			...recent,
+			...saved.filter((n) => !recentIds.has(n.githubNotificationId)),
+		];
+
 		return notifications.map((n) => ({
 			githubNotificationId: n.githubNotificationId,
 			repositoryFullName: n.repositoryFullName,
@@ -286,6 +636,8 @@ listNotificationsDef.implement(() =>
 			updatedAt: n.updatedAt,
 			lastReadAt: n.lastReadAt,
 			entityNumber: n.entityNumber,
+			savedAt: n.savedAt ?? null,
+			subscription: n.subscription ?? null,
 		}));
 	}),
 );
@@ -314,56 +666,18 @@ syncNotificationsDef.implement(() =>
 			),
 		);
 
-		const gh = yield* Effect.provide(
-			GitHubApiClient,
-			GitHubApiClient.fromToken(token),
+		// Manual syncs always fetch the full list, then hand the
+		// Last-Modified cursor to the background poller.
+		const result = yield* fetchNotificationThreads(null).pipe(
+			Effect.provide(GitHubApiClient.fromToken(token)),
+			Effect.catchAll(
+				(error) =>
+					new GitHubSyncFailed({
+						reason: formatGitHubError(error),
+					}),
+			),
 		);
-
-		// Fetch all notification pages from GitHub
-		const PAGE_SIZE = 50;
-		const MAX_PAGES = 10; // safety cap: 500 notifications max
-		const allThreads: Array<Thread> = [];
-
-		for (let page = 1; page <= MAX_PAGES; page++) {
-			const threads = yield* gh.client
-				.activityListNotificationsForAuthenticatedUser({
-					all: false,
-					per_page: PAGE_SIZE,
-					page,
-				})
-				.pipe(
-					Effect.catchAll(
-						(error) =>
-							new GitHubSyncFailed({
-								reason: formatGitHubError(error),
-							}),
-					),
-				);
-
-			allThreads.push(...threads);
-
-			// If we got fewer than PAGE_SIZE, there are no more pages
-			if (threads.length < PAGE_SIZE) break;
-		}
-
-		// Map typed Thread objects to our notification shape
-		const parsed = allThreads.map((n) => {
-			const subjectUrl = n.subject.url ?? null;
-			return {
-				githubNotificationId: n.id,
-				repositoryFullName: n.repository.full_name,
-				repositoryId: n.repository.id,
-				subjectTitle: n.subject.title,
-				subjectType: toSubjectType(n.subject.type),
-				subjectUrl,
-				reason: toReason(n.reason),
-				unread: n.unread,
-				updatedAt: isoToMs(n.updated_at),
-				lastReadAt: n.last_read_at !== null ? isoToMs(n.last_read_at) : null,
-				entityNumber:
-					subjectUrl !== null ? parseEntityNumber(subjectUrl) : null,
-			};
-		});
+		const parsed = result.threads.map(toNotificationRecord);
 
 		// Upsert via internal mutation
 		yield* ctx.runMutation(internal.rpc.notifications.upsertNotifications, {
@@ -371,6 +685,14 @@ syncNotificationsDef.implement(() =>
 			notifications: parsed,
 		});
 
+		yield* ctx.runMutation(internal.rpc.notifications.recordNotificationPoll, {
+			userId,
+			outcome: "modified",
+			lastModified: result.lastModified,
+			pollIntervalSeconds: result.pollIntervalSeconds,
+			active: true,
+		});
+
 		return { syncedCount: parsed.length };
 	}),
 );
@@ -395,11 +717,15 @@ markNotificationReadDef.implement((args) =>
 			});
 		}
 
+		const now = Date.now();
 		yield* ctx.db.patch(existing.value._id, {
 			unread: false,
-			lastReadAt: Date.now(),
+			lastReadAt: now,
+			pendingReadAt: now,
 		});
 
+		yield* markInboxActive(userId);
+
 		// Schedule remote mark-as-read
 		yield* Effect.promise(() =>
 			ctx.scheduler.runAfter(
@@ -416,6 +742,140 @@ markNotificationReadDef.implement((args) =>
 	}),
 );
 
+triageNotificationsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const now = Date.now();
+
+		const triagedIds: Array<string> = [];
+		for (const githubNotificationId of new Set(args.githubNotificationIds)) {
+			const existing = yield* ctx.db
+				.query("github_notifications")
+				.withIndex("by_userId_and_githubNotificationId", (q) =>
+					q
+						.eq("userId", userId)
+						.eq("githubNotificationId", githubNotificationId),
+				)
+				.first();
+			if (Option.isNone(existing)) continue;
+			const notification = existing.value;
+
+			switch (args.action) {
+				case "read":
+					yield* ctx.db.patch(notification._id, {
+						unread: false,
+						lastReadAt: now,
+						pendingReadAt: now,
+					});
+					break;
+				case "done":
+					// GitHub drops done threads from the inbox until new activity,
+					// which the next sync re-inserts.
+					yield* ctx.db.delete(notification._id);
+					break;
+				case "mute":
+					yield* ctx.db.patch(notification._id, {
+						unread: false,
+						lastReadAt: now,
+						pendingReadAt: now,
+						subscription: "muted",
+					});
+					break;
+				case "unsubscribe":
+					yield* ctx.db.patch(notification._id, {
+						unread: false,
+						lastReadAt: now,
+						pendingReadAt: now,
+						subscription: "unsubscribed",
+					});
+					break;
+				case "save":
+					yield* ctx.db.patch(notification._id, { savedAt: now });
+					break;
+				case "unsave":
+					yield* ctx.db.patch(notification._id, { savedAt: null });
+					break;
+			}
+			triagedIds.push(githubNotificationId);
+		}
+
+		yield* markInboxActive(userId);
+
+		const action = args.action;
+		if (triagedIds.length > 0 && action !== "save" && action !== "unsave") {
+			yield* Effect.promise(() =>
+				ctx.scheduler.runAfter(
+					0,
+					internal.rpc.notifications.applyNotificationTriageRemote,
+					{
+						actingUserId: userId,
+						githubNotificationIds: triagedIds,
+						action,
+					},
+				),
+			);
+		}
+
+		return { updatedCount: triagedIds.length };
+	}),
+);
+
+markAllNotificationsReadDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const now = Date.now();
+
+		const unread = yield* ctx.db
+			.query("github_notifications")
+			.withIndex("by_userId_and_unread", (q) =>
+				q.eq("userId", userId).eq("unread", true),
+			)
+			.collect();
+
+		let updatedCount = 0;
+		for (const notification of unread) {
+			if (
+				args.repositoryFullName !== undefined &&
+				notification.repositoryFullName !== args.repositoryFullName
+			) {
+				continue;
+			}
+			yield* ctx.db.patch(notification._id, {
+				unread: false,
+				lastReadAt: now,
+				pendingReadAt: now,
+			});
+			updatedCount++;
+		}
+
+		yield* markInboxActive(userId);
+
+		yield* Effect.promise(() =>
+			ctx.scheduler.runAfter(
+				0,
+				internal.rpc.notifications.markAllNotificationsReadRemote,
+				{
+					actingUserId: userId,
+					lastReadAt: now,
+					repositoryFullName: args.repositoryFullName,
+				},
+			),
+		);
+
+		return { updatedCount };
+	}),
+);
+
+markInboxOpenedDef.implement(() =>
+	Effect.gen(function* () {
+		const { userId } = yield* AuthenticatedUser;
+		const nextPollAt = yield* markInboxActive(userId);
+		return { nextPollAt };
+	}),
+);
+
 upsertNotificationsDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
@@ -432,6 +892,11 @@ upsertNotificationsDef.implement((args) =>
 				.first();
 
 			if (Option.isSome(existing)) {
+				// A read that hasn't reached GitHub yet wins over the polled
+				// state, unless the thread has had new activity since.
+				const pendingReadAt = existing.value.pendingReadAt ?? null;
+				const keepLocalRead =
+					pendingReadAt !== null && notification.updatedAt <= pendingReadAt;
 				yield* ctx.db.patch(existing.value._id, {
 					repositoryFullName: notification.repositoryFullName,
 					repositoryId: notification.repositoryId,
@@ -439,9 +904,11 @@ upsertNotificationsDef.implement((args) =>
 					subjectType: notification.subjectType,
 					subjectUrl: notification.subjectUrl,
 					reason: notification.reason,
-					unread: notification.unread,
+					unread: keepLocalRead ? false : notification.unread,
 					updatedAt: notification.updatedAt,
-					lastReadAt: notification.lastReadAt,
+					lastReadAt: keepLocalRead
+						? existing.value.lastReadAt
+						: notification.lastReadAt,
 					entityNumber: notification.entityNumber,
 				});
 			} else {
@@ -488,6 +955,40 @@ upsertNotificationsDef.implement((args) =>
 	}),
 );
 
+clearPendingNotificationReadsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+
+		const pending = yield* ctx.db
+			.query("github_notifications")
+			.withIndex("by_userId_and_pendingReadAt", (q) =>
+				q.eq("userId", args.userId).gt("pendingReadAt", 0),
+			)
+			.collect();
+		const ids =
+			args.githubNotificationIds === null
+				? null
+				: new Set(args.githubNotificationIds);
+
+		let clearedCount = 0;
+		for (const notification of pending) {
+			if (ids !== null && !ids.has(notification.githubNotificationId)) {
+				continue;
+			}
+			if (
+				args.repositoryFullName !== undefined &&
+				notification.repositoryFullName !== args.repositoryFullName
+			) {
+				continue;
+			}
+			yield* ctx.db.patch(notification._id, { pendingReadAt: null });
+			clearedCount++;
+		}
+
+		return { clearedCount };
+	}),
+);
+
 markNotificationReadRemoteDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectActionCtx;
@@ -506,7 +1007,284 @@ markNotificationReadRemoteDef.implement((args) =>
 		yield* gh.client.activityMarkThreadAsRead(args.githubNotificationId);
 
 		return { success: true };
-	}).pipe(Effect.catchAll(() => Effect.succeed({ success: false }))),
+	}).pipe(
+		Effect.catchAll(() => Effect.succeed({ success: false })),
+		Effect.tap(() =>
+			clearPendingReads(args.actingUserId, [args.githubNotificationId]),
+		),
+	),
+);
+
+applyNotificationTriageRemoteDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+
+		const token = yield* lookupTokenByProviderConfect(
+			(query, params) => ctx.runQuery(query, params),
+			(mutation, params) => ctx.runMutation(mutation, params),
+			"github-notifications",
+			args.actingUserId,
+		);
+		const gh = yield* Effect.provide(
+			GitHubApiClient,
+			GitHubApiClient.fromToken(token),
+		);
+
+		const applyToThread = (threadId: string) => {
+			switch (args.action) {
+				case "read":
+					return gh.client.activityMarkThreadAsRead(threadId);
+				case "done":
+					return gh.activityMarkThreadAsDone(threadId);
+				case "mute":
+					return gh
+						.activityIgnoreThread(threadId)
+						.pipe(
+							Effect.zipRight(gh.client.activityMarkThreadAsRead(threadId)),
+						);
+				case "unsubscribe":
+					return gh
+						.activityDeleteThreadSubscription(threadId)
+						.pipe(
+							Effect.zipRight(gh.client.activityMarkThreadAsRead(threadId)),
+						);
+			}
+		};
+
+		let succeededCount = 0;
+		for (const threadId of args.githubNotificationIds) {
+			const succeeded = yield* applyToThread(threadId).pipe(
+				Effect.as(true),
+				Effect.catchAll(() => Effect.succeed(false)),
+			);
+			if (succeeded) succeededCount++;
+		}
+
+		return { succeededCount };
+	}).pipe(
+		Effect.catchAll(() => Effect.succeed({ succeededCount: 0 })),
+		Effect.tap(() =>
+			clearPendingReads(args.actingUserId, args.githubNotificationIds),
+		),
+	),
+);
+
+markAllNotificationsReadRemoteDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+
+		const token = yield* lookupTokenByProviderConfect(
+			(query, params) => ctx.runQuery(query, params),
+			(mutation, params) => ctx.runMutation(mutation, params),
+			"github-notifications",
+			args.actingUserId,
+		);
+		const gh = yield* Effect.provide(
+			GitHubApiClient,
+			GitHubApiClient.fromToken(token),
+		);
+
+		const [owner, repo] = args.repositoryFullName?.split("/") ?? [];
+		yield* gh.activityMarkNotificationsAsRead(
+			new Date(args.lastReadAt).toISOString(),
+			owner !== undefined && repo !== undefined ? { owner, repo } : undefined,
+		);
+
+		return { success: true };
+	}).pipe(
+		Effect.catchAll(() => Effect.succeed({ success: false })),
+		Effect.tap(() =>
+			clearPendingReads(args.actingUserId, null, args.repositoryFullName),
+		),
+	),
+);
+
+/**
+ * Poll one user's notifications. Never fails: every outcome, including a
+ * missing token or a GitHub error, is recorded so the user gets rescheduled.
+ */
+const pollNotificationsForUser = (
+	userId: string,
+	lastModified: string | null,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+
+		// A missing or unusable token means the user disconnected and leaves
+		// the poller; anything else is a failed poll and backs off.
+		const token = yield* lookupTokenByProviderConfect(
+			(query, params) => ctx.runQuery(query, params),
+			(mutation, params) => ctx.runMutation(mutation, params),
+			"github-notifications",
+			userId,
+		).pipe(
+			Effect.map((value) => Either.right(value)),
+			Effect.catchTag("NoGitHubTokenError", () =>
+				Effect.succeed(Either.left("disconnected" as const)),
+			),
+			Effect.catchAllCause((cause) => {
+				console.warn(
+					`[pollDueNotifications] ${userId}: token lookup failed: ${Cause.pretty(cause)}`,
+				);
+				return Effect.succeed(Either.left("failed" as const));
+			}),
+		);
+
+		if (Either.isLeft(token)) {
+			yield* ctx.runMutation(
+				internal.rpc.notifications.recordNotificationPoll,
+				{
+					userId,
+					outcome: token.left,
+					lastModified: token.left === "failed" ? lastModified : null,
+					pollIntervalSeconds: DEFAULT_POLL_INTERVAL_SECONDS,
+					active: false,
+				},
+			);
+			return false;
+		}
+
+		const result = yield* fetchNotificationThreads(lastModified).pipe(
+			Effect.provide(GitHubApiClient.fromToken(token.right)),
+			Effect.either,
+		);
+
+		if (Either.isLeft(result)) {
+			console.warn(
+				`[pollDueNotifications] ${userId}: ${formatGitHubError(result.left)}`,
+			);
+			yield* ctx.runMutation(
+				internal.rpc.notifications.recordNotificationPoll,
+				{
+					userId,
+					outcome: "failed",
+					lastModified,
+					pollIntervalSeconds: DEFAULT_POLL_INTERVAL_SECONDS,
+					active: false,
+				},
+			);
+			return false;
+		}
+
+		const { modified, threads, pollIntervalSeconds } = result.right;
+		if (modified) {
+			yield* ctx.runMutation(internal.rpc.notifications.upsertNotifications, {
+				userId,
+				notifications: threads.map(toNotificationRecord),
+			});
+		}
+
+		yield* ctx.runMutation(internal.rpc.notifications.recordNotificationPoll, {
+			userId,
+			outcome: modified ? "modified" : "not_modified",
+			lastModified: result.right.lastModified,
+			pollIntervalSeconds,
+			active: false,
+		});
+		return modified;
+	});
+
+pollDueNotificationsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+
+		const dueRaw = yield* ctx.runQuery(
+			internal.rpc.notifications.listDueNotificationPolls,
+			{ now: Date.now(), limit: args.limit ?? POLL_BATCH_SIZE },
+		);
+		const due = Schema.decodeUnknownSync(Schema.Array(DueNotificationPoll))(
+			dueRaw,
+		);
+
+		let modifiedUsers = 0;
+		for (const { userId, lastModified } of due) {
+			const modified = yield* pollNotificationsForUser(userId, lastModified);
+			if (modified) modifiedUsers++;
+		}
+
+		return { polledUsers: due.length, modifiedUsers };
+	}),
+);
+
+listDueNotificationPollsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+
+		const due = yield* ctx.db
+			.query("github_notification_poll_state")
+			.withIndex("by_nextPollAt", (q) => q.lte("nextPollAt", args.now))
+			.take(args.limit);
+
+		return due.map((state) => ({
+			userId: state.userId,
+			lastModified: state.lastModified,
+		}));
+	}),
+);
+
+recordNotificationPollDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+
+		const existing = yield* ctx.db
+			.query("github_notification_poll_state")
+			.withIndex("by_userId", (q) => q.eq("userId", args.userId))
+			.first();
+
+		const lastActiveAt = args.active
+			? now
+			: Option.match(existing, {
+					onNone: () => now,
+					onSome: (state) => state.lastActiveAt,
+				});
+
+		// Disconnected and long-idle users leave the poller; their next
+		// manual sync re-registers them.
+		if (
+			args.outcome === "disconnected" ||
+			now - lastActiveAt > DORMANT_AFTER_MS
+		) {
+			if (Option.isSome(existing)) {
+				yield* ctx.db.delete(existing.value._id);
+			}
+			return { nextPollAt: null };
+		}
+
+		const consecutiveFailures =
+			args.outcome === "failed"
+				? Option.match(existing, {
+						onNone: () => 0,
+						onSome: (state) => state.consecutiveFailures,
+					}) + 1
+				: 0;
+		const nextPollAt =
+			now +
+			nextPollDelayMs(
+				args.pollIntervalSeconds,
+				now - lastActiveAt,
+				consecutiveFailures,
+			);
+
+		const fields = {
+			lastModified: args.lastModified,
+			pollIntervalSeconds: args.pollIntervalSeconds,
+			nextPollAt,
+			lastPolledAt: now,
+			lastActiveAt,
+			consecutiveFailures,
+		};
+		if (Option.isSome(existing)) {
+			yield* ctx.db.patch(existing.value._id, fields);
+		} else {
+			yield* ctx.db.insert("github_notification_poll_state", {
+				userId: args.userId,
+				...fields,
+			});
+		}
+
+		return { nextPollAt };
+	}),
 );
 
 // ---------------------------------------------------------------------------
@@ -518,8 +1296,17 @@ const notificationsModule = makeRpcModule(
 		listNotifications: listNotificationsDef,
 		syncNotifications: syncNotificationsDef,
 		markNotificationRead: markNotificationReadDef,
+		triageNotifications: triageNotificationsDef,
+		markAllNotificationsRead: markAllNotificationsReadDef,
+		markInboxOpened: markInboxOpenedDef,
 		upsertNotifications: upsertNotificationsDef,
+		clearPendingNotificationReads: clearPendingNotificationReadsDef,
 		markNotificationReadRemote: markNotificationReadRemoteDef,
+		applyNotificationTriageRemote: applyNotificationTriageRemoteDef,
+		markAllNotificationsReadRemote: markAllNotificationsReadRemoteDef,
+		pollDueNotifications: pollDueNotificationsDef,
+		listDueNotificationPolls: listDueNotificationPollsDef,
+		recordNotificationPoll: recordNotificationPollDef,
 	},
 	{ middlewares: DatabaseRpcModuleMiddlewares },
 );
@@ -528,8 +1315,17 @@ export const {
 	listNotifications,
 	syncNotifications,
 	markNotificationRead,
+	triageNotifications,
+	markAllNotificationsRead,
+	markInboxOpened,
 	upsertNotifications,
+	clearPendingNotificationReads,
 	markNotificationReadRemote,
+	applyNotificationTriageRemote,
+	markAllNotificationsReadRemote,
+	pollDueNotifications,
+	listDueNotificationPolls,
+	recordNotificationPoll,
 } = notificationsModule.handlers;
 export { notificationsModule };
 export type NotificationsModule = typeof notificationsModule;
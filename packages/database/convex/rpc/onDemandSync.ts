@@ -19,7 +19,12 @@
  *   3. Fetch issue comments
  *   4. Upsert all data + users
  *   5. Update projections
+ *
+ * Both flows also backfill the issue timeline (label, assignee, rename,
+ * reference and force-push events). `syncTimeline` re-runs just that step
+ * for entities that were already mirrored before timeline events existed.
  */
+import * as HttpClientRequest from "@effect/platform/HttpClientRequest";
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
 import { Array as Arr, Effect, Option, Predicate, Schema } from "effect";
 import { internal } from "../_generated/api";
@@ -29,11 +34,30 @@ import {
 	ConfectQueryCtx,
 	confectSchema,
 } from "../confect";
-import { toOpenClosedState } from "../shared/coerce";
+import { parseCheckRun, parseCheckSuite } from "../shared/checks";
+import { toObjectRecord, toOpenClosedState } from "../shared/coerce";
+import { parseCommitStatus } from "../shared/commitStatuses";
 import type { SimpleUser } from "../shared/generated_github_client";
-import { GitHubApiClient } from "../shared/githubApi";
+import {
+	GitHubApiClient,
+	installationTokenIdentity,
+} from "../shared/githubApi";
 import { getInstallationToken } from "../shared/githubApp";
+import { makeGitHubResponseCache } from "../shared/githubHttpCache";
+import { makeGitHubRateLimitLedger } from "../shared/githubRateLimit";
+import {
+	parseReactionSummary,
+	ReactionSummarySchema,
+} from "../shared/reactions";
+import { replaceReferences } from "../shared/references";
 import { parseIsoToMsOrNull as isoToMs } from "../shared/time";
+import {
+	isSameTimelineEvent,
+	parseTimelineActor,
+	parseTimelineApiEvent,
+	TIMELINE_EVENT_MATCH_WINDOW_MS,
+	TimelineEventInputSchema,
+} from "../shared/timelineEvents";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 import {
 	ReadGitHubRepoByNameMiddleware,
@@ -146,6 +170,93 @@ const resolveAuthorizedSyncRepo = (
 		};
 	});
 
+// ---------------------------------------------------------------------------
+// Raw REST reads for endpoints the generated client doesn't cover
+// ---------------------------------------------------------------------------
+
+/**
+ * GET a JSON list wrapper (e.g. `{ statuses: [...] }`) and return the named
+ * array. Any failure yields an empty list — these reads are best-effort.
+ */
+const fetchRawList = (
+	gh: typeof GitHubApiClient.Service,
+	path: string,
+	key: string,
+) =>
+	gh.httpClient
+		.execute(
+			HttpClientRequest.get(path).pipe(
+				HttpClientRequest.setUrlParam("per_page", "100"),
+			),
+		)
+		.pipe(
+			Effect.flatMap((response) =>
+				response.status >= 200 && response.status < 300
+					? response.json
+					: Effect.succeed(null),
+			),
+			Effect.map((body): ReadonlyArray<unknown> => {
+				const items = toObjectRecord(body)[key];
+				return Array.isArray(items) ? items : [];
+			}),
+			Effect.catchAll(() => Effect.succeed([])),
+		);
+
+const TIMELINE_PAGE_SIZE = 100;
+const TIMELINE_MAX_PAGES = 10; // safety cap: 1000 timeline items max
+
+/**
+ * GET an issue or PR timeline, page by page up to `TIMELINE_MAX_PAGES`, and
+ * parse the events the mirror tracks, collecting the users they reference.
+ * Best-effort like `fetchRawList`: a failed page ends the walk with what was
+ * read so far.
+ */
+const fetchTimelineEvents = (
+	gh: typeof GitHubApiClient.Service,
+	ownerLogin: string,
+	name: string,
+	number: number,
+	users: ReturnType<typeof createUserCollector>,
+) =>
+	Effect.gen(function* () {
+		const items: Array<unknown> = [];
+
+		for (let page = 1; page <= TIMELINE_MAX_PAGES; page++) {
+			const body = yield* gh.httpClient
+				.execute(
+					HttpClientRequest.get(
+						`/repos/${ownerLogin}/${name}/issues/${number}/timeline`,
+					).pipe(
+						HttpClientRequest.setUrlParams({
+							per_page: String(TIMELINE_PAGE_SIZE),
+							page: String(page),
+						}),
+					),
+				)
+				.pipe(
+					Effect.flatMap((response) =>
+						response.status >= 200 && response.status < 300
+							? response.json
+							: Effect.succeed(null),
+					),
+					Effect.catchAll(() => Effect.succeed(null)),
+				);
+			if (!Array.isArray(body)) break;
+			items.push(...body);
+
+			// If we got fewer than a full page, there are no more pages
+			if (body.length < TIMELINE_PAGE_SIZE) break;
+		}
+
+		return items
+			.map((event) =>
+				parseTimelineApiEvent(event, (user) =>
+					users.collect(parseTimelineActor(user)),
+				),
+			)
+			.filter(Predicate.isNotNull);
+	});
+
 // ---------------------------------------------------------------------------
 // Internal mutation: ensure repo exists, return repositoryId
 // ---------------------------------------------------------------------------
@@ -268,6 +379,7 @@ const upsertPrCommentsDef = factory.internalMutation({
 				body: Schema.String,
 				createdAt: Schema.Number,
 				updatedAt: Schema.Number,
+				reactions: Schema.optional(Schema.NullOr(ReactionSummarySchema)),
 			}),
 		),
 	},
@@ -297,6 +409,7 @@ upsertPrCommentsDef.implement((args) =>
 				body: comment.body,
 				createdAt: comment.createdAt,
 				updatedAt: comment.updatedAt,
+				...(comment.reactions == null ? {} : { reactions: comment.reactions }),
 			};
 
 			if (Option.isSome(existing)) {
@@ -304,6 +417,14 @@ upsertPrCommentsDef.implement((args) =>
 			} else {
 				yield* ctx.db.insert("github_issue_comments", data);
 			}
+			yield* replaceReferences({
+				repositoryId: args.repositoryId,
+				sourceType: "comment",
+				sourceId: comment.githubCommentId,
+				sourceNumber: args.prNumber,
+				text: comment.body,
+				createdAt: comment.createdAt,
+			});
 			upserted++;
 		}
 
@@ -395,6 +516,7 @@ const upsertPrReviewCommentsDef = factory.internalMutation({
 				htmlUrl: Schema.NullOr(Schema.String),
 				createdAt: Schema.Number,
 				updatedAt: Schema.Number,
+				reactions: Schema.optional(Schema.NullOr(ReactionSummarySchema)),
 			}),
 		),
 	},
@@ -436,6 +558,9 @@ upsertPrReviewCommentsDef.implement((args) =>
 				htmlUrl: reviewComment.htmlUrl,
 				createdAt: reviewComment.createdAt,
 				updatedAt: reviewComment.updatedAt,
+				...(reviewComment.reactions == null
+					? {}
+					: { reactions: reviewComment.reactions }),
 			};
 
 			if (Option.isSome(existing)) {
@@ -450,6 +575,73 @@ upsertPrReviewCommentsDef.implement((args) =>
 	}),
 );
 
+// ---------------------------------------------------------------------------
+// Internal mutation: insert timeline events not already recorded, and stamp
+// the issue/PR as backfilled
+// ---------------------------------------------------------------------------
+
+const upsertTimelineEventsDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+		issueNumber: Schema.Number,
+		events: Schema.Array(TimelineEventInputSchema),
+	},
+	success: Schema.Struct({ inserted: Schema.Number }),
+});
+
+upsertTimelineEventsDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		let inserted = 0;
+
+		for (const event of args.events) {
+			// Webhooks may have recorded the same event already
+			const nearby = yield* ctx.db
+				.query("github_timeline_events")
+				.withIndex("by_repositoryId_and_issueNumber_and_createdAt", (q) =>
+					q
+						.eq("repositoryId", args.repositoryId)
+						.eq("issueNumber", args.issueNumber)
+						.gte("createdAt", event.createdAt - TIMELINE_EVENT_MATCH_WINDOW_MS)
+						.lte("createdAt", event.createdAt + TIMELINE_EVENT_MATCH_WINDOW_MS),
+				)
+				.collect();
+			if (nearby.some((stored) => isSameTimelineEvent(stored, event))) {
+				continue;
+			}
+
+			yield* ctx.db.insert("github_timeline_events", {
+				repositoryId: args.repositoryId,
+				issueNumber: args.issueNumber,
+				...event,
+			});
+			inserted++;
+		}
+
+		const now = Date.now();
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", args.repositoryId).eq("number", args.issueNumber),
+			)
+			.first();
+		if (Option.isSome(issue)) {
+			yield* ctx.db.patch(issue.value._id, { timelineBackfilledAt: now });
+		}
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", args.repositoryId).eq("number", args.issueNumber),
+			)
+			.first();
+		if (Option.isSome(pr)) {
+			yield* ctx.db.patch(pr.value._id, { timelineBackfilledAt: now });
+		}
+
+		return { inserted };
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Internal mutation: write data + update projections
 // ---------------------------------------------------------------------------
@@ -559,7 +751,16 @@ syncPullRequestDef.implement((args) =>
 		);
 		const gh = yield* Effect.provide(
 			GitHubApiClient,
-			GitHubApiClient.fromToken(token),
+			GitHubApiClient.fromToken(token, {
+				cache: makeGitHubResponseCache(
+					ctx,
+					installationTokenIdentity(installationId),
+				),
+				rateLimits: makeGitHubRateLimitLedger(
+					ctx,
+					installationTokenIdentity(installationId),
+				),
+			}),
 		);
 		const users = createUserCollector();
 
@@ -601,6 +802,7 @@ syncPullRequestDef.implement((args) =>
 			number: prData.number,
 			state: toOpenClosedState(prData.state),
 			draft: prData.draft === true,
+			locked: prData.locked,
 			title: prData.title,
 			body: prData.body ?? null,
 			authorUserId,
@@ -635,6 +837,7 @@ syncPullRequestDef.implement((args) =>
 			body: c.body ?? "",
 			createdAt: isoToMs(c.created_at) ?? Date.now(),
 			updatedAt: isoToMs(c.updated_at) ?? Date.now(),
+			reactions: parseReactionSummary(c.reactions),
 		}));
 
 		if (comments.length > 0) {
@@ -695,6 +898,7 @@ syncPullRequestDef.implement((args) =>
 			htmlUrl: c.html_url ?? null,
 			createdAt: isoToMs(c.created_at) ?? Date.now(),
 			updatedAt: isoToMs(c.updated_at) ?? Date.now(),
+			reactions: parseReactionSummary(c.reactions),
 		}));
 
 		if (reviewComments.length > 0) {
@@ -717,15 +921,9 @@ syncPullRequestDef.implement((args) =>
 					),
 				);
 
-			const checkRuns = checkRunsResult.check_runs.map((cr) => ({
-				githubCheckRunId: cr.id,
-				name: cr.name,
-				headSha: pr.headSha,
-				status: cr.status,
-				conclusion: cr.conclusion ?? null,
-				startedAt: isoToMs(cr.started_at),
-				completedAt: isoToMs(cr.completed_at),
-			}));
+			const checkRuns = checkRunsResult.check_runs
+				.map((cr) => parseCheckRun(cr, pr.headSha))
+				.filter(Predicate.isNotNull);
 
 			if (checkRuns.length > 0) {
 				yield* ctx.runMutation(internal.rpc.bootstrapWrite.upsertCheckRuns, {
@@ -733,9 +931,56 @@ syncPullRequestDef.implement((args) =>
 					checkRuns,
 				});
 			}
+
+			const checkSuites = (yield* fetchRawList(
+				gh,
+				`/repos/${args.ownerLogin}/${args.name}/commits/${pr.headSha}/check-suites`,
+				"check_suites",
+			))
+				.map(parseCheckSuite)
+				.filter(Predicate.isNotNull);
+
+			if (checkSuites.length > 0) {
+				yield* ctx.runMutation(internal.rpc.bootstrapWrite.upsertCheckSuites, {
+					repositoryId,
+					checkSuites,
+				});
+			}
+
+			const statuses = (yield* fetchRawList(
+				gh,
+				`/repos/${args.ownerLogin}/${args.name}/commits/${pr.headSha}/status`,
+				"statuses",
+			))
+				.map((status) => parseCommitStatus(status, pr.headSha))
+				.filter(Predicate.isNotNull);
+
+			if (statuses.length > 0) {
+				yield* ctx.runMutation(
+					internal.rpc.bootstrapWrite.upsertCommitStatuses,
+					{ repositoryId, statuses },
+				);
+			}
+		}
+
+		// 8. Fetch timeline events
+		const timelineEvents = yield* fetchTimelineEvents(
+			gh,
+			args.ownerLogin,
+			args.name,
+			args.number,
+			users,
+		);
+
+		if (timelineEvents.length > 0) {
+			yield* ctx.runMutation(internal.rpc.onDemandSync.upsertTimelineEvents, {
+				repositoryId,
+				issueNumber: args.number,
+				events: timelineEvents,
+			});
 		}
 
-		// 8. Upsert collected users
+		// 9. Upsert collected users
 		const allUsers = users.getUsers();
 		if (allUsers.length > 0) {
 			yield* ctx.runMutation(internal.rpc.bootstrapWrite.upsertUsers, {
@@ -743,12 +988,12 @@ syncPullRequestDef.implement((args) =>
 			});
 		}
 
-		// 9. Update projections
+		// 10. Update projections
 		yield* ctx.runMutation(internal.rpc.onDemandSync.writeAndProject, {
 			repositoryId,
 		});
 
-		// 10. Schedule PR file sync for diff data
+		// 11. Schedule PR file sync for diff data
 		if (pr.headSha !== "") {
 			yield* Effect.promise(() =>
 				ctx.scheduler.runAfter(0, internal.rpc.githubActions.syncPrFiles, {
@@ -808,7 +1053,16 @@ syncIssueDef.implement((args) =>
 		);
 		const gh = yield* Effect.provide(
 			GitHubApiClient,
-			GitHubApiClient.fromToken(token),
+			GitHubApiClient.fromToken(token, {
+				cache: makeGitHubResponseCache(
+					ctx,
+					installationTokenIdentity(installationId),
+				),
+				rateLimits: makeGitHubRateLimitLedger(
+					ctx,
+					installationTokenIdentity(installationId),
+				),
+			}),
 		);
 		const userCollector = createUserCollector();
 
@@ -858,6 +1112,7 @@ syncIssueDef.implement((args) =>
 			githubIssueId: issueResult.id,
 			number: issueResult.number,
 			state: toOpenClosedState(issueResult.state),
+			locked: issueResult.locked,
 			title: issueResult.title,
 			body: issueResult.body ?? null,
 			authorUserId,
@@ -865,6 +1120,8 @@ syncIssueDef.implement((args) =>
 			labelNames: labels,
 			commentCount: issueResult.comments,
 			isPullRequest,
+			milestoneNumber: issueResult.milestone?.number ?? null,
+			reactions: parseReactionSummary(issueResult.reactions),
 			closedAt: isoToMs(issueResult.closed_at),
 			githubUpdatedAt: isoToMs(issueResult.updated_at) ?? Date.now(),
 		};
@@ -888,6 +1145,7 @@ syncIssueDef.implement((args) =>
 			body: c.body ?? "",
 			createdAt: isoToMs(c.created_at) ?? Date.now(),
 			updatedAt: isoToMs(c.updated_at) ?? Date.now(),
+			reactions: parseReactionSummary(c.reactions),
 		}));
 
 		if (comments.length > 0) {
@@ -898,7 +1156,24 @@ syncIssueDef.implement((args) =>
 			});
 		}
 
-		// 5. Upsert users
+		// 5. Fetch timeline events
+		const timelineEvents = yield* fetchTimelineEvents(
+			gh,
+			args.ownerLogin,
+			args.name,
+			args.number,
+			userCollector,
+		);
+
+		if (timelineEvents.length > 0) {
+			yield* ctx.runMutation(internal.rpc.onDemandSync.upsertTimelineEvents, {
+				repositoryId,
+				issueNumber: args.number,
+				events: timelineEvents,
+			});
+		}
+
+		// 6. Upsert users
 		const allUsers = userCollector.getUsers();
 		if (allUsers.length > 0) {
 			yield* ctx.runMutation(internal.rpc.bootstrapWrite.upsertUsers, {
@@ -906,7 +1181,7 @@ syncIssueDef.implement((args) =>
 			});
 		}
 
-		// 6. Update projections
+		// 7. Update projections
 		yield* ctx.runMutation(internal.rpc.onDemandSync.writeAndProject, {
 			repositoryId,
 		});
@@ -915,6 +1190,84 @@ syncIssueDef.implement((args) =>
 	}),
 );
 
+// ---------------------------------------------------------------------------
+// Public action: syncTimeline — backfill timeline events for a mirrored
+// issue or PR
+// ---------------------------------------------------------------------------
+
+const syncTimelineDef = factory
+	.action({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			number: Schema.Number,
+		},
+		success: Schema.Struct({ inserted: Schema.Number }),
+		error: Schema.Union(EntityNotFound, RepoNotFoundOnGitHub),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+syncTimelineDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const permission = yield* ReadGitHubRepoPermission;
+		const { repositoryId, installationId } = yield* resolveAuthorizedSyncRepo(
+			args.ownerLogin,
+			args.name,
+			"issue",
+			args.number,
+			permission,
+		);
+
+		const token = yield* getInstallationToken(installationId).pipe(
+			Effect.mapError(
+				() =>
+					new RepoNotFoundOnGitHub({
+						ownerLogin: args.ownerLogin,
+						name: args.name,
+					}),
+			),
+		);
+		const gh = yield* Effect.provide(
+			GitHubApiClient,
+			GitHubApiClient.fromToken(token, {
+				cache: makeGitHubResponseCache(
+					ctx,
+					installationTokenIdentity(installationId),
+				),
+				rateLimits: makeGitHubRateLimitLedger(
+					ctx,
+					installationTokenIdentity(installationId),
+				),
+			}),
+		);
+		const users = createUserCollector();
+
+		const events = yield* fetchTimelineEvents(
+			gh,
+			args.ownerLogin,
+			args.name,
+			args.number,
+			users,
+		);
+
+		const allUsers = users.getUsers();
+		if (allUsers.length > 0) {
+			yield* ctx.runMutation(internal.rpc.bootstrapWrite.upsertUsers, {
+				users: allUsers,
+			});
+		}
+
+		const upsertResult = yield* ctx.runMutation(
+			internal.rpc.onDemandSync.upsertTimelineEvents,
+			{ repositoryId, issueNumber: args.number, events },
+		);
+		return Schema.decodeUnknownSync(Schema.Struct({ inserted: Schema.Number }))(
+			upsertResult,
+		);
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Module
 // ---------------------------------------------------------------------------
@@ -923,10 +1276,12 @@ const onDemandSyncModule = makeRpcModule(
 	{
 		syncPullRequest: syncPullRequestDef,
 		syncIssue: syncIssueDef,
+		syncTimeline: syncTimelineDef,
 		ensureRepo: ensureRepoDef,
 		upsertPrComments: upsertPrCommentsDef,
 		upsertPrReviews: upsertPrReviewsDef,
 		upsertPrReviewComments: upsertPrReviewCommentsDef,
+		upsertTimelineEvents: upsertTimelineEventsDef,
 		writeAndProject: writeAndProjectDef,
 		checkEntityExists: checkEntityExistsDef,
 	},
@@ -936,10 +1291,12 @@ const onDemandSyncModule = makeRpcModule(
 export const {
 	syncPullRequest,
 	syncIssue,
+	syncTimeline,
 	ensureRepo,
 	upsertPrComments,
 	upsertPrReviews,
 	upsertPrReviewComments,
+	upsertTimelineEvents,
 	writeAndProject,
 	checkEntityExists,
 } = onDemandSyncModule.handlers;
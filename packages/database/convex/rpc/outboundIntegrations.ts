@@ -0,0 +1,816 @@
+/**
+ * Outbound Integrations — forward repository activity to external endpoints.
+ *
+ * Each activity feed entry is queued in `github_outbound_deliveries` for the
+ * repository's matching integrations (see shared/outboundIntegrations.ts).
+ * A cron drains the queue: claimed deliveries are leased for
+ * DELIVERY_LEASE_MS so overlapping runs don't send them twice, failed sends
+ * back off exponentially, and after MAX_ATTEMPTS the delivery is marked
+ * failed and copied to `github_dead_letters` with source "outbound".
+ *
+ * Endpoints (repo admins only):
+ *   - listOutboundIntegrations (query)   — integrations configured on a repo
+ *   - createOutboundIntegration (mutation) — add a webhook / Slack / Discord target
+ *   - updateOutboundIntegration (mutation) — rename, re-filter or pause a target
+ *   - deleteOutboundIntegration (mutation) — remove a target
+ *   - listOutboundDeliveries (query)     — recent deliveries for the delivery log
+ *   - redeliverOutboundDelivery (mutation) — queue a finished delivery again
+ *   - claimDueOutboundDeliveries (internalMutation) — next batch for the sender
+ *   - recordOutboundDeliveryResult (internalMutation) — apply success / backoff / dead letter
+ *   - deliverDueOutbound (internalAction) — cron-driven sender
+ */
+import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
+import { Effect, Option, Schema } from "effect";
+import { internal } from "../_generated/api";
+import {
+	ConfectActionCtx,
+	ConfectMutationCtx,
+	ConfectQueryCtx,
+	confectSchema,
+} from "../confect";
+import { OutboundIntegrationKindSchema } from "../schema";
+import {
+	buildOutboundRequest,
+	OutboundActivitySchema,
+} from "../shared/outboundIntegrations";
+import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
+import { RepoAdminByNameMiddleware, RepoPermissionContext } from "./security";
+
+const factory = createRpcFactory({ schema: confectSchema });
+
+/** Attempts before a delivery is dead-lettered */
+const MAX_ATTEMPTS = 5;
+/** Base backoff delay in ms — actual delay = BACKOFF_BASE_MS * 2^(attempt-1) */
+const BACKOFF_BASE_MS = 30_000;
+/** Deliveries sent per cron run */
+const DELIVERY_BATCH_SIZE = 20;
+/** Endpoints that take longer than this count as failed */
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** How long a claimed delivery stays out of the queue; outlasts a full batch of timeouts */
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+/** DNS-over-HTTPS resolver used to check where an endpoint host points */
+const DNS_RESOLVER_URL = "https://cloudflare-dns.com/dns-query";
+const MAX_DELIVERY_LOG_ITEMS = 100;
+
+// ---------------------------------------------------------------------------
+// Shared schemas
+// ---------------------------------------------------------------------------
+
+const DeliveryState = Schema.Literal("pending", "delivered", "retry", "failed");
+
+const OutboundIntegrationItem = Schema.Struct({
+	integrationId: Schema.String,
+	kind: OutboundIntegrationKindSchema,
+	title: Schema.String,
+	url: Schema.String,
+	/** The secret itself is never returned */
+	hasSecret: Schema.Boolean,
+	eventTypes: Schema.Array(Schema.String),
+	enabled: Schema.Boolean,
+	createdAt: Schema.Number,
+});
+
+const OutboundDeliveryItem = Schema.Struct({
+	deliveryId: Schema.String,
+	integrationId: Schema.String,
+	activityType: Schema.String,
+	state: DeliveryState,
+	attempts: Schema.Number,
+	responseStatus: Schema.NullOr(Schema.Number),
+	lastError: Schema.NullOr(Schema.String),
+	nextRetryAt: Schema.NullOr(Schema.Number),
+	createdAt: Schema.Number,
+	deliveredAt: Schema.NullOr(Schema.Number),
+});
+
+const DueOutboundDelivery = Schema.Struct({
+	deliveryId: Schema.String,
+	kind: OutboundIntegrationKindSchema,
+	url: Schema.String,
+	secret: Schema.NullOr(Schema.String),
+	payloadJson: Schema.String,
+});
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+class OutboundIntegrationNotFound extends Schema.TaggedError<OutboundIntegrationNotFound>()(
+	"OutboundIntegrationNotFound",
+	{ integrationId: Schema.String },
+) {}
+
+class OutboundDeliveryNotFound extends Schema.TaggedError<OutboundDeliveryNotFound>()(
+	"OutboundDeliveryNotFound",
+	{ deliveryId: Schema.String },
+) {}
+
+class InvalidOutboundIntegration extends Schema.TaggedError<InvalidOutboundIntegration>()(
+	"InvalidOutboundIntegration",
+	{ reason: Schema.String },
+) {}
+
+// ---------------------------------------------------------------------------
+// Endpoint definitions
+// ---------------------------------------------------------------------------
+
+const listOutboundIntegrationsDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+		},
+		success: Schema.Array(OutboundIntegrationItem),
+	})
+	.middleware(RepoAdminByNameMiddleware);
+
+/**
+ * Add an integration. `secret` only applies to generic webhooks; Slack and
+ * Discord URLs carry their own credentials.
+ */
+const createOutboundIntegrationDef = factory
+	.mutation({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			kind: OutboundIntegrationKindSchema,
+			title: Schema.String,
+			url: Schema.String,
+			secret: Schema.optional(Schema.String),
+			eventTypes: Schema.Array(Schema.String),
+		},
+		success: Schema.Struct({ integrationId: Schema.String }),
+		error: InvalidOutboundIntegration,
+	})
+	.middleware(RepoAdminByNameMiddleware);
+
+const updateOutboundIntegrationDef = factory
+	.mutation({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			integrationId: Schema.String,
+			title: Schema.optional(Schema.String),
+			eventTypes: Schema.optional(Schema.Array(Schema.String)),
+			enabled: Schema.optional(Schema.Boolean),
+		},
+		success: Schema.Struct({ updated: Schema.Boolean }),
+		error: OutboundIntegrationNotFound,
+	})
+	.middleware(RepoAdminByNameMiddleware);
+
+/**
+ * Remove an integration. Deliveries still queued for it are marked failed
+ * by the sender instead of being sent.
+ */
+const deleteOutboundIntegrationDef = factory
+	.mutation({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			integrationId: Schema.String,
+		},
+		success: Schema.Struct({ deleted: Schema.Boolean }),
+		error: OutboundIntegrationNotFound,
+	})
+	.middleware(RepoAdminByNameMiddleware);
+
+/**
+ * Most recent deliveries on the repository, newest first, optionally for
+ * a single integration.
+ */
+const listOutboundDeliveriesDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			integrationId: Schema.optional(Schema.String),
+			limit: Schema.optional(Schema.Number),
+		},
+		success: Schema.Array(OutboundDeliveryItem),
+	})
+	.middleware(RepoAdminByNameMiddleware);
+
+/**
+ * Send a delivered or failed delivery again, with a fresh attempt budget.
+ * Deliveries still in the queue are left alone.
+ */
+const redeliverOutboundDeliveryDef = factory
+	.mutation({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			deliveryId: Schema.String,
+		},
+		success: Schema.Struct({ requeued: Schema.Boolean }),
+		error: OutboundDeliveryNotFound,
+	})
+	.middleware(RepoAdminByNameMiddleware);
+
+/**
+ * Pending deliveries plus retries whose backoff has elapsed, joined with
+ * their integration, leased to the caller for DELIVERY_LEASE_MS.
+ * Deliveries whose integration was deleted or paused are marked failed
+ * here rather than returned.
+ */
+const claimDueOutboundDeliveriesDef = factory.internalMutation({
+	payload: {
+		limit: Schema.Number,
+	},
+	success: Schema.Array(DueOutboundDelivery),
+});
+
+const recordOutboundDeliveryResultDef = factory.internalMutation({
+	payload: {
+		deliveryId: Schema.String,
+		ok: Schema.Boolean,
+		responseStatus: Schema.NullOr(Schema.Number),
+		error: Schema.NullOr(Schema.String),
+	},
+	success: Schema.Struct({ state: Schema.NullOr(DeliveryState) }),
+});
+
+const deliverDueOutboundDef = factory.internalAction({
+	success: Schema.Struct({
+		delivered: Schema.Number,
+		failed: Schema.Number,
+	}),
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute next retry timestamp using exponential backoff with jitter.
+ * attempt is 1-based (the attempt that just failed).
+ */
+const computeNextRetryAt = (attempt: number): number => {
+	const exponential = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+	const jitter = Math.floor(Math.random() * exponential * 0.25);
+	return Date.now() + exponential + jitter;
+};
+
+const normalizeEventTypes = (eventTypes: ReadonlyArray<string>) => [
+	...new Set(
+		eventTypes.map((type) => type.trim()).filter((type) => type.length > 0),
+	),
+];
+
+/** Intranet and loopback name suffixes deliveries may not target */
+const BLOCKED_HOST_SUFFIXES = [
+	".localhost",
+	".local",
+	".internal",
+	".home.arpa",
+];
+
+/**
+ * Deliveries are sent from our backend, so endpoints must be public https
+ * hosts. IP literals are refused outright, which also covers the loopback,
+ * private and link-local ranges; single-label names like `localhost` are
+ * intranet hosts.
+ */
+const isPublicHttpsUrl = (value: string) => {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return false;
+	}
+	if (url.protocol !== "https:") return false;
+	const host = url.hostname.toLowerCase().replace(/\.$/, "");
+	if (host.startsWith("[") || /^[\d.]+$/.test(host)) return false;
+	if (!host.includes(".")) return false;
+	return !BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+};
+
+/**
+ * Loopback, private, link-local, CGNAT, benchmarking, multicast and
+ * reserved IPv4 ranges.
+ */
+const isPrivateIPv4 = (address: string) => {
+	const octets = address.split(".").map(Number);
+	const [a = 0, b = 0] = octets;
+	return (
+		a === 0 ||
+		a === 10 ||
+		a === 127 ||
+		a >= 224 ||
+		(a === 100 && b >= 64 && b <= 127) ||
+		(a === 169 && b === 254) ||
+		(a === 172 && b >= 16 && b <= 31) ||
+		(a === 192 && b === 0 && octets[2] === 0) ||
+		(a === 192 && b === 168) ||
+		(a === 198 && (b === 18 || b === 19))
+	);
+};
+
+/** Loopback, unspecified, unique-local, link-local, multicast and IPv4-mapped private IPv6 */
+const isPrivateIPv6 = (address: string) => {
+	const value = address.toLowerCase();
+	if (value === "::" || value === "::1") return true;
+	const mapped = value.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+	if (mapped?.[1] !== undefined) return isPrivateIPv4(mapped[1]);
+	return /^(f[cd]|fe[89ab]|ff)/.test(value);
+};
+
+const DnsAnswer = Schema.Struct({
+	Answer: Schema.optional(
+		Schema.Array(Schema.Struct({ type: Schema.Number, data: Schema.String })),
+	),
+});
+
+/** DNS record types carrying addresses */
+const DNS_TYPE_A = 1;
+const DNS_TYPE_AAAA = 28;
+
+/**
+ * Resolve `host` and refuse it if any address is private. The hostname
+ * check alone can't catch a public name pointing at 10.x or 169.254.x.
+ * Returns the reason the host is refused, or null when it is public.
+ */
+const checkHostResolvesPublic = (host: string) =>
+	Effect.gen(function* () {
+		const addresses: Array<string> = [];
+		for (const [type, recordType] of [
+			["A", DNS_TYPE_A],
+			["AAAA", DNS_TYPE_AAAA],
+		] as const) {
+			const answer = yield* Effect.tryPromise({
+				try: async () => {
+					const response = await fetch(
+						`${DNS_RESOLVER_URL}?name=${encodeURIComponent(host)}&type=${type}`,
+						{
+							headers: { accept: "application/dns-json" },
+							signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+						},
+					);
+					if (!response.ok) {
+						throw new Error(`resolver answered HTTP ${response.status}`);
+					}
+					return await response.json();
+				},
+				catch: (cause) => `DNS lookup failed: ${String(cause)}`,
+			}).pipe(
+				Effect.flatMap((json) =>
+					Schema.decodeUnknown(DnsAnswer)(json).pipe(
+						Effect.mapError(() => "DNS lookup failed: malformed answer"),
+					),
+				),
+			);
+			for (const record of answer.Answer ?? []) {
+				if (record.type === recordType) addresses.push(record.data);
+			}
+		}
+
+		if (addresses.length === 0) return "Endpoint host does not resolve";
+		const isPrivate = addresses.some((address) =>
+			address.includes(":") ? isPrivateIPv6(address) : isPrivateIPv4(address),
+		);
+		return isPrivate ? "Endpoint host resolves to a private address" : null;
+	});
+
+/**
+ * Load an integration on `repositoryId`. Integrations on other repositories
+ * are reported as missing.
+ */
+const getRepoIntegration = (
+	db: ConfectMutationCtx["db"],
+	repositoryId: number,
+	integrationId: string,
+) =>
+	Effect.gen(function* () {
+		const id = db.normalizeId("github_outbound_integrations", integrationId);
+		if (Option.isNone(id)) {
+			return yield* new OutboundIntegrationNotFound({ integrationId });
+		}
+		const integration = yield* db.get(id.value);
+		if (
+			Option.isNone(integration) ||
+			integration.value.repositoryId !== repositoryId
+		) {
+			return yield* new OutboundIntegrationNotFound({ integrationId });
+		}
+		return integration.value;
+	});
+
+const decodeActivity = Schema.decodeUnknownSync(
+	Schema.parseJson(OutboundActivitySchema),
+);
+
+/**
+ * POST one delivery. Network errors and non-2xx responses come back as a
+ * failed result rather than an error so the queue can apply backoff.
+ * Redirects are not followed, and only the status is kept from a failed
+ * response.
+ */
+const sendDelivery = (delivery: typeof DueOutboundDelivery.Type) =>
+	Effect.gen(function* () {
+		if (!isPublicHttpsUrl(delivery.url)) {
+			return {
+				ok: false,
+				responseStatus: null,
+				error: "Endpoint URL is not a public https address",
+			};
+		}
+		const refused = yield* checkHostResolvesPublic(
+			new URL(delivery.url).hostname,
+		).pipe(Effect.catchAll((error) => Effect.succeed(error)));
+		if (refused !== null) {
+			return { ok: false, responseStatus: null, error: refused };
+		}
+		const request = yield* buildOutboundRequest(
+			delivery,
+			decodeActivity(delivery.payloadJson),
+		);
+		return yield* Effect.tryPromise({
+			try: async () => {
+				const response = await fetch(delivery.url, {
+					method: "POST",
+					headers: request.headers,
+					body: request.body,
+					redirect: "manual",
+					signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+				});
+				if (response.ok) {
+					return { ok: true, responseStatus: response.status, error: null };
+				}
+				return {
+					ok: false,
+					responseStatus: response.status,
+					error: `HTTP ${response.status}`,
+				};
+			},
+			catch: (cause) => `Request failed: ${String(cause)}`,
+		}).pipe(
+			Effect.catchAll((error) =>
+				Effect.succeed({ ok: false, responseStatus: null, error }),
+			),
+		);
+	});
+
+// ---------------------------------------------------------------------------
+// Implementations
+// ---------------------------------------------------------------------------
+
+listOutboundIntegrationsDef.implement(() =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const { repositoryId } = yield* RepoPermissionContext;
+		const integrations = yield* ctx.db
+			.query("github_outbound_integrations")
+			.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+			.collect();
+
+		return integrations.map((integration) => ({
+			integrationId: integration._id,
+			kind: integration.kind,
+			title: integration.title,
+			url: integration.url,
+			hasSecret: integration.secret !== null,
+			eventTypes: integration.eventTypes,
+			enabled: integration.enabled,
+			createdAt: integration.createdAt,
+		}));
+	}),
+);
+
+createOutboundIntegrationDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { repositoryId, userId } = yield* RepoPermissionContext;
+		if (userId === null) {
+			return yield* new InvalidOutboundIntegration({
+				reason: "Authentication is required",
+			});
+		}
+
+		const url = args.url.trim();
+		if (!isPublicHttpsUrl(url)) {
+			return yield* new InvalidOutboundIntegration({
+				reason: "URL must be a public https address",
+			});
+		}
+
+		const secret = args.secret?.trim() ?? "";
+		const title = args.title.trim();
+		const now = Date.now();
+		const integrationId = yield* ctx.db.insert("github_outbound_integrations", {
+			repositoryId,
+			kind: args.kind,
+			title: title.length > 0 ? title : new URL(url).host,
+			url,
+			secret: args.kind === "webhook" && secret.length > 0 ? secret : null,
+			eventTypes: normalizeEventTypes(args.eventTypes),
+			enabled: true,
+			createdByUserId: userId,
+			createdAt: now,
+			updatedAt: now,
+		});
+
+		return { integrationId };
+	}),
+);
+
+updateOutboundIntegrationDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { repositoryId } = yield* RepoPermissionContext;
+		const integration = yield* getRepoIntegration(
+			ctx.db,
+			repositoryId,
+			args.integrationId,
+		);
+
+		const title = args.title?.trim();
+		yield* ctx.db.patch(integration._id, {
+			...(title !== undefined && title.length > 0 ? { title } : {}),
+			...(args.eventTypes !== undefined
+				? { eventTypes: normalizeEventTypes(args.eventTypes) }
+				: {}),
+			...(args.enabled !== undefined ? { enabled: args.enabled } : {}),
+			updatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+deleteOutboundIntegrationDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { repositoryId } = yield* RepoPermissionContext;
+		const integration = yield* getRepoIntegration(
+			ctx.db,
+			repositoryId,
+			args.integrationId,
+		);
+
+		yield* ctx.db.delete(integration._id);
+
+		return { deleted: true };
+	}),
+);
+
+listOutboundDeliveriesDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const { repositoryId } = yield* RepoPermissionContext;
+		const limit = Math.min(
+			Math.max(args.limit ?? 50, 1),
+			MAX_DELIVERY_LOG_ITEMS,
+		);
+		const integrationId = args.integrationId;
+
+		const deliveries =
+			integrationId === undefined
+				? yield* ctx.db
+						.query("github_outbound_deliveries")
+						.withIndex("by_repositoryId_and_createdAt", (q) =>
+							q.eq("repositoryId", repositoryId),
+						)
+						.order("desc")
+						.take(limit)
+				: (yield* ctx.db
+						.query("github_outbound_deliveries")
+						.withIndex("by_integrationId_and_createdAt", (q) =>
+							q.eq("integrationId", integrationId),
+						)
+						.order("desc")
+						.take(limit)).filter(
+						(delivery) => delivery.repositoryId === repositoryId,
+					);
+
+		return deliveries.map((delivery) => ({
+			deliveryId: delivery._id,
+			integrationId: delivery.integrationId,
+			activityType: delivery.activityType,
+			state: delivery.deliveryState,
+			attempts: delivery.attempts,
+			responseStatus: delivery.responseStatus,
+			lastError: delivery.lastError,
+			nextRetryAt: delivery.nextRetryAt,
+			createdAt: delivery.createdAt,
+			deliveredAt: delivery.deliveredAt,
+		}));
+	}),
+);
+
+redeliverOutboundDeliveryDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { repositoryId } = yield* RepoPermissionContext;
+		const id = ctx.db.normalizeId(
+			"github_outbound_deliveries",
+			args.deliveryId,
+		);
+		const delivery = Option.isNone(id)
+			? Option.none()
+			: yield* ctx.db.get(id.value);
+		if (
+			Option.isNone(delivery) ||
+			delivery.value.repositoryId !== repositoryId
+		) {
+			return yield* new OutboundDeliveryNotFound({
+				deliveryId: args.deliveryId,
+			});
+		}
+
+		const state = delivery.value.deliveryState;
+		if (state === "pending" || state === "retry") {
+			return { requeued: false };
+		}
+
+		yield* ctx.db.patch(delivery.value._id, {
+			deliveryState: "pending",
+			attempts: 0,
+			nextRetryAt: null,
+			lastError: null,
+			claimedAt: null,
+		});
+		return { requeued: true };
+	}),
+);
+
+claimDueOutboundDeliveriesDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+
+		// Unclaimed rows (claimedAt undefined or null) sort before any lease
+		const pending = yield* ctx.db
+			.query("github_outbound_deliveries")
+			.withIndex("by_deliveryState_and_claimedAt", (q) =>
+				q
+					.eq("deliveryState", "pending")
+					.lt("claimedAt", now - DELIVERY_LEASE_MS),
+			)
+			.take(args.limit);
+		const retries =
+			pending.length < args.limit
+				? yield* ctx.db
+						.query("github_outbound_deliveries")
+						.withIndex("by_deliveryState_and_nextRetryAt", (q) =>
+							q.eq("deliveryState", "retry").lte("nextRetryAt", now),
+						)
+						.take(args.limit - pending.length)
+				: [];
+
+		const due: Array<typeof DueOutboundDelivery.Type> = [];
+		for (const delivery of [...pending, ...retries]) {
+			const integrationId = ctx.db.normalizeId(
+				"github_outbound_integrations",
+				delivery.integrationId,
+			);
+			const integration = Option.isNone(integrationId)
+				? Option.none()
+				: yield* ctx.db.get(integrationId.value);
+
+			if (Option.isNone(integration) || !integration.value.enabled) {
+				yield* ctx.db.patch(delivery._id, {
+					deliveryState: "failed",
+					nextRetryAt: null,
+					lastError: Option.isNone(integration)
+						? "Integration was deleted"
+						: "Integration is paused",
+				});
+				continue;
+			}
+
+			// Retries are leased by pushing their due time past the lease
+			yield* ctx.db.patch(delivery._id, {
+				claimedAt: now,
+				...(delivery.deliveryState === "retry"
+					? { nextRetryAt: now + DELIVERY_LEASE_MS }
+					: {}),
+			});
+			due.push({
+				deliveryId: delivery._id,
+				kind: integration.value.kind,
+				url: integration.value.url,
+				secret: integration.value.secret,
+				payloadJson: delivery.payloadJson,
+			});
+		}
+
+		return due;
+	}),
+);
+
+recordOutboundDeliveryResultDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const id = ctx.db.normalizeId(
+			"github_outbound_deliveries",
+			args.deliveryId,
+		);
+		if (Option.isNone(id)) return { state: null };
+		const delivery = yield* ctx.db.get(id.value);
+		if (Option.isNone(delivery)) return { state: null };
+
+		const now = Date.now();
+		const attempts = delivery.value.attempts + 1;
+
+		if (args.ok) {
+			yield* ctx.db.patch(delivery.value._id, {
+				deliveryState: "delivered",
+				attempts,
+				claimedAt: null,
+				nextRetryAt: null,
+				lastError: null,
+				responseStatus: args.responseStatus,
+				deliveredAt: now,
+			});
+			return { state: "delivered" as const };
+		}
+
+		if (attempts >= MAX_ATTEMPTS) {
+			const reason = `Exhausted ${MAX_ATTEMPTS} attempts. Last error: ${args.error ?? "unknown"}`;
+			yield* ctx.db.insert("github_dead_letters", {
+				deliveryId: delivery.value._id,
+				reason,
+				payloadJson: delivery.value.payloadJson,
+				createdAt: now,
+				source: "outbound",
+			});
+			yield* ctx.db.patch(delivery.value._id, {
+				deliveryState: "failed",
+				attempts,
+				claimedAt: null,
+				nextRetryAt: null,
+				lastError: args.error,
+				responseStatus: args.responseStatus,
+			});
+			return { state: "failed" as const };
+		}
+
+		yield* ctx.db.patch(delivery.value._id, {
+			deliveryState: "retry",
+			attempts,
+			claimedAt: null,
+			nextRetryAt: computeNextRetryAt(attempts),
+			lastError: args.error,
+			responseStatus: args.responseStatus,
+		});
+		return { state: "retry" as const };
+	}),
+);
+
+deliverDueOutboundDef.implement(() =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectActionCtx;
+		const dueRaw = yield* ctx.runMutation(
+			internal.rpc.outboundIntegrations.claimDueOutboundDeliveries,
+			{ limit: DELIVERY_BATCH_SIZE },
+		);
+		const due = Schema.decodeUnknownSync(Schema.Array(DueOutboundDelivery))(
+			dueRaw,
+		);
+
+		let delivered = 0;
+		for (const delivery of due) {
+			const result = yield* sendDelivery(delivery);
+			yield* ctx.runMutation(
+				internal.rpc.outboundIntegrations.recordOutboundDeliveryResult,
+				{ deliveryId: delivery.deliveryId, ...result },
+			);
+			if (result.ok) delivered++;
+		}
+
+		return { delivered, failed: due.length - delivered };
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// Module
+// ---------------------------------------------------------------------------
+
+const outboundIntegrationsModule = makeRpcModule(
+	{
+		listOutboundIntegrations: listOutboundIntegrationsDef,
+		createOutboundIntegration: createOutboundIntegrationDef,
+		updateOutboundIntegration: updateOutboundIntegrationDef,
+		deleteOutboundIntegration: deleteOutboundIntegrationDef,
+		listOutboundDeliveries: listOutboundDeliveriesDef,
+		redeliverOutboundDelivery: redeliverOutboundDeliveryDef,
+		claimDueOutboundDeliveries: claimDueOutboundDeliveriesDef,
+		recordOutboundDeliveryResult: recordOutboundDeliveryResultDef,
+		deliverDueOutbound: deliverDueOutboundDef,
+	},
+	{ middlewares: DatabaseRpcModuleMiddlewares },
+);
+
+export const {
+	listOutboundIntegrations,
+	createOutboundIntegration,
+	updateOutboundIntegration,
+	deleteOutboundIntegration,
+	listOutboundDeliveries,
+	redeliverOutboundDelivery,
+	claimDueOutboundDeliveries,
+	recordOutboundDeliveryResult,
+	deliverDueOutbound,
+} = outboundIntegrationsModule.handlers;
+export { outboundIntegrationsModule };
+export type OutboundIntegrationsModule = typeof outboundIntegrationsModule;
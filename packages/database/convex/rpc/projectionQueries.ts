@@ -6,6 +6,7 @@ import {
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
 import { Effect, Option, Schema } from "effect";
 import { components, internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
 import { ConfectMutationCtx, ConfectQueryCtx, confectSchema } from "../confect";
 import {
 	checkRunsByRepo,
@@ -15,7 +16,31 @@ import {
 	prsByRepo,
 	reviewsByPrNumber,
 } from "../shared/aggregates";
+import {
+	buildCiRollup,
+	CheckCountsSchema,
+	CiRollupSchema,
+} from "../shared/checks";
+import {
+	commitStatusAsCheck,
+	isFailingConclusion,
+} from "../shared/commitStatuses";
+import {
+	ListFilterFields,
+	type ListScanSegment,
+	makeListFilter,
+	paginateFilteredList,
+} from "../shared/listFilters";
 import { evaluateRepoPermissionWithDb } from "../shared/permissions";
+import {
+	EMPTY_REACTION_SUMMARY,
+	isReactionCounted,
+	ReactionContentSchema,
+	type ReactionSummary,
+	ReactionSummarySchema,
+} from "../shared/reactions";
+import { referenceSourceKey } from "../shared/references";
+import { TimelineEventTypeSchema } from "../shared/timelineEvents";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 import {
 	ReadGitHubRepoByNameMiddleware,
@@ -122,6 +147,7 @@ const listPullRequestsDef = factory
 				commentCount: Schema.Number,
 				reviewCount: Schema.Number,
 				lastCheckConclusion: Schema.NullOr(Schema.String),
+				checkCounts: CheckCountsSchema,
 				githubUpdatedAt: Schema.Number,
 			}),
 		),
@@ -243,6 +269,51 @@ const requestPrFileSyncDef = factory
 	})
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
+/**
+ * Request on-demand annotation sync for the PR's failed check runs.
+ *
+ * Schedules `syncCheckAnnotations` for failed runs on the current headSha
+ * that report annotations but have not been fetched yet. Runs are marked
+ * as requested first, so concurrent page loads schedule them once.
+ */
+const requestCheckAnnotationSyncDef = factory
+	.mutation({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			number: Schema.Number,
+		},
+		success: Schema.Struct({
+			scheduled: Schema.Boolean,
+		}),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+/**
+ * List cached check run annotations for a commit, for overlaying on the diff.
+ */
+const listCheckAnnotationsDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			headSha: Schema.String,
+		},
+		success: Schema.Array(
+			Schema.Struct({
+				githubCheckRunId: Schema.Number,
+				checkRunName: Schema.String,
+				path: Schema.String,
+				startLine: Schema.Number,
+				endLine: Schema.Number,
+				annotationLevel: Schema.Literal("notice", "warning", "failure"),
+				title: Schema.NullOr(Schema.String),
+				message: Schema.String,
+			}),
+		),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
 // ---------------------------------------------------------------------------
 // Paginated list endpoint definitions
 // ---------------------------------------------------------------------------
@@ -263,6 +334,7 @@ const PrListItem = Schema.Struct({
 	commentCount: Schema.Number,
 	reviewCount: Schema.Number,
 	lastCheckConclusion: Schema.NullOr(Schema.String),
+	checkCounts: CheckCountsSchema,
 	githubUpdatedAt: Schema.Number,
 });
 
@@ -292,14 +364,18 @@ const ActivityListItem = Schema.Struct({
 });
 
 /**
- * Paginated pull request list with optional state filter.
+ * Paginated pull request list with optional state filter. With any of the
+ * author, assignee, label, updated-since, linked or text filters (what a
+ * saved view carries), pages keep reading until they are full.
  */
 const listPullRequestsPaginatedDef = factory
 	.query({
 		payload: {
 			ownerLogin: Schema.String,
 			name: Schema.String,
-			state: Schema.optional(Schema.Literal("open", "closed")),
+			/** `merged` narrows closed pull requests to those that were merged */
+			state: Schema.optional(Schema.Literal("open", "closed", "merged")),
+			...ListFilterFields,
 			...PaginationOptionsSchema.fields,
 		},
 		success: PaginationResultSchema(PrListItem),
@@ -307,7 +383,8 @@ const listPullRequestsPaginatedDef = factory
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
 /**
- * Paginated issue list with optional state filter.
+ * Paginated issue list with optional state, milestone and saved-view
+ * filters. Filtered pages keep reading until they are full.
  */
 const listIssuesPaginatedDef = factory
 	.query({
@@ -315,6 +392,9 @@ const listIssuesPaginatedDef = factory
 			ownerLogin: Schema.String,
 			name: Schema.String,
 			state: Schema.optional(Schema.Literal("open", "closed")),
+			/** Only return issues attached to this milestone number */
+			milestoneNumber: Schema.optional(Schema.Number),
+			...ListFilterFields,
 			...PaginationOptionsSchema.fields,
 		},
 		success: PaginationResultSchema(IssueListItem),
@@ -397,7 +477,8 @@ const listWorkflowRunsPaginatedDef = factory
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
 /**
- * Search issues and PRs by title within a repository.
+ * Search issues, PRs, and discussions by title and body within a repository.
+ * Discussions have no labels or assignees, so those filters exclude them.
  */
 const searchIssuesAndPrsDef = factory
 	.query({
@@ -406,7 +487,7 @@ const searchIssuesAndPrsDef = factory
 			name: Schema.String,
 			query: Schema.String,
 			limit: Schema.optional(Schema.Number),
-			target: Schema.optional(Schema.Literal("issue", "pr")),
+			target: Schema.optional(Schema.Literal("issue", "pr", "discussion")),
 			authorLogin: Schema.optional(Schema.String),
 			assigneeLogin: Schema.optional(Schema.String),
 			labels: Schema.optional(Schema.Array(Schema.String)),
@@ -415,7 +496,7 @@ const searchIssuesAndPrsDef = factory
 		},
 		success: Schema.Array(
 			Schema.Struct({
-				type: Schema.Literal("pr", "issue"),
+				type: Schema.Literal("pr", "issue", "discussion"),
 				number: Schema.Number,
 				state: Schema.Literal("open", "closed", "merged"),
 				title: Schema.String,
@@ -473,6 +554,12 @@ const getWorkflowRunDetailDef = factory
 
 // -- Shared sub-schemas for detail views ------------------------------------
 
+/** Mirrored rollup plus the reactions the signed-in user left on the subject. */
+const ReactionsSchema = Schema.Struct({
+	summary: ReactionSummarySchema,
+	viewerReactions: Schema.Array(ReactionContentSchema),
+});
+
 const CommentSchema = Schema.Struct({
 	githubCommentId: Schema.Number,
 	authorLogin: Schema.NullOr(Schema.String),
@@ -480,6 +567,14 @@ const CommentSchema = Schema.Struct({
 	body: Schema.String,
 	createdAt: Schema.Number,
 	updatedAt: Schema.Number,
+	reactions: ReactionsSchema,
+	optimisticOperationType: Schema.NullOr(
+		Schema.Literal("create_comment", "update_comment", "delete_comment"),
+	),
+	optimisticState: Schema.NullOr(
+		Schema.Literal("pending", "failed", "confirmed"),
+	),
+	optimisticErrorMessage: Schema.NullOr(Schema.String),
 });
 
 const ReviewSchema = Schema.Struct({
@@ -509,9 +604,81 @@ const ReviewCommentSchema = Schema.Struct({
 	htmlUrl: Schema.NullOr(Schema.String),
 	createdAt: Schema.Number,
 	updatedAt: Schema.Number,
+	reactions: ReactionsSchema,
+	optimisticOperationType: Schema.NullOr(
+		Schema.Literal("update_comment", "delete_comment"),
+	),
+	optimisticState: Schema.NullOr(
+		Schema.Literal("pending", "failed", "confirmed"),
+	),
+	optimisticErrorMessage: Schema.NullOr(Schema.String),
+});
+
+/** A label, assignee, rename, reference, state or force-push entry. */
+const TimelineEventSchema = Schema.Struct({
+	kind: Schema.Literal("event"),
+	eventType: TimelineEventTypeSchema,
+	actorLogin: Schema.NullOr(Schema.String),
+	actorAvatarUrl: Schema.NullOr(Schema.String),
+	labelName: Schema.NullOr(Schema.String),
+	labelColor: Schema.NullOr(Schema.String),
+	subjectLogin: Schema.NullOr(Schema.String),
+	/** Requested team slug, for team review requests */
+	subjectTeamSlug: Schema.NullOr(Schema.String),
+	milestoneTitle: Schema.NullOr(Schema.String),
+	renameFrom: Schema.NullOr(Schema.String),
+	renameTo: Schema.NullOr(Schema.String),
+	commitSha: Schema.NullOr(Schema.String),
+	beforeSha: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+});
+
+/**
+ * One entry of the merged, oldest-first timeline. Comments and reviews are
+ * referenced by ID into the detail's `comments` / `reviews` arrays.
+ */
+const TimelineItemSchema = Schema.Union(
+	Schema.Struct({
+		kind: Schema.Literal("comment"),
+		githubCommentId: Schema.Number,
+		createdAt: Schema.Number,
+	}),
+	Schema.Struct({
+		kind: Schema.Literal("review"),
+		githubReviewId: Schema.Number,
+		createdAt: Schema.Number,
+	}),
+	TimelineEventSchema,
+);
+
+/** An issue or pull request on the other end of a cross-reference. */
+const LinkedItemSchema = Schema.Struct({
+	number: Schema.Number,
+	title: Schema.String,
+	state: Schema.Literal("open", "closed"),
+	isPullRequest: Schema.Boolean,
+	merged: Schema.Boolean,
+});
+
+/**
+ * An issue or PR (through its body or a comment) or a commit that mentions
+ * the subject. Exactly one of `item` and `commitSha` is set.
+ */
+const ReferencedBySchema = Schema.Struct({
+	item: Schema.NullOr(LinkedItemSchema),
+	commitSha: Schema.NullOr(Schema.String),
+	commitHeadline: Schema.NullOr(Schema.String),
+	isClosing: Schema.Boolean,
+	createdAt: Schema.Number,
 });
 
+/**
+ * A check run or a legacy commit status. Statuses use their GitHub status
+ * ID as `githubCheckRunId`, the status context as `name`, and link out via
+ * `detailsUrl` (the status `target_url`).
+ */
 const CheckRunSchema = Schema.Struct({
+	source: Schema.Literal("check_run", "status"),
 	githubCheckRunId: Schema.Number,
 	name: Schema.String,
 	status: Schema.String,
@@ -519,6 +686,7 @@ const CheckRunSchema = Schema.Struct({
 	startedAt: Schema.NullOr(Schema.Number),
 	completedAt: Schema.NullOr(Schema.Number),
 	runNumber: Schema.NullOr(Schema.Number),
+	detailsUrl: Schema.NullOr(Schema.String),
 });
 
 /**
@@ -549,6 +717,8 @@ const getIssueDetailDef = factory
 						"merge_pull_request",
 						"update_labels",
 						"update_assignees",
+						"update_title_body",
+						"update_lock_state",
 					),
 				),
 				optimisticState: Schema.NullOr(
@@ -557,6 +727,7 @@ const getIssueDetailDef = factory
 				optimisticErrorMessage: Schema.NullOr(Schema.String),
 				title: Schema.String,
 				body: Schema.NullOr(Schema.String),
+				locked: Schema.Boolean,
 				authorLogin: Schema.NullOr(Schema.String),
 				authorAvatarUrl: Schema.NullOr(Schema.String),
 				assignees: Schema.Array(AssigneeSchema),
@@ -564,12 +735,39 @@ const getIssueDetailDef = factory
 				commentCount: Schema.Number,
 				closedAt: Schema.NullOr(Schema.Number),
 				githubUpdatedAt: Schema.Number,
+				reactions: ReactionsSchema,
 				comments: Schema.Array(CommentSchema),
+				timeline: Schema.Array(TimelineItemSchema),
+				/** When the timeline was last backfilled from GitHub, if ever */
+				timelineBackfilledAt: Schema.NullOr(Schema.Number),
+				/** Pull requests that close this issue */
+				linkedPullRequests: Schema.Array(LinkedItemSchema),
+				referencedBy: Schema.Array(ReferencedBySchema),
 			}),
 		),
 	})
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
+/**
+ * Get the CI rollup for one commit: check runs grouped by suite/app plus
+ * legacy commit statuses.
+ */
+const getCommitCiRollupDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			sha: Schema.String,
+		},
+		success: Schema.NullOr(CiRollupSchema),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+const RequestedTeamSchema = Schema.Struct({
+	slug: Schema.String,
+	name: Schema.String,
+});
+
 /**
  * Get full pull request detail including body, comments, reviews, and check runs.
  */
@@ -592,6 +790,11 @@ const getPullRequestDetailDef = factory
 						"update_pull_request_branch",
 						"update_labels",
 						"update_assignees",
+						"request_reviewers",
+						"remove_reviewers",
+						"update_title_body",
+						"convert_pull_request_draft",
+						"update_lock_state",
 					),
 				),
 				optimisticState: Schema.NullOr(
@@ -601,9 +804,12 @@ const getPullRequestDetailDef = factory
 				draft: Schema.Boolean,
 				title: Schema.String,
 				body: Schema.NullOr(Schema.String),
+				locked: Schema.Boolean,
 				authorLogin: Schema.NullOr(Schema.String),
 				authorAvatarUrl: Schema.NullOr(Schema.String),
 				assignees: Schema.Array(AssigneeSchema),
+				requestedReviewers: Schema.Array(AssigneeSchema),
+				requestedTeams: Schema.Array(RequestedTeamSchema),
 				labelNames: Schema.Array(Schema.String),
 				headRefName: Schema.String,
 				baseRefName: Schema.String,
@@ -616,6 +822,12 @@ const getPullRequestDetailDef = factory
 				reviews: Schema.Array(ReviewSchema),
 				reviewComments: Schema.Array(ReviewCommentSchema),
 				checkRuns: Schema.Array(CheckRunSchema),
+				timeline: Schema.Array(TimelineItemSchema),
+				/** When the timeline was last backfilled from GitHub, if ever */
+				timelineBackfilledAt: Schema.NullOr(Schema.Number),
+				/** Issues this pull request closes */
+				linkedIssues: Schema.Array(LinkedItemSchema),
+				referencedBy: Schema.Array(ReferencedBySchema),
 			}),
 		),
 	})
@@ -646,6 +858,23 @@ const getSyncProgressDef = factory.query({
 	),
 });
 
+/**
+ * Resolve a former owner/name of a renamed or transferred repository to its
+ * current one. Returns null when the name is current or was never mirrored.
+ */
+const resolveRepoRedirectDef = factory.query({
+	payload: {
+		ownerLogin: Schema.String,
+		name: Schema.String,
+	},
+	success: Schema.NullOr(
+		Schema.Struct({
+			ownerLogin: Schema.String,
+			name: Schema.String,
+		}),
+	),
+});
+
 // ---------------------------------------------------------------------------
 // Home dashboard — cross-repo aggregate
 // ---------------------------------------------------------------------------
@@ -742,12 +971,67 @@ const tryAggregateCount = (
 		fallback,
 	);
 
+/** Open PRs, most recently updated first, whose head statuses are counted */
+const FAILING_STATUS_PR_HEAD_LIMIT = 50;
+
+/**
+ * Count failing commit statuses on the commits that matter right now: the
+ * default-branch head and the heads of recently updated open PRs. Rows are
+ * already the latest status per context, so a context that went green on a
+ * later push stops counting.
+ */
+const countFailingHeadStatuses = (
+	repositoryId: number,
+	defaultBranch: string,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const heads = new Set<string>();
+
+		const branch = yield* ctx.db
+			.query("github_branches")
+			.withIndex("by_repositoryId_and_name", (q) =>
+				q.eq("repositoryId", repositoryId).eq("name", defaultBranch),
+			)
+			.first();
+		if (Option.isSome(branch)) heads.add(branch.value.headSha);
+
+		const openPrs = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+				q.eq("repositoryId", repositoryId).eq("state", "open"),
+			)
+			.order("desc")
+			.take(FAILING_STATUS_PR_HEAD_LIMIT);
+		for (const pr of openPrs) {
+			if (pr.headSha !== "") heads.add(pr.headSha);
+		}
+
+		let count = 0;
+		for (const sha of heads) {
+			const statuses = yield* ctx.db
+				.query("github_commit_statuses")
+				.withIndex("by_repositoryId_and_sha_and_context", (q) =>
+					q.eq("repositoryId", repositoryId).eq("sha", sha),
+				)
+				.collect();
+			count += statuses.filter(
+				(status) => status.state === "failure" || status.state === "error",
+			).length;
+		}
+		return count;
+	});
+
 /**
  * Compute overview counts for a repository using O(log n) aggregates.
  * Returns { openPrCount, openIssueCount, failingCheckCount }.
  */
-const computeRepoCounts = (repositoryId: number) =>
+const computeRepoCounts = (repo: {
+	readonly githubRepoId: number;
+	readonly defaultBranch: string;
+}) =>
 	Effect.gen(function* () {
+		const repositoryId = repo.githubRepoId;
 		const ctx = yield* ConfectQueryCtx;
 		const raw = ctx.rawCtx;
 
@@ -803,7 +1087,16 @@ const computeRepoCounts = (repositoryId: number) =>
 			Effect.succeed(0),
 		);
 
-		return { openPrCount, openIssueCount, failingCheckCount };
+		const failingStatusCount = yield* countFailingHeadStatuses(
+			repositoryId,
+			repo.defaultBranch,
+		);
+
+		return {
+			openPrCount,
+			openIssueCount,
+			failingCheckCount: failingCheckCount + failingStatusCount,
+		};
 	});
 
 const ANONYMOUS_FEATURED_REPO_LIMIT = 10;
@@ -1142,7 +1435,7 @@ listReposDef.implement(() =>
 			(repo) =>
 				Effect.gen(function* () {
 					const [counts, ownerAvatarUrl] = yield* Effect.all([
-						computeRepoCounts(repo.githubRepoId),
+						computeRepoCounts(repo),
 						resolveCachedOwnerAvatarUrl(repo.ownerId),
 					]);
 
@@ -1183,7 +1476,7 @@ getRepoOverviewDef.implement((_args) =>
 		if (Option.isNone(repoOpt)) return null;
 
 		const repo = repoOpt.value;
-		const counts = yield* computeRepoCounts(repo.githubRepoId);
+		const counts = yield* computeRepoCounts(repo);
 
 		return {
 			repositoryId: repo.githubRepoId,
@@ -1259,6 +1552,81 @@ getSyncProgressDef.implement((_args) =>
 	}),
 );
 
+resolveRepoRedirectDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const current = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_ownerLogin_and_name", (q) =>
+				q.eq("ownerLogin", args.ownerLogin).eq("name", args.name),
+			)
+			.first();
+		if (Option.isSome(current)) return null;
+
+		const redirect = yield* ctx.db
+			.query("github_repository_redirects")
+			.withIndex("by_fromOwnerLogin_and_fromName", (q) =>
+				q.eq("fromOwnerLogin", args.ownerLogin).eq("fromName", args.name),
+			)
+			.first();
+		if (Option.isNone(redirect)) return null;
+
+		const repository = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", redirect.value.repositoryId),
+			)
+			.first();
+		if (Option.isNone(repository)) return null;
+
+		const identity = yield* ctx.auth.getUserIdentity();
+		const decision = yield* evaluateRepoPermissionWithDb(ctx.db, {
+			repositoryId: repository.value.githubRepoId,
+			isPrivate: !(
+				repository.value.visibility === "public" &&
+				repository.value.private === false
+			),
+			userId: Option.isSome(identity) ? identity.value.subject : null,
+			required: "pull",
+			requireAuthenticated: false,
+		});
+		if (!decision.isAllowed) return null;
+
+		return {
+			ownerLogin: repository.value.ownerLogin,
+			name: repository.value.name,
+		};
+	}),
+);
+
+/**
+ * Load everything CI reported for a commit (bounded) and roll it up.
+ */
+const loadCiRollup = (repositoryId: number, sha: string) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const checkRuns = yield* ctx.db
+			.query("github_check_runs")
+			.withIndex("by_repositoryId_and_headSha", (q) =>
+				q.eq("repositoryId", repositoryId).eq("headSha", sha),
+			)
+			.take(200);
+		const checkSuites = yield* ctx.db
+			.query("github_check_suites")
+			.withIndex("by_repositoryId_and_headSha", (q) =>
+				q.eq("repositoryId", repositoryId).eq("headSha", sha),
+			)
+			.take(50);
+		const commitStatuses = yield* ctx.db
+			.query("github_commit_statuses")
+			.withIndex("by_repositoryId_and_sha_and_context", (q) =>
+				q.eq("repositoryId", repositoryId).eq("sha", sha),
+			)
+			.take(200);
+
+		return buildCiRollup(sha, checkRuns, checkSuites, commitStatuses);
+	});
+
 /**
  * Enrich a PR with computed counts and check conclusion.
  * Resolves author, comment count, review count, and last check conclusion
@@ -1317,31 +1685,7 @@ const enrichPr = (pr: {
 			}),
 		);
 
-		// Derive lastCheckConclusion from check runs on the PR's headSha
-		const checkRuns = yield* ctx.db
-			.query("github_check_runs")
-			.withIndex("by_repositoryId_and_headSha", (q) =>
-				q.eq("repositoryId", pr.repositoryId).eq("headSha", pr.headSha),
-			)
-			.take(200);
-
-		let lastCheckConclusion: string | null = null;
-		if (checkRuns.length > 0) {
-			const hasFailure = checkRuns.some(
-				(cr) =>
-					cr.conclusion === "failure" ||
-					cr.conclusion === "timed_out" ||
-					cr.conclusion === "action_required",
-			);
-			const hasPending = checkRuns.some((cr) => cr.status !== "completed");
-			if (hasFailure) {
-				lastCheckConclusion = "failure";
-			} else if (hasPending) {
-				lastCheckConclusion = null;
-			} else {
-				lastCheckConclusion = "success";
-			}
-		}
+		const ciRollup = yield* loadCiRollup(pr.repositoryId, pr.headSha);
 
 		return {
 			number: pr.number,
@@ -1356,7 +1700,8 @@ const enrichPr = (pr: {
 			baseRefName: pr.baseRefName,
 			commentCount,
 			reviewCount,
-			lastCheckConclusion,
+			lastCheckConclusion: ciRollup.conclusion,
+			checkCounts: ciRollup.counts,
 			githubUpdatedAt: pr.githubUpdatedAt,
 		};
 	});
@@ -1509,6 +1854,11 @@ searchIssuesAndPrsDef.implement((args) =>
 		const shouldSearchPrs = args.target === undefined || args.target === "pr";
 		const shouldSearchIssues =
 			args.target === undefined || args.target === "issue";
+		const shouldSearchDiscussions =
+			(args.target === undefined || args.target === "discussion") &&
+			args.state !== "merged" &&
+			args.assigneeLogin === undefined &&
+			(args.labels ?? []).length === 0;
 
 		const loginByUserId = new Map<number, string | null>();
 		const resolveLoginByUserId = (userId: number | null) =>
@@ -1855,7 +2205,70 @@ searchIssuesAndPrsDef.implement((args) =>
 			if (item !== null) issueItems.push(item);
 		}
 
-		const merged = [...prItems, ...issueItems].sort(
+		const discussionCandidates = shouldSearchDiscussions
+			? yield* Effect.forEach(
+					args.state === "open" || args.state === "closed"
+						? [args.state]
+						: (["open", "closed"] as const),
+					(stateFilter) =>
+						ctx.db
+							.query("github_discussions")
+							.withIndex(
+								"by_repositoryId_and_state_and_githubUpdatedAt",
+								(q) =>
+									args.updatedAfter === undefined
+										? q
+												.eq("repositoryId", repositoryId)
+												.eq("state", stateFilter)
+										: q
+												.eq("repositoryId", repositoryId)
+												.eq("state", stateFilter)
+												.gte("githubUpdatedAt", args.updatedAfter),
+							)
+							.order("desc")
+							.take(SEARCH_CANDIDATE_LIMIT),
+				)
+			: [];
+
+		const discussionItemsWithNulls = yield* Effect.all(
+			discussionCandidates.flat().map((discussion) =>
+				Effect.gen(function* () {
+					if (!matchesAllTokens(discussion.title, discussion.body)) return null;
+
+					const authorLogin = yield* resolveLoginByUserId(
+						discussion.authorUserId,
+					);
+					if (normalizedAuthor !== null) {
+						if (authorLogin === null) return null;
+						if (!matchesLoginAlias(authorLogin, normalizedAuthor)) return null;
+					}
+
+					const item: {
+						type: "discussion";
+						number: number;
+						state: "open" | "closed";
+						title: string;
+						authorLogin: string | null;
+						githubUpdatedAt: number;
+					} = {
+						type: "discussion",
+						number: discussion.number,
+						state: discussion.state,
+						title: discussion.title,
+						authorLogin,
+						githubUpdatedAt: discussion.githubUpdatedAt,
+					};
+					return item;
+				}),
+			),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+
+		const discussionItems = discussionItemsWithNulls.filter(
+			(item) => item !== null,
+		);
+
+		const merged = [...prItems, ...issueItems, ...discussionItems].sort(
 			(a, b) => b.githubUpdatedAt - a.githubUpdatedAt,
 		);
 		return merged.slice(0, maxResults);
@@ -1865,12 +2278,11 @@ searchIssuesAndPrsDef.implement((args) =>
 // -- Home dashboard implementation ------------------------------------------
 
 /**
- * Resolve the signed-in user's GitHub login from their better-auth identity.
+ * Resolve the signed-in user's numeric GitHub ID from their better-auth identity.
  *
  * Flow: identity.subject → account table (providerId=github) → accountId
- *       → github_users table → login
  */
-const resolveViewerGitHub = Effect.gen(function* () {
+const resolveViewerGitHubUserId = Effect.gen(function* () {
 	const ctx = yield* ConfectQueryCtx;
 
 	const identity = yield* ctx.auth.getUserIdentity();
@@ -1899,6 +2311,16 @@ const resolveViewerGitHub = Effect.gen(function* () {
 
 	const githubUserId = Number(account.accountId);
 	if (Number.isNaN(githubUserId)) return null;
+	return githubUserId;
+});
+
+/**
+ * Resolve the signed-in user's GitHub login: GitHub ID → github_users → login
+ */
+const resolveViewerGitHub = Effect.gen(function* () {
+	const ctx = yield* ConfectQueryCtx;
+	const githubUserId = yield* resolveViewerGitHubUserId;
+	if (githubUserId === null) return null;
 
 	// Look up the GitHub user profile from our synced table
 	const githubUser = yield* ctx.db
@@ -2063,38 +2485,287 @@ const resolveUser = (userId: number | null) =>
 		return { login: user.value.login, avatarUrl: user.value.avatarUrl };
 	});
 
-const hasPullPermission = (permission: {
-	readonly pull: boolean;
-	readonly triage: boolean;
-	readonly push: boolean;
-	readonly maintain: boolean;
-	readonly admin: boolean;
-}) =>
-	permission.pull ||
-	permission.triage ||
-	permission.push ||
-	permission.maintain ||
-	permission.admin;
-
-// -- Helper: find repo by owner/name and return repositoryId ----------------
-
-const findRepo = (_ownerLogin: string, _name: string) =>
-	Effect.gen(function* () {
-		const permission = yield* ReadGitHubRepoPermission;
-		if (!permission.isAllowed || permission.repository === null) {
-			return null;
-		}
+const resolveLogin = (userId: number) =>
+	resolveUser(userId).pipe(Effect.map((user) => user.login));
 
-		return permission.repository.repositoryId;
-	});
+// -- Helper: timeline events with actor / subject users resolved ------------
 
-getIssueDetailDef.implement((args) =>
+const resolveTimelineEvents = (repositoryId: number, issueNumber: number) =>
 	Effect.gen(function* () {
-		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
-		if (repositoryId === null) return null;
-
 		const ctx = yield* ConfectQueryCtx;
-
+		// Bounded like comments — 500 covers all but the longest-lived threads
+		const rawEvents = yield* ctx.db
+			.query("github_timeline_events")
+			.withIndex("by_repositoryId_and_issueNumber_and_createdAt", (q) =>
+				q.eq("repositoryId", repositoryId).eq("issueNumber", issueNumber),
+			)
+			.take(500);
+
+		return yield* Effect.all(
+			rawEvents.map((event) =>
+				Effect.gen(function* () {
+					const actor = yield* resolveUser(event.actorUserId);
+					const subjectUser = yield* resolveUser(event.subjectUserId);
+					return {
+						kind: "event" as const,
+						eventType: event.eventType,
+						actorLogin: actor.login,
+						actorAvatarUrl: actor.avatarUrl,
+						labelName: event.labelName,
+						labelColor: event.labelColor,
+						subjectLogin: subjectUser.login,
+						subjectTeamSlug: event.subjectTeamSlug ?? null,
+						milestoneTitle: event.milestoneTitle,
+						renameFrom: event.renameFrom,
+						renameTo: event.renameTo,
+						commitSha: event.commitSha,
+						beforeSha: event.beforeSha,
+						createdAt: event.createdAt,
+					};
+				}),
+			),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+	});
+
+const sortByCreatedAt = <T extends { readonly createdAt: number }>(
+	items: ReadonlyArray<T>,
+) => [...items].sort((a, b) => a.createdAt - b.createdAt);
+
+// -- Helper: cross-references into and out of an issue / PR -----------------
+
+const resolveLinkedItem = (repositoryId: number, number: number) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", number),
+			)
+			.first();
+		if (Option.isSome(pr)) {
+			return {
+				number,
+				title: pr.value.title,
+				state: pr.value.state,
+				isPullRequest: true,
+				merged: pr.value.mergedAt !== null,
+			};
+		}
+
+		const issue = yield* ctx.db
+			.query("github_issues")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", number),
+			)
+			.first();
+		if (Option.isNone(issue)) return null;
+		return {
+			number,
+			title: issue.value.title,
+			state: issue.value.state,
+			isPullRequest: false,
+			merged: false,
+		};
+	});
+
+/**
+ * Everything that references `number`, one entry per referencing issue/PR
+ * (its body and comments collapse together) or commit, oldest first.
+ */
+const resolveReferencedBy = (repositoryId: number, number: number) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const edges = yield* ctx.db
+			.query("github_issue_references")
+			.withIndex("by_repositoryId_and_targetNumber", (q) =>
+				q.eq("repositoryId", repositoryId).eq("targetNumber", number),
+			)
+			.take(200);
+
+		const bySource = new Map<string, (typeof edges)[number]>();
+		for (const edge of edges) {
+			const key =
+				edge.sourceNumber === null
+					? edge.sourceKey
+					: `number:${edge.sourceNumber}`;
+			const previous = bySource.get(key);
+			if (
+				previous === undefined ||
+				(edge.isClosing && !previous.isClosing) ||
+				(edge.isClosing === previous.isClosing &&
+					edge.createdAt < previous.createdAt)
+			) {
+				bySource.set(key, edge);
+			}
+		}
+
+		const references = yield* Effect.forEach(
+			[...bySource.values()],
+			(edge) =>
+				Effect.gen(function* () {
+					if (edge.sourceNumber !== null) {
+						const item = yield* resolveLinkedItem(
+							repositoryId,
+							edge.sourceNumber,
+						);
+						if (item === null) return null;
+						return {
+							item,
+							commitSha: null,
+							commitHeadline: null,
+							isClosing: edge.isClosing,
+							createdAt: edge.createdAt,
+						};
+					}
+					if (edge.commitSha === null) return null;
+					const commitSha = edge.commitSha;
+					const commit = yield* ctx.db
+						.query("github_commits")
+						.withIndex("by_repositoryId_and_sha", (q) =>
+							q.eq("repositoryId", repositoryId).eq("sha", commitSha),
+						)
+						.first();
+					return {
+						item: null,
+						commitSha,
+						commitHeadline: Option.isSome(commit)
+							? commit.value.messageHeadline
+							: null,
+						isClosing: edge.isClosing,
+						createdAt: edge.createdAt,
+					};
+				}),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+
+		return sortByCreatedAt(
+			references.filter((reference) => reference !== null),
+		);
+	});
+
+/** Issues and PRs that pull request `number` closes via its body. */
+const resolveClosedByPullRequest = (repositoryId: number, number: number) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const edges = yield* ctx.db
+			.query("github_issue_references")
+			.withIndex("by_repositoryId_and_sourceKey", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("sourceKey", referenceSourceKey("pull_request", number)),
+			)
+			.take(100);
+
+		const items = yield* Effect.forEach(
+			edges.filter((edge) => edge.isClosing),
+			(edge) => resolveLinkedItem(repositoryId, edge.targetNumber),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+		return items.filter((item) => item !== null);
+	});
+
+/** `linked` list filter: does the PR close anything? */
+const pullRequestHasClosingLink = (repositoryId: number) => (number: number) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const edges = yield* ctx.db
+			.query("github_issue_references")
+			.withIndex("by_repositoryId_and_sourceKey", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("sourceKey", referenceSourceKey("pull_request", number)),
+			)
+			.take(100);
+		return edges.some((edge) => edge.isClosing);
+	});
+
+/** `linked` list filter: does a PR close the issue? */
+const issueHasClosingLink = (repositoryId: number) => (number: number) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const edges = yield* ctx.db
+			.query("github_issue_references")
+			.withIndex("by_repositoryId_and_targetNumber", (q) =>
+				q.eq("repositoryId", repositoryId).eq("targetNumber", number),
+			)
+			.take(200);
+		return edges.some(
+			(edge) => edge.isClosing && edge.sourceType === "pull_request",
+		);
+	});
+
+// -- Helper: reaction rollup + the viewer's own reactions --------------------
+
+const resolveReactions = (
+	repositoryId: number,
+	subjectType: "issue" | "issue_comment" | "review_comment",
+	subjectId: number,
+	summary: ReactionSummary | null | undefined,
+	viewerGitHubUserId: number | null,
+) =>
+	Effect.gen(function* () {
+		const resolvedSummary = summary ?? EMPTY_REACTION_SUMMARY;
+		// Nothing to look up when nobody reacted
+		if (viewerGitHubUserId === null || resolvedSummary.totalCount === 0) {
+			return { summary: resolvedSummary, viewerReactions: [] };
+		}
+
+		const ctx = yield* ConfectQueryCtx;
+		const tracked = yield* ctx.db
+			.query("github_reactions")
+			.withIndex("by_repositoryId_and_subjectType_and_subjectId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("subjectType", subjectType)
+					.eq("subjectId", subjectId),
+			)
+			.collect();
+
+		return {
+			summary: resolvedSummary,
+			viewerReactions: tracked
+				.filter(
+					(reaction) =>
+						reaction.githubUserId === viewerGitHubUserId &&
+						isReactionCounted(reaction),
+				)
+				.map((reaction) => reaction.content),
+		};
+	});
+
+const hasPullPermission = (permission: {
+	readonly pull: boolean;
+	readonly triage: boolean;
+	readonly push: boolean;
+	readonly maintain: boolean;
+	readonly admin: boolean;
+}) =>
+	permission.pull ||
+	permission.triage ||
+	permission.push ||
+	permission.maintain ||
+	permission.admin;
+
+// -- Helper: find repo by owner/name and return repositoryId ----------------
+
+const findRepo = (_ownerLogin: string, _name: string) =>
+	Effect.gen(function* () {
+		const permission = yield* ReadGitHubRepoPermission;
+		if (!permission.isAllowed || permission.repository === null) {
+			return null;
+		}
+
+		return permission.repository.repositoryId;
+	});
+
+getIssueDetailDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return null;
+
+		const ctx = yield* ConfectQueryCtx;
+
 		// Get the issue
 		const issueOpt = yield* ctx.db
 			.query("github_issues")
@@ -2108,6 +2779,7 @@ getIssueDetailDef.implement((args) =>
 
 		// Resolve author
 		const author = yield* resolveUser(issue.authorUserId);
+		const viewerGitHubUserId = yield* resolveViewerGitHubUserId;
 
 		// Resolve assignees
 		const assignees = yield* Effect.all(
@@ -2138,6 +2810,13 @@ getIssueDetailDef.implement((args) =>
 			rawComments.map((c) =>
 				Effect.gen(function* () {
 					const commentAuthor = yield* resolveUser(c.authorUserId);
+					const reactions = yield* resolveReactions(
+						repositoryId,
+						"issue_comment",
+						c.githubCommentId,
+						c.reactions,
+						viewerGitHubUserId,
+					);
 					return {
 						githubCommentId: c.githubCommentId,
 						authorLogin: commentAuthor.login,
@@ -2145,12 +2824,34 @@ getIssueDetailDef.implement((args) =>
 						body: c.body,
 						createdAt: c.createdAt,
 						updatedAt: c.updatedAt,
+						reactions,
+						optimisticOperationType: c.optimisticOperationType ?? null,
+						optimisticState: c.optimisticState ?? null,
+						optimisticErrorMessage: c.optimisticErrorMessage ?? null,
 					};
 				}),
 			),
 			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
 		);
 
+		const reactions = yield* resolveReactions(
+			repositoryId,
+			"issue",
+			issue.number,
+			issue.reactions,
+			viewerGitHubUserId,
+		);
+
+		const timelineEvents = yield* resolveTimelineEvents(
+			repositoryId,
+			args.number,
+		);
+
+		// Closing references from PR bodies get their own panel
+		const references = yield* resolveReferencedBy(repositoryId, args.number);
+		const isClosingPullRequest = (reference: (typeof references)[number]) =>
+			reference.isClosing && reference.item?.isPullRequest === true;
+
 		return {
 			repositoryId,
 			number: issue.number,
@@ -2160,6 +2861,7 @@ getIssueDetailDef.implement((args) =>
 			optimisticErrorMessage: issue.optimisticErrorMessage ?? null,
 			title: issue.title,
 			body: issue.body,
+			locked: issue.locked ?? false,
 			authorLogin: author.login,
 			authorAvatarUrl: author.avatarUrl,
 			assignees: resolvedAssignees,
@@ -2167,7 +2869,25 @@ getIssueDetailDef.implement((args) =>
 			commentCount: issue.commentCount,
 			closedAt: issue.closedAt,
 			githubUpdatedAt: issue.githubUpdatedAt,
+			reactions,
 			comments,
+			timelineBackfilledAt: issue.timelineBackfilledAt ?? null,
+			timeline: sortByCreatedAt([
+				...comments.map((c) => ({
+					kind: "comment" as const,
+					githubCommentId: c.githubCommentId,
+					createdAt: c.createdAt,
+				})),
+				...timelineEvents,
+			]),
+			linkedPullRequests: references.flatMap((reference) =>
+				isClosingPullRequest(reference) && reference.item !== null
+					? [reference.item]
+					: [],
+			),
+			referencedBy: references.filter(
+				(reference) => !isClosingPullRequest(reference),
+			),
 		};
 	}),
 );
@@ -2192,6 +2912,7 @@ getPullRequestDetailDef.implement((args) =>
 
 		// Resolve author
 		const author = yield* resolveUser(pr.authorUserId);
+		const viewerGitHubUserId = yield* resolveViewerGitHubUserId;
 
 		// Resolve assignees
 		const prAssignees = yield* Effect.all(
@@ -2209,6 +2930,28 @@ getPullRequestDetailDef.implement((args) =>
 			(a): a is { login: string; avatarUrl: string | null } => a !== null,
 		);
 
+		// Resolve requested reviewers (users by login, teams by slug)
+		const requestedReviewers = yield* Effect.all(
+			pr.requestedReviewerUserIds.map((uid) =>
+				Effect.gen(function* () {
+					const u = yield* resolveUser(uid);
+					return u.login !== null
+						? { login: u.login, avatarUrl: u.avatarUrl }
+						: null;
+				}),
+			),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+		const requestedTeams = yield* Effect.forEach(
+			pr.requestedReviewerTeamIds ?? [],
+			(teamId) =>
+				ctx.db
+					.query("github_teams")
+					.withIndex("by_githubTeamId", (q) => q.eq("githubTeamId", teamId))
+					.first(),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+
 		// Get comments (bounded — a PR rarely has >500 comments)
 		const rawComments = yield* ctx.db
 			.query("github_issue_comments")
@@ -2221,6 +2964,13 @@ getPullRequestDetailDef.implement((args) =>
 			rawComments.map((c) =>
 				Effect.gen(function* () {
 					const commentAuthor = yield* resolveUser(c.authorUserId);
+					const reactions = yield* resolveReactions(
+						repositoryId,
+						"issue_comment",
+						c.githubCommentId,
+						c.reactions,
+						viewerGitHubUserId,
+					);
 					return {
 						githubCommentId: c.githubCommentId,
 						authorLogin: commentAuthor.login,
@@ -2228,6 +2978,10 @@ getPullRequestDetailDef.implement((args) =>
 						body: c.body,
 						createdAt: c.createdAt,
 						updatedAt: c.updatedAt,
+						reactions,
+						optimisticOperationType: c.optimisticOperationType ?? null,
+						optimisticState: c.optimisticState ?? null,
+						optimisticErrorMessage: c.optimisticErrorMessage ?? null,
 					};
 				}),
 			),
@@ -2272,6 +3026,13 @@ getPullRequestDetailDef.implement((args) =>
 			rawReviewComments.map((r) =>
 				Effect.gen(function* () {
 					const reviewCommentAuthor = yield* resolveUser(r.authorUserId);
+					const reactions = yield* resolveReactions(
+						repositoryId,
+						"review_comment",
+						r.githubReviewCommentId,
+						r.reactions,
+						viewerGitHubUserId,
+					);
 					return {
 						githubReviewCommentId: r.githubReviewCommentId,
 						githubReviewId: r.githubReviewId,
@@ -2287,19 +3048,39 @@ getPullRequestDetailDef.implement((args) =>
 						htmlUrl: r.htmlUrl,
 						createdAt: r.createdAt,
 						updatedAt: r.updatedAt,
+						reactions,
+						optimisticOperationType: r.optimisticOperationType ?? null,
+						optimisticState: r.optimisticState ?? null,
+						optimisticErrorMessage: r.optimisticErrorMessage ?? null,
 					};
 				}),
 			),
 			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
 		);
 
-		// Get check runs for this PR's head SHA (bounded)
+		const timelineEvents = yield* resolveTimelineEvents(
+			repositoryId,
+			args.number,
+		);
+		const linkedIssues = yield* resolveClosedByPullRequest(
+			repositoryId,
+			args.number,
+		);
+		const referencedBy = yield* resolveReferencedBy(repositoryId, args.number);
+
+		// Get check runs and commit statuses for this PR's head SHA (bounded)
 		const checkRuns = yield* ctx.db
 			.query("github_check_runs")
 			.withIndex("by_repositoryId_and_headSha", (q) =>
 				q.eq("repositoryId", repositoryId).eq("headSha", pr.headSha),
 			)
 			.take(200);
+		const commitStatuses = yield* ctx.db
+			.query("github_commit_statuses")
+			.withIndex("by_repositoryId_and_sha_and_context", (q) =>
+				q.eq("repositoryId", repositoryId).eq("sha", pr.headSha),
+			)
+			.take(200);
 
 		const workflowRunsForHead = yield* ctx.db
 			.query("github_workflow_runs")
@@ -2360,9 +3141,18 @@ getPullRequestDetailDef.implement((args) =>
 			draft: pr.draft,
 			title: pr.title,
 			body: pr.body,
+			locked: pr.locked ?? false,
 			authorLogin: author.login,
 			authorAvatarUrl: author.avatarUrl,
 			assignees: resolvedPrAssignees,
+			requestedReviewers: requestedReviewers.filter(
+				(r): r is { login: string; avatarUrl: string | null } => r !== null,
+			),
+			requestedTeams: requestedTeams.flatMap((team) =>
+				Option.isSome(team)
+					? [{ slug: team.value.slug, name: team.value.name }]
+					: [],
+			),
 			labelNames: [...(pr.labelNames ?? [])],
 			headRefName: pr.headRefName,
 			baseRefName: pr.baseRefName,
@@ -2374,15 +3164,52 @@ getPullRequestDetailDef.implement((args) =>
 			comments,
 			reviews,
 			reviewComments,
-			checkRuns: checkRuns.map((cr) => ({
-				githubCheckRunId: cr.githubCheckRunId,
-				name: cr.name,
-				status: cr.status,
-				conclusion: cr.conclusion,
-				startedAt: cr.startedAt,
-				completedAt: cr.completedAt,
-				runNumber: runNumberByJobName.get(cr.name) ?? latestRunNumberForHead,
-			})),
+			checkRuns: [
+				...checkRuns.map((cr) => ({
+					source: "check_run" as const,
+					githubCheckRunId: cr.githubCheckRunId,
+					name: cr.name,
+					status: cr.status,
+					conclusion: cr.conclusion,
+					startedAt: cr.startedAt,
+					completedAt: cr.completedAt,
+					runNumber: runNumberByJobName.get(cr.name) ?? latestRunNumberForHead,
+					detailsUrl: null,
+				})),
+				...commitStatuses.map((status) => ({
+					source: "status" as const,
+					githubCheckRunId: status.githubStatusId,
+					name: status.context,
+					...commitStatusAsCheck(status.state),
+					startedAt: status.createdAt,
+					completedAt: status.state === "pending" ? null : status.updatedAt,
+					runNumber: null,
+					detailsUrl: status.targetUrl,
+				})),
+			],
+			timeline: sortByCreatedAt([
+				...comments.map((c) => ({
+					kind: "comment" as const,
+					githubCommentId: c.githubCommentId,
+					createdAt: c.createdAt,
+				})),
+				// Pending reviews have no submission time and stay off the timeline
+				...reviews.flatMap((r) =>
+					r.submittedAt === null
+						? []
+						: [
+								{
+									kind: "review" as const,
+									githubReviewId: r.githubReviewId,
+									createdAt: r.submittedAt,
+								},
+							],
+				),
+				...timelineEvents,
+			]),
+			timelineBackfilledAt: pr.timelineBackfilledAt ?? null,
+			linkedIssues,
+			referencedBy,
 		};
 	}),
 );
@@ -2517,10 +3344,114 @@ requestPrFileSyncDef.implement((args) =>
 	}),
 );
 
+/** How long a scheduled annotation sync holds off repeat requests */
+const ANNOTATION_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+requestCheckAnnotationSyncDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const permission = yield* ReadGitHubRepoPermission;
+		if (!permission.isAllowed || permission.repository === null) {
+			return { scheduled: false };
+		}
+
+		const repositoryId = permission.repository.repositoryId;
+		const installationId = permission.repository.installationId;
+		if (installationId <= 0) return { scheduled: false };
+
+		const prOpt = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", args.number),
+			)
+			.first();
+
+		if (Option.isNone(prOpt)) return { scheduled: false };
+
+		const headSha = prOpt.value.headSha;
+		if (headSha === "") return { scheduled: false };
+
+		const checkRuns = yield* ctx.db
+			.query("github_check_runs")
+			.withIndex("by_repositoryId_and_headSha", (q) =>
+				q.eq("repositoryId", repositoryId).eq("headSha", headSha),
+			)
+			.take(200);
+
+		// Runs mirrored before annotation counts were tracked have no count — fetch those too.
+		// A request that never completed is retried once it goes stale.
+		const now = Date.now();
+		const uncached = checkRuns.filter(
+			(cr) =>
+				isFailingConclusion(cr.conclusion) &&
+				cr.annotationsCount !== 0 &&
+				(cr.annotationsFetchedAt ?? null) === null &&
+				now - (cr.annotationsRequestedAt ?? 0) > ANNOTATION_REQUEST_TIMEOUT_MS,
+		);
+
+		if (uncached.length === 0) return { scheduled: false };
+
+		for (const cr of uncached) {
+			yield* ctx.db.patch(cr._id, { annotationsRequestedAt: now });
+		}
+
+		yield* Effect.promise(() =>
+			ctx.scheduler.runAfter(
+				0,
+				internal.rpc.githubActions.syncCheckAnnotations,
+				{
+					ownerLogin: args.ownerLogin,
+					name: args.name,
+					repositoryId,
+					headSha,
+					installationId,
+					checkRuns: uncached.map((cr) => ({
+						githubCheckRunId: cr.githubCheckRunId,
+						name: cr.name,
+					})),
+				},
+			),
+		);
+
+		return { scheduled: true };
+	}),
+);
+
+const CHECK_ANNOTATIONS_RESULT_LIMIT = 500;
+
+listCheckAnnotationsDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const annotations = yield* ctx.db
+			.query("github_check_annotations")
+			.withIndex("by_repositoryId_and_headSha_and_path", (q) =>
+				q.eq("repositoryId", repositoryId).eq("headSha", args.headSha),
+			)
+			.take(CHECK_ANNOTATIONS_RESULT_LIMIT);
+
+		return annotations.map((a) => ({
+			githubCheckRunId: a.githubCheckRunId,
+			checkRunName: a.checkRunName,
+			path: a.path,
+			startLine: a.startLine,
+			endLine: a.endLine,
+			annotationLevel: a.annotationLevel,
+			title: a.title,
+			message: a.message,
+		}));
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Paginated list implementations
 // ---------------------------------------------------------------------------
 
+/** States a filtered list reads when none is given, in index (desc) order */
+const LIST_STATES: ReadonlyArray<"open" | "closed"> = ["open", "closed"];
+
 listPullRequestsPaginatedDef.implement((args) =>
 	Effect.gen(function* () {
 		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
@@ -2538,14 +3469,57 @@ listPullRequestsPaginatedDef.implement((args) =>
 			numItems: args.numItems,
 		};
 
-		const state = args.state;
+		const state = args.state === "merged" ? "closed" : args.state;
+		const updatedAfter = args.updatedAfter;
+
+		const filter = makeListFilter(
+			{ ...args, mergedOnly: args.state === "merged" },
+			resolveLogin,
+			pullRequestHasClosingLink(repositoryId),
+		);
+		if (!filter.isEmpty) {
+			const states = state !== undefined ? [state] : LIST_STATES;
+			const segments = states.map(
+				(segmentState): ListScanSegment<Doc<"github_pull_requests">> =>
+					(range) =>
+						ctx.db
+							.query("github_pull_requests")
+							.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+								range(
+									q.eq("repositoryId", repositoryId).eq("state", segmentState),
+								),
+							)
+							.order("desc")
+							.stream(),
+			);
+			const result = yield* paginateFilteredList(
+				paginationOpts,
+				segments,
+				filter.matches,
+				updatedAfter,
+			);
+			const page = yield* Effect.all(result.page.map(enrichPr), {
+				concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT,
+			});
+			return {
+				page,
+				isDone: result.isDone,
+				continueCursor: Cursor.make(result.continueCursor),
+			};
+		}
+
 		const query =
 			state !== undefined
 				? ctx.db
 						.query("github_pull_requests")
-						.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
-							q.eq("repositoryId", repositoryId).eq("state", state),
-						)
+						.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) => {
+							const byState = q
+								.eq("repositoryId", repositoryId)
+								.eq("state", state);
+							return updatedAfter !== undefined
+								? byState.gte("githubUpdatedAt", updatedAfter)
+								: byState;
+						})
 						.order("desc")
 				: ctx.db
 						.query("github_pull_requests")
@@ -2586,20 +3560,101 @@ listIssuesPaginatedDef.implement((args) =>
 		};
 
 		const state = args.state;
-		const query =
-			state !== undefined
-				? ctx.db
-						.query("github_issues")
-						.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
-							q.eq("repositoryId", repositoryId).eq("state", state),
-						)
-						.order("desc")
-				: ctx.db
+		const milestoneNumber = args.milestoneNumber;
+		const updatedAfter = args.updatedAfter;
+
+		const filter = makeListFilter(
+			args,
+			resolveLogin,
+			issueHasClosingLink(repositoryId),
+		);
+		if (!filter.isEmpty) {
+			const states = state !== undefined ? [state] : LIST_STATES;
+			const segments = states.map(
+				(segmentState): ListScanSegment<Doc<"github_issues">> =>
+					(range) =>
+						milestoneNumber !== undefined
+							? ctx.db
+									.query("github_issues")
+									.withIndex(
+										"by_repositoryId_and_milestoneNumber_and_state_and_githubUpdatedAt",
+										(q) =>
+											range(
+												q
+													.eq("repositoryId", repositoryId)
+													.eq("milestoneNumber", milestoneNumber)
+													.eq("state", segmentState),
+											),
+									)
+									.order("desc")
+									.stream()
+							: ctx.db
+									.query("github_issues")
+									.withIndex(
+										"by_repositoryId_and_state_and_githubUpdatedAt",
+										(q) =>
+											range(
+												q
+													.eq("repositoryId", repositoryId)
+													.eq("state", segmentState),
+											),
+									)
+									.order("desc")
+									.stream(),
+			);
+			const result = yield* paginateFilteredList(
+				paginationOpts,
+				segments,
+				filter.matches,
+				updatedAfter,
+			);
+			const page = yield* Effect.all(result.page.map(enrichIssue), {
+				concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT,
+			});
+			return {
+				page,
+				isDone: result.isDone,
+				continueCursor: Cursor.make(result.continueCursor),
+			};
+		}
+
+		const query =
+			milestoneNumber !== undefined
+				? ctx.db
 						.query("github_issues")
-						.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
-							q.eq("repositoryId", repositoryId),
+						.withIndex(
+							"by_repositoryId_and_milestoneNumber_and_state_and_githubUpdatedAt",
+							(q) => {
+								const byMilestone = q
+									.eq("repositoryId", repositoryId)
+									.eq("milestoneNumber", milestoneNumber);
+								return state !== undefined
+									? byMilestone.eq("state", state)
+									: byMilestone;
+							},
 						)
-						.order("desc");
+						.order("desc")
+				: state !== undefined
+					? ctx.db
+							.query("github_issues")
+							.withIndex(
+								"by_repositoryId_and_state_and_githubUpdatedAt",
+								(q) => {
+									const byState = q
+										.eq("repositoryId", repositoryId)
+										.eq("state", state);
+									return updatedAfter !== undefined
+										? byState.gte("githubUpdatedAt", updatedAfter)
+										: byState;
+								},
+							)
+							.order("desc")
+					: ctx.db
+							.query("github_issues")
+							.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+								q.eq("repositoryId", repositoryId),
+							)
+							.order("desc");
 
 		const result = yield* query.paginate(paginationOpts);
 
@@ -2836,26 +3891,34 @@ getWorkflowRunDetailDef.implement((args) =>
 );
 
 // ---------------------------------------------------------------------------
-// List distinct labels for a repository (aggregated from issues + PRs)
+// List the label catalog for a repository
 // ---------------------------------------------------------------------------
 
+const RepoLabel = Schema.Struct({
+	name: Schema.String,
+	/** 6-character hex code without `#`, or null for labels not yet synced */
+	color: Schema.NullOr(Schema.String),
+	description: Schema.NullOr(Schema.String),
+});
+
 const listRepoLabelsDef = factory
 	.query({
 		payload: {
 			ownerLogin: Schema.String,
 			name: Schema.String,
 		},
-		success: Schema.Array(Schema.String),
+		success: Schema.Array(RepoLabel),
 	})
 	.middleware(ReadGitHubRepoByNameMiddleware);
 
 const REPO_LABEL_SCAN_LIMIT_PER_STATE = 400;
 
-listRepoLabelsDef.implement((args) =>
+/**
+ * Label names used by recent issues and PRs. Only used for repositories
+ * whose label catalog hasn't been synced yet.
+ */
+const collectUsedLabelNames = (repositoryId: number) =>
 	Effect.gen(function* () {
-		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
-		if (repositoryId === null) return [];
-
 		const ctx = yield* ConfectQueryCtx;
 		const labelSet = new Set<string>();
 
@@ -2909,6 +3972,376 @@ listRepoLabelsDef.implement((args) =>
 		}
 
 		return [...labelSet].sort();
+	});
+
+listRepoLabelsDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const labels = yield* ctx.db
+			.query("github_labels")
+			.withIndex("by_repositoryId_and_name", (q) =>
+				q.eq("repositoryId", repositoryId),
+			)
+			.collect();
+
+		if (labels.length === 0) {
+			const names = yield* collectUsedLabelNames(repositoryId);
+			return names.map((name) => ({ name, color: null, description: null }));
+		}
+
+		return labels.map((label) => ({
+			name: label.name,
+			color: label.color,
+			description: label.description,
+		}));
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// List milestones for a repository with progress counts
+// ---------------------------------------------------------------------------
+
+const MilestoneListItem = Schema.Struct({
+	number: Schema.Number,
+	title: Schema.String,
+	description: Schema.NullOr(Schema.String),
+	state: Schema.Literal("open", "closed"),
+	openIssueCount: Schema.Number,
+	closedIssueCount: Schema.Number,
+	/** closed / (open + closed), 0 when the milestone is empty */
+	progressPercent: Schema.Number,
+	dueOn: Schema.NullOr(Schema.Number),
+	closedAt: Schema.NullOr(Schema.Number),
+	githubUpdatedAt: Schema.Number,
+});
+
+const listMilestonesDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			state: Schema.optional(Schema.Literal("open", "closed")),
+		},
+		success: Schema.Array(MilestoneListItem),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+const REPO_MILESTONE_LIST_LIMIT = 200;
+
+listMilestonesDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const state = args.state;
+		const milestones = yield* ctx.db
+			.query("github_milestones")
+			.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+				state !== undefined
+					? q.eq("repositoryId", repositoryId).eq("state", state)
+					: q.eq("repositoryId", repositoryId),
+			)
+			.order("desc")
+			.take(REPO_MILESTONE_LIST_LIMIT);
+
+		// Match GitHub's default ordering: soonest due date first, undated last
+		return milestones
+			.map((m) => {
+				const total = m.openIssueCount + m.closedIssueCount;
+				return {
+					number: m.number,
+					title: m.title,
+					description: m.description,
+					state: m.state,
+					openIssueCount: m.openIssueCount,
+					closedIssueCount: m.closedIssueCount,
+					progressPercent:
+						total === 0 ? 0 : Math.round((m.closedIssueCount / total) * 100),
+					dueOn: m.dueOn,
+					closedAt: m.closedAt,
+					githubUpdatedAt: m.githubUpdatedAt,
+				};
+			})
+			.sort(
+				(a, b) =>
+					(a.dueOn ?? Number.POSITIVE_INFINITY) -
+						(b.dueOn ?? Number.POSITIVE_INFINITY) || a.number - b.number,
+			);
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// List published releases for a repository (newest first)
+// ---------------------------------------------------------------------------
+
+const ReleaseListItem = Schema.Struct({
+	githubReleaseId: Schema.Number,
+	tagName: Schema.String,
+	name: Schema.NullOr(Schema.String),
+	body: Schema.NullOr(Schema.String),
+	prerelease: Schema.Boolean,
+	authorLogin: Schema.NullOr(Schema.String),
+	authorAvatarUrl: Schema.NullOr(Schema.String),
+	targetCommitish: Schema.String,
+	tagSha: Schema.NullOr(Schema.String),
+	htmlUrl: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+	publishedAt: Schema.NullOr(Schema.Number),
+});
+
+const listReleasesDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+		},
+		success: Schema.Array(ReleaseListItem),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+const REPO_RELEASE_LIST_LIMIT = 50;
+
+getCommitCiRollupDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return null;
+
+		return yield* loadCiRollup(repositoryId, args.sha);
+	}),
+);
+
+listReleasesDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const releases = yield* ctx.db
+			.query("github_releases")
+			.withIndex("by_repositoryId_and_createdAt", (q) =>
+				q.eq("repositoryId", repositoryId),
+			)
+			.order("desc")
+			.take(REPO_RELEASE_LIST_LIMIT);
+
+		// Drafts are only visible to maintainers on GitHub — keep them hidden here
+		return yield* Effect.forEach(
+			releases.filter((r) => !r.draft),
+			(release) =>
+				Effect.gen(function* () {
+					const author = yield* resolveUser(release.authorUserId);
+					const tag = yield* ctx.db
+						.query("github_tags")
+						.withIndex("by_repositoryId_and_name", (q) =>
+							q.eq("repositoryId", repositoryId).eq("name", release.tagName),
+						)
+						.first();
+					return {
+						githubReleaseId: release.githubReleaseId,
+						tagName: release.tagName,
+						name: release.name,
+						body: release.body,
+						prerelease: release.prerelease,
+						authorLogin: author.login,
+						authorAvatarUrl: author.avatarUrl,
+						targetCommitish: release.targetCommitish,
+						tagSha: Option.isSome(tag) ? tag.value.sha : null,
+						htmlUrl: release.htmlUrl,
+						createdAt: release.createdAt,
+						publishedAt: release.publishedAt,
+					};
+				}),
+		);
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// Discussions — list (recently updated first) and detail with threaded comments
+// ---------------------------------------------------------------------------
+
+const DiscussionListItem = Schema.Struct({
+	number: Schema.Number,
+	state: Schema.Literal("open", "closed"),
+	title: Schema.String,
+	authorLogin: Schema.NullOr(Schema.String),
+	authorAvatarUrl: Schema.NullOr(Schema.String),
+	categoryName: Schema.NullOr(Schema.String),
+	isAnswered: Schema.Boolean,
+	commentCount: Schema.Number,
+	upvoteCount: Schema.Number,
+	githubUpdatedAt: Schema.Number,
+});
+
+const listDiscussionsDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			state: Schema.optional(Schema.Literal("open", "closed")),
+		},
+		success: Schema.Array(DiscussionListItem),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+const DiscussionCommentSchema = Schema.Struct({
+	githubCommentId: Schema.Number,
+	/** Top-level comment this is a reply to, null for top-level comments */
+	parentCommentId: Schema.NullOr(Schema.Number),
+	authorLogin: Schema.NullOr(Schema.String),
+	authorAvatarUrl: Schema.NullOr(Schema.String),
+	body: Schema.String,
+	upvoteCount: Schema.Number,
+	isAnswer: Schema.Boolean,
+	createdAt: Schema.Number,
+});
+
+const getDiscussionDetailDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			number: Schema.Number,
+		},
+		success: Schema.NullOr(
+			Schema.Struct({
+				repositoryId: Schema.Number,
+				number: Schema.Number,
+				state: Schema.Literal("open", "closed"),
+				stateReason: Schema.NullOr(Schema.String),
+				title: Schema.String,
+				body: Schema.NullOr(Schema.String),
+				authorLogin: Schema.NullOr(Schema.String),
+				authorAvatarUrl: Schema.NullOr(Schema.String),
+				categoryName: Schema.NullOr(Schema.String),
+				categoryIsAnswerable: Schema.Boolean,
+				locked: Schema.Boolean,
+				upvoteCount: Schema.Number,
+				commentCount: Schema.Number,
+				htmlUrl: Schema.NullOr(Schema.String),
+				createdAt: Schema.Number,
+				closedAt: Schema.NullOr(Schema.Number),
+				githubUpdatedAt: Schema.Number,
+				comments: Schema.Array(DiscussionCommentSchema),
+			}),
+		),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+const REPO_DISCUSSION_LIST_LIMIT = 100;
+
+listDiscussionsDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const states: ReadonlyArray<"open" | "closed"> =
+			args.state === undefined ? ["open", "closed"] : [args.state];
+		const perState = yield* Effect.forEach(states, (state) =>
+			ctx.db
+				.query("github_discussions")
+				.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+					q.eq("repositoryId", repositoryId).eq("state", state),
+				)
+				.order("desc")
+				.take(REPO_DISCUSSION_LIST_LIMIT),
+		);
+		const discussions = perState
+			.flat()
+			.sort((a, b) => b.githubUpdatedAt - a.githubUpdatedAt)
+			.slice(0, REPO_DISCUSSION_LIST_LIMIT);
+
+		return yield* Effect.forEach(
+			discussions,
+			(discussion) =>
+				Effect.gen(function* () {
+					const author = yield* resolveUser(discussion.authorUserId);
+					return {
+						number: discussion.number,
+						state: discussion.state,
+						title: discussion.title,
+						authorLogin: author.login,
+						authorAvatarUrl: author.avatarUrl,
+						categoryName: discussion.categoryName,
+						isAnswered: discussion.answerCommentId !== null,
+						commentCount: discussion.commentCount,
+						upvoteCount: discussion.upvoteCount,
+						githubUpdatedAt: discussion.githubUpdatedAt,
+					};
+				}),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+	}),
+);
+
+getDiscussionDetailDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return null;
+
+		const ctx = yield* ConfectQueryCtx;
+		const discussionOpt = yield* ctx.db
+			.query("github_discussions")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", args.number),
+			)
+			.first();
+
+		if (Option.isNone(discussionOpt)) return null;
+		const discussion = discussionOpt.value;
+		const author = yield* resolveUser(discussion.authorUserId);
+
+		// Bounded like issue comments — replies are included in the same list
+		const rawComments = yield* ctx.db
+			.query("github_discussion_comments")
+			.withIndex("by_repositoryId_and_discussionNumber", (q) =>
+				q.eq("repositoryId", repositoryId).eq("discussionNumber", args.number),
+			)
+			.take(500);
+
+		const comments = yield* Effect.forEach(
+			[...rawComments].sort((a, b) => a.createdAt - b.createdAt),
+			(comment) =>
+				Effect.gen(function* () {
+					const commentAuthor = yield* resolveUser(comment.authorUserId);
+					return {
+						githubCommentId: comment.githubCommentId,
+						parentCommentId: comment.parentCommentId,
+						authorLogin: commentAuthor.login,
+						authorAvatarUrl: commentAuthor.avatarUrl,
+						body: comment.body,
+						upvoteCount: comment.upvoteCount,
+						isAnswer: comment.githubCommentId === discussion.answerCommentId,
+						createdAt: comment.createdAt,
+					};
+				}),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+
+		return {
+			repositoryId,
+			number: discussion.number,
+			state: discussion.state,
+			stateReason: discussion.stateReason,
+			title: discussion.title,
+			body: discussion.body,
+			authorLogin: author.login,
+			authorAvatarUrl: author.avatarUrl,
+			categoryName: discussion.categoryName,
+			categoryIsAnswerable: discussion.categoryIsAnswerable,
+			locked: discussion.locked,
+			upvoteCount: discussion.upvoteCount,
+			commentCount: discussion.commentCount,
+			htmlUrl: discussion.htmlUrl,
+			createdAt: discussion.createdAt,
+			closedAt: discussion.closedAt,
+			githubUpdatedAt: discussion.githubUpdatedAt,
+			comments,
+		};
 	}),
 );
 
@@ -2980,6 +4413,237 @@ listRepoAssigneesDef.implement((args) =>
 	}),
 );
 
+// ---------------------------------------------------------------------------
+// List branches for the compare view's base/head pickers
+// ---------------------------------------------------------------------------
+
+const BranchListItem = Schema.Struct({
+	name: Schema.String,
+	headSha: Schema.String,
+	protected: Schema.Boolean,
+	isDefault: Schema.Boolean,
+});
+
+const listBranchesDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+		},
+		success: Schema.Array(BranchListItem),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+listBranchesDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) => q.eq("githubRepoId", repositoryId))
+			.first();
+		const defaultBranch = Option.isSome(repo) ? repo.value.defaultBranch : null;
+
+		const branches = yield* ctx.db
+			.query("github_branches")
+			.withIndex("by_repositoryId_and_name", (q) =>
+				q.eq("repositoryId", repositoryId),
+			)
+			.collect();
+
+		// Default branch first, then alphabetical (the index order)
+		return branches
+			.map((branch) => ({
+				name: branch.name,
+				headSha: branch.headSha,
+				protected: branch.protected,
+				isDefault: branch.name === defaultBranch,
+			}))
+			.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// Review requests — teams and suggested reviewers for the PR sidebar
+// ---------------------------------------------------------------------------
+
+const RepoTeamSchema = Schema.Struct({
+	slug: Schema.String,
+	name: Schema.String,
+	description: Schema.NullOr(Schema.String),
+});
+
+/**
+ * Teams of the repository's organization that have been seen on review
+ * requests. Personal repositories have no teams.
+ */
+const listRepoTeamsDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+		},
+		success: Schema.Array(RepoTeamSchema),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+listRepoTeamsDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) => q.eq("githubRepoId", repositoryId))
+			.first();
+		if (Option.isNone(repo)) return [];
+
+		const teams = yield* ctx.db
+			.query("github_teams")
+			.withIndex("by_orgLogin_and_slug", (q) =>
+				q.eq("orgLogin", repo.value.ownerLogin),
+			)
+			.take(200);
+
+		return teams.map((team) => ({
+			slug: team.slug,
+			name: team.name,
+			description: team.description,
+		}));
+	}),
+);
+
+const MAX_SUGGESTION_FILES = 50;
+const MAX_PRS_PER_FILE = 30;
+const MAX_REVIEWER_SUGGESTIONS = 5;
+
+const ReviewerSuggestionSchema = Schema.Struct({
+	login: Schema.String,
+	avatarUrl: Schema.NullOr(Schema.String),
+	/** How many of this PR's changed files the user has touched before */
+	fileCount: Schema.Number,
+});
+
+/**
+ * Suggest reviewers for a pull request: authors of other PRs that changed
+ * the same files, ranked by how many of those files they touched. Only PRs
+ * whose file lists have been synced are considered.
+ */
+const listReviewerSuggestionsDef = factory
+	.query({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			number: Schema.Number,
+		},
+		success: Schema.Array(ReviewerSuggestionSchema),
+	})
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+listReviewerSuggestionsDef.implement((args) =>
+	Effect.gen(function* () {
+		const repositoryId = yield* findRepo(args.ownerLogin, args.name);
+		if (repositoryId === null) return [];
+
+		const ctx = yield* ConfectQueryCtx;
+		const pr = yield* ctx.db
+			.query("github_pull_requests")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", args.number),
+			)
+			.first();
+		if (Option.isNone(pr)) return [];
+
+		const files = yield* ctx.db
+			.query("github_pull_request_files")
+			.withIndex("by_repositoryId_and_pullRequestNumber_and_headSha", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("pullRequestNumber", args.number)
+					.eq("headSha", pr.value.headSha),
+			)
+			.take(MAX_SUGGESTION_FILES);
+
+		// PR number → the changed files it also touched
+		const filesByPrNumber = new Map<number, Set<string>>();
+		const touchingFiles = yield* Effect.forEach(
+			files,
+			(file) =>
+				ctx.db
+					.query("github_pull_request_files")
+					.withIndex("by_repositoryId_and_filename", (q) =>
+						q.eq("repositoryId", repositoryId).eq("filename", file.filename),
+					)
+					.take(MAX_PRS_PER_FILE),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+		for (const touching of touchingFiles.flat()) {
+			if (touching.pullRequestNumber === args.number) continue;
+			const touched = filesByPrNumber.get(touching.pullRequestNumber);
+			if (touched === undefined) {
+				filesByPrNumber.set(
+					touching.pullRequestNumber,
+					new Set([touching.filename]),
+				);
+			} else {
+				touched.add(touching.filename);
+			}
+		}
+
+		const otherPrs = yield* Effect.forEach(
+			[...filesByPrNumber.keys()],
+			(prNumber) =>
+				ctx.db
+					.query("github_pull_requests")
+					.withIndex("by_repositoryId_and_number", (q) =>
+						q.eq("repositoryId", repositoryId).eq("number", prNumber),
+					)
+					.first(),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+
+		// Author → distinct changed files they have touched
+		const filesByAuthor = new Map<number, Set<string>>();
+		for (const otherPr of otherPrs) {
+			if (Option.isNone(otherPr)) continue;
+			const authorUserId = otherPr.value.authorUserId;
+			if (authorUserId === null || authorUserId === pr.value.authorUserId) {
+				continue;
+			}
+			const authorFiles = filesByAuthor.get(authorUserId) ?? new Set<string>();
+			for (const filename of filesByPrNumber.get(otherPr.value.number) ?? []) {
+				authorFiles.add(filename);
+			}
+			filesByAuthor.set(authorUserId, authorFiles);
+		}
+
+		const suggestions = yield* Effect.forEach(
+			[...filesByAuthor.entries()],
+			([authorUserId, authorFiles]) =>
+				Effect.map(resolveUser(authorUserId), (user) =>
+					user.login === null
+						? null
+						: {
+								login: user.login,
+								avatarUrl: user.avatarUrl,
+								fileCount: authorFiles.size,
+							},
+				),
+			{ concurrency: QUERY_ENRICH_CONCURRENCY_LIMIT },
+		);
+
+		return suggestions
+			.filter((suggestion) => suggestion !== null)
+			.sort(
+				(a, b) => b.fileCount - a.fileCount || a.login.localeCompare(b.login),
+			)
+			.slice(0, MAX_REVIEWER_SUGGESTIONS);
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Module
 // ---------------------------------------------------------------------------
@@ -2990,6 +4654,7 @@ const projectionQueriesModule = makeRpcModule(
 		searchRepos: searchReposDef,
 		getRepoOverview: getRepoOverviewDef,
 		getSyncProgress: getSyncProgressDef,
+		resolveRepoRedirect: resolveRepoRedirectDef,
 		listPullRequests: listPullRequestsDef,
 		listIssues: listIssuesDef,
 		listActivity: listActivityDef,
@@ -3000,13 +4665,23 @@ const projectionQueriesModule = makeRpcModule(
 		listWorkflowRunsPaginated: listWorkflowRunsPaginatedDef,
 		getIssueDetail: getIssueDetailDef,
 		getPullRequestDetail: getPullRequestDetailDef,
+		getCommitCiRollup: getCommitCiRollupDef,
 		getWorkflowRunDetail: getWorkflowRunDetailDef,
 		listPrFiles: listPrFilesDef,
 		requestPrFileSync: requestPrFileSyncDef,
+		requestCheckAnnotationSync: requestCheckAnnotationSyncDef,
+		listCheckAnnotations: listCheckAnnotationsDef,
 		getHomeDashboard: getHomeDashboardDef,
 		searchIssuesAndPrs: searchIssuesAndPrsDef,
 		listRepoLabels: listRepoLabelsDef,
 		listRepoAssignees: listRepoAssigneesDef,
+		listMilestones: listMilestonesDef,
+		listReleases: listReleasesDef,
+		listDiscussions: listDiscussionsDef,
+		getDiscussionDetail: getDiscussionDetailDef,
+		listBranches: listBranchesDef,
+		listRepoTeams: listRepoTeamsDef,
+		listReviewerSuggestions: listReviewerSuggestionsDef,
 	},
 	{ middlewares: DatabaseRpcModuleMiddlewares },
 );
@@ -3016,6 +4691,7 @@ export const {
 	searchRepos,
 	getRepoOverview,
 	getSyncProgress,
+	resolveRepoRedirect,
 	listPullRequests,
 	listIssues,
 	listActivity,
@@ -3026,13 +4702,23 @@ export const {
 	listWorkflowRunsPaginated,
 	getIssueDetail,
 	getPullRequestDetail,
+	getCommitCiRollup,
 	getWorkflowRunDetail,
 	listPrFiles,
 	requestPrFileSync,
+	requestCheckAnnotationSync,
+	listCheckAnnotations,
 	getHomeDashboard,
 	searchIssuesAndPrs,
 	listRepoLabels,
 	listRepoAssignees,
+	listMilestones,
+	listReleases,
+	listDiscussions,
+	getDiscussionDetail,
+	listBranches,
+	listRepoTeams,
+	listReviewerSuggestions,
 } = projectionQueriesModule.handlers;
 export { projectionQueriesModule };
 export type ProjectionQueriesModule = typeof projectionQueriesModule;
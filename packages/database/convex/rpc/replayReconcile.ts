@@ -5,6 +5,7 @@
  * - retryAllFailed: batch re-process all failed events
  * - moveToDeadLetter: move a failed event to the dead_letters table
  * - listFailedEvents: query failed events for inspection
+ * - exportWebhookFixtures: read a slice of raw events for fixture files
  * - reconcileRepo: schedule a full re-bootstrap for a connected repo
  */
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
@@ -68,6 +69,31 @@ const listFailedEventsDef = factory.internalQuery({
 	),
 });
 
+/**
+ * Raw events for `scripts/export-webhook-fixtures.ts`, oldest first.
+ * Select by deliveryIds, or by repository and/or a receivedAt range.
+ */
+const exportWebhookFixturesDef = factory.internalQuery({
+	payload: {
+		repositoryId: Schema.optional(Schema.Number),
+		deliveryIds: Schema.optional(Schema.Array(Schema.String)),
+		since: Schema.optional(Schema.Number),
+		until: Schema.optional(Schema.Number),
+		limit: Schema.optional(Schema.Number),
+	},
+	success: Schema.Array(
+		Schema.Struct({
+			deliveryId: Schema.String,
+			eventName: Schema.String,
+			action: Schema.NullOr(Schema.String),
+			installationId: Schema.NullOr(Schema.Number),
+			repositoryId: Schema.NullOr(Schema.Number),
+			receivedAt: Schema.Number,
+			payloadJson: Schema.String,
+		}),
+	),
+});
+
 /**
  * List dead-lettered events.
  */
@@ -255,6 +281,68 @@ listDeadLettersDef.implement((args) =>
 	}),
 );
 
+exportWebhookFixturesDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const limit = args.limit ?? 500;
+		const since = args.since ?? 0;
+		const until = args.until ?? Number.MAX_SAFE_INTEGER;
+
+		const events = [];
+		if (args.deliveryIds !== undefined) {
+			for (const deliveryId of args.deliveryIds) {
+				const event = yield* ctx.db
+					.query("github_webhook_events_raw")
+					.withIndex("by_deliveryId", (q) => q.eq("deliveryId", deliveryId))
+					.first();
+				if (Option.isSome(event)) events.push(event.value);
+			}
+		} else if (args.repositoryId !== undefined) {
+			const repositoryId = args.repositoryId;
+			events.push(
+				...(yield* ctx.db
+					.query("github_webhook_events_raw")
+					.withIndex("by_repositoryId_and_receivedAt", (q) =>
+						q
+							.eq("repositoryId", repositoryId)
+							.gte("receivedAt", since)
+							.lte("receivedAt", until),
+					)
+					.take(limit)),
+			);
+		} else {
+			events.push(
+				...(yield* ctx.db
+					.query("github_webhook_events_raw")
+					.withIndex("by_receivedAt", (q) =>
+						q.gte("receivedAt", since).lte("receivedAt", until),
+					)
+					.take(limit)),
+			);
+		}
+
+		return events
+			.filter(
+				(e) =>
+					e.receivedAt >= since &&
+					e.receivedAt <= until &&
+					(args.repositoryId === undefined ||
+						e.repositoryId === args.repositoryId),
+			)
+			.sort((a, b) => a.receivedAt - b.receivedAt)
+			.slice(0, limit)
+			.map((e) => ({
+				deliveryId: e.deliveryId,
+				eventName: e.eventName,
+				action: e.action,
+				installationId: e.installationId,
+				repositoryId: e.repositoryId,
+				receivedAt: e.receivedAt,
+				payloadJson: e.payloadJson,
+			}));
+	}),
+);
+
 reconcileRepoDef.implement((args) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
@@ -408,6 +496,7 @@ const replayReconcileModule = makeRpcModule(
 		retryAllFailed: retryAllFailedDef,
 		moveToDeadLetter: moveToDeadLetterDef,
 		listFailedEvents: listFailedEventsDef,
+		exportWebhookFixtures: exportWebhookFixturesDef,
 		listDeadLetters: listDeadLettersDef,
 		reconcileRepo: reconcileRepoDef,
 		resolveDeadLetterRepos: resolveDeadLetterReposDef,
@@ -421,6 +510,7 @@ export const {
 	retryAllFailed,
 	moveToDeadLetter,
 	listFailedEvents,
+	exportWebhookFixtures,
 	listDeadLetters,
 	reconcileRepo,
 	resolveDeadLetterRepos,
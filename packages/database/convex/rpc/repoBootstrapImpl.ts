@@ -12,6 +12,7 @@
 import { Array as Arr, Effect, Predicate } from "effect";
 import { internal } from "../_generated/api";
 import { ConfectActionCtx } from "../confect";
+import { type CheckRunInput, parseCheckRun } from "../shared/checks";
 import { toOpenClosedState } from "../shared/coerce";
 import type {
 	Issue,
@@ -123,6 +124,7 @@ bootstrapRepoDef.implement((args) =>
 					number: pr.number,
 					state: toOpenClosedState(pr.state),
 					draft: pr.draft ?? false,
+					locked: pr.locked,
 					title: pr.title,
 					body: pr.body,
 					authorUserId,
@@ -183,6 +185,7 @@ bootstrapRepoDef.implement((args) =>
 					githubIssueId: issue.id,
 					number: issue.number,
 					state: toOpenClosedState(issue.state),
+					locked: issue.locked,
 					title: issue.title,
 					body: issue.body ?? null,
 					authorUserId,
@@ -190,6 +193,7 @@ bootstrapRepoDef.implement((args) =>
 					labelNames: labels,
 					commentCount: issue.comments,
 					isPullRequest: false,
+					milestoneNumber: issue.milestone?.number ?? null,
 					closedAt: isoToMs(issue.closed_at),
 					githubUpdatedAt: isoToMs(issue.updated_at) ?? Date.now(),
 				};
@@ -249,15 +253,7 @@ bootstrapRepoDef.implement((args) =>
 			// Deduplicate SHAs
 			const uniqueShas = [...new Set(activePrHeadShas)];
 
-			const allCheckRuns: Array<{
-				githubCheckRunId: number;
-				name: string;
-				headSha: string;
-				status: string;
-				conclusion: string | null;
-				startedAt: number | null;
-				completedAt: number | null;
-			}> = [];
+			const allCheckRuns: Array<CheckRunInput> = [];
 
 			for (const sha of uniqueShas) {
 				const checkResult = yield* gh.client.checksListForRef(
@@ -267,15 +263,8 @@ bootstrapRepoDef.implement((args) =>
 					{ per_page: 100 },
 				);
 				for (const cr of checkResult.check_runs) {
-					allCheckRuns.push({
-						githubCheckRunId: cr.id,
-						name: cr.name,
-						headSha: sha,
-						status: cr.status,
-						conclusion: cr.conclusion,
-						startedAt: isoToMs(cr.started_at),
-						completedAt: isoToMs(cr.completed_at),
-					});
+					const checkRun = parseCheckRun(cr, sha);
+					if (checkRun !== null) allCheckRuns.push(checkRun);
 				}
 			}
 
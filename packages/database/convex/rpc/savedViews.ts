@@ -0,0 +1,400 @@
+/**
+ * Saved Views — named issue/PR list queries persisted per signed-in user.
+ *
+ * A view stores the search DSL text the user typed plus the filters parsed
+ * from it. The client runs views against `listIssuesPaginated` /
+ * `listPullRequestsPaginated`; the server only evaluates the stored filters
+ * to produce unread counts for the sidebar.
+ *
+ * Endpoints:
+ *   - listSavedViews (query)        — the user's views with live unread counts
+ *   - createSavedView (mutation)    — save a DSL query for a repository
+ *   - updateSavedView (mutation)    — rename or pin/unpin a view
+ *   - deleteSavedView (mutation)    — remove a view
+ *   - markSavedViewViewed (mutation) — reset a view's unread count
+ */
+import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
+import { Effect, Option, Schema } from "effect";
+import { ConfectMutationCtx, ConfectQueryCtx, confectSchema } from "../confect";
+import { type ListFilterItem, makeListFilter } from "../shared/listFilters";
+import { hasRepositoryPermissionWithDb } from "../shared/permissions";
+import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
+import {
+	AuthenticatedUser,
+	ReadGitHubRepoByNameMiddleware,
+	ReadGitHubRepoPermission,
+	RequireAuthenticatedMiddleware,
+} from "./security";
+
+const factory = createRpcFactory({ schema: confectSchema });
+
+/** Most views returned to a single user */
+const MAX_SAVED_VIEWS = 50;
+/** Candidates scanned per state when counting unread items */
+const UNREAD_SCAN_LIMIT = 100;
+
+// ---------------------------------------------------------------------------
+// Shared schemas
+// ---------------------------------------------------------------------------
+
+const SavedViewTarget = Schema.Literal("issue", "pr");
+const SavedViewState = Schema.Literal("open", "closed", "merged");
+
+const SavedViewItem = Schema.Struct({
+	viewId: Schema.String,
+	title: Schema.String,
+	target: SavedViewTarget,
+	query: Schema.String,
+	ownerLogin: Schema.String,
+	repoName: Schema.String,
+	pinned: Schema.Boolean,
+	/** Matching items updated since the view was last opened (scan-capped) */
+	unreadCount: Schema.Number,
+	lastViewedAt: Schema.Number,
+	createdAt: Schema.Number,
+});
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+class NotAuthenticated extends Schema.TaggedError<NotAuthenticated>()(
+	"NotAuthenticated",
+	{ reason: Schema.String },
+) {}
+
+class RepoNotFound extends Schema.TaggedError<RepoNotFound>()("RepoNotFound", {
+	ownerLogin: Schema.String,
+	name: Schema.String,
+}) {}
+
+class SavedViewNotFound extends Schema.TaggedError<SavedViewNotFound>()(
+	"SavedViewNotFound",
+	{ viewId: Schema.String },
+) {}
+
+// ---------------------------------------------------------------------------
+// Endpoint definitions
+// ---------------------------------------------------------------------------
+
+/**
+ * List the signed-in user's saved views, newest first, with unread counts.
+ * Views on repositories the user can no longer read are omitted.
+ */
+const listSavedViewsDef = factory
+	.query({
+		success: Schema.Array(SavedViewItem),
+	})
+	.middleware(RequireAuthenticatedMiddleware);
+
+/**
+ * Save a DSL query as a named view on a repository the user can read.
+ */
+const createSavedViewDef = factory
+	.mutation({
+		payload: {
+			ownerLogin: Schema.String,
+			name: Schema.String,
+			title: Schema.String,
+			target: SavedViewTarget,
+			query: Schema.String,
+			state: Schema.NullOr(SavedViewState),
+			authorLogin: Schema.NullOr(Schema.String),
+			assigneeLogin: Schema.NullOr(Schema.String),
+			labels: Schema.Array(Schema.String),
+			pinned: Schema.optional(Schema.Boolean),
+		},
+		success: Schema.Struct({ viewId: Schema.String }),
+		error: Schema.Union(NotAuthenticated, RepoNotFound),
+	})
+	.middleware(RequireAuthenticatedMiddleware)
+	.middleware(ReadGitHubRepoByNameMiddleware);
+
+/**
+ * Rename a view or toggle whether it is pinned in the sidebar.
+ */
+const updateSavedViewDef = factory
+	.mutation({
+		payload: {
+			viewId: Schema.String,
+			title: Schema.optional(Schema.String),
+			pinned: Schema.optional(Schema.Boolean),
+		},
+		success: Schema.Struct({ updated: Schema.Boolean }),
+		error: SavedViewNotFound,
+	})
+	.middleware(RequireAuthenticatedMiddleware);
+
+const deleteSavedViewDef = factory
+	.mutation({
+		payload: {
+			viewId: Schema.String,
+		},
+		success: Schema.Struct({ deleted: Schema.Boolean }),
+		error: SavedViewNotFound,
+	})
+	.middleware(RequireAuthenticatedMiddleware);
+
+/**
+ * Record that the user opened a view, clearing its unread count.
+ */
+const markSavedViewViewedDef = factory
+	.mutation({
+		payload: {
+			viewId: Schema.String,
+		},
+		success: Schema.Struct({ updated: Schema.Boolean }),
+		error: SavedViewNotFound,
+	})
+	.middleware(RequireAuthenticatedMiddleware);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const resolveLogin = (userId: number) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const user = yield* ctx.db
+			.query("github_users")
+			.withIndex("by_githubUserId", (q) => q.eq("githubUserId", userId))
+			.first();
+		return Option.isSome(user) ? user.value.login : null;
+	});
+
+/**
+ * Load a view owned by `userId`. Views belonging to other users are reported
+ * as missing rather than forbidden.
+ */
+const getOwnedView = (
+	db: ConfectMutationCtx["db"],
+	userId: string,
+	viewId: string,
+) =>
+	Effect.gen(function* () {
+		const id = db.normalizeId("github_saved_views", viewId);
+		if (Option.isNone(id)) {
+			return yield* new SavedViewNotFound({ viewId });
+		}
+		const view = yield* db.get(id.value);
+		if (Option.isNone(view) || view.value.userId !== userId) {
+			return yield* new SavedViewNotFound({ viewId });
+		}
+		return view.value;
+	});
+
+type StoredView = {
+	readonly repositoryId: number;
+	readonly target: "issue" | "pr";
+	readonly state: "open" | "closed" | "merged" | null;
+	readonly authorLogin: string | null;
+	readonly assigneeLogin: string | null;
+	readonly labels: ReadonlyArray<string>;
+	readonly lastViewedAt: number;
+};
+
+/**
+ * Count items matching the view's stored filters that were updated after
+ * it was last opened.
+ */
+const countUnread = (view: StoredView) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const states: ReadonlyArray<"open" | "closed"> =
+			view.state === null
+				? ["open", "closed"]
+				: [view.state === "merged" ? "closed" : view.state];
+		const filter = makeListFilter(
+			{ ...view, mergedOnly: view.state === "merged" },
+			resolveLogin,
+		);
+
+		let count = 0;
+		for (const state of states) {
+			const candidates: ReadonlyArray<ListFilterItem> =
+				view.target === "pr"
+					? yield* ctx.db
+							.query("github_pull_requests")
+							.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+								q
+									.eq("repositoryId", view.repositoryId)
+									.eq("state", state)
+									.gt("githubUpdatedAt", view.lastViewedAt),
+							)
+							.take(UNREAD_SCAN_LIMIT)
+					: yield* ctx.db
+							.query("github_issues")
+							.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+								q
+									.eq("repositoryId", view.repositoryId)
+									.eq("state", state)
+									.gt("githubUpdatedAt", view.lastViewedAt),
+							)
+							.take(UNREAD_SCAN_LIMIT);
+
+			const matching = yield* Effect.filter(candidates, filter.matches);
+			count += matching.length;
+		}
+		return count;
+	});
+
+// ---------------------------------------------------------------------------
+// Implementations
+// ---------------------------------------------------------------------------
+
+listSavedViewsDef.implement(() =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectQueryCtx;
+		const { userId } = yield* AuthenticatedUser;
+
+		const views = yield* ctx.db
+			.query("github_saved_views")
+			.withIndex("by_userId_and_createdAt", (q) => q.eq("userId", userId))
+			.order("desc")
+			.take(MAX_SAVED_VIEWS);
+
+		const items = yield* Effect.all(
+			views.map((view) =>
+				Effect.gen(function* () {
+					const repo = yield* ctx.db
+						.query("github_repositories")
+						.withIndex("by_githubRepoId", (q) =>
+							q.eq("githubRepoId", view.repositoryId),
+						)
+						.first();
+					if (Option.isNone(repo)) return null;
+
+					const canRead = yield* hasRepositoryPermissionWithDb(ctx.db, {
+						repositoryId: view.repositoryId,
+						isPrivate: repo.value.private,
+						userId,
+						required: "pull",
+					});
+					if (!canRead) return null;
+
+					return {
+						viewId: view._id,
+						title: view.title,
+						target: view.target,
+						query: view.query,
+						ownerLogin: repo.value.ownerLogin,
+						repoName: repo.value.name,
+						pinned: view.pinned,
+						unreadCount: yield* countUnread(view),
+						lastViewedAt: view.lastViewedAt,
+						createdAt: view.createdAt,
+					};
+				}),
+			),
+			{ concurrency: 5 },
+		);
+
+		return items.filter((item) => item !== null);
+	}),
+);
+
+createSavedViewDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const permission = yield* ReadGitHubRepoPermission;
+		if (!permission.isAllowed || permission.repository === null) {
+			if (permission.reason === "repo_not_found") {
+				return yield* new RepoNotFound({
+					ownerLogin: args.ownerLogin,
+					name: args.name,
+				});
+			}
+			return yield* new NotAuthenticated({
+				reason: "Not authorized to access this repository",
+			});
+		}
+
+		const now = Date.now();
+		const query = args.query.trim();
+		const title = args.title.trim();
+		const viewId = yield* ctx.db.insert("github_saved_views", {
+			userId,
+			repositoryId: permission.repository.repositoryId,
+			title: title.length > 0 ? title : query,
+			target: args.target,
+			query,
+			state: args.state,
+			authorLogin: args.authorLogin,
+			assigneeLogin: args.assigneeLogin,
+			labels: [...args.labels],
+			pinned: args.pinned ?? true,
+			lastViewedAt: now,
+			createdAt: now,
+			updatedAt: now,
+		});
+
+		return { viewId };
+	}),
+);
+
+updateSavedViewDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const view = yield* getOwnedView(ctx.db, userId, args.viewId);
+
+		const title = args.title?.trim();
+		yield* ctx.db.patch(view._id, {
+			...(title !== undefined && title.length > 0 ? { title } : {}),
+			...(args.pinned !== undefined ? { pinned: args.pinned } : {}),
+			updatedAt: Date.now(),
+		});
+
+		return { updated: true };
+	}),
+);
+
+deleteSavedViewDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const view = yield* getOwnedView(ctx.db, userId, args.viewId);
+
+		yield* ctx.db.delete(view._id);
+
+		return { deleted: true };
+	}),
+);
+
+markSavedViewViewedDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { userId } = yield* AuthenticatedUser;
+		const view = yield* getOwnedView(ctx.db, userId, args.viewId);
+
+		yield* ctx.db.patch(view._id, { lastViewedAt: Date.now() });
+
+		return { updated: true };
+	}),
+);
+
+// ---------------------------------------------------------------------------
+// Module
+// ---------------------------------------------------------------------------
+
+const savedViewsModule = makeRpcModule(
+	{
+		listSavedViews: listSavedViewsDef,
+		createSavedView: createSavedViewDef,
+		updateSavedView: updateSavedViewDef,
+		deleteSavedView: deleteSavedViewDef,
+		markSavedViewViewed: markSavedViewViewedDef,
+	},
+	{ middlewares: DatabaseRpcModuleMiddlewares },
+);
+
+export const {
+	listSavedViews,
+	createSavedView,
+	updateSavedView,
+	deleteSavedView,
+	markSavedViewViewed,
+} = savedViewsModule.handlers;
+export { savedViewsModule };
+export type SavedViewsModule = typeof savedViewsModule;
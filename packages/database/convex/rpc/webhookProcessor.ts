@@ -1,4 +1,5 @@
 import { createRpcFactory, makeRpcModule } from "@packages/confect/rpc";
+import type { GenericId } from "convex/values";
 import {
 	Array as Arr,
 	Effect,
@@ -11,23 +12,29 @@ import {
 import { components, internal } from "../_generated/api";
 import { ConfectMutationCtx, ConfectQueryCtx, confectSchema } from "../confect";
 import {
+	syncCheckRunDelete,
 	syncCheckRunInsert,
 	syncCheckRunReplace,
 	syncCommentDelete,
 	syncCommentInsert,
 	syncCommentReplace,
+	syncIssueDelete,
 	syncIssueInsert,
 	syncIssueReplace,
+	syncJobDelete,
 	syncJobInsert,
 	syncJobReplace,
+	syncPrDelete,
 	syncPrInsert,
 	syncPrReplace,
+	syncReviewDelete,
 	syncReviewInsert,
 	syncReviewReplace,
 	syncWebhookDelete,
 	syncWebhookReplace,
 } from "../shared/aggregateSync";
 import { webhooksByState } from "../shared/aggregates";
+import { parseCheckRun, parseCheckSuite } from "../shared/checks";
 import {
 	toTrueBoolean as bool,
 	toNumberOrNull as num,
@@ -35,8 +42,22 @@ import {
 	toStringOrNull as str,
 	toOpenClosedState,
 } from "../shared/coerce";
+import { parseCommitStatus } from "../shared/commitStatuses";
 import { appendActivityFeedEntry } from "../shared/projections";
+import {
+	parseReactionSummary,
+	type ReactionSummary,
+	reactionCount,
+} from "../shared/reactions";
+import { replaceReferences } from "../shared/references";
 import { parseIsoToMsOrNull as isoToMs } from "../shared/time";
+import {
+	isSameTimelineEvent,
+	parseForcePushEvent,
+	parseTimelineWebhookEvent,
+	TIMELINE_EVENT_MATCH_WINDOW_MS,
+	type TimelineEventInput,
+} from "../shared/timelineEvents";
 import { DatabaseRpcModuleMiddlewares } from "./moduleMiddlewares";
 
 const factory = createRpcFactory({ schema: confectSchema });
@@ -139,6 +160,219 @@ const upsertUser = (user: NonNullable<ReturnType<typeof extractUser>>) =>
 		}
 	});
 
+/**
+ * Upsert a team from a `requested_teams` entry. Teams carry no org in the
+ * payload, so the repository owner is recorded as the team's organization.
+ * Returns the team ID, or null if the entry is not a team.
+ */
+const upsertTeamFromPayload = <A>(teamInput: A, orgLogin: string) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const team = obj(teamInput);
+		const githubTeamId = num(team.id);
+		const slug = str(team.slug);
+
+		if (githubTeamId === null || slug === null) return null;
+
+		const data = {
+			githubTeamId,
+			orgLogin,
+			slug,
+			name: str(team.name) ?? slug,
+			description: str(team.description),
+			updatedAt: Date.now(),
+		};
+
+		const existing = yield* ctx.db
+			.query("github_teams")
+			.withIndex("by_githubTeamId", (q) => q.eq("githubTeamId", githubTeamId))
+			.first();
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.patch(existing.value._id, data);
+		} else {
+			yield* ctx.db.insert("github_teams", data);
+		}
+
+		return githubTeamId;
+	});
+
+/**
+ * Upsert a milestone from a webhook payload field.
+ * `issues` and `pull_request` payloads embed the full milestone object, which
+ * keeps the open/closed counts fresh without a dedicated `milestone` event.
+ * Returns the milestone number, or null if the field is not a milestone.
+ */
+const upsertMilestoneFromPayload = <A>(
+	milestoneInput: A,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		const milestone = obj(milestoneInput);
+		const githubMilestoneId = num(milestone.id);
+		const number = num(milestone.number);
+
+		if (githubMilestoneId === null || number === null) return null;
+
+		// Deliveries can arrive out of order — a deleted milestone stays deleted
+		const deleted = yield* ctx.db
+			.query("github_deleted_milestones")
+			.withIndex("by_repositoryId_and_githubMilestoneId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("githubMilestoneId", githubMilestoneId),
+			)
+			.first();
+		if (Option.isSome(deleted)) return null;
+
+		const creatorUser = extractUser(milestone.creator);
+		if (creatorUser) yield* upsertUser(creatorUser);
+
+		const data = {
+			repositoryId,
+			githubMilestoneId,
+			number,
+			title: str(milestone.title) ?? "",
+			description: str(milestone.description),
+			state: toOpenClosedState(str(milestone.state)),
+			creatorUserId: creatorUser?.githubUserId ?? null,
+			openIssueCount: num(milestone.open_issues) ?? 0,
+			closedIssueCount: num(milestone.closed_issues) ?? 0,
+			dueOn: isoToMs(milestone.due_on),
+			closedAt: isoToMs(milestone.closed_at),
+			githubUpdatedAt: isoToMs(milestone.updated_at) ?? now,
+			cachedAt: now,
+		};
+
+		const existing = yield* ctx.db
+			.query("github_milestones")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", number),
+			)
+			.first();
+
+		if (Option.isSome(existing)) {
+			if (data.githubUpdatedAt >= existing.value.githubUpdatedAt) {
+				yield* ctx.db.patch(existing.value._id, data);
+			}
+		} else {
+			yield* ctx.db.insert("github_milestones", data);
+		}
+
+		return number;
+	});
+
+type ReactionSubjectType = "issue" | "issue_comment" | "review_comment";
+
+/**
+ * GitHub has no webhook for reactions alone, so the rollup embedded in the
+ * subject's payload is the only removal signal. Drop tracked reactions whose
+ * bucket is now empty (e.g. removed on github.com). In-flight optimistic
+ * writes are left for `githubWrite` to settle, but the new rollup replaced
+ * their local count change, so a failure must no longer undo it.
+ */
+const pruneReactionsMissingFromSummary = (
+	repositoryId: number,
+	subjectType: ReactionSubjectType,
+	subjectId: number,
+	summary: ReactionSummary | null,
+) =>
+	Effect.gen(function* () {
+		if (summary === null) return;
+		const ctx = yield* ConfectMutationCtx;
+		const tracked = yield* ctx.db
+			.query("github_reactions")
+			.withIndex("by_repositoryId_and_subjectType_and_subjectId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("subjectType", subjectType)
+					.eq("subjectId", subjectId),
+			)
+			.collect();
+
+		for (const reaction of tracked) {
+			if (reaction.optimisticState === "pending") {
+				if (reaction.optimisticCountAdjusted === true) {
+					yield* ctx.db.patch(reaction._id, {
+						optimisticCountAdjusted: false,
+					});
+				}
+				continue;
+			}
+			if (reactionCount(summary, reaction.content) === 0) {
+				yield* ctx.db.delete(reaction._id);
+			}
+		}
+	});
+
+const deleteTrackedReactions = (
+	repositoryId: number,
+	subjectType: ReactionSubjectType,
+	subjectId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const tracked = yield* ctx.db
+			.query("github_reactions")
+			.withIndex("by_repositoryId_and_subjectType_and_subjectId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("subjectType", subjectType)
+					.eq("subjectId", subjectId),
+			)
+			.collect();
+		for (const reaction of tracked) {
+			yield* ctx.db.delete(reaction._id);
+		}
+	});
+
+/**
+ * Store a timeline event unless its key is already recorded (a redelivered
+ * webhook or an earlier timeline backfill). Users the event references are
+ * upserted so the timeline can resolve their logins.
+ */
+const recordTimelineEvent = (
+	repositoryId: number,
+	issueNumber: number,
+	parse: (
+		userId: (user: unknown) => number | null,
+	) => TimelineEventInput | null,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const users: Array<NonNullable<ReturnType<typeof extractUser>>> = [];
+		const event = parse((value) => {
+			const user = extractUser(value);
+			if (user === null) return null;
+			users.push(user);
+			return user.githubUserId;
+		});
+		if (event === null) return;
+		for (const user of users) {
+			yield* upsertUser(user);
+		}
+
+		const nearby = yield* ctx.db
+			.query("github_timeline_events")
+			.withIndex("by_repositoryId_and_issueNumber_and_createdAt", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("issueNumber", issueNumber)
+					.gte("createdAt", event.createdAt - TIMELINE_EVENT_MATCH_WINDOW_MS)
+					.lte("createdAt", event.createdAt + TIMELINE_EVENT_MATCH_WINDOW_MS),
+			)
+			.collect();
+		if (nearby.some((stored) => isSameTimelineEvent(stored, event))) return;
+
+		yield* ctx.db.insert("github_timeline_events", {
+			repositoryId,
+			issueNumber,
+			...event,
+		});
+	});
+
 // ---------------------------------------------------------------------------
 // Event handlers — each takes parsed payload + mutation context
 // ---------------------------------------------------------------------------
@@ -186,7 +420,13 @@ const handleIssuesEvent = (
 				)
 			: [];
 
+		const milestoneNumber = yield* upsertMilestoneFromPayload(
+			issue.milestone,
+			repositoryId,
+		);
+
 		const githubUpdatedAt = isoToMs(issue.updated_at) ?? now;
+		const reactions = parseReactionSummary(issue.reactions);
 
 		const data = {
 			repositoryId,
@@ -200,10 +440,22 @@ const handleIssuesEvent = (
 			labelNames: labels,
 			commentCount: num(issue.comments) ?? 0,
 			isPullRequest: "pull_request" in issue,
+			locked: bool(issue.locked),
+			milestoneNumber,
+			...(reactions === null ? {} : { reactions }),
 			closedAt: isoToMs(issue.closed_at),
 			githubUpdatedAt,
 			cachedAt: now,
 		};
+		// Re-index the body's references whenever the stored body is rewritten
+		const indexBodyReferences = replaceReferences({
+			repositoryId,
+			sourceType: "issue",
+			sourceId: issueNumber,
+			sourceNumber: issueNumber,
+			text: data.body,
+			createdAt: githubUpdatedAt,
+		});
 
 		const existing = yield* ctx.db
 			.query("github_issues")
@@ -222,10 +474,21 @@ const handleIssuesEvent = (
 					((action === "labeled" || action === "unlabeled") &&
 						existing.value.optimisticOperationType === "update_labels") ||
 					((action === "assigned" || action === "unassigned") &&
-						existing.value.optimisticOperationType === "update_assignees"));
+						existing.value.optimisticOperationType === "update_assignees") ||
+					(action === "edited" &&
+						existing.value.optimisticOperationType === "update_title_body") ||
+					((action === "locked" || action === "unlocked") &&
+						existing.value.optimisticOperationType === "update_lock_state"));
 
 			if (githubUpdatedAt >= existing.value.githubUpdatedAt) {
 				yield* ctx.db.patch(existing.value._id, data);
+				yield* indexBodyReferences;
+				yield* pruneReactionsMissingFromSummary(
+					repositoryId,
+					"issue",
+					issueNumber,
+					reactions,
+				);
 				if (shouldConfirmOptimistic) {
 					yield* ctx.db.patch(existing.value._id, {
 						optimisticState: "confirmed",
@@ -252,11 +515,24 @@ const handleIssuesEvent = (
 			}
 		} else {
 			const id = yield* ctx.db.insert("github_issues", data);
+			yield* indexBodyReferences;
 			const inserted = yield* ctx.db.get(id);
 			if (Option.isSome(inserted)) {
 				yield* syncIssueInsert(ctx.rawCtx, inserted.value);
 			}
 		}
+
+		if (action !== null) {
+			yield* recordTimelineEvent(repositoryId, issueNumber, (userId) =>
+				parseTimelineWebhookEvent(
+					action,
+					payload,
+					issue,
+					githubUpdatedAt,
+					userId,
+				),
+			);
+		}
 	});
 
 /**
@@ -294,16 +570,31 @@ const handlePullRequestEvent = (
 				)
 			: [];
 
-		// Extract requested reviewer IDs
-		const requestedReviewerUserIds = Array.isArray(pr.requested_reviewers)
+		// Extract requested reviewers, mirroring them so chips resolve
+		const requestedReviewers = Array.isArray(pr.requested_reviewers)
 			? Arr.filter(
-					Arr.map(pr.requested_reviewers, (reviewerInput) => {
-						const user = extractUser(reviewerInput);
-						return user?.githubUserId ?? null;
-					}),
+					Arr.map(pr.requested_reviewers, (reviewerInput) =>
+						extractUser(reviewerInput),
+					),
 					Predicate.isNotNull,
 				)
 			: [];
+		for (const reviewer of requestedReviewers) {
+			yield* upsertUser(reviewer);
+		}
+		const requestedReviewerUserIds = requestedReviewers.map(
+			(reviewer) => reviewer.githubUserId,
+		);
+
+		// Extract requested team IDs, mirroring the teams themselves
+		const orgLogin = str(obj(obj(payload.repository).owner).login) ?? "";
+		const requestedReviewerTeamIds: Array<number> = [];
+		if (Array.isArray(pr.requested_teams)) {
+			for (const teamInput of pr.requested_teams) {
+				const teamId = yield* upsertTeamFromPayload(teamInput, orgLogin);
+				if (teamId !== null) requestedReviewerTeamIds.push(teamId);
+			}
+		}
 
 		// Extract labels
 		const labelNames = Array.isArray(pr.labels)
@@ -316,6 +607,9 @@ const handlePullRequestEvent = (
 				)
 			: [];
 
+		// PRs count towards milestone progress — refresh the embedded milestone
+		yield* upsertMilestoneFromPayload(pr.milestone, repositoryId);
+
 		const githubUpdatedAt = isoToMs(pr.updated_at) ?? now;
 
 		const data = {
@@ -329,7 +623,9 @@ const handlePullRequestEvent = (
 			authorUserId: authorUser?.githubUserId ?? null,
 			assigneeUserIds,
 			requestedReviewerUserIds,
+			requestedReviewerTeamIds,
 			labelNames,
+			locked: bool(pr.locked),
 			baseRefName: str(base.ref) ?? "",
 			headRefName: str(head.ref) ?? "",
 			headSha: str(head.sha) ?? "",
@@ -339,6 +635,14 @@ const handlePullRequestEvent = (
 			githubUpdatedAt,
 			cachedAt: now,
 		};
+		const indexBodyReferences = replaceReferences({
+			repositoryId,
+			sourceType: "pull_request",
+			sourceId: prNumber,
+			sourceNumber: prNumber,
+			text: data.body,
+			createdAt: githubUpdatedAt,
+		});
 
 		const existing = yield* ctx.db
 			.query("github_pull_requests")
@@ -358,10 +662,22 @@ const handlePullRequestEvent = (
 					((action === "labeled" || action === "unlabeled") &&
 						existing.value.optimisticOperationType === "update_labels") ||
 					((action === "assigned" || action === "unassigned") &&
-						existing.value.optimisticOperationType === "update_assignees"));
+						existing.value.optimisticOperationType === "update_assignees") ||
+					(action === "review_requested" &&
+						existing.value.optimisticOperationType === "request_reviewers") ||
+					(action === "review_request_removed" &&
+						existing.value.optimisticOperationType === "remove_reviewers") ||
+					(action === "edited" &&
+						existing.value.optimisticOperationType === "update_title_body") ||
+					((action === "converted_to_draft" || action === "ready_for_review") &&
+						existing.value.optimisticOperationType ===
+							"convert_pull_request_draft") ||
+					((action === "locked" || action === "unlocked") &&
+						existing.value.optimisticOperationType === "update_lock_state"));
 
 			if (githubUpdatedAt >= existing.value.githubUpdatedAt) {
 				yield* ctx.db.patch(existing.value._id, data);
+				yield* indexBodyReferences;
 				if (shouldConfirmOptimistic) {
 					yield* ctx.db.patch(existing.value._id, {
 						optimisticState: "confirmed",
@@ -388,11 +704,37 @@ const handlePullRequestEvent = (
 			}
 		} else {
 			const id = yield* ctx.db.insert("github_pull_requests", data);
+			yield* indexBodyReferences;
 			const inserted = yield* ctx.db.get(id);
 			if (Option.isSome(inserted)) {
 				yield* syncPrInsert(ctx.rawCtx, inserted.value);
 			}
 		}
+
+		// Confirm a pull request opened through `githubWrite.createPullRequest`
+		if (action === "opened") {
+			const create = yield* ctx.db
+				.query("github_pull_request_creates")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", repositoryId).eq("number", prNumber),
+				)
+				.first();
+			if (
+				Option.isSome(create) &&
+				create.value.optimisticState === "completed"
+			) {
+				yield* ctx.db.patch(create.value._id, {
+					optimisticState: "confirmed",
+					updatedAt: now,
+				});
+			}
+		}
+
+		if (action !== null) {
+			yield* recordTimelineEvent(repositoryId, prNumber, (userId) =>
+				parseTimelineWebhookEvent(action, payload, pr, githubUpdatedAt, userId),
+			);
+		}
 	});
 
 /**
@@ -431,10 +773,24 @@ const handleIssueCommentEvent = (
 				yield* syncCommentDelete(ctx.rawCtx, existing.value);
 				yield* ctx.db.delete(existing.value._id);
 			}
+			yield* replaceReferences({
+				repositoryId,
+				sourceType: "comment",
+				sourceId: githubCommentId,
+				sourceNumber: issueNumber,
+				text: null,
+				createdAt: now,
+			});
+			yield* deleteTrackedReactions(
+				repositoryId,
+				"issue_comment",
+				githubCommentId,
+			);
 			return;
 		}
 
 		// Upsert comment (created or edited)
+		const reactions = parseReactionSummary(comment.reactions);
 		const data = {
 			repositoryId,
 			issueNumber,
@@ -443,7 +799,16 @@ const handleIssueCommentEvent = (
 			body: str(comment.body) ?? "",
 			createdAt: isoToMs(comment.created_at) ?? now,
 			updatedAt: isoToMs(comment.updated_at) ?? now,
+			...(reactions === null ? {} : { reactions }),
 		};
+		yield* replaceReferences({
+			repositoryId,
+			sourceType: "comment",
+			sourceId: githubCommentId,
+			sourceNumber: issueNumber,
+			text: data.body,
+			createdAt: data.createdAt,
+		});
 
 		const existing = yield* ctx.db
 			.query("github_issue_comments")
@@ -456,10 +821,18 @@ const handleIssueCommentEvent = (
 
 		if (Option.isSome(existing)) {
 			yield* ctx.db.patch(existing.value._id, data);
+			yield* pruneReactionsMissingFromSummary(
+				repositoryId,
+				"issue_comment",
+				githubCommentId,
+				reactions,
+			);
 			if (
-				action === "created" &&
-				existing.value.optimisticOperationType === "create_comment" &&
-				existing.value.optimisticState === "pending"
+				existing.value.optimisticState === "pending" &&
+				((action === "created" &&
+					existing.value.optimisticOperationType === "create_comment") ||
+					(action === "edited" &&
+						existing.value.optimisticOperationType === "update_comment"))
 			) {
 				yield* ctx.db.patch(existing.value._id, {
 					optimisticState: "confirmed",
@@ -481,6 +854,33 @@ const handleIssueCommentEvent = (
 		}
 	});
 
+/**
+ * Drop code-browsing tree cache entries keyed by a ref name once that ref
+ * moves. Entries keyed by commit SHA are immutable and stay.
+ */
+const invalidateRefTreeCache = (repositoryId: number, refName: string) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) => q.eq("githubRepoId", repositoryId))
+			.first();
+		const isDefaultBranch =
+			Option.isSome(repo) && repo.value.defaultBranch === refName;
+
+		for (const key of isDefaultBranch ? [refName, "HEAD"] : [refName]) {
+			const cached = yield* ctx.db
+				.query("github_tree_cache")
+				.withIndex("by_repositoryId_and_sha", (q) =>
+					q.eq("repositoryId", repositoryId).eq("sha", key),
+				)
+				.first();
+			if (Option.isSome(cached)) {
+				yield* ctx.db.delete(cached.value._id);
+			}
+		}
+	});
+
 /**
  * Handle `push` events — update branch head SHA + extract commits
  */
@@ -496,10 +896,45 @@ const handlePushEvent = (
 
 		if (!ref || !after) return;
 
+		// Tag pushes only move the tag pointer — no branch or commit bookkeeping
+		const tagPrefix = "refs/tags/";
+		if (ref.startsWith(tagPrefix)) {
+			const tagName = ref.slice(tagPrefix.length);
+			// `after` is the tag object for annotated tags; store the commit it
+			// points at, as the `/tags` bootstrap does
+			const sha = str(obj(payload.head_commit).id) ?? after;
+			yield* invalidateRefTreeCache(repositoryId, tagName);
+			const existingTag = yield* ctx.db
+				.query("github_tags")
+				.withIndex("by_repositoryId_and_name", (q) =>
+					q.eq("repositoryId", repositoryId).eq("name", tagName),
+				)
+				.first();
+			if (bool(payload.deleted)) {
+				if (Option.isSome(existingTag)) {
+					yield* ctx.db.delete(existingTag.value._id);
+				}
+			} else if (Option.isSome(existingTag)) {
+				yield* ctx.db.patch(existingTag.value._id, {
+					sha,
+					cachedAt: now,
+				});
+			} else {
+				yield* ctx.db.insert("github_tags", {
+					repositoryId,
+					name: tagName,
+					sha,
+					cachedAt: now,
+				});
+			}
+			return;
+		}
+
 		// ref is like "refs/heads/main" — extract branch name
 		const branchPrefix = "refs/heads/";
 		if (!ref.startsWith(branchPrefix)) return;
 		const branchName = ref.slice(branchPrefix.length);
+		yield* invalidateRefTreeCache(repositoryId, branchName);
 
 		// Check if branch was deleted (after is all zeros)
 		const deleted = bool(payload.deleted);
@@ -573,6 +1008,33 @@ const handlePushEvent = (
 					changedFiles: null,
 					cachedAt: now,
 				});
+				yield* replaceReferences({
+					repositoryId,
+					sourceType: "commit",
+					sourceId: sha,
+					sourceNumber: null,
+					text: messageHeadline,
+					createdAt: isoToMs(c.timestamp) ?? now,
+				});
+			}
+		}
+
+		// A force-push rewrites history for open PRs from this branch — the
+		// pull_request `synchronize` that follows doesn't say it was forced
+		if (bool(payload.forced)) {
+			const pushedAtSeconds = num(obj(payload.repository).pushed_at);
+			const pushedAt = pushedAtSeconds === null ? now : pushedAtSeconds * 1000;
+			const openPrs = yield* ctx.db
+				.query("github_pull_requests")
+				.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+					q.eq("repositoryId", repositoryId).eq("state", "open"),
+				)
+				.take(200);
+			for (const pr of openPrs) {
+				if (pr.headRefName !== branchName) continue;
+				yield* recordTimelineEvent(repositoryId, pr.number, (userId) =>
+					parseForcePushEvent(payload, pushedAt, userId),
+				);
 			}
 		}
 
@@ -715,9 +1177,15 @@ const handlePullRequestReviewCommentEvent = (
 			if (Option.isSome(existing)) {
 				yield* ctx.db.delete(existing.value._id);
 			}
+			yield* deleteTrackedReactions(
+				repositoryId,
+				"review_comment",
+				githubReviewCommentId,
+			);
 			return;
 		}
 
+		const reactions = parseReactionSummary(comment.reactions);
 		const data = {
 			repositoryId,
 			pullRequestNumber,
@@ -737,6 +1205,7 @@ const handlePullRequestReviewCommentEvent = (
 			htmlUrl: str(comment.html_url),
 			createdAt: isoToMs(comment.created_at) ?? now,
 			updatedAt: isoToMs(comment.updated_at) ?? now,
+			...(reactions === null ? {} : { reactions }),
 		};
 
 		const existing = yield* ctx.db
@@ -750,6 +1219,24 @@ const handlePullRequestReviewCommentEvent = (
 
 		if (Option.isSome(existing)) {
 			yield* ctx.db.patch(existing.value._id, data);
+			yield* pruneReactionsMissingFromSummary(
+				repositoryId,
+				"review_comment",
+				githubReviewCommentId,
+				reactions,
+			);
+			if (
+				action === "edited" &&
+				existing.value.optimisticOperationType === "update_comment" &&
+				existing.value.optimisticState === "pending"
+			) {
+				yield* ctx.db.patch(existing.value._id, {
+					optimisticState: "confirmed",
+					optimisticErrorMessage: null,
+					optimisticErrorStatus: null,
+					optimisticUpdatedAt: now,
+				});
+			}
 		} else {
 			yield* ctx.db.insert("github_pull_request_review_comments", data);
 		}
@@ -800,30 +1287,17 @@ const handleCheckRunEvent = (
 ) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const checkRun = obj(payload.check_run);
-		const githubCheckRunId = num(checkRun.id);
-		const name = str(checkRun.name);
-		const headSha = str(checkRun.head_sha);
-
-		if (githubCheckRunId === null || !name || !headSha) return;
+		const checkRun = parseCheckRun(payload.check_run);
+		if (checkRun === null) return;
 
-		const data = {
-			repositoryId,
-			githubCheckRunId,
-			name,
-			headSha,
-			status: str(checkRun.status) ?? "queued",
-			conclusion: str(checkRun.conclusion),
-			startedAt: isoToMs(checkRun.started_at),
-			completedAt: isoToMs(checkRun.completed_at),
-		};
+		const data = { repositoryId, ...checkRun };
 
 		const existing = yield* ctx.db
 			.query("github_check_runs")
 			.withIndex("by_repositoryId_and_githubCheckRunId", (q) =>
 				q
 					.eq("repositoryId", repositoryId)
-					.eq("githubCheckRunId", githubCheckRunId),
+					.eq("githubCheckRunId", checkRun.githubCheckRunId),
 			)
 			.first();
 
@@ -842,6 +1316,78 @@ const handleCheckRunEvent = (
 		}
 	});
 
+/**
+ * Handle `check_suite` events: completed, requested, rerequested
+ */
+const handleCheckSuiteEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const checkSuite = parseCheckSuite(payload.check_suite);
+		if (checkSuite === null) return;
+
+		const existing = yield* ctx.db
+			.query("github_check_suites")
+			.withIndex("by_repositoryId_and_githubCheckSuiteId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("githubCheckSuiteId", checkSuite.githubCheckSuiteId),
+			)
+			.first();
+
+		if (Option.isSome(existing)) {
+			// Deliveries can arrive out of order — don't let an older suite win
+			if (existing.value.updatedAt > checkSuite.updatedAt) return;
+			yield* ctx.db.patch(existing.value._id, checkSuite);
+		} else {
+			yield* ctx.db.insert("github_check_suites", {
+				repositoryId,
+				...checkSuite,
+			});
+		}
+	});
+
+/**
+ * Handle `status` events — a commit status was created or updated.
+ * Only the newest status per (sha, context) is kept, matching GitHub's
+ * combined status.
+ */
+const handleStatusEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const sha = str(payload.sha);
+		if (!sha) return;
+
+		const status = parseCommitStatus(payload, sha);
+		if (status === null) return;
+
+		const existing = yield* ctx.db
+			.query("github_commit_statuses")
+			.withIndex("by_repositoryId_and_sha_and_context", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("sha", sha)
+					.eq("context", status.context),
+			)
+			.first();
+
+		if (Option.isSome(existing)) {
+			// Deliveries can arrive out of order — don't let an older status win
+			if (existing.value.updatedAt > status.updatedAt) return;
+			yield* ctx.db.patch(existing.value._id, status);
+		} else {
+			yield* ctx.db.insert("github_commit_statuses", {
+				repositoryId,
+				...status,
+			});
+		}
+	});
+
 /**
  * Handle `workflow_run` events: requested, in_progress, completed
  */
@@ -955,29 +1501,599 @@ const handleWorkflowJobEvent = (
 	});
 
 /**
- * Handle `delete` events — branch or tag deleted
+ * Handle `delete` events — branch or tag deleted
+ */
+const handleDeleteEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const refType = str(payload.ref_type);
+		const ref = str(payload.ref);
+
+		if (refType !== "branch" || !ref) return;
+
+		const existing = yield* ctx.db
+			.query("github_branches")
+			.withIndex("by_repositoryId_and_name", (q) =>
+				q.eq("repositoryId", repositoryId).eq("name", ref),
+			)
+			.first();
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.delete(existing.value._id);
+		}
+	});
+
+/**
+ * Handle `milestone` events: created, edited, opened, closed, deleted
+ */
+const handleMilestoneEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const action = str(payload.action);
+
+		if (action !== "deleted") {
+			yield* upsertMilestoneFromPayload(payload.milestone, repositoryId);
+			return;
+		}
+
+		const milestone = obj(payload.milestone);
+		const githubMilestoneId = num(milestone.id);
+		const milestoneNumber = num(milestone.number);
+		if (githubMilestoneId === null || milestoneNumber === null) return;
+
+		const existing = yield* ctx.db
+			.query("github_milestones")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", milestoneNumber),
+			)
+			.first();
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.delete(existing.value._id);
+		}
+
+		const deleted = yield* ctx.db
+			.query("github_deleted_milestones")
+			.withIndex("by_repositoryId_and_githubMilestoneId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("githubMilestoneId", githubMilestoneId),
+			)
+			.first();
+		if (Option.isNone(deleted)) {
+			yield* ctx.db.insert("github_deleted_milestones", {
+				repositoryId,
+				githubMilestoneId,
+				deletedAt: Date.now(),
+			});
+		}
+
+		// GitHub does not send `demilestoned` events for a deleted milestone,
+		// so detach the issues ourselves.
+		const attachedIssues = yield* ctx.db
+			.query("github_issues")
+			.withIndex(
+				"by_repositoryId_and_milestoneNumber_and_state_and_githubUpdatedAt",
+				(q) =>
+					q
+						.eq("repositoryId", repositoryId)
+						.eq("milestoneNumber", milestoneNumber),
+			)
+			.collect();
+
+		for (const issue of attachedIssues) {
+			yield* ctx.db.patch(issue._id, { milestoneNumber: null });
+		}
+	});
+
+/** Recent items per state rewritten when a label is renamed or deleted */
+const LABEL_RENAME_SCAN_LIMIT = 250;
+
+/**
+ * Handle `label` events: created, edited, deleted
+ */
+const handleLabelEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const action = str(payload.action);
+		const label = obj(payload.label);
+		const githubLabelId = num(label.id);
+		const name = str(label.name);
+		if (githubLabelId === null || name === null) return;
+
+		const existing = yield* ctx.db
+			.query("github_labels")
+			.withIndex("by_repositoryId_and_githubLabelId", (q) =>
+				q.eq("repositoryId", repositoryId).eq("githubLabelId", githubLabelId),
+			)
+			.first();
+
+		if (action === "deleted") {
+			if (Option.isSome(existing)) {
+				yield* ctx.db.delete(existing.value._id);
+			}
+		} else {
+			const data = {
+				repositoryId,
+				githubLabelId,
+				name,
+				color: str(label.color) ?? "ededed",
+				description: str(label.description),
+				isDefault: bool(label.default),
+				cachedAt: Date.now(),
+			};
+			if (Option.isSome(existing)) {
+				yield* ctx.db.patch(existing.value._id, data);
+			} else {
+				yield* ctx.db.insert("github_labels", data);
+			}
+		}
+
+		// GitHub doesn't send `unlabeled`/`edited` issue events when a label is
+		// renamed or deleted, so rewrite `labelNames` on recently updated items.
+		// Older items pick up the change the next time they are touched.
+		const previousName =
+			action === "deleted"
+				? name
+				: action === "edited"
+					? str(obj(obj(payload.changes).name).from)
+					: null;
+		const nextName = action === "deleted" ? null : name;
+		if (previousName === null || previousName === nextName) return;
+		const rename = (labelNames: ReadonlyArray<string>) =>
+			labelNames.flatMap((labelName) =>
+				labelName !== previousName
+					? [labelName]
+					: nextName === null
+						? []
+						: [nextName],
+			);
+
+		for (const state of ["open", "closed"] as const) {
+			const issues = yield* ctx.db
+				.query("github_issues")
+				.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+					q.eq("repositoryId", repositoryId).eq("state", state),
+				)
+				.order("desc")
+				.take(LABEL_RENAME_SCAN_LIMIT);
+			for (const issue of issues) {
+				if (!issue.labelNames.includes(previousName)) continue;
+				yield* ctx.db.patch(issue._id, {
+					labelNames: rename(issue.labelNames),
+				});
+			}
+
+			const prs = yield* ctx.db
+				.query("github_pull_requests")
+				.withIndex("by_repositoryId_and_state_and_githubUpdatedAt", (q) =>
+					q.eq("repositoryId", repositoryId).eq("state", state),
+				)
+				.order("desc")
+				.take(LABEL_RENAME_SCAN_LIMIT);
+			for (const pr of prs) {
+				if (!pr.labelNames?.includes(previousName)) continue;
+				yield* ctx.db.patch(pr._id, { labelNames: rename(pr.labelNames) });
+			}
+		}
+	});
+
+/**
+ * Handle `release` events: created, published, edited, prereleased,
+ * released, unpublished, deleted
+ */
+const handleReleaseEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const action = str(payload.action);
+		const release = obj(payload.release);
+		const githubReleaseId = num(release.id);
+		const tagName = str(release.tag_name);
+
+		if (githubReleaseId === null || tagName === null) return;
+
+		const existing = yield* ctx.db
+			.query("github_releases")
+			.withIndex("by_repositoryId_and_githubReleaseId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("githubReleaseId", githubReleaseId),
+			)
+			.first();
+		const deleted = yield* ctx.db
+			.query("github_deleted_releases")
+			.withIndex("by_repositoryId_and_githubReleaseId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("githubReleaseId", githubReleaseId),
+			)
+			.first();
+
+		if (action === "deleted") {
+			if (Option.isSome(existing)) {
+				yield* ctx.db.delete(existing.value._id);
+			}
+			if (Option.isNone(deleted)) {
+				yield* ctx.db.insert("github_deleted_releases", {
+					repositoryId,
+					githubReleaseId,
+					deletedAt: Date.now(),
+				});
+			}
+			return;
+		}
+
+		// Deliveries can arrive out of order — a deleted release stays deleted
+		if (Option.isSome(deleted)) return;
+
+		const now = Date.now();
+		const author = extractUser(release.author);
+		if (author) yield* upsertUser(author);
+
+		const data = {
+			repositoryId,
+			githubReleaseId,
+			tagName,
+			name: str(release.name),
+			body: str(release.body),
+			draft: bool(release.draft),
+			prerelease: bool(release.prerelease),
+			authorUserId: author?.githubUserId ?? null,
+			targetCommitish: str(release.target_commitish) ?? "",
+			htmlUrl: str(release.html_url),
+			createdAt: isoToMs(release.created_at) ?? now,
+			publishedAt: isoToMs(release.published_at),
+			cachedAt: now,
+		};
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.patch(existing.value._id, data);
+		} else {
+			yield* ctx.db.insert("github_releases", data);
+		}
+	});
+
+/**
+ * Accepted answers only surface as `answer_html_url`
+ * (`.../discussions/1#discussioncomment-123`) on the discussion object.
+ */
+const parseAnswerCommentId = (answerHtmlUrl: string | null) => {
+	const match = answerHtmlUrl?.match(/#discussioncomment-(\d+)$/);
+	return match?.[1] === undefined ? null : Number(match[1]);
+};
+
+/**
+ * Upsert a discussion from the `discussion` object carried by both
+ * `discussion` and `discussion_comment` payloads. Webhooks don't report
+ * upvotes, so the count from the last GraphQL sync is kept.
+ */
+const upsertDiscussionFromPayload = (
+	discussion: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const githubDiscussionId = num(discussion.id);
+		const number = num(discussion.number);
+		const title = str(discussion.title);
+
+		if (githubDiscussionId === null || number === null || title === null) {
+			return;
+		}
+
+		const now = Date.now();
+		const author = extractUser(discussion.user);
+		if (author) yield* upsertUser(author);
+
+		const existing = yield* ctx.db
+			.query("github_discussions")
+			.withIndex("by_repositoryId_and_number", (q) =>
+				q.eq("repositoryId", repositoryId).eq("number", number),
+			)
+			.first();
+
+		const category = obj(discussion.category);
+		const state: "open" | "closed" =
+			str(discussion.state) === "closed" ? "closed" : "open";
+		const githubUpdatedAt = isoToMs(discussion.updated_at) ?? now;
+		const previousClosedAt = Option.isSome(existing)
+			? existing.value.closedAt
+			: null;
+
+		const data = {
+			repositoryId,
+			githubDiscussionId,
+			number,
+			state,
+			stateReason: str(discussion.state_reason),
+			title,
+			body: str(discussion.body),
+			authorUserId: author?.githubUserId ?? null,
+			categoryName: str(category.name),
+			categoryIsAnswerable: bool(category.is_answerable),
+			answerCommentId: parseAnswerCommentId(str(discussion.answer_html_url)),
+			answerChosenAt: isoToMs(discussion.answer_chosen_at),
+			locked: bool(discussion.locked),
+			commentCount: num(discussion.comments) ?? 0,
+			htmlUrl: str(discussion.html_url),
+			createdAt: isoToMs(discussion.created_at) ?? now,
+			closedAt:
+				state === "closed" ? (previousClosedAt ?? githubUpdatedAt) : null,
+			githubUpdatedAt,
+			cachedAt: now,
+		};
+
+		if (Option.isSome(existing)) {
+			if (githubUpdatedAt >= existing.value.githubUpdatedAt) {
+				yield* ctx.db.patch(existing.value._id, data);
+			}
+		} else {
+			yield* ctx.db.insert("github_discussions", { ...data, upvoteCount: 0 });
+		}
+	});
+
+/**
+ * Handle `discussion` events: created, edited, deleted, answered,
+ * unanswered, closed, reopened, locked, unlocked, category_changed, ...
+ */
+const handleDiscussionEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const action = str(payload.action);
+		const discussion = obj(payload.discussion);
+		const number = num(discussion.number);
+
+		if (number === null) return;
+
+		if (action === "deleted" || action === "transferred") {
+			const existing = yield* ctx.db
+				.query("github_discussions")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", repositoryId).eq("number", number),
+				)
+				.first();
+			if (Option.isSome(existing)) {
+				yield* ctx.db.delete(existing.value._id);
+			}
+			const comments = yield* ctx.db
+				.query("github_discussion_comments")
+				.withIndex("by_repositoryId_and_discussionNumber", (q) =>
+					q.eq("repositoryId", repositoryId).eq("discussionNumber", number),
+				)
+				.collect();
+			for (const comment of comments) {
+				yield* ctx.db.delete(comment._id);
+			}
+			return;
+		}
+
+		yield* upsertDiscussionFromPayload(discussion, repositoryId);
+	});
+
+/**
+ * Handle `discussion_comment` events: created, edited, deleted.
+ * The payload carries the parent discussion, which refreshes its comment
+ * count.
+ */
+const handleDiscussionCommentEvent = (
+	payload: Record<string, unknown>,
+	repositoryId: number,
+) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const now = Date.now();
+		const action = str(payload.action);
+		const comment = obj(payload.comment);
+		const discussion = obj(payload.discussion);
+		const githubCommentId = num(comment.id);
+		const discussionNumber = num(discussion.number);
+
+		if (githubCommentId === null || discussionNumber === null) return;
+
+		yield* upsertDiscussionFromPayload(discussion, repositoryId);
+
+		const existing = yield* ctx.db
+			.query("github_discussion_comments")
+			.withIndex("by_repositoryId_and_githubCommentId", (q) =>
+				q
+					.eq("repositoryId", repositoryId)
+					.eq("githubCommentId", githubCommentId),
+			)
+			.first();
+
+		if (action === "deleted") {
+			if (Option.isSome(existing)) {
+				yield* ctx.db.delete(existing.value._id);
+			}
+			return;
+		}
+
+		const author = extractUser(comment.user);
+		if (author) yield* upsertUser(author);
+
+		const data = {
+			repositoryId,
+			discussionNumber,
+			githubCommentId,
+			parentCommentId: num(comment.parent_id),
+			authorUserId: author?.githubUserId ?? null,
+			body: str(comment.body) ?? "",
+			createdAt: isoToMs(comment.created_at) ?? now,
+			updatedAt: isoToMs(comment.updated_at) ?? now,
+		};
+
+		if (Option.isSome(existing)) {
+			yield* ctx.db.patch(existing.value._id, data);
+		} else {
+			yield* ctx.db.insert("github_discussion_comments", {
+				...data,
+				upvoteCount: 0,
+			});
+		}
+	});
+
+// ---------------------------------------------------------------------------
+// Repository lifecycle handler
+// ---------------------------------------------------------------------------
+
+const toRepositoryVisibility = (
+	value: string | null,
+	isPrivate: boolean,
+): "public" | "private" | "internal" =>
+	value === "public" || value === "private" || value === "internal"
+		? value
+		: isPrivate
+			? "private"
+			: "public";
+
+/**
+ * Handle `repository` events for a mirrored repo.
+ *
+ * - `renamed` / `transferred` → rewrite owner and name, leaving a redirect
+ *   behind so the old `/:owner/:name` keeps resolving
+ * - `archived` / `unarchived` / `privatized` / `publicized` / `edited` →
+ *   refresh flags from the payload
+ * - `deleted` → drop the repo row and its permissions, then purge mirrored
+ *   rows in the background
  */
-const handleDeleteEvent = (
+const handleRepositoryEvent = (
 	payload: Record<string, unknown>,
 	repositoryId: number,
 ) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		const refType = str(payload.ref_type);
-		const ref = str(payload.ref);
-
-		if (refType !== "branch" || !ref) return;
+		const action = str(payload.action);
 
 		const existing = yield* ctx.db
-			.query("github_branches")
-			.withIndex("by_repositoryId_and_name", (q) =>
-				q.eq("repositoryId", repositoryId).eq("name", ref),
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) => q.eq("githubRepoId", repositoryId))
+			.first();
+		if (Option.isNone(existing)) return;
+		const repoDoc = existing.value;
+
+		if (action === "deleted") {
+			const permissions = yield* ctx.db
+				.query("github_user_repo_permissions")
+				.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+				.collect();
+			for (const permission of permissions) {
+				yield* ctx.db.delete(permission._id);
+			}
+
+			const redirects = yield* ctx.db
+				.query("github_repository_redirects")
+				.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+				.collect();
+			for (const redirect of redirects) {
+				yield* ctx.db.delete(redirect._id);
+			}
+
+			const bootstrapJob = yield* ctx.db
+				.query("github_sync_jobs")
+				.withIndex("by_lockKey", (q) =>
+					q.eq(
+						"lockKey",
+						`repo-bootstrap:${repoDoc.installationId}:${repositoryId}`,
+					),
+				)
+				.first();
+			if (Option.isSome(bootstrapJob)) {
+				yield* ctx.db.delete(bootstrapJob.value._id);
+			}
+
+			yield* ctx.db.delete(repoDoc._id);
+
+			// Issues, PRs, checks etc. can run to tens of thousands of rows —
+			// clear them in bounded passes rather than inside the webhook.
+			yield* Effect.promise(() =>
+				ctx.scheduler.runAfter(
+					0,
+					internal.rpc.webhookProcessor.purgeRepositoryData,
+					{ repositoryId },
+				),
+			);
+			console.info(
+				`[webhookProcessor] Repository deleted: ${repoDoc.fullName} (${repositoryId}) permissions=${permissions.length}`,
+			);
+			return;
+		}
+
+		const repo = obj(payload.repository);
+		const owner = obj(repo.owner);
+		const ownerLogin = str(owner.login) ?? repoDoc.ownerLogin;
+		const name = str(repo.name) ?? repoDoc.name;
+		const isPrivate =
+			repo.private === undefined ? repoDoc.private : bool(repo.private);
+		const now = Date.now();
+
+		yield* ctx.db.patch(repoDoc._id, {
+			ownerId: num(owner.id) ?? repoDoc.ownerId,
+			ownerLogin,
+			name,
+			fullName: str(repo.full_name) ?? `${ownerLogin}/${name}`,
+			private: isPrivate,
+			visibility: toRepositoryVisibility(str(repo.visibility), isPrivate),
+			defaultBranch: str(repo.default_branch) ?? repoDoc.defaultBranch,
+			archived:
+				repo.archived === undefined ? repoDoc.archived : bool(repo.archived),
+			disabled:
+				repo.disabled === undefined ? repoDoc.disabled : bool(repo.disabled),
+			pushedAt: isoToMs(repo.pushed_at) ?? repoDoc.pushedAt,
+			githubUpdatedAt: isoToMs(repo.updated_at) ?? now,
+			cachedAt: now,
+		});
+
+		if (ownerLogin === repoDoc.ownerLogin && name === repoDoc.name) return;
+
+		// Renaming back to a former name must not bounce through its own redirect
+		const shadowed = yield* ctx.db
+			.query("github_repository_redirects")
+			.withIndex("by_fromOwnerLogin_and_fromName", (q) =>
+				q.eq("fromOwnerLogin", ownerLogin).eq("fromName", name),
 			)
 			.first();
+		if (Option.isSome(shadowed)) {
+			yield* ctx.db.delete(shadowed.value._id);
+		}
 
-		if (Option.isSome(existing)) {
-			yield* ctx.db.delete(existing.value._id);
+		const previous = yield* ctx.db
+			.query("github_repository_redirects")
+			.withIndex("by_fromOwnerLogin_and_fromName", (q) =>
+				q.eq("fromOwnerLogin", repoDoc.ownerLogin).eq("fromName", repoDoc.name),
+			)
+			.first();
+		if (Option.isSome(previous)) {
+			yield* ctx.db.patch(previous.value._id, {
+				repositoryId,
+				createdAt: now,
+			});
+		} else {
+			yield* ctx.db.insert("github_repository_redirects", {
+				fromOwnerLogin: repoDoc.ownerLogin,
+				fromName: repoDoc.name,
+				repositoryId,
+				createdAt: now,
+			});
 		}
+
+		console.info(
+			`[webhookProcessor] Repository ${action ?? "updated"}: ${repoDoc.fullName} -> ${ownerLogin}/${name}`,
+		);
 	});
 
 // ---------------------------------------------------------------------------
@@ -1411,6 +2527,10 @@ const dispatchHandler = (
 			handlePullRequestReviewCommentEvent(payload, repositoryId),
 		),
 		Match.when("check_run", () => handleCheckRunEvent(payload, repositoryId)),
+		Match.when("check_suite", () =>
+			handleCheckSuiteEvent(payload, repositoryId),
+		),
+		Match.when("status", () => handleStatusEvent(payload, repositoryId)),
 		Match.when("workflow_run", () =>
 			handleWorkflowRunEvent(payload, repositoryId),
 		),
@@ -1419,6 +2539,18 @@ const dispatchHandler = (
 		),
 		Match.when("create", () => handleCreateEvent(payload, repositoryId)),
 		Match.when("delete", () => handleDeleteEvent(payload, repositoryId)),
+		Match.when("milestone", () => handleMilestoneEvent(payload, repositoryId)),
+		Match.when("label", () => handleLabelEvent(payload, repositoryId)),
+		Match.when("release", () => handleReleaseEvent(payload, repositoryId)),
+		Match.when("discussion", () =>
+			handleDiscussionEvent(payload, repositoryId),
+		),
+		Match.when("discussion_comment", () =>
+			handleDiscussionCommentEvent(payload, repositoryId),
+		),
+		Match.when("repository", () =>
+			handleRepositoryEvent(payload, repositoryId),
+		),
 		Match.orElse(() => Effect.void),
 	);
 
@@ -1495,6 +2627,8 @@ const extractActivityInfo = (
 		}),
 		Match.when("push", () => {
 			const ref = str(payload.ref);
+			// Tags surface through `release` events instead
+			if (ref?.startsWith("refs/tags/")) return null;
 			const branchName = ref?.startsWith("refs/heads/")
 				? ref.slice("refs/heads/".length)
 				: ref;
@@ -1554,6 +2688,19 @@ const extractActivityInfo = (
 				entityNumber: null,
 			};
 		}),
+		Match.when("status", () => {
+			const state = str(payload.state);
+			// Only emit activity once the status has settled
+			if (state === null || state === "pending") return null;
+			return {
+				activityType: `status.${state}`,
+				title: str(payload.context) ?? "Status",
+				description: str(payload.description),
+				actorLogin,
+				actorAvatarUrl,
+				entityNumber: null,
+			};
+		}),
 		Match.when("workflow_run", () => {
 			const workflowRun = obj(payload.workflow_run);
 			const name = str(workflowRun.name) ?? "Workflow";
@@ -1596,6 +2743,81 @@ const extractActivityInfo = (
 				entityNumber: null,
 			};
 		}),
+		Match.when("milestone", () => {
+			const milestone = obj(payload.milestone);
+			// Edits are noisy (due date tweaks etc.) — only surface lifecycle changes
+			if (action === "edited") return null;
+			return {
+				activityType: `milestone.${action ?? "updated"}`,
+				title: str(milestone.title) ?? "",
+				description: null,
+				actorLogin,
+				actorAvatarUrl,
+				entityNumber: null,
+			};
+		}),
+		Match.when("release", () => {
+			// A publish also fires `created` and `released` — surface it once
+			if (action !== "published") return null;
+			const release = obj(payload.release);
+			const tagName = str(release.tag_name) ?? "unknown";
+			return {
+				activityType: "release.published",
+				title: str(release.name) ?? tagName,
+				description: bool(release.prerelease)
+					? `Pre-release ${tagName}`
+					: tagName,
+				actorLogin,
+				actorAvatarUrl,
+				entityNumber: null,
+			};
+		}),
+		Match.when("discussion", () => {
+			if (action !== "created" && action !== "answered") return null;
+			const discussion = obj(payload.discussion);
+			const category = str(obj(discussion.category).name);
+			return {
+				activityType: `discussion.${action}`,
+				title: str(discussion.title) ?? "",
+				description:
+					action === "answered"
+						? (str(obj(payload.answer).body)?.slice(0, 200) ?? null)
+						: category,
+				actorLogin,
+				actorAvatarUrl,
+				entityNumber: num(discussion.number),
+			};
+		}),
+		Match.when("discussion_comment", () => {
+			if (action !== "created") return null;
+			const discussion = obj(payload.discussion);
+			return {
+				activityType: "discussion_comment.created",
+				title: str(discussion.title) ?? "",
+				description: str(obj(payload.comment).body)?.slice(0, 200) ?? null,
+				actorLogin,
+				actorAvatarUrl,
+				entityNumber: num(discussion.number),
+			};
+		}),
+		Match.when("repository", () => {
+			// Edits are settings churn and a deleted repo has no feed to show
+			if (action === null || action === "edited" || action === "deleted") {
+				return null;
+			}
+			const previousName = str(
+				obj(obj(obj(payload.changes).repository).name).from,
+			);
+			return {
+				activityType: `repository.${action}`,
+				title: str(obj(payload.repository).full_name) ?? "",
+				description:
+					previousName === null ? null : `Renamed from ${previousName}`,
+				actorLogin,
+				actorAvatarUrl,
+				entityNumber: null,
+			};
+		}),
 		Match.orElse(() => null),
 	);
 };
@@ -1619,6 +2841,12 @@ const PENDING_LOOKAHEAD_MULTIPLIER = 6;
  */
 const INLINE_INSTALLATION_ADDED_UPSERT_LIMIT = 10;
 
+/**
+ * Mirrored rows removed per `purgeRepositoryData` pass. Each pass reschedules
+ * itself until a deleted repository has nothing left.
+ */
+const REPOSITORY_PURGE_BATCH_SIZE = 200;
+
 /** Maximum processing attempts before dead-lettering */
 const MAX_ATTEMPTS = 5;
 
@@ -1877,6 +3105,20 @@ const getQueueHealthDef = factory.internalQuery({
 	}),
 });
 
+/**
+ * Delete the mirrored rows of a repository removed by a `repository.deleted`
+ * webhook, one bounded batch per invocation.
+ */
+const purgeRepositoryDataDef = factory.internalMutation({
+	payload: {
+		repositoryId: Schema.Number,
+	},
+	success: Schema.Struct({
+		deleted: Schema.Number,
+		done: Schema.Boolean,
+	}),
+});
+
 // ---------------------------------------------------------------------------
 // Implementations
 // ---------------------------------------------------------------------------
@@ -2264,6 +3506,336 @@ getQueueHealthDef.implement(() =>
 	}),
 );
 
+purgeRepositoryDataDef.implement((args) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const { repositoryId } = args;
+
+		// The repo was re-added since it was deleted — its rows are live again
+		const repository = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) => q.eq("githubRepoId", repositoryId))
+			.first();
+		if (Option.isSome(repository)) return { deleted: 0, done: true };
+
+		let deleted = 0;
+		const budget = () => REPOSITORY_PURGE_BATCH_SIZE - deleted;
+		const purge = <D extends { readonly _id: GenericId<string> }>(
+			rows: Effect.Effect<Array<D>>,
+			untrack: (doc: D) => Effect.Effect<unknown> = () => Effect.void,
+		) =>
+			Effect.gen(function* () {
+				if (budget() <= 0) return;
+				for (const doc of yield* rows) {
+					yield* untrack(doc);
+					yield* ctx.db.delete(doc._id);
+					deleted += 1;
+				}
+			});
+
+		// Aggregate-backed tables first so counts never outlive their rows
+		yield* purge(
+			ctx.db
+				.query("github_pull_requests")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+			(doc) => syncPrDelete(ctx.rawCtx, doc),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_issues")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+			(doc) => syncIssueDelete(ctx.rawCtx, doc),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_check_runs")
+				.withIndex("by_repositoryId_and_githubCheckRunId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+			(doc) => syncCheckRunDelete(ctx.rawCtx, doc),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_issue_comments")
+				.withIndex("by_repositoryId_and_issueNumber", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+			(doc) => syncCommentDelete(ctx.rawCtx, doc),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_pull_request_reviews")
+				.withIndex("by_repositoryId_and_pullRequestNumber", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+			(doc) => syncReviewDelete(ctx.rawCtx, doc),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_workflow_jobs")
+				.withIndex("by_repositoryId_and_githubJobId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+			(doc) => syncJobDelete(ctx.rawCtx, doc),
+		);
+
+		yield* purge(
+			ctx.db
+				.query("github_pull_request_review_comments")
+				.withIndex("by_repositoryId_and_pullRequestNumber", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_pull_request_creates")
+				.withIndex("by_repositoryId_and_createdAt", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_pull_request_files")
+				.withIndex("by_repositoryId_and_pullRequestNumber_and_headSha", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_reactions")
+				.withIndex("by_repositoryId_and_subjectType_and_subjectId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_reaction_syncs")
+				.withIndex(
+					"by_repositoryId_and_subjectType_and_subjectId_and_githubUserId",
+					(q) => q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_timeline_events")
+				.withIndex("by_repositoryId_and_issueNumber_and_createdAt", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_issue_references")
+				.withIndex("by_repositoryId_and_sourceKey", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_discussions")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_discussion_comments")
+				.withIndex("by_repositoryId_and_discussionNumber", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_milestones")
+				.withIndex("by_repositoryId_and_number", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_deleted_milestones")
+				.withIndex("by_repositoryId_and_githubMilestoneId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_labels")
+				.withIndex("by_repositoryId_and_name", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_check_suites")
+				.withIndex("by_repositoryId_and_githubCheckSuiteId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_check_annotations")
+				.withIndex("by_repositoryId_and_headSha_and_path", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_commit_statuses")
+				.withIndex("by_repositoryId_and_sha_and_context", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_workflow_runs")
+				.withIndex("by_repositoryId_and_githubRunId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_branches")
+				.withIndex("by_repositoryId_and_name", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_commits")
+				.withIndex("by_repositoryId_and_sha", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_tags")
+				.withIndex("by_repositoryId_and_name", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_releases")
+				.withIndex("by_repositoryId_and_githubReleaseId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_deleted_releases")
+				.withIndex("by_repositoryId_and_githubReleaseId", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_tree_cache")
+				.withIndex("by_repositoryId_and_sha", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_file_cache")
+				.withIndex("by_repositoryId_and_sha", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_issue_template_cache")
+				.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_issue_template_config")
+				.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("view_activity_feed")
+				.withIndex("by_repositoryId_and_createdAt", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_saved_views")
+				.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_file_read_state")
+				.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_outbound_deliveries")
+				.withIndex("by_repositoryId_and_createdAt", (q) =>
+					q.eq("repositoryId", repositoryId),
+				)
+				.take(budget()),
+		);
+		yield* purge(
+			ctx.db
+				.query("github_outbound_integrations")
+				.withIndex("by_repositoryId", (q) => q.eq("repositoryId", repositoryId))
+				.take(budget()),
+		);
+
+		const done = deleted < REPOSITORY_PURGE_BATCH_SIZE;
+		if (!done) {
+			yield* Effect.promise(() =>
+				ctx.scheduler.runAfter(
+					0,
+					internal.rpc.webhookProcessor.purgeRepositoryData,
+					{ repositoryId },
+				),
+			);
+		}
+
+		return { deleted, done };
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Module
 // ---------------------------------------------------------------------------
@@ -2274,6 +3846,7 @@ const webhookProcessorModule = makeRpcModule(
 		processAllPending: processAllPendingDef,
 		promoteRetryEvents: promoteRetryEventsDef,
 		getQueueHealth: getQueueHealthDef,
+		purgeRepositoryData: purgeRepositoryDataDef,
 	},
 	{ middlewares: DatabaseRpcModuleMiddlewares },
 );
@@ -2283,6 +3856,7 @@ export const {
 	processAllPending,
 	promoteRetryEvents,
 	getQueueHealth,
+	purgeRepositoryData,
 } = webhookProcessorModule.handlers;
 export { webhookProcessorModule };
 export type WebhookProcessorModule = typeof webhookProcessorModule;
@@ -1,5 +1,11 @@
 import { defineSchema, defineTable } from "@packages/confect/schema";
 import { Schema } from "effect";
+import {
+	IssueFormElement,
+	IssueTemplateContactLink,
+} from "./shared/issueForms";
+import { ReactionSummarySchema } from "./shared/reactions";
+import { TimelineEventInputSchema } from "./shared/timelineEvents";
 
 // ============================================================
 // A) Control + Ingestion Tables
@@ -16,6 +22,13 @@ const GitHubInstallationSchema = Schema.Struct({
 	updatedAt: Schema.Number,
 });
 
+/**
+ * How bootstrap fetches pull requests: REST list pages plus per-SHA check
+ * runs, or one paginated GraphQL query that also returns reviews, labels,
+ * assignees, review requests and status check rollups.
+ */
+export const BootstrapStrategySchema = Schema.Literal("rest", "graphql");
+
 const GitHubSyncJobSchema = Schema.Struct({
 	jobType: Schema.Literal("backfill", "reconcile", "replay"),
 	scopeType: Schema.Literal("installation", "repository", "entity"),
@@ -45,6 +58,12 @@ const GitHubSyncJobSchema = Schema.Struct({
 	 * Uses negative stargazer count so higher-star repos run earlier.
 	 */
 	prioritySortKey: Schema.optional(Schema.Number),
+	/** Strategy the current bootstrap run uses for pull requests */
+	bootstrapStrategy: Schema.optional(BootstrapStrategySchema),
+	/** GitHub requests spent on pull requests and their checks this run */
+	githubRequestCount: Schema.optional(Schema.Number),
+	/** GraphQL runs only: REST requests the same data would have taken */
+	restRequestEstimate: Schema.optional(Schema.Number),
 	createdAt: Schema.Number,
 	updatedAt: Schema.Number,
 });
@@ -78,7 +97,7 @@ const GitHubDeadLetterSchema = Schema.Struct({
 	createdAt: Schema.Number,
 	/** Discriminates where the dead letter originated from. */
 	source: Schema.optionalWith(
-		Schema.Literal("webhook", "bootstrap", "replay"),
+		Schema.Literal("webhook", "bootstrap", "replay", "outbound"),
 		{ default: () => "webhook" },
 	),
 });
@@ -104,6 +123,19 @@ const GitHubOrganizationSchema = Schema.Struct({
 	updatedAt: Schema.Number,
 });
 
+/**
+ * Organization teams, mirrored from the `requested_teams` of pull request
+ * payloads so team review requests can be resolved to a slug and name.
+ */
+const GitHubTeamSchema = Schema.Struct({
+	githubTeamId: Schema.Number,
+	orgLogin: Schema.String,
+	slug: Schema.String,
+	name: Schema.String,
+	description: Schema.NullOr(Schema.String),
+	updatedAt: Schema.Number,
+});
+
 const GitHubRepositorySchema = Schema.Struct({
 	githubRepoId: Schema.Number,
 	installationId: Schema.Number,
@@ -128,6 +160,19 @@ const GitHubRepositorySchema = Schema.Struct({
 	 */
 	connectedByUserId: Schema.optional(Schema.NullOr(Schema.String)),
 	stargazersCount: Schema.optional(Schema.Number),
+	/** Defaults to "rest"; large repos can opt into "graphql" */
+	bootstrapStrategy: Schema.optional(BootstrapStrategySchema),
+});
+
+/**
+ * A previous owner/name of a renamed or transferred repository, kept so old
+ * `/:owner/:name` URLs keep resolving after the `repository` webhook lands.
+ */
+const GitHubRepositoryRedirectSchema = Schema.Struct({
+	fromOwnerLogin: Schema.String,
+	fromName: Schema.String,
+	repositoryId: Schema.Number,
+	createdAt: Schema.Number,
 });
 
 const GitHubBranchSchema = Schema.Struct({
@@ -152,6 +197,39 @@ const GitHubCommitSchema = Schema.Struct({
 	cachedAt: Schema.Number,
 });
 
+const GitHubTagSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	name: Schema.String,
+	sha: Schema.String,
+	cachedAt: Schema.Number,
+});
+
+const GitHubReleaseSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubReleaseId: Schema.Number,
+	tagName: Schema.String,
+	name: Schema.NullOr(Schema.String),
+	body: Schema.NullOr(Schema.String),
+	draft: Schema.Boolean,
+	prerelease: Schema.Boolean,
+	authorUserId: Schema.NullOr(Schema.Number),
+	targetCommitish: Schema.String,
+	htmlUrl: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+	publishedAt: Schema.NullOr(Schema.Number),
+	cachedAt: Schema.Number,
+});
+
+/**
+ * Releases deleted on GitHub. Release payloads carry no `updated_at`, so
+ * this is what stops a late `edited` delivery from bringing one back.
+ */
+const GitHubDeletedReleaseSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubReleaseId: Schema.Number,
+	deletedAt: Schema.Number,
+});
+
 const GitHubPullRequestSchema = Schema.Struct({
 	repositoryId: Schema.Number,
 	githubPrId: Schema.Number,
@@ -163,7 +241,9 @@ const GitHubPullRequestSchema = Schema.Struct({
 	authorUserId: Schema.NullOr(Schema.Number),
 	assigneeUserIds: Schema.Array(Schema.Number),
 	requestedReviewerUserIds: Schema.Array(Schema.Number),
+	requestedReviewerTeamIds: Schema.optional(Schema.Array(Schema.Number)),
 	labelNames: Schema.optional(Schema.Array(Schema.String)),
+	locked: Schema.optional(Schema.Boolean),
 	baseRefName: Schema.String,
 	headRefName: Schema.String,
 	headSha: Schema.String,
@@ -172,6 +252,8 @@ const GitHubPullRequestSchema = Schema.Struct({
 	closedAt: Schema.NullOr(Schema.Number),
 	githubUpdatedAt: Schema.Number,
 	cachedAt: Schema.Number,
+	/** When `onDemandSync.syncTimeline` last backfilled this item's timeline */
+	timelineBackfilledAt: Schema.optional(Schema.NullOr(Schema.Number)),
 	optimisticCorrelationId: Schema.optional(Schema.NullOr(Schema.String)),
 	optimisticOperationType: Schema.optional(
 		Schema.NullOr(
@@ -181,6 +263,11 @@ const GitHubPullRequestSchema = Schema.Struct({
 				"update_pull_request_branch",
 				"update_labels",
 				"update_assignees",
+				"request_reviewers",
+				"remove_reviewers",
+				"update_title_body",
+				"convert_pull_request_draft",
+				"update_lock_state",
 			),
 		),
 	),
@@ -193,6 +280,33 @@ const GitHubPullRequestSchema = Schema.Struct({
 	optimisticPayloadJson: Schema.optional(Schema.NullOr(Schema.String)),
 });
 
+/**
+ * Pull requests opened through `githubWrite.createPullRequest`. No mirrored
+ * row exists until GitHub assigns a number, so the write's optimistic state
+ * lives here: `completed` once GitHub returns the number, `confirmed` when
+ * the `opened` webhook arrives.
+ */
+const GitHubPullRequestCreateSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	correlationId: Schema.String,
+	title: Schema.String,
+	body: Schema.NullOr(Schema.String),
+	baseRefName: Schema.String,
+	headRefName: Schema.String,
+	draft: Schema.Boolean,
+	number: Schema.NullOr(Schema.Number),
+	optimisticState: Schema.Literal(
+		"pending",
+		"completed",
+		"failed",
+		"confirmed",
+	),
+	optimisticErrorMessage: Schema.NullOr(Schema.String),
+	optimisticErrorStatus: Schema.NullOr(Schema.Number),
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
 const GitHubPullRequestReviewSchema = Schema.Struct({
 	repositoryId: Schema.Number,
 	pullRequestNumber: Schema.Number,
@@ -233,6 +347,19 @@ const GitHubPullRequestReviewCommentSchema = Schema.Struct({
 	htmlUrl: Schema.NullOr(Schema.String),
 	createdAt: Schema.Number,
 	updatedAt: Schema.Number,
+	reactions: Schema.optional(Schema.NullOr(ReactionSummarySchema)),
+	optimisticCorrelationId: Schema.optional(Schema.NullOr(Schema.String)),
+	optimisticOperationType: Schema.optional(
+		Schema.NullOr(Schema.Literal("update_comment", "delete_comment")),
+	),
+	optimisticState: Schema.optional(
+		Schema.NullOr(Schema.Literal("pending", "failed", "confirmed")),
+	),
+	optimisticErrorMessage: Schema.optional(Schema.NullOr(Schema.String)),
+	optimisticErrorStatus: Schema.optional(Schema.NullOr(Schema.Number)),
+	optimisticUpdatedAt: Schema.optional(Schema.NullOr(Schema.Number)),
+	/** For `update_comment`: `{ previousBody }`, restored if GitHub rejects the edit */
+	optimisticPayloadJson: Schema.optional(Schema.NullOr(Schema.String)),
 });
 
 const GitHubIssueSchema = Schema.Struct({
@@ -247,9 +374,15 @@ const GitHubIssueSchema = Schema.Struct({
 	labelNames: Schema.Array(Schema.String),
 	commentCount: Schema.Number,
 	isPullRequest: Schema.Boolean,
+	locked: Schema.optional(Schema.Boolean),
+	/** Number of the milestone this issue belongs to (see `github_milestones`). */
+	milestoneNumber: Schema.optional(Schema.NullOr(Schema.Number)),
+	reactions: Schema.optional(Schema.NullOr(ReactionSummarySchema)),
 	closedAt: Schema.NullOr(Schema.Number),
 	githubUpdatedAt: Schema.Number,
 	cachedAt: Schema.Number,
+	/** When `onDemandSync.syncTimeline` last backfilled this item's timeline */
+	timelineBackfilledAt: Schema.optional(Schema.NullOr(Schema.Number)),
 	optimisticCorrelationId: Schema.optional(Schema.NullOr(Schema.String)),
 	optimisticOperationType: Schema.optional(
 		Schema.NullOr(
@@ -260,6 +393,8 @@ const GitHubIssueSchema = Schema.Struct({
 				"merge_pull_request",
 				"update_labels",
 				"update_assignees",
+				"update_title_body",
+				"update_lock_state",
 			),
 		),
 	),
@@ -272,6 +407,46 @@ const GitHubIssueSchema = Schema.Struct({
 	optimisticPayloadJson: Schema.optional(Schema.NullOr(Schema.String)),
 });
 
+const GitHubMilestoneSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubMilestoneId: Schema.Number,
+	number: Schema.Number,
+	title: Schema.String,
+	description: Schema.NullOr(Schema.String),
+	state: Schema.Literal("open", "closed"),
+	creatorUserId: Schema.NullOr(Schema.Number),
+	/** Open issue + PR count as reported by GitHub */
+	openIssueCount: Schema.Number,
+	/** Closed issue + PR count as reported by GitHub */
+	closedIssueCount: Schema.Number,
+	dueOn: Schema.NullOr(Schema.Number),
+	closedAt: Schema.NullOr(Schema.Number),
+	githubUpdatedAt: Schema.Number,
+	cachedAt: Schema.Number,
+});
+
+/**
+ * Milestones deleted on GitHub. Once the row is gone there is no
+ * `updated_at` left to compare, so this stops a late `edited` delivery (or
+ * an issue payload still carrying the milestone) from bringing one back.
+ */
+const GitHubDeletedMilestoneSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubMilestoneId: Schema.Number,
+	deletedAt: Schema.Number,
+});
+
+const GitHubLabelSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubLabelId: Schema.Number,
+	name: Schema.String,
+	/** 6-character hex code without the leading `#` */
+	color: Schema.String,
+	description: Schema.NullOr(Schema.String),
+	isDefault: Schema.Boolean,
+	cachedAt: Schema.Number,
+});
+
 const GitHubIssueCommentSchema = Schema.Struct({
 	repositoryId: Schema.Number,
 	issueNumber: Schema.Number,
@@ -280,9 +455,12 @@ const GitHubIssueCommentSchema = Schema.Struct({
 	body: Schema.String,
 	createdAt: Schema.Number,
 	updatedAt: Schema.Number,
+	reactions: Schema.optional(Schema.NullOr(ReactionSummarySchema)),
 	optimisticCorrelationId: Schema.optional(Schema.NullOr(Schema.String)),
 	optimisticOperationType: Schema.optional(
-		Schema.NullOr(Schema.Literal("create_comment")),
+		Schema.NullOr(
+			Schema.Literal("create_comment", "update_comment", "delete_comment"),
+		),
 	),
 	optimisticState: Schema.optional(
 		Schema.NullOr(Schema.Literal("pending", "failed", "confirmed")),
@@ -290,6 +468,132 @@ const GitHubIssueCommentSchema = Schema.Struct({
 	optimisticErrorMessage: Schema.optional(Schema.NullOr(Schema.String)),
 	optimisticErrorStatus: Schema.optional(Schema.NullOr(Schema.Number)),
 	optimisticUpdatedAt: Schema.optional(Schema.NullOr(Schema.Number)),
+	/** For `update_comment`: `{ previousBody }`, restored if GitHub rejects the edit */
+	optimisticPayloadJson: Schema.optional(Schema.NullOr(Schema.String)),
+});
+
+/**
+ * Non-comment timeline entries of an issue or pull request (labels,
+ * assignees, renames, references, force-pushes, ...). `issueNumber` is the
+ * PR number for pull requests.
+ */
+const GitHubTimelineEventSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	issueNumber: Schema.Number,
+	...TimelineEventInputSchema.fields,
+});
+
+/**
+ * A `#N` / URL reference from an issue or PR body, comment or commit headline
+ * to an issue or PR in the same repository. `sourceKey` identifies the source
+ * (`comment:<id>`, `commit:<sha>`, ...) whose edges are replaced together.
+ * `isClosing` marks closing-keyword references from PR bodies and commits.
+ */
+const GitHubIssueReferenceSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	sourceKey: Schema.String,
+	sourceType: Schema.Literal("issue", "pull_request", "comment", "commit"),
+	/** Issue or PR the source belongs to; null for commits */
+	sourceNumber: Schema.NullOr(Schema.Number),
+	commitSha: Schema.NullOr(Schema.String),
+	targetNumber: Schema.Number,
+	isClosing: Schema.Boolean,
+	createdAt: Schema.Number,
+});
+
+/**
+ * GitHub Discussions (mirrored from GraphQL during bootstrap and from
+ * `discussion` webhooks). `answerCommentId` points at the accepted answer in
+ * `github_discussion_comments`.
+ */
+const GitHubDiscussionSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubDiscussionId: Schema.Number,
+	number: Schema.Number,
+	state: Schema.Literal("open", "closed"),
+	/** `resolved`, `outdated`, `duplicate`, or `reopened` */
+	stateReason: Schema.NullOr(Schema.String),
+	title: Schema.String,
+	body: Schema.NullOr(Schema.String),
+	authorUserId: Schema.NullOr(Schema.Number),
+	categoryName: Schema.NullOr(Schema.String),
+	categoryIsAnswerable: Schema.Boolean,
+	answerCommentId: Schema.NullOr(Schema.Number),
+	answerChosenAt: Schema.NullOr(Schema.Number),
+	locked: Schema.Boolean,
+	commentCount: Schema.Number,
+	upvoteCount: Schema.Number,
+	htmlUrl: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+	closedAt: Schema.NullOr(Schema.Number),
+	githubUpdatedAt: Schema.Number,
+	cachedAt: Schema.Number,
+});
+
+const GitHubDiscussionCommentSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	discussionNumber: Schema.Number,
+	githubCommentId: Schema.Number,
+	/** Top-level comment this one replies to, null for top-level comments */
+	parentCommentId: Schema.NullOr(Schema.Number),
+	authorUserId: Schema.NullOr(Schema.Number),
+	body: Schema.String,
+	upvoteCount: Schema.Number,
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
+/**
+ * Individual reactions known to belong to a specific GitHub user. Used to
+ * answer "did the viewer react?" on top of the aggregate `reactions` rollup.
+ * Rows are written by `githubWrite.addReaction` / `removeReaction` and
+ * reconciled against GitHub by `githubWrite.syncViewerReactions`.
+ */
+const GitHubReactionSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	subjectType: Schema.Literal("issue", "issue_comment", "review_comment"),
+	/** Issue/PR number for `issue`, GitHub comment ID for the comment types */
+	subjectId: Schema.Number,
+	githubReactionId: Schema.NullOr(Schema.Number),
+	githubUserId: Schema.Number,
+	content: Schema.Literal(
+		"+1",
+		"-1",
+		"laugh",
+		"hooray",
+		"confused",
+		"heart",
+		"rocket",
+		"eyes",
+	),
+	createdAt: Schema.Number,
+	optimisticCorrelationId: Schema.optional(Schema.NullOr(Schema.String)),
+	optimisticOperationType: Schema.optional(
+		Schema.NullOr(Schema.Literal("add_reaction", "remove_reaction")),
+	),
+	optimisticState: Schema.optional(
+		Schema.NullOr(Schema.Literal("pending", "failed", "confirmed")),
+	),
+	optimisticErrorMessage: Schema.optional(Schema.NullOr(Schema.String)),
+	optimisticErrorStatus: Schema.optional(Schema.NullOr(Schema.Number)),
+	optimisticUpdatedAt: Schema.optional(Schema.NullOr(Schema.Number)),
+	/**
+	 * Whether the subject's counts still carry this pending write's local
+	 * +1/-1. A webhook rollup replaces the counts and clears it.
+	 */
+	optimisticCountAdjusted: Schema.optional(Schema.NullOr(Schema.Boolean)),
+});
+
+/**
+ * When a user's own reactions on a subject were last read from GitHub, so
+ * `githubWrite.syncViewerReactions` refetches them at most once per window.
+ */
+const GitHubReactionSyncSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	subjectType: Schema.Literal("issue", "issue_comment", "review_comment"),
+	subjectId: Schema.Number,
+	githubUserId: Schema.Number,
+	syncedAt: Schema.Number,
 });
 
 const GitHubPullRequestFileSchema = Schema.Struct({
@@ -327,6 +631,77 @@ const GitHubCheckRunSchema = Schema.Struct({
 	conclusion: Schema.NullOr(Schema.String),
 	startedAt: Schema.NullOr(Schema.Number),
 	completedAt: Schema.NullOr(Schema.Number),
+	checkSuiteId: Schema.optional(Schema.NullOr(Schema.Number)),
+	appSlug: Schema.optional(Schema.NullOr(Schema.String)),
+	appName: Schema.optional(Schema.NullOr(Schema.String)),
+	appAvatarUrl: Schema.optional(Schema.NullOr(Schema.String)),
+	detailsUrl: Schema.optional(Schema.NullOr(Schema.String)),
+	htmlUrl: Schema.optional(Schema.NullOr(Schema.String)),
+	outputTitle: Schema.optional(Schema.NullOr(Schema.String)),
+	outputSummary: Schema.optional(Schema.NullOr(Schema.String)),
+	annotationsCount: Schema.optional(Schema.NullOr(Schema.Number)),
+	/**
+	 * When `githubActions.syncCheckAnnotations` last stored this run's
+	 * annotations. Set even when GitHub returned none, so page loads stop
+	 * re-requesting them.
+	 */
+	annotationsFetchedAt: Schema.optional(Schema.NullOr(Schema.Number)),
+	/** When a page load last scheduled that sync; dedupes concurrent requests */
+	annotationsRequestedAt: Schema.optional(Schema.NullOr(Schema.Number)),
+});
+
+/**
+ * Annotations reported by a check run (lint errors, type errors, ...).
+ * Fetched on demand for failed runs and keyed by head SHA + path so they
+ * line up with `github_pull_request_files`.
+ */
+const GitHubCheckAnnotationSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	headSha: Schema.String,
+	githubCheckRunId: Schema.Number,
+	checkRunName: Schema.String,
+	path: Schema.String,
+	startLine: Schema.Number,
+	endLine: Schema.Number,
+	annotationLevel: Schema.Literal("notice", "warning", "failure"),
+	title: Schema.NullOr(Schema.String),
+	message: Schema.String,
+	rawDetails: Schema.NullOr(Schema.String),
+	cachedAt: Schema.Number,
+});
+
+/**
+ * Check suites group the check runs one GitHub App created for a commit.
+ */
+const GitHubCheckSuiteSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubCheckSuiteId: Schema.Number,
+	headSha: Schema.String,
+	headBranch: Schema.NullOr(Schema.String),
+	status: Schema.NullOr(Schema.String),
+	conclusion: Schema.NullOr(Schema.String),
+	appSlug: Schema.NullOr(Schema.String),
+	appName: Schema.NullOr(Schema.String),
+	appAvatarUrl: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
+/**
+ * Legacy commit statuses (`POST /statuses/{sha}`) reported by external CI
+ * such as Jenkins or Buildkite. GitHub's combined status keeps only the
+ * newest status per context, so one row is stored per (sha, context).
+ */
+const GitHubCommitStatusSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	githubStatusId: Schema.Number,
+	sha: Schema.String,
+	context: Schema.String,
+	state: Schema.Literal("error", "failure", "pending", "success"),
+	description: Schema.NullOr(Schema.String),
+	targetUrl: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
 });
 
 const GitHubWorkflowRunSchema = Schema.Struct({
@@ -450,18 +825,89 @@ const GitHubNotificationSchema = Schema.Struct({
 	lastReadAt: Schema.NullOr(Schema.Number),
 	/** Entity number parsed from subject URL (e.g. issue/PR number) */
 	entityNumber: Schema.NullOr(Schema.Number),
+	/** "Save for later" timestamp — local only, GitHub has no API for it */
+	savedAt: Schema.optional(Schema.NullOr(Schema.Number)),
+	/** Thread subscription changed from the inbox */
+	subscription: Schema.optional(
+		Schema.NullOr(Schema.Literal("muted", "unsubscribed")),
+	),
+	/** Set while a local read is still being pushed to GitHub, so polls don't revert it */
+	pendingReadAt: Schema.optional(Schema.NullOr(Schema.Number)),
+});
+
+/** Per-user state for the background notification poller */
+const GitHubNotificationPollStateSchema = Schema.Struct({
+	/** Better Auth user ID */
+	userId: Schema.String,
+	/** `Last-Modified` from the last 200 response, sent back as `If-Modified-Since` */
+	lastModified: Schema.NullOr(Schema.String),
+	/** Minimum seconds between polls, from GitHub's `X-Poll-Interval` header */
+	pollIntervalSeconds: Schema.Number,
+	/** Next time the cron should poll this user */
+	nextPollAt: Schema.Number,
+	lastPolledAt: Schema.NullOr(Schema.Number),
+	/** Last time the user synced or touched their inbox; drives idle backoff */
+	lastActiveAt: Schema.Number,
+	consecutiveFailures: Schema.Number,
 });
 
 // ============================================================
 // F) Code Cache (on-demand file tree + content)
 // ============================================================
 
+/**
+ * Conditional-request cache for GitHub GETs, keyed per token identity.
+ * A 304 is answered from `body`; per-entry hit/miss counters help find keys
+ * worth caching, while totals live in `github_http_cache_stats`.
+ */
+const GitHubHttpCacheSchema = Schema.Struct({
+	/** `identity|accept|url` — see `cacheKeyFor` in shared/githubApi.ts */
+	cacheKey: Schema.String,
+	url: Schema.String,
+	body: Schema.String,
+	contentType: Schema.NullOr(Schema.String),
+	etag: Schema.NullOr(Schema.String),
+	lastModified: Schema.NullOr(Schema.String),
+	/** Requests answered from `body` after a 304 */
+	hitCount: Schema.Number,
+	/** Requests that downloaded a fresh body */
+	missCount: Schema.Number,
+	cachedAt: Schema.Number,
+	lastUsedAt: Schema.Number,
+});
+
+/**
+ * Running cache totals per token identity, so stats never load cached bodies.
+ */
+const GitHubHttpCacheStatsSchema = Schema.Struct({
+	identity: Schema.String,
+	/** Stored entries, net of pruning */
+	entries: Schema.Number,
+	hits: Schema.Number,
+	misses: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
+const GitHubRateLimitSchema = Schema.Struct({
+	/** `installation:<id>` or `user:<id>` — see `installationTokenIdentity` in shared/githubApi.ts */
+	identity: Schema.String,
+	/** `X-RateLimit-Resource`, e.g. "core" or "graphql" */
+	resource: Schema.String,
+	limit: Schema.Number,
+	remaining: Schema.Number,
+	used: Schema.Number,
+	resetAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
 const GitHubTreeCacheSchema = Schema.Struct({
 	repositoryId: Schema.Number,
 	/** Cache key: the ref or SHA used to look up this tree (e.g. "HEAD", "main", or tree SHA) */
 	sha: Schema.String,
 	/** The actual tree object SHA resolved by GitHub — may differ from `sha` when cached by ref */
 	resolvedTreeSha: Schema.optional(Schema.String),
+	/** Commit SHA the ref pointed at when cached — used to build immutable blob links */
+	resolvedCommitSha: Schema.optional(Schema.String),
 	/** JSON-serialized tree array from GitHub API */
 	treeJson: Schema.String,
 	/** Whether the tree was truncated by GitHub */
@@ -504,6 +950,16 @@ const GitHubIssueTemplateCacheSchema = Schema.Struct({
 	labels: Schema.Array(Schema.String),
 	/** Assignees from YAML front matter */
 	assignees: Schema.Array(Schema.String),
+	/** Structured fields for YAML issue forms; absent for markdown templates */
+	form: Schema.optional(Schema.NullOr(Schema.Array(IssueFormElement))),
+	cachedAt: Schema.Number,
+});
+
+/** Template chooser settings from `.github/ISSUE_TEMPLATE/config.yml` */
+const GitHubIssueTemplateConfigSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	blankIssuesEnabled: Schema.Boolean,
+	contactLinks: Schema.Array(IssueTemplateContactLink),
 	cachedAt: Schema.Number,
 });
 
@@ -516,6 +972,90 @@ const GitHubFileReadStateSchema = Schema.Struct({
 	readAt: Schema.Number,
 });
 
+// ============================================================
+// H) Saved Views (per-user issue/PR list queries)
+// ============================================================
+
+const GitHubSavedViewSchema = Schema.Struct({
+	/** Better Auth user ID */
+	userId: Schema.String,
+	repositoryId: Schema.Number,
+	/** Display name chosen by the user */
+	title: Schema.String,
+	/** Which list the view runs against */
+	target: Schema.Literal("issue", "pr"),
+	/** Search DSL text as typed, e.g. "open by alice label bug past 7 days" */
+	query: Schema.String,
+	/**
+	 * Filters parsed from `query` when the view was saved. Relative date
+	 * windows are not stored — the client re-parses `query` when it runs.
+	 */
+	state: Schema.NullOr(Schema.Literal("open", "closed", "merged")),
+	authorLogin: Schema.NullOr(Schema.String),
+	assigneeLogin: Schema.NullOr(Schema.String),
+	labels: Schema.Array(Schema.String),
+	pinned: Schema.Boolean,
+	/** Items updated after this are counted as unread */
+	lastViewedAt: Schema.Number,
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
+// ============================================================
+// I) Outbound Integrations (activity forwarded to external endpoints)
+// ============================================================
+
+/** How a delivery body is shaped for the receiving endpoint */
+export const OutboundIntegrationKindSchema = Schema.Literal(
+	"webhook",
+	"slack",
+	"discord",
+);
+
+const GitHubOutboundIntegrationSchema = Schema.Struct({
+	repositoryId: Schema.Number,
+	kind: OutboundIntegrationKindSchema,
+	/** Display name chosen by the user */
+	title: Schema.String,
+	url: Schema.String,
+	/** Key for the `X-FasterGH-Signature-256` HMAC; generic webhooks only */
+	secret: Schema.NullOr(Schema.String),
+	/**
+	 * Activity types to forward, exact ("pr.opened") or by prefix
+	 * ("issue.*"). Empty forwards everything.
+	 */
+	eventTypes: Schema.Array(Schema.String),
+	enabled: Schema.Boolean,
+	/** Better Auth user ID */
+	createdByUserId: Schema.String,
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
+/**
+ * One activity entry queued for one integration. Follows the same
+ * pending → retry → dead letter lifecycle as `github_webhook_events_raw`,
+ * but failed rows are kept so the delivery log can show them.
+ */
+const GitHubOutboundDeliverySchema = Schema.Struct({
+	/** `github_outbound_integrations` document ID */
+	integrationId: Schema.String,
+	repositoryId: Schema.Number,
+	activityType: Schema.String,
+	/** JSON of the activity entry; formatted for the integration's kind at send time */
+	payloadJson: Schema.String,
+	deliveryState: Schema.Literal("pending", "delivered", "retry", "failed"),
+	attempts: Schema.Number,
+	nextRetryAt: Schema.NullOr(Schema.Number),
+	lastError: Schema.NullOr(Schema.String),
+	/** HTTP status of the most recent attempt; null when the request never completed */
+	responseStatus: Schema.NullOr(Schema.Number),
+	createdAt: Schema.Number,
+	deliveredAt: Schema.NullOr(Schema.Number),
+	/** When a sender last claimed this delivery; a claim is a lease, not a lock */
+	claimedAt: Schema.optional(Schema.NullOr(Schema.Number)),
+});
+
 // ============================================================
 // Schema Definition
 // ============================================================
@@ -547,10 +1087,9 @@ export const confectSchema = defineSchema({
 		.index("by_deliveryId", ["deliveryId"])
 		.index("by_processState_and_receivedAt", ["processState", "receivedAt"])
 		.index("by_processState_and_nextRetryAt", ["processState", "nextRetryAt"])
-		.index("by_installationId_and_receivedAt", [
-			"installationId",
-			"receivedAt",
-		]),
+		.index("by_installationId_and_receivedAt", ["installationId", "receivedAt"])
+		.index("by_repositoryId_and_receivedAt", ["repositoryId", "receivedAt"])
+		.index("by_receivedAt", ["receivedAt"]),
 
 	github_dead_letters: defineTable(GitHubDeadLetterSchema)
 		.index("by_createdAt", ["createdAt"])
@@ -565,6 +1104,10 @@ export const confectSchema = defineSchema({
 		.index("by_githubOrgId", ["githubOrgId"])
 		.index("by_login", ["login"]),
 
+	github_teams: defineTable(GitHubTeamSchema)
+		.index("by_githubTeamId", ["githubTeamId"])
+		.index("by_orgLogin_and_slug", ["orgLogin", "slug"]),
+
 	github_repositories: defineTable(GitHubRepositorySchema)
 		.index("by_githubRepoId", ["githubRepoId"])
 		.index("by_installationId_and_fullName", ["installationId", "fullName"])
@@ -579,6 +1122,10 @@ export const confectSchema = defineSchema({
 			"githubUpdatedAt",
 		]),
 
+	github_repository_redirects: defineTable(GitHubRepositoryRedirectSchema)
+		.index("by_fromOwnerLogin_and_fromName", ["fromOwnerLogin", "fromName"])
+		.index("by_repositoryId", ["repositoryId"]),
+
 	github_branches: defineTable(GitHubBranchSchema)
 		.index("by_repositoryId_and_name", ["repositoryId", "name"])
 		.index("by_repositoryId_and_headSha", ["repositoryId", "headSha"]),
@@ -587,6 +1134,22 @@ export const confectSchema = defineSchema({
 		.index("by_repositoryId_and_sha", ["repositoryId", "sha"])
 		.index("by_repositoryId_and_committedAt", ["repositoryId", "committedAt"]),
 
+	github_tags: defineTable(GitHubTagSchema).index("by_repositoryId_and_name", [
+		"repositoryId",
+		"name",
+	]),
+
+	github_releases: defineTable(GitHubReleaseSchema)
+		.index("by_repositoryId_and_githubReleaseId", [
+			"repositoryId",
+			"githubReleaseId",
+		])
+		.index("by_repositoryId_and_createdAt", ["repositoryId", "createdAt"]),
+	github_deleted_releases: defineTable(GitHubDeletedReleaseSchema).index(
+		"by_repositoryId_and_githubReleaseId",
+		["repositoryId", "githubReleaseId"],
+	),
+
 	github_pull_requests: defineTable(GitHubPullRequestSchema)
 		.index("by_repositoryId_and_number", ["repositoryId", "number"])
 		.index("by_optimisticCorrelationId", ["optimisticCorrelationId"])
@@ -601,6 +1164,11 @@ export const confectSchema = defineSchema({
 			filterFields: ["repositoryId", "state"],
 		}),
 
+	github_pull_request_creates: defineTable(GitHubPullRequestCreateSchema)
+		.index("by_correlationId", ["correlationId"])
+		.index("by_repositoryId_and_number", ["repositoryId", "number"])
+		.index("by_repositoryId_and_createdAt", ["repositoryId", "createdAt"]),
+
 	github_pull_request_reviews: defineTable(GitHubPullRequestReviewSchema)
 		.index("by_repositoryId_and_pullRequestNumber", [
 			"repositoryId",
@@ -622,7 +1190,8 @@ export const confectSchema = defineSchema({
 		.index("by_repositoryId_and_githubReviewCommentId", [
 			"repositoryId",
 			"githubReviewCommentId",
-		]),
+		])
+		.index("by_optimisticCorrelationId", ["optimisticCorrelationId"]),
 
 	github_issues: defineTable(GitHubIssueSchema)
 		.index("by_repositoryId_and_number", ["repositoryId", "number"])
@@ -632,11 +1201,34 @@ export const confectSchema = defineSchema({
 			"state",
 			"githubUpdatedAt",
 		])
+		.index(
+			"by_repositoryId_and_milestoneNumber_and_state_and_githubUpdatedAt",
+			["repositoryId", "milestoneNumber", "state", "githubUpdatedAt"],
+		)
 		.searchIndex("search_title", {
 			searchField: "title",
 			filterFields: ["repositoryId", "state"],
 		}),
 
+	github_milestones: defineTable(GitHubMilestoneSchema)
+		.index("by_repositoryId_and_number", ["repositoryId", "number"])
+		.index("by_repositoryId_and_state_and_githubUpdatedAt", [
+			"repositoryId",
+			"state",
+			"githubUpdatedAt",
+		]),
+	github_deleted_milestones: defineTable(GitHubDeletedMilestoneSchema).index(
+		"by_repositoryId_and_githubMilestoneId",
+		["repositoryId", "githubMilestoneId"],
+	),
+
+	github_labels: defineTable(GitHubLabelSchema)
+		.index("by_repositoryId_and_name", ["repositoryId", "name"])
+		.index("by_repositoryId_and_githubLabelId", [
+			"repositoryId",
+			"githubLabelId",
+		]),
+
 	github_issue_comments: defineTable(GitHubIssueCommentSchema)
 		.index("by_repositoryId_and_issueNumber", ["repositoryId", "issueNumber"])
 		.index("by_optimisticCorrelationId", ["optimisticCorrelationId"])
@@ -645,6 +1237,56 @@ export const confectSchema = defineSchema({
 			"githubCommentId",
 		]),
 
+	github_timeline_events: defineTable(GitHubTimelineEventSchema)
+		.index("by_repositoryId_and_issueNumber_and_createdAt", [
+			"repositoryId",
+			"issueNumber",
+			"createdAt",
+		])
+		.index("by_repositoryId_and_issueNumber_and_eventKey", [
+			"repositoryId",
+			"issueNumber",
+			"eventKey",
+		]),
+
+	github_issue_references: defineTable(GitHubIssueReferenceSchema)
+		.index("by_repositoryId_and_sourceKey", ["repositoryId", "sourceKey"])
+		.index("by_repositoryId_and_targetNumber", [
+			"repositoryId",
+			"targetNumber",
+		]),
+
+	github_discussions: defineTable(GitHubDiscussionSchema)
+		.index("by_repositoryId_and_number", ["repositoryId", "number"])
+		.index("by_repositoryId_and_state_and_githubUpdatedAt", [
+			"repositoryId",
+			"state",
+			"githubUpdatedAt",
+		]),
+
+	github_discussion_comments: defineTable(GitHubDiscussionCommentSchema)
+		.index("by_repositoryId_and_discussionNumber", [
+			"repositoryId",
+			"discussionNumber",
+		])
+		.index("by_repositoryId_and_githubCommentId", [
+			"repositoryId",
+			"githubCommentId",
+		]),
+
+	github_reactions: defineTable(GitHubReactionSchema)
+		.index("by_repositoryId_and_subjectType_and_subjectId", [
+			"repositoryId",
+			"subjectType",
+			"subjectId",
+		])
+		.index("by_optimisticCorrelationId", ["optimisticCorrelationId"]),
+
+	github_reaction_syncs: defineTable(GitHubReactionSyncSchema).index(
+		"by_repositoryId_and_subjectType_and_subjectId_and_githubUserId",
+		["repositoryId", "subjectType", "subjectId", "githubUserId"],
+	),
+
 	github_pull_request_files: defineTable(GitHubPullRequestFileSchema)
 		.index("by_repositoryId_and_pullRequestNumber_and_headSha", [
 			"repositoryId",
@@ -655,7 +1297,8 @@ export const confectSchema = defineSchema({
 			"repositoryId",
 			"pullRequestNumber",
 			"filename",
-		]),
+		])
+		.index("by_repositoryId_and_filename", ["repositoryId", "filename"]),
 
 	github_check_runs: defineTable(GitHubCheckRunSchema)
 		.index("by_repositoryId_and_githubCheckRunId", [
@@ -664,6 +1307,29 @@ export const confectSchema = defineSchema({
 		])
 		.index("by_repositoryId_and_headSha", ["repositoryId", "headSha"]),
 
+	github_check_annotations: defineTable(GitHubCheckAnnotationSchema)
+		.index("by_repositoryId_and_headSha_and_path", [
+			"repositoryId",
+			"headSha",
+			"path",
+		])
+		.index("by_repositoryId_and_githubCheckRunId", [
+			"repositoryId",
+			"githubCheckRunId",
+		]),
+
+	github_check_suites: defineTable(GitHubCheckSuiteSchema)
+		.index("by_repositoryId_and_githubCheckSuiteId", [
+			"repositoryId",
+			"githubCheckSuiteId",
+		])
+		.index("by_repositoryId_and_headSha", ["repositoryId", "headSha"]),
+
+	github_commit_statuses: defineTable(GitHubCommitStatusSchema).index(
+		"by_repositoryId_and_sha_and_context",
+		["repositoryId", "sha", "context"],
+	),
+
 	github_workflow_runs: defineTable(GitHubWorkflowRunSchema)
 		.index("by_repositoryId_and_githubRunId", ["repositoryId", "githubRunId"])
 		.index("by_repositoryId_and_runNumber", ["repositoryId", "runNumber"])
@@ -694,9 +1360,26 @@ export const confectSchema = defineSchema({
 		.index("by_userId_and_githubNotificationId", [
 			"userId",
 			"githubNotificationId",
-		]),
+		])
+		.index("by_userId_and_savedAt", ["userId", "savedAt"])
+		.index("by_userId_and_pendingReadAt", ["userId", "pendingReadAt"]),
+	github_notification_poll_state: defineTable(GitHubNotificationPollStateSchema)
+		.index("by_userId", ["userId"])
+		.index("by_nextPollAt", ["nextPollAt"]),
 
 	// F) Code Cache
+	github_http_cache: defineTable(GitHubHttpCacheSchema)
+		.index("by_cacheKey", ["cacheKey"])
+		.index("by_lastUsedAt", ["lastUsedAt"]),
+
+	github_http_cache_stats: defineTable(GitHubHttpCacheStatsSchema)
+		.index("by_identity", ["identity"])
+		.index("by_updatedAt", ["updatedAt"]),
+
+	github_rate_limits: defineTable(GitHubRateLimitSchema)
+		.index("by_identity_and_resource", ["identity", "resource"])
+		.index("by_updatedAt", ["updatedAt"]),
+
 	github_tree_cache: defineTable(GitHubTreeCacheSchema).index(
 		"by_repositoryId_and_sha",
 		["repositoryId", "sha"],
@@ -711,8 +1394,12 @@ export const confectSchema = defineSchema({
 	github_issue_template_cache: defineTable(GitHubIssueTemplateCacheSchema)
 		.index("by_repositoryId", ["repositoryId"])
 		.index("by_repositoryId_and_filename", ["repositoryId", "filename"]),
+	github_issue_template_config: defineTable(
+		GitHubIssueTemplateConfigSchema,
+	).index("by_repositoryId", ["repositoryId"]),
 
 	github_file_read_state: defineTable(GitHubFileReadStateSchema)
+		.index("by_repositoryId", ["repositoryId"])
 		.index("by_userId_and_repositoryId", ["userId", "repositoryId"])
 		.index("by_userId_and_repositoryId_and_treeSha", [
 			"userId",
@@ -725,6 +1412,22 @@ export const confectSchema = defineSchema({
 			"treeSha",
 			"fileSha",
 		]),
+
+	// H) Saved Views
+	github_saved_views: defineTable(GitHubSavedViewSchema)
+		.index("by_userId_and_createdAt", ["userId", "createdAt"])
+		.index("by_userId_and_repositoryId", ["userId", "repositoryId"])
+		.index("by_repositoryId", ["repositoryId"]),
+
+	// I) Outbound Integrations
+	github_outbound_integrations: defineTable(
+		GitHubOutboundIntegrationSchema,
+	).index("by_repositoryId", ["repositoryId"]),
+	github_outbound_deliveries: defineTable(GitHubOutboundDeliverySchema)
+		.index("by_deliveryState_and_claimedAt", ["deliveryState", "claimedAt"])
+		.index("by_deliveryState_and_nextRetryAt", ["deliveryState", "nextRetryAt"])
+		.index("by_repositoryId_and_createdAt", ["repositoryId", "createdAt"])
+		.index("by_integrationId_and_createdAt", ["integrationId", "createdAt"]),
 });
 
 export default confectSchema.convexSchemaDefinition;
@@ -97,6 +97,11 @@ export const syncCheckRunReplace = (
 	newDoc: Doc<"github_check_runs">,
 ) => runAggregateSync(() => checkRunsByRepo.replace(ctx, oldDoc, newDoc));
 
+export const syncCheckRunDelete = (
+	ctx: MutCtx,
+	doc: Doc<"github_check_runs">,
+) => runAggregateSync(() => checkRunsByRepo.delete(ctx, doc));
+
 // ---------------------------------------------------------------------------
 // Issue Comments
 // ---------------------------------------------------------------------------
@@ -133,6 +138,11 @@ export const syncReviewReplace = (
 	newDoc: Doc<"github_pull_request_reviews">,
 ) => runAggregateSync(() => reviewsByPrNumber.replace(ctx, oldDoc, newDoc));
 
+export const syncReviewDelete = (
+	ctx: MutCtx,
+	doc: Doc<"github_pull_request_reviews">,
+) => runAggregateSync(() => reviewsByPrNumber.delete(ctx, doc));
+
 // ---------------------------------------------------------------------------
 // Workflow Jobs
 // ---------------------------------------------------------------------------
@@ -146,6 +156,9 @@ export const syncJobReplace = (
 	newDoc: Doc<"github_workflow_jobs">,
 ) => runAggregateSync(() => jobsByWorkflowRun.replace(ctx, oldDoc, newDoc));
 
+export const syncJobDelete = (ctx: MutCtx, doc: Doc<"github_workflow_jobs">) =>
+	runAggregateSync(() => jobsByWorkflowRun.delete(ctx, doc));
+
 // ---------------------------------------------------------------------------
 // Webhook Events
 // ---------------------------------------------------------------------------
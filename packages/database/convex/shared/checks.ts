@@ -0,0 +1,300 @@
+/**
+ * checks — Check runs, check suites, and the per-commit CI rollup.
+ *
+ * Check run and check suite objects have the same shape in webhook payloads
+ * and REST responses (`GET /commits/{ref}/check-runs`), so the parsers below
+ * serve webhooks, bootstrap, and on-demand sync alike.
+ */
+import { Schema } from "effect";
+import {
+	toNumberOrNull as num,
+	toObjectRecord as obj,
+	toStringOrNull as str,
+} from "./coerce";
+import {
+	type CommitStatusState,
+	commitStatusAsCheck,
+	isFailingConclusion,
+	summarizeCheckConclusion,
+} from "./commitStatuses";
+import { parseIsoToMsOrNull as isoToMs } from "./time";
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Shape accepted by `bootstrapWrite.upsertCheckRuns`. */
+export const CheckRunInputSchema = Schema.Struct({
+	githubCheckRunId: Schema.Number,
+	name: Schema.String,
+	headSha: Schema.String,
+	status: Schema.String,
+	conclusion: Schema.NullOr(Schema.String),
+	startedAt: Schema.NullOr(Schema.Number),
+	completedAt: Schema.NullOr(Schema.Number),
+	checkSuiteId: Schema.optional(Schema.NullOr(Schema.Number)),
+	appSlug: Schema.optional(Schema.NullOr(Schema.String)),
+	appName: Schema.optional(Schema.NullOr(Schema.String)),
+	appAvatarUrl: Schema.optional(Schema.NullOr(Schema.String)),
+	detailsUrl: Schema.optional(Schema.NullOr(Schema.String)),
+	htmlUrl: Schema.optional(Schema.NullOr(Schema.String)),
+	outputTitle: Schema.optional(Schema.NullOr(Schema.String)),
+	outputSummary: Schema.optional(Schema.NullOr(Schema.String)),
+	annotationsCount: Schema.optional(Schema.NullOr(Schema.Number)),
+});
+
+export type CheckRunInput = typeof CheckRunInputSchema.Type;
+
+/** Shape accepted by `bootstrapWrite.upsertCheckSuites`. */
+export const CheckSuiteInputSchema = Schema.Struct({
+	githubCheckSuiteId: Schema.Number,
+	headSha: Schema.String,
+	headBranch: Schema.NullOr(Schema.String),
+	status: Schema.NullOr(Schema.String),
+	conclusion: Schema.NullOr(Schema.String),
+	appSlug: Schema.NullOr(Schema.String),
+	appName: Schema.NullOr(Schema.String),
+	appAvatarUrl: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
+export type CheckSuiteInput = typeof CheckSuiteInputSchema.Type;
+
+/** App fields shared by check runs and check suites. */
+const parseApp = (value: unknown) => {
+	const app = obj(value);
+	return {
+		appSlug: str(app.slug),
+		appName: str(app.name),
+		appAvatarUrl: str(obj(app.owner).avatar_url),
+	};
+};
+
+/**
+ * Parse one check run. `headSha` overrides the run's own `head_sha` when the
+ * caller fetched runs for a known ref. Returns null when required fields are
+ * missing.
+ */
+export const parseCheckRun = (
+	value: unknown,
+	headSha?: string,
+): CheckRunInput | null => {
+	const checkRun = obj(value);
+	const githubCheckRunId = num(checkRun.id);
+	const name = str(checkRun.name);
+	const sha = headSha ?? str(checkRun.head_sha);
+	if (githubCheckRunId === null || !name || !sha) return null;
+
+	const output = obj(checkRun.output);
+	return {
+		githubCheckRunId,
+		name,
+		headSha: sha,
+		status: str(checkRun.status) ?? "queued",
+		conclusion: str(checkRun.conclusion),
+		startedAt: isoToMs(checkRun.started_at),
+		completedAt: isoToMs(checkRun.completed_at),
+		checkSuiteId: num(obj(checkRun.check_suite).id),
+		...parseApp(checkRun.app),
+		detailsUrl: str(checkRun.details_url),
+		htmlUrl: str(checkRun.html_url),
+		outputTitle: str(output.title),
+		outputSummary: str(output.summary),
+		annotationsCount: num(output.annotations_count),
+	};
+};
+
+/** Parse one check suite. Returns null when required fields are missing. */
+export const parseCheckSuite = (value: unknown): CheckSuiteInput | null => {
+	const checkSuite = obj(value);
+	const githubCheckSuiteId = num(checkSuite.id);
+	const headSha = str(checkSuite.head_sha);
+	if (githubCheckSuiteId === null || !headSha) return null;
+
+	const createdAt = isoToMs(checkSuite.created_at) ?? Date.now();
+	return {
+		githubCheckSuiteId,
+		headSha,
+		headBranch: str(checkSuite.head_branch),
+		status: str(checkSuite.status),
+		conclusion: str(checkSuite.conclusion),
+		...parseApp(checkSuite.app),
+		createdAt,
+		updatedAt: isoToMs(checkSuite.updated_at) ?? createdAt,
+	};
+};
+
+// ---------------------------------------------------------------------------
+// Rollup
+// ---------------------------------------------------------------------------
+
+export const CheckCountsSchema = Schema.Struct({
+	total: Schema.Number,
+	passed: Schema.Number,
+	failed: Schema.Number,
+	pending: Schema.Number,
+	skipped: Schema.Number,
+});
+
+export type CheckCounts = typeof CheckCountsSchema.Type;
+
+const CiRollupCheckSchema = Schema.Struct({
+	source: Schema.Literal("check_run", "status"),
+	id: Schema.Number,
+	name: Schema.String,
+	status: Schema.String,
+	conclusion: Schema.NullOr(Schema.String),
+	detailsUrl: Schema.NullOr(Schema.String),
+	outputTitle: Schema.NullOr(Schema.String),
+	annotationsCount: Schema.Number,
+});
+
+const CiRollupGroupSchema = Schema.Struct({
+	/** `suite:<id>`, `app:<slug>`, or `statuses` for legacy commit statuses */
+	key: Schema.String,
+	checkSuiteId: Schema.NullOr(Schema.Number),
+	appName: Schema.NullOr(Schema.String),
+	appAvatarUrl: Schema.NullOr(Schema.String),
+	conclusion: Schema.NullOr(Schema.Literal("failure", "success")),
+	counts: CheckCountsSchema,
+	checks: Schema.Array(CiRollupCheckSchema),
+});
+
+export const CiRollupSchema = Schema.Struct({
+	sha: Schema.String,
+	conclusion: Schema.NullOr(Schema.Literal("failure", "success")),
+	counts: CheckCountsSchema,
+	groups: Schema.Array(CiRollupGroupSchema),
+});
+
+export type CiRollup = typeof CiRollupSchema.Type;
+
+/** Tally checks into passed / failed / pending / skipped buckets. */
+export const countChecks = (
+	checks: ReadonlyArray<{ status: string; conclusion: string | null }>,
+): CheckCounts => {
+	const counts = { total: 0, passed: 0, failed: 0, pending: 0, skipped: 0 };
+	for (const check of checks) {
+		counts.total++;
+		if (isFailingConclusion(check.conclusion)) counts.failed++;
+		else if (check.status !== "completed") counts.pending++;
+		else if (check.conclusion === "success") counts.passed++;
+		else counts.skipped++;
+	}
+	return counts;
+};
+
+type RollupCheckRun = {
+	readonly githubCheckRunId: number;
+	readonly name: string;
+	readonly status: string;
+	readonly conclusion: string | null;
+	readonly checkSuiteId?: number | null;
+	readonly appSlug?: string | null;
+	readonly appName?: string | null;
+	readonly appAvatarUrl?: string | null;
+	readonly detailsUrl?: string | null;
+	readonly htmlUrl?: string | null;
+	readonly outputTitle?: string | null;
+	readonly annotationsCount?: number | null;
+};
+
+type RollupCheckSuite = {
+	readonly githubCheckSuiteId: number;
+	readonly appName: string | null;
+	readonly appAvatarUrl: string | null;
+};
+
+type RollupCommitStatus = {
+	readonly githubStatusId: number;
+	readonly context: string;
+	readonly state: CommitStatusState;
+	readonly description: string | null;
+	readonly targetUrl: string | null;
+};
+
+/**
+ * Group a commit's check runs by suite (falling back to app), with legacy
+ * commit statuses in their own group. Suites only contribute app details —
+ * GitHub leaves suites without runs queued indefinitely, so they are not
+ * shown on their own.
+ */
+export const buildCiRollup = (
+	sha: string,
+	checkRuns: ReadonlyArray<RollupCheckRun>,
+	checkSuites: ReadonlyArray<RollupCheckSuite>,
+	commitStatuses: ReadonlyArray<RollupCommitStatus>,
+): CiRollup => {
+	const suitesById = new Map(
+		checkSuites.map((suite) => [suite.githubCheckSuiteId, suite]),
+	);
+	const groups = new Map<
+		string,
+		{
+			checkSuiteId: number | null;
+			appName: string | null;
+			appAvatarUrl: string | null;
+			checks: Array<typeof CiRollupCheckSchema.Type>;
+		}
+	>();
+
+	for (const run of checkRuns) {
+		const checkSuiteId = run.checkSuiteId ?? null;
+		const key =
+			checkSuiteId !== null
+				? `suite:${String(checkSuiteId)}`
+				: `app:${run.appSlug ?? "unknown"}`;
+		const suite =
+			checkSuiteId !== null ? suitesById.get(checkSuiteId) : undefined;
+		const group = groups.get(key) ?? {
+			checkSuiteId,
+			appName: suite?.appName ?? run.appName ?? null,
+			appAvatarUrl: suite?.appAvatarUrl ?? run.appAvatarUrl ?? null,
+			checks: [],
+		};
+		group.checks.push({
+			source: "check_run",
+			id: run.githubCheckRunId,
+			name: run.name,
+			status: run.status,
+			conclusion: run.conclusion,
+			detailsUrl: run.detailsUrl ?? run.htmlUrl ?? null,
+			outputTitle: run.outputTitle ?? null,
+			annotationsCount: run.annotationsCount ?? 0,
+		});
+		groups.set(key, group);
+	}
+
+	if (commitStatuses.length > 0) {
+		groups.set("statuses", {
+			checkSuiteId: null,
+			appName: null,
+			appAvatarUrl: null,
+			checks: commitStatuses.map((status) => ({
+				source: "status" as const,
+				id: status.githubStatusId,
+				name: status.context,
+				...commitStatusAsCheck(status.state),
+				detailsUrl: status.targetUrl,
+				outputTitle: status.description,
+				annotationsCount: 0,
+			})),
+		});
+	}
+
+	const rollupGroups = [...groups.entries()].map(([key, group]) => ({
+		key,
+		...group,
+		conclusion: summarizeCheckConclusion(group.checks),
+		counts: countChecks(group.checks),
+	}));
+	const allChecks = rollupGroups.flatMap((group) => group.checks);
+
+	return {
+		sha,
+		conclusion: summarizeCheckConclusion(allChecks),
+		counts: countChecks(allChecks),
+		groups: rollupGroups,
+	};
+};
@@ -0,0 +1,112 @@
+/**
+ * commitStatuses — Legacy commit statuses and how they fold into the
+ * check-run based CI rollup.
+ *
+ * The `status` webhook payload and the entries of
+ * `GET /repos/{owner}/{repo}/commits/{ref}/status` share the same fields
+ * (`id`, `context`, `state`, `description`, `target_url`, timestamps), so
+ * one parser serves both.
+ */
+import { Schema } from "effect";
+import {
+	toNumberOrNull as num,
+	toStringOrNull as str,
+	toObjectRecord,
+} from "./coerce";
+import { parseIsoToMsOrNull as isoToMs } from "./time";
+
+export const CommitStatusStateSchema = Schema.Literal(
+	"error",
+	"failure",
+	"pending",
+	"success",
+);
+
+export type CommitStatusState = typeof CommitStatusStateSchema.Type;
+
+/** Shape accepted by `bootstrapWrite.upsertCommitStatuses`. */
+export const CommitStatusInputSchema = Schema.Struct({
+	githubStatusId: Schema.Number,
+	sha: Schema.String,
+	context: Schema.String,
+	state: CommitStatusStateSchema,
+	description: Schema.NullOr(Schema.String),
+	targetUrl: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+	updatedAt: Schema.Number,
+});
+
+export type CommitStatusInput = typeof CommitStatusInputSchema.Type;
+
+const isCommitStatusState = (
+	value: string | null,
+): value is CommitStatusState =>
+	value === "error" ||
+	value === "failure" ||
+	value === "pending" ||
+	value === "success";
+
+/**
+ * Parse one commit status from GitHub. Returns null when required fields
+ * are missing or the state is unknown.
+ */
+export const parseCommitStatus = (
+	value: unknown,
+	sha: string,
+): CommitStatusInput | null => {
+	const status = toObjectRecord(value);
+	const githubStatusId = num(status.id);
+	const context = str(status.context);
+	const state = str(status.state);
+	if (githubStatusId === null || context === null) return null;
+	if (!isCommitStatusState(state)) return null;
+
+	const createdAt = isoToMs(status.created_at) ?? Date.now();
+	return {
+		githubStatusId,
+		sha,
+		context,
+		state,
+		description: str(status.description),
+		targetUrl: str(status.target_url),
+		createdAt,
+		updatedAt: isoToMs(status.updated_at) ?? createdAt,
+	};
+};
+
+/**
+ * Express a commit status in check-run terms (`status` + `conclusion`) so
+ * both kinds of CI signal can be summarized and rendered together.
+ */
+export const commitStatusAsCheck = (
+	state: CommitStatusState,
+): { status: string; conclusion: string | null } =>
+	state === "pending"
+		? { status: "pending", conclusion: null }
+		: { status: "completed", conclusion: state };
+
+const FAILING_CONCLUSIONS = new Set([
+	"failure",
+	"error",
+	"timed_out",
+	"action_required",
+]);
+
+export const isFailingConclusion = (conclusion: string | null) =>
+	conclusion !== null && FAILING_CONCLUSIONS.has(conclusion);
+
+/**
+ * Combined CI conclusion for a commit: any failure wins, then anything still
+ * running leaves it unresolved (null), otherwise success. Returns null when
+ * the commit has no checks at all.
+ */
+export const summarizeCheckConclusion = (
+	checks: ReadonlyArray<{ status: string; conclusion: string | null }>,
+): "failure" | "success" | null => {
+	if (checks.length === 0) return null;
+	if (checks.some((check) => isFailingConclusion(check.conclusion))) {
+		return "failure";
+	}
+	if (checks.some((check) => check.status !== "completed")) return null;
+	return "success";
+};
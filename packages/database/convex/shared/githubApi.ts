@@ -63,6 +63,207 @@ const isRateLimitResponse = (status: number, headers: Headers): boolean => {
 	return false;
 };
 
+// ---------------------------------------------------------------------------
+// Token identity
+// ---------------------------------------------------------------------------
+
+/**
+ * Who a token acts for. Installation tokens rotate hourly, so cache entries
+ * and rate-limit budgets are keyed on the installation instead.
+ */
+export const installationTokenIdentity = (installationId: number) =>
+	`installation:${installationId}`;
+
+/** OAuth tokens act for one Better Auth user. */
+export const userTokenIdentity = (userId: string) => `user:${userId}`;
+
+// ---------------------------------------------------------------------------
+// Rate-limit ledger
+// ---------------------------------------------------------------------------
+
+/**
+ * Budget reported by the `X-RateLimit-*` headers for one resource
+ * (`core`, `graphql`, `search`, ...).
+ */
+export type GitHubRateLimitSnapshot = {
+	readonly resource: string;
+	readonly limit: number;
+	readonly remaining: number;
+	readonly used: number;
+	/** Epoch ms at which the window resets */
+	readonly resetAt: number;
+};
+
+/**
+ * Sink for rate-limit snapshots, scoped to the token's identity.
+ */
+export type GitHubRateLimitLedger = Readonly<{
+	identity: string;
+	record: (snapshot: GitHubRateLimitSnapshot) => Effect.Effect<void>;
+}>;
+
+/** Record at least this often while the budget is healthy. */
+const RATE_LIMIT_RECORD_EVERY = 50;
+
+const parseRateLimitSnapshot = (
+	headers: Headers,
+): GitHubRateLimitSnapshot | null => {
+	const limit = Number(headers.get("X-RateLimit-Limit") ?? Number.NaN);
+	const remaining = Number(headers.get("X-RateLimit-Remaining") ?? Number.NaN);
+	const reset = Number(headers.get("X-RateLimit-Reset") ?? Number.NaN);
+	if (Number.isNaN(limit) || Number.isNaN(remaining) || Number.isNaN(reset)) {
+		return null;
+	}
+	const used = Number(headers.get("X-RateLimit-Used") ?? Number.NaN);
+	return {
+		resource: headers.get("X-RateLimit-Resource") ?? "core",
+		limit,
+		remaining,
+		used: Number.isNaN(used) ? limit - remaining : used,
+		resetAt: reset * 1_000,
+	};
+};
+
+/**
+ * Every response carries fresh headers, but writing each one would double
+ * our mutation load. Record the first snapshot per window, then every
+ * `RATE_LIMIT_RECORD_EVERY` requests, and every request once the budget
+ * drops into the background reserve.
+ */
+const shouldRecordRateLimit = (
+	previous: GitHubRateLimitSnapshot | undefined,
+	next: GitHubRateLimitSnapshot,
+): boolean =>
+	previous === undefined ||
+	previous.resetAt !== next.resetAt ||
+	previous.remaining - next.remaining >= RATE_LIMIT_RECORD_EVERY ||
+	next.remaining <= backgroundReserve(next.limit);
+
+/** Share of each window held back for interactive requests. */
+const BACKGROUND_RESERVE_FRACTION = 0.2;
+
+const MIN_BACKGROUND_RESERVE = 100;
+
+/**
+ * Requests background work must leave untouched so user-triggered reads
+ * and writes still go through.
+ */
+export const backgroundReserve = (limit: number) =>
+	Math.max(
+		MIN_BACKGROUND_RESERVE,
+		Math.ceil(limit * BACKGROUND_RESERVE_FRACTION),
+	);
+
+export type GitHubRateLimitPriority = "interactive" | "background";
+
+/**
+ * How long work of the given priority should wait before spending from
+ * this budget: 0 when it can go now, otherwise the time until reset.
+ */
+export const rateLimitDeferralMs = (
+	snapshot: Pick<GitHubRateLimitSnapshot, "limit" | "remaining" | "resetAt">,
+	priority: GitHubRateLimitPriority,
+	now: number,
+): number => {
+	if (snapshot.resetAt <= now) return 0;
+	const floor =
+		priority === "background" ? backgroundReserve(snapshot.limit) : 0;
+	return snapshot.remaining > floor ? 0 : snapshot.resetAt - now;
+};
+
+// ---------------------------------------------------------------------------
+// Conditional request cache
+// ---------------------------------------------------------------------------
+
+/**
+ * A stored 200 response plus the validators GitHub sent with it. Replayed
+ * when a conditional request comes back 304, which GitHub doesn't count
+ * against the rate limit.
+ */
+export type CachedGitHubResponse = {
+	readonly body: string;
+	readonly contentType: string | null;
+	readonly etag: string | null;
+	readonly lastModified: string | null;
+};
+
+/**
+ * Persistent backing store for conditional GET requests.
+ *
+ * `identity` scopes entries to whoever the token acts for (a user or an
+ * installation), so a response is only ever replayed to a caller that was
+ * allowed to fetch it in the first place.
+ */
+export type GitHubResponseCache = Readonly<{
+	identity: string;
+	lookup: (cacheKey: string) => Effect.Effect<CachedGitHubResponse | null>;
+	save: (
+		cacheKey: string,
+		url: string,
+		response: CachedGitHubResponse,
+	) => Effect.Effect<void>;
+	recordHit: (cacheKey: string) => Effect.Effect<void>;
+}>;
+
+/**
+ * Optional persistence hooks for a client. Both are scoped to the identity
+ * the token acts for.
+ */
+export type GitHubClientOptions = {
+	readonly cache?: GitHubResponseCache;
+	readonly rateLimits?: GitHubRateLimitLedger;
+};
+
+/** Larger bodies are passed through uncached to stay under Convex's 1 MiB document limit. */
+const MAX_CACHED_BODY_LENGTH = 256 * 1024;
+
+const DEFAULT_ACCEPT = "application/vnd.github+json";
+
+/**
+ * Cache key for a request, or `null` when it must not be cached: anything
+ * but GET, and callers that already send their own validators.
+ */
+const cacheKeyFor = (
+	cache: GitHubResponseCache,
+	request: HttpClientRequest.HttpClientRequest,
+	url: URL,
+): string | null => {
+	if (request.method !== "GET") return null;
+	if (
+		request.headers["if-none-match"] !== undefined ||
+		request.headers["if-modified-since"] !== undefined
+	) {
+		return null;
+	}
+	const accept = request.headers.accept ?? DEFAULT_ACCEPT;
+	return `${cache.identity}|${accept}|${url.href}`;
+};
+
+const conditionalHeaders = (
+	cached: CachedGitHubResponse | null,
+): Record<string, string> => {
+	if (cached === null) return {};
+	if (cached.etag !== null) return { "If-None-Match": cached.etag };
+	if (cached.lastModified !== null) {
+		return { "If-Modified-Since": cached.lastModified };
+	}
+	return {};
+};
+
+const replayCachedResponse = (cached: CachedGitHubResponse): Response =>
+	new Response(cached.body, {
+		status: 200,
+		headers: {
+			...(cached.contentType !== null
+				? { "content-type": cached.contentType }
+				: {}),
+			...(cached.etag !== null ? { etag: cached.etag } : {}),
+			...(cached.lastModified !== null
+				? { "last-modified": cached.lastModified }
+				: {}),
+		},
+	});
+
 // ---------------------------------------------------------------------------
 // GitHub API Client
 // ---------------------------------------------------------------------------
@@ -160,6 +361,48 @@ type IGitHubApiClient = Readonly<{
 		{ accepted: boolean },
 		GitHubApiError | HttpClientError.HttpClientError
 	>;
+
+	/**
+	 * Mark a notification thread as done (removes it from the inbox).
+	 */
+	activityMarkThreadAsDone: (
+		threadId: string,
+	) => Effect.Effect<
+		{ accepted: boolean },
+		GitHubApiError | HttpClientError.HttpClientError
+	>;
+
+	/**
+	 * Mute a notification thread: stay subscribed but ignore new activity.
+	 */
+	activityIgnoreThread: (
+		threadId: string,
+	) => Effect.Effect<
+		{ accepted: boolean },
+		GitHubApiError | HttpClientError.HttpClientError
+	>;
+
+	/**
+	 * Unsubscribe from a notification thread until the next mention.
+	 */
+	activityDeleteThreadSubscription: (
+		threadId: string,
+	) => Effect.Effect<
+		{ accepted: boolean },
+		GitHubApiError | HttpClientError.HttpClientError
+	>;
+
+	/**
+	 * Mark every notification updated before `lastReadAt` as read, either
+	 * across all repositories or for a single one.
+	 */
+	activityMarkNotificationsAsRead: (
+		lastReadAt: string,
+		repository?: { owner: string; repo: string },
+	) => Effect.Effect<
+		{ accepted: boolean },
+		GitHubApiError | HttpClientError.HttpClientError
+	>;
 }>;
 
 // ---------------------------------------------------------------------------
@@ -169,14 +412,22 @@ type IGitHubApiClient = Readonly<{
 /**
  * Build an `@effect/platform` HttpClient backed by the global `fetch`,
  * with GitHub auth headers, base URL, and rate-limit detection baked in.
+ * When a `cache` is given, GET requests are sent with `If-None-Match` /
+ * `If-Modified-Since` and 304s are answered from the stored body. When a
+ * `rateLimits` ledger is given, `X-RateLimit-*` headers are recorded to it.
  *
  * We use `HttpClient.mapRequest` to rewrite relative paths to absolute
  * URLs BEFORE the platform's internal `UrlParams.makeUrl` tries to parse
  * the request URL. Without this, `new URL("/repos/...", undefined)` throws
  * in runtimes that lack `globalThis.location` (like Convex).
  */
-const makeAuthedHttpClient = (token: string): HttpClient.HttpClient =>
-	HttpClient.mapRequest(
+const makeAuthedHttpClient = (
+	token: string,
+	{ cache, rateLimits }: GitHubClientOptions = {},
+): HttpClient.HttpClient => {
+	const lastRecorded = new Map<string, GitHubRateLimitSnapshot>();
+
+	return HttpClient.mapRequest(
 		HttpClient.make((request, url, signal, _fiber) =>
 			Effect.gen(function* () {
 				// Convert HttpClientRequest body to a BodyInit for native fetch.
@@ -200,13 +451,24 @@ const makeAuthedHttpClient = (token: string): HttpClient.HttpClient =>
 				const requestHeaders = Object.fromEntries(
 					Object.entries(request.headers),
 				);
+				// Cache failures only cost us the conditional request — never the call.
+				const cacheKey =
+					cache === undefined ? null : cacheKeyFor(cache, request, url);
+				const cached =
+					cache === undefined || cacheKey === null
+						? null
+						: yield* cache
+								.lookup(cacheKey)
+								.pipe(Effect.catchAllCause(() => Effect.succeed(null)));
+
 				const mergedHeaders: Record<string, string> = {
 					Authorization: `Bearer ${token}`,
-					Accept: "application/vnd.github+json",
+					Accept: DEFAULT_ACCEPT,
 					"X-GitHub-Api-Version": "2022-11-28",
 					// bodyUnsafeJson sets the body as raw pre-serialized JSON but
 					// doesn't add Content-Type since we bypass the platform layer.
 					...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+					...conditionalHeaders(cached),
 					...requestHeaders,
 				};
 
@@ -226,6 +488,19 @@ const makeAuthedHttpClient = (token: string): HttpClient.HttpClient =>
 						}),
 				});
 
+				const snapshot =
+					rateLimits === undefined ? null : parseRateLimitSnapshot(res.headers);
+				if (
+					rateLimits !== undefined &&
+					snapshot !== null &&
+					shouldRecordRateLimit(lastRecorded.get(snapshot.resource), snapshot)
+				) {
+					lastRecorded.set(snapshot.resource, snapshot);
+					yield* rateLimits
+						.record(snapshot)
+						.pipe(Effect.catchAllCause(() => Effect.void));
+				}
+
 				// Detect rate limits at the transport layer.
 				// We surface these as HttpClientError.ResponseError so the type
 				// fits HttpClient's error channel. Callers can catchTag on it.
@@ -238,7 +513,57 @@ const makeAuthedHttpClient = (token: string): HttpClient.HttpClient =>
 					});
 				}
 
-				return HttpClientResponse.fromWeb(request, res);
+				if (cache === undefined || cacheKey === null) {
+					return HttpClientResponse.fromWeb(request, res);
+				}
+
+				if (res.status === 304 && cached !== null) {
+					yield* Effect.annotateCurrentSpan("github_api.cache", "hit");
+					yield* cache
+						.recordHit(cacheKey)
+						.pipe(Effect.catchAllCause(() => Effect.void));
+					return HttpClientResponse.fromWeb(
+						request,
+						replayCachedResponse(cached),
+					);
+				}
+
+				yield* Effect.annotateCurrentSpan("github_api.cache", "miss");
+				const etag = res.headers.get("etag");
+				const lastModified = res.headers.get("last-modified");
+				if (res.status !== 200 || (etag === null && lastModified === null)) {
+					return HttpClientResponse.fromWeb(request, res);
+				}
+
+				// The body can only be read once, so buffer it and hand back a copy
+				const text = yield* Effect.tryPromise({
+					try: () => res.text(),
+					catch: (cause) =>
+						new HttpClientError.ResponseError({
+							request,
+							response: HttpClientResponse.fromWeb(request, res),
+							reason: "Decode",
+							description: String(cause),
+						}),
+				});
+				if (text.length <= MAX_CACHED_BODY_LENGTH) {
+					yield* cache
+						.save(cacheKey, url.href, {
+							body: text,
+							contentType: res.headers.get("content-type"),
+							etag,
+							lastModified,
+						})
+						.pipe(Effect.catchAllCause(() => Effect.void));
+				}
+				return HttpClientResponse.fromWeb(
+					request,
+					new Response(text, {
+						status: res.status,
+						statusText: res.statusText,
+						headers: res.headers,
+					}),
+				);
 			}).pipe(Effect.withSpan("github_api.request")),
 		),
 		(request) => {
@@ -251,6 +576,7 @@ const makeAuthedHttpClient = (token: string): HttpClient.HttpClient =>
 			return request;
 		},
 	);
+};
 
 // ---------------------------------------------------------------------------
 // Non-JSON helper implementations
@@ -279,7 +605,8 @@ const executeTextRequest = (
 	});
 
 /**
- * Execute a POST that expects a 201/202/204 "accepted" response with no body.
+ * Execute a request that expects a 2xx "accepted" response. Any response
+ * body is ignored.
  */
 const executeAcceptedRequest = (
 	client: HttpClient.HttpClient,
@@ -290,11 +617,7 @@ const executeAcceptedRequest = (
 > =>
 	Effect.gen(function* () {
 		const response = yield* client.execute(request);
-		if (
-			response.status === 201 ||
-			response.status === 202 ||
-			response.status === 204
-		) {
+		if (response.status >= 200 && response.status < 300) {
 			return { accepted: true };
 		}
 
@@ -321,8 +644,11 @@ const executeAcceptedRequest = (
 		});
 	});
 
-const makeClient = (token: string): IGitHubApiClient => {
-	const httpClient = makeAuthedHttpClient(token);
+const makeClient = (
+	token: string,
+	options?: GitHubClientOptions,
+): IGitHubApiClient => {
+	const httpClient = makeAuthedHttpClient(token, options);
 	const typedClient = makeGeneratedClient(httpClient);
 	return {
 		client: typedClient,
@@ -377,6 +703,43 @@ const makeClient = (token: string): IGitHubApiClient => {
 					`/repos/${owner}/${repo}/actions/workflows/${workflowId}/dispatches`,
 				).pipe(HttpClientRequest.bodyUnsafeJson({ ref })),
 			),
+
+		activityMarkThreadAsDone: (threadId) =>
+			executeAcceptedRequest(
+				httpClient,
+				HttpClientRequest.del(`/notifications/threads/${threadId}`),
+			),
+
+		activityIgnoreThread: (threadId) =>
+			executeAcceptedRequest(
+				httpClient,
+				HttpClientRequest.put(
+					`/notifications/threads/${threadId}/subscription`,
+				).pipe(HttpClientRequest.bodyUnsafeJson({ ignored: true })),
+			),
+
+		activityDeleteThreadSubscription: (threadId) =>
+			executeAcceptedRequest(
+				httpClient,
+				HttpClientRequest.del(
+					`/notifications/threads/${threadId}/subscription`,
+				),
+			),
+
+		activityMarkNotificationsAsRead: (lastReadAt, repository) =>
+			executeAcceptedRequest(
+				httpClient,
+				HttpClientRequest.put(
+					repository === undefined
+						? "/notifications"
+						: `/repos/${repository.owner}/${repository.repo}/notifications`,
+				).pipe(
+					HttpClientRequest.bodyUnsafeJson({
+						last_read_at: lastReadAt,
+						read: true,
+					}),
+				),
+			),
 	};
 };
 
@@ -386,18 +749,24 @@ export class GitHubApiClient extends Context.Tag("@fastergh/GitHubApiClient")<
 >() {
 	/**
 	 * Construct a client layer from an explicit OAuth token string.
+	 * Pass a `cache` to turn GETs into conditional requests, and a
+	 * `rateLimits` ledger to track the token's remaining budget.
 	 */
-	static fromToken = (token: string) => Layer.succeed(this, makeClient(token));
+	static fromToken = (token: string, options?: GitHubClientOptions) =>
+		Layer.succeed(this, makeClient(token, options));
 
 	/**
 	 * Construct a client layer from a GitHub App installation ID.
 	 */
-	static fromInstallation = (installationId: number) =>
+	static fromInstallation = (
+		installationId: number,
+		options?: GitHubClientOptions,
+	) =>
 		Layer.effect(
 			this,
 			Effect.gen(function* () {
 				const token = yield* getInstallationToken(installationId);
-				return makeClient(token);
+				return makeClient(token, options);
 			}),
 		);
 }
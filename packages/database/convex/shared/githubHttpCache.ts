@@ -0,0 +1,86 @@
+/**
+ * githubHttpCache — Convex-backed `GitHubResponseCache` for actions.
+ *
+ * Usage:
+ * ```ts
+ * const ctx = yield* ConfectActionCtx;
+ * const gh = yield* Effect.provide(
+ *   GitHubApiClient,
+ *   GitHubApiClient.fromToken(token, {
+ *     cache: makeGitHubResponseCache(
+ *       ctx,
+ *       installationTokenIdentity(installationId),
+ *     ),
+ *   }),
+ * );
+ * ```
+ */
+import { Effect, Schema } from "effect";
+import { internal } from "../_generated/api";
+import type { ConfectActionCtx } from "../confect";
+import type { GitHubResponseCache } from "./githubApi";
+
+export const CachedGitHubResponseSchema = Schema.Struct({
+	body: Schema.String,
+	contentType: Schema.NullOr(Schema.String),
+	etag: Schema.NullOr(Schema.String),
+	lastModified: Schema.NullOr(Schema.String),
+});
+
+/** Token identity a cache key belongs to — keys are `identity|accept|url`. */
+export const cacheKeyIdentity = (cacheKey: string): string => {
+	const separator = cacheKey.indexOf("|");
+	return separator === -1 ? cacheKey : cacheKey.slice(0, separator);
+};
+
+/** Add up per-identity cache totals into one hit rate. */
+export const summarizeCacheStats = (
+	rows: ReadonlyArray<{
+		readonly entries: number;
+		readonly hits: number;
+		readonly misses: number;
+	}>,
+) => {
+	let entries = 0;
+	let hits = 0;
+	let misses = 0;
+	for (const row of rows) {
+		entries += row.entries;
+		hits += row.hits;
+		misses += row.misses;
+	}
+	const total = hits + misses;
+	return {
+		entries,
+		hits,
+		misses,
+		hitRate: total === 0 ? 0 : hits / total,
+	};
+};
+
+const decodeCachedResponse = Schema.decodeUnknownSync(
+	Schema.NullOr(CachedGitHubResponseSchema),
+);
+
+export const makeGitHubResponseCache = (
+	ctx: Pick<ConfectActionCtx, "runQuery" | "runMutation">,
+	identity: string,
+): GitHubResponseCache => ({
+	identity,
+	lookup: (cacheKey) =>
+		ctx
+			.runQuery(internal.rpc.githubHttpCache.getCachedResponse, { cacheKey })
+			.pipe(Effect.map(decodeCachedResponse)),
+	save: (cacheKey, url, response) =>
+		ctx
+			.runMutation(internal.rpc.githubHttpCache.storeCachedResponse, {
+				cacheKey,
+				url,
+				response,
+			})
+			.pipe(Effect.asVoid),
+	recordHit: (cacheKey) =>
+		ctx
+			.runMutation(internal.rpc.githubHttpCache.recordCacheHit, { cacheKey })
+			.pipe(Effect.asVoid),
+});
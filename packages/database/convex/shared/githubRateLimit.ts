@@ -0,0 +1,46 @@
+/**
+ * githubRateLimit — Convex-backed `GitHubRateLimitLedger` for actions.
+ *
+ * Usage:
+ * ```ts
+ * const ctx = yield* ConfectActionCtx;
+ * const identity = installationTokenIdentity(installationId);
+ * const gh = yield* Effect.provide(
+ *   GitHubApiClient,
+ *   GitHubApiClient.fromToken(token, {
+ *     rateLimits: makeGitHubRateLimitLedger(ctx, identity),
+ *   }),
+ * );
+ * ```
+ */
+import { Effect, Schema } from "effect";
+import { internal } from "../_generated/api";
+import type { ConfectActionCtx } from "../confect";
+import type { GitHubRateLimitLedger } from "./githubApi";
+
+export const GitHubRateLimitSnapshotSchema = Schema.Struct({
+	resource: Schema.String,
+	limit: Schema.Number,
+	remaining: Schema.Number,
+	used: Schema.Number,
+	resetAt: Schema.Number,
+});
+
+export const GitHubRateLimitPrioritySchema = Schema.Literal(
+	"interactive",
+	"background",
+);
+
+export const makeGitHubRateLimitLedger = (
+	ctx: Pick<ConfectActionCtx, "runMutation">,
+	identity: string,
+): GitHubRateLimitLedger => ({
+	identity,
+	record: (snapshot) =>
+		ctx
+			.runMutation(internal.rpc.githubRateLimits.recordRateLimit, {
+				identity,
+				snapshot,
+			})
+			.pipe(Effect.asVoid),
+});
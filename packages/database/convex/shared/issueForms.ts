@@ -0,0 +1,443 @@
+/**
+ * issueForms — parse GitHub issue forms (`.github/ISSUE_TEMPLATE/*.yml`) and
+ * the template chooser config (`config.yml`).
+ *
+ * Issue forms need real YAML (nested sequences of mappings, block scalars),
+ * so this module carries a small YAML subset parser rather than a dependency.
+ * It covers what GitHub documents for issue forms: block mappings and
+ * sequences, `|` / `>` block scalars, flow sequences, quoted and plain
+ * scalars, and comments. Anchors, tags and multi-document streams are not
+ * supported.
+ */
+import { Schema } from "effect";
+import {
+	toTrueBoolean as bool,
+	toObjectRecord as obj,
+	toStringOrNull as str,
+} from "./coerce";
+
+// ---------------------------------------------------------------------------
+// Form schemas
+// ---------------------------------------------------------------------------
+
+export const IssueFormElementType = Schema.Literal(
+	"markdown",
+	"input",
+	"textarea",
+	"dropdown",
+	"checkboxes",
+);
+
+export const IssueFormOption = Schema.Struct({
+	label: Schema.String,
+	/** Checkboxes only: the box must be ticked to submit */
+	required: Schema.Boolean,
+});
+
+/**
+ * One element of an issue form body, flattened across element types.
+ * Fields that don't apply to a type are null / empty.
+ */
+export const IssueFormElement = Schema.Struct({
+	type: IssueFormElementType,
+	id: Schema.NullOr(Schema.String),
+	label: Schema.String,
+	description: Schema.NullOr(Schema.String),
+	placeholder: Schema.NullOr(Schema.String),
+	/** Pre-filled value; the rendered text for `markdown` elements */
+	value: Schema.NullOr(Schema.String),
+	/** Textarea only: language of the code block the answer is wrapped in */
+	render: Schema.NullOr(Schema.String),
+	options: Schema.Array(IssueFormOption),
+	multiple: Schema.Boolean,
+	/** Dropdown only: index of the preselected option */
+	defaultIndex: Schema.NullOr(Schema.Number),
+	required: Schema.Boolean,
+});
+
+export type IssueFormElement = typeof IssueFormElement.Type;
+
+export const IssueTemplateContactLink = Schema.Struct({
+	name: Schema.String,
+	url: Schema.String,
+	about: Schema.String,
+});
+
+export type IssueTemplateConfig = {
+	blankIssuesEnabled: boolean;
+	contactLinks: Array<typeof IssueTemplateContactLink.Type>;
+};
+
+export type ParsedIssueForm = {
+	name: string;
+	description: string;
+	title: string | null;
+	labels: Array<string>;
+	assignees: Array<string>;
+	body: Array<IssueFormElement>;
+};
+
+// ---------------------------------------------------------------------------
+// YAML subset parser
+// ---------------------------------------------------------------------------
+
+type YamlLine = { indent: number; text: string };
+
+const stripComment = (text: string): string => {
+	let quote: string | null = null;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote !== null) {
+			if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			if (i === 0 || text[i - 1] === " " || text[i - 1] === "[") quote = char;
+		} else if (char === "#" && (i === 0 || text[i - 1] === " ")) {
+			return text.slice(0, i).trimEnd();
+		}
+	}
+	return text;
+};
+
+const splitFlowItems = (inner: string): Array<string> => {
+	const items: Array<string> = [];
+	let quote: string | null = null;
+	let current = "";
+	for (const char of inner) {
+		if (quote !== null) {
+			if (char === quote) quote = null;
+			current += char;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+			current += char;
+		} else if (char === ",") {
+			items.push(current.trim());
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	if (current.trim().length > 0) items.push(current.trim());
+	return items;
+};
+
+const parseScalar = (raw: string): unknown => {
+	const text = stripComment(raw).trim();
+	if (text.length === 0 || text === "~" || text === "null") return null;
+	if (text === "true") return true;
+	if (text === "false") return false;
+	if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+		return text
+			.slice(1, -1)
+			.replace(/\\(["\\nt])/g, (_, escaped: string) =>
+				escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped,
+			);
+	}
+	if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) {
+		return text.slice(1, -1).replace(/''/g, "'");
+	}
+	if (text.startsWith("[") && text.endsWith("]")) {
+		return splitFlowItems(text.slice(1, -1)).map(parseScalar);
+	}
+	if (text === "{}") return {};
+	if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+	return text;
+};
+
+const KEY_PATTERN = /^("[^"]*"|'[^']*'|[^\s"'#][^:]*?)\s*:(?:\s+(.*))?$/;
+
+class YamlReader {
+	private readonly lines: Array<YamlLine & { raw: string }>;
+	private pos = 0;
+
+	constructor(source: string) {
+		this.lines = source
+			.replace(/\r\n?/g, "\n")
+			.split("\n")
+			.map((raw) => {
+				const indent = raw.length - raw.trimStart().length;
+				return { indent, text: raw.trim(), raw };
+			});
+	}
+
+	/** Advance past blank and comment-only lines. */
+	private peek(): (YamlLine & { raw: string }) | null {
+		while (this.pos < this.lines.length) {
+			const line = this.lines[this.pos];
+			if (line === undefined) return null;
+			if (line.text.length > 0 && !line.text.startsWith("#")) return line;
+			this.pos++;
+		}
+		return null;
+	}
+
+	parseDocument(): unknown {
+		const first = this.peek();
+		if (first === null) return null;
+		if (first.text === "---") {
+			this.pos++;
+			return this.parseDocument();
+		}
+		return this.parseBlock(first.indent);
+	}
+
+	private parseBlock(indent: number): unknown {
+		const line = this.peek();
+		if (line === null || line.indent < indent) return null;
+		if (line.text === "-" || line.text.startsWith("- ")) {
+			return this.parseSequence(line.indent);
+		}
+		if (KEY_PATTERN.test(line.text)) return this.parseMapping(line.indent);
+		this.pos++;
+		return parseScalar(line.text);
+	}
+
+	private parseSequence(indent: number): Array<unknown> {
+		const items: Array<unknown> = [];
+		for (let line = this.peek(); line !== null; line = this.peek()) {
+			if (line.indent !== indent) break;
+			if (line.text !== "-" && !line.text.startsWith("- ")) break;
+
+			const rest = line.text.slice(1).trimStart();
+			if (rest.length === 0) {
+				this.pos++;
+				const next = this.peek();
+				items.push(
+					next !== null && next.indent > indent
+						? this.parseBlock(next.indent)
+						: null,
+				);
+			} else if (KEY_PATTERN.test(rest) && !/^["'[]/.test(rest)) {
+				// `- key: value` opens a mapping indented to where `key` starts
+				const childIndent = line.indent + (line.text.length - rest.length);
+				this.lines[this.pos] = { ...line, indent: childIndent, text: rest };
+				items.push(this.parseMapping(childIndent));
+			} else if (/^[|>]/.test(rest)) {
+				this.pos++;
+				items.push(this.parseBlockScalar(rest, indent));
+			} else {
+				this.pos++;
+				items.push(parseScalar(rest));
+			}
+		}
+		return items;
+	}
+
+	private parseMapping(indent: number): Record<string, unknown> {
+		const result: Record<string, unknown> = {};
+		for (let line = this.peek(); line !== null; line = this.peek()) {
+			if (line.indent !== indent) break;
+			const match = KEY_PATTERN.exec(line.text);
+			if (match === null || match[1] === undefined) break;
+			this.pos++;
+
+			const key = String(parseScalar(match[1]));
+			const rest = stripComment(match[2] ?? "").trim();
+
+			if (rest.length === 0) {
+				const next = this.peek();
+				if (next !== null && next.indent > indent) {
+					result[key] = this.parseBlock(next.indent);
+				} else if (
+					next !== null &&
+					next.indent === indent &&
+					(next.text === "-" || next.text.startsWith("- "))
+				) {
+					// Sequences may sit at the same indent as their parent key
+					result[key] = this.parseSequence(indent);
+				} else {
+					result[key] = null;
+				}
+			} else if (/^[|>]/.test(rest)) {
+				result[key] = this.parseBlockScalar(rest, indent);
+			} else {
+				result[key] = this.parsePlainContinuation(rest, indent);
+			}
+		}
+		return result;
+	}
+
+	/** Plain scalars may wrap onto more-indented lines; YAML folds them. */
+	private parsePlainContinuation(first: string, indent: number): unknown {
+		if (/^["'[{]/.test(first)) return parseScalar(first);
+		const parts = [first];
+		for (let line = this.peek(); line !== null; line = this.peek()) {
+			if (line.indent <= indent || KEY_PATTERN.test(line.text)) break;
+			if (line.text.startsWith("- ")) break;
+			parts.push(stripComment(line.text));
+			this.pos++;
+		}
+		return parts.length === 1 ? parseScalar(first) : parts.join(" ");
+	}
+
+	private parseBlockScalar(header: string, parentIndent: number): string {
+		const folded = header.startsWith(">");
+		const chomp = header.includes("-")
+			? "strip"
+			: header.includes("+")
+				? "keep"
+				: "clip";
+
+		const collected: Array<string> = [];
+		let contentIndent: number | null = null;
+		while (this.pos < this.lines.length) {
+			const line = this.lines[this.pos];
+			if (line === undefined) break;
+			if (line.text.length === 0) {
+				collected.push("");
+				this.pos++;
+				continue;
+			}
+			if (line.indent <= parentIndent) break;
+			contentIndent ??= line.indent;
+			if (line.indent < contentIndent) break;
+			collected.push(line.raw.slice(contentIndent));
+			this.pos++;
+		}
+
+		let trailing = 0;
+		while (collected.length > 0 && collected[collected.length - 1] === "") {
+			collected.pop();
+			trailing++;
+		}
+
+		let text: string;
+		if (folded) {
+			text = "";
+			for (const [index, part] of collected.entries()) {
+				const previous = index > 0 ? collected[index - 1] : undefined;
+				if (index === 0) {
+					text = part;
+				} else if (part === "") {
+					text += "\n";
+				} else if (previous === "") {
+					text += part;
+				} else if (part.startsWith(" ") || previous?.startsWith(" ")) {
+					text += `\n${part}`;
+				} else {
+					text += ` ${part}`;
+				}
+			}
+		} else {
+			text = collected.join("\n");
+		}
+
+		if (collected.length === 0) return "";
+		if (chomp === "strip") return text;
+		if (chomp === "keep") return text + "\n".repeat(trailing + 1);
+		return `${text}\n`;
+	}
+}
+
+/**
+ * Parse a YAML document into plain JS values. Never throws; malformed input
+ * degrades to whatever structure could be read.
+ */
+export const parseYaml = (source: string): unknown =>
+	new YamlReader(source).parseDocument();
+
+// ---------------------------------------------------------------------------
+// Issue form decoding
+// ---------------------------------------------------------------------------
+
+/** `labels`/`assignees` accept either a YAML list or a comma-separated string. */
+const toNameList = <A>(value: A): Array<string> => {
+	const items = Array.isArray(value)
+		? value
+		: typeof value === "string"
+			? value.split(",")
+			: [];
+	return items
+		.map((item) => (typeof item === "string" ? item.trim() : ""))
+		.filter((item) => item.length > 0);
+};
+
+const toText = <A>(value: A): string | null =>
+	typeof value === "number" ? String(value) : str(value);
+
+const isElementType = Schema.is(IssueFormElementType);
+
+const parseFormElement = <A>(raw: A): IssueFormElement | null => {
+	const element = obj(raw);
+	const type = element.type;
+	if (!isElementType(type)) return null;
+
+	const attributes = obj(element.attributes);
+	const rawOptions = Array.isArray(attributes.options)
+		? attributes.options
+		: [];
+	const options = rawOptions.flatMap((option) => {
+		if (type === "checkboxes") {
+			const checkbox = obj(option);
+			const label = toText(checkbox.label);
+			return label === null
+				? []
+				: [{ label, required: bool(checkbox.required) }];
+		}
+		const label = toText(option);
+		return label === null ? [] : [{ label, required: false }];
+	});
+	const defaultIndex =
+		typeof attributes.default === "number" ? attributes.default : null;
+
+	return {
+		type,
+		id: str(element.id),
+		label: toText(attributes.label) ?? "",
+		description: toText(attributes.description),
+		placeholder: toText(attributes.placeholder),
+		value: toText(attributes.value),
+		render: str(attributes.render),
+		options,
+		multiple: bool(attributes.multiple),
+		defaultIndex:
+			defaultIndex !== null && defaultIndex < options.length
+				? defaultIndex
+				: null,
+		required: bool(obj(element.validations).required),
+	};
+};
+
+/**
+ * Parse an issue form file. Returns null when the file isn't a form
+ * (missing `name` or `body`).
+ */
+export const parseIssueForm = (source: string): ParsedIssueForm | null => {
+	const form = obj(parseYaml(source));
+	const name = toText(form.name);
+	if (name === null || !Array.isArray(form.body)) return null;
+
+	const body = form.body.flatMap((element) => {
+		const parsed = parseFormElement(element);
+		return parsed === null ? [] : [parsed];
+	});
+	if (body.length === 0) return null;
+
+	const title = toText(form.title);
+	return {
+		name,
+		description: toText(form.description) ?? "",
+		title: title !== null && title.length > 0 ? title : null,
+		labels: toNameList(form.labels),
+		assignees: toNameList(form.assignees),
+		body,
+	};
+};
+
+/**
+ * Parse `.github/ISSUE_TEMPLATE/config.yml`. Blank issues stay enabled unless
+ * the config explicitly turns them off, matching GitHub.
+ */
+export const parseTemplateConfig = (source: string): IssueTemplateConfig => {
+	const config = obj(parseYaml(source));
+	const links = Array.isArray(config.contact_links) ? config.contact_links : [];
+	return {
+		blankIssuesEnabled: config.blank_issues_enabled !== false,
+		contactLinks: links.flatMap((raw) => {
+			const link = obj(raw);
+			const name = toText(link.name);
+			const url = str(link.url);
+			if (name === null || url === null) return [];
+			return [{ name, url, about: toText(link.about) ?? "" }];
+		}),
+	};
+};
@@ -0,0 +1,278 @@
+/**
+ * listFilters — author / assignee / label / updated-since / linked / title
+ * text filters applied on top of the indexed issue and PR list queries.
+ *
+ * Used by the paginated list endpoints (so saved views can run against them)
+ * and by saved-view unread counts. Logins are compared case-insensitively,
+ * matching how the search DSL lowercases its input.
+ *
+ * Filtered lists don't use Convex's `paginate`, which can only return the
+ * page it read: `paginateFilteredList` keeps reading in index order until
+ * the page is full, with its own cursor.
+ */
+import type { LooseIndexRangeBuilder } from "@packages/confect";
+import type { IndexRange } from "convex/server";
+import { Chunk, Effect, Option, Schema, Stream } from "effect";
+
+/** Optional filter fields accepted by the paginated issue and PR lists. */
+export const ListFilterFields = {
+	authorLogin: Schema.optional(Schema.String),
+	assigneeLogin: Schema.optional(Schema.String),
+	/** Items must carry every one of these labels */
+	labels: Schema.optional(Schema.Array(Schema.String)),
+	updatedAfter: Schema.optional(Schema.Number),
+	/** Only PRs that close an issue, or issues a PR closes (`linked:`) */
+	linked: Schema.optional(Schema.Boolean),
+	/** Free-text search words; every one must appear in the title */
+	textTokens: Schema.optional(Schema.Array(Schema.String)),
+};
+
+export type ListFilters = {
+	readonly authorLogin?: string | null;
+	readonly assigneeLogin?: string | null;
+	readonly labels?: ReadonlyArray<string>;
+	readonly updatedAfter?: number | null;
+	readonly linked?: boolean | null;
+	readonly textTokens?: ReadonlyArray<string>;
+	/** Only keep merged pull requests (the DSL's `merged` state) */
+	readonly mergedOnly?: boolean;
+};
+
+export type ListFilterItem = {
+	readonly number?: number;
+	readonly title?: string;
+	readonly authorUserId: number | null;
+	readonly assigneeUserIds: ReadonlyArray<number>;
+	readonly labelNames?: ReadonlyArray<string>;
+	readonly githubUpdatedAt: number;
+	readonly mergedAt?: number | null;
+};
+
+const normalizeLogin = (value: string | null | undefined) => {
+	const login = value?.trim().replace(/^@/, "").toLowerCase() ?? "";
+	return login.length > 0 ? login : null;
+};
+
+/**
+ * Build a predicate for `filters`. `resolveLogin` maps a GitHub user id to
+ * its login; results are memoized for the lifetime of the matcher.
+ * `hasClosingLink` answers the `linked` filter for an item number; without
+ * it, `linked` matches nothing.
+ */
+export const makeListFilter = <E, R>(
+	filters: ListFilters,
+	resolveLogin: (userId: number) => Effect.Effect<string | null, E, R>,
+	hasClosingLink?: (number: number) => Effect.Effect<boolean, E, R>,
+) => {
+	const author = normalizeLogin(filters.authorLogin);
+	const assignee = normalizeLogin(filters.assigneeLogin);
+	const labels = (filters.labels ?? [])
+		.map((label) => label.trim().toLowerCase())
+		.filter((label) => label.length > 0);
+	const updatedAfter = filters.updatedAfter ?? null;
+	const mergedOnly = filters.mergedOnly ?? false;
+	const linked = filters.linked ?? false;
+	const textTokens = (filters.textTokens ?? [])
+		.map((token) => token.trim().toLowerCase())
+		.filter((token) => token.length > 0);
+
+	const loginByUserId = new Map<number, string | null>();
+	const loginOf = (userId: number) =>
+		Effect.gen(function* () {
+			const cached = loginByUserId.get(userId);
+			if (cached !== undefined) return cached;
+			const login = normalizeLogin(yield* resolveLogin(userId));
+			loginByUserId.set(userId, login);
+			return login;
+		});
+
+	const isEmpty =
+		author === null &&
+		assignee === null &&
+		labels.length === 0 &&
+		updatedAfter === null &&
+		!mergedOnly &&
+		!linked &&
+		textTokens.length === 0;
+
+	const matches = (item: ListFilterItem) =>
+		Effect.gen(function* () {
+			if (updatedAfter !== null && item.githubUpdatedAt < updatedAfter) {
+				return false;
+			}
+			if (mergedOnly && (item.mergedAt ?? null) === null) return false;
+
+			if (textTokens.length > 0) {
+				const title = item.title?.toLowerCase() ?? "";
+				if (!textTokens.every((token) => title.includes(token))) return false;
+			}
+
+			if (labels.length > 0) {
+				const itemLabels = (item.labelNames ?? []).map((label) =>
+					label.toLowerCase(),
+				);
+				if (!labels.every((label) => itemLabels.includes(label))) {
+					return false;
+				}
+			}
+
+			if (author !== null) {
+				if (item.authorUserId === null) return false;
+				if ((yield* loginOf(item.authorUserId)) !== author) return false;
+			}
+
+			if (assignee !== null) {
+				let assigned = false;
+				for (const userId of item.assigneeUserIds) {
+					if ((yield* loginOf(userId)) === assignee) {
+						assigned = true;
+						break;
+					}
+				}
+				if (!assigned) return false;
+			}
+
+			if (linked) {
+				if (item.number === undefined || hasClosingLink === undefined) {
+					return false;
+				}
+				if (!(yield* hasClosingLink(item.number))) return false;
+			}
+
+			return true;
+		});
+
+	return { isEmpty, matches };
+};
+
+// ---------------------------------------------------------------------------
+// Filtered list pagination
+// ---------------------------------------------------------------------------
+
+/** Rows one filtered page may read before it comes back short */
+export const FILTERED_LIST_SCAN_LIMIT = 500;
+
+/** The last row read, in `githubUpdatedAt` desc / `_creationTime` desc order */
+const ListScanPosition = Schema.Struct({
+	githubUpdatedAt: Schema.Number,
+	creationTime: Schema.Number,
+});
+type ListScanPosition = typeof ListScanPosition.Type;
+
+const FilteredListCursor = Schema.parseJson(
+	Schema.Struct({
+		/** Index of the segment being read */
+		segment: Schema.Number,
+		/** Null when the segment hasn't been read yet */
+		position: Schema.NullOr(ListScanPosition),
+	}),
+);
+
+/**
+ * One index range of a list, read newest first. `range` narrows the
+ * index's `githubUpdatedAt` (and `_creationTime`) fields after the
+ * segment's own equality prefix.
+ */
+export type ListScanSegment<Doc> = (
+	range: (q: LooseIndexRangeBuilder) => IndexRange,
+) => Stream.Stream<Doc>;
+
+/** Rows of `segment` after `position`, not older than `updatedAfter`. */
+const scanSegmentFrom = <Doc>(
+	segment: ListScanSegment<Doc>,
+	position: ListScanPosition | null,
+	updatedAfter: number | undefined,
+) => {
+	const newerBound = (q: LooseIndexRangeBuilder) =>
+		updatedAfter !== undefined ? q.gte("githubUpdatedAt", updatedAfter) : q;
+	if (position === null) return segment(newerBound);
+	return Stream.concat(
+		segment((q) =>
+			q
+				.eq("githubUpdatedAt", position.githubUpdatedAt)
+				.lt("_creationTime", position.creationTime),
+		),
+		segment((q) =>
+			newerBound(q).lt("githubUpdatedAt", position.githubUpdatedAt),
+		),
+	);
+};
+
+/**
+ * Page through `segments` in order, keeping rows `matches` accepts, until
+ * `numItems` match or FILTERED_LIST_SCAN_LIMIT rows have been read. Each
+ * segment must be ordered by `githubUpdatedAt` desc.
+ */
+export const paginateFilteredList = <
+	Doc extends {
+		readonly githubUpdatedAt: number;
+		readonly _creationTime: number;
+	},
+	E,
+	R,
+>(
+	opts: { readonly cursor: string | null; readonly numItems: number },
+	segments: ReadonlyArray<ListScanSegment<Doc>>,
+	matches: (doc: Doc) => Effect.Effect<boolean, E, R>,
+	updatedAfter?: number,
+) =>
+	Effect.gen(function* () {
+		const start =
+			opts.cursor === null || opts.cursor === ""
+				? Option.none()
+				: Schema.decodeUnknownOption(FilteredListCursor)(opts.cursor);
+		let segmentIndex = Option.isSome(start) ? start.value.segment : 0;
+		let position = Option.isSome(start) ? start.value.position : null;
+
+		const page: Array<Doc> = [];
+		let scanned = 0;
+		while (
+			segmentIndex < segments.length &&
+			page.length < opts.numItems &&
+			scanned < FILTERED_LIST_SCAN_LIMIT
+		) {
+			const segment = segments[segmentIndex];
+			if (segment === undefined) break;
+			const batchSize = Math.min(
+				Math.max(opts.numItems - page.length, 1) * 2,
+				FILTERED_LIST_SCAN_LIMIT - scanned,
+			);
+			const batch = Chunk.toArray(
+				yield* Stream.runCollect(
+					Stream.take(
+						scanSegmentFrom(segment, position, updatedAfter),
+						batchSize,
+					),
+				),
+			);
+			scanned += batch.length;
+
+			for (const doc of batch) {
+				position = {
+					githubUpdatedAt: doc.githubUpdatedAt,
+					creationTime: doc._creationTime,
+				};
+				if (yield* matches(doc)) {
+					page.push(doc);
+					if (page.length === opts.numItems) break;
+				}
+			}
+
+			if (page.length < opts.numItems && batch.length < batchSize) {
+				segmentIndex++;
+				position = null;
+			}
+		}
+
+		const isDone = segmentIndex >= segments.length;
+		return {
+			page,
+			isDone,
+			continueCursor: isDone
+				? ""
+				: Schema.encodeSync(FilteredListCursor)({
+						segment: segmentIndex,
+						position,
+					}),
+		};
+	});
@@ -0,0 +1,220 @@
+/**
+ * outboundIntegrations — fan activity feed entries out to per-repo
+ * integrations and shape the request each endpoint receives.
+ *
+ * `appendActivityFeedEntry` calls `enqueueOutboundDeliveries` in the same
+ * mutation that writes `view_activity_feed`, so every entry is queued
+ * exactly once. `deliverDueOutbound` in rpc/outboundIntegrations.ts sends
+ * the queue with `buildOutboundRequest`.
+ */
+import { Effect, Option, Schema } from "effect";
+import { ConfectMutationCtx } from "../confect";
+import { computeHmacSha256 } from "./webhookVerify";
+
+/** The activity entry as stored in a delivery's `payloadJson`. */
+export const OutboundActivitySchema = Schema.Struct({
+	activityType: Schema.String,
+	title: Schema.String,
+	description: Schema.NullOr(Schema.String),
+	actorLogin: Schema.NullOr(Schema.String),
+	actorAvatarUrl: Schema.NullOr(Schema.String),
+	entityNumber: Schema.NullOr(Schema.Number),
+	repositoryFullName: Schema.String,
+	htmlUrl: Schema.String,
+	createdAt: Schema.Number,
+});
+
+export type OutboundActivity = typeof OutboundActivitySchema.Type;
+
+export type OutboundIntegrationKind = "webhook" | "slack" | "discord";
+
+/**
+ * Whether an integration's filter accepts an activity type. Entries are
+ * exact types ("pr.opened") or a family prefix ("pr.*"); an empty filter
+ * accepts everything.
+ */
+export const matchesEventFilter = (
+	eventTypes: ReadonlyArray<string>,
+	activityType: string,
+): boolean =>
+	eventTypes.length === 0 ||
+	eventTypes.some((pattern) =>
+		pattern.endsWith(".*")
+			? activityType.startsWith(pattern.slice(0, -1))
+			: pattern === activityType,
+	);
+
+/** Activity families whose `entityNumber` is a pull request */
+const PULL_FAMILIES = new Set([
+	"pr",
+	"pr_comment",
+	"pr_review",
+	"pr_review_comment",
+]);
+const ISSUE_FAMILIES = new Set(["issue", "issue_comment"]);
+const DISCUSSION_FAMILIES = new Set(["discussion", "discussion_comment"]);
+
+/** Link to the GitHub page an activity entry is about. */
+export const activityHtmlUrl = (
+	repositoryFullName: string,
+	activityType: string,
+	entityNumber: number | null,
+): string => {
+	const repoUrl = `https://github.com/${repositoryFullName}`;
+	if (entityNumber === null) return repoUrl;
+	const family = activityType.split(".")[0] ?? "";
+	if (PULL_FAMILIES.has(family)) return `${repoUrl}/pull/${entityNumber}`;
+	if (ISSUE_FAMILIES.has(family)) return `${repoUrl}/issues/${entityNumber}`;
+	if (DISCUSSION_FAMILIES.has(family)) {
+		return `${repoUrl}/discussions/${entityNumber}`;
+	}
+	return repoUrl;
+};
+
+const summaryLine = (activity: OutboundActivity) => {
+	const actor = activity.actorLogin ?? "someone";
+	const subject =
+		activity.entityNumber === null
+			? activity.title
+			: `#${activity.entityNumber} ${activity.title}`;
+	return { actor, subject };
+};
+
+/**
+ * Request body for an integration kind. Slack and Discord get a single
+ * chat line with a link; generic webhooks get the structured entry.
+ */
+export const formatOutboundBody = (
+	kind: OutboundIntegrationKind,
+	activity: OutboundActivity,
+): string => {
+	const { actor, subject } = summaryLine(activity);
+	switch (kind) {
+		case "slack":
+			return JSON.stringify({
+				text: `[${activity.repositoryFullName}] ${actor} ${activity.activityType}: <${activity.htmlUrl}|${subject}>`,
+			});
+		case "discord":
+			return JSON.stringify({
+				content: `**[${activity.repositoryFullName}]** ${actor} ${activity.activityType}: [${subject}](${activity.htmlUrl})`,
+			});
+		case "webhook":
+			return JSON.stringify({
+				event: activity.activityType,
+				repository: activity.repositoryFullName,
+				title: activity.title,
+				description: activity.description,
+				number: activity.entityNumber,
+				url: activity.htmlUrl,
+				actor:
+					activity.actorLogin === null
+						? null
+						: {
+								login: activity.actorLogin,
+								avatarUrl: activity.actorAvatarUrl,
+							},
+				createdAt: new Date(activity.createdAt).toISOString(),
+			});
+	}
+};
+
+/**
+ * Body and headers for one delivery attempt. Generic webhooks with a
+ * secret are signed like GitHub signs its own: `sha256=<hex HMAC of body>`.
+ */
+export const buildOutboundRequest = (
+	target: {
+		readonly deliveryId: string;
+		readonly kind: OutboundIntegrationKind;
+		readonly secret: string | null;
+	},
+	activity: OutboundActivity,
+) =>
+	Effect.gen(function* () {
+		const body = formatOutboundBody(target.kind, activity);
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+			"User-Agent": "FasterGH-Outbound",
+		};
+		if (target.kind === "webhook") {
+			headers["X-FasterGH-Event"] = activity.activityType;
+			headers["X-FasterGH-Delivery"] = target.deliveryId;
+			if (target.secret !== null) {
+				const digest = yield* computeHmacSha256(target.secret, body);
+				headers["X-FasterGH-Signature-256"] = `sha256=${digest}`;
+			}
+		}
+		return { body, headers };
+	});
+
+/**
+ * Queue a delivery for each enabled integration on the repository whose
+ * filter accepts the activity type.
+ */
+export const enqueueOutboundDeliveries = (entry: {
+	readonly repositoryId: number;
+	readonly activityType: string;
+	readonly title: string;
+	readonly description: string | null;
+	readonly actorLogin: string | null;
+	readonly actorAvatarUrl: string | null;
+	readonly entityNumber: number | null;
+	readonly createdAt: number;
+}) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const integrations = yield* ctx.db
+			.query("github_outbound_integrations")
+			.withIndex("by_repositoryId", (q) =>
+				q.eq("repositoryId", entry.repositoryId),
+			)
+			.collect();
+		const targets = integrations.filter(
+			(integration) =>
+				integration.enabled &&
+				matchesEventFilter(integration.eventTypes, entry.activityType),
+		);
+		if (targets.length === 0) return 0;
+
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", entry.repositoryId),
+			)
+			.first();
+		if (Option.isNone(repo)) return 0;
+
+		const activity: OutboundActivity = {
+			activityType: entry.activityType,
+			title: entry.title,
+			description: entry.description,
+			actorLogin: entry.actorLogin,
+			actorAvatarUrl: entry.actorAvatarUrl,
+			entityNumber: entry.entityNumber,
+			repositoryFullName: repo.value.fullName,
+			htmlUrl: activityHtmlUrl(
+				repo.value.fullName,
+				entry.activityType,
+				entry.entityNumber,
+			),
+			createdAt: entry.createdAt,
+		};
+		const payloadJson = JSON.stringify(activity);
+
+		for (const integration of targets) {
+			yield* ctx.db.insert("github_outbound_deliveries", {
+				integrationId: integration._id,
+				repositoryId: entry.repositoryId,
+				activityType: entry.activityType,
+				payloadJson,
+				deliveryState: "pending",
+				attempts: 0,
+				nextRetryAt: null,
+				lastError: null,
+				responseStatus: null,
+				createdAt: entry.createdAt,
+				deliveredAt: null,
+			});
+		}
+		return targets.length;
+	});
@@ -1,12 +1,14 @@
 /**
  * Projection builders — update denormalized view tables from normalized domain data.
  *
- * Currently only the activity feed projection is maintained. The materialized
+ * Currently only the activity feed projection is maintained; each entry is
+ * also queued for the repository's outbound integrations. The materialized
  * view tables (view_repo_overview, view_repo_pull_request_list, etc.) have been
  * removed in favour of querying normalized tables directly.
  */
 import { Effect } from "effect";
 import { ConfectMutationCtx } from "../confect";
+import { enqueueOutboundDeliveries } from "./outboundIntegrations";
 
 // ---------------------------------------------------------------------------
 // view_activity_feed — normalized activity events from webhook events
@@ -24,7 +26,7 @@ export const appendActivityFeedEntry = (
 ) =>
 	Effect.gen(function* () {
 		const ctx = yield* ConfectMutationCtx;
-		yield* ctx.db.insert("view_activity_feed", {
+		const entry = {
 			repositoryId,
 			installationId,
 			activityType,
@@ -34,5 +36,7 @@ export const appendActivityFeedEntry = (
 			actorAvatarUrl,
 			entityNumber,
 			createdAt: Date.now(),
-		});
+		};
+		yield* ctx.db.insert("view_activity_feed", entry);
+		yield* enqueueOutboundDeliveries(entry);
 	});
@@ -0,0 +1,134 @@
+/**
+ * reactions — Helpers for GitHub's reaction rollups.
+ *
+ * GitHub keys reaction content as `+1`, `-1`, `laugh`, ... both in the
+ * REST rollup (`reactions: { total_count, "+1", ... }`) and in the
+ * reactions API. Domain rows store the rollup with identifier-safe field
+ * names (`plusOne`, `minusOne`, ...).
+ */
+import { Schema } from "effect";
+import { toNumberOrNull, toObjectRecord } from "./coerce";
+
+export const ReactionContentSchema = Schema.Literal(
+	"+1",
+	"-1",
+	"laugh",
+	"hooray",
+	"confused",
+	"heart",
+	"rocket",
+	"eyes",
+);
+
+export type ReactionContent = typeof ReactionContentSchema.Type;
+
+/**
+ * Mirror of GitHub's `reactions` rollup, as stored on issue, PR and comment
+ * rows. GitHub does not emit a webhook for reactions themselves, so counts
+ * refresh whenever the subject's payload arrives (and are adjusted locally
+ * by `githubWrite.addReaction` / `githubWrite.removeReaction`).
+ */
+export const ReactionSummarySchema = Schema.Struct({
+	totalCount: Schema.Number,
+	plusOne: Schema.Number,
+	minusOne: Schema.Number,
+	laugh: Schema.Number,
+	hooray: Schema.Number,
+	confused: Schema.Number,
+	heart: Schema.Number,
+	rocket: Schema.Number,
+	eyes: Schema.Number,
+});
+
+export type ReactionSummary = typeof ReactionSummarySchema.Type;
+
+type ReactionCountKey = Exclude<keyof ReactionSummary, "totalCount">;
+
+const COUNT_KEY_BY_CONTENT: Record<ReactionContent, ReactionCountKey> = {
+	"+1": "plusOne",
+	"-1": "minusOne",
+	laugh: "laugh",
+	hooray: "hooray",
+	confused: "confused",
+	heart: "heart",
+	rocket: "rocket",
+	eyes: "eyes",
+};
+
+export const REACTION_CONTENTS: ReadonlyArray<ReactionContent> =
+	ReactionContentSchema.literals;
+
+export const EMPTY_REACTION_SUMMARY: ReactionSummary = {
+	totalCount: 0,
+	plusOne: 0,
+	minusOne: 0,
+	laugh: 0,
+	hooray: 0,
+	confused: 0,
+	heart: 0,
+	rocket: 0,
+	eyes: 0,
+};
+
+/**
+ * Parse a GitHub `reactions` rollup. Returns null when the payload carries
+ * no rollup, so callers can keep the previously mirrored summary.
+ */
+export const parseReactionSummary = (
+	value: unknown,
+): ReactionSummary | null => {
+	if (typeof value !== "object" || value === null) return null;
+	const rollup = toObjectRecord(value);
+	const totalCount = toNumberOrNull(rollup.total_count);
+	if (totalCount === null) return null;
+
+	const count = (content: ReactionContent) =>
+		toNumberOrNull(rollup[content]) ?? 0;
+
+	return {
+		totalCount,
+		plusOne: count("+1"),
+		minusOne: count("-1"),
+		laugh: count("laugh"),
+		hooray: count("hooray"),
+		confused: count("confused"),
+		heart: count("heart"),
+		rocket: count("rocket"),
+		eyes: count("eyes"),
+	};
+};
+
+export const reactionCount = (
+	summary: ReactionSummary | null | undefined,
+	content: ReactionContent,
+): number => (summary ?? EMPTY_REACTION_SUMMARY)[COUNT_KEY_BY_CONTENT[content]];
+
+/**
+ * Apply a local +1/-1 to one reaction bucket, clamping at zero.
+ */
+export const adjustReactionSummary = (
+	summary: ReactionSummary | null | undefined,
+	content: ReactionContent,
+	delta: 1 | -1,
+): ReactionSummary => {
+	const base = summary ?? EMPTY_REACTION_SUMMARY;
+	const key = COUNT_KEY_BY_CONTENT[content];
+	return {
+		...base,
+		totalCount: Math.max(0, base.totalCount + delta),
+		[key]: Math.max(0, base[key] + delta),
+	};
+};
+
+/**
+ * Whether a tracked reaction row is currently reflected in its subject's
+ * mirrored counts. Optimistic writes move it in and out: a pending or
+ * confirmed addition counts, a removal only counts again once it failed.
+ */
+export const isReactionCounted = (reaction: {
+	readonly optimisticOperationType?: "add_reaction" | "remove_reaction" | null;
+	readonly optimisticState?: "pending" | "failed" | "confirmed" | null;
+}): boolean =>
+	reaction.optimisticOperationType === "remove_reaction"
+		? reaction.optimisticState === "failed"
+		: reaction.optimisticState !== "failed";
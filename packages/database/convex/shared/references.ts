@@ -0,0 +1,152 @@
+/**
+ * references — Cross-references between issues, pull requests, comments and
+ * commits, stored as edges in `github_issue_references`.
+ *
+ * A reference is `#N`, `owner/repo#N` or an issue/PR URL. Only references
+ * into the source's own repository are kept; other repositories' numbers
+ * can't be resolved against the mirror. A reference is closing when it
+ * follows a closing keyword (`close`, `fix`, `resolve` and their tenses) in
+ * a pull request body or a commit message — the places GitHub honours them.
+ *
+ * Each source (an issue or PR body, a comment, a commit) owns its edges:
+ * writers replace them wholesale whenever the source text changes.
+ */
+import { Effect, Option } from "effect";
+import { ConfectMutationCtx } from "../confect";
+
+export type ReferenceSourceType =
+	| "issue"
+	| "pull_request"
+	| "comment"
+	| "commit";
+
+export type ExtractedReference = {
+	readonly targetNumber: number;
+	readonly isClosing: boolean;
+};
+
+const REFERENCE_PATTERN =
+	/(?:\b(close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+)?(?:https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/(?:issues|pull)\/(\d+)|(?<![\w/#])(?:([\w.-]+)\/([\w.-]+))?#(\d+))\b/gi;
+
+/** Fenced and inline code never carries references. */
+const stripCode = (text: string) =>
+	text.replace(/```[\s\S]*?```/g, " ").replace(/`[^`\n]*`/g, " ");
+
+/**
+ * Extract same-repository references from `text`. Each target appears once;
+ * it is closing if any of its mentions is. `allowClosing` is false for
+ * sources where GitHub ignores closing keywords (issue bodies, comments).
+ */
+export const extractReferences = (
+	text: string,
+	repo: { readonly ownerLogin: string; readonly name: string },
+	allowClosing: boolean,
+): ReadonlyArray<ExtractedReference> => {
+	const owner = repo.ownerLogin.toLowerCase();
+	const name = repo.name.toLowerCase();
+	const closingByNumber = new Map<number, boolean>();
+
+	for (const match of stripCode(text).matchAll(REFERENCE_PATTERN)) {
+		const [
+			,
+			keyword,
+			urlOwner,
+			urlName,
+			urlNumber,
+			refOwner,
+			refName,
+			refNumber,
+		] = match;
+		const targetOwner = urlOwner ?? refOwner;
+		const targetName = urlName ?? refName;
+		if (
+			targetOwner !== undefined &&
+			(targetOwner.toLowerCase() !== owner ||
+				targetName?.toLowerCase() !== name)
+		) {
+			continue;
+		}
+
+		const targetNumber = Number(urlNumber ?? refNumber);
+		if (!Number.isSafeInteger(targetNumber) || targetNumber <= 0) continue;
+
+		const isClosing = allowClosing && keyword !== undefined;
+		closingByNumber.set(
+			targetNumber,
+			(closingByNumber.get(targetNumber) ?? false) || isClosing,
+		);
+	}
+
+	return [...closingByNumber].map(([targetNumber, isClosing]) => ({
+		targetNumber,
+		isClosing,
+	}));
+};
+
+/** Stable key for the edges owned by one source. */
+export const referenceSourceKey = (
+	sourceType: ReferenceSourceType,
+	id: number | string,
+) => `${sourceType}:${id}`;
+
+/**
+ * Replace the edges owned by a source with the references in `text`.
+ * A null `text` (deleted comment, empty body) just removes them.
+ */
+export const replaceReferences = (source: {
+	readonly repositoryId: number;
+	readonly sourceType: ReferenceSourceType;
+	/** Issue / PR number, comment ID or commit SHA */
+	readonly sourceId: number | string;
+	/** Issue or PR the source belongs to; null for commits */
+	readonly sourceNumber: number | null;
+	readonly text: string | null;
+	readonly createdAt: number;
+}) =>
+	Effect.gen(function* () {
+		const ctx = yield* ConfectMutationCtx;
+		const sourceKey = referenceSourceKey(source.sourceType, source.sourceId);
+
+		const existing = yield* ctx.db
+			.query("github_issue_references")
+			.withIndex("by_repositoryId_and_sourceKey", (q) =>
+				q.eq("repositoryId", source.repositoryId).eq("sourceKey", sourceKey),
+			)
+			.collect();
+		for (const edge of existing) {
+			yield* ctx.db.delete(edge._id);
+		}
+
+		// Skip the repository lookup for text that can't hold a reference
+		if (source.text === null || !/#\d|github\.com\//.test(source.text)) {
+			return;
+		}
+
+		const repo = yield* ctx.db
+			.query("github_repositories")
+			.withIndex("by_githubRepoId", (q) =>
+				q.eq("githubRepoId", source.repositoryId),
+			)
+			.first();
+		if (Option.isNone(repo)) return;
+
+		const references = extractReferences(
+			source.text,
+			repo.value,
+			source.sourceType === "pull_request" || source.sourceType === "commit",
+		);
+		for (const reference of references) {
+			if (reference.targetNumber === source.sourceNumber) continue;
+			yield* ctx.db.insert("github_issue_references", {
+				repositoryId: source.repositoryId,
+				sourceKey,
+				sourceType: source.sourceType,
+				sourceNumber: source.sourceNumber,
+				commitSha:
+					source.sourceType === "commit" ? String(source.sourceId) : null,
+				targetNumber: reference.targetNumber,
+				isClosing: reference.isClosing,
+				createdAt: source.createdAt,
+			});
+		}
+	});
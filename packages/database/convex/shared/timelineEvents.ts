@@ -0,0 +1,278 @@
+/**
+ * timelineEvents — Non-comment entries of an issue/PR timeline: label,
+ * assignee and milestone changes, renames, commit references, state
+ * changes, review requests and force-pushes.
+ *
+ * Events arrive from two sources: `issues` / `pull_request` / `push`
+ * webhooks as they happen, and `GET /repos/{owner}/{repo}/issues/{number}/timeline`
+ * when a detail page backfills history. The two share no event ID, so both
+ * derive `eventKey` from the event type, its second, and its subject (label,
+ * user, team, milestone, new title or commit). A webhook only carries the
+ * issue's `updated_at`, which can land a second off the timeline's
+ * `created_at`, so writers skip an event when one with the same type and
+ * subject is stored within `TIMELINE_EVENT_MATCH_WINDOW_MS`.
+ */
+import { Schema } from "effect";
+import {
+	toNumberOrNull as num,
+	toStringOrNull as str,
+	toObjectRecord,
+} from "./coerce";
+import { parseIsoToMsOrNull as isoToMs } from "./time";
+
+/** Timeline API `event` names (webhook actions are mapped onto these). */
+export const TimelineEventTypeSchema = Schema.Literal(
+	"labeled",
+	"unlabeled",
+	"assigned",
+	"unassigned",
+	"milestoned",
+	"demilestoned",
+	"renamed",
+	"referenced",
+	"closed",
+	"reopened",
+	"merged",
+	"locked",
+	"unlocked",
+	"review_requested",
+	"review_request_removed",
+	"convert_to_draft",
+	"ready_for_review",
+	"head_ref_force_pushed",
+);
+
+export type TimelineEventType = typeof TimelineEventTypeSchema.Type;
+
+/** Shape stored in `github_timeline_events` (minus repo/issue keys). */
+export const TimelineEventInputSchema = Schema.Struct({
+	eventKey: Schema.String,
+	eventType: TimelineEventTypeSchema,
+	actorUserId: Schema.NullOr(Schema.Number),
+	labelName: Schema.NullOr(Schema.String),
+	labelColor: Schema.NullOr(Schema.String),
+	/** Assignee or requested reviewer */
+	subjectUserId: Schema.NullOr(Schema.Number),
+	/** Requested team, for team review requests */
+	subjectTeamSlug: Schema.optional(Schema.NullOr(Schema.String)),
+	milestoneTitle: Schema.NullOr(Schema.String),
+	renameFrom: Schema.NullOr(Schema.String),
+	renameTo: Schema.NullOr(Schema.String),
+	/** Referencing commit, or the new head for a force-push */
+	commitSha: Schema.NullOr(Schema.String),
+	/** Head before a force-push */
+	beforeSha: Schema.NullOr(Schema.String),
+	createdAt: Schema.Number,
+});
+
+export type TimelineEventInput = typeof TimelineEventInputSchema.Type;
+
+/** The GitHub user fields the on-demand sync user collector reads. */
+export type TimelineActor = {
+	id: number;
+	login: string;
+	avatar_url: string;
+	site_admin: boolean;
+	type: string;
+};
+
+export const parseTimelineActor = (value: unknown): TimelineActor | null => {
+	const user = toObjectRecord(value);
+	const id = num(user.id);
+	const login = str(user.login);
+	if (id === null || login === null) return null;
+	return {
+		id,
+		login,
+		avatar_url: str(user.avatar_url) ?? "",
+		site_admin: user.site_admin === true,
+		type: str(user.type) ?? "User",
+	};
+};
+
+const isTimelineEventType = (
+	value: string | null,
+): value is TimelineEventType =>
+	value !== null && TimelineEventTypeSchema.literals.some((t) => t === value);
+
+/** How far apart a webhook and a timeline copy of one event may be dated. */
+export const TIMELINE_EVENT_MATCH_WINDOW_MS = 1000;
+
+type TimelineEventFields = Omit<TimelineEventInput, "eventKey" | "createdAt">;
+
+const timelineEventSubject = (fields: TimelineEventFields) =>
+	// Force-push SHAs are absent from the REST timeline, so they can't key it
+	fields.eventType === "head_ref_force_pushed"
+		? null
+		: (fields.labelName ??
+			fields.subjectUserId ??
+			fields.subjectTeamSlug ??
+			fields.milestoneTitle ??
+			fields.renameTo ??
+			fields.commitSha);
+
+/** Whether two events (stored or parsed) describe the same change. */
+export const isSameTimelineEvent = (
+	a: TimelineEventFields,
+	b: TimelineEventFields,
+) =>
+	a.eventType === b.eventType &&
+	(timelineEventSubject(a) ?? "") === (timelineEventSubject(b) ?? "");
+
+const makeTimelineEvent = (
+	fields: Omit<TimelineEventInput, "eventKey">,
+): TimelineEventInput => ({
+	eventKey: `${fields.eventType}:${Math.floor(fields.createdAt / 1000)}:${timelineEventSubject(fields) ?? ""}`,
+	...fields,
+});
+
+const emptyFields = {
+	labelName: null,
+	labelColor: null,
+	subjectUserId: null,
+	subjectTeamSlug: null,
+	milestoneTitle: null,
+	renameFrom: null,
+	renameTo: null,
+	commitSha: null,
+	beforeSha: null,
+};
+
+/**
+ * Parse one entry of the REST timeline. Returns null for comments, reviews,
+ * commits and event types this table does not track.
+ */
+export const parseTimelineApiEvent = (
+	value: unknown,
+	userId: (user: unknown) => number | null,
+): TimelineEventInput | null => {
+	const event = toObjectRecord(value);
+	const eventType = str(event.event);
+	const createdAt = isoToMs(event.created_at);
+	if (!isTimelineEventType(eventType) || createdAt === null) return null;
+
+	const label = toObjectRecord(event.label);
+	const rename = toObjectRecord(event.rename);
+	return makeTimelineEvent({
+		...emptyFields,
+		eventType,
+		actorUserId: userId(event.actor),
+		labelName: str(label.name),
+		labelColor: str(label.color),
+		subjectUserId:
+			eventType === "assigned" || eventType === "unassigned"
+				? userId(event.assignee)
+				: eventType === "review_requested" ||
+						eventType === "review_request_removed"
+					? userId(event.requested_reviewer)
+					: null,
+		subjectTeamSlug: str(toObjectRecord(event.requested_team).slug),
+		milestoneTitle: str(toObjectRecord(event.milestone).title),
+		renameFrom: str(rename.from),
+		renameTo: str(rename.to),
+		commitSha: str(event.commit_id),
+		createdAt,
+	});
+};
+
+/**
+ * Derive a timeline event from an `issues` or `pull_request` webhook.
+ * `subject` is the payload's `issue` / `pull_request` object and `createdAt`
+ * its `updated_at`. Returns null for actions that add no timeline entry.
+ */
+export const parseTimelineWebhookEvent = (
+	action: string,
+	payload: Record<string, unknown>,
+	subject: Record<string, unknown>,
+	createdAt: number,
+	userId: (user: unknown) => number | null,
+): TimelineEventInput | null => {
+	const base = {
+		...emptyFields,
+		actorUserId: userId(payload.sender),
+		createdAt,
+	};
+
+	switch (action) {
+		case "labeled":
+		case "unlabeled": {
+			const label = toObjectRecord(payload.label);
+			return makeTimelineEvent({
+				...base,
+				eventType: action,
+				labelName: str(label.name),
+				labelColor: str(label.color),
+			});
+		}
+		case "assigned":
+		case "unassigned":
+			return makeTimelineEvent({
+				...base,
+				eventType: action,
+				subjectUserId: userId(payload.assignee),
+			});
+		case "review_requested":
+		case "review_request_removed":
+			return makeTimelineEvent({
+				...base,
+				eventType: action,
+				subjectUserId: userId(payload.requested_reviewer),
+				subjectTeamSlug: str(toObjectRecord(payload.requested_team).slug),
+			});
+		case "milestoned":
+		case "demilestoned":
+			return makeTimelineEvent({
+				...base,
+				eventType: action,
+				milestoneTitle: str(
+					toObjectRecord(payload.milestone ?? subject.milestone).title,
+				),
+			});
+		case "edited": {
+			const renameFrom = str(
+				toObjectRecord(toObjectRecord(payload.changes).title).from,
+			);
+			if (renameFrom === null) return null;
+			return makeTimelineEvent({
+				...base,
+				eventType: "renamed",
+				renameFrom,
+				renameTo: str(subject.title),
+			});
+		}
+		case "closed":
+			return makeTimelineEvent({
+				...base,
+				eventType: subject.merged === true ? "merged" : "closed",
+			});
+		case "reopened":
+		case "locked":
+		case "unlocked":
+		case "ready_for_review":
+			return makeTimelineEvent({ ...base, eventType: action });
+		case "converted_to_draft":
+			return makeTimelineEvent({ ...base, eventType: "convert_to_draft" });
+		default:
+			return null;
+	}
+};
+
+/**
+ * Derive a `head_ref_force_pushed` event from a forced `push` webhook.
+ * `pushedAt` is the push time in milliseconds.
+ */
+export const parseForcePushEvent = (
+	payload: Record<string, unknown>,
+	pushedAt: number,
+	userId: (user: unknown) => number | null,
+): TimelineEventInput | null => {
+	if (payload.forced !== true) return null;
+	return makeTimelineEvent({
+		...emptyFields,
+		eventType: "head_ref_force_pushed",
+		actorUserId: userId(payload.sender),
+		commitSha: str(payload.after),
+		beforeSha: str(payload.before),
+		createdAt: pushedAt,
+	});
+};
@@ -0,0 +1,36 @@
+/**
+ * webhookFixtures — file format for recorded webhook deliveries.
+ *
+ * `scripts/export-webhook-fixtures.ts` writes a slice of
+ * `github_webhook_events_raw` in this shape, and `replayWebhookFixture` in
+ * testing.ts feeds it back through `processWebhookEvent`. Payloads are
+ * stored parsed so fixtures stay readable and diff well when edited by hand.
+ */
+import { Schema } from "effect";
+
+export const WebhookFixtureEventSchema = Schema.Struct({
+	deliveryId: Schema.String,
+	eventName: Schema.String,
+	action: Schema.NullOr(Schema.String),
+	installationId: Schema.NullOr(Schema.Number),
+	repositoryId: Schema.NullOr(Schema.Number),
+	receivedAt: Schema.Number,
+	payload: Schema.Unknown,
+});
+
+export type WebhookFixtureEvent = typeof WebhookFixtureEventSchema.Type;
+
+export const WebhookFixtureSchema = Schema.Struct({
+	name: Schema.String,
+	events: Schema.Array(WebhookFixtureEventSchema),
+});
+
+export type WebhookFixture = typeof WebhookFixtureSchema.Type;
+
+/** Replay order: receivedAt, then deliveryId so ties are stable. */
+export const compareFixtureEvents = (
+	a: Pick<WebhookFixtureEvent, "receivedAt" | "deliveryId">,
+	b: Pick<WebhookFixtureEvent, "receivedAt" | "deliveryId">,
+) =>
+	a.receivedAt - b.receivedAt ||
+	(a.deliveryId < b.deliveryId ? -1 : a.deliveryId > b.deliveryId ? 1 : 0);
@@ -42,7 +42,7 @@ const timingSafeEqual = (a: string, b: string): boolean => {
 /**
  * Compute HMAC-SHA256 of the given body using the secret, and return the hex digest.
  */
-const computeHmacSha256 = (
+export const computeHmacSha256 = (
 	secret: string,
 	body: string,
 ): Effect.Effect<string> =>
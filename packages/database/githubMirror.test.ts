@@ -10,10 +10,21 @@
  * for calling Confect-wrapped functions.
  */
 
-import { describe, expect, it } from "@effect/vitest";
+import { createHmac } from "node:crypto";
+import { describe, expect, it, vi } from "@effect/vitest";
 import { Effect } from "effect";
-import { api, internal } from "./convex/_generated/api";
-import { createConvexTest } from "./testing";
+import { api, components, internal } from "./convex/_generated/api";
+import betterAuthSchema from "./convex/betterAuth/schema";
+import {
+	parseIssueForm,
+	parseTemplateConfig,
+} from "./convex/shared/issueForms";
+import issueLifecycleFixture from "./fixtures/webhooks/issue-lifecycle.json";
+import {
+	createConvexTest,
+	replayWebhookFixture,
+	snapshotTables,
+} from "./testing";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -65,6 +76,7 @@ const makeIssuePayload = (opts: {
 	body?: string;
 	updated_at?: string;
 	user?: { id: number; login: string; avatar_url?: string; type?: string };
+	milestone?: Record<string, unknown> | null;
 }) =>
 	JSON.stringify({
 		action: opts.action,
@@ -83,6 +95,7 @@ const makeIssuePayload = (opts: {
 			labels: [],
 			assignees: [],
 			comments: 0,
+			milestone: opts.milestone ?? null,
 			updated_at: opts.updated_at ?? "2026-02-18T10:00:00Z",
 		},
 		sender: opts.user ?? {
@@ -167,6 +180,9 @@ const makeCheckRunPayload = (opts: {
 	conclusion?: string;
 	startedAt?: string;
 	completedAt?: string;
+	checkSuiteId?: number;
+	app?: { slug: string; name: string };
+	output?: { title: string; summary: string; annotationsCount: number };
 }) =>
 	JSON.stringify({
 		action: opts.action,
@@ -178,10 +194,76 @@ const makeCheckRunPayload = (opts: {
 			conclusion: opts.conclusion ?? null,
 			started_at: opts.startedAt ?? "2026-02-18T10:00:00Z",
 			completed_at: opts.completedAt ?? null,
+			check_suite: opts.checkSuiteId ? { id: opts.checkSuiteId } : null,
+			app: opts.app
+				? {
+						...opts.app,
+						owner: {
+							avatar_url: `https://avatars.example.com/${opts.app.slug}`,
+						},
+					}
+				: null,
+			output: opts.output
+				? {
+						title: opts.output.title,
+						summary: opts.output.summary,
+						annotations_count: opts.output.annotationsCount,
+					}
+				: { title: null, summary: null, annotations_count: 0 },
+		},
+		sender: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
+	});
+
+/** Build a minimal check_suite webhook payload */
+const makeCheckSuitePayload = (opts: {
+	action: string;
+	checkSuiteId: number;
+	headSha: string;
+	status: string;
+	conclusion?: string;
+	app: { slug: string; name: string };
+	updatedAt?: string;
+}) =>
+	JSON.stringify({
+		action: opts.action,
+		check_suite: {
+			id: opts.checkSuiteId,
+			head_sha: opts.headSha,
+			head_branch: "feature-branch",
+			status: opts.status,
+			conclusion: opts.conclusion ?? null,
+			app: {
+				...opts.app,
+				owner: { avatar_url: `https://avatars.example.com/${opts.app.slug}` },
+			},
+			created_at: "2026-02-18T10:00:00Z",
+			updated_at: opts.updatedAt ?? "2026-02-18T10:05:00Z",
 		},
 		sender: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
 	});
 
+/** Build a minimal status (commit status) webhook payload */
+const makeStatusPayload = (opts: {
+	statusId: number;
+	sha: string;
+	context: string;
+	state: string;
+	description?: string;
+	targetUrl?: string;
+	updatedAt?: string;
+}) =>
+	JSON.stringify({
+		id: opts.statusId,
+		sha: opts.sha,
+		context: opts.context,
+		state: opts.state,
+		description: opts.description ?? null,
+		target_url: opts.targetUrl ?? null,
+		created_at: "2026-02-18T10:00:00Z",
+		updated_at: opts.updatedAt ?? "2026-02-18T10:00:00Z",
+		sender: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
+	});
+
 /** Build a minimal issue_comment webhook payload */
 const makeIssueCommentPayload = (opts: {
 	action: string;
@@ -193,12 +275,14 @@ const makeIssueCommentPayload = (opts: {
 	updatedAt?: string;
 	user?: { id: number; login: string; avatar_url?: string; type?: string };
 	isPullRequest?: boolean;
+	reactions?: Record<string, number>;
 }) =>
 	JSON.stringify({
 		action: opts.action,
 		comment: {
 			id: opts.commentId,
 			body: opts.body,
+			...(opts.reactions ? { reactions: opts.reactions } : {}),
 			user: opts.user ?? {
 				id: 1001,
 				login: "testuser",
@@ -321,6 +405,83 @@ const makePrReviewCommentPayload = (opts: {
 		},
 	});
 
+/** Build a GitHub milestone object (as embedded in milestone/issues payloads) */
+const makeMilestone = (opts: {
+	milestoneId: number;
+	number: number;
+	title: string;
+	state?: "open" | "closed";
+	openIssues?: number;
+	closedIssues?: number;
+	dueOn?: string | null;
+	updatedAt?: string;
+}) => ({
+	id: opts.milestoneId,
+	number: opts.number,
+	title: opts.title,
+	description: null,
+	state: opts.state ?? "open",
+	creator: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
+	open_issues: opts.openIssues ?? 0,
+	closed_issues: opts.closedIssues ?? 0,
+	due_on: opts.dueOn ?? null,
+	closed_at: null,
+	updated_at: opts.updatedAt ?? "2026-02-18T09:00:00Z",
+});
+
+const makeRelease = (opts: {
+	releaseId: number;
+	tagName: string;
+	name?: string | null;
+	body?: string | null;
+	draft?: boolean;
+	prerelease?: boolean;
+	createdAt?: string;
+}) => ({
+	id: opts.releaseId,
+	tag_name: opts.tagName,
+	target_commitish: "main",
+	name: opts.name ?? null,
+	body: opts.body ?? null,
+	draft: opts.draft ?? false,
+	prerelease: opts.prerelease ?? false,
+	author: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
+	html_url: `https://github.com/testowner/testrepo/releases/tag/${opts.tagName}`,
+	created_at: opts.createdAt ?? "2026-02-18T09:00:00Z",
+	published_at: opts.draft ? null : (opts.createdAt ?? "2026-02-18T09:00:00Z"),
+});
+
+const makeDiscussion = (opts: {
+	discussionId: number;
+	number: number;
+	title: string;
+	body?: string | null;
+	state?: "open" | "closed";
+	answerCommentId?: number | null;
+	comments?: number;
+	updatedAt?: string;
+}) => ({
+	id: opts.discussionId,
+	number: opts.number,
+	title: opts.title,
+	body: opts.body ?? null,
+	state: opts.state ?? "open",
+	state_reason: null,
+	locked: false,
+	comments: opts.comments ?? 0,
+	category: { name: "Q&A", is_answerable: true },
+	answer_html_url:
+		opts.answerCommentId == null
+			? null
+			: `https://github.com/testowner/testrepo/discussions/${opts.number}#discussioncomment-${opts.answerCommentId}`,
+	answer_chosen_at:
+		opts.answerCommentId == null ? null : "2026-02-18T11:00:00Z",
+	user: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
+	html_url: `https://github.com/testowner/testrepo/discussions/${opts.number}`,
+	created_at: "2026-02-18T09:00:00Z",
+	updated_at: opts.updatedAt ?? "2026-02-18T10:00:00Z",
+});
+
 /** Seed a repository in the DB so webhook processing can find it */
 const seedRepository = (
 	t: ReturnType<typeof createConvexTest>,
@@ -367,6 +528,32 @@ const seedRepository = (
 const authClient = (t: ReturnType<typeof createConvexTest>) =>
 	t.withIdentity({ subject: TEST_USER_ID });
 
+/**
+ * Register the auth component with a GitHub account for the test user,
+ * so actions can resolve a write token.
+ */
+const seedGitHubAccount = (t: ReturnType<typeof createConvexTest>) =>
+	Effect.promise(async () => {
+		t.registerComponent(
+			"betterAuth",
+			betterAuthSchema,
+			import.meta.glob("./convex/betterAuth/**/*.ts"),
+		);
+		await t.mutation(components.betterAuth.adapter.create, {
+			input: {
+				model: "account",
+				data: {
+					accountId: "1001",
+					providerId: "github",
+					userId: TEST_USER_ID,
+					accessToken: "gho_test",
+					createdAt: Date.now(),
+					updatedAt: Date.now(),
+				},
+			},
+		});
+	});
+
 /** Insert a raw webhook event into the DB */
 const insertRawEvent = (
 	t: ReturnType<typeof createConvexTest>,
@@ -3012,11 +3199,11 @@ describe("Check Run Events", () => {
 });
 
 // ---------------------------------------------------------------------------
-// Issue Comment Event Tests
+// Check Suite / CI Rollup Tests
 // ---------------------------------------------------------------------------
 
-describe("Issue Comment Events", () => {
-	it.effect("issue_comment created event inserts a comment", () =>
+describe("Check Suites and CI Rollup", () => {
+	it.effect("check_run event stores app and output details", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
@@ -3025,187 +3212,473 @@ describe("Issue Comment Events", () => {
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-comment-created",
-					eventName: "issue_comment",
-					action: "created",
+					deliveryId: "delivery-checkrun-details",
+					eventName: "check_run",
+					action: "completed",
 					repositoryId,
-					payloadJson: makeIssueCommentPayload({
-						action: "created",
-						commentId: 7001,
-						issueNumber: 5,
-						body: "Looks good to me!",
+					payloadJson: makeCheckRunPayload({
+						action: "completed",
+						checkRunId: 8201,
+						name: "lint",
+						headSha: "sha-details",
+						status: "completed",
+						conclusion: "failure",
+						completedAt: "2026-02-18T10:05:00Z",
+						checkSuiteId: 7001,
+						app: { slug: "github-actions", name: "GitHub Actions" },
+						output: {
+							title: "3 errors",
+							summary: "ESLint found problems",
+							annotationsCount: 3,
+						},
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-comment-created");
+			yield* processEvent(t, "delivery-checkrun-details");
 
-			const comments = yield* collectTable<{
-				githubCommentId: number;
-				issueNumber: number;
-				body: string;
-				authorUserId: number | null;
-			}>(t, "github_issue_comments");
-			expect(comments).toHaveLength(1);
-			expect(comments[0]).toMatchObject({
-				githubCommentId: 7001,
-				issueNumber: 5,
-				body: "Looks good to me!",
-				authorUserId: 1001,
+			const checkRuns = yield* collectTable<{
+				checkSuiteId: number | null;
+				appSlug: string | null;
+				appName: string | null;
+				outputTitle: string | null;
+				outputSummary: string | null;
+				annotationsCount: number | null;
+			}>(t, "github_check_runs");
+			expect(checkRuns).toHaveLength(1);
+			expect(checkRuns[0]).toMatchObject({
+				checkSuiteId: 7001,
+				appSlug: "github-actions",
+				appName: "GitHub Actions",
+				outputTitle: "3 errors",
+				outputSummary: "ESLint found problems",
+				annotationsCount: 3,
 			});
 		}),
 	);
 
-	it.effect("issue_comment edited event updates an existing comment", () =>
+	it.effect("check_suite events upsert a suite", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
 			yield* seedRepository(t, repositoryId);
 
-			// First: create the comment
-			yield* insertRawEvent(
-				t,
-				makeRawEvent({
-					deliveryId: "delivery-comment-create-edit",
-					eventName: "issue_comment",
-					action: "created",
-					repositoryId,
-					payloadJson: makeIssueCommentPayload({
-						action: "created",
-						commentId: 7002,
-						issueNumber: 3,
-						body: "Original body",
-						createdAt: "2026-02-18T10:00:00Z",
-						updatedAt: "2026-02-18T10:00:00Z",
+			for (const [deliveryId, status, conclusion] of [
+				["delivery-suite-requested", "queued", undefined],
+				["delivery-suite-completed", "completed", "success"],
+			] as const) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId,
+						eventName: "check_suite",
+						action: status === "completed" ? "completed" : "requested",
+						repositoryId,
+						payloadJson: makeCheckSuitePayload({
+							action: status === "completed" ? "completed" : "requested",
+							checkSuiteId: 7002,
+							headSha: "sha-suite",
+							status,
+							conclusion,
+							app: { slug: "buildkite", name: "Buildkite" },
+						}),
 					}),
-				}),
-			);
-			yield* processEvent(t, "delivery-comment-create-edit");
+				);
+				yield* processEvent(t, deliveryId);
+			}
 
-			// Then: edit it
-			yield* insertRawEvent(
-				t,
-				makeRawEvent({
-					deliveryId: "delivery-comment-edited",
-					eventName: "issue_comment",
-					action: "edited",
-					repositoryId,
-					payloadJson: makeIssueCommentPayload({
-						action: "edited",
-						commentId: 7002,
-						issueNumber: 3,
-						body: "Updated body with corrections",
-						createdAt: "2026-02-18T10:00:00Z",
-						updatedAt: "2026-02-18T10:05:00Z",
+			const suites = yield* collectTable<{
+				githubCheckSuiteId: number;
+				status: string | null;
+				conclusion: string | null;
+				appName: string | null;
+			}>(t, "github_check_suites");
+			expect(suites).toHaveLength(1);
+			expect(suites[0]).toMatchObject({
+				githubCheckSuiteId: 7002,
+				status: "completed",
+				conclusion: "success",
+				appName: "Buildkite",
+			});
+		}),
+	);
+
+	it.effect("an out-of-order check_suite delivery does not regress", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			for (const [deliveryId, action, status, updatedAt] of [
+				[
+					"delivery-suite-late-completed",
+					"completed",
+					"completed",
+					"2026-02-18T10:05:00Z",
+				],
+				[
+					"delivery-suite-late-requested",
+					"requested",
+					"queued",
+					"2026-02-18T10:00:00Z",
+				],
+			] as const) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId,
+						eventName: "check_suite",
+						action,
+						repositoryId,
+						payloadJson: makeCheckSuitePayload({
+							action,
+							checkSuiteId: 7004,
+							headSha: "sha-suite-late",
+							status,
+							conclusion: status === "completed" ? "failure" : undefined,
+							app: { slug: "buildkite", name: "Buildkite" },
+							updatedAt,
+						}),
 					}),
-				}),
-			);
-			yield* processEvent(t, "delivery-comment-edited");
+				);
+				yield* processEvent(t, deliveryId);
+			}
 
-			const comments = yield* collectTable<{
-				githubCommentId: number;
-				body: string;
-			}>(t, "github_issue_comments");
-			expect(comments).toHaveLength(1);
-			expect(comments[0]).toMatchObject({
-				githubCommentId: 7002,
-				body: "Updated body with corrections",
+			const suites = yield* collectTable<{
+				status: string | null;
+				conclusion: string | null;
+			}>(t, "github_check_suites");
+			expect(suites).toHaveLength(1);
+			expect(suites[0]).toMatchObject({
+				status: "completed",
+				conclusion: "failure",
 			});
 		}),
 	);
 
-	it.effect("issue_comment deleted event removes the comment", () =>
+	it.effect("getCommitCiRollup groups runs by suite and statuses", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
 			yield* seedRepository(t, repositoryId);
 
-			// First: create a comment
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-comment-create-del",
-					eventName: "issue_comment",
-					action: "created",
+					deliveryId: "delivery-rollup-suite",
+					eventName: "check_suite",
+					action: "requested",
 					repositoryId,
-					payloadJson: makeIssueCommentPayload({
-						action: "created",
-						commentId: 7003,
-						issueNumber: 8,
-						body: "This comment will be deleted",
+					payloadJson: makeCheckSuitePayload({
+						action: "requested",
+						checkSuiteId: 7003,
+						headSha: "sha-rollup",
+						status: "in_progress",
+						app: { slug: "github-actions", name: "GitHub Actions" },
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-comment-create-del");
-
-			let comments = yield* collectTable(t, "github_issue_comments");
-			expect(comments).toHaveLength(1);
+			yield* processEvent(t, "delivery-rollup-suite");
+
+			const runs = [
+				{ id: 8301, name: "build", status: "completed", conclusion: "success" },
+				{
+					id: 8302,
+					name: "test",
+					status: "in_progress",
+					conclusion: undefined,
+				},
+			];
+			for (const run of runs) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: `delivery-rollup-run-${run.id}`,
+						eventName: "check_run",
+						action: "created",
+						repositoryId,
+						payloadJson: makeCheckRunPayload({
+							action: "created",
+							checkRunId: run.id,
+							name: run.name,
+							headSha: "sha-rollup",
+							status: run.status,
+							conclusion: run.conclusion,
+							checkSuiteId: 7003,
+						}),
+					}),
+				);
+				yield* processEvent(t, `delivery-rollup-run-${run.id}`);
+			}
 
-			// Then: delete it
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-comment-deleted",
-					eventName: "issue_comment",
-					action: "deleted",
+					deliveryId: "delivery-rollup-status",
+					eventName: "status",
+					action: null,
 					repositoryId,
-					payloadJson: makeIssueCommentPayload({
-						action: "deleted",
-						commentId: 7003,
-						issueNumber: 8,
-						body: "This comment will be deleted",
+					payloadJson: makeStatusPayload({
+						statusId: 9101,
+						sha: "sha-rollup",
+						context: "ci/jenkins",
+						state: "success",
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-comment-deleted");
+			yield* processEvent(t, "delivery-rollup-status");
 
-			comments = yield* collectTable(t, "github_issue_comments");
-			expect(comments).toHaveLength(0);
+			const result = yield* Effect.promise(() =>
+				t.query(api.rpc.projectionQueries.getCommitCiRollup, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+					sha: "sha-rollup",
+				}),
+			);
+			const rollup = assertSuccess(result) as {
+				conclusion: string | null;
+				counts: { total: number; passed: number; pending: number };
+				groups: Array<{
+					key: string;
+					appName: string | null;
+					checks: Array<{ name: string }>;
+				}>;
+			};
+			expect(rollup.conclusion).toBeNull();
+			expect(rollup.counts).toMatchObject({ total: 3, passed: 2, pending: 1 });
+			expect(
+				rollup.groups.map((group) => ({
+					key: group.key,
+					appName: group.appName,
+					checks: group.checks.map((check) => check.name),
+				})),
+			).toEqual([
+				{
+					key: "suite:7003",
+					appName: "GitHub Actions",
+					checks: ["build", "test"],
+				},
+				{ key: "statuses", appName: null, checks: ["ci/jenkins"] },
+			]);
 		}),
 	);
+});
 
-	it.effect("issue_comment on a PR generates pr_comment activity type", () =>
+// ---------------------------------------------------------------------------
+// Check Annotation Tests
+// ---------------------------------------------------------------------------
+
+const makeAnnotation = (opts: {
+	path: string;
+	line: number;
+	message: string;
+	level?: "notice" | "warning" | "failure";
+}) => ({
+	path: opts.path,
+	startLine: opts.line,
+	endLine: opts.line,
+	annotationLevel: opts.level ?? "failure",
+	title: null,
+	message: opts.message,
+	rawDetails: null,
+});
+
+describe("Check Annotations", () => {
+	it.effect(
+		"replaceCheckAnnotations replaces a run's previous annotations",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				for (const message of ["old message", "new message"]) {
+					yield* Effect.promise(() =>
+						t.mutation(internal.rpc.githubActions.replaceCheckAnnotations, {
+							repositoryId,
+							headSha: "sha-annotations",
+							githubCheckRunId: 8401,
+							checkRunName: "lint",
+							annotations: [
+								makeAnnotation({ path: "src/index.ts", line: 3, message }),
+							],
+						}),
+					);
+				}
+
+				const annotations = yield* collectTable<{
+					githubCheckRunId: number;
+					path: string;
+					message: string;
+				}>(t, "github_check_annotations");
+				expect(annotations).toHaveLength(1);
+				expect(annotations[0]).toMatchObject({
+					githubCheckRunId: 8401,
+					path: "src/index.ts",
+					message: "new message",
+				});
+			}),
+	);
+
+	it.effect("listCheckAnnotations returns annotations for the head SHA", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
 			yield* seedRepository(t, repositoryId);
 
-			yield* insertRawEvent(
-				t,
-				makeRawEvent({
-					deliveryId: "delivery-pr-comment-activity",
-					eventName: "issue_comment",
-					action: "created",
-					repositoryId,
-					payloadJson: makeIssueCommentPayload({
-						action: "created",
-						commentId: 7004,
-						issueNumber: 42,
-						body: "PR comment here",
-						isPullRequest: true,
+			for (const [headSha, githubCheckRunId] of [
+				["sha-current", 8402],
+				["sha-stale", 8403],
+			] as const) {
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubActions.replaceCheckAnnotations, {
+						repositoryId,
+						headSha,
+						githubCheckRunId,
+						checkRunName: "typecheck",
+						annotations: [
+							makeAnnotation({
+								path: "src/app.ts",
+								line: 12,
+								message: `error on ${headSha}`,
+							}),
+						],
 					}),
+				);
+			}
+
+			const result = yield* Effect.promise(() =>
+				t.query(api.rpc.projectionQueries.listCheckAnnotations, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+					headSha: "sha-current",
 				}),
 			);
-			yield* processEvent(t, "delivery-pr-comment-activity");
+			const annotations = assertSuccess(result) as Array<{
+				path: string;
+				endLine: number;
+				message: string;
+			}>;
+			expect(annotations).toHaveLength(1);
+			expect(annotations[0]).toMatchObject({
+				path: "src/app.ts",
+				endLine: 12,
+				message: "error on sha-current",
+			});
+		}),
+	);
 
-			const activities = yield* collectTable<{
-				activityType: string;
-				entityNumber: number | null;
-			}>(t, "view_activity_feed");
-			expect(activities).toHaveLength(1);
-			expect(activities[0]).toMatchObject({
-				activityType: "pr_comment.created",
-				entityNumber: 42,
-			});
-		}),
+	it.effect(
+		"requestCheckAnnotationSync only schedules failed runs not fetched yet",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* Effect.promise(() =>
+					t.run(async (ctx) => {
+						const repo = await ctx.db
+							.query("github_repositories")
+							.withIndex("by_githubRepoId", (q) =>
+								q.eq("githubRepoId", repositoryId),
+							)
+							.unique();
+						if (repo !== null) {
+							await ctx.db.patch(repo._id, { installationId: 77 });
+						}
+						await ctx.db.insert("github_pull_requests", {
+							repositoryId,
+							githubPrId: 6043,
+							number: 43,
+							state: "open",
+							draft: false,
+							title: "Annotated PR",
+							body: null,
+							authorUserId: 1001,
+							assigneeUserIds: [],
+							requestedReviewerUserIds: [],
+							baseRefName: "main",
+							headRefName: "feature",
+							headSha: "sha-annotated",
+							mergeableState: null,
+							mergedAt: null,
+							closedAt: null,
+							githubUpdatedAt: Date.now(),
+							cachedAt: Date.now(),
+						});
+						for (const [githubCheckRunId, name, conclusion] of [
+							[8411, "lint", "failure"],
+							[8412, "typecheck", "failure"],
+							[8413, "build", "success"],
+							[8414, "format", "failure"],
+						] as const) {
+							await ctx.db.insert("github_check_runs", {
+								repositoryId,
+								githubCheckRunId,
+								name,
+								headSha: "sha-annotated",
+								status: "completed",
+								conclusion,
+								startedAt: null,
+								completedAt: null,
+								annotationsCount: 1,
+							});
+						}
+					}),
+				);
+
+				// lint already has its annotations cached
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubActions.replaceCheckAnnotations, {
+						repositoryId,
+						headSha: "sha-annotated",
+						githubCheckRunId: 8411,
+						checkRunName: "lint",
+						annotations: [
+							makeAnnotation({ path: "a.ts", line: 1, message: "x" }),
+						],
+					}),
+				);
+				// format was fetched but GitHub returned no annotations
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubActions.replaceCheckAnnotations, {
+						repositoryId,
+						headSha: "sha-annotated",
+						githubCheckRunId: 8414,
+						checkRunName: "format",
+						annotations: [],
+					}),
+				);
+
+				const request = Effect.promise(() =>
+					t.mutation(api.rpc.projectionQueries.requestCheckAnnotationSync, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						number: 43,
+					}),
+				);
+				expect(assertSuccess(yield* request)).toEqual({ scheduled: true });
+				// A second page load while the sync is in flight adds nothing
+				expect(assertSuccess(yield* request)).toEqual({ scheduled: false });
+
+				const scheduled = yield* Effect.promise(() =>
+					t.run((ctx) => ctx.db.system.query("_scheduled_functions").collect()),
+				);
+				expect(scheduled).toHaveLength(1);
+				expect(scheduled[0]?.args[0]).toMatchObject({
+					headSha: "sha-annotated",
+					checkRuns: [{ githubCheckRunId: 8412, name: "typecheck" }],
+				});
+			}),
 	);
 });
 
 // ---------------------------------------------------------------------------
-// Pull Request Review Event Tests
+// Commit Status Event Tests
 // ---------------------------------------------------------------------------
 
-describe("Pull Request Review Events", () => {
-	it.effect("pr_review submitted event inserts a review", () =>
+describe("Commit Status Events", () => {
+	it.effect("status event inserts a commit status", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
@@ -3214,109 +3687,240 @@ describe("Pull Request Review Events", () => {
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-submitted",
-					eventName: "pull_request_review",
-					action: "submitted",
+					deliveryId: "delivery-status-created",
+					eventName: "status",
+					action: null,
 					repositoryId,
-					payloadJson: makePrReviewPayload({
-						action: "submitted",
-						reviewId: 9001,
-						prNumber: 42,
-						state: "approved",
-						commitSha: "sha-reviewed",
+					payloadJson: makeStatusPayload({
+						statusId: 9001,
+						sha: "sha-status",
+						context: "ci/jenkins",
+						state: "pending",
+						targetUrl: "https://jenkins.example.com/job/1",
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-review-submitted");
+			yield* processEvent(t, "delivery-status-created");
 
-			const reviews = yield* collectTable<{
-				githubReviewId: number;
-				pullRequestNumber: number;
+			const statuses = yield* collectTable<{
+				githubStatusId: number;
+				sha: string;
+				context: string;
 				state: string;
-				commitSha: string | null;
-				authorUserId: number | null;
-			}>(t, "github_pull_request_reviews");
-			expect(reviews).toHaveLength(1);
-			expect(reviews[0]).toMatchObject({
-				githubReviewId: 9001,
-				pullRequestNumber: 42,
-				state: "approved",
-				commitSha: "sha-reviewed",
-				authorUserId: 2001,
+				targetUrl: string | null;
+			}>(t, "github_commit_statuses");
+			expect(statuses).toHaveLength(1);
+			expect(statuses[0]).toMatchObject({
+				githubStatusId: 9001,
+				sha: "sha-status",
+				context: "ci/jenkins",
+				state: "pending",
+				targetUrl: "https://jenkins.example.com/job/1",
 			});
+		}),
+	);
 
-			// Reviewer user should be upserted
-			const users = yield* collectTable<{
-				githubUserId: number;
-				login: string;
-			}>(t, "github_users");
-			expect(users).toHaveLength(1);
-			expect(users[0]).toMatchObject({
-				githubUserId: 2001,
-				login: "reviewer",
+	it.effect("status events keep only the newest state per context", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const deliveries = [
+				{ id: 9002, state: "failure", updatedAt: "2026-02-18T10:05:00Z" },
+				// Older delivery arriving late must not overwrite the newer state
+				{ id: 9003, state: "pending", updatedAt: "2026-02-18T10:01:00Z" },
+			];
+			for (const delivery of deliveries) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: `delivery-status-${delivery.id}`,
+						eventName: "status",
+						action: null,
+						repositoryId,
+						payloadJson: makeStatusPayload({
+							statusId: delivery.id,
+							sha: "sha-status-order",
+							context: "buildkite/app",
+							state: delivery.state,
+							updatedAt: delivery.updatedAt,
+						}),
+					}),
+				);
+				yield* processEvent(t, `delivery-status-${delivery.id}`);
+			}
+
+			const statuses = yield* collectTable<{
+				githubStatusId: number;
+				state: string;
+			}>(t, "github_commit_statuses");
+			expect(statuses).toHaveLength(1);
+			expect(statuses[0]).toMatchObject({
+				githubStatusId: 9002,
+				state: "failure",
 			});
 		}),
 	);
 
-	it.effect("pr_review dismissed event updates existing review state", () =>
+	it.effect("failing status on the head SHA fails the PR check rollup", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
 			yield* seedRepository(t, repositoryId);
 
-			// First: submit the review
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-submit-dismiss",
-					eventName: "pull_request_review",
-					action: "submitted",
+					deliveryId: "delivery-status-pr",
+					eventName: "pull_request",
+					action: "opened",
 					repositoryId,
-					payloadJson: makePrReviewPayload({
-						action: "submitted",
-						reviewId: 9002,
-						prNumber: 10,
-						state: "changes_requested",
+					payloadJson: makePrPayload({
+						action: "opened",
+						prId: 6101,
+						number: 21,
+						state: "open",
+						title: "Status rollup PR",
+						headSha: "sha-status-pr",
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-review-submit-dismiss");
+			yield* processEvent(t, "delivery-status-pr");
 
-			let reviews = yield* collectTable<{
-				githubReviewId: number;
-				state: string;
-			}>(t, "github_pull_request_reviews");
-			expect(reviews).toHaveLength(1);
-			expect(reviews[0]).toMatchObject({ state: "changes_requested" });
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-status-check",
+					eventName: "check_run",
+					action: "completed",
+					repositoryId,
+					payloadJson: makeCheckRunPayload({
+						action: "completed",
+						checkRunId: 8101,
+						name: "CI / Build",
+						headSha: "sha-status-pr",
+						status: "completed",
+						conclusion: "success",
+						completedAt: "2026-02-18T10:05:00Z",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-status-check");
 
-			// Then: dismiss it
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-dismissed",
-					eventName: "pull_request_review",
-					action: "dismissed",
+					deliveryId: "delivery-status-error",
+					eventName: "status",
+					action: null,
 					repositoryId,
-					payloadJson: makePrReviewPayload({
-						action: "dismissed",
-						reviewId: 9002,
-						prNumber: 10,
-						state: "dismissed",
+					payloadJson: makeStatusPayload({
+						statusId: 9004,
+						sha: "sha-status-pr",
+						context: "ci/jenkins",
+						state: "error",
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-review-dismissed");
+			yield* processEvent(t, "delivery-status-error");
 
-			reviews = yield* collectTable(t, "github_pull_request_reviews");
-			expect(reviews).toHaveLength(1);
-			expect(reviews[0]).toMatchObject({
-				githubReviewId: 9002,
-				state: "dismissed",
+			const prsResult = yield* Effect.promise(() =>
+				t.query(api.rpc.projectionQueries.listPullRequests, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+				}),
+			);
+			const prs = assertSuccess(prsResult) as Array<{
+				number: number;
+				lastCheckConclusion: string | null;
+			}>;
+			expect(prs).toHaveLength(1);
+			expect(prs[0]).toMatchObject({
+				number: 21,
+				lastCheckConclusion: "failure",
 			});
 		}),
 	);
+	it.effect(
+		"overview counts failing statuses only on the default branch and open PR heads",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-status-overview-pr",
+						eventName: "pull_request",
+						action: "opened",
+						repositoryId,
+						payloadJson: makePrPayload({
+							action: "opened",
+							prId: 6201,
+							number: 22,
+							state: "open",
+							title: "Overview PR",
+							headSha: "sha-pr-head",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-status-overview-pr");
+
+				yield* Effect.promise(() =>
+					t.run(async (ctx) => {
+						const now = Date.now();
+						await ctx.db.insert("github_branches", {
+							repositoryId,
+							name: "main",
+							headSha: "sha-main-head",
+							protected: true,
+							updatedAt: now,
+						});
+						const statuses = [
+							// An old commit's failure no longer matters
+							[9101, "sha-main-old", "ci/build", "failure"],
+							[9102, "sha-main-head", "ci/build", "failure"],
+							[9103, "sha-pr-head", "ci/build", "error"],
+							[9104, "sha-pr-head", "ci/lint", "success"],
+						] as const;
+						for (const [githubStatusId, sha, context, state] of statuses) {
+							await ctx.db.insert("github_commit_statuses", {
+								repositoryId,
+								githubStatusId,
+								sha,
+								context,
+								state,
+								description: null,
+								targetUrl: null,
+								createdAt: now,
+								updatedAt: now,
+							});
+						}
+					}),
+				);
+
+				const overview = assertSuccess(
+					yield* Effect.promise(() =>
+						t.query(api.rpc.projectionQueries.getRepoOverview, {
+							ownerLogin: "testowner",
+							name: "testrepo",
+						}),
+					),
+				);
+				expect(overview).toMatchObject({ failingCheckCount: 2 });
+			}),
+	);
+});
 
-	it.effect("pr_review submitted event generates activity feed entry", () =>
+// ---------------------------------------------------------------------------
+// Issue Comment Event Tests
+// ---------------------------------------------------------------------------
+
+describe("Issue Comment Events", () => {
+	it.effect("issue_comment created event inserts a comment", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
@@ -3325,222 +3929,5968 @@ describe("Pull Request Review Events", () => {
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-activity",
-					eventName: "pull_request_review",
-					action: "submitted",
+					deliveryId: "delivery-comment-created",
+					eventName: "issue_comment",
+					action: "created",
 					repositoryId,
-					payloadJson: makePrReviewPayload({
-						action: "submitted",
-						reviewId: 9003,
-						prNumber: 7,
-						prTitle: "Important feature",
-						state: "approved",
+					payloadJson: makeIssueCommentPayload({
+						action: "created",
+						commentId: 7001,
+						issueNumber: 5,
+						body: "Looks good to me!",
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-review-activity");
+			yield* processEvent(t, "delivery-comment-created");
 
-			const activities = yield* collectTable<{
-				activityType: string;
-				title: string;
-				actorLogin: string | null;
-				entityNumber: number | null;
-			}>(t, "view_activity_feed");
-			expect(activities).toHaveLength(1);
-			expect(activities[0]).toMatchObject({
-				activityType: "pr_review.approved",
-				title: "Important feature",
-				actorLogin: "reviewer",
-				entityNumber: 7,
+			const comments = yield* collectTable<{
+				githubCommentId: number;
+				issueNumber: number;
+				body: string;
+				authorUserId: number | null;
+			}>(t, "github_issue_comments");
+			expect(comments).toHaveLength(1);
+			expect(comments[0]).toMatchObject({
+				githubCommentId: 7001,
+				issueNumber: 5,
+				body: "Looks good to me!",
+				authorUserId: 1001,
 			});
 		}),
 	);
 
-	it.effect("multiple reviews on same PR are stored independently", () =>
+	it.effect("issue_comment edited event updates an existing comment", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
 			yield* seedRepository(t, repositoryId);
 
-			// Review 1: commented
+			// First: create the comment
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-multi-1",
-					eventName: "pull_request_review",
-					action: "submitted",
+					deliveryId: "delivery-comment-create-edit",
+					eventName: "issue_comment",
+					action: "created",
 					repositoryId,
-					payloadJson: makePrReviewPayload({
-						action: "submitted",
-						reviewId: 9010,
-						prNumber: 15,
-						state: "commented",
-						user: {
-							id: 3001,
-							login: "reviewer-a",
-							avatar_url: null,
-							type: "User",
-						},
+					payloadJson: makeIssueCommentPayload({
+						action: "created",
+						commentId: 7002,
+						issueNumber: 3,
+						body: "Original body",
+						createdAt: "2026-02-18T10:00:00Z",
+						updatedAt: "2026-02-18T10:00:00Z",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-comment-create-edit");
+
+			// Then: edit it
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-comment-edited",
+					eventName: "issue_comment",
+					action: "edited",
+					repositoryId,
+					payloadJson: makeIssueCommentPayload({
+						action: "edited",
+						commentId: 7002,
+						issueNumber: 3,
+						body: "Updated body with corrections",
+						createdAt: "2026-02-18T10:00:00Z",
+						updatedAt: "2026-02-18T10:05:00Z",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-comment-edited");
+
+			const comments = yield* collectTable<{
+				githubCommentId: number;
+				body: string;
+			}>(t, "github_issue_comments");
+			expect(comments).toHaveLength(1);
+			expect(comments[0]).toMatchObject({
+				githubCommentId: 7002,
+				body: "Updated body with corrections",
+			});
+		}),
+	);
+
+	it.effect("issue_comment deleted event removes the comment", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			// First: create a comment
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-comment-create-del",
+					eventName: "issue_comment",
+					action: "created",
+					repositoryId,
+					payloadJson: makeIssueCommentPayload({
+						action: "created",
+						commentId: 7003,
+						issueNumber: 8,
+						body: "This comment will be deleted",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-comment-create-del");
+
+			let comments = yield* collectTable(t, "github_issue_comments");
+			expect(comments).toHaveLength(1);
+
+			// Then: delete it
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-comment-deleted",
+					eventName: "issue_comment",
+					action: "deleted",
+					repositoryId,
+					payloadJson: makeIssueCommentPayload({
+						action: "deleted",
+						commentId: 7003,
+						issueNumber: 8,
+						body: "This comment will be deleted",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-comment-deleted");
+
+			comments = yield* collectTable(t, "github_issue_comments");
+			expect(comments).toHaveLength(0);
+		}),
+	);
+
+	it.effect("issue_comment on a PR generates pr_comment activity type", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-pr-comment-activity",
+					eventName: "issue_comment",
+					action: "created",
+					repositoryId,
+					payloadJson: makeIssueCommentPayload({
+						action: "created",
+						commentId: 7004,
+						issueNumber: 42,
+						body: "PR comment here",
+						isPullRequest: true,
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-pr-comment-activity");
+
+			const activities = yield* collectTable<{
+				activityType: string;
+				entityNumber: number | null;
+			}>(t, "view_activity_feed");
+			expect(activities).toHaveLength(1);
+			expect(activities[0]).toMatchObject({
+				activityType: "pr_comment.created",
+				entityNumber: 42,
+			});
+		}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Pull Request Review Event Tests
+// ---------------------------------------------------------------------------
+
+describe("Pull Request Review Events", () => {
+	it.effect("pr_review submitted event inserts a review", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-submitted",
+					eventName: "pull_request_review",
+					action: "submitted",
+					repositoryId,
+					payloadJson: makePrReviewPayload({
+						action: "submitted",
+						reviewId: 9001,
+						prNumber: 42,
+						state: "approved",
+						commitSha: "sha-reviewed",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-submitted");
+
+			const reviews = yield* collectTable<{
+				githubReviewId: number;
+				pullRequestNumber: number;
+				state: string;
+				commitSha: string | null;
+				authorUserId: number | null;
+			}>(t, "github_pull_request_reviews");
+			expect(reviews).toHaveLength(1);
+			expect(reviews[0]).toMatchObject({
+				githubReviewId: 9001,
+				pullRequestNumber: 42,
+				state: "approved",
+				commitSha: "sha-reviewed",
+				authorUserId: 2001,
+			});
+
+			// Reviewer user should be upserted
+			const users = yield* collectTable<{
+				githubUserId: number;
+				login: string;
+			}>(t, "github_users");
+			expect(users).toHaveLength(1);
+			expect(users[0]).toMatchObject({
+				githubUserId: 2001,
+				login: "reviewer",
+			});
+		}),
+	);
+
+	it.effect("pr_review dismissed event updates existing review state", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			// First: submit the review
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-submit-dismiss",
+					eventName: "pull_request_review",
+					action: "submitted",
+					repositoryId,
+					payloadJson: makePrReviewPayload({
+						action: "submitted",
+						reviewId: 9002,
+						prNumber: 10,
+						state: "changes_requested",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-submit-dismiss");
+
+			let reviews = yield* collectTable<{
+				githubReviewId: number;
+				state: string;
+			}>(t, "github_pull_request_reviews");
+			expect(reviews).toHaveLength(1);
+			expect(reviews[0]).toMatchObject({ state: "changes_requested" });
+
+			// Then: dismiss it
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-dismissed",
+					eventName: "pull_request_review",
+					action: "dismissed",
+					repositoryId,
+					payloadJson: makePrReviewPayload({
+						action: "dismissed",
+						reviewId: 9002,
+						prNumber: 10,
+						state: "dismissed",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-dismissed");
+
+			reviews = yield* collectTable(t, "github_pull_request_reviews");
+			expect(reviews).toHaveLength(1);
+			expect(reviews[0]).toMatchObject({
+				githubReviewId: 9002,
+				state: "dismissed",
+			});
+		}),
+	);
+
+	it.effect("pr_review submitted event generates activity feed entry", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-activity",
+					eventName: "pull_request_review",
+					action: "submitted",
+					repositoryId,
+					payloadJson: makePrReviewPayload({
+						action: "submitted",
+						reviewId: 9003,
+						prNumber: 7,
+						prTitle: "Important feature",
+						state: "approved",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-activity");
+
+			const activities = yield* collectTable<{
+				activityType: string;
+				title: string;
+				actorLogin: string | null;
+				entityNumber: number | null;
+			}>(t, "view_activity_feed");
+			expect(activities).toHaveLength(1);
+			expect(activities[0]).toMatchObject({
+				activityType: "pr_review.approved",
+				title: "Important feature",
+				actorLogin: "reviewer",
+				entityNumber: 7,
+			});
+		}),
+	);
+
+	it.effect("multiple reviews on same PR are stored independently", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			// Review 1: commented
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-multi-1",
+					eventName: "pull_request_review",
+					action: "submitted",
+					repositoryId,
+					payloadJson: makePrReviewPayload({
+						action: "submitted",
+						reviewId: 9010,
+						prNumber: 15,
+						state: "commented",
+						user: {
+							id: 3001,
+							login: "reviewer-a",
+							avatar_url: null,
+							type: "User",
+						},
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-multi-1");
+
+			// Review 2: approved (different reviewer)
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-multi-2",
+					eventName: "pull_request_review",
+					action: "submitted",
+					repositoryId,
+					payloadJson: makePrReviewPayload({
+						action: "submitted",
+						reviewId: 9011,
+						prNumber: 15,
+						state: "approved",
+						user: {
+							id: 3002,
+							login: "reviewer-b",
+							avatar_url: null,
+							type: "User",
+						},
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-multi-2");
+
+			const reviews = yield* collectTable<{
+				githubReviewId: number;
+				state: string;
+				authorUserId: number | null;
+			}>(t, "github_pull_request_reviews");
+			expect(reviews).toHaveLength(2);
+
+			const states = reviews.map((r) => r.state).sort();
+			expect(states).toEqual(["approved", "commented"]);
+
+			// Both reviewers should be upserted
+			const users = yield* collectTable<{
+				githubUserId: number;
+				login: string;
+			}>(t, "github_users");
+			expect(users).toHaveLength(2);
+		}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Pull Request Review Comment Event Tests
+// ---------------------------------------------------------------------------
+
+describe("Pull Request Review Comment Events", () => {
+	it.effect("pr_review_comment created event inserts a review comment", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-comment-created",
+					eventName: "pull_request_review_comment",
+					action: "created",
+					repositoryId,
+					payloadJson: makePrReviewCommentPayload({
+						action: "created",
+						reviewCommentId: 9901,
+						prNumber: 42,
+						body: "Please rename this variable.",
+						path: "src/main.ts",
+						line: 27,
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-comment-created");
+
+			const reviewComments = yield* collectTable<{
+				githubReviewCommentId: number;
+				pullRequestNumber: number;
+				githubReviewId: number | null;
+				body: string;
+				path: string | null;
+				line: number | null;
+				authorUserId: number | null;
+			}>(t, "github_pull_request_review_comments");
+
+			expect(reviewComments).toHaveLength(1);
+			expect(reviewComments[0]).toMatchObject({
+				githubReviewCommentId: 9901,
+				pullRequestNumber: 42,
+				githubReviewId: 9101,
+				body: "Please rename this variable.",
+				path: "src/main.ts",
+				line: 27,
+				authorUserId: 2101,
+			});
+		}),
+	);
+
+	it.effect(
+		"pr_review_comment edited event updates an existing review comment",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-review-comment-create-edit",
+						eventName: "pull_request_review_comment",
+						action: "created",
+						repositoryId,
+						payloadJson: makePrReviewCommentPayload({
+							action: "created",
+							reviewCommentId: 9902,
+							prNumber: 9,
+							body: "Initial inline note",
+							updatedAt: "2026-02-18T12:00:00Z",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-review-comment-create-edit");
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-review-comment-edited",
+						eventName: "pull_request_review_comment",
+						action: "edited",
+						repositoryId,
+						payloadJson: makePrReviewCommentPayload({
+							action: "edited",
+							reviewCommentId: 9902,
+							prNumber: 9,
+							body: "Updated inline note",
+							updatedAt: "2026-02-18T12:05:00Z",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-review-comment-edited");
+
+				const reviewComments = yield* collectTable<{
+					githubReviewCommentId: number;
+					body: string;
+				}>(t, "github_pull_request_review_comments");
+
+				expect(reviewComments).toHaveLength(1);
+				expect(reviewComments[0]).toMatchObject({
+					githubReviewCommentId: 9902,
+					body: "Updated inline note",
+				});
+			}),
+	);
+
+	it.effect("pr_review_comment deleted event removes the review comment", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-comment-create-del",
+					eventName: "pull_request_review_comment",
+					action: "created",
+					repositoryId,
+					payloadJson: makePrReviewCommentPayload({
+						action: "created",
+						reviewCommentId: 9903,
+						prNumber: 11,
+						body: "Will delete this",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-comment-create-del");
+
+			let reviewComments = yield* collectTable(
+				t,
+				"github_pull_request_review_comments",
+			);
+			expect(reviewComments).toHaveLength(1);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-comment-deleted",
+					eventName: "pull_request_review_comment",
+					action: "deleted",
+					repositoryId,
+					payloadJson: makePrReviewCommentPayload({
+						action: "deleted",
+						reviewCommentId: 9903,
+						prNumber: 11,
+						body: "Will delete this",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-comment-deleted");
+
+			reviewComments = yield* collectTable(
+				t,
+				"github_pull_request_review_comments",
+			);
+			expect(reviewComments).toHaveLength(0);
+		}),
+	);
+});
+
+describe("Milestone Events", () => {
+	it.effect("milestone created event inserts a milestone", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-milestone-created",
+					eventName: "milestone",
+					action: "created",
+					repositoryId,
+					payloadJson: JSON.stringify({
+						action: "created",
+						milestone: makeMilestone({
+							milestoneId: 7001,
+							number: 1,
+							title: "v1.0",
+							dueOn: "2026-03-01T00:00:00Z",
+						}),
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-milestone-created");
+
+			const milestones = yield* collectTable(t, "github_milestones");
+			expect(milestones).toHaveLength(1);
+			expect(milestones[0]).toMatchObject({
+				repositoryId,
+				githubMilestoneId: 7001,
+				number: 1,
+				title: "v1.0",
+				state: "open",
+				creatorUserId: 1001,
+				dueOn: Date.parse("2026-03-01T00:00:00Z"),
+			});
+		}),
+	);
+
+	it.effect(
+		"issue events attach the milestone and refresh its progress counts",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-issue-milestoned",
+						eventName: "issues",
+						action: "milestoned",
+						repositoryId,
+						payloadJson: makeIssuePayload({
+							action: "milestoned",
+							issueId: 5101,
+							number: 3,
+							state: "closed",
+							title: "Ship it",
+							milestone: makeMilestone({
+								milestoneId: 7002,
+								number: 2,
+								title: "v2.0",
+								openIssues: 3,
+								closedIssues: 1,
+							}),
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-issue-milestoned");
+
+				const issues = yield* collectTable(t, "github_issues");
+				expect(issues[0]).toMatchObject({ number: 3, milestoneNumber: 2 });
+
+				const result = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listMilestones, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+					}),
+				);
+				const milestones = assertSuccess(result);
+				expect(milestones).toEqual([
+					expect.objectContaining({
+						number: 2,
+						title: "v2.0",
+						openIssueCount: 3,
+						closedIssueCount: 1,
+						progressPercent: 25,
+					}),
+				]);
+
+				const filteredResult = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listIssuesPaginated, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						milestoneNumber: 2,
+						cursor: null,
+						numItems: 10,
+					}),
+				);
+				const filtered = assertSuccess(filteredResult) as {
+					page: Array<{ number: number }>;
+				};
+				expect(filtered.page.map((issue) => issue.number)).toEqual([3]);
+
+				const otherResult = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listIssuesPaginated, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						milestoneNumber: 99,
+						cursor: null,
+						numItems: 10,
+					}),
+				);
+				const other = assertSuccess(otherResult) as {
+					page: Array<{ number: number }>;
+				};
+				expect(other.page).toHaveLength(0);
+			}),
+	);
+
+	it.effect("milestone deleted event removes it and detaches issues", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const milestone = makeMilestone({
+				milestoneId: 7003,
+				number: 3,
+				title: "Backlog",
+			});
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-issue-with-milestone",
+					eventName: "issues",
+					action: "opened",
+					repositoryId,
+					payloadJson: makeIssuePayload({
+						action: "opened",
+						issueId: 5102,
+						number: 4,
+						state: "open",
+						title: "Someday",
+						milestone,
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-issue-with-milestone");
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-milestone-deleted",
+					eventName: "milestone",
+					action: "deleted",
+					repositoryId,
+					payloadJson: JSON.stringify({ action: "deleted", milestone }),
+				}),
+			);
+			yield* processEvent(t, "delivery-milestone-deleted");
+
+			const milestones = yield* collectTable(t, "github_milestones");
+			expect(milestones).toHaveLength(0);
+
+			const issues = yield* collectTable(t, "github_issues");
+			expect(issues[0]).toMatchObject({ number: 4, milestoneNumber: null });
+		}),
+	);
+
+	it.effect(
+		"a late edited delivery does not bring a deleted milestone back",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-milestone-deleted-first",
+						eventName: "milestone",
+						action: "deleted",
+						repositoryId,
+						payloadJson: JSON.stringify({
+							action: "deleted",
+							milestone: makeMilestone({
+								milestoneId: 7004,
+								number: 4,
+								title: "Dropped",
+								updatedAt: "2026-02-18T10:00:00Z",
+							}),
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-milestone-deleted-first");
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-milestone-edited-late",
+						eventName: "milestone",
+						action: "edited",
+						repositoryId,
+						payloadJson: JSON.stringify({
+							action: "edited",
+							milestone: makeMilestone({
+								milestoneId: 7004,
+								number: 4,
+								title: "Renamed",
+								updatedAt: "2026-02-18T09:00:00Z",
+							}),
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-milestone-edited-late");
+
+				const milestones = yield* collectTable(t, "github_milestones");
+				expect(milestones).toHaveLength(0);
+			}),
+	);
+});
+
+describe("Release Events", () => {
+	it.effect(
+		"release published event inserts a release and an activity entry",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-tag-push",
+						eventName: "push",
+						action: null,
+						repositoryId,
+						payloadJson: JSON.stringify({
+							ref: "refs/tags/v1.0.0",
+							// Annotated tag: `after` is the tag object, not the commit
+							after: "9f8e7d6c5b4a3210",
+							head_commit: { id: "abc1234def5678" },
+							deleted: false,
+							commits: [],
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-tag-push");
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-release-published",
+						eventName: "release",
+						action: "published",
+						repositoryId,
+						payloadJson: JSON.stringify({
+							action: "published",
+							release: makeRelease({
+								releaseId: 9001,
+								tagName: "v1.0.0",
+								name: "First release",
+								body: "## Changes\n- Everything",
+							}),
+							sender: {
+								id: 1001,
+								login: "testuser",
+								avatar_url: null,
+								type: "User",
+							},
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-release-published");
+
+				const releases = yield* collectTable(t, "github_releases");
+				expect(releases).toHaveLength(1);
+				expect(releases[0]).toMatchObject({
+					repositoryId,
+					githubReleaseId: 9001,
+					tagName: "v1.0.0",
+					name: "First release",
+					authorUserId: 1001,
+					draft: false,
+				});
+
+				const branches = yield* collectTable(t, "github_branches");
+				expect(branches).toHaveLength(0);
+
+				const activities = yield* collectTable(t, "view_activity_feed");
+				expect(activities).toEqual([
+					expect.objectContaining({
+						activityType: "release.published",
+						title: "First release",
+						actorLogin: "testuser",
+					}),
+				]);
+
+				const result = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listReleases, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+					}),
+				);
+				expect(assertSuccess(result)).toEqual([
+					expect.objectContaining({
+						tagName: "v1.0.0",
+						body: "## Changes\n- Everything",
+						authorLogin: "testuser",
+						tagSha: "abc1234def5678",
+					}),
+				]);
+			}),
+	);
+
+	it.effect("draft releases are stored but not listed", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-release-draft",
+					eventName: "release",
+					action: "created",
+					repositoryId,
+					payloadJson: JSON.stringify({
+						action: "created",
+						release: makeRelease({
+							releaseId: 9002,
+							tagName: "v2.0.0",
+							draft: true,
+						}),
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-release-draft");
+
+			const releases = yield* collectTable(t, "github_releases");
+			expect(releases).toHaveLength(1);
+
+			const activities = yield* collectTable(t, "view_activity_feed");
+			expect(activities).toHaveLength(0);
+
+			const result = yield* Effect.promise(() =>
+				t.query(api.rpc.projectionQueries.listReleases, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+				}),
+			);
+			expect(assertSuccess(result)).toEqual([]);
+		}),
+	);
+
+	it.effect("release deleted event removes the release", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const release = makeRelease({ releaseId: 9003, tagName: "v3.0.0" });
+			for (const action of ["published", "deleted"] as const) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: `delivery-release-${action}`,
+						eventName: "release",
+						action,
+						repositoryId,
+						payloadJson: JSON.stringify({ action, release }),
+					}),
+				);
+				yield* processEvent(t, `delivery-release-${action}`);
+			}
+
+			const releases = yield* collectTable(t, "github_releases");
+			expect(releases).toHaveLength(0);
+		}),
+	);
+
+	it.effect(
+		"a late edited delivery does not bring a deleted release back",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				const release = makeRelease({ releaseId: 9004, tagName: "v4.0.0" });
+				for (const action of ["published", "deleted", "edited"] as const) {
+					yield* insertRawEvent(
+						t,
+						makeRawEvent({
+							deliveryId: `delivery-release-late-${action}`,
+							eventName: "release",
+							action,
+							repositoryId,
+							payloadJson: JSON.stringify({ action, release }),
+						}),
+					);
+					yield* processEvent(t, `delivery-release-late-${action}`);
+				}
+				expect(yield* collectTable(t, "github_releases")).toHaveLength(0);
+
+				// A bootstrap listing fetched before the delete is ignored too
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.bootstrapWrite.upsertReleases, {
+						repositoryId,
+						releases: [
+							{
+								githubReleaseId: 9004,
+								tagName: "v4.0.0",
+								name: null,
+								body: null,
+								draft: false,
+								prerelease: false,
+								authorUserId: null,
+								targetCommitish: "main",
+								htmlUrl: null,
+								createdAt: Date.now(),
+								publishedAt: Date.now(),
+							},
+						],
+					}),
+				);
+				expect(yield* collectTable(t, "github_releases")).toHaveLength(0);
+			}),
+	);
+});
+
+describe("Code Browse Cache", () => {
+	it.effect(
+		"push to the default branch drops ref-keyed tree cache entries",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				for (const key of ["HEAD", "main", "feature", "abc123commit"]) {
+					yield* Effect.promise(() =>
+						t.mutation(internal.rpc.codeBrowse.upsertTreeCache, {
+							repositoryId,
+							sha: key,
+							resolvedTreeSha: "tree-sha",
+							resolvedCommitSha: "abc123commit",
+							treeJson: "[]",
+							truncated: false,
+						}),
+					);
+				}
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-push-tree-cache",
+						eventName: "push",
+						action: null,
+						repositoryId,
+						payloadJson: makePushPayload({
+							ref: "refs/heads/main",
+							after: "def456commit",
+							commits: [],
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-push-tree-cache");
+
+				const entries = yield* collectTable<{ sha: string }>(
+					t,
+					"github_tree_cache",
+				);
+				expect(entries.map((entry) => entry.sha).sort()).toEqual([
+					"abc123commit",
+					"feature",
+				]);
+			}),
+	);
+
+	it.effect("file cache entries are write-once per blob SHA", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+
+			for (const path of ["src/a.ts", "src/copy-of-a.ts"]) {
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.codeBrowse.upsertFileCache, {
+						repositoryId,
+						sha: "blob-sha-1",
+						path,
+						content: "export const a = 1;\n",
+						size: 20,
+						encoding: "base64",
+					}),
+				);
+			}
+
+			const entries = yield* collectTable(t, "github_file_cache");
+			expect(entries).toHaveLength(1);
+
+			const cached = yield* Effect.promise(() =>
+				t.query(internal.rpc.codeBrowse.getCachedFile, {
+					repositoryId,
+					sha: "blob-sha-1",
+				}),
+			);
+			expect(assertSuccess(cached)).toMatchObject({
+				path: "src/a.ts",
+				content: "export const a = 1;\n",
+			});
+		}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Reactions
+// ---------------------------------------------------------------------------
+
+/** GitHub's `reactions` rollup with every bucket defaulting to zero */
+const makeReactionRollup = (counts: Record<string, number>) => {
+	const buckets: Record<string, number> = {
+		"+1": 0,
+		"-1": 0,
+		laugh: 0,
+		hooray: 0,
+		confused: 0,
+		heart: 0,
+		rocket: 0,
+		eyes: 0,
+		...counts,
+	};
+	return {
+		url: "https://api.github.com/reactions",
+		total_count: Object.values(buckets).reduce((sum, n) => sum + n, 0),
+		...buckets,
+	};
+};
+
+describe("Reactions", () => {
+	it.effect("issue_comment webhook mirrors the reaction rollup", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-comment-reactions",
+					eventName: "issue_comment",
+					action: "edited",
+					repositoryId,
+					payloadJson: makeIssueCommentPayload({
+						action: "edited",
+						commentId: 7101,
+						issueNumber: 5,
+						body: "Ship it",
+						reactions: makeReactionRollup({ "+1": 3, rocket: 1 }),
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-comment-reactions");
+
+			const comments = yield* collectTable<{
+				githubCommentId: number;
+				reactions?: Record<string, number> | null;
+			}>(t, "github_issue_comments");
+			expect(comments).toHaveLength(1);
+			expect(comments[0]?.reactions).toEqual({
+				totalCount: 4,
+				plusOne: 3,
+				minusOne: 0,
+				laugh: 0,
+				hooray: 0,
+				confused: 0,
+				heart: 0,
+				rocket: 1,
+				eyes: 0,
+			});
+		}),
+	);
+
+	it.effect("failed addReaction rolls back the optimistic count", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					await ctx.db.insert("github_issue_comments", {
+						repositoryId,
+						issueNumber: 5,
+						githubCommentId: 7201,
+						authorUserId: 1001,
+						body: "Nice",
+						createdAt: Date.now(),
+						updatedAt: Date.now(),
+					});
+				}),
+			);
+
+			const recorded = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.recordPendingReaction, {
+					correlationId: "corr-reaction-1",
+					repositoryId,
+					subjectType: "issue_comment",
+					subjectId: 7201,
+					content: "heart",
+					githubUserId: 1001,
+					operationType: "add_reaction",
+				}),
+			);
+			expect(assertSuccess(recorded)).toMatchObject({ recorded: true });
+
+			const pending = yield* collectTable<{
+				reactions?: { totalCount: number; heart: number } | null;
+			}>(t, "github_issue_comments");
+			expect(pending[0]?.reactions).toMatchObject({
+				totalCount: 1,
+				heart: 1,
+			});
+
+			const duplicate = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.recordPendingReaction, {
+					correlationId: "corr-reaction-1",
+					repositoryId,
+					subjectType: "issue_comment",
+					subjectId: 7201,
+					content: "heart",
+					githubUserId: 1001,
+					operationType: "add_reaction",
+				}),
+			);
+			expect(assertSuccess(duplicate)).toMatchObject({
+				recorded: false,
+				reason: "duplicate",
+			});
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.markReactionFailed, {
+					correlationId: "corr-reaction-1",
+					errorMessage: "Forbidden",
+					errorStatus: 403,
+				}),
+			);
+
+			const rolledBack = yield* collectTable<{
+				reactions?: { totalCount: number; heart: number } | null;
+			}>(t, "github_issue_comments");
+			expect(rolledBack[0]?.reactions).toMatchObject({
+				totalCount: 0,
+				heart: 0,
+			});
+
+			const reactions = yield* collectTable<{
+				optimisticState?: string | null;
+				optimisticErrorStatus?: number | null;
+			}>(t, "github_reactions");
+			expect(reactions).toHaveLength(1);
+			expect(reactions[0]).toMatchObject({
+				optimisticState: "failed",
+				optimisticErrorStatus: 403,
+			});
+		}),
+	);
+
+	it.effect(
+		"failed addReaction keeps counts a webhook rollup replaced meanwhile",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* Effect.promise(() =>
+					t.run(async (ctx) => {
+						await ctx.db.insert("github_issue_comments", {
+							repositoryId,
+							issueNumber: 5,
+							githubCommentId: 7251,
+							authorUserId: 1001,
+							body: "Nice",
+							createdAt: Date.now(),
+							updatedAt: Date.now(),
+						});
+					}),
+				);
+
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.recordPendingReaction, {
+						correlationId: "corr-reaction-rollup",
+						repositoryId,
+						subjectType: "issue_comment",
+						subjectId: 7251,
+						content: "heart",
+						githubUserId: 1001,
+						operationType: "add_reaction",
+					}),
+				);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-comment-reactions-rollup",
+						eventName: "issue_comment",
+						action: "edited",
+						repositoryId,
+						payloadJson: makeIssueCommentPayload({
+							action: "edited",
+							commentId: 7251,
+							issueNumber: 5,
+							body: "Nice (edited)",
+							reactions: makeReactionRollup({ heart: 2 }),
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-comment-reactions-rollup");
+
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.markReactionFailed, {
+						correlationId: "corr-reaction-rollup",
+						errorMessage: "Forbidden",
+						errorStatus: 403,
+					}),
+				);
+
+				const comments = yield* collectTable<{
+					reactions?: { totalCount: number; heart: number } | null;
+				}>(t, "github_issue_comments");
+				expect(comments[0]?.reactions).toMatchObject({
+					totalCount: 2,
+					heart: 2,
+				});
+			}),
+	);
+
+	it.effect("webhook rollup drops tracked reactions removed on GitHub", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					await ctx.db.insert("github_issue_comments", {
+						repositoryId,
+						issueNumber: 5,
+						githubCommentId: 7301,
+						authorUserId: 1001,
+						body: "Nice",
+						createdAt: Date.now(),
+						updatedAt: Date.now(),
+					});
+					await ctx.db.insert("github_reactions", {
+						repositoryId,
+						subjectType: "issue_comment",
+						subjectId: 7301,
+						githubReactionId: 501,
+						githubUserId: 1001,
+						content: "eyes",
+						createdAt: Date.now(),
+						optimisticCorrelationId: "corr-reaction-2",
+						optimisticOperationType: "add_reaction",
+						optimisticState: "confirmed",
+					});
+					await ctx.db.insert("github_reactions", {
+						repositoryId,
+						subjectType: "issue_comment",
+						subjectId: 7301,
+						githubReactionId: 502,
+						githubUserId: 1001,
+						content: "+1",
+						createdAt: Date.now(),
+						optimisticCorrelationId: "corr-reaction-3",
+						optimisticOperationType: "add_reaction",
+						optimisticState: "confirmed",
+					});
+				}),
+			);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-comment-reactions-pruned",
+					eventName: "issue_comment",
+					action: "edited",
+					repositoryId,
+					payloadJson: makeIssueCommentPayload({
+						action: "edited",
+						commentId: 7301,
+						issueNumber: 5,
+						body: "Nice (edited)",
+						reactions: makeReactionRollup({ "+1": 2 }),
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-comment-reactions-pruned");
+
+			const reactions = yield* collectTable<{ content: string }>(
+				t,
+				"github_reactions",
+			);
+			expect(reactions.map((reaction) => reaction.content)).toEqual(["+1"]);
+		}),
+	);
+
+	it.effect(
+		"reconcileViewerReactions tracks GitHub's list and skips pending rows",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* Effect.promise(() =>
+					t.run(async (ctx) => {
+						const subject = {
+							repositoryId,
+							subjectType: "issue" as const,
+							subjectId: 5,
+							githubUserId: 1001,
+							createdAt: Date.now(),
+						};
+						// Removed on github.com since it was added here
+						await ctx.db.insert("github_reactions", {
+							...subject,
+							githubReactionId: 701,
+							content: "eyes",
+							optimisticCorrelationId: "corr-reaction-4",
+							optimisticOperationType: "add_reaction",
+							optimisticState: "confirmed",
+						});
+						// Still waiting on GitHub
+						await ctx.db.insert("github_reactions", {
+							...subject,
+							githubReactionId: null,
+							content: "rocket",
+							optimisticCorrelationId: "corr-reaction-5",
+							optimisticOperationType: "add_reaction",
+							optimisticState: "pending",
+						});
+					}),
+				);
+
+				const result = yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.reconcileViewerReactions, {
+						repositoryId,
+						subjectType: "issue",
+						subjectId: 5,
+						githubUserId: 1001,
+						reactions: [{ githubReactionId: 702, content: "heart" }],
+					}),
+				);
+				expect(assertSuccess(result)).toEqual({ inserted: 1, deleted: 1 });
+
+				const reactions = yield* collectTable<{
+					content: string;
+					githubReactionId: number | null;
+					optimisticState?: string | null;
+				}>(t, "github_reactions");
+				expect(
+					reactions
+						.map((reaction) => ({
+							content: reaction.content,
+							githubReactionId: reaction.githubReactionId,
+							optimisticState: reaction.optimisticState ?? null,
+						}))
+						.sort((a, b) => a.content.localeCompare(b.content)),
+				).toEqual([
+					{ content: "heart", githubReactionId: 702, optimisticState: null },
+					{
+						content: "rocket",
+						githubReactionId: null,
+						optimisticState: "pending",
+					},
+				]);
+			}),
+	);
+
+	describe("GitHub round trips", () => {
+		type FetchCall = { method: string; url: string };
+
+		const seedReactedComment = (
+			t: ReturnType<typeof createConvexTest>,
+			githubCommentId: number,
+		) =>
+			Effect.promise(() =>
+				t.run(async (ctx) => {
+					await ctx.db.insert("github_issue_comments", {
+						repositoryId: 12345,
+						issueNumber: 5,
+						githubCommentId,
+						authorUserId: 1001,
+						body: "Nice",
+						reactions: {
+							totalCount: 1,
+							plusOne: 0,
+							minusOne: 0,
+							laugh: 0,
+							hooray: 0,
+							confused: 0,
+							heart: 1,
+							rocket: 0,
+							eyes: 0,
+						},
+						createdAt: Date.now(),
+						updatedAt: Date.now(),
+					});
+				}),
+			);
+
+		/** Stub `fetch` per HTTP method, recording requests */
+		const stubGitHub = (
+			responses: Record<string, { status: number; body: unknown }>,
+		) => {
+			const calls: Array<FetchCall> = [];
+			vi.stubGlobal("fetch", async (url: string | URL, init?: RequestInit) => {
+				const method = init?.method ?? "GET";
+				calls.push({ method, url: String(url) });
+				const response = responses[method];
+				if (response === undefined) return new Response(null, { status: 500 });
+				return new Response(
+					response.status === 204 ? null : JSON.stringify(response.body),
+					{ status: response.status },
+				);
+			});
+			return calls;
+		};
+
+		const reactionArgs = (correlationId: string, subjectId: number) => ({
+			correlationId,
+			ownerLogin: "testowner",
+			name: "testrepo",
+			repositoryId: 12345,
+			subjectType: "issue_comment" as const,
+			subjectId,
+			content: "heart" as const,
+		});
+
+		it.effect("addReaction answered 200 leaves the existing count", () =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				yield* seedGitHubAccount(t);
+				yield* seedReactedComment(t, 7401);
+				stubGitHub({ POST: { status: 200, body: { id: 801 } } });
+
+				try {
+					const result = yield* Effect.promise(() =>
+						authClient(t).action(
+							api.rpc.githubWrite.addReaction,
+							reactionArgs("corr-reaction-6", 7401),
+						),
+					);
+					assertSuccess(result);
+
+					const comments = yield* collectTable<{
+						reactions?: { totalCount: number; heart: number } | null;
+					}>(t, "github_issue_comments");
+					expect(comments[0]?.reactions).toMatchObject({
+						totalCount: 1,
+						heart: 1,
+					});
+					const reactions = yield* collectTable<{
+						githubReactionId: number | null;
+						optimisticState?: string | null;
+					}>(t, "github_reactions");
+					expect(reactions).toHaveLength(1);
+					expect(reactions[0]).toMatchObject({
+						githubReactionId: 801,
+						optimisticState: "confirmed",
+					});
+				} finally {
+					vi.unstubAllGlobals();
+				}
+			}),
+		);
+
+		it.effect("removeReaction looks up an untracked reaction's ID", () =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				yield* seedGitHubAccount(t);
+				yield* seedReactedComment(t, 7402);
+				const calls = stubGitHub({
+					GET: {
+						status: 200,
+						body: [
+							{ id: 802, content: "heart", user: { id: 2002 } },
+							{ id: 803, content: "heart", user: { id: 1001 } },
+						],
+					},
+					DELETE: { status: 204, body: null },
+				});
+
+				try {
+					const result = yield* Effect.promise(() =>
+						authClient(t).action(
+							api.rpc.githubWrite.removeReaction,
+							reactionArgs("corr-reaction-7", 7402),
+						),
+					);
+					assertSuccess(result);
+
+					expect(calls.map((call) => call.method)).toEqual(["GET", "DELETE"]);
+					expect(calls[1]?.url).toBe(
+						"https://api.github.com/repos/testowner/testrepo/issues/comments/7402/reactions/803",
+					);
+					const comments = yield* collectTable<{
+						reactions?: { totalCount: number; heart: number } | null;
+					}>(t, "github_issue_comments");
+					expect(comments[0]?.reactions).toMatchObject({
+						totalCount: 0,
+						heart: 0,
+					});
+					const reactions = yield* collectTable(t, "github_reactions");
+					expect(reactions).toHaveLength(0);
+				} finally {
+					vi.unstubAllGlobals();
+				}
+			}),
+		);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Comment edits
+// ---------------------------------------------------------------------------
+
+describe("Comment Edits", () => {
+	const seedIssueComment = (
+		t: ReturnType<typeof createConvexTest>,
+		repositoryId: number,
+		githubCommentId: number,
+	) =>
+		Effect.promise(() =>
+			t.run(async (ctx) => {
+				await ctx.db.insert("github_issue_comments", {
+					repositoryId,
+					issueNumber: 5,
+					githubCommentId,
+					authorUserId: 1001,
+					body: "Original text",
+					createdAt: Date.now(),
+					updatedAt: Date.now(),
+				});
+			}),
+		);
+
+	it.effect("failed edit restores the previous body", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+			yield* seedIssueComment(t, repositoryId, 8101);
+
+			const recorded = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.recordPendingCommentEdit, {
+					correlationId: "corr-edit-1",
+					repositoryId,
+					commentType: "issue_comment",
+					commentId: 8101,
+					operationType: "update_comment",
+					body: "Edited text",
+				}),
+			);
+			expect(assertSuccess(recorded)).toEqual({
+				recorded: true,
+				reason: "recorded",
+			});
+
+			const pending = yield* collectTable<{
+				body: string;
+				optimisticState?: string | null;
+			}>(t, "github_issue_comments");
+			expect(pending[0]).toMatchObject({
+				body: "Edited text",
+				optimisticState: "pending",
+			});
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.markCommentUpdateFailed, {
+					correlationId: "corr-edit-1",
+					errorMessage: "Forbidden",
+					errorStatus: 403,
+				}),
+			);
+
+			const failed = yield* collectTable<{
+				body: string;
+				optimisticState?: string | null;
+				optimisticErrorStatus?: number | null;
+			}>(t, "github_issue_comments");
+			expect(failed[0]).toMatchObject({
+				body: "Original text",
+				optimisticState: "failed",
+				optimisticErrorStatus: 403,
+			});
+		}),
+	);
+
+	it.effect("edited webhook confirms a pending comment edit", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+			yield* seedIssueComment(t, repositoryId, 8201);
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.recordPendingCommentEdit, {
+					correlationId: "corr-edit-2",
+					repositoryId,
+					commentType: "issue_comment",
+					commentId: 8201,
+					operationType: "update_comment",
+					body: "Edited text",
+				}),
+			);
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.markCommentUpdateAccepted, {
+					correlationId: "corr-edit-2",
+				}),
+			);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-comment-edited",
+					eventName: "issue_comment",
+					action: "edited",
+					repositoryId,
+					payloadJson: makeIssueCommentPayload({
+						action: "edited",
+						commentId: 8201,
+						issueNumber: 5,
+						body: "Edited text",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-comment-edited");
+
+			const comments = yield* collectTable<{
+				body: string;
+				optimisticState?: string | null;
+			}>(t, "github_issue_comments");
+			expect(comments).toHaveLength(1);
+			expect(comments[0]).toMatchObject({
+				body: "Edited text",
+				optimisticState: "confirmed",
+			});
+		}),
+	);
+
+	it.effect("accepted review comment delete removes the row", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					await ctx.db.insert("github_pull_request_review_comments", {
+						repositoryId,
+						pullRequestNumber: 7,
+						githubReviewCommentId: 8301,
+						githubReviewId: null,
+						inReplyToGithubReviewCommentId: null,
+						authorUserId: 1001,
+						body: "Nit: rename this",
+						path: "src/index.ts",
+						line: 3,
+						originalLine: 3,
+						startLine: null,
+						side: "RIGHT",
+						startSide: null,
+						commitSha: "abc123",
+						originalCommitSha: "abc123",
+						htmlUrl: null,
+						createdAt: Date.now(),
+						updatedAt: Date.now(),
+					});
+				}),
+			);
+
+			const recorded = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.recordPendingCommentEdit, {
+					correlationId: "corr-delete-1",
+					repositoryId,
+					commentType: "review_comment",
+					commentId: 8301,
+					operationType: "delete_comment",
+				}),
+			);
+			expect(assertSuccess(recorded)).toEqual({
+				recorded: true,
+				reason: "recorded",
+			});
+
+			const duplicate = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.recordPendingCommentEdit, {
+					correlationId: "corr-delete-1",
+					repositoryId,
+					commentType: "review_comment",
+					commentId: 8301,
+					operationType: "delete_comment",
+				}),
+			);
+			expect(assertSuccess(duplicate)).toEqual({
+				recorded: false,
+				reason: "duplicate",
+			});
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.markCommentDeleteAccepted, {
+					correlationId: "corr-delete-1",
+				}),
+			);
+
+			const remaining = yield* collectTable(
+				t,
+				"github_pull_request_review_comments",
+			);
+			expect(remaining).toHaveLength(0);
+		}),
+	);
+});
+
+describe("Discussions", () => {
+	it.effect(
+		"discussion and discussion_comment events build threaded detail with the answer",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				const events: ReadonlyArray<{
+					deliveryId: string;
+					eventName: string;
+					action: string;
+					payload: Record<string, unknown>;
+				}> = [
+					{
+						deliveryId: "delivery-discussion-created",
+						eventName: "discussion",
+						action: "created",
+						payload: {
+							discussion: makeDiscussion({
+								discussionId: 7001,
+								number: 3,
+								title: "How do I configure webhooks?",
+							}),
+						},
+					},
+					{
+						deliveryId: "delivery-discussion-comment",
+						eventName: "discussion_comment",
+						action: "created",
+						payload: {
+							discussion: makeDiscussion({
+								discussionId: 7001,
+								number: 3,
+								title: "How do I configure webhooks?",
+								comments: 1,
+							}),
+							comment: {
+								id: 801,
+								parent_id: null,
+								body: "Set the URL in the app settings.",
+								user: { id: 1002, login: "helper", type: "User" },
+								created_at: "2026-02-18T10:30:00Z",
+								updated_at: "2026-02-18T10:30:00Z",
+							},
+						},
+					},
+					{
+						deliveryId: "delivery-discussion-reply",
+						eventName: "discussion_comment",
+						action: "created",
+						payload: {
+							discussion: makeDiscussion({
+								discussionId: 7001,
+								number: 3,
+								title: "How do I configure webhooks?",
+								comments: 2,
+							}),
+							comment: {
+								id: 802,
+								parent_id: 801,
+								body: "Thanks, that worked!",
+								user: { id: 1001, login: "testuser", type: "User" },
+								created_at: "2026-02-18T10:45:00Z",
+								updated_at: "2026-02-18T10:45:00Z",
+							},
+						},
+					},
+					{
+						deliveryId: "delivery-discussion-answered",
+						eventName: "discussion",
+						action: "answered",
+						payload: {
+							discussion: makeDiscussion({
+								discussionId: 7001,
+								number: 3,
+								title: "How do I configure webhooks?",
+								comments: 2,
+								answerCommentId: 801,
+								updatedAt: "2026-02-18T11:00:00Z",
+							}),
+							answer: { id: 801, body: "Set the URL in the app settings." },
+						},
+					},
+				];
+
+				for (const event of events) {
+					yield* insertRawEvent(
+						t,
+						makeRawEvent({
+							deliveryId: event.deliveryId,
+							eventName: event.eventName,
+							action: event.action,
+							repositoryId,
+							payloadJson: JSON.stringify({
+								action: event.action,
+								...event.payload,
+							}),
+						}),
+					);
+					yield* processEvent(t, event.deliveryId);
+				}
+
+				const discussions = yield* collectTable(t, "github_discussions");
+				expect(discussions).toHaveLength(1);
+				expect(discussions[0]).toMatchObject({
+					githubDiscussionId: 7001,
+					state: "open",
+					categoryName: "Q&A",
+					answerCommentId: 801,
+					commentCount: 2,
+				});
+
+				const result = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.getDiscussionDetail, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						number: 3,
+					}),
+				);
+				const detail = assertSuccess(result);
+				expect(detail?.authorLogin).toBe("testuser");
+				expect(detail?.comments).toEqual([
+					expect.objectContaining({
+						githubCommentId: 801,
+						parentCommentId: null,
+						authorLogin: "helper",
+						isAnswer: true,
+					}),
+					expect.objectContaining({
+						githubCommentId: 802,
+						parentCommentId: 801,
+						isAnswer: false,
+					}),
+				]);
+
+				const activities = yield* collectTable(t, "view_activity_feed");
+				expect(activities.map((a) => a.activityType).sort()).toEqual([
+					"discussion.answered",
+					"discussion.created",
+					"discussion_comment.created",
+					"discussion_comment.created",
+				]);
+			}),
+	);
+
+	it.effect(
+		"discussion deleted event removes the discussion and comments",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				const discussion = makeDiscussion({
+					discussionId: 7002,
+					number: 4,
+					title: "Roadmap",
+				});
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-discussion-comment-4",
+						eventName: "discussion_comment",
+						action: "created",
+						repositoryId,
+						payloadJson: JSON.stringify({
+							action: "created",
+							discussion,
+							comment: {
+								id: 803,
+								parent_id: null,
+								body: "+1",
+								user: { id: 1001, login: "testuser", type: "User" },
+							},
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-discussion-comment-4");
+
+				expect(yield* collectTable(t, "github_discussions")).toHaveLength(1);
+				expect(
+					yield* collectTable(t, "github_discussion_comments"),
+				).toHaveLength(1);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-discussion-deleted",
+						eventName: "discussion",
+						action: "deleted",
+						repositoryId,
+						payloadJson: JSON.stringify({ action: "deleted", discussion }),
+					}),
+				);
+				yield* processEvent(t, "delivery-discussion-deleted");
+
+				expect(yield* collectTable(t, "github_discussions")).toHaveLength(0);
+				expect(
+					yield* collectTable(t, "github_discussion_comments"),
+				).toHaveLength(0);
+			}),
+	);
+
+	it.effect(
+		"searchIssuesAndPrs includes discussions and filters by target",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-issue-search",
+						eventName: "issues",
+						action: "opened",
+						repositoryId,
+						payloadJson: makeIssuePayload({
+							action: "opened",
+							issueId: 6001,
+							number: 1,
+							state: "open",
+							title: "Webhook retries are flaky",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-issue-search");
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-discussion-search",
+						eventName: "discussion",
+						action: "created",
+						repositoryId,
+						payloadJson: JSON.stringify({
+							action: "created",
+							discussion: makeDiscussion({
+								discussionId: 7003,
+								number: 2,
+								title: "Ideas",
+								body: "Could webhook delivery be batched?",
+								updatedAt: "2026-02-18T12:00:00Z",
+							}),
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-discussion-search");
+
+				const all = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.searchIssuesAndPrs, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						query: "webhook",
+					}),
+				);
+				expect(
+					assertSuccess(all).map((item) => [item.type, item.number]),
+				).toEqual([
+					["discussion", 2],
+					["issue", 1],
+				]);
+
+				const discussionsOnly = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.searchIssuesAndPrs, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						query: "webhook",
+						target: "discussion",
+					}),
+				);
+				expect(assertSuccess(discussionsOnly)).toEqual([
+					expect.objectContaining({ type: "discussion", number: 2 }),
+				]);
+
+				const labelled = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.searchIssuesAndPrs, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						query: "webhook",
+						labels: ["bug"],
+					}),
+				);
+				expect(assertSuccess(labelled)).toEqual([]);
+			}),
+	);
+
+	it.effect("an older discussion payload does not overwrite a newer one", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			for (const [deliveryId, title, updatedAt] of [
+				["delivery-discussion-newer", "Renamed", "2026-02-18T12:00:00Z"],
+				["delivery-discussion-older", "Original", "2026-02-18T10:00:00Z"],
+			] as const) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId,
+						eventName: "discussion",
+						action: "edited",
+						repositoryId,
+						payloadJson: JSON.stringify({
+							action: "edited",
+							discussion: makeDiscussion({
+								discussionId: 7004,
+								number: 4,
+								title,
+								updatedAt,
+							}),
+						}),
+					}),
+				);
+				yield* processEvent(t, deliveryId);
+			}
+
+			const discussions = yield* collectTable(t, "github_discussions");
+			expect(discussions).toHaveLength(1);
+			expect(discussions[0]).toMatchObject({ title: "Renamed" });
+		}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Saved views
+// ---------------------------------------------------------------------------
+
+/** Seed issues with authors, assignees and labels for filter tests */
+const seedFilterableIssues = (
+	t: ReturnType<typeof createConvexTest>,
+	repositoryId: number,
+	issues: ReadonlyArray<{
+		number: number;
+		authorUserId: number;
+		assigneeUserIds?: ReadonlyArray<number>;
+		labelNames?: ReadonlyArray<string>;
+		githubUpdatedAt?: number;
+	}>,
+) =>
+	Effect.promise(() =>
+		t.run(async (ctx) => {
+			const now = Date.now();
+			for (const [githubUserId, login] of [
+				[2001, "Alice"],
+				[2002, "bob"],
+			] as const) {
+				await ctx.db.insert("github_users", {
+					githubUserId,
+					login,
+					avatarUrl: null,
+					siteAdmin: false,
+					type: "User",
+					updatedAt: now,
+				});
+			}
+			for (const issue of issues) {
+				await ctx.db.insert("github_issues", {
+					repositoryId,
+					githubIssueId: 9000 + issue.number,
+					number: issue.number,
+					state: "open",
+					title: `Issue #${issue.number}`,
+					body: null,
+					authorUserId: issue.authorUserId,
+					assigneeUserIds: [...(issue.assigneeUserIds ?? [])],
+					labelNames: [...(issue.labelNames ?? [])],
+					commentCount: 0,
+					isPullRequest: false,
+					closedAt: null,
+					githubUpdatedAt: issue.githubUpdatedAt ?? now,
+					cachedAt: now,
+				});
+			}
+		}),
+	);
+
+describe("Saved Views", () => {
+	it.effect(
+		"listIssuesPaginated applies author, assignee and label filters",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+				yield* seedFilterableIssues(t, repositoryId, [
+					{ number: 1, authorUserId: 2001, labelNames: ["bug"] },
+					{
+						number: 2,
+						authorUserId: 2001,
+						assigneeUserIds: [2002],
+						labelNames: ["bug", "ui"],
+					},
+					{ number: 3, authorUserId: 2002, labelNames: ["bug"] },
+				]);
+
+				const listNumbers = (filters: {
+					authorLogin?: string;
+					assigneeLogin?: string;
+					labels?: Array<string>;
+				}) =>
+					Effect.promise(() =>
+						t.query(api.rpc.projectionQueries.listIssuesPaginated, {
+							ownerLogin: "testowner",
+							name: "testrepo",
+							state: "open",
+							cursor: null,
+							numItems: 10,
+							...filters,
+						}),
+					).pipe(
+						Effect.map((result) =>
+							(
+								assertSuccess(result) as { page: Array<{ number: number }> }
+							).page
+								.map((issue) => issue.number)
+								.sort(),
+						),
+					);
+
+				// Logins match case-insensitively, as typed into the DSL
+				expect(yield* listNumbers({ authorLogin: "alice" })).toEqual([1, 2]);
+				expect(
+					yield* listNumbers({ authorLogin: "alice", labels: ["BUG", "ui"] }),
+				).toEqual([2]);
+				expect(yield* listNumbers({ assigneeLogin: "bob" })).toEqual([2]);
+				expect(yield* listNumbers({ labels: ["wontfix"] })).toEqual([]);
+			}),
+	);
+
+	it.effect("filtered issue pages fill up across the whole list", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+			// Every other issue is Alice's, all updated at the same instant
+			yield* seedFilterableIssues(
+				t,
+				repositoryId,
+				Array.from({ length: 8 }, (_, i) => ({
+					number: i + 1,
+					authorUserId: i % 2 === 0 ? 2001 : 2002,
+				})),
+			);
+
+			type Page = {
+				page: Array<{ number: number }>;
+				isDone: boolean;
+				continueCursor: string;
+			};
+			const listPage = (
+				cursor: string | null,
+				filters: { authorLogin?: string; textTokens?: Array<string> },
+			) =>
+				Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listIssuesPaginated, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						cursor,
+						numItems: 2,
+						...filters,
+					}),
+				).pipe(Effect.map((result) => assertSuccess(result) as Page));
+
+			const seen: Array<number> = [];
+			let page = yield* listPage(null, { authorLogin: "alice" });
+			for (let guard = 0; guard < 5; guard++) {
+				if (!page.isDone) expect(page.page).toHaveLength(2);
+				seen.push(...page.page.map((issue) => issue.number));
+				if (page.isDone) break;
+				page = yield* listPage(page.continueCursor, { authorLogin: "alice" });
+			}
+			expect(page.isDone).toBe(true);
+			expect(seen.sort()).toEqual([1, 3, 5, 7]);
+
+			// Free text is matched against the title on the server
+			const byText = yield* listPage(null, { textTokens: ["#5"] });
+			expect(byText.page.map((issue) => issue.number)).toEqual([5]);
+			expect(byText.isDone).toBe(true);
+		}),
+	);
+
+	it.effect("saved views count unread matches until the view is opened", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const client = authClient(t);
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const created = yield* Effect.promise(() =>
+				client.mutation(api.rpc.savedViews.createSavedView, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+					title: "Alice's bugs",
+					target: "issue",
+					query: "issues open by alice label bug",
+					state: "open",
+					authorLogin: "alice",
+					assigneeLogin: null,
+					labels: ["bug"],
+				}),
+			);
+			const { viewId } = assertSuccess(created) as { viewId: string };
+
+			const tick = Effect.promise(
+				() => new Promise((resolve) => setTimeout(resolve, 5)),
+			);
+			yield* tick;
+			const updatedAt = Date.now();
+			yield* seedFilterableIssues(t, repositoryId, [
+				{
+					number: 1,
+					authorUserId: 2001,
+					labelNames: ["bug"],
+					githubUpdatedAt: updatedAt - 3_600_000,
+				},
+				{
+					number: 2,
+					authorUserId: 2001,
+					labelNames: ["bug"],
+					githubUpdatedAt: updatedAt,
+				},
+				{
+					number: 3,
+					authorUserId: 2002,
+					labelNames: ["bug"],
+					githubUpdatedAt: updatedAt,
+				},
+			]);
+
+			const listViews = () =>
+				Effect.promise(() =>
+					client.query(api.rpc.savedViews.listSavedViews, {}),
+				).pipe(
+					Effect.map(
+						(result) =>
+							assertSuccess(result) as Array<{
+								viewId: string;
+								title: string;
+								ownerLogin: string;
+								repoName: string;
+								pinned: boolean;
+								unreadCount: number;
+							}>,
+					),
+				);
+
+			const before = yield* listViews();
+			expect(before).toHaveLength(1);
+			expect(before[0]).toMatchObject({
+				viewId,
+				title: "Alice's bugs",
+				ownerLogin: "testowner",
+				repoName: "testrepo",
+				pinned: true,
+				unreadCount: 1,
+			});
+
+			// Opening the view moves lastViewedAt past everything seen so far
+			yield* tick;
+			assertSuccess(
+				yield* Effect.promise(() =>
+					client.mutation(api.rpc.savedViews.markSavedViewViewed, {
+						viewId,
+					}),
+				),
+			);
+
+			const after = yield* listViews();
+			expect(after[0]?.unreadCount).toBe(0);
+		}),
+	);
+
+	it.effect("saved views are private to the user who created them", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const client = authClient(t);
+			const otherClient = t.withIdentity({ subject: "other-user" });
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const created = yield* Effect.promise(() =>
+				client.mutation(api.rpc.savedViews.createSavedView, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+					title: "",
+					target: "pr",
+					query: "prs merged",
+					state: "merged",
+					authorLogin: null,
+					assigneeLogin: null,
+					labels: [],
+					pinned: false,
+				}),
+			);
+			const { viewId } = assertSuccess(created) as { viewId: string };
+
+			const otherViews = yield* Effect.promise(() =>
+				otherClient.query(api.rpc.savedViews.listSavedViews, {}),
+			);
+			expect(assertSuccess(otherViews)).toEqual([]);
+
+			const otherDelete = (yield* Effect.promise(() =>
+				otherClient.mutation(api.rpc.savedViews.deleteSavedView, { viewId }),
+			)) as { _tag: string };
+			expect(otherDelete._tag).toBe("Failure");
+
+			// Empty titles fall back to the query text
+			const ownViews = assertSuccess(
+				yield* Effect.promise(() =>
+					client.query(api.rpc.savedViews.listSavedViews, {}),
+				),
+			) as Array<{ title: string; pinned: boolean }>;
+			expect(ownViews).toEqual([
+				expect.objectContaining({ title: "prs merged", pinned: false }),
+			]);
+
+			assertSuccess(
+				yield* Effect.promise(() =>
+					client.mutation(api.rpc.savedViews.deleteSavedView, { viewId }),
+				),
+			);
+			const remaining = yield* collectTable(t, "github_saved_views");
+			expect(remaining).toHaveLength(0);
+		}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Label catalog
+// ---------------------------------------------------------------------------
+
+const makeLabelPayload = (opts: {
+	action: string;
+	labelId: number;
+	name: string;
+	color?: string;
+	description?: string | null;
+	previousName?: string;
+}) =>
+	JSON.stringify({
+		action: opts.action,
+		label: {
+			id: opts.labelId,
+			name: opts.name,
+			color: opts.color ?? "d73a4a",
+			description: opts.description ?? null,
+			default: false,
+		},
+		...(opts.previousName !== undefined
+			? { changes: { name: { from: opts.previousName } } }
+			: {}),
+		sender: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
+	});
+
+describe("Label Catalog", () => {
+	it.effect(
+		"listRepoLabels returns the synced catalog, including unused labels",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+				yield* seedFilterableIssues(t, repositoryId, [
+					{ number: 1, authorUserId: 2001, labelNames: ["bug"] },
+				]);
+
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.bootstrapWrite.upsertLabels, {
+						repositoryId,
+						labels: [
+							{
+								githubLabelId: 801,
+								name: "bug",
+								color: "d73a4a",
+								description: "Something isn't working",
+								isDefault: true,
+							},
+							{
+								githubLabelId: 802,
+								name: "wontfix",
+								color: "ffffff",
+								description: null,
+								isDefault: true,
+							},
+						],
+					}),
+				);
+
+				const result = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listRepoLabels, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+					}),
+				);
+				expect(assertSuccess(result)).toEqual([
+					{
+						name: "bug",
+						color: "d73a4a",
+						description: "Something isn't working",
+					},
+					{ name: "wontfix", color: "ffffff", description: null },
+				]);
+			}),
+	);
+
+	it.effect(
+		"listRepoLabels falls back to labels in use before the catalog syncs",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+				yield* seedFilterableIssues(t, repositoryId, [
+					{ number: 1, authorUserId: 2001, labelNames: ["docs", "bug"] },
+					{ number: 2, authorUserId: 2002, labelNames: ["bug"] },
+				]);
+
+				const result = yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listRepoLabels, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+					}),
+				);
+				expect(assertSuccess(result)).toEqual([
+					{ name: "bug", color: null, description: null },
+					{ name: "docs", color: null, description: null },
+				]);
+			}),
+	);
+
+	it.effect(
+		"label webhooks upsert the catalog and carry renames and deletes to issues",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+				yield* seedFilterableIssues(t, repositoryId, [
+					{ number: 1, authorUserId: 2001, labelNames: ["bug", "ui"] },
+				]);
+
+				const deliveries = [
+					makeLabelPayload({ action: "created", labelId: 803, name: "bug" }),
+					makeLabelPayload({
+						action: "edited",
+						labelId: 803,
+						name: "defect",
+						color: "b60205",
+						previousName: "bug",
+					}),
+				];
+				for (const [index, payloadJson] of deliveries.entries()) {
+					yield* insertRawEvent(
+						t,
+						makeRawEvent({
+							deliveryId: `delivery-label-${index}`,
+							eventName: "label",
+							action: index === 0 ? "created" : "edited",
+							repositoryId,
+							payloadJson,
+						}),
+					);
+					yield* processEvent(t, `delivery-label-${index}`);
+				}
+
+				let labels = yield* collectTable(t, "github_labels");
+				expect(labels).toHaveLength(1);
+				expect(labels[0]).toMatchObject({
+					githubLabelId: 803,
+					name: "defect",
+					color: "b60205",
+				});
+				let issues = yield* collectTable(t, "github_issues");
+				expect(issues[0]?.labelNames).toEqual(["defect", "ui"]);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-label-deleted",
+						eventName: "label",
+						action: "deleted",
+						repositoryId,
+						payloadJson: makeLabelPayload({
+							action: "deleted",
+							labelId: 803,
+							name: "defect",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-label-deleted");
+
+				labels = yield* collectTable(t, "github_labels");
+				expect(labels).toHaveLength(0);
+				issues = yield* collectTable(t, "github_issues");
+				expect(issues[0]?.labelNames).toEqual(["ui"]);
+			}),
+	);
+});
+
+describe("Issue Forms", () => {
+	it("parses a YAML issue form into structured fields", () => {
+		const form = parseIssueForm(
+			[
+				"name: Bug report",
+				"description: File a bug report",
+				'title: "[Bug]: "',
+				"labels: [bug, triage]",
+				"body:",
+				"  - type: markdown",
+				"    attributes:",
+				"      value: |",
+				"        Thanks for taking the time!",
+				"  - type: input",
+				"    id: version",
+				"    attributes:",
+				"      label: Version",
+				"      placeholder: e.g. 1.2.3",
+				"    validations:",
+				"      required: true",
+				"  - type: textarea",
+				"    attributes:",
+				"      label: Logs",
+				"      render: shell",
+				"  - type: dropdown",
+				"    attributes:",
+				"      label: Browsers",
+				"      multiple: true",
+				"      options:",
+				"        - Firefox",
+				"        - Chrome # the popular one",
+				"      default: 1",
+				"  - type: checkboxes",
+				"    attributes:",
+				"      label: Code of Conduct",
+				"      options:",
+				"      - label: I agree",
+				"        required: true",
+				"      - label: I searched",
+			].join("\n"),
+		);
+
+		expect(form?.name).toBe("Bug report");
+		expect(form?.title).toBe("[Bug]: ");
+		expect(form?.labels).toEqual(["bug", "triage"]);
+		expect(form?.body.map((element) => element.type)).toEqual([
+			"markdown",
+			"input",
+			"textarea",
+			"dropdown",
+			"checkboxes",
+		]);
+		expect(form?.body[0]?.value).toBe("Thanks for taking the time!\n");
+		expect(form?.body[1]).toMatchObject({
+			id: "version",
+			label: "Version",
+			placeholder: "e.g. 1.2.3",
+			required: true,
+		});
+		expect(form?.body[2]?.render).toBe("shell");
+		expect(form?.body[3]).toMatchObject({
+			multiple: true,
+			defaultIndex: 1,
+			options: [
+				{ label: "Firefox", required: false },
+				{ label: "Chrome", required: false },
+			],
+		});
+		expect(form?.body[4]?.options).toEqual([
+			{ label: "I agree", required: true },
+			{ label: "I searched", required: false },
+		]);
+	});
+
+	it("parses config.yml, keeping blank issues enabled by default", () => {
+		expect(
+			parseTemplateConfig(
+				[
+					"blank_issues_enabled: false",
+					"contact_links:",
+					"  - name: Community forum",
+					"    url: https://example.com/forum",
+					"    about: Ask questions here",
+				].join("\n"),
+			),
+		).toEqual({
+			blankIssuesEnabled: false,
+			contactLinks: [
+				{
+					name: "Community forum",
+					url: "https://example.com/forum",
+					about: "Ask questions here",
+				},
+			],
+		});
+		expect(parseTemplateConfig("# empty\n")).toEqual({
+			blankIssuesEnabled: true,
+			contactLinks: [],
+		});
+	});
+
+	it.effect("caches form templates alongside the chooser config", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const form = parseIssueForm(
+				[
+					"name: Feature request",
+					"description: Suggest an idea",
+					"body:",
+					"  - type: textarea",
+					"    attributes:",
+					"      label: Proposal",
+				].join("\n"),
+			);
+			const contactLinks = [
+				{ name: "Docs", url: "https://example.com/docs", about: "" },
+			];
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.issueTemplates.upsertTemplateCache, {
+					repositoryId,
+					templates: [
+						{
+							filename: "feature.yml",
+							name: "Feature request",
+							description: "Suggest an idea",
+							title: null,
+							body: "",
+							labels: [],
+							assignees: [],
+							form: form?.body ?? null,
+						},
+					],
+					blankIssuesEnabled: false,
+					contactLinks,
+				}),
+			);
+
+			const templatesResult = yield* Effect.promise(() =>
+				t.query(api.rpc.issueTemplates.getCachedTemplates, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+				}),
+			);
+			expect(assertSuccess(templatesResult)).toMatchObject([
+				{
+					filename: "feature.yml",
+					form: [{ type: "textarea", label: "Proposal", required: false }],
+				},
+			]);
+
+			const configResult = yield* Effect.promise(() =>
+				t.query(api.rpc.issueTemplates.getTemplateConfig, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+				}),
+			);
+			expect(assertSuccess(configResult)).toEqual({
+				blankIssuesEnabled: false,
+				contactLinks,
+			});
+		}),
+	);
+});
+
+describe("Notification Polling", () => {
+	type PollState = {
+		userId: string;
+		lastModified: string | null;
+		pollIntervalSeconds: number;
+		nextPollAt: number;
+		lastPolledAt: number | null;
+		lastActiveAt: number;
+		consecutiveFailures: number;
+	};
+
+	const recordPoll = (
+		t: ReturnType<typeof createConvexTest>,
+		args: {
+			outcome: "modified" | "not_modified" | "failed" | "disconnected";
+			lastModified?: string | null;
+			pollIntervalSeconds?: number;
+			active?: boolean;
+		},
+	) =>
+		Effect.promise(() =>
+			t.mutation(internal.rpc.notifications.recordNotificationPoll, {
+				userId: TEST_USER_ID,
+				outcome: args.outcome,
+				lastModified: args.lastModified ?? "Tue, 01 Sep 2026 10:00:00 GMT",
+				pollIntervalSeconds: args.pollIntervalSeconds ?? 60,
+				active: args.active ?? false,
+			}),
+		);
+
+	it.effect("schedules the next poll from X-Poll-Interval", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+
+			yield* recordPoll(t, {
+				outcome: "modified",
+				pollIntervalSeconds: 120,
+				active: true,
+			});
+
+			const [state] = yield* collectTable<PollState>(
+				t,
+				"github_notification_poll_state",
+			);
+			expect(state?.lastModified).toBe("Tue, 01 Sep 2026 10:00:00 GMT");
+			expect(state?.consecutiveFailures).toBe(0);
+			expect((state?.nextPollAt ?? 0) - (state?.lastPolledAt ?? 0)).toBe(
+				120_000,
+			);
+
+			const notDue = yield* Effect.promise(() =>
+				t.query(internal.rpc.notifications.listDueNotificationPolls, {
+					now: Date.now(),
+					limit: 10,
+				}),
+			);
+			expect(assertSuccess(notDue)).toEqual([]);
+
+			const due = yield* Effect.promise(() =>
+				t.query(internal.rpc.notifications.listDueNotificationPolls, {
+					now: Date.now() + 121_000,
+					limit: 10,
+				}),
+			);
+			expect(assertSuccess(due)).toEqual([
+				{
+					userId: TEST_USER_ID,
+					lastModified: "Tue, 01 Sep 2026 10:00:00 GMT",
+				},
+			]);
+		}),
+	);
+
+	it.effect(
+		"backs off exponentially after failures and resets on success",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+
+				yield* recordPoll(t, { outcome: "modified", active: true });
+				yield* recordPoll(t, { outcome: "failed" });
+				yield* recordPoll(t, { outcome: "failed" });
+
+				let [state] = yield* collectTable<PollState>(
+					t,
+					"github_notification_poll_state",
+				);
+				expect(state?.consecutiveFailures).toBe(2);
+				expect((state?.nextPollAt ?? 0) - (state?.lastPolledAt ?? 0)).toBe(
+					240_000,
+				);
+
+				yield* recordPoll(t, { outcome: "not_modified" });
+				[state] = yield* collectTable<PollState>(
+					t,
+					"github_notification_poll_state",
+				);
+				expect(state?.consecutiveFailures).toBe(0);
+				expect((state?.nextPollAt ?? 0) - (state?.lastPolledAt ?? 0)).toBe(
+					60_000,
+				);
+			}),
+	);
+
+	it.effect("slows down for idle users and drops dormant ones", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+
+			yield* recordPoll(t, { outcome: "modified", active: true });
+			const setLastActiveAt = (lastActiveAt: number) =>
+				Effect.promise(() =>
+					t.run(async (ctx) => {
+						const state = await ctx.db
+							.query("github_notification_poll_state")
+							.first();
+						if (state !== null) {
+							await ctx.db.patch(state._id, { lastActiveAt });
+						}
+					}),
+				);
+
+			yield* setLastActiveAt(Date.now() - 60 * 60 * 1000);
+			yield* recordPoll(t, { outcome: "not_modified" });
+			const [idle] = yield* collectTable<PollState>(
+				t,
+				"github_notification_poll_state",
+			);
+			expect((idle?.nextPollAt ?? 0) - (idle?.lastPolledAt ?? 0)).toBe(
+				15 * 60 * 1000,
+			);
+
+			yield* setLastActiveAt(Date.now() - 8 * 24 * 60 * 60 * 1000);
+			const result = yield* recordPoll(t, { outcome: "not_modified" });
+			expect(assertSuccess(result)).toEqual({ nextPollAt: null });
+			expect(
+				yield* collectTable(t, "github_notification_poll_state"),
+			).toHaveLength(0);
+		}),
+	);
+	it.effect(
+		"keeps polling with backoff when the token lookup itself breaks",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+
+				yield* recordPoll(t, { outcome: "modified", active: true });
+				yield* Effect.promise(() =>
+					t.run(async (ctx) => {
+						const state = await ctx.db
+							.query("github_notification_poll_state")
+							.first();
+						if (state !== null) {
+							await ctx.db.patch(state._id, { nextPollAt: 0 });
+						}
+					}),
+				);
+
+				// The auth component is not registered here, so the account
+				// lookup dies rather than reporting a missing token
+				const result = yield* Effect.promise(() =>
+					t.action(internal.rpc.notifications.pollDueNotifications, {}),
+				);
+				expect(assertSuccess(result)).toEqual({
+					polledUsers: 1,
+					modifiedUsers: 0,
+				});
+
+				const [state] = yield* collectTable<PollState>(
+					t,
+					"github_notification_poll_state",
+				);
+				expect(state?.consecutiveFailures).toBe(1);
+				expect(state?.lastModified).toBe("Tue, 01 Sep 2026 10:00:00 GMT");
+			}),
+	);
+
+	it.effect("opening the inbox registers the user and wakes an idle poll", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const client = authClient(t);
+			const openInbox = Effect.promise(() =>
+				client.mutation(api.rpc.notifications.markInboxOpened, {}),
+			);
+
+			const before = Date.now();
+			const opened = assertSuccess(yield* openInbox);
+			const [registered] = yield* collectTable<PollState>(
+				t,
+				"github_notification_poll_state",
+			);
+			expect(registered).toMatchObject({
+				userId: TEST_USER_ID,
+				lastModified: null,
+				lastPolledAt: null,
+				consecutiveFailures: 0,
+			});
+			expect(registered?.nextPollAt).toBe(opened.nextPollAt);
+			expect(registered?.nextPollAt).toBeGreaterThanOrEqual(before);
+
+			// An idle user polled every 15 minutes goes back to X-Poll-Interval
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					const state = await ctx.db
+						.query("github_notification_poll_state")
+						.first();
+					if (state !== null) {
+						await ctx.db.patch(state._id, {
+							lastActiveAt: 0,
+							nextPollAt: Date.now() + 15 * 60 * 1000,
+						});
+					}
+				}),
+			);
+			yield* openInbox;
+			const [woken] = yield* collectTable<PollState>(
+				t,
+				"github_notification_poll_state",
+			);
+			expect(woken?.lastActiveAt).toBeGreaterThanOrEqual(before);
+			expect(woken?.nextPollAt).toBeLessThanOrEqual(Date.now() + 60_000);
+		}),
+	);
+});
+
+describe("Notification Triage", () => {
+	type ListedNotification = {
+		githubNotificationId: string;
+		repositoryFullName: string;
+		unread: boolean;
+		savedAt: number | null;
+		subscription: "muted" | "unsubscribed" | null;
+	};
+
+	const makeNotification = (
+		githubNotificationId: string,
+		repositoryFullName = "testowner/testrepo",
+		updatedAt = 1_000,
+	) => ({
+		githubNotificationId,
+		repositoryFullName,
+		repositoryId: null,
+		subjectTitle: `Thread ${githubNotificationId}`,
+		subjectType: "Issue" as const,
+		subjectUrl: null,
+		reason: "mention" as const,
+		unread: true,
+		updatedAt,
+		lastReadAt: null,
+		entityNumber: null,
+	});
+
+	const seedNotifications = (
+		t: ReturnType<typeof createConvexTest>,
+		notifications: Array<ReturnType<typeof makeNotification>>,
+	) =>
+		Effect.promise(() =>
+			t.mutation(internal.rpc.notifications.upsertNotifications, {
+				userId: TEST_USER_ID,
+				notifications,
+			}),
+		);
+
+	const listInbox = (client: ReturnType<typeof authClient>) =>
+		Effect.promise(() =>
+			client.query(api.rpc.notifications.listNotifications, {}),
+		).pipe(
+			Effect.map(
+				(result) => assertSuccess(result) as Array<ListedNotification>,
+			),
+		);
+
+	it.effect("done, mute and save update the inbox optimistically", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const client = authClient(t);
+			yield* seedNotifications(t, [
+				makeNotification("1"),
+				makeNotification("2"),
+				makeNotification("3"),
+			]);
+
+			const triage = (
+				githubNotificationIds: Array<string>,
+				action: "done" | "mute" | "save" | "unsave",
+			) =>
+				Effect.promise(() =>
+					client.mutation(api.rpc.notifications.triageNotifications, {
+						githubNotificationIds,
+						action,
+					}),
+				);
+
+			expect(assertSuccess(yield* triage(["1", "missing"], "done"))).toEqual({
+				updatedCount: 1,
+			});
+			yield* triage(["2"], "mute");
+			yield* triage(["3"], "save");
+
+			const inbox = yield* listInbox(client);
+			const byId = new Map(inbox.map((n) => [n.githubNotificationId, n]));
+			expect(byId.has("1")).toBe(false);
+			expect(byId.get("2")).toMatchObject({
+				unread: false,
+				subscription: "muted",
+			});
+			expect(byId.get("3")?.savedAt).toEqual(expect.any(Number));
+			expect(byId.get("3")?.unread).toBe(true);
+
+			yield* triage(["3"], "unsave");
+			const [saved] = (yield* listInbox(client)).filter(
+				(n) => n.githubNotificationId === "3",
+			);
+			expect(saved?.savedAt).toBeNull();
+		}),
+	);
+
+	it.effect("a poll does not revert a read that hasn't reached GitHub", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const client = authClient(t);
+			yield* seedNotifications(t, [
+				makeNotification("1"),
+				makeNotification("2"),
+			]);
+			const unreadIds = Effect.map(listInbox(client), (inbox) =>
+				inbox.filter((n) => n.unread).map((n) => n.githubNotificationId),
+			);
+
+			yield* Effect.promise(() =>
+				client.mutation(api.rpc.notifications.markNotificationRead, {
+					githubNotificationId: "1",
+				}),
+			);
+			yield* seedNotifications(t, [
+				makeNotification("1"),
+				makeNotification("2"),
+			]);
+			expect(yield* unreadIds).toEqual(["2"]);
+
+			// New activity after the read still resurfaces the thread
+			yield* seedNotifications(t, [
+				makeNotification("1", "testowner/testrepo", Date.now() + 60_000),
+				makeNotification("2"),
+			]);
+			expect((yield* unreadIds).sort()).toEqual(["1", "2"]);
+
+			// Once the push settles, GitHub's state is authoritative again
+			yield* Effect.promise(() =>
+				client.mutation(api.rpc.notifications.markAllNotificationsRead, {}),
+			);
+			const cleared = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.notifications.clearPendingNotificationReads, {
+					userId: TEST_USER_ID,
+					githubNotificationIds: ["2"],
+				}),
+			);
+			expect(assertSuccess(cleared)).toEqual({ clearedCount: 1 });
+			yield* seedNotifications(t, [
+				makeNotification("1"),
+				makeNotification("2"),
+			]);
+			expect(yield* unreadIds).toEqual(["2"]);
+		}),
+	);
+
+	it.effect("markAllNotificationsRead can be scoped to one repository", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const client = authClient(t);
+			yield* seedNotifications(t, [
+				makeNotification("1", "testowner/testrepo"),
+				makeNotification("2", "testowner/testrepo"),
+				makeNotification("3", "other/repo"),
+			]);
+
+			const scoped = yield* Effect.promise(() =>
+				client.mutation(api.rpc.notifications.markAllNotificationsRead, {
+					repositoryFullName: "testowner/testrepo",
+				}),
+			);
+			expect(assertSuccess(scoped)).toEqual({ updatedCount: 2 });
+			expect(
+				(yield* listInbox(client))
+					.filter((n) => n.unread)
+					.map((n) => n.githubNotificationId),
+			).toEqual(["3"]);
+
+			const all = yield* Effect.promise(() =>
+				client.mutation(api.rpc.notifications.markAllNotificationsRead, {}),
+			);
+			expect(assertSuccess(all)).toEqual({ updatedCount: 1 });
+		}),
+	);
+
+	it.effect("saved notifications stay listed outside the recent window", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const client = authClient(t);
+			yield* seedNotifications(t, [
+				makeNotification("old", "testowner/testrepo", 1),
+				...Array.from({ length: 50 }, (_, i) =>
+					makeNotification(`recent-${i}`, "testowner/testrepo", 1_000 + i),
+				),
+			]);
+
+			yield* Effect.promise(() =>
+				client.mutation(api.rpc.notifications.triageNotifications, {
+					githubNotificationIds: ["old"],
+					action: "save",
+				}),
+			);
+
+			const inbox = yield* listInbox(client);
+			expect(inbox).toHaveLength(51);
+			expect(inbox.at(-1)?.githubNotificationId).toBe("old");
+		}),
+	);
+});
+
+const makeRepositoryPayload = (opts: {
+	action: string;
+	repositoryId: number;
+	ownerLogin: string;
+	name: string;
+	private?: boolean;
+	archived?: boolean;
+	previousName?: string;
+}) =>
+	JSON.stringify({
+		action: opts.action,
+		repository: {
+			id: opts.repositoryId,
+			name: opts.name,
+			full_name: `${opts.ownerLogin}/${opts.name}`,
+			owner: { id: 100, login: opts.ownerLogin, type: "Organization" },
+			private: opts.private ?? false,
+			visibility: opts.private ? "private" : "public",
+			archived: opts.archived ?? false,
+			disabled: false,
+			default_branch: "main",
+			updated_at: "2026-01-15T00:00:00Z",
+		},
+		...(opts.previousName !== undefined
+			? { changes: { repository: { name: { from: opts.previousName } } } }
+			: {}),
+		sender: { id: 1001, login: "testuser", avatar_url: null, type: "User" },
+	});
+
+describe("Repository Lifecycle Webhooks", () => {
+	const processRepositoryEvent = (
+		t: ReturnType<typeof createConvexTest>,
+		deliveryId: string,
+		payload: Parameters<typeof makeRepositoryPayload>[0],
+	) =>
+		Effect.gen(function* () {
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId,
+					eventName: "repository",
+					action: payload.action,
+					repositoryId: payload.repositoryId,
+					payloadJson: makeRepositoryPayload(payload),
+				}),
+			);
+			yield* processEvent(t, deliveryId);
+		});
+
+	const resolveRedirect = (
+		t: ReturnType<typeof createConvexTest>,
+		ownerLogin: string,
+		name: string,
+	) =>
+		Effect.promise(() =>
+			authClient(t).query(api.rpc.projectionQueries.resolveRepoRedirect, {
+				ownerLogin,
+				name,
+			}),
+		).pipe(Effect.map(assertSuccess));
+
+	it.effect("renames and transfers move the repo and redirect old names", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* processRepositoryEvent(t, "delivery-repo-renamed", {
+				action: "renamed",
+				repositoryId,
+				ownerLogin: "testowner",
+				name: "renamed",
+				previousName: "testrepo",
+			});
+			yield* processRepositoryEvent(t, "delivery-repo-transferred", {
+				action: "transferred",
+				repositoryId,
+				ownerLogin: "neworg",
+				name: "renamed",
+			});
+
+			const repos = yield* collectTable(t, "github_repositories");
+			expect(repos).toHaveLength(1);
+			expect(repos[0]).toMatchObject({
+				ownerLogin: "neworg",
+				name: "renamed",
+				fullName: "neworg/renamed",
+			});
+
+			const current = { ownerLogin: "neworg", name: "renamed" };
+			expect(yield* resolveRedirect(t, "testowner", "testrepo")).toEqual(
+				current,
+			);
+			expect(yield* resolveRedirect(t, "testowner", "renamed")).toEqual(
+				current,
+			);
+			expect(yield* resolveRedirect(t, "neworg", "renamed")).toBeNull();
+
+			// Renaming back drops the redirect that would now shadow the repo
+			yield* processRepositoryEvent(t, "delivery-repo-renamed-back", {
+				action: "renamed",
+				repositoryId,
+				ownerLogin: "neworg",
+				name: "testrepo",
+				previousName: "renamed",
+			});
+			const redirects = yield* collectTable(t, "github_repository_redirects");
+			expect(
+				redirects.map((redirect) => [
+					redirect.fromOwnerLogin,
+					redirect.fromName,
+				]),
+			).toEqual(
+				expect.arrayContaining([
+					["testowner", "testrepo"],
+					["testowner", "renamed"],
+					["neworg", "renamed"],
+				]),
+			);
+			expect(redirects).toHaveLength(3);
+		}),
+	);
+
+	it.effect("archive and visibility changes refresh the repo flags", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* processRepositoryEvent(t, "delivery-repo-archived", {
+				action: "archived",
+				repositoryId,
+				ownerLogin: "testowner",
+				name: "testrepo",
+				archived: true,
+			});
+			yield* processRepositoryEvent(t, "delivery-repo-privatized", {
+				action: "privatized",
+				repositoryId,
+				ownerLogin: "testowner",
+				name: "testrepo",
+				archived: true,
+				private: true,
+			});
+
+			const repos = yield* collectTable(t, "github_repositories");
+			expect(repos[0]).toMatchObject({
+				archived: true,
+				private: true,
+				visibility: "private",
+			});
+			const redirects = yield* collectTable(t, "github_repository_redirects");
+			expect(redirects).toHaveLength(0);
+		}),
+	);
+
+	it.effect("deletes remove the repo and purge its mirrored rows", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+			yield* seedRepository(t, 67890, "testowner", "otherrepo");
+			yield* seedFilterableIssues(t, repositoryId, [
+				{ number: 1, authorUserId: 2001, labelNames: ["bug"] },
+				{ number: 2, authorUserId: 2002, labelNames: [] },
+			]);
+			yield* seedFilterableIssues(t, 67890, [
+				{ number: 1, authorUserId: 2001, labelNames: [] },
+			]);
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					const integrationId = await ctx.db.insert(
+						"github_outbound_integrations",
+						{
+							repositoryId,
+							kind: "webhook",
+							title: "Deploy hook",
+							url: "https://hooks.example.com/deploy",
+							secret: null,
+							eventTypes: [],
+							enabled: true,
+							createdByUserId: TEST_USER_ID,
+							createdAt: Date.now(),
+							updatedAt: Date.now(),
+						},
+					);
+					await ctx.db.insert("github_outbound_deliveries", {
+						integrationId,
+						repositoryId,
+						activityType: "pr.opened",
+						payloadJson: "{}",
+						deliveryState: "pending",
+						attempts: 0,
+						nextRetryAt: null,
+						lastError: null,
+						responseStatus: null,
+						createdAt: Date.now(),
+						deliveredAt: null,
+					});
+					await ctx.db.insert("github_timeline_events", {
+						repositoryId,
+						issueNumber: 1,
+						eventKey: "labeled:1",
+						eventType: "labeled",
+						actorUserId: 2001,
+						labelName: "bug",
+						labelColor: null,
+						subjectUserId: null,
+						milestoneTitle: null,
+						renameFrom: null,
+						renameTo: null,
+						commitSha: null,
+						beforeSha: null,
+						createdAt: Date.now(),
+					});
+					await ctx.db.insert("github_issue_references", {
+						repositoryId,
+						sourceKey: "issue:2",
+						sourceType: "issue",
+						sourceNumber: 2,
+						commitSha: null,
+						targetNumber: 1,
+						isClosing: false,
+						createdAt: Date.now(),
+					});
+					await ctx.db.insert("github_saved_views", {
+						userId: TEST_USER_ID,
+						repositoryId,
+						title: "Bugs",
+						target: "issue",
+						query: "label bug",
+						state: null,
+						authorLogin: null,
+						assigneeLogin: null,
+						labels: ["bug"],
+						pinned: false,
+						lastViewedAt: Date.now(),
+						createdAt: Date.now(),
+						updatedAt: Date.now(),
+					});
+					await ctx.db.insert("github_file_read_state", {
+						userId: TEST_USER_ID,
+						repositoryId,
+						treeSha: "tree-sha",
+						path: "README.md",
+						fileSha: "file-sha",
+						readAt: Date.now(),
+					});
+				}),
+			);
+
+			yield* processRepositoryEvent(t, "delivery-repo-deleted", {
+				action: "deleted",
+				repositoryId,
+				ownerLogin: "testowner",
+				name: "testrepo",
+			});
+			const result = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.webhookProcessor.purgeRepositoryData, {
+					repositoryId,
+				}),
+			);
+			expect(assertSuccess(result)).toMatchObject({ done: true });
+
+			const repos = yield* collectTable(t, "github_repositories");
+			expect(repos.map((repo) => repo.githubRepoId)).toEqual([67890]);
+			const permissions = yield* collectTable(
+				t,
+				"github_user_repo_permissions",
+			);
+			expect(permissions.map((p) => p.repositoryId)).toEqual([67890]);
+			const issues = yield* collectTable(t, "github_issues");
+			expect(issues.map((issue) => issue.repositoryId)).toEqual([67890]);
+			expect(
+				yield* collectTable(t, "github_outbound_integrations"),
+			).toHaveLength(0);
+			expect(yield* collectTable(t, "github_outbound_deliveries")).toHaveLength(
+				0,
+			);
+			expect(yield* collectTable(t, "github_timeline_events")).toHaveLength(0);
+			expect(yield* collectTable(t, "github_issue_references")).toHaveLength(0);
+			expect(yield* collectTable(t, "github_saved_views")).toHaveLength(0);
+			expect(yield* collectTable(t, "github_file_read_state")).toHaveLength(0);
+		}),
+	);
+});
+
+describe("GitHub HTTP Cache", () => {
+	const CACHE_KEY =
+		"installation:42|application/vnd.github+json|https://api.github.com/repos/testowner/testrepo/pulls?page=1";
+
+	const storeResponse = (
+		t: ReturnType<typeof createConvexTest>,
+		etag: string,
+		body: string,
+	) =>
+		Effect.promise(() =>
+			t.mutation(internal.rpc.githubHttpCache.storeCachedResponse, {
+				cacheKey: CACHE_KEY,
+				url: "https://api.github.com/repos/testowner/testrepo/pulls?page=1",
+				response: {
+					body,
+					contentType: "application/json; charset=utf-8",
+					etag,
+					lastModified: null,
+				},
+			}),
+		).pipe(Effect.map(assertSuccess));
+
+	it.effect("stores responses and replaces them when the ETag changes", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+
+			const first = yield* storeResponse(t, 'W/"abc"', "[]");
+			expect(first).toEqual({ created: true });
+			const second = yield* storeResponse(t, 'W/"def"', '[{"id":1}]');
+			expect(second).toEqual({ created: false });
+
+			const cached = yield* Effect.promise(() =>
+				t.query(internal.rpc.githubHttpCache.getCachedResponse, {
+					cacheKey: CACHE_KEY,
+				}),
+			);
+			expect(assertSuccess(cached)).toEqual({
+				body: '[{"id":1}]',
+				contentType: "application/json; charset=utf-8",
+				etag: 'W/"def"',
+				lastModified: null,
+			});
+
+			const missing = yield* Effect.promise(() =>
+				t.query(internal.rpc.githubHttpCache.getCachedResponse, {
+					cacheKey: "installation:42|other",
+				}),
+			);
+			expect(assertSuccess(missing)).toBeNull();
+		}),
+	);
+
+	it.effect("reports hit rate from recorded 304s", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+
+			yield* storeResponse(t, 'W/"abc"', "[]");
+			for (let i = 0; i < 3; i++) {
+				const hit = yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubHttpCache.recordCacheHit, {
+						cacheKey: CACHE_KEY,
+					}),
+				);
+				expect(assertSuccess(hit)).toEqual({ recorded: true });
+			}
+
+			const unknownHit = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubHttpCache.recordCacheHit, {
+					cacheKey: "installation:42|other",
+				}),
+			);
+			expect(assertSuccess(unknownHit)).toEqual({ recorded: false });
+
+			const stats = yield* Effect.promise(() =>
+				t.query(internal.rpc.githubHttpCache.getCacheStats, {}),
+			);
+			expect(assertSuccess(stats)).toEqual({
+				entries: 1,
+				hits: 3,
+				misses: 1,
+				hitRate: 0.75,
+			});
+		}),
+	);
+
+	it.effect("prunes entries that have not been used for a week", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+
+			yield* storeResponse(t, 'W/"abc"', "[]");
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					const now = Date.now();
+					await ctx.db.insert("github_http_cache", {
+						cacheKey:
+							"user:stale|application/vnd.github+json|https://api.github.com/user/repos",
+						url: "https://api.github.com/user/repos",
+						body: "[]",
+						contentType: "application/json",
+						etag: 'W/"old"',
+						lastModified: null,
+						hitCount: 5,
+						missCount: 1,
+						cachedAt: now - 30 * 24 * 60 * 60 * 1000,
+						lastUsedAt: now - 8 * 24 * 60 * 60 * 1000,
+					});
+					await ctx.db.insert("github_http_cache_stats", {
+						identity: "user:stale",
+						entries: 1,
+						hits: 5,
+						misses: 1,
+						updatedAt: now - 8 * 24 * 60 * 60 * 1000,
+					});
+				}),
+			);
+
+			const result = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubHttpCache.pruneHttpCache, {}),
+			);
+			expect(assertSuccess(result)).toEqual({ deleted: 1 });
+
+			const remaining = yield* collectTable<{ cacheKey: string }>(
+				t,
+				"github_http_cache",
+			);
+			expect(remaining.map((entry) => entry.cacheKey)).toEqual([CACHE_KEY]);
+
+			const stats = yield* Effect.promise(() =>
+				t.query(internal.rpc.githubHttpCache.getCacheStats, {}),
+			);
+			// Totals outlive pruning; only the entry count drops
+			expect(assertSuccess(stats)).toEqual({
+				entries: 1,
+				hits: 5,
+				misses: 2,
+				hitRate: 5 / 7,
+			});
+		}),
+	);
+});
+
+describe("GitHub Rate Limits", () => {
+	const recordSnapshot = (
+		t: ReturnType<typeof createConvexTest>,
+		identity: string,
+		snapshot: { remaining: number; resetAt: number; limit?: number },
+	) =>
+		Effect.promise(() =>
+			t.mutation(internal.rpc.githubRateLimits.recordRateLimit, {
+				identity,
+				snapshot: {
+					resource: "core",
+					limit: snapshot.limit ?? 5000,
+					remaining: snapshot.remaining,
+					used: (snapshot.limit ?? 5000) - snapshot.remaining,
+					resetAt: snapshot.resetAt,
+				},
+			}),
+		).pipe(Effect.map(assertSuccess));
+
+	it.effect("keeps the lowest remaining budget per window", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const resetAt = Date.now() + 30 * 60 * 1000;
+
+			expect(
+				yield* recordSnapshot(t, "installation:42", {
+					remaining: 4000,
+					resetAt,
+				}),
+			).toEqual({ recorded: true });
+			expect(
+				yield* recordSnapshot(t, "installation:42", {
+					remaining: 3900,
+					resetAt,
+				}),
+			).toEqual({ recorded: true });
+			// A slower action reporting an older response in the same window
+			expect(
+				yield* recordSnapshot(t, "installation:42", {
+					remaining: 3950,
+					resetAt,
+				}),
+			).toEqual({ recorded: false });
+			expect(
+				yield* recordSnapshot(t, "installation:42", {
+					remaining: 10,
+					resetAt: resetAt - 60 * 60 * 1000,
+				}),
+			).toEqual({ recorded: false });
+
+			const [entry] = yield* collectTable<{
+				identity: string;
+				remaining: number;
+				resetAt: number;
+			}>(t, "github_rate_limits");
+			expect(entry).toMatchObject({
+				identity: "installation:42",
+				remaining: 3900,
+				resetAt,
+			});
+
+			expect(
+				yield* recordSnapshot(t, "installation:42", {
+					remaining: 4999,
+					resetAt: resetAt + 60 * 60 * 1000,
+				}),
+			).toEqual({ recorded: true });
+		}),
+	);
+
+	it.effect("defers background work inside the interactive reserve", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const resetAt = Date.now() + 10 * 60 * 1000;
+			const deferral = (priority: "interactive" | "background") =>
+				Effect.promise(() =>
+					t.query(internal.rpc.githubRateLimits.getRateLimitDeferral, {
+						identity: "user:test-user",
+						priority,
+					}),
+				).pipe(Effect.map(assertSuccess));
+
+			expect(yield* deferral("background")).toEqual({
+				deferMs: 0,
+				remaining: null,
+			});
+
+			yield* recordSnapshot(t, "user:test-user", { remaining: 800, resetAt });
+			const background = yield* deferral("background");
+			expect(background).toMatchObject({ remaining: 800 });
+			expect((background as { deferMs: number }).deferMs).toBeGreaterThan(
+				9 * 60 * 1000,
+			);
+			expect(yield* deferral("interactive")).toEqual({
+				deferMs: 0,
+				remaining: 800,
+			});
+
+			yield* recordSnapshot(t, "user:test-user", { remaining: 0, resetAt });
+			const interactive = yield* deferral("interactive");
+			expect((interactive as { deferMs: number }).deferMs).toBeGreaterThan(0);
+		}),
+	);
+
+	it.effect("holds bootstrap chunks until the installation budget resets", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+
+			const unknown = yield* Effect.promise(() =>
+				t.query(internal.rpc.bootstrapWorkflow.getChunkDeferral, {
+					installationId: 42,
+				}),
+			);
+			expect(unknown).toBe(0);
+
+			yield* recordSnapshot(t, "installation:42", {
+				remaining: 50,
+				resetAt: Date.now() + 5 * 60 * 1000,
+			});
+			const low = yield* Effect.promise(() =>
+				t.query(internal.rpc.bootstrapWorkflow.getChunkDeferral, {
+					installationId: 42,
+				}),
+			);
+			expect(low).toBeGreaterThan(4 * 60 * 1000);
+
+			yield* recordSnapshot(t, "installation:7", {
+				remaining: 50,
+				resetAt: Date.now() - 1000,
+			});
+			const expired = yield* Effect.promise(() =>
+				t.query(internal.rpc.bootstrapWorkflow.getChunkDeferral, {
+					installationId: 7,
+				}),
+			);
+			expect(expired).toBe(0);
+		}),
+	);
+});
+
+describe("GraphQL Bootstrap", () => {
+	it.effect("upsertPullRequestReviews updates reviews by GitHub id", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			const review = {
+				pullRequestNumber: 7,
+				githubReviewId: 9001,
+				authorUserId: 1001,
+				state: "COMMENTED",
+				submittedAt: Date.now(),
+				commitSha: "abc123",
+			};
+
+			const first = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.bootstrapWrite.upsertPullRequestReviews, {
+					repositoryId,
+					reviews: [review],
+				}),
+			);
+			expect(assertSuccess(first)).toEqual({ upserted: 1 });
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.bootstrapWrite.upsertPullRequestReviews, {
+					repositoryId,
+					reviews: [{ ...review, state: "APPROVED" }],
+				}),
+			);
+
+			const reviews = yield* collectTable<{
+				githubReviewId: number;
+				state: string;
+			}>(t, "github_pull_request_reviews");
+			expect(reviews).toHaveLength(1);
+			expect(reviews[0]).toMatchObject({
+				githubReviewId: 9001,
+				state: "APPROVED",
+			});
+		}),
+	);
+
+	it.effect("upsertIssues and upsertPullRequests mirror the lock state", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.bootstrapWrite.upsertIssues, {
+					repositoryId,
+					issues: [
+						{
+							githubIssueId: 5001,
+							number: 1,
+							state: "open",
+							locked: true,
+							title: "Heated thread",
+							body: null,
+							authorUserId: 1001,
+							assigneeUserIds: [],
+							labelNames: [],
+							commentCount: 0,
+							isPullRequest: false,
+							milestoneNumber: null,
+							closedAt: null,
+							githubUpdatedAt: Date.now(),
+						},
+					],
+				}),
+			);
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.bootstrapWrite.upsertPullRequests, {
+					repositoryId,
+					pullRequests: [
+						{
+							githubPrId: 6002,
+							number: 2,
+							state: "open",
+							draft: false,
+							locked: true,
+							title: "Locked PR",
+							body: null,
+							authorUserId: 1001,
+							assigneeUserIds: [],
+							requestedReviewerUserIds: [],
+							labelNames: [],
+							baseRefName: "main",
+							headRefName: "feature",
+							headSha: "abc123",
+							mergeableState: null,
+							mergedAt: null,
+							closedAt: null,
+							githubUpdatedAt: Date.now(),
+						},
+					],
+				}),
+			);
+
+			const issues = yield* collectTable<{ locked?: boolean }>(
+				t,
+				"github_issues",
+			);
+			expect(issues[0]?.locked).toBe(true);
+			const pullRequests = yield* collectTable<{ locked?: boolean }>(
+				t,
+				"github_pull_requests",
+			);
+			expect(pullRequests[0]?.locked).toBe(true);
+		}),
+	);
+
+	it.effect("updateSyncProgress accumulates request counts", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const lockKey = "repo-bootstrap:0:12345";
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					const now = Date.now();
+					await ctx.db.insert("github_sync_jobs", {
+						jobType: "backfill",
+						scopeType: "repository",
+						triggerReason: "install",
+						lockKey,
+						installationId: 0,
+						repositoryId: 12345,
+						entityType: null,
+						state: "running",
+						attemptCount: 0,
+						nextRunAt: now,
+						lastError: null,
+						currentStep: null,
+						completedSteps: [],
+						itemsFetched: 0,
+						bootstrapStrategy: "graphql",
+						githubRequestCount: 0,
+						restRequestEstimate: 0,
+						createdAt: now,
+						updatedAt: now,
+					});
+				}),
+			);
+
+			const progress = (args: {
+				completedStep: string;
+				requestsInStep?: number;
+				restRequestEstimateInStep?: number;
+			}) =>
+				Effect.promise(() =>
+					t.mutation(internal.rpc.bootstrapWorkflow.updateSyncProgress, {
+						lockKey,
+						currentStep: null,
+						...args,
+					}),
+				);
+
+			yield* progress({
+				completedStep: "Pull requests",
+				requestsInStep: 3,
+				restRequestEstimateInStep: 240,
+			});
+			yield* progress({ completedStep: "Commits", requestsInStep: 2 });
+			yield* progress({ completedStep: "Workflow runs" });
+
+			const jobs = yield* collectTable<{
+				completedSteps: Array<string>;
+				githubRequestCount?: number;
+				restRequestEstimate?: number;
+			}>(t, "github_sync_jobs");
+			expect(jobs[0]).toMatchObject({
+				completedSteps: ["Pull requests", "Commits", "Workflow runs"],
+				githubRequestCount: 5,
+				restRequestEstimate: 240,
+			});
+		}),
+	);
+
+	it.effect("setBootstrapStrategy selects the strategy per repository", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			yield* seedRepository(t, 12345);
+
+			const updated = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.admin.setBootstrapStrategy, {
+					githubRepoId: 12345,
+					strategy: "graphql",
+				}),
+			);
+			expect(assertSuccess(updated)).toBe(true);
+
+			const missing = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.admin.setBootstrapStrategy, {
+					githubRepoId: 99999,
+					strategy: "graphql",
+				}),
+			);
+			expect(assertSuccess(missing)).toBe(false);
+
+			const repos = yield* collectTable<{ bootstrapStrategy?: string }>(
+				t,
+				"github_repositories",
+			);
+			expect(repos[0]?.bootstrapStrategy).toBe("graphql");
+		}),
+	);
+});
+
+describe("Outbound Integrations", () => {
+	type ReceivedRequest = {
+		headers: Record<string, string>;
+		body: string;
+	};
+
+	/**
+	 * Stand-in for an integration endpoint: stubs `fetch` to record requests
+	 * and answer with `status`. DNS-over-HTTPS lookups resolve the endpoint
+	 * host to `address`.
+	 */
+	const startStandIn = (status: number, address = "93.184.216.34") =>
+		Effect.sync(() => {
+			const received: Array<ReceivedRequest> = [];
+			vi.stubGlobal(
+				"fetch",
+				async (input: RequestInfo | URL, init?: RequestInit) => {
+					const url = new URL(String(input));
+					if (url.hostname === "cloudflare-dns.com") {
+						const isA = url.searchParams.get("type") === "A";
+						return Response.json({
+							Answer: isA ? [{ type: 1, data: address }] : [],
+						});
+					}
+					received.push({
+						headers: Object.fromEntries(new Headers(init?.headers)),
+						body: String(init?.body ?? ""),
+					});
+					return new Response(status < 300 ? "ok" : "boom", { status });
+				},
+			);
+			return {
+				url: "https://hooks.example.com/hook",
+				received,
+				close: () => vi.unstubAllGlobals(),
+			};
+		});
+
+	const createIntegration = (
+		t: ReturnType<typeof createConvexTest>,
+		args: {
+			kind: "webhook" | "slack" | "discord";
+			url: string;
+			eventTypes: Array<string>;
+			secret?: string;
+		},
+	) =>
+		Effect.promise(() =>
+			authClient(t).mutation(
+				api.rpc.outboundIntegrations.createOutboundIntegration,
+				{
+					ownerLogin: "testowner",
+					name: "testrepo",
+					title: "",
+					...args,
+				},
+			),
+		).pipe(
+			Effect.map(
+				(result) =>
+					(assertSuccess(result) as { integrationId: string }).integrationId,
+			),
+		);
+
+	const processIssueOpened = (t: ReturnType<typeof createConvexTest>) =>
+		Effect.gen(function* () {
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-outbound-1",
+					eventName: "issues",
+					action: "opened",
+					repositoryId: 12345,
+					payloadJson: makeIssuePayload({
+						action: "opened",
+						issueId: 5001,
+						number: 7,
+						state: "open",
+						title: "Crash on save",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-outbound-1");
+		});
+
+	type Delivery = {
+		integrationId: string;
+		activityType: string;
+		payloadJson: string;
+		deliveryState: string;
+		attempts: number;
+		nextRetryAt: number | null;
+		responseStatus: number | null;
+		lastError: string | null;
+	};
+
+	it.effect("refuses endpoints that are not public https hosts", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			yield* seedRepository(t, 12345);
+
+			for (const url of [
+				"http://example.com/hook",
+				"https://127.0.0.1/hook",
+				"https://169.254.169.254/latest/meta-data",
+				"https://[::1]/hook",
+				"https://localhost/hook",
+				"https://metadata.google.internal/hook",
+			]) {
+				const result = (yield* Effect.promise(() =>
+					authClient(t).mutation(
+						api.rpc.outboundIntegrations.createOutboundIntegration,
+						{
+							ownerLogin: "testowner",
+							name: "testrepo",
+							title: "",
+							kind: "webhook",
+							url,
+							eventTypes: [],
+						},
+					),
+				)) as { _tag: string };
+				expect(result._tag, url).toBe("Failure");
+			}
+			expect(
+				yield* collectTable(t, "github_outbound_integrations"),
+			).toHaveLength(0);
+		}),
+	);
+
+	it.effect("queues activity only for integrations whose filter matches", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			yield* seedRepository(t, 12345);
+			const issuesHook = yield* createIntegration(t, {
+				kind: "webhook",
+				url: "https://example.com/hook",
+				eventTypes: ["issue.*"],
+			});
+			yield* createIntegration(t, {
+				kind: "slack",
+				url: "https://hooks.slack.com/services/T/B/X",
+				eventTypes: ["pr.opened"],
+			});
+
+			yield* processIssueOpened(t);
+
+			const deliveries = yield* collectTable<Delivery>(
+				t,
+				"github_outbound_deliveries",
+			);
+			expect(deliveries).toHaveLength(1);
+			expect(deliveries[0]).toMatchObject({
+				integrationId: issuesHook,
+				activityType: "issue.opened",
+				deliveryState: "pending",
+				attempts: 0,
+			});
+			expect(JSON.parse(deliveries[0]?.payloadJson ?? "{}")).toMatchObject({
+				repositoryFullName: "testowner/testrepo",
+				entityNumber: 7,
+				htmlUrl: "https://github.com/testowner/testrepo/issues/7",
+			});
+		}),
+	);
+
+	it.effect(
+		"signs generic webhook deliveries with the integration secret",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				const standIn = yield* startStandIn(200);
+				yield* createIntegration(t, {
+					kind: "webhook",
+					url: standIn.url,
+					eventTypes: [],
+					secret: "s3cret",
+				});
+				yield* processIssueOpened(t);
+
+				const result = yield* Effect.promise(() =>
+					t.action(internal.rpc.outboundIntegrations.deliverDueOutbound, {}),
+				).pipe(Effect.ensuring(Effect.sync(standIn.close)));
+				expect(assertSuccess(result)).toEqual({ delivered: 1, failed: 0 });
+
+				expect(standIn.received).toHaveLength(1);
+				const [request] = standIn.received;
+				const expectedSignature = `sha256=${createHmac("sha256", "s3cret")
+					.update(request?.body ?? "")
+					.digest("hex")}`;
+				expect(request?.headers["x-fastergh-signature-256"]).toBe(
+					expectedSignature,
+				);
+				expect(request?.headers["x-fastergh-event"]).toBe("issue.opened");
+				expect(JSON.parse(request?.body ?? "{}")).toMatchObject({
+					event: "issue.opened",
+					repository: "testowner/testrepo",
+					number: 7,
+					title: "Crash on save",
+				});
+
+				const [delivery] = yield* collectTable<Delivery>(
+					t,
+					"github_outbound_deliveries",
+				);
+				expect(delivery).toMatchObject({
+					deliveryState: "delivered",
+					attempts: 1,
+					responseStatus: 200,
+				});
+			}),
+	);
+
+	it.effect(
+		"backs off failed deliveries and dead-letters the last attempt",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				const standIn = yield* startStandIn(500);
+				yield* createIntegration(t, {
+					kind: "discord",
+					url: standIn.url,
+					eventTypes: [],
+				});
+				yield* processIssueOpened(t);
+
+				const result = yield* Effect.promise(() =>
+					t.action(internal.rpc.outboundIntegrations.deliverDueOutbound, {}),
+				).pipe(Effect.ensuring(Effect.sync(standIn.close)));
+				expect(assertSuccess(result)).toEqual({ delivered: 0, failed: 1 });
+				expect(JSON.parse(standIn.received[0]?.body ?? "{}")).toEqual({
+					content:
+						"**[testowner/testrepo]** testuser issue.opened: [#7 Crash on save](https://github.com/testowner/testrepo/issues/7)",
+				});
+
+				const [retrying] = yield* collectTable<Delivery & { _id: string }>(
+					t,
+					"github_outbound_deliveries",
+				);
+				expect(retrying).toMatchObject({
+					deliveryState: "retry",
+					attempts: 1,
+					responseStatus: 500,
+					// The endpoint's response body is not kept
+					lastError: "HTTP 500",
+				});
+				expect(retrying?.nextRetryAt ?? 0).toBeGreaterThan(Date.now());
+
+				// Nothing is due again until the backoff elapses
+				const idle = yield* Effect.promise(() =>
+					t.mutation(
+						internal.rpc.outboundIntegrations.claimDueOutboundDeliveries,
+						{ limit: 10 },
+					),
+				);
+				expect(assertSuccess(idle)).toEqual([]);
+
+				for (let attempt = 2; attempt <= 5; attempt++) {
+					yield* Effect.promise(() =>
+						t.mutation(
+							internal.rpc.outboundIntegrations.recordOutboundDeliveryResult,
+							{
+								deliveryId: retrying?._id ?? "",
+								ok: false,
+								responseStatus: 500,
+								error: "HTTP 500",
+							},
+						),
+					);
+				}
+
+				const [failed] = yield* collectTable<Delivery>(
+					t,
+					"github_outbound_deliveries",
+				);
+				expect(failed).toMatchObject({
+					deliveryState: "failed",
+					attempts: 5,
+					nextRetryAt: null,
+				});
+				const deadLetters = yield* collectTable<{
+					source: string;
+					reason: string;
+				}>(t, "github_dead_letters");
+				expect(deadLetters).toHaveLength(1);
+				expect(deadLetters[0]?.source).toBe("outbound");
+				expect(deadLetters[0]?.reason).toContain("Exhausted 5 attempts");
+			}),
+	);
+
+	it.effect("does not send to a host that resolves to a private address", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			yield* seedRepository(t, 12345);
+			const standIn = yield* startStandIn(200, "169.254.169.254");
+			yield* createIntegration(t, {
+				kind: "webhook",
+				url: standIn.url,
+				eventTypes: [],
+			});
+			yield* processIssueOpened(t);
+
+			const result = yield* Effect.promise(() =>
+				t.action(internal.rpc.outboundIntegrations.deliverDueOutbound, {}),
+			).pipe(Effect.ensuring(Effect.sync(standIn.close)));
+			expect(assertSuccess(result)).toEqual({ delivered: 0, failed: 1 });
+			expect(standIn.received).toHaveLength(0);
+
+			const [delivery] = yield* collectTable<Delivery>(
+				t,
+				"github_outbound_deliveries",
+			);
+			expect(delivery).toMatchObject({
+				deliveryState: "retry",
+				lastError: "Endpoint host resolves to a private address",
+			});
+		}),
+	);
+
+	it.effect("leases claimed deliveries until the sender reports back", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			yield* seedRepository(t, 12345);
+			yield* createIntegration(t, {
+				kind: "webhook",
+				url: "https://example.com/hook",
+				eventTypes: [],
+			});
+			yield* processIssueOpened(t);
+
+			const claim = Effect.promise(() =>
+				t.mutation(
+					internal.rpc.outboundIntegrations.claimDueOutboundDeliveries,
+					{ limit: 10 },
+				),
+			).pipe(Effect.map((result) => assertSuccess(result) as Array<unknown>));
+
+			expect(yield* claim).toHaveLength(1);
+			// An overlapping run finds nothing to send
+			expect(yield* claim).toHaveLength(0);
+
+			// A sender that died mid-batch leaves the lease to expire
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					const delivery = await ctx.db
+						.query("github_outbound_deliveries")
+						.first();
+					if (delivery !== null) {
+						await ctx.db.patch(delivery._id, {
+							claimedAt: Date.now() - 10 * 60 * 1000,
+						});
+					}
+				}),
+			);
+			expect(yield* claim).toHaveLength(1);
+		}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Webhook Fixture Replay Tests
+// ---------------------------------------------------------------------------
+
+describe("Webhook Fixture Replay", () => {
+	it.effect(
+		"replays a recorded fixture into the snapshot stored beside it",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const results = yield* Effect.promise(() =>
+					replayWebhookFixture(t, issueLifecycleFixture),
+				);
+				expect(results.map(assertSuccess)).toEqual(
+					issueLifecycleFixture.events.map((event) => ({
+						processed: true,
+						eventName: event.eventName,
+						action: event.action,
+					})),
+				);
+
+				const snapshot = yield* Effect.promise(() => snapshotTables(t));
+				expect(snapshot.github_issues).toHaveLength(1);
+				expect(snapshot.github_issue_comments).toHaveLength(1);
+				yield* Effect.promise(() =>
+					expect(
+						`${JSON.stringify(snapshot, null, "\t")}\n`,
+					).toMatchFileSnapshot(
+						"./fixtures/webhooks/__snapshots__/issue-lifecycle.snap",
+					),
+				);
+			}),
+	);
+
+	it.effect("produces the same tables regardless of insertion order", () =>
+		Effect.gen(function* () {
+			const inOrder = createConvexTest();
+			yield* Effect.promise(() =>
+				replayWebhookFixture(inOrder, issueLifecycleFixture),
+			);
+			const reversed = createConvexTest();
+			yield* Effect.promise(() =>
+				replayWebhookFixture(reversed, {
+					...issueLifecycleFixture,
+					events: [...issueLifecycleFixture.events].reverse(),
+				}),
+			);
+
+			const expected = yield* Effect.promise(() => snapshotTables(inOrder));
+			const actual = yield* Effect.promise(() => snapshotTables(reversed));
+			expect(actual).toEqual(expected);
+		}),
+	);
+
+	it.effect(
+		"exports a slice of raw events that replays to the same state",
+		() =>
+			Effect.gen(function* () {
+				const source = createConvexTest();
+				yield* Effect.promise(() =>
+					replayWebhookFixture(source, issueLifecycleFixture),
+				);
+				const [first, second] = issueLifecycleFixture.events;
+
+				type Exported = {
+					deliveryId: string;
+					eventName: string;
+					action: string | null;
+					installationId: number | null;
+					repositoryId: number | null;
+					receivedAt: number;
+					payloadJson: string;
+				};
+				const exportEvents = (args: {
+					repositoryId?: number;
+					deliveryIds?: Array<string>;
+					since?: number;
+				}) =>
+					Effect.promise(async () => {
+						const result = await source.query(
+							internal.rpc.replayReconcile.exportWebhookFixtures,
+							args,
+						);
+						return assertSuccess(result) as Array<Exported>;
+					});
+
+				const sinceSecond = yield* exportEvents({
+					repositoryId: 424242,
+					since: second?.receivedAt,
+				});
+				expect(sinceSecond).toHaveLength(3);
+				const byDelivery = yield* exportEvents({
+					deliveryIds: [first?.deliveryId ?? ""],
+				});
+				expect(byDelivery.map((e) => e.deliveryId)).toEqual([
+					first?.deliveryId,
+				]);
+				expect(yield* exportEvents({ repositoryId: 1 })).toHaveLength(0);
+
+				const exported = yield* exportEvents({ repositoryId: 424242 });
+				const replayed = createConvexTest();
+				yield* Effect.promise(() =>
+					replayWebhookFixture(replayed, {
+						name: "exported",
+						events: exported.map(({ payloadJson, ...event }) => ({
+							...event,
+							payload: JSON.parse(payloadJson),
+						})),
+					}),
+				);
+
+				const expected = yield* Effect.promise(() => snapshotTables(source));
+				const actual = yield* Effect.promise(() => snapshotTables(replayed));
+				expect(actual).toEqual(expected);
+			}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Pull Request Creation Tests
+// ---------------------------------------------------------------------------
+
+describe("Pull Request Creation", () => {
+	const seedBranches = (
+		t: ReturnType<typeof createConvexTest>,
+		repositoryId: number,
+		names: ReadonlyArray<string>,
+	) =>
+		Effect.promise(() =>
+			t.run(async (ctx) => {
+				for (const name of names) {
+					await ctx.db.insert("github_branches", {
+						repositoryId,
+						name,
+						headSha: `sha-${name}`,
+						protected: name === "main",
+						updatedAt: Date.now(),
+					});
+				}
+			}),
+		);
+
+	it.effect("listBranches puts the default branch first", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+			yield* seedBranches(t, repositoryId, [
+				"feature/login",
+				"main",
+				"dev",
+				"zeta",
+			]);
+
+			const result = yield* Effect.promise(() =>
+				t.query(api.rpc.projectionQueries.listBranches, {
+					ownerLogin: "testowner",
+					name: "testrepo",
+				}),
+			);
+			const branches = assertSuccess(result) as Array<{
+				name: string;
+				isDefault: boolean;
+			}>;
+			expect(branches.map((b) => b.name)).toEqual([
+				"main",
+				"dev",
+				"feature/login",
+				"zeta",
+			]);
+			expect(branches[0]).toMatchObject({
+				headSha: "sha-main",
+				protected: true,
+				isDefault: true,
+			});
+			expect(branches.filter((b) => b.isDefault)).toHaveLength(1);
+		}),
+	);
+
+	it.effect("listBranches only returns branches of the requested repo", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			yield* seedRepository(t, 12345);
+			yield* seedRepository(t, 67890, "testowner", "otherrepo");
+			yield* seedBranches(t, 12345, ["main", "feature-a"]);
+			yield* seedBranches(t, 67890, ["main", "feature-b"]);
+
+			const result = yield* Effect.promise(() =>
+				t.query(api.rpc.projectionQueries.listBranches, {
+					ownerLogin: "testowner",
+					name: "otherrepo",
+				}),
+			);
+			const branches = assertSuccess(result) as Array<{ name: string }>;
+			expect(branches.map((b) => b.name)).toEqual(["main", "feature-b"]);
+		}),
+	);
+
+	it.effect("listBranches returns nothing for an unknown repo", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+
+			const result = yield* Effect.promise(() =>
+				t.query(api.rpc.projectionQueries.listBranches, {
+					ownerLogin: "nobody",
+					name: "missing",
+				}),
+			);
+			expect(assertSuccess(result)).toEqual([]);
+		}),
+	);
+	describe("createPullRequest", () => {
+		type FetchCall = { url: string; body: Record<string, unknown> };
+
+		/** Stub `fetch` with one canned GitHub response, recording requests */
+		const stubGitHub = (status: number, body: unknown) => {
+			const calls: Array<FetchCall> = [];
+			vi.stubGlobal("fetch", async (url: string | URL, init?: RequestInit) => {
+				calls.push({
+					url: String(url),
+					body: JSON.parse(String(init?.body ?? "{}")),
+				});
+				return new Response(JSON.stringify(body), { status });
+			});
+			return calls;
+		};
+
+		const createPullRequest = (
+			t: ReturnType<typeof createConvexTest>,
+			draft?: boolean,
+		) =>
+			Effect.promise(() =>
+				authClient(t).action(api.rpc.githubWrite.createPullRequest, {
+					correlationId: "corr-create-pr-1",
+					ownerLogin: "testowner",
+					name: "testrepo",
+					repositoryId: 12345,
+					title: "Add login page",
+					body: "Closes #3",
+					base: "main",
+					head: "feature/login",
+					...(draft === undefined ? {} : { draft }),
+				}),
+			);
+
+		it.effect("returns the number of the opened pull request", () =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				yield* seedGitHubAccount(t);
+				const calls = stubGitHub(201, {
+					id: 9001,
+					number: 58,
+					html_url: "https://github.com/testowner/testrepo/pull/58",
+				});
+
+				try {
+					const result = yield* createPullRequest(t);
+					expect(assertSuccess(result)).toEqual({
+						correlationId: "corr-create-pr-1",
+						number: 58,
+					});
+					expect(calls).toEqual([
+						{
+							url: "https://api.github.com/repos/testowner/testrepo/pulls",
+							body: {
+								title: "Add login page",
+								body: "Closes #3",
+								base: "main",
+								head: "feature/login",
+								draft: false,
+							},
+						},
+					]);
+					const creates = yield* collectTable<{
+						number: number | null;
+						optimisticState: string;
+					}>(t, "github_pull_request_creates");
+					expect(creates).toHaveLength(1);
+					expect(creates[0]).toMatchObject({
+						number: 58,
+						optimisticState: "completed",
+					});
+				} finally {
+					vi.unstubAllGlobals();
+				}
+			}),
+		);
+
+		it.effect("fails when GitHub returns no pull request number", () =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				yield* seedGitHubAccount(t);
+				stubGitHub(201, { id: 9003 });
+
+				try {
+					const result = (yield* createPullRequest(t)) as ExitEncoded;
+					expect(result._tag).toBe("Failure");
+					expect(JSON.stringify(result.cause)).toContain("GitHubWriteError");
+
+					const creates = yield* collectTable<{
+						number: number | null;
+						optimisticState: string;
+					}>(t, "github_pull_request_creates");
+					expect(creates[0]).toMatchObject({
+						number: null,
+						optimisticState: "failed",
+					});
+
+					const retried = (yield* createPullRequest(t)) as ExitEncoded;
+					expect(JSON.stringify(retried.cause)).toContain(
+						"DuplicateOperationError",
+					);
+				} finally {
+					vi.unstubAllGlobals();
+				}
+			}),
+		);
+
+		it.effect("surfaces GitHub's validation message on a 422", () =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				yield* seedGitHubAccount(t);
+				stubGitHub(422, {
+					message: "Validation Failed",
+					errors: [
+						{
+							resource: "PullRequest",
+							code: "custom",
+							message:
+								"A pull request already exists for testowner:feature/login.",
+						},
+					],
+				});
+
+				try {
+					const result = (yield* createPullRequest(t)) as ExitEncoded;
+					expect(result._tag).toBe("Failure");
+					expect(JSON.stringify(result.cause)).toContain(
+						"A pull request already exists for testowner:feature/login.",
+					);
+				} finally {
+					vi.unstubAllGlobals();
+				}
+			}),
+		);
+
+		it.effect("forwards the draft flag", () =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				yield* seedRepository(t, 12345);
+				yield* seedGitHubAccount(t);
+				const calls = stubGitHub(201, { id: 9002, number: 59 });
+
+				try {
+					const result = yield* createPullRequest(t, true);
+					expect(assertSuccess(result)).toMatchObject({ number: 59 });
+					expect(calls[0]?.body).toMatchObject({ draft: true });
+				} finally {
+					vi.unstubAllGlobals();
+				}
+			}),
+		);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Review Request Tests
+// ---------------------------------------------------------------------------
+
+describe("Review Requests", () => {
+	/** PR payload with requested users/teams and the repository owner set */
+	const makeReviewRequestPayload = (opts: {
+		action: string;
+		number: number;
+		updated_at?: string;
+		requestedReviewers: Array<{ id: number; login: string }>;
+		requestedTeams: Array<{ id: number; slug: string; name: string }>;
+	}) => {
+		const payload = JSON.parse(
+			makePrPayload({
+				action: opts.action,
+				prId: opts.number * 1000,
+				number: opts.number,
+				state: "open",
+				title: `PR ${opts.number}`,
+				updated_at: opts.updated_at,
+			}),
+		);
+		payload.pull_request.requested_reviewers = opts.requestedReviewers.map(
+			(reviewer) => ({ ...reviewer, avatar_url: null, type: "User" }),
+		);
+		payload.pull_request.requested_teams = opts.requestedTeams.map((team) => ({
+			...team,
+			description: null,
+		}));
+		payload.repository = { id: 12345, owner: { login: "testowner" } };
+		return JSON.stringify(payload);
+	};
+
+	it.effect("pull_request webhook mirrors requested users and teams", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-review-requested-1",
+					eventName: "pull_request",
+					action: "review_requested",
+					repositoryId,
+					payloadJson: makeReviewRequestPayload({
+						action: "review_requested",
+						number: 31,
+						requestedReviewers: [{ id: 2001, login: "alice" }],
+						requestedTeams: [{ id: 501, slug: "core", name: "Core" }],
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-review-requested-1");
+
+			const teams = yield* collectTable(t, "github_teams");
+			expect(teams).toEqual([
+				expect.objectContaining({
+					githubTeamId: 501,
+					orgLogin: "testowner",
+					slug: "core",
+					name: "Core",
+				}),
+			]);
+
+			const detail = assertSuccess(
+				yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.getPullRequestDetail, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						number: 31,
+					}),
+				),
+			) as {
+				requestedReviewers: Array<{ login: string }>;
+				requestedTeams: Array<{ slug: string }>;
+			} | null;
+			expect(detail?.requestedReviewers).toEqual([
+				{ login: "alice", avatarUrl: null },
+			]);
+			expect(detail?.requestedTeams).toEqual([{ slug: "core", name: "Core" }]);
+
+			const repoTeams = assertSuccess(
+				yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listRepoTeams, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+					}),
+				),
+			) as Array<{ slug: string }>;
+			expect(repoTeams.map((team) => team.slug)).toEqual(["core"]);
+		}),
+	);
+
+	it.effect(
+		"review_requested webhook confirms optimistic reviewer request",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-pr-opened-32",
+						eventName: "pull_request",
+						action: "opened",
+						repositoryId,
+						payloadJson: makeReviewRequestPayload({
+							action: "opened",
+							number: 32,
+							requestedReviewers: [],
+							requestedTeams: [],
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-pr-opened-32");
+
+				yield* Effect.promise(() =>
+					t.run(async (ctx) => {
+						const pr = await ctx.db.query("github_pull_requests").first();
+						if (pr === null) throw new Error("PR not mirrored");
+						await ctx.db.patch(pr._id, {
+							optimisticCorrelationId: "corr-request-reviewers-1",
+							optimisticOperationType: "request_reviewers",
+							optimisticState: "failed",
+							optimisticPayloadJson: JSON.stringify({
+								reviewers: ["alice"],
+								teamReviewers: ["core"],
+							}),
+						});
+					}),
+				);
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.markReviewersUpdateAccepted, {
+						correlationId: "corr-request-reviewers-1",
+					}),
+				);
+
+				const pending = yield* Effect.promise(() =>
+					t.query(internal.rpc.githubWrite.getPendingReviewersUpdate, {
+						correlationId: "corr-request-reviewers-1",
+					}),
+				);
+				expect(assertSuccess(pending)).toMatchObject({
+					found: true,
+					number: 32,
+					mode: "request",
+					reviewers: ["alice"],
+					teamReviewers: ["core"],
+				});
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-review-requested-32",
+						eventName: "pull_request",
+						action: "review_requested",
+						repositoryId,
+						payloadJson: makeReviewRequestPayload({
+							action: "review_requested",
+							number: 32,
+							updated_at: "2026-02-18T11:00:00Z",
+							requestedReviewers: [{ id: 2001, login: "alice" }],
+							requestedTeams: [{ id: 501, slug: "core", name: "Core" }],
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-review-requested-32");
+
+				const prs = yield* collectTable<{
+					requestedReviewerUserIds: Array<number>;
+					requestedReviewerTeamIds?: Array<number>;
+					optimisticState?: string | null;
+				}>(t, "github_pull_requests");
+				expect(prs[0]).toMatchObject({
+					requestedReviewerUserIds: [2001],
+					requestedReviewerTeamIds: [501],
+					optimisticState: "confirmed",
+				});
+			}),
+	);
+
+	it.effect(
+		"recordPendingEntityWrite tracks a reviewer removal until it fails",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-pr-opened-33",
+						eventName: "pull_request",
+						action: "opened",
+						repositoryId,
+						payloadJson: makeReviewRequestPayload({
+							action: "opened",
+							number: 33,
+							requestedReviewers: [{ id: 2001, login: "alice" }],
+							requestedTeams: [],
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-pr-opened-33");
+
+				const recorded = yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.recordPendingEntityWrite, {
+						correlationId: "corr-remove-reviewers-33",
+						repositoryId,
+						number: 33,
+						operationType: "remove_reviewers",
+						payloadJson: JSON.stringify({
+							reviewers: ["alice"],
+							teamReviewers: [],
+						}),
+					}),
+				);
+				expect(assertSuccess(recorded)).toEqual({
+					recorded: true,
+					reason: "recorded",
+				});
+
+				const pending = yield* Effect.promise(() =>
+					t.query(internal.rpc.githubWrite.getPendingReviewersUpdate, {
+						correlationId: "corr-remove-reviewers-33",
+					}),
+				);
+				expect(assertSuccess(pending)).toMatchObject({
+					found: true,
+					number: 33,
+					mode: "remove",
+					reviewers: ["alice"],
+					teamReviewers: [],
+				});
+
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.markReviewersUpdateFailed, {
+						correlationId: "corr-remove-reviewers-33",
+						errorMessage: "Not Found",
+						errorStatus: 404,
+					}),
+				);
+
+				const prs = yield* collectTable<{
+					requestedReviewerUserIds: Array<number>;
+					optimisticState?: string | null;
+					optimisticErrorMessage?: string | null;
+				}>(t, "github_pull_requests");
+				expect(prs[0]).toMatchObject({
+					requestedReviewerUserIds: [2001],
+					optimisticState: "failed",
+					optimisticErrorMessage: "Not Found",
+				});
+			}),
+	);
+
+	it.effect("suggests authors of other PRs that touched the same files", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					const now = Date.now();
+					const users = [
+						[1001, "testuser"],
+						[2001, "alice"],
+						[2002, "bob"],
+					] as const;
+					for (const [githubUserId, login] of users) {
+						await ctx.db.insert("github_users", {
+							githubUserId,
+							login,
+							avatarUrl: null,
+							siteAdmin: false,
+							type: "User",
+							updatedAt: now,
+						});
+					}
+					// PR 40 is under review; 41/42 by alice and 43 by bob touched
+					// its files, 44 by the author does not count
+					const prs = [
+						[40, 1001, ["src/a.ts", "src/b.ts"]],
+						[41, 2001, ["src/a.ts"]],
+						[42, 2001, ["src/b.ts", "README.md"]],
+						[43, 2002, ["src/a.ts"]],
+						[44, 1001, ["src/b.ts"]],
+					] as const;
+					for (const [number, authorUserId, filenames] of prs) {
+						await ctx.db.insert("github_pull_requests", {
+							repositoryId,
+							githubPrId: number * 1000,
+							number,
+							state: "open",
+							draft: false,
+							title: `PR ${number}`,
+							body: null,
+							authorUserId,
+							assigneeUserIds: [],
+							requestedReviewerUserIds: [],
+							baseRefName: "main",
+							headRefName: `branch-${number}`,
+							headSha: `sha-${number}`,
+							mergeableState: null,
+							mergedAt: null,
+							closedAt: null,
+							githubUpdatedAt: now,
+							cachedAt: now,
+						});
+						for (const filename of filenames) {
+							await ctx.db.insert("github_pull_request_files", {
+								repositoryId,
+								pullRequestNumber: number,
+								headSha: `sha-${number}`,
+								filename,
+								status: "modified",
+								additions: 1,
+								deletions: 1,
+								changes: 2,
+								patch: null,
+								previousFilename: null,
+								cachedAt: now,
+							});
+						}
+					}
+				}),
+			);
+
+			const suggestions = assertSuccess(
+				yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.listReviewerSuggestions, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						number: 40,
+					}),
+				),
+			);
+			expect(suggestions).toEqual([
+				{ login: "alice", avatarUrl: null, fileCount: 2 },
+				{ login: "bob", avatarUrl: null, fileCount: 1 },
+			]);
+		}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Title/Body, Draft, and Lock Tests
+// ---------------------------------------------------------------------------
+
+describe("Issue and Pull Request Editing", () => {
+	/** Seed an issue, then mark it with an optimistic write awaiting GitHub */
+	const seedIssueWithOptimisticWrite = (
+		t: ReturnType<typeof createConvexTest>,
+		opts: {
+			number: number;
+			correlationId: string;
+			operationType: "update_title_body" | "update_lock_state";
+			payload: Record<string, unknown>;
+		},
+	) =>
+		Effect.gen(function* () {
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: `delivery-issue-opened-${opts.number}`,
+					eventName: "issues",
+					action: "opened",
+					repositoryId: 12345,
+					payloadJson: makeIssuePayload({
+						action: "opened",
+						issueId: opts.number * 1000,
+						number: opts.number,
+						state: "open",
+						title: "Original title",
+						body: "Original body",
+					}),
+				}),
+			);
+			yield* processEvent(t, `delivery-issue-opened-${opts.number}`);
+
+			yield* Effect.promise(() =>
+				t.run(async (ctx) => {
+					const issue = await ctx.db.query("github_issues").first();
+					if (issue === null) throw new Error("Issue not mirrored");
+					await ctx.db.patch(issue._id, {
+						optimisticCorrelationId: opts.correlationId,
+						optimisticOperationType: opts.operationType,
+						optimisticState: "pending",
+						optimisticPayloadJson: JSON.stringify(opts.payload),
+					});
+				}),
+			);
+		});
+
+	it.effect("edited webhook confirms an optimistic title/body update", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+			yield* seedIssueWithOptimisticWrite(t, {
+				number: 41,
+				correlationId: "corr-title-body-1",
+				operationType: "update_title_body",
+				payload: { title: "Better title" },
+			});
+
+			const pending = yield* Effect.promise(() =>
+				t.query(internal.rpc.githubWrite.getPendingTitleBodyUpdate, {
+					correlationId: "corr-title-body-1",
+				}),
+			);
+			expect(assertSuccess(pending)).toEqual({
+				found: true,
+				ownerLogin: "testowner",
+				repoName: "testrepo",
+				number: 41,
+				title: "Better title",
+			});
+
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-issue-edited-41",
+					eventName: "issues",
+					action: "edited",
+					repositoryId,
+					payloadJson: makeIssuePayload({
+						action: "edited",
+						issueId: 41000,
+						number: 41,
+						state: "open",
+						title: "Better title",
+						body: "Original body",
+						updated_at: "2026-02-18T11:00:00Z",
+					}),
+				}),
+			);
+			yield* processEvent(t, "delivery-issue-edited-41");
+
+			const issues = yield* collectTable<{
+				title: string;
+				body: string | null;
+				optimisticState?: string | null;
+			}>(t, "github_issues");
+			expect(issues[0]).toMatchObject({
+				title: "Better title",
+				body: "Original body",
+				optimisticState: "confirmed",
+			});
+		}),
+	);
+
+	it.effect("locked webhook mirrors the lock and confirms the write", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+			yield* seedIssueWithOptimisticWrite(t, {
+				number: 42,
+				correlationId: "corr-lock-1",
+				operationType: "update_lock_state",
+				payload: { lockReason: "too heated" },
+			});
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.markLockStateUpdateFailed, {
+					correlationId: "corr-lock-1",
+					errorMessage: "Resource not accessible by integration",
+					errorStatus: 403,
+				}),
+			);
+			const failed = yield* Effect.promise(() =>
+				t.query(internal.rpc.githubWrite.getPendingLockStateUpdate, {
+					correlationId: "corr-lock-1",
+				}),
+			);
+			expect(assertSuccess(failed)).toEqual({ found: false });
+
+			yield* Effect.promise(() =>
+				t.mutation(internal.rpc.githubWrite.markLockStateUpdateAccepted, {
+					correlationId: "corr-lock-1",
+				}),
+			);
+			const pending = yield* Effect.promise(() =>
+				t.query(internal.rpc.githubWrite.getPendingLockStateUpdate, {
+					correlationId: "corr-lock-1",
+				}),
+			);
+			expect(assertSuccess(pending)).toMatchObject({
+				found: true,
+				number: 42,
+				lockReason: "too heated",
+			});
+
+			const lockedPayload = JSON.parse(
+				makeIssuePayload({
+					action: "locked",
+					issueId: 42000,
+					number: 42,
+					state: "open",
+					title: "Original title",
+					updated_at: "2026-02-18T11:00:00Z",
+				}),
+			);
+			lockedPayload.issue.locked = true;
+			yield* insertRawEvent(
+				t,
+				makeRawEvent({
+					deliveryId: "delivery-issue-locked-42",
+					eventName: "issues",
+					action: "locked",
+					repositoryId,
+					payloadJson: JSON.stringify(lockedPayload),
+				}),
+			);
+			yield* processEvent(t, "delivery-issue-locked-42");
+
+			const detail = assertSuccess(
+				yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.getIssueDetail, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						number: 42,
+					}),
+				),
+			) as {
+				locked: boolean;
+				optimisticOperationType: string | null;
+				optimisticState: string | null;
+			} | null;
+			expect(detail).toMatchObject({
+				locked: true,
+				optimisticOperationType: "update_lock_state",
+				optimisticState: "confirmed",
+			});
+		}),
+	);
+
+	it.effect(
+		"ready_for_review webhook confirms an optimistic draft toggle",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-pr-opened-43",
+						eventName: "pull_request",
+						action: "opened",
+						repositoryId,
+						payloadJson: makePrPayload({
+							action: "opened",
+							prId: 43000,
+							number: 43,
+							state: "open",
+							title: "Draft PR",
+							draft: true,
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-pr-opened-43");
+
+				yield* Effect.promise(() =>
+					t.run(async (ctx) => {
+						const pr = await ctx.db.query("github_pull_requests").first();
+						if (pr === null) throw new Error("PR not mirrored");
+						await ctx.db.patch(pr._id, {
+							draft: false,
+							optimisticCorrelationId: "corr-draft-1",
+							optimisticOperationType: "convert_pull_request_draft",
+							optimisticState: "failed",
+						});
+					}),
+				);
+				yield* Effect.promise(() =>
+					t.mutation(
+						internal.rpc.githubWrite.markPullRequestDraftUpdateAccepted,
+						{ correlationId: "corr-draft-1" },
+					),
+				);
+
+				const pending = yield* Effect.promise(() =>
+					t.query(internal.rpc.githubWrite.getPendingPullRequestDraftUpdate, {
+						correlationId: "corr-draft-1",
+					}),
+				);
+				expect(assertSuccess(pending)).toEqual({
+					found: true,
+					ownerLogin: "testowner",
+					repoName: "testrepo",
+					number: 43,
+					draft: false,
+				});
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-pr-ready-43",
+						eventName: "pull_request",
+						action: "ready_for_review",
+						repositoryId,
+						payloadJson: makePrPayload({
+							action: "ready_for_review",
+							prId: 43000,
+							number: 43,
+							state: "open",
+							title: "Draft PR",
+							draft: false,
+							updated_at: "2026-02-18T11:00:00Z",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-pr-ready-43");
+
+				const prs = yield* collectTable<{
+					draft: boolean;
+					optimisticState?: string | null;
+				}>(t, "github_pull_requests");
+				expect(prs[0]).toMatchObject({
+					draft: false,
+					optimisticState: "confirmed",
+				});
+			}),
+	);
+	it.effect(
+		"recordPendingEntityWrite tracks a lock write until it settles",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-issue-opened-44",
+						eventName: "issues",
+						action: "opened",
+						repositoryId,
+						payloadJson: makeIssuePayload({
+							action: "opened",
+							issueId: 44000,
+							number: 44,
+							state: "open",
+							title: "Heated thread",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-issue-opened-44");
+
+				const recorded = yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.recordPendingEntityWrite, {
+						correlationId: "corr-lock-44",
+						repositoryId,
+						number: 44,
+						operationType: "update_lock_state",
+						payloadJson: JSON.stringify({
+							locked: true,
+							lockReason: "too heated",
+						}),
+					}),
+				);
+				expect(assertSuccess(recorded)).toEqual({
+					recorded: true,
+					reason: "recorded",
+				});
+
+				const duplicate = yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.recordPendingEntityWrite, {
+						correlationId: "corr-lock-44",
+						repositoryId,
+						number: 44,
+						operationType: "update_lock_state",
+						payloadJson: "{}",
+					}),
+				);
+				expect(assertSuccess(duplicate)).toEqual({
+					recorded: false,
+					reason: "duplicate",
+				});
+
+				const pending = yield* Effect.promise(() =>
+					t.query(internal.rpc.githubWrite.getPendingLockStateUpdate, {
+						correlationId: "corr-lock-44",
+					}),
+				);
+				expect(assertSuccess(pending)).toEqual({
+					found: true,
+					ownerLogin: "testowner",
+					repoName: "testrepo",
+					number: 44,
+					locked: true,
+					lockReason: "too heated",
+				});
+
+				yield* Effect.promise(() =>
+					t.mutation(internal.rpc.githubWrite.markLockStateUpdateFailed, {
+						correlationId: "corr-lock-44",
+						errorMessage: "Resource not accessible by integration",
+						errorStatus: 403,
+					}),
+				);
+
+				const issues = yield* collectTable<{
+					locked?: boolean;
+					optimisticState?: string | null;
+					optimisticErrorStatus?: number | null;
+				}>(t, "github_issues");
+				expect(issues[0]).toMatchObject({
+					optimisticState: "failed",
+					optimisticErrorStatus: 403,
+				});
+				expect(issues[0]?.locked ?? false).toBe(false);
+			}),
+	);
+});
+
+// ---------------------------------------------------------------------------
+// Timeline Events
+// ---------------------------------------------------------------------------
+
+describe("Timeline Events", () => {
+	it.effect(
+		"labeled and renamed webhooks merge with comments in the issue timeline",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				const labeledPayload = JSON.parse(
+					makeIssuePayload({
+						action: "labeled",
+						issueId: 44000,
+						number: 44,
+						state: "open",
+						title: "Crash on start",
+						updated_at: "2026-02-18T10:00:00Z",
+					}),
+				);
+				labeledPayload.label = { name: "bug", color: "d73a4a" };
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-issue-labeled-44",
+						eventName: "issues",
+						action: "labeled",
+						repositoryId,
+						payloadJson: JSON.stringify(labeledPayload),
+					}),
+				);
+				yield* processEvent(t, "delivery-issue-labeled-44");
+
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-comment-44",
+						eventName: "issue_comment",
+						action: "created",
+						repositoryId,
+						payloadJson: makeIssueCommentPayload({
+							action: "created",
+							commentId: 4401,
+							issueNumber: 44,
+							body: "Repro attached",
+							createdAt: "2026-02-18T10:30:00Z",
+						}),
+					}),
+				);
+				yield* processEvent(t, "delivery-comment-44");
+
+				const editedPayload = JSON.parse(
+					makeIssuePayload({
+						action: "edited",
+						issueId: 44000,
+						number: 44,
+						state: "open",
+						title: "Crash on start with empty config",
+						updated_at: "2026-02-18T11:00:00Z",
+					}),
+				);
+				editedPayload.changes = { title: { from: "Crash on start" } };
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-issue-edited-44",
+						eventName: "issues",
+						action: "edited",
+						repositoryId,
+						payloadJson: JSON.stringify(editedPayload),
+					}),
+				);
+				yield* processEvent(t, "delivery-issue-edited-44");
+
+				const detail = assertSuccess(
+					yield* Effect.promise(() =>
+						t.query(api.rpc.projectionQueries.getIssueDetail, {
+							ownerLogin: "testowner",
+							name: "testrepo",
+							number: 44,
+						}),
+					),
+				) as { timeline: Array<Record<string, unknown>> } | null;
+				expect(detail?.timeline).toMatchObject([
+					{
+						kind: "event",
+						eventType: "labeled",
+						actorLogin: "testuser",
+						labelName: "bug",
+						labelColor: "d73a4a",
+					},
+					{ kind: "comment", githubCommentId: 4401 },
+					{
+						kind: "event",
+						eventType: "renamed",
+						renameFrom: "Crash on start",
+						renameTo: "Crash on start with empty config",
+					},
+				]);
+			}),
+	);
+
+	it.effect("skips events already recorded by a webhook or backfill", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const assignedPayload = JSON.parse(
+				makeIssuePayload({
+					action: "assigned",
+					issueId: 45000,
+					number: 45,
+					state: "open",
+					title: "Needs an owner",
+					updated_at: "2026-02-18T10:00:00Z",
+				}),
+			);
+			assignedPayload.assignee = {
+				id: 2002,
+				login: "maintainer",
+				avatar_url: null,
+				type: "User",
+			};
+			const payloadJson = JSON.stringify(assignedPayload);
+			for (const deliveryId of ["delivery-assigned-45", "redelivery-45"]) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId,
+						eventName: "issues",
+						action: "assigned",
+						repositoryId,
+						payloadJson,
 					}),
+				);
+				yield* processEvent(t, deliveryId);
+			}
+
+			const events = yield* collectTable<{
+				eventKey: string;
+				eventType: string;
+				subjectUserId: number | null;
+			}>(t, "github_timeline_events");
+			expect(events).toHaveLength(1);
+			expect(events[0]).toMatchObject({
+				eventType: "assigned",
+				subjectUserId: 2002,
+			});
+
+			// The timeline API reports the same assignment at the same second
+			const result = yield* Effect.promise(() =>
+				t.mutation(internal.rpc.onDemandSync.upsertTimelineEvents, {
+					repositoryId,
+					issueNumber: 45,
+					events: [
+						{
+							eventKey: events[0]?.eventKey ?? "",
+							eventType: "assigned",
+							actorUserId: 1001,
+							labelName: null,
+							labelColor: null,
+							subjectUserId: 2002,
+							milestoneTitle: null,
+							renameFrom: null,
+							renameTo: null,
+							commitSha: null,
+							beforeSha: null,
+							createdAt: Date.parse("2026-02-18T10:00:00Z"),
+						},
+					],
 				}),
 			);
-			yield* processEvent(t, "delivery-review-multi-1");
+			expect(assertSuccess(result)).toEqual({ inserted: 0 });
+		}),
+	);
 
-			// Review 2: approved (different reviewer)
+	it.effect(
+		"matches a backfilled event dated a second off the webhook and stamps the backfill",
+		() =>
+			Effect.gen(function* () {
+				const t = createConvexTest();
+				const repositoryId = 12345;
+				yield* seedRepository(t, repositoryId);
+
+				// The webhook carries the issue's updated_at, just after the event
+				const labeledPayload = JSON.parse(
+					makeIssuePayload({
+						action: "labeled",
+						issueId: 48000,
+						number: 48,
+						state: "open",
+						title: "Flaky test",
+						updated_at: "2026-02-18T10:00:01Z",
+					}),
+				);
+				labeledPayload.label = { name: "flaky", color: "fbca04" };
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: "delivery-issue-labeled-48",
+						eventName: "issues",
+						action: "labeled",
+						repositoryId,
+						payloadJson: JSON.stringify(labeledPayload),
+					}),
+				);
+				yield* processEvent(t, "delivery-issue-labeled-48");
+
+				const result = yield* Effect.promise(() =>
+					t.mutation(internal.rpc.onDemandSync.upsertTimelineEvents, {
+						repositoryId,
+						issueNumber: 48,
+						events: [
+							{
+								eventKey: "labeled:1771408800:flaky",
+								eventType: "labeled",
+								actorUserId: 1001,
+								labelName: "flaky",
+								labelColor: "fbca04",
+								subjectUserId: null,
+								milestoneTitle: null,
+								renameFrom: null,
+								renameTo: null,
+								commitSha: null,
+								beforeSha: null,
+								createdAt: Date.parse("2026-02-18T10:00:00.600Z"),
+							},
+						],
+					}),
+				);
+				expect(assertSuccess(result)).toEqual({ inserted: 0 });
+
+				const issues = yield* collectTable<{
+					timelineBackfilledAt?: number | null;
+				}>(t, "github_issues");
+				expect(issues[0]?.timelineBackfilledAt).toEqual(expect.any(Number));
+			}),
+	);
+
+	it.effect("records the team of a team review request", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
+
+			const payload = JSON.parse(
+				makePrPayload({
+					action: "review_requested",
+					prId: 49000,
+					number: 49,
+					state: "open",
+					title: "PR 49",
+				}),
+			);
+			payload.requested_team = { id: 77, slug: "core", name: "Core" };
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-multi-2",
-					eventName: "pull_request_review",
-					action: "submitted",
+					deliveryId: "delivery-pr-team-review-49",
+					eventName: "pull_request",
+					action: "review_requested",
 					repositoryId,
-					payloadJson: makePrReviewPayload({
-						action: "submitted",
-						reviewId: 9011,
-						prNumber: 15,
-						state: "approved",
-						user: {
-							id: 3002,
-							login: "reviewer-b",
-							avatar_url: null,
-							type: "User",
-						},
-					}),
+					payloadJson: JSON.stringify(payload),
 				}),
 			);
-			yield* processEvent(t, "delivery-review-multi-2");
-
-			const reviews = yield* collectTable<{
-				githubReviewId: number;
-				state: string;
-				authorUserId: number | null;
-			}>(t, "github_pull_request_reviews");
-			expect(reviews).toHaveLength(2);
+			yield* processEvent(t, "delivery-pr-team-review-49");
 
-			const states = reviews.map((r) => r.state).sort();
-			expect(states).toEqual(["approved", "commented"]);
-
-			// Both reviewers should be upserted
-			const users = yield* collectTable<{
-				githubUserId: number;
-				login: string;
-			}>(t, "github_users");
-			expect(users).toHaveLength(2);
+			const detail = assertSuccess(
+				yield* Effect.promise(() =>
+					t.query(api.rpc.projectionQueries.getPullRequestDetail, {
+						ownerLogin: "testowner",
+						name: "testrepo",
+						number: 49,
+					}),
+				),
+			) as { timeline: Array<Record<string, unknown>> } | null;
+			expect(detail?.timeline).toMatchObject([
+				{
+					kind: "event",
+					eventType: "review_requested",
+					subjectLogin: null,
+					subjectTeamSlug: "core",
+				},
+			]);
 		}),
 	);
-});
-
-// ---------------------------------------------------------------------------
-// Pull Request Review Comment Event Tests
-// ---------------------------------------------------------------------------
 
-describe("Pull Request Review Comment Events", () => {
-	it.effect("pr_review_comment created event inserts a review comment", () =>
+	it.effect("records a forced push on open PRs from the pushed branch", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
 			yield* seedRepository(t, repositoryId);
 
+			for (const [number, headRef] of [
+				[46, "feature-branch"],
+				[47, "other-branch"],
+			] as const) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: `delivery-pr-opened-${number}`,
+						eventName: "pull_request",
+						action: "opened",
+						repositoryId,
+						payloadJson: makePrPayload({
+							action: "opened",
+							prId: number * 1000,
+							number,
+							state: "open",
+							title: `PR ${number}`,
+							headRef,
+						}),
+					}),
+				);
+				yield* processEvent(t, `delivery-pr-opened-${number}`);
+			}
+
+			const pushPayload = JSON.parse(
+				makePushPayload({ ref: "refs/heads/feature-branch", after: "def456" }),
+			);
+			pushPayload.forced = true;
+			pushPayload.before = "abc123";
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-comment-created",
-					eventName: "pull_request_review_comment",
-					action: "created",
+					deliveryId: "delivery-force-push",
+					eventName: "push",
 					repositoryId,
-					payloadJson: makePrReviewCommentPayload({
-						action: "created",
-						reviewCommentId: 9901,
-						prNumber: 42,
-						body: "Please rename this variable.",
-						path: "src/main.ts",
-						line: 27,
-					}),
+					payloadJson: JSON.stringify(pushPayload),
 				}),
 			);
-			yield* processEvent(t, "delivery-review-comment-created");
-
-			const reviewComments = yield* collectTable<{
-				githubReviewCommentId: number;
-				pullRequestNumber: number;
-				githubReviewId: number | null;
-				body: string;
-				path: string | null;
-				line: number | null;
-				authorUserId: number | null;
-			}>(t, "github_pull_request_review_comments");
+			yield* processEvent(t, "delivery-force-push");
 
-			expect(reviewComments).toHaveLength(1);
-			expect(reviewComments[0]).toMatchObject({
-				githubReviewCommentId: 9901,
-				pullRequestNumber: 42,
-				githubReviewId: 9101,
-				body: "Please rename this variable.",
-				path: "src/main.ts",
-				line: 27,
-				authorUserId: 2101,
+			const events = yield* collectTable<{
+				issueNumber: number;
+				eventType: string;
+				commitSha: string | null;
+				beforeSha: string | null;
+			}>(t, "github_timeline_events");
+			expect(events).toHaveLength(1);
+			expect(events[0]).toMatchObject({
+				issueNumber: 46,
+				eventType: "head_ref_force_pushed",
+				commitSha: "def456",
+				beforeSha: "abc123",
 			});
 		}),
 	);
+});
+
+// ---------------------------------------------------------------------------
+// Cross References
+// ---------------------------------------------------------------------------
 
+describe("Cross References", () => {
 	it.effect(
-		"pr_review_comment edited event updates an existing review comment",
+		"a closing keyword in a PR body links the PR and the issue both ways",
 		() =>
 			Effect.gen(function* () {
 				const t = createConvexTest();
 				const repositoryId = 12345;
 				yield* seedRepository(t, repositoryId);
 
+				for (const number of [50, 52]) {
+					yield* insertRawEvent(
+						t,
+						makeRawEvent({
+							deliveryId: `delivery-issue-opened-${number}`,
+							eventName: "issues",
+							action: "opened",
+							repositoryId,
+							payloadJson: makeIssuePayload({
+								action: "opened",
+								issueId: number * 1000,
+								number,
+								state: "open",
+								title: `Issue ${number}`,
+							}),
+						}),
+					);
+					yield* processEvent(t, `delivery-issue-opened-${number}`);
+				}
+
+				const prPayload = JSON.parse(
+					makePrPayload({
+						action: "opened",
+						prId: 51000,
+						number: 51,
+						state: "open",
+						title: "Handle empty config",
+					}),
+				);
+				prPayload.pull_request.body =
+					"Fixes #50. Unrelated to other/repo#52; see `#52` for context.";
 				yield* insertRawEvent(
 					t,
 					makeRawEvent({
-						deliveryId: "delivery-review-comment-create-edit",
-						eventName: "pull_request_review_comment",
-						action: "created",
+						deliveryId: "delivery-pr-opened-51",
+						eventName: "pull_request",
+						action: "opened",
 						repositoryId,
-						payloadJson: makePrReviewCommentPayload({
-							action: "created",
-							reviewCommentId: 9902,
-							prNumber: 9,
-							body: "Initial inline note",
-							updatedAt: "2026-02-18T12:00:00Z",
-						}),
+						payloadJson: JSON.stringify(prPayload),
 					}),
 				);
-				yield* processEvent(t, "delivery-review-comment-create-edit");
+				yield* processEvent(t, "delivery-pr-opened-51");
+
+				const issueDetail = assertSuccess(
+					yield* Effect.promise(() =>
+						t.query(api.rpc.projectionQueries.getIssueDetail, {
+							ownerLogin: "testowner",
+							name: "testrepo",
+							number: 50,
+						}),
+					),
+				) as {
+					linkedPullRequests: Array<Record<string, unknown>>;
+					referencedBy: Array<unknown>;
+				} | null;
+				expect(issueDetail?.linkedPullRequests).toEqual([
+					{
+						number: 51,
+						title: "Handle empty config",
+						state: "open",
+						isPullRequest: true,
+						merged: false,
+					},
+				]);
+				expect(issueDetail?.referencedBy).toEqual([]);
+
+				const prDetail = assertSuccess(
+					yield* Effect.promise(() =>
+						t.query(api.rpc.projectionQueries.getPullRequestDetail, {
+							ownerLogin: "testowner",
+							name: "testrepo",
+							number: 51,
+						}),
+					),
+				) as { linkedIssues: Array<{ number: number }> } | null;
+				expect(prDetail?.linkedIssues.map((issue) => issue.number)).toEqual([
+					50,
+				]);
+
+				const linked = assertSuccess(
+					yield* Effect.promise(() =>
+						t.query(api.rpc.projectionQueries.listIssuesPaginated, {
+							ownerLogin: "testowner",
+							name: "testrepo",
+							cursor: null,
+							numItems: 10,
+							linked: true,
+						}),
+					),
+				) as { page: Array<{ number: number }> };
+				expect(linked.page.map((issue) => issue.number)).toEqual([50]);
+			}),
+	);
+
+	it.effect("comment mentions are listed until the comment is deleted", () =>
+		Effect.gen(function* () {
+			const t = createConvexTest();
+			const repositoryId = 12345;
+			yield* seedRepository(t, repositoryId);
 
+			for (const number of [60, 61]) {
 				yield* insertRawEvent(
 					t,
 					makeRawEvent({
-						deliveryId: "delivery-review-comment-edited",
-						eventName: "pull_request_review_comment",
-						action: "edited",
+						deliveryId: `delivery-issue-opened-${number}`,
+						eventName: "issues",
+						action: "opened",
 						repositoryId,
-						payloadJson: makePrReviewCommentPayload({
-							action: "edited",
-							reviewCommentId: 9902,
-							prNumber: 9,
-							body: "Updated inline note",
-							updatedAt: "2026-02-18T12:05:00Z",
+						payloadJson: makeIssuePayload({
+							action: "opened",
+							issueId: number * 1000,
+							number,
+							state: "open",
+							title: `Issue ${number}`,
 						}),
 					}),
 				);
-				yield* processEvent(t, "delivery-review-comment-edited");
-
-				const reviewComments = yield* collectTable<{
-					githubReviewCommentId: number;
-					body: string;
-				}>(t, "github_pull_request_review_comments");
+				yield* processEvent(t, `delivery-issue-opened-${number}`);
+			}
 
-				expect(reviewComments).toHaveLength(1);
-				expect(reviewComments[0]).toMatchObject({
-					githubReviewCommentId: 9902,
-					body: "Updated inline note",
-				});
-			}),
+			for (const action of ["created", "deleted"] as const) {
+				yield* insertRawEvent(
+					t,
+					makeRawEvent({
+						deliveryId: `delivery-comment-${action}-6101`,
+						eventName: "issue_comment",
+						action,
+						repositoryId,
+						payloadJson: makeIssueCommentPayload({
+							action,
+							commentId: 6101,
+							issueNumber: 61,
+							// Closing keywords only count in PR bodies and commits
+							body: "Closes #60, same root cause",
+						}),
+					}),
+				);
+				yield* processEvent(t, `delivery-comment-${action}-6101`);
+
+				const detail = assertSuccess(
+					yield* Effect.promise(() =>
+						t.query(api.rpc.projectionQueries.getIssueDetail, {
+							ownerLogin: "testowner",
+							name: "testrepo",
+							number: 60,
+						}),
+					),
+				) as {
+					linkedPullRequests: Array<unknown>;
+					referencedBy: Array<Record<string, unknown>>;
+				} | null;
+				expect(detail?.linkedPullRequests).toEqual([]);
+				expect(detail?.referencedBy).toMatchObject(
+					action === "created"
+						? [
+								{
+									item: { number: 61, isPullRequest: false },
+									commitSha: null,
+									isClosing: false,
+								},
+							]
+						: [],
+				);
+			}
+		}),
 	);
 
-	it.effect("pr_review_comment deleted event removes the review comment", () =>
+	it.effect("pushed commit headlines reference issues by number", () =>
 		Effect.gen(function* () {
 			const t = createConvexTest();
 			const repositoryId = 12345;
@@ -3549,48 +9899,38 @@ describe("Pull Request Review Comment Events", () => {
 			yield* insertRawEvent(
 				t,
 				makeRawEvent({
-					deliveryId: "delivery-review-comment-create-del",
-					eventName: "pull_request_review_comment",
-					action: "created",
-					repositoryId,
-					payloadJson: makePrReviewCommentPayload({
-						action: "created",
-						reviewCommentId: 9903,
-						prNumber: 11,
-						body: "Will delete this",
-					}),
-				}),
-			);
-			yield* processEvent(t, "delivery-review-comment-create-del");
-
-			let reviewComments = yield* collectTable(
-				t,
-				"github_pull_request_review_comments",
-			);
-			expect(reviewComments).toHaveLength(1);
-
-			yield* insertRawEvent(
-				t,
-				makeRawEvent({
-					deliveryId: "delivery-review-comment-deleted",
-					eventName: "pull_request_review_comment",
-					action: "deleted",
+					deliveryId: "delivery-push-refs",
+					eventName: "push",
 					repositoryId,
-					payloadJson: makePrReviewCommentPayload({
-						action: "deleted",
-						reviewCommentId: 9903,
-						prNumber: 11,
-						body: "Will delete this",
+					payloadJson: makePushPayload({
+						ref: "refs/heads/main",
+						after: "c0ffee1",
+						commits: [
+							{
+								id: "c0ffee1",
+								message:
+									"Resolve crash on start (resolves #70)\n\nAlso see #71",
+								timestamp: "2026-02-18T10:00:00Z",
+							},
+						],
 					}),
 				}),
 			);
-			yield* processEvent(t, "delivery-review-comment-deleted");
+			yield* processEvent(t, "delivery-push-refs");
 
-			reviewComments = yield* collectTable(
-				t,
-				"github_pull_request_review_comments",
-			);
-			expect(reviewComments).toHaveLength(0);
+			const references = yield* collectTable<{
+				sourceType: string;
+				commitSha: string | null;
+				targetNumber: number;
+				isClosing: boolean;
+			}>(t, "github_issue_references");
+			expect(references).toHaveLength(1);
+			expect(references[0]).toMatchObject({
+				sourceType: "commit",
+				commitSha: "c0ffee1",
+				targetNumber: 70,
+				isClosing: true,
+			});
 		}),
 	);
 });
@@ -0,0 +1,106 @@
+/**
+ * Export a slice of recorded webhook deliveries into a fixture file that
+ * `replayWebhookFixture` (testing.ts) can replay deterministically.
+ *
+ * Reads through `bunx convex run`, so it targets whichever deployment the
+ * Convex CLI is configured for (pass --prod for production). Payloads are
+ * written as-is; review them for private data before committing.
+ *
+ * Usage:
+ *   bun run fixtures:export <name> --repo 12345 \
+ *     [--since 2026-02-01T00:00:00Z] [--until ...] [--limit 200]
+ *   bun run fixtures:export <name> --delivery <id> --delivery <id>
+ */
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import type { WebhookFixture } from "../convex/shared/webhookFixtures";
+
+const FIXTURES_DIR = resolve(import.meta.dirname, "../fixtures/webhooks");
+
+type ExportedEvent = {
+	deliveryId: string;
+	eventName: string;
+	action: string | null;
+	installationId: number | null;
+	repositoryId: number | null;
+	receivedAt: number;
+	payloadJson: string;
+};
+
+const parseTime = (value: string | undefined, flag: string) => {
+	if (value === undefined) return undefined;
+	const time = Date.parse(value);
+	if (Number.isNaN(time)) {
+		throw new Error(`${flag} must be an ISO date, got "${value}"`);
+	}
+	return time;
+};
+
+function main() {
+	const { values, positionals } = parseArgs({
+		args: process.argv.slice(2),
+		allowPositionals: true,
+		options: {
+			repo: { type: "string" },
+			delivery: { type: "string", multiple: true },
+			since: { type: "string" },
+			until: { type: "string" },
+			limit: { type: "string" },
+			prod: { type: "boolean", default: false },
+		},
+	});
+
+	const name = positionals[0];
+	if (name === undefined || !/^[a-z0-9-]+$/.test(name)) {
+		throw new Error("Pass a fixture name in kebab-case as the first argument");
+	}
+	if (values.repo === undefined && values.delivery === undefined) {
+		throw new Error("Select events with --repo and/or --delivery");
+	}
+
+	const args = {
+		repositoryId: values.repo === undefined ? undefined : Number(values.repo),
+		deliveryIds: values.delivery,
+		since: parseTime(values.since, "--since"),
+		until: parseTime(values.until, "--until"),
+		limit: values.limit === undefined ? undefined : Number(values.limit),
+	};
+
+	const output = execFileSync(
+		"bunx",
+		[
+			"convex",
+			"run",
+			...(values.prod ? ["--prod"] : []),
+			"rpc/replayReconcile:exportWebhookFixtures",
+			JSON.stringify(args),
+		],
+		{ encoding: "utf8", stdio: ["ignore", "pipe", "inherit"] },
+	);
+
+	const exit = JSON.parse(output) as {
+		_tag: string;
+		value?: Array<ExportedEvent>;
+		cause?: unknown;
+	};
+	if (exit._tag !== "Success" || exit.value === undefined) {
+		throw new Error(`Export failed: ${JSON.stringify(exit.cause)}`);
+	}
+
+	const fixture: WebhookFixture = {
+		name,
+		events: exit.value.map(({ payloadJson, ...event }) => ({
+			...event,
+			payload: JSON.parse(payloadJson),
+		})),
+	};
+
+	mkdirSync(FIXTURES_DIR, { recursive: true });
+	const outputPath = resolve(FIXTURES_DIR, `${name}.json`);
+	writeFileSync(outputPath, `${JSON.stringify(fixture, null, "\t")}\n`);
+	console.log(`Wrote ${fixture.events.length} events to ${outputPath}`);
+}
+
+main();
@@ -5,7 +5,13 @@ import {
 import { convexTest, type TestConvex } from "@packages/convex-test";
 import type { SchemaDefinition } from "convex/server";
 import { Context, Effect, Layer } from "effect";
+import { vi } from "vitest";
+import { internal } from "./convex/_generated/api";
 import schema from "./convex/schema";
+import {
+	compareFixtureEvents,
+	type WebhookFixture,
+} from "./convex/shared/webhookFixtures";
 
 const modules = import.meta.glob("./convex/**/*.*s");
 
@@ -49,3 +55,126 @@ export const createConvexTestLayer = () =>
 		modules,
 		convexTest,
 	});
+
+type RepositoryPayload = {
+	id: number;
+	name: string;
+	full_name: string;
+	owner: { id: number; login: string };
+	private?: boolean;
+	visibility?: "public" | "private" | "internal";
+	default_branch?: string;
+	archived?: boolean;
+	disabled?: boolean;
+	fork?: boolean;
+};
+
+const repositoryOf = (payload: unknown): RepositoryPayload | null => {
+	if (typeof payload !== "object" || payload === null) return null;
+	const repository = (payload as { repository?: RepositoryPayload }).repository;
+	return repository?.id === undefined ? null : repository;
+};
+
+/**
+ * Replay a webhook fixture through `processWebhookEvent`, oldest first.
+ *
+ * The clock is pinned to each event's `receivedAt` while it is inserted and
+ * processed, so every timestamp the pipeline writes is the same on every
+ * run. Repositories the payloads mention are seeded from their `repository`
+ * object unless the test already inserted them.
+ */
+export const replayWebhookFixture = async (
+	t: TestConvex<SchemaType>,
+	fixture: WebhookFixture,
+) => {
+	const events = [...fixture.events].sort(compareFixtureEvents);
+	const results: Array<unknown> = [];
+	vi.useFakeTimers({ toFake: ["Date"] });
+	try {
+		for (const event of events) {
+			vi.setSystemTime(event.receivedAt);
+			const repository = repositoryOf(event.payload);
+			await t.run(async (ctx) => {
+				if (repository !== null) {
+					const existing = await ctx.db
+						.query("github_repositories")
+						.withIndex("by_githubRepoId", (q) =>
+							q.eq("githubRepoId", repository.id),
+						)
+						.first();
+					if (existing === null) {
+						await ctx.db.insert("github_repositories", {
+							githubRepoId: repository.id,
+							installationId: event.installationId ?? 0,
+							ownerId: repository.owner.id,
+							ownerLogin: repository.owner.login,
+							name: repository.name,
+							fullName: repository.full_name,
+							private: repository.private ?? false,
+							visibility:
+								repository.visibility ??
+								(repository.private ? "private" : "public"),
+							defaultBranch: repository.default_branch ?? "main",
+							archived: repository.archived ?? false,
+							disabled: repository.disabled ?? false,
+							fork: repository.fork ?? false,
+							pushedAt: null,
+							githubUpdatedAt: event.receivedAt,
+							cachedAt: event.receivedAt,
+						});
+					}
+				}
+				await ctx.db.insert("github_webhook_events_raw", {
+					deliveryId: event.deliveryId,
+					eventName: event.eventName,
+					action: event.action,
+					installationId: event.installationId,
+					repositoryId: event.repositoryId,
+					signatureValid: true,
+					payloadJson: JSON.stringify(event.payload),
+					receivedAt: event.receivedAt,
+					processState: "pending",
+					processError: null,
+					processAttempts: 0,
+					nextRetryAt: null,
+				});
+			});
+			results.push(
+				await t.mutation(internal.rpc.webhookProcessor.processWebhookEvent, {
+					deliveryId: event.deliveryId,
+				}),
+			);
+			await t.finishInProgressScheduledFunctions();
+		}
+	} finally {
+		vi.useRealTimers();
+	}
+	return results;
+};
+
+/**
+ * Every non-empty table, minus system fields, for comparing the state a
+ * replay leaves behind. Raw events drop their payload since it is the input.
+ */
+export const snapshotTables = (t: TestConvex<SchemaType>) =>
+	t.run(async (ctx) => {
+		const snapshot: Record<string, Array<Record<string, unknown>>> = {};
+		for (const table of Object.keys(schema.tables).sort()) {
+			const docs = await ctx.db
+				.query(table as keyof SchemaType["tables"])
+				.collect();
+			if (docs.length === 0) continue;
+			snapshot[table] = docs.map((doc) => {
+				const { _id, _creationTime, ...fields } = doc as Record<
+					string,
+					unknown
+				>;
+				if (table === "github_webhook_events_raw") {
+					const { payloadJson: _payloadJson, ...rest } = fields;
+					return rest;
+				}
+				return fields;
+			});
+		}
+		return snapshot;
+	});
@@ -24,6 +24,17 @@ const ISSUE_LIST_SHORTCUTS = [
 	{ keys: ["/"], description: "Focus list filter" },
 ] as const;
 
+const NOTIFICATION_SHORTCUTS = [
+	{ keys: ["j"], description: "Focus next notification" },
+	{ keys: ["k"], description: "Focus previous notification" },
+	{ keys: ["x"], description: "Select focused notification" },
+	{ keys: ["o"], description: "Open focused notification" },
+	{ keys: ["e"], description: "Mark as done" },
+	{ keys: ["shift", "i"], description: "Mark as read" },
+	{ keys: ["shift", "m"], description: "Mute thread" },
+	{ keys: ["s"], description: "Save for later" },
+] as const;
+
 const GLOBAL_SHORTCUTS = [
 	{ keys: ["cmd", "k"], description: "Open command palette" },
 	{ keys: ["?"], description: "Show keyboard shortcuts" },
@@ -122,6 +133,10 @@ export function KeyboardShortcutsDialog() {
 						title="Pull Request Detail"
 						shortcuts={DETAIL_SHORTCUTS}
 					/>
+					<ShortcutSection
+						title="Notifications"
+						shortcuts={NOTIFICATION_SHORTCUTS}
+					/>
 					<ShortcutSection title="Global" shortcuts={GLOBAL_SHORTCUTS} />
 				</div>
 			</DialogContent>
@@ -3,6 +3,7 @@ import {
 	ArrowBothIcon,
 	ArrowLeftIcon,
 	ArrowRightIcon,
+	BookmarkIcon,
 	CalendarIcon,
 	CheckCircleFillIcon,
 	CheckIcon,
@@ -11,6 +12,7 @@ import {
 	ChevronRightIcon,
 	ChevronUpIcon,
 	CircleIcon,
+	CommentDiscussionIcon,
 	CommentIcon,
 	CopyIcon,
 	DashIcon,
@@ -19,10 +21,13 @@ import {
 	DownloadIcon,
 	FileDirectoryIcon,
 	FileIcon,
+	FilterIcon,
 	GitPullRequestIcon,
 	GrabberIcon,
 	HomeIcon,
 	KebabHorizontalIcon,
+	LinkIcon,
+	MilestoneIcon,
 	MoonIcon,
 	OrganizationIcon,
 	PlayIcon,
@@ -30,6 +35,7 @@ import {
 	SearchIcon,
 	SidebarExpandIcon,
 	SignOutIcon,
+	SmileyIcon,
 	SunIcon,
 	SyncIcon,
 	TagIcon,
@@ -44,6 +50,7 @@ const ArrowLeft = ArrowLeftIcon;
 const ArrowRight = ArrowRightIcon;
 const ArrowDown = ChevronDownIcon;
 const ArrowUp = ChevronUpIcon;
+const Bookmark = BookmarkIcon;
 const Check = CheckIcon;
 const CheckCircle2 = CheckCircleFillIcon;
 const ChevronDown = ChevronDownIcon;
@@ -59,13 +66,17 @@ const Download = DownloadIcon;
 const FileText = FileIcon;
 const File = FileIcon;
 const FileCode2 = FileIcon;
+const Filter = FilterIcon;
 const Folder = FileDirectoryIcon;
 const FolderOpen = FileDirectoryIcon;
 const Activity = SyncIcon;
 const GitBranch = GitPullRequestIcon;
 const GitPullRequest = GitPullRequestIcon;
 const GitCommit = GitPullRequestIcon;
+const Link2 = LinkIcon;
 const MessageSquare = CommentIcon;
+const MessagesSquare = CommentDiscussionIcon;
+const Milestone = MilestoneIcon;
 const Eye = SearchIcon;
 const User = OrganizationIcon;
 const GripVerticalIcon = GrabberIcon;
@@ -108,6 +119,7 @@ const PanelLeftIcon = SidebarExpandIcon;
 const Play = PlayIcon;
 const RefreshCw = SyncIcon;
 const Search = SearchIcon;
+const Smile = SmileyIcon;
 const Sun = SunIcon;
 const Plus = PlusIcon;
 const Tag = TagIcon;
@@ -214,6 +226,7 @@ export {
 	ArrowUp,
 	Ban,
 	Bell,
+	Bookmark,
 	CalendarIcon,
 	Check,
 	CheckCircle2,
@@ -244,6 +257,7 @@ export {
 	FileCode2,
 	FileDiff,
 	FileText,
+	Filter,
 	Folder,
 	FolderOpen,
 	GitBranch,
@@ -257,10 +271,13 @@ export {
 	Info,
 	InfoIcon,
 	Inbox,
+	Link2,
 	ListChecks,
 	LogOut,
 	MessageCircle,
 	MessageSquare,
+	MessagesSquare,
+	Milestone,
 	MoreHorizontal,
 	MoreHorizontalIcon,
 	Moon,
@@ -281,6 +298,7 @@ export {
 	SearchIcon,
 	ShieldAlert,
 	ShieldCheck,
+	Smile,
 	Sun,
 	SunIcon,
 	Tag,
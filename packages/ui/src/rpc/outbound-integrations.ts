@@ -0,0 +1,12 @@
+"use client";
+
+import { api } from "@packages/database/convex/_generated/api";
+import type { OutboundIntegrationsModule } from "@packages/database/convex/rpc/outboundIntegrations";
+import { createRpcModuleClientContext } from "./client-context";
+
+export const {
+	RpcClientProvider: OutboundIntegrationsProvider,
+	useRpcClient: useOutboundIntegrations,
+} = createRpcModuleClientContext<OutboundIntegrationsModule>(
+	api.rpc.outboundIntegrations,
+);
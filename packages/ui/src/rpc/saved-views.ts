@@ -0,0 +1,10 @@
+"use client";
+
+import { api } from "@packages/database/convex/_generated/api";
+import type { SavedViewsModule } from "@packages/database/convex/rpc/savedViews";
+import { createRpcModuleClientContext } from "./client-context";
+
+export const {
+	RpcClientProvider: SavedViewsProvider,
+	useRpcClient: useSavedViews,
+} = createRpcModuleClientContext<SavedViewsModule>(api.rpc.savedViews);
@@ -326,8 +326,13 @@ if (convexSiteUrl) {
 }
 
 info("Required webhook events: installation, installation_repositories,");
-info("  issues, pull_request, push, check_run, member, workflow_job,");
-info("  issue_comment, pull_request_review");
+info(
+	"  issues, pull_request, push, check_run, check_suite, member, workflow_job,",
+);
+info(
+	"  issue_comment, pull_request_review, discussion, discussion_comment, label,",
+);
+info("  repository, milestone, release, status");
 
 // --- Summary ---
 